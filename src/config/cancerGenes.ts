@@ -0,0 +1,30 @@
+/**
+ * Bundled cancer gene roles for mutation-driven network personalisation.
+ *
+ * A small curated subset of well-established drivers: missense and in-frame
+ * mutations activate oncogenes and inactivate tumour suppressors. Genes with
+ * both roles depending on context (e.g. NOTCH1) are left out, so their
+ * missense mutations stay unclassified. The personalisation dialog lets users
+ * edit both lists before applying them.
+ */
+
+import type { CancerGeneRoles } from '@/lib/analysis/types';
+
+export const ONCOGENES: string[] = [
+  'AKT1', 'ALK', 'BRAF', 'CCND1', 'CDK4', 'CTNNB1', 'EGFR', 'ERBB2', 'ESR1', 'EZH2',
+  'FGFR1', 'FGFR2', 'FGFR3', 'FLT3', 'GNAQ', 'GNAS', 'HRAS', 'IDH1', 'IDH2', 'JAK2',
+  'KIT', 'KRAS', 'MAP2K1', 'MDM2', 'MET', 'MTOR', 'MYC', 'MYCN', 'NRAS', 'PDGFRA',
+  'PIK3CA', 'RAF1', 'RET', 'ROS1', 'SMO', 'SRC', 'STAT3', 'TERT',
+];
+
+export const TUMOR_SUPPRESSORS: string[] = [
+  'APC', 'ARID1A', 'ATM', 'ATR', 'AXIN1', 'BAP1', 'BRCA1', 'BRCA2', 'CDH1', 'CDKN1A',
+  'CDKN1B', 'CDKN2A', 'CHEK2', 'FBXW7', 'KEAP1', 'KMT2D', 'MLH1', 'MSH2', 'NF1', 'NF2',
+  'PALB2', 'PTCH1', 'PTEN', 'RB1', 'SMAD4', 'SMARCA4', 'STK11', 'TP53', 'TSC1', 'TSC2',
+  'VHL', 'WT1',
+];
+
+export const DEFAULT_CANCER_GENE_ROLES: CancerGeneRoles = {
+  oncogenes: ONCOGENES,
+  tumorSuppressors: TUMOR_SUPPRESSORS,
+};
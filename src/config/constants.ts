@@ -16,12 +16,81 @@ export const ANALYSIS_CONFIG = {
   // maximum steps per trajectory.
   DEFAULT_STATE_CAP: 100_000,
   DEFAULT_STEP_CAP: 10_000,
-  MAX_NODES_DETERMINISTIC: 20,
+  // Rule-based networks up to this size are enumerated exhaustively (rules are compiled to bitwise code).
+  MAX_NODES_DETERMINISTIC: 24,
+  // The deprecated src/lib/weightedDeterministicAnalysis.ts keeps the cap it was written for.
+  MAX_NODES_WEIGHTED_LEGACY: 20,
+  // Widest network whose state still packs into one 32-bit integer.
+  MAX_PACKED_STATE_NODES: 30,
+  // Asynchronous schemes build the full transition graph, so they are capped lower.
+  MAX_NODES_ASYNCHRONOUS: 16,
+  MAX_NODES_RANDOM_ORDER: 10,
+  // Symbolic (BDD) analysis is bounded by diagram size rather than state count.
+  MAX_NODES_SYMBOLIC: 100,
+  MAX_BDD_NODES: 2_000_000,
+  // Large complex attractors are summarised; only this many states are listed.
+  MAX_LISTED_ATTRACTOR_STATES: 256,
+  MAX_TRAP_SPACES: 256,
   MAX_NODES_PROBABILISTIC: 200,
   PROBABILISTIC_DEFAULT_NOISE: 0.25,
   PROBABILISTIC_DEFAULT_DEGRADATION: 0.1,
   PROBABILISTIC_DEFAULT_ITERATIONS: 500,
   PROBABILISTIC_DEFAULT_TOLERANCE: 1e-4,
+  // Exact probabilistic analysis holds the full 2^n state distribution.
+  MAX_NODES_PROBABILISTIC_EXACT: 16,
+  MAX_LISTED_PROBABILITY_STATES: 4096,
+  // GMRES settings for the exact stationary distribution (iterations count matrix-vector products).
+  PROBABILISTIC_EXACT_MAX_ITERATIONS: 5_000,
+  PROBABILISTIC_EXACT_TOLERANCE: 1e-10,
+  PROBABILISTIC_EXACT_RESTART: 40,
+  // Grid points of one parameter sweep (each is a full probabilistic analysis).
+  MAX_SWEEP_POINTS: 2_500,
+  SWEEP_DEFAULT_STEPS: 21,
+  // Edge-weight sensitivity reruns weighted analysis once per perturbation.
+  MAX_SENSITIVITY_RUNS: 2_000,
+  SENSITIVITY_DEFAULT_STATE_CAP: 4_096,
+  // Intervention search reruns rule-based analysis once per knock-in/knock-out set.
+  INTERVENTION_SEARCH_DEFAULT_BUDGET: 500,
+  MAX_INTERVENTION_SEARCH_BUDGET: 5_000,
+  INTERVENTION_SEARCH_DEFAULT_BEAM: 20,
+  MAX_INTERVENTION_SETS_LISTED: 50,
+  // Combination screens analyse every candidate alone and every pair of them.
+  MAX_COMBINATION_CANDIDATES: 16,
+  // Patient personalisation: genes ranked below this share of the cohort (or of the sample) count as not expressed.
+  PATIENT_EXPRESSION_OFF_QUANTILE: 0.1,
+  // Expression personalisation: quantile steps kept per reference gene, and the bias and basal
+  // activity shift of a node whose gene sits at the cohort's minimum (-) or maximum (+).
+  EXPRESSION_REFERENCE_QUANTILE_STEPS: 20,
+  EXPRESSION_ACTIVITY_GAIN: 1,
+  // Differential expression: genes with a lower mean normalised count are not tested.
+  DE_MIN_MEAN_COUNT: 10,
+  // Drug model: Hill dose-response defaults and the dose-response curve resolution.
+  DRUG_DEFAULT_EC50: 100,
+  DRUG_DEFAULT_HILL: 1,
+  DOSE_RESPONSE_DEFAULT_STEPS: 25,
+  MAX_DOSE_RESPONSE_STEPS: 500,
+  // Saved attractors (cell fates) match new ones at this share of agreeing node values.
+  ATTRACTOR_MATCH_MIN_SIMILARITY: 0.9,
+  // A fate definition applies when this share of its marker conditions holds, averaged over the attractor's states.
+  FATE_RULE_MIN_CONFIDENCE: 0.75,
+  // Stochastic time-course simulation defaults and bounds.
+  SIMULATION_DEFAULT_TRAJECTORIES: 100,
+  SIMULATION_DEFAULT_STEPS: 50,
+  MAX_SIMULATION_TRAJECTORIES: 10_000,
+  MAX_SIMULATION_STEPS: 1_000,
+  // Probabilistic Boolean networks: exact Markov chain up to this many nodes, Monte Carlo beyond.
+  MAX_NODES_PBN_EXACT: 12,
+  // Exact PBN chains with more transitions than this fall back to Monte Carlo.
+  MAX_PBN_TRANSITIONS: 2_000_000,
+  PBN_DEFAULT_MAX_ITERATIONS: 10_000,
+  PBN_DEFAULT_TOLERANCE: 1e-9,
+  PBN_DEFAULT_TRAJECTORIES: 200,
+  PBN_DEFAULT_BURN_IN: 200,
+  PBN_DEFAULT_SAMPLES: 1_000,
+  // States explored from one Monte Carlo trajectory when looking for its attractor.
+  MAX_PBN_ATTRACTOR_SEARCH_STATES: 4096,
+  // How many initial states (or iterations) pass between progress callbacks.
+  PROGRESS_REPORT_INTERVAL: 2048,
 } as const;
 
 // UI Configuration
@@ -43,7 +112,7 @@ export const FEATURES = {
 /**
  * Compute adaptive state/step caps that keep total work within a browser-safe budget.
  *
- * For small networks the full state space is enumerated.
+ * For small networks (≤ `fullEnumNodeLimit` nodes) the full state space is enumerated.
  * For large networks both caps are scaled down so that
  *   stateCap × stepCap × costPerStep  ≤  COMPUTATION_BUDGET.
  */
@@ -52,20 +121,18 @@ export function computeAdaptiveCaps(
   edgeOrComplexityCount: number,
   requestedStateCap: number = ANALYSIS_CONFIG.DEFAULT_STATE_CAP,
   requestedStepCap: number = ANALYSIS_CONFIG.DEFAULT_STEP_CAP,
+  fullEnumNodeLimit: number = 16,
 ): { stateCap: number; stepCap: number } {
   // ~200 M operations → typically finishes in 1-3 s on modern hardware.
   const BUDGET = 200_000_000;
   const MIN_SAMPLES = 500;
   const MIN_STEPS = 200;
 
-  // Networks with ≤ this many nodes are always fully enumerated (no sampling).
-  const FULL_ENUM_NODE_LIMIT = 16;
-
   const costPerStep = Math.max(nodeCount, edgeOrComplexityCount, 1);
   const totalStateSpace = nodeCount <= 30 ? 2 ** nodeCount : Number.POSITIVE_INFINITY;
 
-  // Always enumerate fully when the network is small enough (≤ 16 nodes → 65 536 states).
-  if (nodeCount <= FULL_ENUM_NODE_LIMIT && Number.isFinite(totalStateSpace)) {
+  // Always enumerate fully when the network is small enough (by default ≤ 16 nodes → 65 536 states).
+  if (nodeCount <= fullEnumNodeLimit && Number.isFinite(totalStateSpace)) {
     return { stateCap: totalStateSpace, stepCap: requestedStepCap };
   }
 
@@ -0,0 +1,72 @@
+/**
+ * Bundled drug–target table for patient drug scores.
+ *
+ * A small curated subset of targeted oncology drugs: each row links a drug to a
+ * gene it inhibits or activates directly, through its pathway or through a
+ * synthetic-lethal dependency, or to a gene whose alteration predicts response
+ * (biomarker). Cancer types use the values of the patient dialog's selector.
+ */
+
+import type { DrugTargetEntry } from '@/lib/analysis/types';
+
+export const DRUG_TARGETS: DrugTargetEntry[] = [
+  // EGFR / HER2
+  { drug: 'Erlotinib', gene: 'EGFR', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['lung'] },
+  { drug: 'Osimertinib', gene: 'EGFR', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['lung'] },
+  { drug: 'Cetuximab', gene: 'EGFR', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['colon'] },
+  { drug: 'Cetuximab', gene: 'KRAS', status: 'approved', interaction: 'biomarker', action: 'inhibitor', cancerTypes: ['colon'] },
+  { drug: 'Lapatinib', gene: 'ERBB2', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['breast'] },
+  { drug: 'Lapatinib', gene: 'EGFR', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['breast'] },
+  { drug: 'Trastuzumab', gene: 'ERBB2', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['breast'] },
+  // MAPK pathway
+  { drug: 'Vemurafenib', gene: 'BRAF', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['melanoma'] },
+  { drug: 'Dabrafenib', gene: 'BRAF', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['melanoma', 'lung'] },
+  { drug: 'Trametinib', gene: 'MAP2K1', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['melanoma', 'lung'] },
+  { drug: 'Trametinib', gene: 'MAP2K2', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['melanoma', 'lung'] },
+  { drug: 'Trametinib', gene: 'MAPK1', status: 'approved', interaction: 'pathway-member', action: 'inhibitor', cancerTypes: ['melanoma', 'lung'] },
+  { drug: 'Trametinib', gene: 'BRAF', status: 'approved', interaction: 'biomarker', action: 'inhibitor', cancerTypes: ['melanoma', 'lung'] },
+  { drug: 'Sotorasib', gene: 'KRAS', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['lung'] },
+  { drug: 'Ulixertinib', gene: 'MAPK1', status: 'clinical-trials', interaction: 'direct-target', action: 'inhibitor' },
+  { drug: 'Ulixertinib', gene: 'MAPK3', status: 'clinical-trials', interaction: 'direct-target', action: 'inhibitor' },
+  // PI3K / AKT / mTOR
+  { drug: 'Alpelisib', gene: 'PIK3CA', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['breast'] },
+  { drug: 'Capivasertib', gene: 'AKT1', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['breast'] },
+  { drug: 'Capivasertib', gene: 'PTEN', status: 'approved', interaction: 'biomarker', action: 'inhibitor', cancerTypes: ['breast'] },
+  { drug: 'Everolimus', gene: 'MTOR', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['breast'] },
+  // Cell cycle
+  { drug: 'Palbociclib', gene: 'CDK4', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['breast'] },
+  { drug: 'Palbociclib', gene: 'CDK6', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['breast'] },
+  { drug: 'Palbociclib', gene: 'RB1', status: 'approved', interaction: 'biomarker', action: 'inhibitor', cancerTypes: ['breast'] },
+  { drug: 'Adavosertib', gene: 'WEE1', status: 'clinical-trials', interaction: 'direct-target', action: 'inhibitor' },
+  { drug: 'Adavosertib', gene: 'TP53', status: 'clinical-trials', interaction: 'gene-dependency', action: 'inhibitor' },
+  // DNA repair
+  { drug: 'Olaparib', gene: 'PARP1', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['breast', 'prostate'] },
+  { drug: 'Olaparib', gene: 'BRCA1', status: 'approved', interaction: 'biomarker', action: 'inhibitor', cancerTypes: ['breast', 'prostate'] },
+  { drug: 'Olaparib', gene: 'BRCA2', status: 'approved', interaction: 'biomarker', action: 'inhibitor', cancerTypes: ['breast', 'prostate'] },
+  { drug: 'Ceralasertib', gene: 'ATR', status: 'clinical-trials', interaction: 'direct-target', action: 'inhibitor' },
+  { drug: 'Ceralasertib', gene: 'ATM', status: 'clinical-trials', interaction: 'biomarker', action: 'inhibitor' },
+  // Apoptosis / p53
+  { drug: 'Venetoclax', gene: 'BCL2', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['leukemia', 'lymphoma'] },
+  { drug: 'Navitoclax', gene: 'BCL2', status: 'clinical-trials', interaction: 'direct-target', action: 'inhibitor' },
+  { drug: 'Navitoclax', gene: 'BCL2L1', status: 'clinical-trials', interaction: 'direct-target', action: 'inhibitor' },
+  { drug: 'Idasanutlin', gene: 'MDM2', status: 'clinical-trials', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['leukemia'] },
+  { drug: 'Idasanutlin', gene: 'TP53', status: 'clinical-trials', interaction: 'pathway-member', action: 'activator', cancerTypes: ['leukemia'] },
+  { drug: 'Eprenetapopt', gene: 'TP53', status: 'experimental', interaction: 'direct-target', action: 'activator' },
+  // Kinase fusions and hormone receptors
+  { drug: 'Imatinib', gene: 'ABL1', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['leukemia'] },
+  { drug: 'Imatinib', gene: 'KIT', status: 'approved', interaction: 'direct-target', action: 'inhibitor' },
+  { drug: 'Crizotinib', gene: 'ALK', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['lung'] },
+  { drug: 'Crizotinib', gene: 'MET', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['lung'] },
+  { drug: 'Ibrutinib', gene: 'BTK', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['leukemia', 'lymphoma'] },
+  { drug: 'Enzalutamide', gene: 'AR', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['prostate'] },
+  { drug: 'Tamoxifen', gene: 'ESR1', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['breast'] },
+  // Other pathways
+  { drug: 'Ruxolitinib', gene: 'JAK1', status: 'approved', interaction: 'direct-target', action: 'inhibitor' },
+  { drug: 'Ruxolitinib', gene: 'JAK2', status: 'approved', interaction: 'direct-target', action: 'inhibitor' },
+  { drug: 'Ruxolitinib', gene: 'STAT3', status: 'approved', interaction: 'pathway-member', action: 'inhibitor' },
+  { drug: 'Bortezomib', gene: 'NFKB1', status: 'approved', interaction: 'pathway-member', action: 'inhibitor', cancerTypes: ['lymphoma'] },
+  { drug: 'Vismodegib', gene: 'SMO', status: 'approved', interaction: 'direct-target', action: 'inhibitor' },
+  { drug: 'Tazemetostat', gene: 'EZH2', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['lymphoma'] },
+  { drug: 'Tankyrase inhibitor XAV939', gene: 'CTNNB1', status: 'experimental', interaction: 'pathway-member', action: 'inhibitor', cancerTypes: ['colon'] },
+  { drug: 'Tankyrase inhibitor XAV939', gene: 'APC', status: 'experimental', interaction: 'biomarker', action: 'inhibitor', cancerTypes: ['colon'] },
+];
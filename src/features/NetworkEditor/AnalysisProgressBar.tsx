@@ -0,0 +1,46 @@
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { AnalysisProgress } from '@/lib/analysis/types';
+
+interface AnalysisProgressBarProps {
+  label: string;
+  progress: AnalysisProgress | null;
+  onCancel?: () => void;
+  /** Noun used for the work units, e.g. "states" or "iterations". */
+  unit?: string;
+}
+
+/**
+ * Compact progress row for a running worker-backed analysis with a Cancel action.
+ */
+export function AnalysisProgressBar({ label, progress, onCancel, unit = 'states' }: AnalysisProgressBarProps) {
+  const percent = progress && progress.total > 0
+    ? Math.min(100, Math.round((progress.explored / progress.total) * 100))
+    : null;
+
+  return (
+    <div className="rounded border border-primary/20 bg-primary/5 px-3 py-2 space-y-1.5">
+      <div className="flex items-center gap-2">
+        <span className="animate-spin h-3 w-3 border-2 border-primary border-t-transparent rounded-full shrink-0" />
+        <span className="text-xs font-medium text-primary flex-1">{label}</span>
+        {progress && (
+          <span className="text-[10px] text-muted-foreground font-mono">
+            {progress.explored.toLocaleString()} / {progress.total.toLocaleString()} {unit}
+          </span>
+        )}
+        {onCancel && (
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs gap-1" onClick={onCancel}>
+            <X className="w-3 h-3" />
+            Cancel
+          </Button>
+        )}
+      </div>
+      <div className="w-full h-1.5 bg-muted rounded-full overflow-hidden">
+        <div
+          className="h-full bg-primary rounded-full transition-[width] duration-200"
+          style={{ width: percent === null ? '100%' : `${percent}%`, opacity: percent === null ? 0.3 : 1 }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -10,15 +10,17 @@ type Props = {
   states: AttractorState[];
   className?: string;
   nodeLabels?: string[]; // Optional node labels for state interpretation
+  transitions?: Array<[number, number]>; // Explicit edges between states (complex attractors)
 };
 
 /*
   Renders a small Cytoscape graph for a single attractor cycle.
   - If period === 1: single node with a self-loop
   - If period > 1: nodes S1..Sk connected in a directed cycle
+  - If transitions are given (complex attractors): nodes S1..Sk connected by those edges
   - Interactive features: hover tooltips, zoom, pan, click to highlight
 */
-const AttractorGraph: React.FC<Props> = ({ states, className, nodeLabels }) => {
+const AttractorGraph: React.FC<Props> = ({ states, className, nodeLabels, transitions }) => {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const cyRef = useRef<Core | null>(null);
   const [tooltip, setTooltip] = useState<{ text: string; x: number; y: number } | null>(null);
@@ -35,7 +37,11 @@ const AttractorGraph: React.FC<Props> = ({ states, className, nodeLabels }) => {
         binary: s.binary,
       },
     }));
-    const edges = period === 1
+    const edges = transitions
+      ? transitions.map(([from, to], i) => ({
+          data: { id: `e-${i}`, source: `s-${from}`, target: `s-${to}` },
+        }))
+      : period === 1
       ? [{ data: { id: 'e-0', source: 's-0', target: 's-0' }, classes: 'self-loop' }]
       : states.map((_, i) => ({
           data: {
@@ -45,7 +51,7 @@ const AttractorGraph: React.FC<Props> = ({ states, className, nodeLabels }) => {
           },
         }));
     return [...nodes, ...edges];
-  }, [states, period]);
+  }, [states, period, transitions]);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -151,7 +157,8 @@ const AttractorGraph: React.FC<Props> = ({ states, className, nodeLabels }) => {
       cy.elements().remove();
       cy.add(elements as any);
     });
-    const layout = cy.layout({ name: period > 1 ? 'circle' : 'grid', fit: true, animate: false });
+    const layoutName = transitions && period > 2 ? 'cose' : period > 1 ? 'circle' : 'grid';
+    const layout = cy.layout({ name: layoutName, fit: true, animate: false });
     layout.run();
     setTimeout(() => {
       cy.resize();
@@ -161,7 +168,7 @@ const AttractorGraph: React.FC<Props> = ({ states, className, nodeLabels }) => {
     return () => {
       // keep instance alive
     };
-  }, [elements, period, nodeLabels]);
+  }, [elements, period, nodeLabels, transitions]);
 
   // Zoom controls
   const handleZoomIn = () => cyRef.current?.zoom(cyRef.current.zoom() * 1.2);
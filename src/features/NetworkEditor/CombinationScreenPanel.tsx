@@ -0,0 +1,353 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Plotly from 'plotly.js-dist-min';
+import { Download, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+import { therapyLabel } from '@/lib/applyTherapies';
+import { combinationMatrix, combinationScreenToCsv, type CombinationMetric } from '@/lib/combinationScreen';
+import { interventionTherapies } from '@/lib/interventionSearch';
+import { formatFateConditions, parseFateConditions } from '@/lib/fateClassification';
+import type { CombinationScreenOptions, CombinationScreenResult, InterventionKind, InterventionPerturbation } from '@/lib/analysis/types';
+import { downloadTextAsFile } from '@/lib/download';
+import type { FateDefinition, TherapeuticIntervention } from '@/types/network';
+
+const CUSTOM_TARGET = 'custom';
+
+const METRIC_OPTIONS: Array<{ value: CombinationMetric; label: string }> = [
+  { value: 'bliss', label: 'Bliss excess' },
+  { value: 'hsa', label: 'HSA excess' },
+  { value: 'share', label: 'Target basin share' },
+];
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+const formatScore = (score: number) => `${score >= 0 ? '+' : ''}${score.toFixed(3)}`;
+
+const targetLabel = (target: Record<string, 0 | 1>) =>
+  formatFateConditions(Object.entries(target).map(([node, value]) => ({ node, active: value === 1 })));
+
+type Props = {
+  result: CombinationScreenResult;
+  networkName?: string;
+};
+
+function CombinationHeatmap({ result, metric }: { result: CombinationScreenResult; metric: CombinationMetric }) {
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element) return;
+
+    const isShare = metric === 'share';
+    const title = METRIC_OPTIONS.find(option => option.value === metric)!.label;
+    const data: Partial<Plotly.PlotData>[] = [{
+      type: 'heatmap',
+      x: result.labels,
+      y: result.labels,
+      z: combinationMatrix(result, metric),
+      // Synergy diverges around 0: red above (synergy), blue below (antagonism)
+      ...(isShare
+        ? { zmin: 0, zmax: 1, colorscale: 'Viridis' }
+        : { zmin: -1, zmax: 1, zmid: 0, colorscale: 'RdBu', reversescale: true }),
+      colorbar: { title: { text: title } },
+      hoverongaps: false,
+      hovertemplate: `%{y} + %{x}<br>${title}: %{z:.3f}<extra></extra>`,
+    }];
+
+    Plotly.newPlot(
+      element,
+      data,
+      {
+        xaxis: { tickangle: -30, automargin: true },
+        yaxis: { autorange: 'reversed', automargin: true },
+        autosize: true,
+        margin: { l: 10, r: 10, t: 10, b: 10 },
+        paper_bgcolor: '#ffffff',
+        plot_bgcolor: '#fafafa',
+      },
+      { responsive: true, displaylogo: false },
+    );
+
+    return () => {
+      try {
+        Plotly.purge(element);
+      } catch (err) {
+        console.error('Failed to clean up Plotly:', err);
+      }
+    };
+  }, [result, metric]);
+
+  return <div ref={plotRef} className="w-full h-[420px]" />;
+}
+
+/*
+  Pairwise combination screen.
+  - Heatmap of Bliss or HSA excess (or the raw target basin share) over every candidate pair
+  - Pairs listed by Bliss excess: positive means synergy, negative antagonism
+*/
+const CombinationScreenPanel: React.FC<Props> = ({ result, networkName }) => {
+  const [metric, setMetric] = useState<CombinationMetric>('bliss');
+
+  const handleExport = () => {
+    downloadTextAsFile(`combination-screen-${networkName || 'network'}-${Date.now()}.csv`, combinationScreenToCsv(result));
+  };
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-purple-50/50 dark:bg-purple-950/30">
+        <span className="text-xs font-semibold uppercase tracking-wide">Combination Screen</span>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span className="font-mono">{targetLabel(result.target)}</span>
+          <span>{result.labels.length} candidates · {result.pairs.length} pairs</span>
+          <span>Baseline {formatShare(result.baselineShare)}</span>
+          <Button size="sm" variant="outline" className="h-7 text-xs gap-1.5" onClick={handleExport}>
+            <Download className="w-3.5 h-3.5" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+      <div className="p-3 space-y-2">
+        {result.warnings.length > 0 && (
+          <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1.5">
+            {result.warnings.map((w, i) => <span key={i} className="block">• {w}</span>)}
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Label className="text-xs">Show</Label>
+          <Select value={metric} onValueChange={val => setMetric(val as CombinationMetric)}>
+            <SelectTrigger className="h-8 w-56 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {METRIC_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <CombinationHeatmap result={result} metric={metric} />
+        <div className="border rounded bg-background/50 overflow-auto max-h-[280px]">
+          <table className="w-full text-[11px]">
+            <thead className="bg-muted/30 text-muted-foreground sticky top-0">
+              <tr>
+                <th className="px-2 py-1 text-left font-medium">Pair</th>
+                <th className="px-2 py-1 text-right font-medium">Alone</th>
+                <th className="px-2 py-1 text-right font-medium">Together</th>
+                <th className="px-2 py-1 text-right font-medium">Bliss</th>
+                <th className="px-2 py-1 text-right font-medium">HSA</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.pairs.map(pair => (
+                <tr key={`${pair.a}-${pair.b}`} className="border-t border-muted/50">
+                  <td className="px-2 py-0.5">{result.labels[pair.a]} + {result.labels[pair.b]}</td>
+                  <td className="px-2 py-0.5 text-right font-mono">
+                    {formatShare(result.singleShares[pair.a])} / {formatShare(result.singleShares[pair.b])}
+                  </td>
+                  <td className="px-2 py-0.5 text-right font-mono">{formatShare(pair.share)}</td>
+                  <td className={`px-2 py-0.5 text-right font-mono ${pair.bliss > 1e-9 ? 'text-red-700' : pair.bliss < -1e-9 ? 'text-blue-700' : ''}`}>
+                    {formatScore(pair.bliss)}
+                  </td>
+                  <td className="px-2 py-0.5 text-right font-mono">{formatScore(pair.hsa)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-[10px] text-muted-foreground">
+          A candidate's effect is the share of non-target basins it turns into the target phenotype. Bliss excess compares
+          a pair with independent action, HSA excess with its stronger member; above 0 is synergy, below 0 antagonism.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+type DialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  nodes: Array<{ id: string; label: string }>;
+  /** Interventions from the Therapeutics panel, offered as candidates. */
+  interventions: TherapeuticIntervention[];
+  fateDefinitions: FateDefinition[];
+  isRunning: boolean;
+  onRun: (options: Omit<CombinationScreenOptions, 'analysis' | 'onProgress'> & { stateCap: number }) => void;
+};
+
+/** Screen set-up: the candidate interventions, the phenotype readout and the states per run. */
+export function CombinationScreenDialog({ open, onOpenChange, nodes, interventions, fateDefinitions, isRunning, onRun }: DialogProps) {
+  const [targetId, setTargetId] = useState<string>(fateDefinitions[0]?.id ?? CUSTOM_TARGET);
+  const [customTarget, setCustomTarget] = useState('');
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [perturbations, setPerturbations] = useState<InterventionPerturbation[]>([]);
+  const [newNode, setNewNode] = useState('');
+  const [newKind, setNewKind] = useState<InterventionKind>('knock-out');
+  const [stateCap, setStateCap] = useState(String(ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const definition = fateDefinitions.find(d => d.id === targetId);
+  const included = interventions.filter(t => !excluded.has(t.id));
+  const candidateCount = included.length + perturbations.length;
+
+  const toggleIntervention = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  const handleAddPerturbation = () => {
+    if (!newNode || perturbations.some(p => p.node === newNode && p.kind === newKind)) return;
+    setPerturbations(prev => [...prev, { node: newNode, kind: newKind }]);
+    setNewNode('');
+  };
+
+  const handleSubmit = () => {
+    let conditions = definition?.conditions ?? [];
+    if (!definition) {
+      const parsed = parseFateConditions(customTarget);
+      if (parsed.errors.length > 0) {
+        setFormError(parsed.errors[0]);
+        return;
+      }
+      conditions = parsed.conditions;
+    }
+    if (candidateCount < 2 || candidateCount > ANALYSIS_CONFIG.MAX_COMBINATION_CANDIDATES) {
+      setFormError(`Select 2 to ${ANALYSIS_CONFIG.MAX_COMBINATION_CANDIDATES} candidate interventions.`);
+      return;
+    }
+    const cap = parseInt(stateCap, 10);
+    if (!(cap > 0)) {
+      setFormError('States per run must be a positive integer.');
+      return;
+    }
+    setFormError(null);
+    onRun({
+      candidates: [...included, ...interventionTherapies(perturbations)],
+      target: Object.fromEntries(conditions.map(c => [c.node, c.active ? 1 : 0])),
+      // A fate counts as reached the way attractors are classified into it
+      minMatch: definition ? ANALYSIS_CONFIG.FATE_RULE_MIN_CONFIDENCE : 1,
+      stateCap: cap,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Combination Screen</DialogTitle>
+          <DialogDescription>
+            Apply every candidate alone and in pairs, and score each pair's effect on the target phenotype for synergy.
+          </DialogDescription>
+        </DialogHeader>
+
+        {formError && (
+          <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded">{formError}</div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Target phenotype</Label>
+            <Select value={definition ? targetId : CUSTOM_TARGET} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {fateDefinitions.map(d => (
+                  <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_TARGET}>Node values…</SelectItem>
+              </SelectContent>
+            </Select>
+            {definition ? (
+              <p className="text-xs text-muted-foreground font-mono">{formatFateConditions(definition.conditions)}</p>
+            ) : (
+              <Input
+                placeholder="e.g. Casp3 ON & Bcl2 OFF"
+                value={customTarget}
+                onChange={(e) => setCustomTarget(e.target.value)}
+                className="font-mono text-xs"
+              />
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Candidates ({candidateCount} of at most {ANALYSIS_CONFIG.MAX_COMBINATION_CANDIDATES})</Label>
+            <div className="border rounded max-h-48 overflow-y-auto p-2 space-y-0.5">
+              {interventions.map(therapy => (
+                <div key={therapy.id} className="flex items-center gap-2 py-0.5">
+                  <Checkbox
+                    id={`combination-${therapy.id}`}
+                    checked={!excluded.has(therapy.id)}
+                    onCheckedChange={() => toggleIntervention(therapy.id)}
+                  />
+                  <Label htmlFor={`combination-${therapy.id}`} className="text-xs font-normal">{therapyLabel(therapy)}</Label>
+                </div>
+              ))}
+              {perturbations.map((p, i) => (
+                <div key={`${p.kind}:${p.node}`} className="flex items-center justify-between gap-2 py-0.5">
+                  <span className="text-xs pl-6">{p.node} {p.kind === 'knock-out' ? 'KO' : 'KI'}</span>
+                  <button
+                    onClick={() => setPerturbations(prev => prev.filter((_, j) => j !== i))}
+                    className="p-0.5 text-red-500 hover:text-red-700"
+                    aria-label="Remove candidate"
+                  >
+                    <X className="size-3" />
+                  </button>
+                </div>
+              ))}
+              {candidateCount === 0 && (
+                <p className="text-xs text-muted-foreground italic">No candidates; add interventions below or in the Therapeutics panel.</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={newNode} onValueChange={setNewNode}>
+                <SelectTrigger className="h-8 text-xs flex-1">
+                  <SelectValue placeholder="Node" />
+                </SelectTrigger>
+                <SelectContent>
+                  {nodes.map(node => (
+                    <SelectItem key={node.id} value={node.id} className="text-xs">{node.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={newKind} onValueChange={val => setNewKind(val as InterventionKind)}>
+                <SelectTrigger className="h-8 w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="knock-out" className="text-xs">Knock-out</SelectItem>
+                  <SelectItem value="knock-in" className="text-xs">Knock-in</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="outline" className="h-8 text-xs gap-1" onClick={handleAddPerturbation} disabled={!newNode}>
+                <Plus className="w-3 h-3" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="combinationStateCap">States per run</Label>
+            <Input id="combinationStateCap" type="number" min="1" step="1" value={stateCap} onChange={(e) => setStateCap(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isRunning}>
+            {isRunning ? 'Running…' : 'Run Screen'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default CombinationScreenPanel;
@@ -0,0 +1,288 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Plotly from 'plotly.js-dist-min';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+import { doseResponseToCsv } from '@/lib/analysis/doseResponse';
+import type { DoseResponseOptions, DoseResponseResult, DrugModulation } from '@/lib/analysis/types';
+import { downloadTextAsFile } from '@/lib/download';
+
+// Modes with a quantitative effect (see drugModel.ts)
+const MODE_OPTIONS: Array<{ value: DrugModulation; label: string }> = [
+  { value: 'inhibit', label: 'Inhibit (scale outgoing weights down)' },
+  { value: 'enhance', label: 'Enhance (scale outgoing weights up)' },
+  { value: 'suppress', label: 'Suppress (lower its bias)' },
+  { value: 'activate', label: 'Activate (raise its bias)' },
+];
+
+type Props = {
+  result: DoseResponseResult;
+  networkName?: string;
+};
+
+function DoseResponsePlot({ result }: { result: DoseResponseResult }) {
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element) return;
+
+    const output = result.nodeLabels[result.outputNode] ?? result.outputNode;
+    const unit = result.drug.unit ? ` (${result.drug.unit})` : '';
+    const data: Partial<Plotly.PlotData>[] = [
+      {
+        type: 'scatter',
+        mode: 'lines+markers',
+        marker: { size: 4 },
+        name: `P(${output})`,
+        x: result.doses,
+        y: result.probabilities,
+        hovertemplate: `${output}<br>dose %{x:.3g}: %{y:.3f}<extra></extra>`,
+      },
+      {
+        type: 'scatter',
+        mode: 'lines',
+        line: { dash: 'dot', width: 1 },
+        name: 'Drug effect',
+        x: result.doses,
+        y: result.effects,
+        hovertemplate: `effect<br>dose %{x:.3g}: %{y:.3f}<extra></extra>`,
+      },
+    ];
+    const { halfResponseDose: halfDose, logScale } = result;
+
+    Plotly.newPlot(
+      element,
+      data,
+      {
+        xaxis: { title: { text: `Dose of ${result.nodeLabels[result.drug.node] ?? result.drug.node}${unit}` }, type: logScale ? 'log' : 'linear', zeroline: false },
+        yaxis: { title: { text: 'P(active) / effect' }, range: [-0.02, 1.02] },
+        legend: { font: { size: 10 } },
+        ...(halfDose !== null && {
+          shapes: [{ type: 'line', x0: halfDose, x1: halfDose, yref: 'paper', y0: 0, y1: 1, line: { dash: 'dash', width: 1, color: '#9333ea' } }],
+          annotations: [{ x: logScale ? Math.log10(halfDose) : halfDose, yref: 'paper', y: 1, text: `half response ${halfDose.toPrecision(3)}`, showarrow: false, yanchor: 'bottom', font: { size: 10 } }],
+        }),
+        autosize: true,
+        margin: { l: 60, r: 10, t: 20, b: 45 },
+        paper_bgcolor: '#ffffff',
+        plot_bgcolor: '#fafafa',
+      },
+      { responsive: true, displaylogo: false },
+    );
+
+    return () => {
+      try {
+        Plotly.purge(element);
+      } catch (err) {
+        console.error('Failed to clean up Plotly:', err);
+      }
+    };
+  }, [result]);
+
+  return <div ref={plotRef} className="w-full h-[360px]" />;
+}
+
+/*
+  Dose-response curve.
+  - Steady-state activation probability of the output node against the dose of one drug
+  - Dotted: the drug's own effect (Hill curve); dashed line: dose of half response
+*/
+const DoseResponsePanel: React.FC<Props> = ({ result, networkName }) => {
+  const target = result.nodeLabels[result.drug.node] ?? result.drug.node;
+  const output = result.nodeLabels[result.outputNode] ?? result.outputNode;
+
+  const handleExport = () => {
+    downloadTextAsFile(`dose-response-${networkName || 'network'}-${Date.now()}.csv`, doseResponseToCsv(result));
+  };
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-purple-50/50 dark:bg-purple-950/30">
+        <span className="text-xs font-semibold uppercase tracking-wide">Dose Response</span>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span>{result.drug.mode} {target} → {output}</span>
+          <span>{result.doses.length} doses</span>
+          {result.halfResponseDose !== null && (
+            <span>half response at {result.halfResponseDose.toPrecision(3)}{result.drug.unit ? ` ${result.drug.unit}` : ''}</span>
+          )}
+          <Button size="sm" variant="outline" className="h-7 text-xs gap-1.5" onClick={handleExport}>
+            <Download className="w-3.5 h-3.5" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+      <div className="p-3 space-y-2">
+        {result.warnings.length > 0 && (
+          <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1.5">
+            {result.warnings.map((w, i) => <span key={i} className="block">• {w}</span>)}
+          </div>
+        )}
+        <DoseResponsePlot result={result} />
+      </div>
+    </div>
+  );
+};
+
+type DialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  nodes: Array<{ id: string; label: string }>;
+  isRunning: boolean;
+  onRun: (options: Pick<DoseResponseOptions, 'drug' | 'outputNode' | 'from' | 'to' | 'steps' | 'logScale'>) => void;
+};
+
+/** Dose-response set-up: the drug (target, mode, potency), the output node and the dose range. */
+export function DoseResponseDialog({ open, onOpenChange, nodes, isRunning, onRun }: DialogProps) {
+  const [target, setTarget] = useState('');
+  const [mode, setMode] = useState<DrugModulation>('inhibit');
+  const [ec50, setEc50] = useState(String(ANALYSIS_CONFIG.DRUG_DEFAULT_EC50));
+  const [hill, setHill] = useState(String(ANALYSIS_CONFIG.DRUG_DEFAULT_HILL));
+  const [unit, setUnit] = useState('nM');
+  const [outputNode, setOutputNode] = useState('');
+  const [from, setFrom] = useState('1');
+  const [to, setTo] = useState('10000');
+  const [steps, setSteps] = useState(String(ANALYSIS_CONFIG.DOSE_RESPONSE_DEFAULT_STEPS));
+  const [logScale, setLogScale] = useState(true);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = () => {
+    if (!target || !outputNode) {
+      setFormError('Select the drug target and the output node.');
+      return;
+    }
+    const parsed = { ec50: parseFloat(ec50), hill: parseFloat(hill), from: parseFloat(from), to: parseFloat(to), steps: Number(steps) };
+    if (!(parsed.ec50 > 0) || !(parsed.hill > 0)) {
+      setFormError('EC50 and the Hill coefficient must be positive.');
+      return;
+    }
+    if (!Number.isFinite(parsed.from) || !Number.isFinite(parsed.to) || parsed.from < 0 || parsed.to <= parsed.from) {
+      setFormError('The dose range needs 0 ≤ from < to.');
+      return;
+    }
+    if (logScale && parsed.from <= 0) {
+      setFormError('A log-scale dose range must start above 0.');
+      return;
+    }
+    if (!Number.isInteger(parsed.steps) || parsed.steps < 2 || parsed.steps > ANALYSIS_CONFIG.MAX_DOSE_RESPONSE_STEPS) {
+      setFormError(`Doses must be a whole number from 2 to ${ANALYSIS_CONFIG.MAX_DOSE_RESPONSE_STEPS}.`);
+      return;
+    }
+    setFormError(null);
+    onRun({
+      drug: { node: target, mode, ec50: parsed.ec50, hill: parsed.hill, ...(unit.trim() && { unit: unit.trim() }) },
+      outputNode,
+      from: parsed.from,
+      to: parsed.to,
+      steps: parsed.steps,
+      logScale,
+    });
+  };
+
+  const nodeSelect = (id: string, value: string, onChange: (value: string) => void, placeholder: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="h-9 text-sm">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {nodes.map(node => (
+          <SelectItem key={node.id} value={node.id}>{node.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Dose Response</DialogTitle>
+          <DialogDescription>
+            Rerun the probabilistic analysis over a range of doses of one drug; the other settings, and the doses of the therapies in the sidebar, come from the Probabilistic Analysis dialog and the Therapeutics panel.
+          </DialogDescription>
+        </DialogHeader>
+
+        {formError && (
+          <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded">{formError}</div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="dose-target" className="text-xs">Drug target</Label>
+              {nodeSelect('dose-target', target, setTarget, 'Select node')}
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Mode</Label>
+              <Select value={mode} onValueChange={val => setMode(val as DrugModulation)}>
+                <SelectTrigger className="h-9 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MODE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="dose-ec50" className="text-xs">EC50</Label>
+              <Input id="dose-ec50" type="number" min="0" step="any" value={ec50} onChange={e => setEc50(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dose-hill" className="text-xs">Hill coefficient</Label>
+              <Input id="dose-hill" type="number" min="0" step="0.1" value={hill} onChange={e => setHill(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dose-unit" className="text-xs">Unit</Label>
+              <Input id="dose-unit" value={unit} onChange={e => setUnit(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="dose-from" className="text-xs">From</Label>
+              <Input id="dose-from" type="number" min="0" step="any" value={from} onChange={e => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dose-to" className="text-xs">To</Label>
+              <Input id="dose-to" type="number" min="0" step="any" value={to} onChange={e => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dose-steps" className="text-xs">Doses</Label>
+              <Input id="dose-steps" type="number" min="2" step="1" value={steps} onChange={e => setSteps(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="dose-log" checked={logScale} onCheckedChange={checked => setLogScale(checked === true)} />
+            <Label htmlFor="dose-log" className="text-sm font-normal">Space doses on a log scale</Label>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="dose-output" className="text-xs">Output node</Label>
+            {nodeSelect('dose-output', outputNode, setOutputNode, 'Select node')}
+          </div>
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isRunning}>
+            {isRunning ? 'Running…' : 'Run Dose Response'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default DoseResponsePanel;
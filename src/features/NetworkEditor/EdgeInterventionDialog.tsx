@@ -0,0 +1,266 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import type { EdgeRegulation, NetworkEdge, NetworkNode } from '@/types/network';
+import { addRegulation, removeRegulation } from '@/lib/applyTherapies';
+import { identifierPolarities, parseExpression } from '@/lib/ruleLanguage';
+import { Link2, Unlink } from 'lucide-react';
+
+export type EdgeInterventionKind = 'edge-knock-in' | 'edge-knock-out';
+
+interface EdgeInterventionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kind: EdgeInterventionKind;
+  existingNodes: NetworkNode[];
+  existingEdges: NetworkEdge[];
+  existingRules: Record<string, string>;
+  onSubmit: (data: { nodeName: string; edge: EdgeRegulation }) => void;
+}
+
+/**
+ * Picks a single regulation to remove (edge knock-out: an existing regulator of
+ * the target) or to add (edge knock-in: any source, with a sign and an optional
+ * weight for weighted analysis), and previews the target's rewritten rule.
+ */
+export function EdgeInterventionDialog({
+  open,
+  onOpenChange,
+  kind,
+  existingNodes,
+  existingEdges,
+  existingRules,
+  onSubmit,
+}: EdgeInterventionDialogProps) {
+  const [sourceNode, setSourceNode] = useState('');
+  const [targetNode, setTargetNode] = useState('');
+  const [sign, setSign] = useState<EdgeRegulation['sign']>('activation');
+  const [weightText, setWeightText] = useState('');
+
+  const isKnockOut = kind === 'edge-knock-out';
+  const knownLabels = existingNodes.flatMap(n => [n.id, n.label ?? n.id]);
+  const nodeOf = (name: string) => existingNodes.find(n => n.id === name || n.label === name);
+  const labelOf = (name: string) => nodeOf(name)?.label || name;
+  const namesOf = (name: string) => {
+    const node = nodeOf(name);
+    return node ? [node.id, node.label ?? node.id] : [name];
+  };
+  const ruleOf = (name: string) => namesOf(name).map(n => existingRules[n]).find(Boolean);
+  const edgeBetween = (source: string, target: string) =>
+    existingEdges.find(e => namesOf(source).includes(e.source) && namesOf(target).includes(e.target));
+
+  // Regulators of a target: drawn edges plus the nodes its rule reads
+  const regulatorsOf = (target: string): string[] => {
+    const fromEdges = existingEdges.filter(e => namesOf(target).includes(e.target)).map(e => e.source);
+    const rule = ruleOf(target);
+    const fromRule = rule ? parseExpression(rule, { knownLabels }).identifiers : [];
+    return Array.from(new Set([...fromEdges, ...fromRule].map(name => nodeOf(name)?.id ?? name)));
+  };
+
+  const targetOptions = isKnockOut
+    ? existingNodes.filter(n => regulatorsOf(n.id).length > 0)
+    : existingNodes;
+  const sourceOptions = isKnockOut
+    ? (targetNode ? regulatorsOf(targetNode) : []).map(id => nodeOf(id) ?? { id, label: id })
+    : existingNodes.filter(n => n.id !== targetNode);
+
+  const weight = weightText.trim() === '' ? null : Number(weightText);
+  const weightError = weight !== null && (!Number.isFinite(weight) || weight <= 0)
+    ? 'Weight must be a positive number.'
+    : null;
+
+  const currentRule = targetNode ? ruleOf(targetNode) : undefined;
+  const previewRule = !sourceNode || !targetNode
+    ? null
+    : isKnockOut
+      ? (currentRule ? removeRegulation(currentRule, namesOf(sourceNode), knownLabels) : null)
+      : addRegulation(currentRule, labelOf(sourceNode), sign);
+
+  // The removed regulation keeps its sign: negated in the rule or a negative weight
+  const removedSign = (): EdgeRegulation['sign'] => {
+    const expression = currentRule ? parseExpression(currentRule, { knownLabels }).expression : null;
+    const polarities = expression ? identifierPolarities(expression) : new Map();
+    if (namesOf(sourceNode).some(name => polarities.get(name) === 'negative')) return 'inhibition';
+    return (edgeBetween(sourceNode, targetNode)?.weight ?? 0) < 0 ? 'inhibition' : 'activation';
+  };
+
+  const handleReset = () => {
+    setSourceNode('');
+    setTargetNode('');
+    setSign('activation');
+    setWeightText('');
+  };
+
+  const handleTargetChange = (value: string) => {
+    setTargetNode(value);
+    if (isKnockOut || value === sourceNode) setSourceNode('');
+  };
+
+  const isValid = !!sourceNode && !!targetNode && sourceNode !== targetNode && !weightError;
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+    onSubmit({
+      nodeName: targetNode,
+      edge: {
+        source: sourceNode,
+        target: targetNode,
+        sign: isKnockOut ? removedSign() : sign,
+        ...(!isKnockOut && weight !== null ? { weight: sign === 'inhibition' ? -weight : weight } : {}),
+      },
+    });
+    handleReset();
+    onOpenChange(false);
+  };
+
+  const existingEdge = !isKnockOut && sourceNode && targetNode ? edgeBetween(sourceNode, targetNode) : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      if (!isOpen) handleReset();
+      onOpenChange(isOpen);
+    }}>
+      <DialogContent className="max-w-lg p-0 gap-0 overflow-hidden">
+        {/* Header */}
+        <DialogHeader className={`px-4 py-3 border-b bg-gradient-to-r ${isKnockOut
+          ? 'from-red-50 to-orange-50 dark:from-red-950/30 dark:to-orange-950/30'
+          : 'from-blue-50 to-indigo-50 dark:from-blue-950/30 dark:to-indigo-950/30'}`}>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            {isKnockOut
+              ? <Unlink className="w-4 h-4 text-red-600" />
+              : <Link2 className="w-4 h-4 text-blue-600" />}
+            {isKnockOut ? 'Knock Out Edge' : 'Knock In Edge'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="px-4 py-3 space-y-4 max-h-[60vh] overflow-y-auto">
+          {/* Target Selection */}
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Target Node</Label>
+            <Select value={targetNode} onValueChange={handleTargetChange}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue placeholder="Select the regulated node..." />
+              </SelectTrigger>
+              <SelectContent>
+                {targetOptions.map(node => (
+                  <SelectItem key={node.id} value={node.id} className="text-sm">
+                    {node.label || node.id}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isKnockOut && targetOptions.length === 0 && (
+              <p className="text-[10px] text-muted-foreground">No node has a regulator to remove.</p>
+            )}
+          </div>
+
+          {/* Source Selection */}
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">{isKnockOut ? 'Regulator to Remove' : 'Regulator to Add'}</Label>
+            <Select value={sourceNode} onValueChange={setSourceNode} disabled={isKnockOut && !targetNode}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue placeholder={isKnockOut && !targetNode ? 'Select a target first' : 'Select a source node...'} />
+              </SelectTrigger>
+              <SelectContent>
+                {sourceOptions.map(node => (
+                  <SelectItem key={node.id} value={node.id} className="text-sm">
+                    {node.label || node.id}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-[10px] text-muted-foreground">
+              {isKnockOut
+                ? 'The target stops reading this regulator; the rest of its rule is unchanged.'
+                : 'The target gains this regulator on top of its current rule.'}
+            </p>
+          </div>
+
+          {/* Sign and Weight (knock-in only) */}
+          {!isKnockOut && (
+            <div className="flex gap-2">
+              <div className="flex-1 space-y-1">
+                <Label className="text-xs">Sign</Label>
+                <Select value={sign} onValueChange={(val) => setSign(val as EdgeRegulation['sign'])}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="activation" className="text-xs">Activation (OR)</SelectItem>
+                    <SelectItem value="inhibition" className="text-xs">Inhibition (AND NOT)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-32 space-y-1">
+                <Label className="text-xs">Weight</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  placeholder="1"
+                  value={weightText}
+                  onChange={(e) => setWeightText(e.target.value)}
+                  className="h-8 text-xs"
+                />
+              </div>
+            </div>
+          )}
+          {weightError && <p className="text-[10px] text-destructive">{weightError}</p>}
+          {existingEdge && (
+            <p className="text-[10px] text-amber-600 dark:text-amber-400">
+              This edge already exists; its weight will be replaced.
+            </p>
+          )}
+
+          {/* Rule Preview */}
+          {sourceNode && targetNode && (
+            <div className={`space-y-1.5 p-3 rounded-md border ${isKnockOut
+              ? 'bg-red-50/50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+              : 'bg-blue-50/50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800'}`}>
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-semibold">Rule Change</span>
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4">
+                  {labelOf(sourceNode)} {isKnockOut ? '⇸' : sign === 'inhibition' ? '⊣' : '→'} {labelOf(targetNode)}
+                </Badge>
+              </div>
+              {currentRule && (
+                <div className="px-2 py-1.5 bg-white dark:bg-slate-800 rounded text-xs font-mono border">
+                  {labelOf(targetNode)} = {currentRule}
+                </div>
+              )}
+              <div className="text-[10px] text-muted-foreground">
+                {previewRule !== null
+                  ? <>→ Will become: <code className="font-mono">{labelOf(targetNode)} = {previewRule}</code></>
+                  : 'No rule to rewrite; only the edge weight changes (weighted analysis).'}
+              </div>
+              {isKnockOut && (
+                <div className="text-[10px] text-muted-foreground">
+                  The edge weight is set to 0 for weighted analysis.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <DialogFooter className="px-4 py-3 border-t bg-slate-50 dark:bg-slate-900/50">
+          <Button variant="ghost" size="sm" onClick={() => onOpenChange(false)} className="h-8 text-xs">
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleSubmit}
+            disabled={!isValid}
+            className={`h-8 text-xs ${isKnockOut ? 'bg-red-600 hover:bg-red-700' : ''}`}
+          >
+            {isKnockOut ? 'Knock Out Edge' : 'Knock In Edge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,15 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { Tag, X } from 'lucide-react';
-import type { CellFate } from '@/types/network';
+import { Plus, Sparkles, Tag, Trash2, X } from 'lucide-react';
+import type { CellFate, FateDefinition } from '@/types/network';
+import type { AttractorMatch } from '@/lib/analysis/types';
+import { formatFateConditions, parseFateConditions, type AttractorFateCall } from '@/lib/fateClassification';
+import { ANALYSIS_CONFIG } from '@/config/constants';
 
 interface FateClassificationDialogProps {
   attractorId: number;
@@ -209,13 +212,36 @@ export function FateClassificationDialog({
 
 interface AttractorFateBadgeProps {
   fate: CellFate;
+  /** How the saved fate was matched to this attractor; partial matches are marked with "≈". */
+  match?: AttractorMatch;
+  /** Set when the fate was classified from the project's fate definitions rather than saved. */
+  call?: AttractorFateCall;
+  /** Other definitions the attractor also matches, for ambiguous classifications. */
+  alternatives?: string[];
   onEdit?: () => void;
 }
 
-export function AttractorFateBadge({ fate, onEdit }: AttractorFateBadgeProps) {
+function fateBadgeTitle(match?: AttractorMatch, call?: AttractorFateCall, alternatives: string[] = []): string | undefined {
+  if (call) {
+    const confidence = `${Math.round(call.confidence * 100)}% of marker conditions met`;
+    return call.status === 'ambiguous'
+      ? `Classified from fate definitions (${confidence}); also matches ${alternatives.join(', ')}`
+      : `Classified from fate definitions (${confidence})`;
+  }
+  if (match?.kind === 'partial') {
+    return `Saved for a similar attractor (${Math.round(match.similarity * 100)}% of node values agree)`;
+  }
+  return undefined;
+}
+
+export function AttractorFateBadge({ fate, match, call, alternatives, onEdit }: AttractorFateBadgeProps) {
+  const partial = match?.kind === 'partial';
+  const ambiguous = call?.status === 'ambiguous';
+  const Icon = call ? Sparkles : Tag;
   return (
     <Badge
-      className="gap-1 cursor-pointer hover:opacity-80 transition-opacity"
+      title={fateBadgeTitle(match, call, alternatives)}
+      className={`gap-1 cursor-pointer hover:opacity-80 transition-opacity ${ambiguous ? 'ring-2 ring-amber-400' : ''}`}
       style={{
         backgroundColor: fate.color,
         color: '#fff',
@@ -223,8 +249,191 @@ export function AttractorFateBadge({ fate, onEdit }: AttractorFateBadgeProps) {
       }}
       onClick={onEdit}
     >
-      <Tag className="w-3 h-3" />
+      <Icon className="w-3 h-3" />
+      {partial && '≈ '}
       {fate.name}
+      {call && call.confidence < 1 && ` ${Math.round(call.confidence * 100)}%`}
+      {ambiguous && ' ?'}
+    </Badge>
+  );
+}
+
+/** Flag for an attractor that none of the project's fate definitions matches. */
+export function UnclassifiedFateBadge({ onEdit }: { onEdit?: () => void }) {
+  return (
+    <Badge
+      variant="outline"
+      title="No fate definition matches this attractor"
+      className="text-[10px] px-1.5 py-0 border-amber-300 text-amber-700 bg-amber-50 cursor-pointer"
+      onClick={onEdit}
+    >
+      No fate
     </Badge>
   );
 }
+
+interface FateDefinitionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  definitions: FateDefinition[];
+  availableMarkers: string[];
+  onSave: (definitions: FateDefinition[]) => Promise<void>;
+}
+
+type FateDefinitionDraft = Omit<FateDefinition, 'conditions'> & { conditions: string };
+
+const toDraft = (definition: FateDefinition): FateDefinitionDraft => ({
+  ...definition,
+  conditions: formatFateConditions(definition.conditions),
+});
+
+export function FateDefinitionsDialog({ open, onOpenChange, definitions, availableMarkers, onSave }: FateDefinitionsDialogProps) {
+  const [drafts, setDrafts] = useState<FateDefinitionDraft[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDrafts(definitions.map(toDraft));
+      setFormError(null);
+    }
+  }, [open, definitions]);
+
+  const updateDraft = (index: number, patch: Partial<FateDefinitionDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+  };
+
+  const addDraft = () => {
+    setDrafts(prev => [
+      ...prev,
+      { id: crypto.randomUUID(), name: '', color: PRESET_COLORS[prev.length % PRESET_COLORS.length], conditions: '' },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const next: FateDefinition[] = [];
+    for (const draft of drafts) {
+      const name = draft.name.trim();
+      if (!name) {
+        setFormError('Every fate needs a name.');
+        return;
+      }
+      const { conditions, errors } = parseFateConditions(draft.conditions);
+      if (errors.length > 0) {
+        setFormError(`${name}: ${errors[0]}`);
+        return;
+      }
+      next.push({
+        id: draft.id,
+        name,
+        color: draft.color,
+        conditions,
+        ...(draft.description?.trim() && { description: draft.description.trim() }),
+      });
+    }
+    const names = next.map(definition => definition.name.toLowerCase());
+    const duplicate = next.find((_, i) => names.indexOf(names[i]) !== i);
+    if (duplicate) {
+      setFormError(`The fate name "${duplicate.name}" is used twice.`);
+      return;
+    }
+    setFormError(null);
+    setIsSaving(true);
+    try {
+      await onSave(next);
+      onOpenChange(false);
+    } catch (e) {
+      setFormError(e instanceof Error ? e.message : 'Failed to save fate definitions');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Fate Definitions</DialogTitle>
+          <DialogDescription>
+            Define cell fates by their marker nodes, e.g. Apoptosis = Casp3 ON &amp; Bcl2 OFF. Every attractor of a new run
+            without a saved fate is classified by these rules.
+          </DialogDescription>
+        </DialogHeader>
+
+        {formError && (
+          <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded">{formError}</div>
+        )}
+
+        <div className="space-y-3">
+          {drafts.length === 0 && (
+            <p className="text-sm text-muted-foreground">No fate definitions yet.</p>
+          )}
+          {drafts.map((draft, index) => (
+            <div key={draft.id} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="Fate name, e.g. Apoptosis"
+                  value={draft.name}
+                  onChange={(e) => updateDraft(index, { name: e.target.value })}
+                  className="h-8"
+                />
+                <Input
+                  type="color"
+                  value={draft.color}
+                  onChange={(e) => updateDraft(index, { color: e.target.value })}
+                  className="w-12 h-8 p-1 cursor-pointer shrink-0"
+                  aria-label="Fate color"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 shrink-0"
+                  onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                  aria-label="Remove fate definition"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <Input
+                placeholder="Marker conditions, e.g. Casp3 ON & Bcl2 OFF"
+                value={draft.conditions}
+                onChange={(e) => updateDraft(index, { conditions: e.target.value })}
+                className="h-8 font-mono text-xs"
+                list="fate-definition-markers"
+              />
+              <Input
+                placeholder="Description (optional)"
+                value={draft.description ?? ''}
+                onChange={(e) => updateDraft(index, { description: e.target.value })}
+                className="h-8 text-xs"
+              />
+            </div>
+          ))}
+          <datalist id="fate-definition-markers">
+            {availableMarkers.map((marker) => (
+              <option key={marker} value={marker} />
+            ))}
+          </datalist>
+          <Button type="button" variant="outline" size="sm" className="gap-1.5" onClick={addDraft}>
+            <Plus className="w-3 h-3" />
+            Add fate
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            A fate applies when at least {Math.round(ANALYSIS_CONFIG.FATE_RULE_MIN_CONFIDENCE * 100)}% of its conditions hold,
+            averaged over the attractor&apos;s states. Attractors matching no fate or several fates are flagged.
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Definitions'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+import { formatFateConditions, parseFateConditions } from '@/lib/fateClassification';
+import type {
+  InterventionKind,
+  InterventionPerturbation,
+  InterventionSearchOptions,
+  InterventionSearchResult,
+} from '@/lib/analysis/types';
+import type { FateDefinition } from '@/types/network';
+
+const CUSTOM_TARGET = 'custom';
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+const targetLabel = (target: Record<string, 0 | 1>) =>
+  formatFateConditions(Object.entries(target).map(([node, value]) => ({ node, active: value === 1 })));
+
+type Props = {
+  result: InterventionSearchResult;
+  /** Add an intervention set to the therapeutics interventions. */
+  onApply?: (perturbations: InterventionPerturbation[]) => void;
+};
+
+/*
+  Minimal intervention sets for a target phenotype.
+  - One row per analysed knock-out/knock-in set, best target basin share first
+  - Sets reaching the goal share are marked; their supersets were not tried
+*/
+const InterventionSearchPanel: React.FC<Props> = ({ result, onApply }) => (
+  <div className="rounded-lg border bg-card">
+    <div className="flex items-center justify-between px-3 py-2 border-b bg-purple-50/50 dark:bg-purple-950/30">
+      <span className="text-xs font-semibold uppercase tracking-wide">Intervention Search</span>
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <span className="font-mono">{targetLabel(result.target)}</span>
+        <span>{result.evaluated.toLocaleString()} sets analysed</span>
+        {result.pruned > 0 && <span>{result.pruned.toLocaleString()} pruned</span>}
+        <span>Baseline {formatShare(result.baselineShare)}</span>
+      </div>
+    </div>
+    <div className="p-3 space-y-2">
+      {result.warnings.length > 0 && (
+        <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1.5">
+          {result.warnings.map((w, i) => <span key={i} className="block">• {w}</span>)}
+        </div>
+      )}
+      <div className="border rounded bg-background/50 overflow-auto max-h-[420px]">
+        <table className="w-full text-[11px]">
+          <thead className="bg-muted/30 text-muted-foreground sticky top-0">
+            <tr>
+              <th className="px-2 py-1 text-left font-medium">#</th>
+              <th className="px-2 py-1 text-left font-medium">Interventions</th>
+              <th className="px-2 py-1 text-right font-medium">Target basin</th>
+              <th className="px-2 py-1 text-right font-medium">Δ Baseline</th>
+              <th className="px-2 py-1 text-right font-medium">Attractors</th>
+              {onApply && <th className="px-2 py-1" />}
+            </tr>
+          </thead>
+          <tbody>
+            {result.sets.map((set, i) => (
+              <tr key={i} className="border-t border-muted/50">
+                <td className="px-2 py-0.5 text-muted-foreground">{i + 1}</td>
+                <td className="px-2 py-0.5">
+                  <div className="flex flex-wrap items-center gap-1">
+                    {set.perturbations.map(p => (
+                      <Badge
+                        key={`${p.kind}:${p.node}`}
+                        variant="outline"
+                        className={`text-[10px] px-1.5 py-0 ${p.kind === 'knock-out' ? 'border-red-300 text-red-700' : 'border-emerald-300 text-emerald-700'}`}
+                      >
+                        {p.node} {p.kind === 'knock-out' ? 'KO' : 'KI'}
+                      </Badge>
+                    ))}
+                    {set.sufficient && <span className="text-[10px] text-emerald-700">goal reached</span>}
+                  </div>
+                </td>
+                <td className="px-2 py-0.5 text-right font-mono">{formatShare(set.targetShare)}</td>
+                <td className="px-2 py-0.5 text-right font-mono">
+                  {set.targetShare >= result.baselineShare ? '+' : ''}{((set.targetShare - result.baselineShare) * 100).toFixed(1)}
+                </td>
+                <td className="px-2 py-0.5 text-right font-mono">{set.attractorCount}</td>
+                {onApply && (
+                  <td className="px-2 py-0.5 text-right">
+                    <Button size="sm" variant="ghost" className="h-5 px-1.5 text-[10px] gap-1" onClick={() => onApply(set.perturbations)}>
+                      <Plus className="w-3 h-3" />
+                      Add
+                    </Button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        Target basin is the share of initial states that end in an attractor showing the target phenotype. KO forces a
+        node OFF, KI forces it ON. Sets that reach the goal are not extended, so every listed set is minimal for it.
+      </p>
+    </div>
+  </div>
+);
+
+type DialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fateDefinitions: FateDefinition[];
+  isRunning: boolean;
+  onRun: (options: Omit<InterventionSearchOptions, 'analysis' | 'onProgress'> & { stateCap: number }) => void;
+};
+
+/** Search set-up: target phenotype, set sizes and perturbations, and the analysis budget. */
+export function InterventionSearchDialog({ open, onOpenChange, fateDefinitions, isRunning, onRun }: DialogProps) {
+  const [targetId, setTargetId] = useState<string>(fateDefinitions[0]?.id ?? CUSTOM_TARGET);
+  const [customTarget, setCustomTarget] = useState('');
+  const [kinds, setKinds] = useState<Record<InterventionKind, boolean>>({ 'knock-out': true, 'knock-in': true });
+  const [form, setForm] = useState({
+    maxSize: '3',
+    budget: String(ANALYSIS_CONFIG.INTERVENTION_SEARCH_DEFAULT_BUDGET),
+    beamWidth: String(ANALYSIS_CONFIG.INTERVENTION_SEARCH_DEFAULT_BEAM),
+    goalShare: '90',
+    stateCap: String(ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP),
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const definition = fateDefinitions.find(d => d.id === targetId);
+
+  const handleSubmit = () => {
+    let conditions = definition?.conditions ?? [];
+    if (!definition) {
+      const parsed = parseFateConditions(customTarget);
+      if (parsed.errors.length > 0) {
+        setFormError(parsed.errors[0]);
+        return;
+      }
+      conditions = parsed.conditions;
+    }
+    const maxSize = parseInt(form.maxSize, 10);
+    const budget = parseInt(form.budget, 10);
+    const beamWidth = parseInt(form.beamWidth, 10);
+    const goalShare = parseFloat(form.goalShare) / 100;
+    const stateCap = parseInt(form.stateCap, 10);
+    const selectedKinds = (Object.keys(kinds) as InterventionKind[]).filter(kind => kinds[kind]);
+    if (selectedKinds.length === 0) {
+      setFormError('Select knock-outs, knock-ins or both.');
+      return;
+    }
+    if (!(budget > 0) || budget > ANALYSIS_CONFIG.MAX_INTERVENTION_SEARCH_BUDGET) {
+      setFormError(`The budget must be between 1 and ${ANALYSIS_CONFIG.MAX_INTERVENTION_SEARCH_BUDGET.toLocaleString()} analyses.`);
+      return;
+    }
+    if (!(beamWidth > 0) || !(stateCap > 0) || !(goalShare > 0 && goalShare <= 1)) {
+      setFormError('Beam width and states per run must be positive integers, and the goal between 0 and 100%.');
+      return;
+    }
+    setFormError(null);
+    onRun({
+      target: Object.fromEntries(conditions.map(c => [c.node, c.active ? 1 : 0])),
+      // A fate counts as reached the way attractors are classified into it
+      minMatch: definition ? ANALYSIS_CONFIG.FATE_RULE_MIN_CONFIDENCE : 1,
+      maxSize,
+      kinds: selectedKinds,
+      budget,
+      beamWidth,
+      goalShare,
+      stateCap,
+    });
+  };
+
+  const field = (key: keyof typeof form) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setForm(prev => ({ ...prev, [key]: e.target.value })),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Find Interventions</DialogTitle>
+          <DialogDescription>
+            Try single, double and triple knock-outs and knock-ins, and rank them by the basin share of attractors showing the target phenotype.
+          </DialogDescription>
+        </DialogHeader>
+
+        {formError && (
+          <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded">{formError}</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label>Target phenotype</Label>
+            <Select value={definition ? targetId : CUSTOM_TARGET} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {fateDefinitions.map(d => (
+                  <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_TARGET}>Node values…</SelectItem>
+              </SelectContent>
+            </Select>
+            {definition ? (
+              <p className="text-xs text-muted-foreground font-mono">{formatFateConditions(definition.conditions)}</p>
+            ) : (
+              <Input
+                placeholder="e.g. Casp3 ON & Bcl2 OFF"
+                value={customTarget}
+                onChange={(e) => setCustomTarget(e.target.value)}
+                className="font-mono text-xs"
+              />
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Largest set</Label>
+            <Select value={form.maxSize} onValueChange={val => setForm(prev => ({ ...prev, maxSize: val }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Single</SelectItem>
+                <SelectItem value="2">Double</SelectItem>
+                <SelectItem value="3">Triple</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="interventionGoal">Goal basin share (%)</Label>
+            <Input id="interventionGoal" type="number" min="1" max="100" step="5" {...field('goalShare')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="interventionBudget">Budget (analyses)</Label>
+            <Input id="interventionBudget" type="number" min="1" step="50" {...field('budget')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="interventionBeam">Beam width</Label>
+            <Input id="interventionBeam" type="number" min="1" step="1" {...field('beamWidth')} />
+            <p className="text-xs text-muted-foreground">Best sets of each size extended to the next.</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="interventionStateCap">States per run</Label>
+            <Input id="interventionStateCap" type="number" min="1" step="1" {...field('stateCap')} />
+          </div>
+          <div className="flex items-center gap-4 md:col-span-2">
+            {(['knock-out', 'knock-in'] as InterventionKind[]).map(kind => (
+              <div key={kind} className="flex items-center gap-2">
+                <Checkbox
+                  id={`intervention-${kind}`}
+                  checked={kinds[kind]}
+                  onCheckedChange={checked => setKinds(prev => ({ ...prev, [kind]: checked === true }))}
+                />
+                <Label htmlFor={`intervention-${kind}`} className="text-sm font-normal">
+                  {kind === 'knock-out' ? 'Knock-outs' : 'Knock-ins'}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isRunning}>
+            {isRunning ? 'Running…' : 'Search'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default InterventionSearchPanel;
@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import type { NetworkNode } from '@/types/network';
+import { firstError, formatDiagnostic, parseExpression } from '@/lib/ruleLanguage';
 import { X, Plus, Zap, ArrowRight, Settings2 } from 'lucide-react';
 
 interface OutwardRegulation {
@@ -40,6 +41,16 @@ export function KnockInDialog({ open, onOpenChange, existingNodes, existingRules
   const [tempOperator, setTempOperator] = useState<'&&' | '||'>('&&');
   const [tempAddition, setTempAddition] = useState('');
 
+  // Rules may reference node labels containing spaces
+  const knownLabels = existingNodes.flatMap(n => [n.id, n.label ?? n.id]);
+  const expressionError = (text: string) => {
+    if (!text.trim()) return null;
+    const error = firstError(parseExpression(text, { knownLabels }));
+    return error ? formatDiagnostic(error) : null;
+  };
+  const additionError = expressionError(tempAddition);
+  const nodeRuleError = regulationType === 'rule' ? expressionError(nodeRule) : null;
+
   const handleReset = () => {
     setNodeName('');
     setRegulationType('rule');
@@ -59,7 +70,7 @@ export function KnockInDialog({ open, onOpenChange, existingNodes, existingRules
   };
 
   const handleAddRule = () => {
-    if (!selectedOutwardNode || !tempAddition.trim()) return;
+    if (!selectedOutwardNode || !tempAddition.trim() || additionError) return;
     const originalRule = existingRules[selectedOutwardNode] || '';
     setOutwardRegulations(prev => [...prev, {
       targetNode: selectedOutwardNode,
@@ -79,7 +90,7 @@ export function KnockInDialog({ open, onOpenChange, existingNodes, existingRules
 
   const handleUpdateNode = () => {
     if (!nodeName.trim()) return;
-    if (regulationType === 'rule' && !nodeRule.trim()) return;
+    if (regulationType === 'rule' && (!nodeRule.trim() || nodeRuleError)) return;
 
     onKnockIn({
       nodeName: nodeName.trim(),
@@ -91,7 +102,7 @@ export function KnockInDialog({ open, onOpenChange, existingNodes, existingRules
     onOpenChange(false);
   };
 
-  const isValid = nodeName.trim() && (regulationType === 'fixed' || nodeRule.trim());
+  const isValid = nodeName.trim() && (regulationType === 'fixed' || (nodeRule.trim() && !nodeRuleError));
 
   return (
     <>
@@ -152,12 +163,15 @@ export function KnockInDialog({ open, onOpenChange, existingNodes, existingRules
               </div>
 
               {regulationType === 'rule' ? (
-                <Input
-                  placeholder="A && B || !C"
-                  value={nodeRule}
-                  onChange={(e) => setNodeRule(e.target.value)}
-                  className="h-8 text-sm font-mono"
-                />
+                <div className="space-y-1">
+                  <Input
+                    placeholder="A && B || !C"
+                    value={nodeRule}
+                    onChange={(e) => setNodeRule(e.target.value)}
+                    className="h-8 text-sm font-mono"
+                  />
+                  {nodeRuleError && <p className="text-[10px] text-destructive">{nodeRuleError}</p>}
+                </div>
               ) : (
                 <Select value={fixedValue.toString()} onValueChange={(val) => setFixedValue(val === '1' ? 1 : 0)}>
                   <SelectTrigger className="h-8 w-24 text-sm">
@@ -290,6 +304,7 @@ export function KnockInDialog({ open, onOpenChange, existingNodes, existingRules
                   onChange={(e) => setTempAddition(e.target.value)}
                   className="h-8 text-xs font-mono"
                 />
+                {additionError && <p className="text-[10px] text-destructive">{additionError}</p>}
               </div>
             </div>
 
@@ -307,7 +322,7 @@ export function KnockInDialog({ open, onOpenChange, existingNodes, existingRules
             <Button variant="ghost" size="sm" onClick={() => setRuleEditorOpen(false)} className="h-7 text-xs">
               Cancel
             </Button>
-            <Button size="sm" onClick={handleAddRule} disabled={!tempAddition.trim()} className="h-7 text-xs">
+            <Button size="sm" onClick={handleAddRule} disabled={!tempAddition.trim() || !!additionError} className="h-7 text-xs">
               Add Rule
             </Button>
           </DialogFooter>
@@ -6,6 +6,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import type { NetworkNode } from '@/types/network';
+import { firstError, formatDiagnostic, parseExpression } from '@/lib/ruleLanguage';
 import { X, Plus, Power, ArrowRight, Settings2 } from 'lucide-react';
 
 interface OutwardRegulation {
@@ -37,6 +38,15 @@ export function KnockOutDialog({ open, onOpenChange, existingNodes, existingRule
   const [tempOperator, setTempOperator] = useState<'&&' | '||'>('&&');
   const [tempAddition, setTempAddition] = useState('');
 
+  // Rules may reference node labels containing spaces
+  const knownLabels = existingNodes.flatMap(n => [n.id, n.label ?? n.id]);
+  const expressionError = (text: string) => {
+    if (!text.trim()) return null;
+    const error = firstError(parseExpression(text, { knownLabels }));
+    return error ? formatDiagnostic(error) : null;
+  };
+  const additionError = expressionError(tempAddition);
+
   const handleReset = () => {
     setSelectedNode('');
     setOutwardRegulations([]);
@@ -53,7 +63,7 @@ export function KnockOutDialog({ open, onOpenChange, existingNodes, existingRule
   };
 
   const handleAddRule = () => {
-    if (!selectedOutwardNode || !tempAddition.trim()) return;
+    if (!selectedOutwardNode || !tempAddition.trim() || additionError) return;
     const originalRule = existingRules[selectedOutwardNode] || '';
     setOutwardRegulations(prev => [...prev, {
       targetNode: selectedOutwardNode,
@@ -290,6 +300,7 @@ export function KnockOutDialog({ open, onOpenChange, existingNodes, existingRule
                   onChange={(e) => setTempAddition(e.target.value)}
                   className="h-8 text-xs font-mono"
                 />
+                {additionError && <p className="text-[10px] text-destructive">{additionError}</p>}
               </div>
             </div>
 
@@ -307,7 +318,7 @@ export function KnockOutDialog({ open, onOpenChange, existingNodes, existingRule
             <Button variant="ghost" size="sm" onClick={() => setRuleEditorOpen(false)} className="h-7 text-xs">
               Cancel
             </Button>
-            <Button size="sm" onClick={handleAddRule} disabled={!tempAddition.trim()} className="h-7 text-xs">
+            <Button size="sm" onClick={handleAddRule} disabled={!tempAddition.trim() || !!additionError} className="h-7 text-xs">
               Add Rule
             </Button>
           </DialogFooter>
@@ -0,0 +1,264 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ONCOGENES, TUMOR_SUPPRESSORS } from '@/config/cancerGenes';
+import type { PatientMutation, UnclassifiedMutationReason } from '@/lib/analysis/types';
+import { classifyMutations, personalizeNetworkWithMutations } from '@/lib/mutationPersonalization';
+import { parseMaf } from '@/lib/patientProfile';
+import type { NetworkData } from '@/types/network';
+
+const REASON_LABELS: Record<UnclassifiedMutationReason, string> = {
+  'not-in-network': 'gene not in the network',
+  'no-protein-change': 'no protein change',
+  'unknown-role': 'missense in a gene of unknown role',
+  superseded: 'node already fixed by another mutation',
+};
+
+const parseGeneList = (text: string) => text.split(/[\s,;]+/).filter(Boolean);
+
+interface MutationPersonalizationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Network the patient's mutations are applied to. */
+  network?: NetworkData | null;
+  networkName?: string;
+  /** Mutations to start from, e.g. the variants of an Exome-seq run; a MAF upload replaces them. */
+  initialMutations?: PatientMutation[];
+  sampleName?: string;
+  /** Saves the personalised copy into the project. */
+  onSave: (network: NetworkData, name: string) => Promise<void>;
+}
+
+export function MutationPersonalizationDialog({
+  open,
+  onOpenChange,
+  network,
+  networkName,
+  initialMutations,
+  sampleName,
+  onSave,
+}: MutationPersonalizationDialogProps) {
+  const [mutations, setMutations] = useState<PatientMutation[]>([]);
+  const [mutationFile, setMutationFile] = useState<File | null>(null);
+  const [oncogenesText, setOncogenesText] = useState(ONCOGENES.join(', '));
+  const [suppressorsText, setSuppressorsText] = useState(TUMOR_SUPPRESSORS.join(', '));
+  const [name, setName] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Each opening starts from the mutations it was opened with
+  useEffect(() => {
+    if (!open) return;
+    setMutations(initialMutations ?? []);
+    setMutationFile(null);
+    setName(`${networkName || 'Network'} (${sampleName || 'patient'})`);
+    setFormError(null);
+  }, [open, initialMutations, networkName, sampleName]);
+
+  const classification = useMemo(
+    () => network
+      ? classifyMutations(network, mutations, { oncogenes: parseGeneList(oncogenesText), tumorSuppressors: parseGeneList(suppressorsText) })
+      : null,
+    [network, mutations, oncogenesText, suppressorsText],
+  );
+
+  const unclassifiedByReason = useMemo(() => {
+    const groups = new Map<UnclassifiedMutationReason, string[]>();
+    for (const { mutation, reason } of classification?.unclassified ?? []) {
+      groups.set(reason, [...(groups.get(reason) ?? []), mutation.gene]);
+    }
+    return Array.from(groups);
+  }, [classification]);
+
+  const handleFileChange = async (file: File | null) => {
+    setMutationFile(file);
+    if (!file) {
+      setMutations(initialMutations ?? []);
+      return;
+    }
+    try {
+      setMutations(parseMaf(await file.text()));
+      setFormError(null);
+    } catch (err) {
+      setMutations([]);
+      setFormError(`${file.name}: ${err instanceof Error ? err.message : 'could not be read.'}`);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!network || !classification) {
+      setFormError('No network data available.');
+      return;
+    }
+    if (classification.calls.length === 0) {
+      setFormError('No mutation fixes a network node; nothing to personalise.');
+      return;
+    }
+    if (!name.trim()) {
+      setFormError('Name the patient-specific network.');
+      return;
+    }
+
+    setFormError(null);
+    setIsSaving(true);
+    try {
+      await onSave(personalizeNetworkWithMutations(network, classification.calls), name.trim());
+      onOpenChange(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save the network.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="pb-4">
+          <DialogTitle className="text-2xl font-bold">Personalise Network from Mutations</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Mutations Section */}
+          <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-800 p-4 space-y-3">
+            <div>
+              <h3 className="font-semibold text-sm text-slate-900 dark:text-slate-50">Somatic Mutations</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {mutations.length} mutation{mutations.length !== 1 ? 's' : ''}
+                {mutationFile ? ` from ${mutationFile.name}` : initialMutations?.length ? ` from ${sampleName || 'the Exome-seq run'}` : ''}
+              </p>
+            </div>
+            <div className="flex items-center gap-3 p-3 rounded-md bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 transition-colors">
+              <Label htmlFor="personalization-maf-file" className="text-sm font-medium min-w-fit">
+                Somatic Mutation (.maf):
+              </Label>
+              <input
+                type="file"
+                id="personalization-maf-file"
+                accept=".maf,.tsv,.txt"
+                onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                className="text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded file:border-0 file:text-xs file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90 cursor-pointer"
+              />
+            </div>
+          </div>
+
+          {/* Gene Roles Section */}
+          <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-800 p-4 space-y-3">
+            <div>
+              <h3 className="font-semibold text-sm text-slate-900 dark:text-slate-50">Gene Roles</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Truncating mutations are loss of function. Missense and in-frame mutations are gain of function in oncogenes,
+                loss of function in tumour suppressors, and ignored elsewhere.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="oncogenes" className="text-xs font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-300">
+                  Oncogenes
+                </Label>
+                <Textarea
+                  id="oncogenes"
+                  value={oncogenesText}
+                  onChange={(e) => setOncogenesText(e.target.value)}
+                  className="font-mono text-xs h-24 bg-white dark:bg-slate-800"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tumor-suppressors" className="text-xs font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-300">
+                  Tumour Suppressors
+                </Label>
+                <Textarea
+                  id="tumor-suppressors"
+                  value={suppressorsText}
+                  onChange={(e) => setSuppressorsText(e.target.value)}
+                  className="font-mono text-xs h-24 bg-white dark:bg-slate-800"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Preview Section */}
+          {classification && mutations.length > 0 && (
+            <div className="rounded-lg border border-slate-200 dark:border-slate-800 overflow-hidden">
+              <div className="px-4 py-2 bg-purple-50/50 dark:bg-purple-950/20 border-b border-slate-200 dark:border-slate-800 text-sm">
+                <span className="font-semibold">{classification.calls.length} node{classification.calls.length !== 1 ? 's' : ''} fixed</span>
+              </div>
+              <div className="p-4 space-y-3">
+                {classification.calls.length > 0 && (
+                  <div className="max-h-60 overflow-y-auto border rounded">
+                    <table className="w-full text-xs">
+                      <thead className="bg-slate-50 dark:bg-slate-900 sticky top-0">
+                        <tr className="text-left">
+                          <th className="px-2 py-1.5 font-semibold">Node</th>
+                          <th className="px-2 py-1.5 font-semibold">Gene</th>
+                          <th className="px-2 py-1.5 font-semibold">Mutation</th>
+                          <th className="px-2 py-1.5 font-semibold">Effect</th>
+                          <th className="px-2 py-1.5 font-semibold text-right">Fixed</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {classification.calls.map(call => (
+                          <tr key={call.node} className="border-t">
+                            <td className="px-2 py-1 font-mono font-medium">{call.node}</td>
+                            <td className="px-2 py-1 font-mono">{call.gene}</td>
+                            <td className="px-2 py-1 font-mono">{call.detail}</td>
+                            <td className={`px-2 py-1 ${call.effect === 'loss-of-function' ? 'text-red-600' : 'text-emerald-600'}`}>
+                              {call.effect === 'loss-of-function' ? 'Loss of function' : 'Gain of function'}
+                            </td>
+                            <td className="px-2 py-1 text-right font-mono">{call.kind === 'knock-out' ? 'OFF' : 'ON'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                {unclassifiedByReason.length > 0 && (
+                  <div className="text-xs text-muted-foreground space-y-0.5">
+                    {unclassifiedByReason.map(([reason, genes]) => (
+                      <div key={reason}>
+                        <span className="font-semibold">Not used, {REASON_LABELS[reason]}:</span>{' '}
+                        <span className="font-mono">{Array.from(new Set(genes)).join(', ')}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Name Section */}
+          <div className="space-y-2">
+            <Label htmlFor="personalized-network-name" className="text-xs font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-300">
+              Patient Network Name
+            </Label>
+            <Input id="personalized-network-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          {formError && (
+            <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">{formError}</div>
+          )}
+        </div>
+
+        <DialogFooter className="border-t border-slate-200 dark:border-slate-800 pt-4 mt-6">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="px-6"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !network || !classification?.calls.length}
+            className="px-6 text-white"
+          >
+            {isSaving ? 'Saving…' : 'Save Patient Network'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
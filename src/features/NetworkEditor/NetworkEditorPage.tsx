@@ -29,6 +29,7 @@ import { useProjectNetworks, type ProjectNetworkRecord } from '@/hooks/useProjec
 import AttractorLandscape from './AttractorLandscape';
 import ProbabilisticLandscape from './ProbabilisticLandscape';
 import { TherapeuticsPanel } from './TherapeuticsPanel';
+import { SimulationPanel } from './SimulationPanel';
 
 // network type unified via hook's ProjectNetworkRecord
 // Last updated: 2025-12-05 - Added weighted analysis support
@@ -701,6 +702,15 @@ function NetworkEditorPage() {
         );
       }
 
+      case 'simulation':
+        return (
+          <SimulationPanel
+            network={selectedNetwork?.data}
+            networkName={selectedNetwork?.name}
+            isRuleBased={selectedIsRuleBased}
+          />
+        );
+
       case 'analysis':
       case 'results':
         return (
@@ -10,6 +10,9 @@ import { Input } from '@/components/ui/input';
 import { useToast } from '@/components/ui/toast';
 import { MousePointer2, CirclePlus, Circle, Link, X, Trash2, Network, Maximize, User, ArrowRight, OctagonMinus } from 'lucide-react';
 import type { NetworkData } from '@/types/network';
+import { parseRules } from '@/lib/ruleLanguage';
+import type { RegulationSign } from '@/lib/ruleGraphSync';
+import { ruleRegulations, ruleStrings, skeletonRulesFromEdges } from '@/lib/ruleGraphSync';
 import { NetworkPersonalizationDialog } from './NetworkPersonalizationDialog';
 
 // Module-level flag to prevent duplicate edgehandles extension registration (survives HMR)
@@ -64,6 +67,10 @@ type Props = {
   hideControls?: boolean;
   hideHeaderActions?: boolean;
   highlightNodeIds?: string[];
+  /** Overlay colours for edges, keyed "source::target"; other edges keep their usual style. */
+  edgeColors?: Record<string, string> | null;
+  /** Overlay fill colours for nodes, keyed by node id; other nodes keep their usual style. */
+  nodeColors?: Record<string, string> | null;
 };
 
 const NetworkGraph = forwardRef<NetworkGraphHandle, Props>(({
@@ -76,7 +83,9 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, Props>(({
   readOnly = false,
   hideControls = false,
   hideHeaderActions = false,
-  highlightNodeIds = []
+  highlightNodeIds = [],
+  edgeColors = null,
+  nodeColors = null
 }, ref) => {
   const { showToast, showConfirm, showPrompt } = useToast();
 
@@ -264,93 +273,14 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, Props>(({
       return false;
     }
   }, [effectiveNetworkData]);
-  // Parse rules to determine inhibitor relationships
-  // Returns a Set of "source::target" strings where source inhibits target
-  const inhibitorEdges = useMemo(() => {
-    const inhibitors = new Set<string>();
-    const rules = (effectiveNetworkData as any)?.rules || [];
-    
-    for (const rule of rules) {
-      // Handle both { name, action } format and { name: "A = B" } format
-      let target: string;
-      let expression: string;
-      
-      if (typeof rule === 'string') {
-        const match = rule.match(/^([a-zA-Z0-9_]+)\s*=\s*(.+)$/);
-        if (!match) continue;
-        target = match[1];
-        expression = match[2];
-      } else if (rule.action) {
-        target = rule.name;
-        expression = rule.action;
-      } else if (rule.name && rule.name.includes('=')) {
-        const match = rule.name.match(/^([a-zA-Z0-9_]+)\s*=\s*(.+)$/);
-        if (!match) continue;
-        target = match[1];
-        expression = match[2];
-      } else {
-        continue;
-      }
-      
-      // Parse the expression to find negated identifiers
-      // Strategy: find all identifiers that appear after a ! or within !(...) 
-      // We'll use a simple approach: track negation context
-      
-      // Track nested negation using parenthesis counting
-      let negationDepth = 0;
-      let pos = 0;
-      
-      while (pos < expression.length) {
-        // Check for !( pattern
-        if (expression[pos] === '!' && expression[pos + 1] === '(') {
-          negationDepth++;
-          pos += 2;
-          continue;
-        }
-        
-        // Check for simple ! before identifier
-        if (expression[pos] === '!' && /[a-zA-Z_]/.test(expression[pos + 1] || '')) {
-          // Find the identifier
-          const rest = expression.slice(pos + 1);
-          const idMatch = rest.match(/^([a-zA-Z_][a-zA-Z0-9_]*)/);
-          if (idMatch) {
-            const sourceNode = idMatch[1];
-            if (!['AND', 'OR', 'XOR', 'NAND', 'NOR', 'NOT'].includes(sourceNode.toUpperCase())) {
-              inhibitors.add(`${sourceNode}::${target}`);
-            }
-            pos += 1 + idMatch[1].length;
-            continue;
-          }
-        }
-        
-        // Check for closing paren that ends negation
-        if (expression[pos] === ')' && negationDepth > 0) {
-          negationDepth--;
-          pos++;
-          continue;
-        }
-        
-        // Check for identifier
-        if (/[a-zA-Z_]/.test(expression[pos])) {
-          const rest = expression.slice(pos);
-          const idMatch = rest.match(/^([a-zA-Z_][a-zA-Z0-9_]*)/);
-          if (idMatch) {
-            const sourceNode = idMatch[1];
-            if (!['AND', 'OR', 'XOR', 'NAND', 'NOR', 'NOT'].includes(sourceNode.toUpperCase())) {
-              if (negationDepth > 0) {
-                inhibitors.add(`${sourceNode}::${target}`);
-              }
-            }
-            pos += idMatch[1].length;
-            continue;
-          }
-        }
-        
-        pos++;
-      }
+  // Edge signs derived from the rule AST, keyed "source::target" by rule name (label or id)
+  const ruleEdgeSigns = useMemo(() => {
+    const signs = new Map<string, RegulationSign>();
+    const rules = parseRules(ruleStrings((effectiveNetworkData as any)?.rules));
+    for (const regulation of ruleRegulations(rules)) {
+      signs.set(`${regulation.source}::${regulation.target}`, regulation.sign);
     }
-    
-    return inhibitors;
+    return signs;
   }, [effectiveNetworkData]);
 
   // Get current nodes with all modifications applied
@@ -385,6 +315,47 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, Props>(({
     edges: currentEdges
   }), [currentNodes, currentEdges]);
 
+  // Network as shown, with its rules and metadata, for personalisation
+  const personalizationNetwork = useMemo<NetworkData | null>(
+    () => (effectiveNetworkData ? { ...effectiveNetworkData, nodes: currentNodes, edges: currentEdges } as NetworkData : null),
+    [effectiveNetworkData, currentNodes, currentEdges]
+  );
+
+  // Save a personalised copy as a new network and link it to the project
+  const handleSavePersonalizedNetwork = async (networkData: NetworkData, name: string) => {
+    const { data, error } = await supabase
+      .from('networks')
+      .insert({ name, network_data: networkData })
+      .select()
+      .single();
+    if (error) throw new Error('Failed to save network: ' + (error.message || String(error)));
+
+    if (projectId) {
+      const { data: projRow, error: projErr } = await supabase
+        .from('projects')
+        .select('networks')
+        .eq('id', projectId)
+        .maybeSingle();
+      if (projErr) throw projErr;
+      const currentIds = Array.isArray(projRow?.networks) ? projRow.networks.filter((id: unknown) => typeof id === 'string') : [];
+      const updatedIds = Array.from(new Set([...currentIds, data.id as string]));
+      const { error: updateErr } = await supabase.from('projects').update({ networks: updatedIds }).eq('id', projectId);
+      if (updateErr) throw updateErr;
+    }
+
+    onSaved?.({
+      id: data.id as string,
+      name: data.name as string,
+      created_at: data.created_at ?? null,
+      data: data.network_data ?? null
+    });
+    showToast({
+      title: 'Success',
+      description: `Personalized network "${name}" saved`,
+      variant: 'success'
+    });
+  };
+
   // UPDATED: Include weight data and edge types in elements
   const elements = useMemo(() => {
     // Prefer the current in-memory network view, but fall back to stored/currently computed network data.
@@ -456,20 +427,14 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, Props>(({
       // Determine edge type from existing data or properties
       let edgeType = e.edgeType || e.properties?.edgeType;
       
-      // If no explicit edgeType, check if this edge is an inhibitor based on rules
+      // If no explicit edgeType, take the sign from how the target's rule uses the source
       if (!edgeType) {
-        // Try matching by id first
-        let edgeKey = `${e.source}::${e.target}`;
-        if (inhibitorEdges.has(edgeKey)) {
-          edgeType = 'inhibitor';
-        } else {
-          // Try matching by label (rules use labels, edges use ids)
-          const sourceLabel = nodeIdToLabel.get(e.source) || e.source;
-          const targetLabel = nodeIdToLabel.get(e.target) || e.target;
-          edgeKey = `${sourceLabel}::${targetLabel}`;
-          if (inhibitorEdges.has(edgeKey)) {
-            edgeType = 'inhibitor';
-          }
+        // Try matching by id first, then by label (rules use labels, edges use ids)
+        const sourceLabel = nodeIdToLabel.get(e.source) || e.source;
+        const targetLabel = nodeIdToLabel.get(e.target) || e.target;
+        const sign = ruleEdgeSigns.get(`${e.source}::${e.target}`) ?? ruleEdgeSigns.get(`${sourceLabel}::${targetLabel}`);
+        if (sign === 'activator' || sign === 'inhibitor') {
+          edgeType = sign;
         }
       }
       
@@ -489,7 +454,7 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, Props>(({
     });
 
     return [...nodeElems, ...edgeElems];
-  }, [getCurrentNetworkData, inhibitorEdges]);
+  }, [getCurrentNetworkData, ruleEdgeSigns]);
 
   const typeColors = useMemo(() => {
     const nodeTypes = new Set<string>();
@@ -562,99 +527,6 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, Props>(({
     }
   };
 
-  // Infer Boolean rules from graph topology for rule-based networks
-  // For each node with incoming edges:
-  //   - activators combined with AND
-  //   - inhibitors prefixed with NOT
-  //   - Final: (activator1 AND activator2) AND (NOT inhibitor1) AND (NOT inhibitor2)
-  // Nodes with no incoming edges get self-referential rule: NodeLabel = NodeLabel
-  const inferRulesFromGraph = (nodes: any[], edges: any[]): string[] => {
-    const rules: string[] = [];
-    const nodeLabels = new Map<string, string>();
-    const seenRules = new Set<string>(); // Track unique rules
-    
-    // Build node id -> label map
-    for (const node of nodes) {
-      const id = String(node.id);
-      const label = String(node.label || node.id);
-      nodeLabels.set(id, label);
-    }
-    
-    // Group incoming edges by target node
-    const incomingEdges = new Map<string, { activators: string[]; inhibitors: string[] }>();
-    
-    // Classify each edge as activator or inhibitor
-    for (const edge of edges) {
-      const sourceId = String(edge.source);
-      const targetId = String(edge.target);
-      const sourceLabel = nodeLabels.get(sourceId) || sourceId;
-      
-      // Initialize target if needed
-      if (!incomingEdges.has(targetId)) {
-        incomingEdges.set(targetId, { activators: [], inhibitors: [] });
-      }
-      
-      // Check edge type - can be in properties.edgeType, edgeType, interaction, or inferred from weight
-      const edgeType = edge.properties?.edgeType || edge.edgeType || edge.interaction;
-      const weight = Number(edge.weight);
-      // Negative weight means inhibitor; explicit edgeType takes precedence
-      const isInhibitor = edgeType === 'inhibitor' || edgeType === 'inhibition' || edgeType === 'Inhibiting' 
-        || (!edgeType && weight < 0);
-      
-      const targetEdges = incomingEdges.get(targetId)!;
-      if (isInhibitor) {
-        if (!targetEdges.inhibitors.includes(sourceLabel)) {
-          targetEdges.inhibitors.push(sourceLabel);
-        }
-      } else {
-        if (!targetEdges.activators.includes(sourceLabel)) {
-          targetEdges.activators.push(sourceLabel);
-        }
-      }
-    }
-    
-    // Generate rule only for nodes that have incoming edges
-    for (const node of nodes) {
-      const nodeId = String(node.id);
-      const nodeLabel = nodeLabels.get(nodeId) || nodeId;
-      const incoming = incomingEdges.get(nodeId);
-      
-      // Skip nodes with no incoming edges (no rule needed)
-      if (!incoming || (incoming.activators.length === 0 && incoming.inhibitors.length === 0)) {
-        continue;
-      }
-      
-      // Build expression from activators and inhibitors using JavaScript operators
-      const parts: string[] = [];
-      
-      // Add activators (combined with && if multiple)
-      if (incoming.activators.length > 0) {
-        if (incoming.activators.length === 1) {
-          parts.push(incoming.activators[0]);
-        } else {
-          parts.push(`(${incoming.activators.join(' && ')})`);
-        }
-      }
-      
-      // Add negated inhibitors with !
-      for (const inhibitor of incoming.inhibitors) {
-        parts.push(`!${inhibitor}`);
-      }
-      
-      // Combine all parts with &&
-      const expression = parts.length === 1 ? parts[0] : parts.join(' && ');
-      const rule = `${nodeLabel} = ${expression}`;
-      
-      // Avoid duplicate rules
-      if (!seenRules.has(rule)) {
-        seenRules.add(rule);
-        rules.push(rule);
-      }
-    }
-    
-    return rules;
-  };
-
   // Save network function
   const saveNetwork = async (isUpdate: boolean = false) => {
     try {
@@ -760,12 +632,13 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, Props>(({
         }
       }
 
-      // For rule-based networks, infer rules from graph topology (nodes + edges)
-      // This allows users to draw edges and have rules auto-generated
+      // For rule-based networks, keep the existing rules and add skeleton rules
+      // (OR of activators AND NOT inhibitors) for nodes that gained incoming edges without a rule
       let finalRules: string[] = [];
       if (finalMetadata.type === 'Rule Based') {
-        // Infer rules from the graph structure
-        finalRules = inferRulesFromGraph(nodes, dedupedEdges);
+        const existingRules = ruleStrings((effectiveNetworkData as any)?.rules);
+        const ruleTargets = new Set(parseRules(existingRules).map(rule => rule.target));
+        finalRules = [...existingRules, ...skeletonRulesFromEdges(nodes, dedupedEdges, ruleTargets)];
       }
 
       // If rule-based, strip node weights and biases before saving
@@ -1066,6 +939,24 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, Props>(({
               'text-opacity': 0.7,
             } as any
           },
+          // Node colour overlay (e.g. differential expression)
+          {
+            selector: 'node.node-overlay',
+            style: {
+              'background-color': 'data(overlayColor)',
+              'background-opacity': 1,
+            }
+          },
+          // Edge colour overlay (e.g. sensitivity analysis)
+          {
+            selector: 'edge.edge-overlay',
+            style: {
+              'line-color': 'data(overlayColor)',
+              'target-arrow-color': 'data(overlayColor)',
+              'width': 4,
+              'line-opacity': 1,
+            } as any
+          },
           // Hover state for nodes (subtle highlight)
           {
             selector: 'node:active',
@@ -1483,6 +1374,42 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, Props>(({
     }
   }, [highlightNodeIds]);
 
+  // Apply edge colour overlay; re-applied when elements are (re)loaded
+  useEffect(() => {
+    if (!cyRef.current) return;
+    const cy = cyRef.current;
+
+    cy.edges('.edge-overlay').removeClass('edge-overlay').removeData('overlayColor');
+
+    if (edgeColors) {
+      cy.edges().forEach((edge) => {
+        const color = edgeColors[`${edge.data('source')}::${edge.data('target')}`];
+        if (color) {
+          edge.data('overlayColor', color);
+          edge.addClass('edge-overlay');
+        }
+      });
+    }
+  }, [edgeColors, elements]);
+
+  // Apply node colour overlay; re-applied when elements are (re)loaded
+  useEffect(() => {
+    if (!cyRef.current) return;
+    const cy = cyRef.current;
+
+    cy.nodes('.node-overlay').removeClass('node-overlay').removeData('overlayColor');
+
+    if (nodeColors) {
+      cy.nodes().forEach((node) => {
+        const color = nodeColors[String(node.data('id'))];
+        if (color) {
+          node.data('overlayColor', color);
+          node.addClass('node-overlay');
+        }
+      });
+    }
+  }, [nodeColors, elements]);
+
   // Check if there are any modifications
   const hasModifications = localNodes.length > 0 || localEdges.length > 0 || deletedNodeIds.size > 0 || deletedEdgeIds.size > 0;
 
@@ -2274,6 +2201,8 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, Props>(({
       <NetworkPersonalizationDialog 
         open={isNetworkPersonalizationOpen} 
         onOpenChange={setIsNetworkPersonalizationOpen} 
+        network={personalizationNetwork}
+        onSave={handleSavePersonalizedNetwork}
       />
     </div>
   );
@@ -2288,6 +2217,8 @@ export default React.memo(NetworkGraph, (prevProps, nextProps) => {
     prevProps.networkId === nextProps.networkId &&
     prevProps.refreshToken === nextProps.refreshToken &&
     prevProps.projectId === nextProps.projectId &&
-    prevProps.height === nextProps.height
+    prevProps.height === nextProps.height &&
+    prevProps.edgeColors === nextProps.edgeColors &&
+    prevProps.nodeColors === nextProps.nodeColors
   );
 });
\ No newline at end of file
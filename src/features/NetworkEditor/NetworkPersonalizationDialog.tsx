@@ -1,22 +1,102 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/toast";
+import type { ExpressionNormalization, ExpressionReference } from '@/lib/analysis/types';
+import {
+  loadExpressionReference,
+  nodeExpressionLevels,
+  parseExpressionReference,
+  personalizeNetworkWithExpression,
+  rnaSeqExpression,
+  saveExpressionReference,
+} from '@/lib/expressionPersonalization';
+import { parseExpressionTable } from '@/lib/patientProfile';
+import type { RNASeqResults } from '@/lib/rnaseqApi';
+import type { NetworkData } from '@/types/network';
+
+const formatLevel = (level: number) => `${(level * 100).toFixed(0)}%`;
 
 interface NetworkPersonalizationDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  /** Network the patient's expression is applied to. */
+  network?: NetworkData | null;
+  networkName?: string;
+  /** Expression of a completed RNA-seq run, used until a file is uploaded. */
+  rnaSeqResults?: RNASeqResults | null;
+  /** Saves the personalised copy into the project. */
+  onSave: (network: NetworkData, name: string) => Promise<void>;
 }
 
-export function NetworkPersonalizationDialog({ open, onOpenChange }: NetworkPersonalizationDialogProps) {
+export function NetworkPersonalizationDialog({ open, onOpenChange, network, networkName, rnaSeqResults, onSave }: NetworkPersonalizationDialogProps) {
   const { showToast } = useToast();
   const [cancerType, setCancerType] = useState<string>('');
   const [sampleType, setSampleType] = useState<'normal' | 'cancer'>('cancer');
   const [normalizationCohort, setNormalizationCohort] = useState<string>('');
+  const [normalization, setNormalization] = useState<ExpressionNormalization>('z-score');
   const [rnaSeqFile, setRnaSeqFile] = useState<File | null>(null);
+  const [fileExpression, setFileExpression] = useState<Record<string, number> | null>(null);
+  const [reference, setReference] = useState<ExpressionReference | null>(null);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const cohortKey = normalizationCohort && cancerType ? `${normalizationCohort}:${cancerType}` : null;
+  const sampleName = rnaSeqFile ? rnaSeqFile.name.replace(/\.[^.]+$/, '') : rnaSeqResults?.sample_name;
+
+  const expression = useMemo(
+    () => fileExpression ?? (rnaSeqResults ? rnaSeqExpression(rnaSeqResults) : null),
+    [fileExpression, rnaSeqResults],
+  );
+
+  // References are stored per cohort and cancer type
+  useEffect(() => {
+    setReference(cohortKey ? loadExpressionReference(cohortKey) : null);
+  }, [cohortKey]);
+
+  useEffect(() => {
+    if (open) setName(`${networkName || 'Network'} (${sampleName || 'patient'})`);
+  }, [open, networkName, sampleName]);
+
+  const personalization = useMemo(
+    () => (network && expression && reference ? nodeExpressionLevels(network, expression, reference, normalization) : null),
+    [network, expression, reference, normalization],
+  );
+
+  const handleRnaSeqFileChange = async (file: File | null) => {
+    setRnaSeqFile(file);
+    setFileExpression(null);
+    if (!file) return;
+    try {
+      setFileExpression(parseExpressionTable(await file.text()));
+    } catch (err) {
+      setRnaSeqFile(null);
+      showToast({
+        title: 'Could not read expression file',
+        description: `${file.name}: ${err instanceof Error ? err.message : 'unreadable file'}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleReferenceFileChange = async (file: File | null) => {
+    if (!file || !cohortKey) return;
+    try {
+      const parsed = parseExpressionReference(await file.text(), cohortKey, file.name);
+      saveExpressionReference(parsed);
+      setReference(parsed);
+    } catch (err) {
+      showToast({
+        title: 'Could not read cohort reference',
+        description: `${file.name}: ${err instanceof Error ? err.message : 'unreadable file'}`,
+        variant: 'destructive',
+      });
+    }
+  };
 
-  const handleApplyPersonalization = () => {
+  const handleApplyPersonalization = async () => {
     if (!cancerType) {
       showToast({
         title: 'Please select a cancer type',
@@ -35,10 +115,56 @@ export function NetworkPersonalizationDialog({ open, onOpenChange }: NetworkPers
       return;
     }
 
-    showToast({
-      title: 'Network Personalization',
-      description: `Personalizing network with ${cancerType} ${sampleType} samples using ${normalizationCohort}${rnaSeqFile ? ` and ${rnaSeqFile.name}` : ''}`,
-    });
+    if (!expression) {
+      showToast({
+        title: 'No expression data',
+        description: 'Upload an RNA-seq expression file or open this dialog from RNA-seq results',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!reference) {
+      showToast({
+        title: 'No cohort reference',
+        description: 'Upload a reference expression matrix for this cohort and cancer type',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!network || !personalization || personalization.levels.length === 0) {
+      showToast({
+        title: 'Nothing to personalize',
+        description: 'No network node matches a gene in both the sample and the cohort reference',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const personalized = personalizeNetworkWithExpression(network, personalization.levels);
+    setIsSaving(true);
+    try {
+      await onSave(
+        {
+          ...personalized,
+          metadata: {
+            ...personalized.metadata,
+            personalization: { cohort: reference.cohort, sampleType, normalization, sample: sampleName ?? null },
+          },
+        },
+        name.trim() || `${networkName || 'Network'} (${sampleName || 'patient'})`,
+      );
+      onOpenChange(false);
+    } catch (err) {
+      showToast({
+        title: 'Save Failed',
+        description: err instanceof Error ? err.message : 'Failed to save the personalized network',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -130,6 +256,47 @@ export function NetworkPersonalizationDialog({ open, onOpenChange }: NetworkPers
               <option value="gdc">GDC (Genomic Data Commons)</option>
               <option value="custom">Custom Cohort</option>
             </select>
+
+            <div className="flex items-center space-x-5 pt-1">
+              {(['z-score', 'percentile'] as const).map(method => (
+                <div key={method} className="flex items-center space-x-2.5">
+                  <input
+                    type="radio"
+                    id={`normalization-${method}`}
+                    name="normalization"
+                    value={method}
+                    checked={normalization === method}
+                    onChange={() => setNormalization(method)}
+                    className="h-4 w-4 rounded-full border-slate-300 dark:border-slate-600 text-primary focus:ring-2 focus:ring-primary focus:ring-offset-2"
+                  />
+                  <label htmlFor={`normalization-${method}`} className="text-sm cursor-pointer font-medium text-slate-700 dark:text-slate-300">
+                    {method === 'z-score' ? 'z-score' : 'Percentile'}
+                  </label>
+                </div>
+              ))}
+            </div>
+
+            {cohortKey && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-3 p-3 rounded-md bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 transition-colors">
+                  <Label htmlFor="reference-file" className="text-sm font-medium min-w-fit">
+                    Reference Matrix:
+                  </Label>
+                  <input
+                    type="file"
+                    id="reference-file"
+                    accept=".tsv,.csv,.txt"
+                    onChange={(e) => handleReferenceFileChange(e.target.files?.[0] || null)}
+                    className="text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded file:border-0 file:text-xs file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90 cursor-pointer"
+                  />
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {reference
+                    ? `Stored reference: ${reference.source}, ${reference.sampleCount} samples, ${Object.keys(reference.genes).length.toLocaleString()} genes.`
+                    : 'No reference stored for this cohort and cancer type yet; upload a genes × samples expression matrix in the same unit as the patient sample.'}
+                </p>
+              </div>
+            )}
           </div>
 
 
@@ -142,14 +309,67 @@ export function NetworkPersonalizationDialog({ open, onOpenChange }: NetworkPers
               <input
                 type="file"
                 id="rna-seq-file"
-                accept=".tsv"
-                onChange={(e) => setRnaSeqFile(e.target.files?.[0] || null)}
+                accept=".tsv,.csv,.txt"
+                onChange={(e) => handleRnaSeqFileChange(e.target.files?.[0] || null)}
                 className="text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded file:border-0 file:text-xs file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90 cursor-pointer"
               />
               {!rnaSeqFile && <span className="text-xs text-slate-500 dark:text-slate-400">No file chosen</span>}
               {rnaSeqFile && <span className="text-xs text-emerald-600 dark:text-emerald-400 font-medium">{rnaSeqFile.name}</span>}
             </div>
-            <p className="text-xs text-slate-500 dark:text-slate-400">Only .tsv files are supported</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {!rnaSeqFile && rnaSeqResults
+                ? `Using ${rnaSeqResults.gene_count.toLocaleString()} genes from RNA-seq sample ${rnaSeqResults.sample_name}; upload a file to replace them.`
+                : 'Gene-level table with a TPM, FPKM or counts column (.tsv or .csv)'}
+            </p>
+          </div>
+
+          {/* Preview */}
+          {personalization && (
+            <div className="rounded-lg border border-slate-200 dark:border-slate-800 overflow-hidden">
+              <div className="px-4 py-2 bg-purple-50/50 dark:bg-purple-950/20 border-b border-slate-200 dark:border-slate-800 text-sm">
+                <span className="font-semibold">{personalization.levels.length} nodes personalized</span>
+                {personalization.unmatchedNodes.length > 0 && (
+                  <span className="text-xs text-muted-foreground ml-2">
+                    {personalization.unmatchedNodes.length} without expression keep their settings
+                  </span>
+                )}
+              </div>
+              {personalization.levels.length > 0 && (
+                <div className="max-h-60 overflow-y-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 dark:bg-slate-900 sticky top-0">
+                      <tr className="text-left">
+                        <th className="px-2 py-1.5 font-semibold">Node</th>
+                        <th className="px-2 py-1.5 font-semibold">Gene</th>
+                        <th className="px-2 py-1.5 font-semibold text-right">Expression</th>
+                        <th className="px-2 py-1.5 font-semibold text-right">{normalization === 'z-score' ? 'z-score' : 'Percentile'}</th>
+                        <th className="px-2 py-1.5 font-semibold text-right">Activity</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {personalization.levels.map(level => (
+                        <tr key={level.node} className="border-t">
+                          <td className="px-2 py-1 font-mono font-medium">{level.node}</td>
+                          <td className="px-2 py-1 font-mono">{level.gene}</td>
+                          <td className="px-2 py-1 text-right font-mono">{level.value.toFixed(2)}</td>
+                          <td className="px-2 py-1 text-right font-mono">
+                            {normalization === 'z-score' ? level.score.toFixed(2) : formatLevel(level.score)}
+                          </td>
+                          <td className="px-2 py-1 text-right font-mono">{formatLevel(level.level)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="personalized-expression-network-name" className="text-sm font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-300">
+              Personalized Network Name
+            </Label>
+            <Input id="personalized-expression-network-name" value={name} onChange={(e) => setName(e.target.value)} />
           </div>
         </div>
 
@@ -163,9 +383,10 @@ export function NetworkPersonalizationDialog({ open, onOpenChange }: NetworkPers
           </Button>
           <Button 
             onClick={handleApplyPersonalization}
+            disabled={isSaving || !network}
             className="px-6 text-white"
           >
-            Apply Personalization
+            {isSaving ? 'Saving…' : 'Apply Personalization'}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -1,18 +1,59 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useToast } from "@/components/ui/toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ANALYSIS_CONFIG } from '@/config/constants';
+import { DRUG_TARGETS } from '@/config/drugTargets';
+import { useAnalysisRun } from '@/hooks/useAnalysisRun';
+import type { DrugInteraction, DrugStatus, ExpressionReference, PatientProfile, UpdateScheme } from '@/lib/analysis/types';
+import { downloadTextAsFile } from '@/lib/download';
+import { loadExpressionReference, parseExpressionReference, saveExpressionReference } from '@/lib/expressionPersonalization';
+import { formatFateConditions, parseFateConditions } from '@/lib/fateClassification';
+import { interventionSetLabel } from '@/lib/interventionSearch';
+import { parseCopyNumberTable, parseExpressionTable, parseMaf } from '@/lib/patientProfile';
+import { patientDrugScoresToCsv } from '@/lib/patientDrugScores';
+import type { FateDefinition, NetworkData } from '@/types/network';
+import { AnalysisProgressBar } from './AnalysisProgressBar';
+
+const CUSTOM_TARGET = 'custom';
+
+const STATUS_LABELS: Record<DrugStatus, string> = {
+  approved: 'Approved',
+  'clinical-trials': 'Clinical Trials',
+  experimental: 'Experimental',
+};
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+const formatScore = (score: number) => `${score >= 0 ? '+' : ''}${(score * 100).toFixed(1)}%`;
 
 interface PatientDrugScoresDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  /** Network the patient's alterations and the drugs are applied to. */
+  network?: NetworkData | null;
+  networkName?: string;
+  fateDefinitions: FateDefinition[];
+  updateScheme: UpdateScheme;
+}
+
+/** Reads and parses one uploaded file, naming the file in parse errors. */
+async function readPatientFile<T>(file: File | null, parse: (text: string) => T): Promise<T | undefined> {
+  if (!file) return undefined;
+  try {
+    return parse(await file.text());
+  } catch (err) {
+    throw new Error(`${file.name}: ${err instanceof Error ? err.message : 'could not be read.'}`);
+  }
 }
 
-export function PatientDrugScoresDialog({ open, onOpenChange }: PatientDrugScoresDialogProps) {
-  const { showToast } = useToast();
+export function PatientDrugScoresDialog({ open, onOpenChange, network, networkName, fateDefinitions, updateScheme }: PatientDrugScoresDialogProps) {
+  const { result, isRunning, error, progress, run, cancel, reset } = useAnalysisRun('patient-drug-scores');
   const [cancerType, setCancerType] = useState<string>('');
   const [normalizationCohort, setNormalizationCohort] = useState<string>('');
+  const [reference, setReference] = useState<ExpressionReference | null>(null);
   const [drugStatus, setDrugStatus] = useState({
     approved: false,
     clinicalTrials: false,
@@ -27,15 +68,100 @@ export function PatientDrugScoresDialog({ open, onOpenChange }: PatientDrugScore
   const [rnaSeqFile, setRnaSeqFile] = useState<File | null>(null);
   const [mutationFile, setMutationFile] = useState<File | null>(null);
   const [copyNumberFile, setCopyNumberFile] = useState<File | null>(null);
+  const [targetId, setTargetId] = useState<string>(fateDefinitions[0]?.id ?? CUSTOM_TARGET);
+  const [customTarget, setCustomTarget] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const definition = fateDefinitions.find(d => d.id === targetId);
+  // Shared with network personalisation: references are stored per cohort and cancer type
+  const cohortKey = normalizationCohort && cancerType ? `${normalizationCohort}:${cancerType}` : null;
+
+  useEffect(() => {
+    setReference(cohortKey ? loadExpressionReference(cohortKey) : null);
+  }, [cohortKey]);
+
+  // Scores belong to the network they were computed on
+  useEffect(() => {
+    reset();
+  }, [network, reset]);
+
+  const handleReferenceFileChange = async (file: File | null) => {
+    if (!file || !cohortKey) return;
+    try {
+      const parsed = parseExpressionReference(await file.text(), cohortKey, file.name);
+      saveExpressionReference(parsed);
+      setReference(parsed);
+      setFormError(null);
+    } catch (err) {
+      setFormError(`${file.name}: ${err instanceof Error ? err.message : 'could not be read.'}`);
+    }
+  };
+
+  const handleCalculate = async () => {
+    if (!network) {
+      setFormError('No network data available.');
+      return;
+    }
+    let conditions = definition?.conditions ?? [];
+    if (!definition) {
+      const parsed = parseFateConditions(customTarget);
+      if (parsed.errors.length > 0) {
+        setFormError(parsed.errors[0]);
+        return;
+      }
+      conditions = parsed.conditions;
+    }
+    if (!rnaSeqFile && !mutationFile && !copyNumberFile) {
+      setFormError('Upload at least one RNA-seq, mutation or copy-number file.');
+      return;
+    }
+
+    let profile: PatientProfile;
+    try {
+      profile = {
+        expression: await readPatientFile(rnaSeqFile, parseExpressionTable),
+        expressionReference: reference ?? undefined,
+        mutations: await readPatientFile(mutationFile, parseMaf),
+        copyNumber: await readPatientFile(copyNumberFile, parseCopyNumberTable),
+      };
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'The uploaded files could not be read.');
+      return;
+    }
 
-  const handleCalculate = () => {
-    // TODO: Implement drug score calculation
-    showToast({
-      title: 'Feature Coming Soon',
-      description: 'Drug score calculation will be implemented soon.',
+    // Unchecked filters keep every drug
+    const statuses: DrugStatus[] = [];
+    if (drugStatus.approved) statuses.push('approved');
+    if (drugStatus.clinicalTrials) statuses.push('clinical-trials');
+    if (drugStatus.experimental) statuses.push('experimental');
+    const interactions: DrugInteraction[] = [];
+    if (interactionType.directTarget) interactions.push('direct-target');
+    if (interactionType.biomarker) interactions.push('biomarker');
+    if (interactionType.pathwayMember) interactions.push('pathway-member');
+    if (interactionType.geneDependency) interactions.push('gene-dependency');
+
+    setFormError(null);
+    await run({
+      network,
+      options: {
+        profile,
+        drugs: DRUG_TARGETS,
+        statuses,
+        interactions,
+        cancerType: cancerType || undefined,
+        target: Object.fromEntries(conditions.map(c => [c.node, c.active ? 1 : 0])),
+        // A fate counts as reached the way attractors are classified into it
+        minMatch: definition ? ANALYSIS_CONFIG.FATE_RULE_MIN_CONFIDENCE : 1,
+        analysis: { stateCap: ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP, updateScheme },
+      },
     });
   };
 
+  const handleExport = () => {
+    if (!result) return;
+    downloadTextAsFile(`patient-drug-scores-${networkName || 'network'}-${Date.now()}.csv`, patientDrugScoresToCsv(result));
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
@@ -85,15 +211,47 @@ export function PatientDrugScoresDialog({ open, onOpenChange }: PatientDrugScore
                   <option value="icgc">ICGC (International Cancer Genome Consortium)</option>
                   <option value="gtex">GTEx (Genotype-Tissue Expression)</option>
                   <option value="ccle">CCLE (Cancer Cell Line Encyclopedia)</option>
+                  <option value="gdc">GDC (Genomic Data Commons)</option>
                   <option value="custom">Custom Cohort</option>
                 </select>
               </div>
             </div>
+
+            {cohortKey ? (
+              <div className="space-y-2">
+                <div className="flex items-center gap-3 p-3 rounded-md bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 transition-colors">
+                  <Label htmlFor="reference-file" className="text-sm font-medium min-w-fit">
+                    Reference Matrix:
+                  </Label>
+                  <input
+                    type="file"
+                    id="reference-file"
+                    accept=".tsv,.csv,.txt"
+                    onChange={(e) => handleReferenceFileChange(e.target.files?.[0] || null)}
+                    className="text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded file:border-0 file:text-xs file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90 cursor-pointer"
+                  />
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {reference
+                    ? `Expression is ranked against the stored reference: ${reference.source}, ${reference.sampleCount} samples, ${Object.keys(reference.genes).length.toLocaleString()} genes.`
+                    : 'No reference stored for this cohort and cancer type yet; upload a genes × samples expression matrix in the same unit as the patient sample, or expression is ranked within the patient sample.'}
+                </p>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Choose a cancer type and cohort to rank expression against a cohort reference; otherwise it is ranked within the patient sample.
+              </p>
+            )}
           </div>
 
           {/* Drug Filters Section */}
           <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-800 p-4 space-y-4">
-            <h3 className="font-semibold text-sm text-slate-900 dark:text-slate-50">Drug Filters</h3>
+            <div>
+              <h3 className="font-semibold text-sm text-slate-900 dark:text-slate-50">Drug Filters</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {DRUG_TARGETS.length} bundled drug–target rows; a group with nothing checked keeps every drug.
+              </p>
+            </div>
             <div className="grid grid-cols-2 gap-6">
               {/* Drug Status */}
               <div className="space-y-3">
@@ -195,6 +353,35 @@ export function PatientDrugScoresDialog({ open, onOpenChange }: PatientDrugScore
             </div>
           </div>
 
+          {/* Target Phenotype Section */}
+          <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-800 p-4 space-y-2">
+            <h3 className="font-semibold text-sm text-slate-900 dark:text-slate-50">Target Phenotype</h3>
+            <Select value={definition ? targetId : CUSTOM_TARGET} onValueChange={setTargetId}>
+              <SelectTrigger className="bg-white dark:bg-slate-800">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {fateDefinitions.map(d => (
+                  <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_TARGET}>Node values…</SelectItem>
+              </SelectContent>
+            </Select>
+            {definition ? (
+              <p className="text-xs text-muted-foreground font-mono">{formatFateConditions(definition.conditions)}</p>
+            ) : (
+              <Input
+                placeholder="e.g. Apoptosis ON & Proliferation OFF"
+                value={customTarget}
+                onChange={(e) => setCustomTarget(e.target.value)}
+                className="font-mono text-xs bg-white dark:bg-slate-800"
+              />
+            )}
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Drugs are ranked by how much they raise the basin share of attractors showing this phenotype in the patient's network.
+            </p>
+          </div>
+
           {/* File Upload Section */}
           <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-800 p-4 space-y-4">
             <h3 className="font-semibold text-sm text-slate-900 dark:text-slate-50">Upload Genomic Data</h3>
@@ -206,7 +393,7 @@ export function PatientDrugScoresDialog({ open, onOpenChange }: PatientDrugScore
                 <input
                   type="file"
                   id="rna-seq-file"
-                  accept=".tsv"
+                  accept=".tsv,.csv,.txt"
                   onChange={(e) => setRnaSeqFile(e.target.files?.[0] || null)}
                   className="text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded file:border-0 file:text-xs file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90 cursor-pointer"
                 />
@@ -221,7 +408,7 @@ export function PatientDrugScoresDialog({ open, onOpenChange }: PatientDrugScore
                 <input
                   type="file"
                   id="mutation-file"
-                  accept=".maf"
+                  accept=".maf,.tsv,.txt"
                   onChange={(e) => setMutationFile(e.target.files?.[0] || null)}
                   className="text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded file:border-0 file:text-xs file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90 cursor-pointer"
                 />
@@ -236,7 +423,7 @@ export function PatientDrugScoresDialog({ open, onOpenChange }: PatientDrugScore
                 <input
                   type="file"
                   id="copy-number-file"
-                  accept=".tsv"
+                  accept=".tsv,.csv,.txt"
                   onChange={(e) => setCopyNumberFile(e.target.files?.[0] || null)}
                   className="text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded file:border-0 file:text-xs file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90 cursor-pointer"
                 />
@@ -245,6 +432,94 @@ export function PatientDrugScoresDialog({ open, onOpenChange }: PatientDrugScore
               </div>
             </div>
           </div>
+
+          {formError && (
+            <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">{formError}</div>
+          )}
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">{error}</div>
+          )}
+          {isRunning && (
+            <AnalysisProgressBar label="Scoring drugs" progress={progress} onCancel={cancel} unit="drugs" />
+          )}
+
+          {/* Results Section */}
+          {result && !isRunning && (
+            <div className="rounded-lg border border-slate-200 dark:border-slate-800 overflow-hidden">
+              <div className="flex items-center justify-between gap-2 px-4 py-2 bg-purple-50/50 dark:bg-purple-950/20 border-b border-slate-200 dark:border-slate-800">
+                <div className="text-sm">
+                  <span className="font-semibold">{result.scores.length} drugs ranked</span>
+                  <span className="text-xs text-muted-foreground ml-2">
+                    baseline {formatShare(result.baselineShare)} of basins in the target phenotype
+                  </span>
+                </div>
+                <Button size="sm" variant="outline" className="h-7 text-xs gap-1" onClick={handleExport} disabled={result.scores.length === 0}>
+                  <Download className="w-3 h-3" />
+                  Export CSV
+                </Button>
+              </div>
+
+              <div className="p-4 space-y-3">
+                <div className="text-xs space-y-1">
+                  <span className="font-semibold">Personalised nodes: </span>
+                  {result.alterations.length === 0 ? (
+                    <span className="text-muted-foreground italic">none</span>
+                  ) : (
+                    result.alterations.map(a => (
+                      <span key={a.node} className="inline-block mr-2 font-mono" title={`${a.gene}: ${a.detail}`}>
+                        {a.node} {a.kind === 'knock-out' ? 'KO' : 'KI'}
+                      </span>
+                    ))
+                  )}
+                </div>
+
+                {result.warnings.length > 0 && (
+                  <div className="bg-amber-50 border border-amber-200 text-amber-800 px-3 py-2 rounded text-xs space-y-0.5">
+                    {result.warnings.map((warning, i) => <div key={i}>{warning}</div>)}
+                  </div>
+                )}
+
+                {result.scores.length > 0 && (
+                  <div className="max-h-72 overflow-y-auto border rounded">
+                    <table className="w-full text-xs">
+                      <thead className="bg-slate-50 dark:bg-slate-900 sticky top-0">
+                        <tr className="text-left">
+                          <th className="px-2 py-1.5 font-semibold">#</th>
+                          <th className="px-2 py-1.5 font-semibold">Drug</th>
+                          <th className="px-2 py-1.5 font-semibold">Status</th>
+                          <th className="px-2 py-1.5 font-semibold">Targets</th>
+                          <th className="px-2 py-1.5 font-semibold">Biomarkers</th>
+                          <th className="px-2 py-1.5 font-semibold text-right">Target share</th>
+                          <th className="px-2 py-1.5 font-semibold text-right">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.scores.map((score, i) => (
+                          <tr key={score.drug} className="border-t">
+                            <td className="px-2 py-1 text-muted-foreground">{i + 1}</td>
+                            <td className="px-2 py-1 font-medium">{score.drug}</td>
+                            <td className="px-2 py-1">{STATUS_LABELS[score.status]}</td>
+                            <td className="px-2 py-1 font-mono">{interventionSetLabel(score.perturbations)}</td>
+                            <td className="px-2 py-1 font-mono">{score.biomarkers.join(', ') || '—'}</td>
+                            <td className="px-2 py-1 text-right font-mono">{formatShare(score.targetShare)}</td>
+                            <td className={`px-2 py-1 text-right font-mono ${score.score > 0 ? 'text-emerald-600' : score.score < 0 ? 'text-red-600' : ''}`}>
+                              {formatScore(score.score)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {result.unmappedDrugs.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Not scored, no target in the network: {result.unmappedDrugs.join(', ')}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
         </div>
 
         <DialogFooter className="border-t border-slate-200 dark:border-slate-800 pt-4 mt-6">
@@ -255,11 +530,12 @@ export function PatientDrugScoresDialog({ open, onOpenChange }: PatientDrugScore
           >
             Close
           </Button>
-          <Button 
+          <Button
             onClick={handleCalculate}
+            disabled={isRunning || !network}
             className="px-6 text-white"
           >
-            Calculate Scores
+            {isRunning ? 'Calculating…' : 'Calculate Scores'}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+import type { PbnAnalysisMethod, PbnAnalysisOptions, PbnAnalysisResult, PbnAttractor } from '@/lib/analysis/types';
+
+// Keep long results readable: cap listed attractors and states per attractor.
+const MAX_LISTED_ATTRACTORS = 12;
+const MAX_STATES_PER_ATTRACTOR = 4;
+
+const METHOD_LABELS: Record<PbnAnalysisMethod, string> = {
+  exact: 'Exact (Markov chain)',
+  'monte-carlo': 'Monte Carlo',
+};
+
+const ATTRACTOR_TYPE_LABELS: Record<PbnAttractor['type'], string> = {
+  'fixed-point': 'Fixed point',
+  'limit-cycle': 'Cycle',
+  'complex-attractor': 'Complex',
+};
+
+const percent = (p: number) => `${(p * 100).toFixed(1)}%`;
+
+type Props = {
+  result: PbnAnalysisResult;
+};
+
+/*
+  Steady state of a probabilistic Boolean network.
+  - Per node: probability of being active
+  - Per attractor (of the network without perturbation): probability mass on its states
+*/
+const PbnPanel: React.FC<Props> = ({ result }) => {
+  const { nodeOrder, nodeLabels, nodeProbabilities, attractors } = result;
+  const listed = attractors.slice(0, MAX_LISTED_ATTRACTORS);
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-purple-50/50 dark:bg-purple-950/30">
+        <span className="text-xs font-semibold uppercase tracking-wide">PBN Steady State</span>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span>{nodeOrder.length} nodes</span>
+          <span>{METHOD_LABELS[result.method]}</span>
+          <span>{attractors.length} attractors</span>
+          {result.method === 'exact' && <span>{result.converged ? 'Converged' : 'Not converged'}</span>}
+        </div>
+      </div>
+      <div className="p-3 space-y-3">
+        {result.warnings.length > 0 && (
+          <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1.5">
+            {result.warnings.map((w, i) => <span key={i} className="block">• {w}</span>)}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <div className="border rounded bg-background/50 overflow-hidden">
+            <div className="px-2.5 py-1.5 bg-muted/30 text-xs font-medium">Node activation</div>
+            <table className="w-full text-[10px]">
+              <tbody>
+                {nodeOrder.map(node => (
+                  <tr key={node} className="border-t border-muted/50">
+                    <td className="px-2 py-0.5">{nodeLabels[node] ?? node}</td>
+                    <td className="px-2 py-0.5 w-1/2">
+                      <div className="h-1.5 rounded bg-muted overflow-hidden">
+                        <div className="h-full bg-purple-500" style={{ width: percent(nodeProbabilities[node]) }} />
+                      </div>
+                    </td>
+                    <td className="px-2 py-0.5 text-right font-mono">{percent(nodeProbabilities[node])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="border rounded bg-background/50 overflow-hidden">
+            <div className="px-2.5 py-1.5 bg-muted/30 text-xs font-medium">Attractors</div>
+            <div className="divide-y">
+              {listed.map(attractor => (
+                <div key={attractor.id} className="px-2.5 py-1.5 space-y-1">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="font-medium">#{attractor.id + 1}</span>
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                      {ATTRACTOR_TYPE_LABELS[attractor.type]}
+                      {attractor.size > 1 && ` (${attractor.size} states)`}
+                    </Badge>
+                    <span className="ml-auto font-mono">{percent(attractor.probability)}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {attractor.states.slice(0, MAX_STATES_PER_ATTRACTOR).map(state => (
+                      <code key={state.binary} className="text-[10px] bg-muted px-1 rounded">{state.binary}</code>
+                    ))}
+                    {attractor.size > MAX_STATES_PER_ATTRACTOR && (
+                      <span className="text-[10px] text-muted-foreground">+{attractor.size - MAX_STATES_PER_ATTRACTOR}</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {attractors.length > listed.length && (
+                <p className="px-2.5 py-1.5 text-[10px] text-muted-foreground">
+                  +{attractors.length - listed.length} less likely attractors
+                </p>
+              )}
+              {result.transientProbability > 0.0005 && (
+                <div className="flex items-center px-2.5 py-1.5 text-xs text-muted-foreground">
+                  <span>Outside attractors (perturbed)</span>
+                  <span className="ml-auto font-mono">{percent(result.transientProbability)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+        <p className="text-[10px] text-muted-foreground">
+          States list nodes in the order: {nodeOrder.map(node => nodeLabels[node] ?? node).join(', ')}.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+type DialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  nodeCount: number;
+  isRunning: boolean;
+  onRun: (options: PbnAnalysisOptions) => void;
+};
+
+/** Options for a PBN steady-state run; "auto" picks the exact method for small networks. */
+export function PbnAnalysisDialog({ open, onOpenChange, nodeCount, isRunning, onRun }: DialogProps) {
+  const [method, setMethod] = useState<PbnAnalysisMethod | 'auto'>('auto');
+  const [form, setForm] = useState({
+    perturbation: '0.01',
+    trajectories: String(ANALYSIS_CONFIG.PBN_DEFAULT_TRAJECTORIES),
+    samples: String(ANALYSIS_CONFIG.PBN_DEFAULT_SAMPLES),
+    seed: '',
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+  const exactAvailable = nodeCount <= ANALYSIS_CONFIG.MAX_NODES_PBN_EXACT;
+  const sampling = method === 'monte-carlo' || (method === 'auto' && !exactAvailable);
+
+  const handleSubmit = () => {
+    const perturbation = parseFloat(form.perturbation);
+    const trajectories = parseInt(form.trajectories, 10);
+    const samples = parseInt(form.samples, 10);
+    const seed = form.seed.trim() === '' ? undefined : parseInt(form.seed, 10);
+    if (!(perturbation >= 0 && perturbation <= 1)) {
+      setFormError('Perturbation must be between 0 and 1.');
+      return;
+    }
+    if (sampling && (!(trajectories > 0) || !(samples > 0) || (seed !== undefined && isNaN(seed)))) {
+      setFormError('Trajectories and samples must be positive integers, and the seed an integer.');
+      return;
+    }
+    setFormError(null);
+    onRun({
+      method: method === 'auto' ? undefined : method,
+      perturbation,
+      ...(sampling && { trajectories, samples, seed }),
+    });
+  };
+
+  const field = (key: keyof typeof form) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setForm(prev => ({ ...prev, [key]: e.target.value })),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Probabilistic Boolean Network</DialogTitle>
+          <DialogDescription>
+            Steady-state probabilities from the rules' <code>@ p</code> alternatives, with optional random perturbations.
+          </DialogDescription>
+        </DialogHeader>
+
+        {formError && (
+          <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded">{formError}</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select value={method} onValueChange={val => setMethod(val as PbnAnalysisMethod | 'auto')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Automatic</SelectItem>
+                <SelectItem value="exact" disabled={!exactAvailable}>{METHOD_LABELS.exact}</SelectItem>
+                <SelectItem value="monte-carlo">{METHOD_LABELS['monte-carlo']}</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Exact up to {ANALYSIS_CONFIG.MAX_NODES_PBN_EXACT} nodes; this network has {nodeCount}.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pbnPerturbation">Perturbation</Label>
+            <Input id="pbnPerturbation" type="number" step="0.005" min="0" max="1" {...field('perturbation')} />
+            <p className="text-xs text-muted-foreground">Chance each node flips per step.</p>
+          </div>
+          {sampling && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="pbnTrajectories">Trajectories</Label>
+                <Input id="pbnTrajectories" type="number" min="1" step="1" {...field('trajectories')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pbnSamples">Samples per trajectory</Label>
+                <Input id="pbnSamples" type="number" min="1" step="1" {...field('samples')} />
+                <p className="text-xs text-muted-foreground">Counted after {ANALYSIS_CONFIG.PBN_DEFAULT_BURN_IN} burn-in steps.</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pbnSeed">Seed</Label>
+                <Input id="pbnSeed" type="number" step="1" placeholder="Random" {...field('seed')} />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isRunning}>
+            {isRunning ? 'Running…' : 'Run PBN Analysis'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PbnPanel;
@@ -0,0 +1,330 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Plotly from 'plotly.js-dist-min';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+import { sweepAxisLabel, sweepToCsv } from '@/lib/analysis/parameterSweep';
+import type { ProbabilisticSweepOptions, ProbabilisticSweepResult, SweepAxis, SweepParameter } from '@/lib/analysis/types';
+import { downloadTextAsFile } from '@/lib/download';
+
+const PARAMETER_OPTIONS: Array<{ value: SweepParameter; label: string; from: string; to: string }> = [
+  { value: 'noise', label: 'Noise (µ)', from: '0.05', to: '1' },
+  { value: 'selfDegradation', label: 'Self-degradation (c)', from: '0.01', to: '1' },
+  { value: 'basalActivity', label: 'Basal activity', from: '-2', to: '2' },
+];
+
+// Select value for "every node" when sweeping basal activity
+const ALL_NODES = '__all__';
+
+type Props = {
+  result: ProbabilisticSweepResult;
+  networkName?: string;
+};
+
+function SweepPlot({ result, heatmapNode }: { result: ProbabilisticSweepResult; heatmapNode: number }) {
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element) return;
+
+    const [first, second] = result.axes;
+    const label = (id: string) => result.nodeLabels[id] ?? id;
+    let data: Partial<Plotly.PlotData>[];
+    let layout: Partial<Plotly.Layout>;
+
+    if (!second) {
+      data = result.nodeOrder.map((id, i) => ({
+        type: 'scatter',
+        mode: 'lines+markers',
+        marker: { size: 4 },
+        name: label(id),
+        x: first.values,
+        y: result.points.map(point => point.probabilities[i]),
+        hovertemplate: `${label(id)}<br>%{x:.3g}: %{y:.3f}<extra></extra>`,
+      }));
+      layout = {
+        xaxis: { title: { text: sweepAxisLabel(first, result.nodeLabels) }, zeroline: false },
+        yaxis: { title: { text: 'P(active)' }, range: [-0.02, 1.02] },
+        legend: { font: { size: 10 } },
+      };
+    } else {
+      // Rows follow the first axis, columns the second
+      const columns = second.values.length;
+      data = [{
+        type: 'heatmap',
+        x: second.values,
+        y: first.values,
+        z: first.values.map((_, row) =>
+          result.points.slice(row * columns, (row + 1) * columns).map(point => point.probabilities[heatmapNode])),
+        zmin: 0,
+        zmax: 1,
+        colorscale: 'Viridis',
+        colorbar: { title: { text: 'P(active)' } },
+        hovertemplate: `${label(result.nodeOrder[heatmapNode])}<br>%{y:.3g}, %{x:.3g}: %{z:.3f}<extra></extra>`,
+      }];
+      layout = {
+        xaxis: { title: { text: sweepAxisLabel(second, result.nodeLabels) } },
+        yaxis: { title: { text: sweepAxisLabel(first, result.nodeLabels) } },
+      };
+    }
+
+    Plotly.newPlot(
+      element,
+      data,
+      { ...layout, autosize: true, margin: { l: 60, r: 10, t: 10, b: 45 }, paper_bgcolor: '#ffffff', plot_bgcolor: '#fafafa' },
+      { responsive: true, displaylogo: false },
+    );
+
+    return () => {
+      try {
+        Plotly.purge(element);
+      } catch (err) {
+        console.error('Failed to clean up Plotly:', err);
+      }
+    };
+  }, [result, heatmapNode]);
+
+  return <div ref={plotRef} className="w-full h-[360px]" />;
+}
+
+/*
+  Probabilistic parameter sweep.
+  - One parameter: steady-state probability of each recorded node along the range (bifurcation curves)
+  - Two parameters: heatmap of one recorded node over the grid
+*/
+const ProbabilisticSweepPanel: React.FC<Props> = ({ result, networkName }) => {
+  const [heatmapNode, setHeatmapNode] = useState(0);
+  const twoAxes = result.axes.length === 2;
+  const shownNode = Math.min(heatmapNode, result.nodeOrder.length - 1);
+
+  const handleExport = () => {
+    downloadTextAsFile(`parameter-sweep-${networkName || 'network'}-${Date.now()}.csv`, sweepToCsv(result));
+  };
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-purple-50/50 dark:bg-purple-950/30">
+        <span className="text-xs font-semibold uppercase tracking-wide">Parameter Sweep</span>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span>{result.axes.map(axis => sweepAxisLabel(axis, result.nodeLabels)).join(' × ')}</span>
+          <span>{result.points.length} points</span>
+          <Button size="sm" variant="outline" className="h-7 text-xs gap-1.5" onClick={handleExport}>
+            <Download className="w-3.5 h-3.5" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+      <div className="p-3 space-y-2">
+        {result.warnings.length > 0 && (
+          <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1.5">
+            {result.warnings.map((w, i) => <span key={i} className="block">• {w}</span>)}
+          </div>
+        )}
+        {twoAxes && (
+          <div className="flex items-center gap-2">
+            <Label className="text-xs">Node</Label>
+            <Select value={String(shownNode)} onValueChange={val => setHeatmapNode(Number(val))}>
+              <SelectTrigger className="h-8 w-56 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {result.nodeOrder.map((id, i) => (
+                  <SelectItem key={id} value={String(i)}>{result.nodeLabels[id] ?? id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {result.nodeOrder.length > 0 ? (
+          <SweepPlot result={result} heatmapNode={shownNode} />
+        ) : (
+          <p className="py-6 text-center text-xs text-muted-foreground">No nodes were recorded.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+type AxisForm = { parameter: SweepParameter; nodeId: string; from: string; to: string; steps: string };
+
+const defaultAxis = (parameter: SweepParameter): AxisForm => {
+  const option = PARAMETER_OPTIONS.find(o => o.value === parameter)!;
+  return { parameter, nodeId: ALL_NODES, from: option.from, to: option.to, steps: String(ANALYSIS_CONFIG.SWEEP_DEFAULT_STEPS) };
+};
+
+type DialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  nodes: Array<{ id: string; label: string }>;
+  isRunning: boolean;
+  onRun: (options: Pick<ProbabilisticSweepOptions, 'axes' | 'recordedNodes' | 'continuation'>) => void;
+};
+
+/** Sweep set-up: one or two parameter ranges, recorded nodes, and whether to follow a branch. */
+export function ProbabilisticSweepDialog({ open, onOpenChange, nodes, isRunning, onRun }: DialogProps) {
+  const [axes, setAxes] = useState<AxisForm[]>([defaultAxis('noise')]);
+  const [recorded, setRecorded] = useState<Set<string> | null>(null);
+  const [continuation, setContinuation] = useState(true);
+  const [formError, setFormError] = useState<string | null>(null);
+  const recordedNodes = recorded ?? new Set(nodes.map(node => node.id));
+  const recordedCount = nodes.filter(node => recordedNodes.has(node.id)).length;
+
+  const updateAxis = (index: number, patch: Partial<AxisForm>) =>
+    setAxes(prev => prev.map((axis, i) => (i === index ? { ...axis, ...patch } : axis)));
+
+  const toggleRecorded = (id: string) => {
+    const next = new Set(recordedNodes);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setRecorded(next);
+  };
+
+  const handleSubmit = () => {
+    const parsed: SweepAxis[] = axes.map(axis => ({
+      parameter: axis.parameter,
+      ...(axis.parameter === 'basalActivity' && axis.nodeId !== ALL_NODES && { nodeId: axis.nodeId }),
+      from: parseFloat(axis.from),
+      to: parseFloat(axis.to),
+      steps: Number(axis.steps),
+    }));
+    if (parsed.some(axis => !Number.isFinite(axis.from) || !Number.isFinite(axis.to))) {
+      setFormError('Every range needs numeric start and end values.');
+      return;
+    }
+    if (parsed.some(axis => !Number.isInteger(axis.steps) || axis.steps < 2)) {
+      setFormError('Steps must be whole numbers of at least 2.');
+      return;
+    }
+    const points = parsed.reduce((count, axis) => count * axis.steps, 1);
+    if (points > ANALYSIS_CONFIG.MAX_SWEEP_POINTS) {
+      setFormError(`The grid has ${points.toLocaleString()} points; the limit is ${ANALYSIS_CONFIG.MAX_SWEEP_POINTS.toLocaleString()}.`);
+      return;
+    }
+    if (recordedCount === 0) {
+      setFormError('Select at least one node to record.');
+      return;
+    }
+    setFormError(null);
+    onRun({
+      axes: parsed,
+      recordedNodes: nodes.map(node => node.id).filter(id => recordedNodes.has(id)),
+      continuation,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Parameter Sweep</DialogTitle>
+          <DialogDescription>
+            Rerun the probabilistic analysis over a range of one or two parameters; the other settings come from the Probabilistic Analysis dialog.
+          </DialogDescription>
+        </DialogHeader>
+
+        {formError && (
+          <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded">{formError}</div>
+        )}
+
+        <div className="space-y-4">
+          {axes.map((axis, index) => (
+            <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+              <div className="space-y-1 md:col-span-2">
+                <Label className="text-xs">{index === 0 ? 'Parameter' : 'Second parameter'}</Label>
+                <Select value={axis.parameter} onValueChange={val => updateAxis(index, defaultAxis(val as SweepParameter))}>
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PARAMETER_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`sweep-from-${index}`} className="text-xs">From</Label>
+                <Input id={`sweep-from-${index}`} type="number" step="0.01" value={axis.from} onChange={e => updateAxis(index, { from: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`sweep-to-${index}`} className="text-xs">To</Label>
+                <Input id={`sweep-to-${index}`} type="number" step="0.01" value={axis.to} onChange={e => updateAxis(index, { to: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`sweep-steps-${index}`} className="text-xs">Steps</Label>
+                <Input id={`sweep-steps-${index}`} type="number" min="2" step="1" value={axis.steps} onChange={e => updateAxis(index, { steps: e.target.value })} />
+              </div>
+              {axis.parameter === 'basalActivity' && (
+                <div className="space-y-1 col-span-2 md:col-span-5">
+                  <Label className="text-xs">Node</Label>
+                  <Select value={axis.nodeId} onValueChange={val => updateAxis(index, { nodeId: val })}>
+                    <SelectTrigger className="h-9 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_NODES}>All nodes</SelectItem>
+                      {nodes.map(node => (
+                        <SelectItem key={node.id} value={node.id}>{node.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center gap-4">
+            {axes.length === 1 ? (
+              <Button variant="outline" size="sm" onClick={() => setAxes(prev => [...prev, defaultAxis('selfDegradation')])}>
+                Add second parameter
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => setAxes(prev => prev.slice(0, 1))}>
+                Remove second parameter
+              </Button>
+            )}
+            <div className="flex items-center gap-2">
+              <Checkbox id="sweep-continuation" checked={continuation} onCheckedChange={checked => setContinuation(checked === true)} />
+              <Label htmlFor="sweep-continuation" className="text-sm font-normal">
+                Follow branch (start each point from the previous one)
+              </Label>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Recorded nodes ({recordedCount} of {nodes.length})</Label>
+            <div className="border rounded max-h-40 overflow-y-auto grid grid-cols-2 md:grid-cols-3 gap-x-3 p-2">
+              {nodes.map(node => (
+                <div key={node.id} className="flex items-center gap-2 py-0.5">
+                  <Checkbox
+                    id={`sweep-node-${node.id}`}
+                    checked={recordedNodes.has(node.id)}
+                    onCheckedChange={() => toggleRecorded(node.id)}
+                  />
+                  <Label htmlFor={`sweep-node-${node.id}`} className="text-xs font-normal truncate">{node.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isRunning}>
+            {isRunning ? 'Running…' : 'Run Sweep'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ProbabilisticSweepPanel;
@@ -5,7 +5,7 @@ import { useParams } from "react-router-dom";
 import { useToast } from '@/components/ui/toast';
 import { cn } from "@/lib/utils";
 import { formatTimestamp } from '@/lib/format';
-import type { NetworkData, NetworkNode, NetworkEdge, Rule, CellFate, TherapeuticIntervention } from '@/types/network';
+import type { NetworkData, NetworkNode, NetworkEdge, Rule, CellFate, FateDefinition, TherapeuticIntervention } from '@/types/network';
 import { importNetwork, exportAndDownloadNetworkAs, SUPPORTED_EXPORT_FORMATS, type ExportFormat } from '@/lib/networkIO';
 import { MergeNetworkDialog, type NetworkOption } from './MergeNetworkDialog';
 import { CaseStudyDialog } from './CaseStudyDialog';
@@ -15,8 +15,25 @@ import NetworkEditorLayout, { type TabType } from "./layout";
 import { useWeightedAnalysis } from '@/hooks/useWeightedAnalysis';
 import { useProbabilisticAnalysis } from '@/hooks/useProbabilisticAnalysis';
 import { useDeterministicAnalysis } from '@/hooks/useDeterministicAnalysis';
-import type { AnalysisEdge, AnalysisNode, ProbabilisticAnalysisOptions, WeightedAnalysisOptions, DeterministicAttractor, StateSnapshot } from '@/lib/analysis/types';
+import { useAnalysisRun } from '@/hooks/useAnalysisRun';
+import { useProjectColumn } from '@/hooks/useProjectData';
+import type { AnalysisEdge, AnalysisNode, AttractorMatch, CombinationScreenOptions, DeterministicAnalysisResult, DoseResponseOptions, DrugEffect, InterventionPerturbation, InterventionSearchOptions, PbnAnalysisOptions, ProbabilisticAnalysisMethod, ProbabilisticAnalysisOptions, ProbabilisticSweepOptions, SensitivityEffects, WeightedAnalysisOptions, WeightedSensitivityOptions, DeterministicAttractor, StateSnapshot, UpdateScheme, RuleAnalysisMethod, PatientMutation } from '@/lib/analysis/types';
+import { attractorSignature, matchAttractors, signatureKey } from '@/lib/analysis/attractorIdentity';
+import { classifyAttractors, definitionToCellFate, type AttractorFateCall } from '@/lib/fateClassification';
+import { interventionSetLabel, interventionTherapies } from '@/lib/interventionSearch';
+import { variantsToMutations } from '@/lib/mutationPersonalization';
+import type { RNASeqResults } from '@/lib/rnaseqApi';
 import AttractorLandscape from './AttractorLandscape';
+import AttractorGraph from './AttractorGraph';
+import TrapSpacePanel from './TrapSpacePanel';
+import PbnPanel, { PbnAnalysisDialog } from './PbnPanel';
+import ProbabilisticSweepPanel, { ProbabilisticSweepDialog } from './ProbabilisticSweepPanel';
+import WeightedSensitivityPanel, { WeightedSensitivityDialog } from './WeightedSensitivityPanel';
+import InterventionSearchPanel, { InterventionSearchDialog } from './InterventionSearchPanel';
+import DoseResponsePanel, { DoseResponseDialog } from './DoseResponsePanel';
+import CombinationScreenPanel, { CombinationScreenDialog } from './CombinationScreenPanel';
+import { SimulationPanel } from './SimulationPanel';
+import { AnalysisProgressBar } from './AnalysisProgressBar';
 import RulesPage from './RulesPage';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
@@ -26,16 +43,20 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ANALYSIS_CONFIG } from '@/config/constants';
 import { inferRulesFromBiomolecules } from "@/lib/openRouter";
 import { useProjectNetworks, type ProjectNetworkRecord } from '@/hooks/useProjectNetworks';
 import ProbabilisticLandscape from './ProbabilisticLandscape';
-import { FateClassificationDialog, AttractorFateBadge } from './FateClassification';
+import { FateClassificationDialog, FateDefinitionsDialog, AttractorFateBadge, UnclassifiedFateBadge } from './FateClassification';
 import { TherapeuticsPanel } from './TherapeuticsPanel';
-import { applyTherapiesToNetwork } from '@/lib/applyTherapies';
+import { applyTherapiesToNetwork, therapyLabel } from '@/lib/applyTherapies';
+import { ruleString, ruleStrings } from '@/lib/ruleGraphSync';
 import SeqAnalysisTab from './tabs/SeqAnalysisTab';
 import ExomeSeqTab from './tabs/ExomeSeqTab';
 import { PatientDrugScoresDialog } from './PatientDrugScoresDialog';
-import { Network, FileText, BarChart3, Trash2, Plus, Upload, Download, GitMerge, BookOpen, Eye, Pencil, Waypoints, Play, Pill, FlaskConical, Dna } from 'lucide-react';
+import { MutationPersonalizationDialog } from './MutationPersonalizationDialog';
+import { NetworkPersonalizationDialog } from './NetworkPersonalizationDialog';
+import { Network, FileText, BarChart3, Lock, Trash2, Plus, Upload, Download, GitMerge, BookOpen, Eye, Pencil, Waypoints, Play, Pill, FlaskConical, Dna, Dices, SlidersHorizontal, Gauge, Tag, Crosshair, TrendingDown, Grid3x3 } from 'lucide-react';
 
 type ProjectRecord = {
   id: string;
@@ -48,6 +69,68 @@ type ProjectRecord = {
 // network records provided by useProjectNetworks
 
 const MAX_RECENT_NETWORKS = 10;
+// Complex attractors can span many states; cap the columns shown in the state tables.
+const MAX_ATTRACTOR_STATE_COLUMNS = 8;
+
+const UPDATE_SCHEME_LABELS: Record<UpdateScheme, string> = {
+  'synchronous': 'Synchronous',
+  'asynchronous': 'Asynchronous',
+  'random-order': 'Random order',
+};
+
+const RULE_ANALYSIS_METHOD_LABELS: Record<RuleAnalysisMethod, string> = {
+  'enumeration': 'State enumeration',
+  'symbolic': 'Symbolic (exact, large networks)',
+};
+
+function formatAttractorType(attractor: DeterministicAttractor): string {
+  if (attractor.type === 'fixed-point') return 'Fixed Point';
+  if (attractor.type === 'complex-attractor') return `Complex (${attractor.period} states)`;
+  return `Cycle (${attractor.period})`;
+}
+
+type MatchedFates = {
+  /**
+   * Fate per attractor id of the run: the saved one with how it was matched, or else the one
+   * classified from the project's fate definitions, with the classification call.
+   */
+  byAttractor: Record<string, { fate: CellFate; match?: AttractorMatch; call?: AttractorFateCall; alternatives?: string[] }>;
+  /** Saved fates that match no attractor of the run. */
+  unmatched: number;
+  /** Attractors without a saved fate that no fate definition matches. */
+  unclassified: Set<number>;
+  /** Fate definition markers missing from the network. */
+  warnings: string[];
+};
+
+/**
+ * Re-associate saved cell fates with a run's attractors, whose ids are only discovery order,
+ * and classify the remaining attractors with the project's fate definitions.
+ */
+function matchCellFates(cellFates: Record<string, CellFate>, definitions: FateDefinition[], result: DeterministicAnalysisResult | null): MatchedFates {
+  if (!result) return { byAttractor: {}, unmatched: 0, unclassified: new Set(), warnings: [] };
+  const { matches, unmatched } = matchAttractors(cellFates, result);
+  const byAttractor: MatchedFates['byAttractor'] = Object.fromEntries(
+    matches.map(match => [String(match.attractorId), { fate: cellFates[match.key], match }]),
+  );
+  const unclassified = new Set<number>();
+  const { calls, warnings } = definitions.length > 0 ? classifyAttractors(result, definitions) : { calls: [], warnings: [] };
+  const definitionById = new Map(definitions.map(definition => [definition.id, definition]));
+  for (const call of calls) {
+    if (byAttractor[String(call.attractorId)]) continue;
+    const definition = call.definitionId !== null ? definitionById.get(call.definitionId) : undefined;
+    if (!definition) {
+      unclassified.add(call.attractorId);
+      continue;
+    }
+    byAttractor[String(call.attractorId)] = {
+      fate: definitionToCellFate(definition, call.confidence),
+      call,
+      alternatives: call.candidates.slice(1).map(candidate => definitionById.get(candidate.definitionId)?.name ?? candidate.definitionId),
+    };
+  }
+  return { byAttractor, unmatched: unmatched.length, unclassified, warnings };
+}
 
 function ProjectVisualizationPage() {
   const { projectId } = useParams<{ projectId: string }>();
@@ -56,6 +139,7 @@ function ProjectVisualizationPage() {
   const [networkSubTab, setNetworkSubTab] = useState<'editor' | 'rules'>('editor');
   const [project, setProject] = useState<ProjectRecord | null>(null);
   const { networks, selectedNetworkId, selectedNetwork, selectNetwork, setNetworks, refresh: refreshNetworks } = useProjectNetworks({ projectId });
+  const { value: fateDefinitions, save: saveFateDefinitions } = useProjectColumn(projectId, 'fate_definitions');
   const [recentNetworkIds, setRecentNetworkIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [loadError, setLoadError] = useState<string | null>(null);
@@ -65,6 +149,8 @@ function ProjectVisualizationPage() {
 
   // Live interventions state (for therapeutics tab)
   const [liveInterventions, setLiveInterventions] = useState<TherapeuticIntervention[] | null>(null);
+  // Doses from the Therapeutics panel's targeted and group therapies
+  const [liveDrugs, setLiveDrugs] = useState<DrugEffect[]>([]);
 
   // Sync live interventions when selected network changes
   useEffect(() => {
@@ -76,6 +162,7 @@ function ProjectVisualizationPage() {
   // Probabilistic analysis dialog state
   const [isProbabilisticDialogOpen, setIsProbabilisticDialogOpen] = useState(false);
   const [probabilisticForm, setProbabilisticForm] = useState({
+    method: 'mean-field' as ProbabilisticAnalysisMethod,
     noise: '0.25',
     selfDegradation: '0.1',
     maxIterations: '500',
@@ -83,6 +170,7 @@ function ProjectVisualizationPage() {
     initialProbability: '0.5',
   });
   const [probabilisticFormError, setProbabilisticFormError] = useState<string | null>(null);
+  const probabilisticExactAvailable = (selectedNetwork?.data?.nodes?.length ?? 0) <= ANALYSIS_CONFIG.MAX_NODES_PROBABILISTIC_EXACT;
 
   // New Network dialog state
   const [isNewNetworkDialogOpen, setIsNewNetworkDialogOpen] = useState(false);
@@ -119,10 +207,17 @@ function ProjectVisualizationPage() {
 
   // Fate classification state
   const [fateDialogOpen, setFateDialogOpen] = useState(false);
-  const [selectedAttractorId, setSelectedAttractorId] = useState<number | null>(null);
+  // Attractor being classified, with the run it belongs to (attractor ids are per run)
+  const [fateAttractor, setFateAttractor] = useState<{ run: 'weighted' | 'rule-based'; id: number } | null>(null);
+  const selectedAttractorId = fateAttractor?.id ?? null;
 
   // Patient Drug Scores dialog state
   const [patientDrugScoresDialogOpen, setPatientDrugScoresDialogOpen] = useState(false);
+  // Mutation personalisation dialog state, optionally seeded with Exome-seq variants
+  const [mutationPersonalizationOpen, setMutationPersonalizationOpen] = useState(false);
+  const [exomeMutations, setExomeMutations] = useState<{ mutations: PatientMutation[]; sampleName: string } | null>(null);
+  // Expression personalisation dialog state, seeded with RNA-seq results
+  const [expressionPersonalizationResults, setExpressionPersonalizationResults] = useState<RNASeqResults | null>(null);
 
   // Landscape dialog states
   const [attractorLandscapeOpen, setAttractorLandscapeOpen] = useState(false);
@@ -139,6 +234,8 @@ function ProjectVisualizationPage() {
   // Minimal inference wiring so sidebar actions work here too
 
   const [ruleBasedNodeLimitWarning, setRuleBasedNodeLimitWarning] = useState<string | null>(null);
+  const [ruleUpdateScheme, setRuleUpdateScheme] = useState<UpdateScheme>('synchronous');
+  const [ruleAnalysisMethod, setRuleAnalysisMethod] = useState<RuleAnalysisMethod>('enumeration');
 
   // Map of node ID to label for display purposes
   const nodeIdToLabel = useMemo(() => {
@@ -183,7 +280,9 @@ function ProjectVisualizationPage() {
     result: weightedResult,
     isRunning: isWeightedAnalyzing,
     error: weightedError,
+    progress: weightedProgress,
     run: runWeightedAnalysis,
+    cancel: cancelWeightedAnalysis,
     reset: resetWeightedAnalysis,
   } = useWeightedAnalysis();
 
@@ -191,7 +290,9 @@ function ProjectVisualizationPage() {
     result: probabilisticResult,
     isRunning: isProbabilisticAnalyzing,
     error: probabilisticError,
+    progress: probabilisticProgress,
     run: runProbabilisticAnalysis,
+    cancel: cancelProbabilisticAnalysis,
     reset: resetProbabilisticAnalysis,
   } = useProbabilisticAnalysis();
 
@@ -200,37 +301,141 @@ function ProjectVisualizationPage() {
     result: ruleBasedResult,
     isRunning: isRuleBasedRunning,
     error: ruleBasedError,
+    progress: ruleBasedProgress,
     run: runRuleBasedAnalysis,
+    cancel: cancelRuleBasedAnalysis,
     downloadResults: downloadRuleBasedResults,
     reset: resetRuleBasedAnalysis,
   } = useDeterministicAnalysis();
 
+  const {
+    result: trapSpaceResult,
+    isRunning: isTrapSpaceRunning,
+    error: trapSpaceError,
+    run: runTrapSpaceAnalysis,
+    cancel: cancelTrapSpaceAnalysis,
+    reset: resetTrapSpaceAnalysis,
+  } = useAnalysisRun('trap-spaces');
+  const {
+    result: pbnResult,
+    isRunning: isPbnRunning,
+    error: pbnError,
+    progress: pbnProgress,
+    run: runPbnAnalysis,
+    cancel: cancelPbnAnalysis,
+    reset: resetPbnAnalysis,
+  } = useAnalysisRun('pbn');
+  const [isPbnDialogOpen, setIsPbnDialogOpen] = useState(false);
+  const {
+    result: sweepResult,
+    isRunning: isSweepRunning,
+    error: sweepError,
+    progress: sweepProgress,
+    run: runProbabilisticSweep,
+    cancel: cancelProbabilisticSweep,
+    reset: resetProbabilisticSweep,
+  } = useAnalysisRun('probabilistic-sweep');
+  const [isSweepDialogOpen, setIsSweepDialogOpen] = useState(false);
+  const {
+    result: sensitivityResult,
+    isRunning: isSensitivityRunning,
+    error: sensitivityError,
+    progress: sensitivityProgress,
+    run: runWeightedSensitivity,
+    cancel: cancelWeightedSensitivity,
+    reset: resetWeightedSensitivity,
+  } = useAnalysisRun('weighted-sensitivity');
+  const [isSensitivityDialogOpen, setIsSensitivityDialogOpen] = useState(false);
+  const [isFateDefinitionsDialogOpen, setIsFateDefinitionsDialogOpen] = useState(false);
+  // Edge colours drawn over the network editor graph (from sensitivity results)
+  const [edgeOverlay, setEdgeOverlay] = useState<{ colors: Record<string, string>; label: string } | null>(null);
+  const [nodeOverlay, setNodeOverlay] = useState<{ colors: Record<string, string>; label: string } | null>(null);
+
   // Therapeutics-specific analysis hooks (separate from inference tab)
   const {
     result: therapeuticsWeightedResult,
     isRunning: isTherapeuticsWeightedRunning,
+    error: therapeuticsWeightedError,
+    progress: therapeuticsWeightedProgress,
     run: runTherapeuticsWeightedAnalysis,
+    cancel: cancelTherapeuticsWeightedAnalysis,
     reset: resetTherapeuticsWeightedAnalysis,
   } = useWeightedAnalysis();
 
   const {
     result: therapeuticsProbabilisticResult,
     isRunning: isTherapeuticsProbabilisticRunning,
+    error: therapeuticsProbabilisticError,
+    progress: therapeuticsProbabilisticProgress,
     run: runTherapeuticsProbabilisticAnalysis,
+    cancel: cancelTherapeuticsProbabilisticAnalysis,
     reset: resetTherapeuticsProbabilisticAnalysis,
   } = useProbabilisticAnalysis();
 
   const {
     result: therapeuticsRuleBasedResult,
     isRunning: isTherapeuticsRuleBasedRunning,
+    error: therapeuticsRuleBasedError,
+    progress: therapeuticsRuleBasedProgress,
     run: runTherapeuticsRuleBasedAnalysis,
+    cancel: cancelTherapeuticsRuleBasedAnalysis,
     reset: resetTherapeuticsRuleBasedAnalysis,
   } = useDeterministicAnalysis();
 
+  const {
+    result: interventionSearchResult,
+    isRunning: isInterventionSearchRunning,
+    error: interventionSearchError,
+    progress: interventionSearchProgress,
+    run: runInterventionSearch,
+    cancel: cancelInterventionSearch,
+    reset: resetInterventionSearch,
+  } = useAnalysisRun('intervention-search');
+  const [isInterventionSearchDialogOpen, setIsInterventionSearchDialogOpen] = useState(false);
+
+  const {
+    result: doseResponseResult,
+    isRunning: isDoseResponseRunning,
+    error: doseResponseError,
+    progress: doseResponseProgress,
+    run: runDoseResponse,
+    cancel: cancelDoseResponse,
+    reset: resetDoseResponse,
+  } = useAnalysisRun('dose-response');
+  const [isDoseResponseDialogOpen, setIsDoseResponseDialogOpen] = useState(false);
+
+  const {
+    result: combinationScreenResult,
+    isRunning: isCombinationScreenRunning,
+    error: combinationScreenError,
+    progress: combinationScreenProgress,
+    run: runCombinationScreen,
+    cancel: cancelCombinationScreen,
+    reset: resetCombinationScreen,
+  } = useAnalysisRun('combination-screen');
+  const [isCombinationScreenDialogOpen, setIsCombinationScreenDialogOpen] = useState(false);
+
   // Therapeutics sub-tab state
-  const [therapeuticsSubTab, setTherapeuticsSubTab] = useState<'preview' | 'attractors' | 'landscape' | 'comparison'>('preview');
+  const [therapeuticsSubTab, setTherapeuticsSubTab] = useState<'preview' | 'attractors' | 'landscape' | 'comparison' | 'search' | 'dose' | 'combination'>('preview');
   const [therapeuticsProbabilisticDialogOpen, setTherapeuticsProbabilisticDialogOpen] = useState(false);
 
+  // Saved cell fates for the attractors of each run, and of the therapeutics runs
+  const weightedMatchedFates = useMemo(
+    () => matchCellFates(cellFates, fateDefinitions, weightedResult),
+    [cellFates, fateDefinitions, weightedResult]
+  );
+  const ruleBasedMatchedFates = useMemo(
+    () => matchCellFates(cellFates, fateDefinitions, ruleBasedResult),
+    [cellFates, fateDefinitions, ruleBasedResult]
+  );
+  // Run of the attractor being classified; the fate dialog saves and removes against it
+  const fateResult = fateAttractor?.run === 'rule-based' ? ruleBasedResult : weightedResult;
+  const matchedFates = fateAttractor?.run === 'rule-based' ? ruleBasedMatchedFates : weightedMatchedFates;
+  const therapeuticsMatchedFates = useMemo(
+    () => matchCellFates(cellFates, fateDefinitions, therapeuticsWeightedResult ?? therapeuticsRuleBasedResult),
+    [cellFates, fateDefinitions, therapeuticsWeightedResult, therapeuticsRuleBasedResult]
+  );
+
   // Comparison data: compare original (inference) results vs therapeutics results
   const comparisonData = useMemo(() => {
     // Get original results
@@ -404,8 +609,11 @@ function ProjectVisualizationPage() {
         timestamp: new Date().toISOString(),
         networkName: selectedNetwork?.name,
         nodeOrder: probabilisticResult.nodeOrder,
+        method: probabilisticResult.method,
         probabilities: probabilisticResult.probabilities,
         potentialEnergies: probabilisticResult.potentialEnergies,
+        stateProbabilities: probabilisticResult.stateProbabilities,
+        stateEnergies: probabilisticResult.stateEnergies,
         converged: probabilisticResult.converged,
         iterations: probabilisticResult.iterations,
       };
@@ -462,16 +670,9 @@ function ProjectVisualizationPage() {
       return;
     }
 
-    // Convert Rule objects to strings if needed
-    // Handle both old format ({ name: "A = B" }) and new format ({ name: "A", action: "B" })
-    const ruleStrings = rules.map((r: any) => {
-      if (typeof r === 'string') return r;
-      if (r.action) return `${r.name} = ${r.action}`;
-      if (r.name && r.name.includes('=')) return r.name;
-      return '';
-    }).filter((s: string) => s.includes('='));
+    const ruleTexts = ruleStrings(rules);
 
-    if (ruleStrings.length === 0) {
+    if (ruleTexts.length === 0) {
       showToast({ 
         title: 'No Valid Rules Found', 
         description: 'The rules could not be parsed. Please check rule format in the Rules tab.',
@@ -482,13 +683,14 @@ function ProjectVisualizationPage() {
 
     showToast({
       title: 'Running Rule-Based Analysis',
-      description: `Analyzing network "${selectedNetwork.name}" with ${ruleStrings.length} rules...`,
+      description: `Analyzing network "${selectedNetwork.name}" with ${ruleTexts.length} rules...`,
     });
 
     setRuleBasedNodeLimitWarning(null);
 
     try {
-      await runRuleBasedAnalysis(ruleStrings);
+      const analysis = await runRuleBasedAnalysis(ruleTexts, { updateScheme: ruleUpdateScheme, method: ruleAnalysisMethod });
+      if (!analysis) return;
       showToast({
         title: 'Analysis Complete',
         description: `Rule-based analysis of "${selectedNetwork.name}" completed successfully.`,
@@ -500,19 +702,57 @@ function ProjectVisualizationPage() {
         variant: 'destructive',
       });
     }
-  }, [selectedNetwork, runRuleBasedAnalysis, showToast]);
+  }, [selectedNetwork, runRuleBasedAnalysis, ruleUpdateScheme, ruleAnalysisMethod, showToast]);
+
+  const handleRunTrapSpaces = useCallback(async () => {
+    if (!selectedNetwork) return;
+    const ruleTexts = ruleStrings(selectedNetwork.data?.rules ?? []);
+    if (ruleTexts.length === 0) {
+      showToast({
+        title: 'No Valid Rules Found',
+        description: 'Trap spaces are computed from the network rules. Please add rules in the Rules tab first.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    await runTrapSpaceAnalysis({ rules: ruleTexts });
+  }, [selectedNetwork, runTrapSpaceAnalysis, showToast]);
+
+  const handleOpenPbnDialog = useCallback(() => {
+    if (!selectedNetwork) return;
+    if (ruleStrings(selectedNetwork.data?.rules ?? []).length === 0) {
+      showToast({
+        title: 'No Valid Rules Found',
+        description: 'PBN analysis uses the network rules (alternatives written as TARGET = EXPR @ p). Please add rules in the Rules tab first.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setIsPbnDialogOpen(true);
+  }, [selectedNetwork, showToast]);
+
+  const handleRunPbn = useCallback(async (options: PbnAnalysisOptions) => {
+    if (!selectedNetwork) return;
+    setIsPbnDialogOpen(false);
+    await runPbnAnalysis({ rules: ruleStrings(selectedNetwork.data?.rules ?? []), options });
+  }, [selectedNetwork, runPbnAnalysis]);
 
   // Cell fate classification handlers
-  const handleOpenFateDialog = useCallback((attractorId: number) => {
-    setSelectedAttractorId(attractorId);
+  const handleOpenFateDialog = useCallback((run: 'weighted' | 'rule-based', attractorId: number) => {
+    setFateAttractor({ run, id: attractorId });
     setFateDialogOpen(true);
   }, []);
 
   const handleSaveFate = useCallback(async (fate: CellFate) => {
-    if (!selectedNetwork || selectedAttractorId === null) return;
+    const attractor = fateResult?.attractors.find(a => a.id === selectedAttractorId);
+    if (!selectedNetwork || !fateResult || !attractor) return;
 
-    const attractorKey = String(selectedAttractorId);
-    const updatedCellFates = { ...cellFates, [attractorKey]: fate };
+    // Store under the attractor's signature, replacing whichever entry it matched before
+    const signature = attractorSignature(attractor, fateResult.nodeOrder);
+    const updatedCellFates = { ...cellFates };
+    const previousKey = matchedFates.byAttractor[String(attractor.id)]?.match?.key;
+    if (previousKey !== undefined) delete updatedCellFates[previousKey];
+    updatedCellFates[signatureKey(signature)] = { ...fate, signature };
 
     // Update network metadata in Supabase
     const updatedMetadata = {
@@ -555,14 +795,14 @@ function ProjectVisualizationPage() {
       }
       setFateDialogOpen(false);
     }
-  }, [selectedNetwork, selectedAttractorId, cellFates, networks, selectedNetworkId, setNetworks, showToast]);
+  }, [selectedNetwork, selectedAttractorId, fateResult, cellFates, matchedFates, networks, selectedNetworkId, setNetworks, showToast]);
 
   const handleRemoveFate = useCallback(async () => {
-    if (!selectedNetwork || selectedAttractorId === null) return;
+    const fateKey = selectedAttractorId !== null ? matchedFates.byAttractor[String(selectedAttractorId)]?.match?.key : undefined;
+    if (!selectedNetwork || fateKey === undefined) return;
 
-    const attractorKey = String(selectedAttractorId);
     const updatedCellFates = { ...cellFates };
-    delete updatedCellFates[attractorKey];
+    delete updatedCellFates[fateKey];
 
     // Update network metadata in Supabase
     const updatedMetadata = {
@@ -605,7 +845,15 @@ function ProjectVisualizationPage() {
       }
       setFateDialogOpen(false);
     }
-  }, [selectedNetwork, selectedAttractorId, cellFates, networks, selectedNetworkId, setNetworks, showToast]);
+  }, [selectedNetwork, selectedAttractorId, cellFates, matchedFates, networks, selectedNetworkId, setNetworks, showToast]);
+
+  const handleSaveFateDefinitions = useCallback(async (definitions: FateDefinition[]) => {
+    await saveFateDefinitions(definitions);
+    showToast({
+      title: 'Fate Definitions Saved',
+      description: `${definitions.length} fate definition${definitions.length !== 1 ? 's' : ''} will classify the attractors of new runs.`,
+    });
+  }, [saveFateDefinitions, showToast]);
 
   const handleOpenProbabilisticDialog = () => {
     // Check if network has nodes before opening the dialog
@@ -634,6 +882,104 @@ function ProjectVisualizationPage() {
     setIsProbabilisticDialogOpen(true);
   };
 
+  // Nodes and weighted edges of the selected network, as the probabilistic engines take them
+  const probabilisticNetwork = useMemo(() => {
+    const networkData = (selectedNetwork?.data || selectedNetwork) as NetworkData | null;
+    const nodes: AnalysisNode[] = (Array.isArray(networkData?.nodes) ? networkData.nodes : []).map((n: NetworkNode) => ({
+      id: String(n.id),
+      label: String(n.label || n.id),
+    }));
+    const edges: AnalysisEdge[] = (Array.isArray(networkData?.edges) ? networkData.edges : []).map((e: NetworkEdge) => ({
+      source: String(e.source),
+      target: String(e.target),
+      weight: Number(e.weight ?? 1),
+    }));
+    return { nodes, edges };
+  }, [selectedNetwork]);
+
+  const handleOpenSweepDialog = () => {
+    if (probabilisticNetwork.nodes.length === 0) {
+      showToast({
+        title: 'No Nodes Found',
+        description: 'The selected network has no nodes. Please add nodes in the Network tab first.',
+        variant: 'destructive'
+      });
+      return;
+    }
+    setIsSweepDialogOpen(true);
+  };
+
+  const handleRunSweep = async (sweep: Pick<ProbabilisticSweepOptions, 'axes' | 'recordedNodes' | 'continuation'>) => {
+    const noise = parseFloat(probabilisticForm.noise);
+    const selfDegradation = parseFloat(probabilisticForm.selfDegradation);
+    const maxIterations = parseInt(probabilisticForm.maxIterations, 10);
+    const tolerance = parseFloat(probabilisticForm.tolerance);
+    const initialProbability = parseFloat(probabilisticForm.initialProbability);
+    if (isNaN(noise) || isNaN(selfDegradation) || isNaN(maxIterations) || isNaN(tolerance) || isNaN(initialProbability)) {
+      showToast({ title: 'Invalid Parameters', description: 'Check the settings in the Probabilistic Analysis dialog.', variant: 'destructive' });
+      return;
+    }
+    setIsSweepDialogOpen(false);
+    await runProbabilisticSweep({
+      nodes: probabilisticNetwork.nodes,
+      edges: probabilisticNetwork.edges,
+      options: {
+        ...sweep,
+        base: {
+          method: probabilisticForm.method,
+          noise,
+          selfDegradation,
+          ...(probabilisticForm.method === 'mean-field' && { maxIterations, tolerance }),
+          initialProbability,
+        },
+      },
+    });
+  };
+
+  const handleOpenSensitivityDialog = () => {
+    if (probabilisticNetwork.nodes.length === 0) {
+      showToast({
+        title: 'No Nodes Found',
+        description: 'The selected network has no nodes. Please add nodes in the Network tab first.',
+        variant: 'destructive'
+      });
+      return;
+    }
+    setIsSensitivityDialogOpen(true);
+  };
+
+  const handleRunSensitivity = async ({ stateCap, ...sensitivity }: Omit<WeightedSensitivityOptions, 'analysis' | 'fates' | 'onProgress'> & { stateCap: number }) => {
+    const networkData = (selectedNetwork?.data || selectedNetwork) as NetworkData | null;
+    const { nodes, edges, options } = normalizeNodesEdges({
+      nodes: networkData?.nodes,
+      edges: networkData?.edges,
+      thresholdMultiplier: networkData?.metadata?.thresholdMultiplier,
+    });
+    // Fates of saved or rule-classified attractors from the last weighted run, matched across runs by their states
+    const fates = Object.fromEntries(
+      (weightedResult?.attractors ?? [])
+        .filter(attractor => weightedMatchedFates.byAttractor[String(attractor.id)])
+        .map(attractor => [
+          signatureKey(attractorSignature(attractor, weightedResult!.nodeOrder)),
+          weightedMatchedFates.byAttractor[String(attractor.id)].fate.name,
+        ]),
+    );
+    setIsSensitivityDialogOpen(false);
+    await runWeightedSensitivity({ nodes, edges, options: { ...sensitivity, analysis: { ...options, stateCap }, fates } });
+  };
+
+  const handleShowSensitivityOnGraph = (colors: Record<string, string>, effect: keyof SensitivityEffects) => {
+    setEdgeOverlay({ colors, label: effect === 'attractorCount' ? 'attractor count' : effect === 'fateShift' ? 'fate shift' : 'basin shift' });
+    setActiveTab('network');
+    setNetworkSubTab('editor');
+  };
+
+  const handleShowFoldChangeOnGraph = (colors: Record<string, string>, label: string) => {
+    setNodeOverlay({ colors, label });
+    setActiveTab('network');
+    setNetworkSubTab('editor');
+  };
+
   const handleProbabilisticSubmit = async () => {
     if (!selectedNetwork) {
       setProbabilisticFormError('No network selected. Please select a network in the Network tab first.');
@@ -669,15 +1015,20 @@ function ProjectVisualizationPage() {
       }
 
       const probabilisticOptions: ProbabilisticAnalysisOptions = {
+        method: probabilisticForm.method,
         noise,
         selfDegradation,
-        maxIterations,
-        tolerance,
+        // The exact solver keeps its own iteration cap and tolerance
+        ...(probabilisticForm.method === 'mean-field' && { maxIterations, tolerance }),
         initialProbability,
+        // Personalised networks carry per-node start probabilities and basal activity
+        ...(networkData?.metadata?.initialProbabilities && { initialProbabilities: networkData.metadata.initialProbabilities }),
+        ...(networkData?.metadata?.basalActivity && { basalActivity: networkData.metadata.basalActivity }),
       };
 
       resetProbabilisticAnalysis();
-      await runProbabilisticAnalysis(nodes, edges, probabilisticOptions);
+      const analysis = await runProbabilisticAnalysis(nodes, edges, probabilisticOptions);
+      if (!analysis) return;
       setIsProbabilisticDialogOpen(false);
       
       showToast({
@@ -695,6 +1046,14 @@ function ProjectVisualizationPage() {
     }
   }, [probabilisticError]);
 
+  // Therapeutics runs have no form to show their errors in
+  const therapeuticsError = therapeuticsWeightedError ?? therapeuticsRuleBasedError ?? therapeuticsProbabilisticError;
+  useEffect(() => {
+    if (therapeuticsError) {
+      showToast({ title: 'Analysis Failed', description: therapeuticsError, variant: 'destructive' });
+    }
+  }, [therapeuticsError, showToast]);
+
   // Therapeutics analysis handlers (use modified network with interventions)
   const getModifiedNetworkData = useCallback(() => {
     const networkData = selectedNetwork?.data;
@@ -719,7 +1078,8 @@ function ProjectVisualizationPage() {
       return;
     }
     resetTherapeuticsWeightedAnalysis();
-    await runTherapeuticsWeightedAnalysis(nodes, edges, options);
+    const analysis = await runTherapeuticsWeightedAnalysis(nodes, edges, { ...options, drugs: liveDrugs });
+    if (!analysis) return;
     setTherapeuticsSubTab('attractors');
     showToast({ title: 'Weighted Analysis Complete', description: 'Analysis of therapeutics-modified network completed.' });
   };
@@ -730,19 +1090,11 @@ function ProjectVisualizationPage() {
       showToast({ title: 'Error', description: 'No network data available.', variant: 'destructive' });
       return;
     }
-    // Build rules array from modified network rules
-    // Handle both old format ({ name: "A = B" }) and new format ({ name: "A", action: "B" })
+    // Build rules array from modified network rules (see ruleString for the stored formats)
     const rules = modifiedData.rules || [];
-    const rulesArray = rules.map((r: Rule) => {
-      if (r.action) {
-        // New format: { name: "A", action: "B && C" }
-        return `${r.name} = ${r.action}`;
-      } else if (r.name && r.name.includes('=')) {
-        // Old format: { name: "A = B && C" }
-        return r.name;
-      }
-      return `${r.name} = ${r.name}`; // Fallback: self-loop
-    }).filter((s: string) => s.includes('='));
+    const rulesArray = rules
+      .map((r: Rule) => ruleString(r) || `${r.name} = ${r.name}`) // Fallback: self-loop
+      .filter((s: string) => s.includes('='));
     
     if (rulesArray.length === 0) {
       showToast({ title: 'Error', description: 'No rules defined. Please define rules first.', variant: 'destructive' });
@@ -777,11 +1129,33 @@ function ProjectVisualizationPage() {
     }
     
     resetTherapeuticsRuleBasedAnalysis();
-    await runTherapeuticsRuleBasedAnalysis(rulesArray);
+    const analysis = await runTherapeuticsRuleBasedAnalysis(rulesArray, { updateScheme: ruleUpdateScheme, method: ruleAnalysisMethod });
+    if (!analysis) return;
     setTherapeuticsSubTab('attractors');
     showToast({ title: 'Rule-Based Analysis Complete', description: 'Analysis of therapeutics-modified network completed.' });
   };
 
+  const handleRunInterventionSearch = async ({ stateCap, ...search }: Omit<InterventionSearchOptions, 'analysis' | 'onProgress'> & { stateCap: number }) => {
+    // Search on top of the interventions already applied
+    const modifiedData = getModifiedNetworkData();
+    if (!modifiedData) {
+      showToast({ title: 'Error', description: 'No network data available.', variant: 'destructive' });
+      return;
+    }
+    setIsInterventionSearchDialogOpen(false);
+    setTherapeuticsSubTab('search');
+    await runInterventionSearch({ network: modifiedData, options: { ...search, analysis: { stateCap, updateScheme: ruleUpdateScheme } } });
+  };
+
+  const handleApplyInterventionSet = (perturbations: InterventionPerturbation[]) => {
+    setLiveInterventions(prev => [...(prev ?? selectedNetwork?.therapies ?? []), ...interventionTherapies(perturbations, Date.now())]);
+    setTherapeuticsSubTab('preview');
+    showToast({
+      title: 'Interventions Added',
+      description: `${interventionSetLabel(perturbations)} added; save them in the Therapeutics panel to keep them.`,
+    });
+  };
+
   const handleOpenTherapeuticsProbabilisticDialog = () => {
     // Check if network has nodes before opening the dialog
     if (!selectedNetwork) {
@@ -826,14 +1200,17 @@ function ProjectVisualizationPage() {
       
       const { nodes, edges } = normalizeNodesEdges(modifiedData);
       const probabilisticOptions: ProbabilisticAnalysisOptions = {
+        method: probabilisticForm.method,
         noise,
         selfDegradation,
-        maxIterations,
-        tolerance,
+        // The exact solver keeps its own iteration cap and tolerance
+        ...(probabilisticForm.method === 'mean-field' && { maxIterations, tolerance }),
         initialProbability,
+        drugs: liveDrugs,
       };
       resetTherapeuticsProbabilisticAnalysis();
-      await runTherapeuticsProbabilisticAnalysis(nodes, edges, probabilisticOptions);
+      const analysis = await runTherapeuticsProbabilisticAnalysis(nodes, edges, probabilisticOptions);
+      if (!analysis) return;
       setTherapeuticsProbabilisticDialogOpen(false);
       setTherapeuticsSubTab('landscape');
       showToast({ title: 'Probabilistic Analysis Complete', description: 'Analysis of therapeutics-modified network completed.' });
@@ -842,16 +1219,73 @@ function ProjectVisualizationPage() {
     }
   };
 
+  const handleRunCombinationScreen = async ({ stateCap, ...screen }: Omit<CombinationScreenOptions, 'analysis' | 'onProgress'> & { stateCap: number }) => {
+    // Candidates are screened on the network without the panel's interventions
+    const networkData = selectedNetwork?.data;
+    if (!networkData) {
+      showToast({ title: 'Error', description: 'No network data available.', variant: 'destructive' });
+      return;
+    }
+    setIsCombinationScreenDialogOpen(false);
+    setTherapeuticsSubTab('combination');
+    await runCombinationScreen({ network: networkData, options: { ...screen, analysis: { stateCap, updateScheme: ruleUpdateScheme } } });
+  };
+
+  const handleRunDoseResponse = async (curve: Pick<DoseResponseOptions, 'drug' | 'outputNode' | 'from' | 'to' | 'steps' | 'logScale'>) => {
+    const modifiedData = getModifiedNetworkData();
+    if (!modifiedData) {
+      showToast({ title: 'Error', description: 'No network data available.', variant: 'destructive' });
+      return;
+    }
+    const noise = parseFloat(probabilisticForm.noise);
+    const selfDegradation = parseFloat(probabilisticForm.selfDegradation);
+    const maxIterations = parseInt(probabilisticForm.maxIterations, 10);
+    const tolerance = parseFloat(probabilisticForm.tolerance);
+    const initialProbability = parseFloat(probabilisticForm.initialProbability);
+    if (isNaN(noise) || isNaN(selfDegradation) || isNaN(maxIterations) || isNaN(tolerance) || isNaN(initialProbability)) {
+      showToast({ title: 'Invalid Parameters', description: 'Check the settings in the Probabilistic Analysis dialog.', variant: 'destructive' });
+      return;
+    }
+    const { nodes, edges } = normalizeNodesEdges(modifiedData);
+    setIsDoseResponseDialogOpen(false);
+    setTherapeuticsSubTab('dose');
+    await runDoseResponse({
+      nodes,
+      edges,
+      options: {
+        ...curve,
+        analysis: {
+          method: probabilisticForm.method,
+          noise,
+          selfDegradation,
+          ...(probabilisticForm.method === 'mean-field' && { maxIterations, tolerance }),
+          initialProbability,
+          // The sidebar's other drugs act at their fixed doses
+          drugs: liveDrugs,
+        },
+      },
+    });
+  };
+
   // Clear analysis results when selected network changes
   useEffect(() => {
     resetWeightedAnalysis();
     resetProbabilisticAnalysis();
     resetRuleBasedAnalysis();
+    resetTrapSpaceAnalysis();
+    resetPbnAnalysis();
+    resetProbabilisticSweep();
+    resetWeightedSensitivity();
+    setEdgeOverlay(null);
+    setNodeOverlay(null);
     resetTherapeuticsWeightedAnalysis();
     resetTherapeuticsProbabilisticAnalysis();
     resetTherapeuticsRuleBasedAnalysis();
+    resetInterventionSearch();
+    resetDoseResponse();
+    resetCombinationScreen();
     setTherapeuticsSubTab('preview');
-  }, [selectedNetworkId, resetWeightedAnalysis, resetProbabilisticAnalysis, resetRuleBasedAnalysis, resetTherapeuticsWeightedAnalysis, resetTherapeuticsProbabilisticAnalysis, resetTherapeuticsRuleBasedAnalysis, selectedNetwork?.name]);
+  }, [selectedNetworkId, resetWeightedAnalysis, resetProbabilisticAnalysis, resetRuleBasedAnalysis, resetTrapSpaceAnalysis, resetPbnAnalysis, resetProbabilisticSweep, resetWeightedSensitivity, resetTherapeuticsWeightedAnalysis, resetTherapeuticsProbabilisticAnalysis, resetTherapeuticsRuleBasedAnalysis, resetInterventionSearch, resetDoseResponse, resetCombinationScreen, selectedNetwork?.name]);
 
   useEffect(() => {
     let isMounted = true;
@@ -1164,6 +1598,44 @@ function ProjectVisualizationPage() {
     }
   }, [projectId, refreshNetworks, selectNetwork, setRecentNetworkIds, showToast]);
 
+  // Save a patient-specific copy of the selected network into the project
+  const handleSavePersonalizedNetwork = useCallback(async (networkData: NetworkData, name: string) => {
+    if (!projectId) throw new Error('Missing project identifier.');
+
+    // 1) Insert personalised network
+    const { data: created, error: createErr } = await supabase
+      .from('networks')
+      .insert([{ name, network_data: networkData }])
+      .select('id, name, network_data, created_at')
+      .single();
+    if (createErr) throw createErr;
+
+    // 2) Link to project
+    const { data: projRow, error: projErr } = await supabase
+      .from('projects')
+      .select('networks')
+      .eq('id', projectId)
+      .maybeSingle();
+    if (projErr) throw projErr;
+    const currentIds = Array.isArray(projRow?.networks) ? (projRow!.networks as string[]) : [];
+    const updatedIds = Array.from(new Set([...(currentIds || []), created.id]));
+    const { error: updErr } = await supabase
+      .from('projects')
+      .update({ networks: updatedIds })
+      .eq('id', projectId);
+    if (updErr) throw updErr;
+
+    // Refresh networks and select the new one
+    refreshNetworks();
+    selectNetwork(created.id);
+    setRecentNetworkIds((prev) => [created.id, ...prev.filter((id) => id !== created.id)].slice(0, MAX_RECENT_NETWORKS));
+
+    showToast({
+      title: 'Patient Network Saved',
+      description: `Network "${name}" added to the project.`,
+    });
+  }, [projectId, refreshNetworks, selectNetwork, setRecentNetworkIds, showToast]);
+
   // Unified file picker: handles CSV (weighted) or TXT (rules)
   const onPickNetworkFile = async (file?: File | null) => {
     try {
@@ -1827,6 +2299,84 @@ function ProjectVisualizationPage() {
             Weighted
           </Button>
         </div>
+        <Select value={ruleUpdateScheme} onValueChange={(val) => setRuleUpdateScheme(val as UpdateScheme)}>
+          <SelectTrigger className="h-8 text-xs" title="Update scheme for rule-based analysis">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(UPDATE_SCHEME_LABELS) as UpdateScheme[]).map(scheme => (
+              <SelectItem
+                key={scheme}
+                value={scheme}
+                disabled={ruleAnalysisMethod === 'symbolic' && scheme === 'random-order'}
+              >
+                {UPDATE_SCHEME_LABELS[scheme]} updates
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={ruleAnalysisMethod}
+          onValueChange={(val) => {
+            const method = val as RuleAnalysisMethod;
+            setRuleAnalysisMethod(method);
+            // Symbolic search has no random-order mode.
+            if (method === 'symbolic' && ruleUpdateScheme === 'random-order') setRuleUpdateScheme('synchronous');
+          }}
+        >
+          <SelectTrigger className="h-8 text-xs" title="How the rule-based state space is searched">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(RULE_ANALYSIS_METHOD_LABELS) as RuleAnalysisMethod[]).map(method => (
+              <SelectItem key={method} value={method}>{RULE_ANALYSIS_METHOD_LABELS[method]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          className="h-8 text-xs px-3 gap-1.5"
+          onClick={handleRunTrapSpaces}
+          disabled={isTrapSpaceRunning || !selectedIsRuleBased}
+          variant="outline"
+          title={!selectedIsRuleBased ? 'Rule-based networks only' : 'Find trap spaces and stable motifs'}
+          size="sm"
+        >
+          <Lock className="w-3 h-3" />
+          Trap spaces
+        </Button>
+        <Button
+          className="h-8 text-xs px-3 gap-1.5"
+          onClick={handleOpenPbnDialog}
+          disabled={isPbnRunning || !selectedIsRuleBased}
+          variant="outline"
+          title={!selectedIsRuleBased ? 'Rule-based networks only' : 'Steady state of the probabilistic Boolean network (rules with @ p alternatives)'}
+          size="sm"
+        >
+          <Dices className="w-3 h-3" />
+          PBN steady state
+        </Button>
+        <Button
+          className="h-8 text-xs px-3 gap-1.5"
+          onClick={handleOpenSensitivityDialog}
+          disabled={isSensitivityRunning || !selectedNetwork || selectedIsRuleBased}
+          variant="outline"
+          title={selectedIsRuleBased ? 'Weight-based networks only' : 'Rank edge weights and biases by their effect on the attractors'}
+          size="sm"
+        >
+          <Gauge className="w-3 h-3" />
+          Weight sensitivity
+        </Button>
+        <Button
+          className="h-8 text-xs px-3 gap-1.5"
+          onClick={() => setIsFateDefinitionsDialogOpen(true)}
+          disabled={!projectId}
+          variant="outline"
+          title="Marker rules that classify the attractors of every run into cell fates"
+          size="sm"
+        >
+          <Tag className="w-3 h-3" />
+          Fate definitions
+        </Button>
       </div>
 
       {/* Probabilistic Analysis */}
@@ -1842,6 +2392,17 @@ function ProjectVisualizationPage() {
           <Play className="w-3 h-3" />
           Run Analysis
         </Button>
+        <Button
+          className="h-8 text-xs px-3 gap-1.5"
+          onClick={handleOpenSweepDialog}
+          disabled={isSweepRunning || !selectedNetwork}
+          variant="outline"
+          title="Rerun probabilistic analysis over a range of noise, self-degradation or basal activity"
+          size="sm"
+        >
+          <SlidersHorizontal className="w-3 h-3" />
+          Parameter sweep
+        </Button>
       </div>
 
       {/* ODE */}
@@ -2008,14 +2569,16 @@ function ProjectVisualizationPage() {
         <TherapeuticsPanel
           networkId={selectedNetworkId}
           nodes={nodes}
+          edges={networkData.edges || []}
           rules={rulesMap}
-          existingTherapies={therapies}
+          existingTherapies={liveInterventions ?? therapies}
           onTherapiesUpdated={() => {
             refreshNetworks();
           }}
           onInterventionsChange={(interventions) => {
             setLiveInterventions(interventions);
           }}
+          onDrugsChange={setLiveDrugs}
         />
 
         <Separator className="bg-border/50" />
@@ -2030,6 +2593,7 @@ function ProjectVisualizationPage() {
           </div>
           <p className="text-[11px] text-muted-foreground px-1">
             {interventionCount} intervention{interventionCount !== 1 ? 's' : ''} applied
+            {liveDrugs.length > 0 && ` • ${liveDrugs.length} drug dose${liveDrugs.length !== 1 ? 's' : ''}`}
           </p>
 
           <div className="space-y-1.5">
@@ -2094,11 +2658,75 @@ function ProjectVisualizationPage() {
                 </>
               )}
             </Button>
+
+            {/* Intervention Search */}
+            <Button
+              onClick={() => setIsInterventionSearchDialogOpen(true)}
+              variant="outline"
+              className="w-full justify-start h-8 text-xs gap-1.5"
+              disabled={isInterventionSearchRunning || !hasRules}
+              title={!hasRules ? 'No rules defined for this network' : 'Search knock-out/knock-in sets that reach a target phenotype'}
+            >
+              <Crosshair className="w-3 h-3" />
+              Find Interventions
+            </Button>
+
+            {/* Combination Screen */}
+            <Button
+              onClick={() => setIsCombinationScreenDialogOpen(true)}
+              variant="outline"
+              className="w-full justify-start h-8 text-xs gap-1.5"
+              disabled={isCombinationScreenRunning || !hasRules}
+              title={!hasRules ? 'No rules defined for this network' : 'Score every pair of candidate interventions for synergy'}
+            >
+              <Grid3x3 className="w-3 h-3" />
+              Combination Screen
+            </Button>
+
+            {/* Dose Response */}
+            <Button
+              onClick={() => setIsDoseResponseDialogOpen(true)}
+              variant="outline"
+              className="w-full justify-start h-8 text-xs gap-1.5"
+              disabled={isDoseResponseRunning || nodes.length === 0}
+              title="Plot an output node's activation probability against a drug's dose"
+            >
+              <TrendingDown className="w-3 h-3" />
+              Dose Response
+            </Button>
+
+            {isTherapeuticsRuleBasedRunning && (
+              <AnalysisProgressBar label="Rule-based" progress={therapeuticsRuleBasedProgress} onCancel={cancelTherapeuticsRuleBasedAnalysis} />
+            )}
+            {isTherapeuticsWeightedRunning && (
+              <AnalysisProgressBar label="Weighted" progress={therapeuticsWeightedProgress} onCancel={cancelTherapeuticsWeightedAnalysis} />
+            )}
+            {isTherapeuticsProbabilisticRunning && (
+              <AnalysisProgressBar label="Probabilistic" progress={therapeuticsProbabilisticProgress} onCancel={cancelTherapeuticsProbabilisticAnalysis} unit="iterations" />
+            )}
+            {isInterventionSearchRunning && (
+              <AnalysisProgressBar label="Intervention search" progress={interventionSearchProgress} onCancel={cancelInterventionSearch} unit="sets" />
+            )}
+            {interventionSearchError && (
+              <div className="text-xs text-red-700 bg-red-50 rounded px-2 py-1.5">{interventionSearchError}</div>
+            )}
+            {isCombinationScreenRunning && (
+              <AnalysisProgressBar label="Combination screen" progress={combinationScreenProgress} onCancel={cancelCombinationScreen} unit="combinations" />
+            )}
+            {combinationScreenError && (
+              <div className="text-xs text-red-700 bg-red-50 rounded px-2 py-1.5">{combinationScreenError}</div>
+            )}
+            {isDoseResponseRunning && (
+              <AnalysisProgressBar label="Dose response" progress={doseResponseProgress} onCancel={cancelDoseResponse} unit="doses" />
+            )}
+            {doseResponseError && (
+              <div className="text-xs text-red-700 bg-red-50 rounded px-2 py-1.5">{doseResponseError}</div>
+            )}
           </div>
         </div>
       </div>
     );
-  }, [selectedNetworkId, selectedNetwork, networks, selectNetwork, setActiveTab, refreshNetworks, liveInterventions, therapeuticsWeightedResult, therapeuticsProbabilisticResult, therapeuticsRuleBasedResult, isTherapeuticsWeightedRunning, isTherapeuticsProbabilisticRunning, isTherapeuticsRuleBasedRunning, handleTherapeuticsWeighted, handleTherapeuticsRuleBased]);
+  }, [selectedNetworkId, selectedNetwork, networks, selectNetwork, setActiveTab, refreshNetworks, liveInterventions, therapeuticsWeightedResult, therapeuticsProbabilisticResult, therapeuticsRuleBasedResult, isTherapeuticsWeightedRunning, isTherapeuticsProbabilisticRunning, isTherapeuticsRuleBasedRunning, therapeuticsWeightedProgress, therapeuticsProbabilisticProgress, therapeuticsRuleBasedProgress, cancelTherapeuticsWeightedAnalysis, cancelTherapeuticsProbabilisticAnalysis, cancelTherapeuticsRuleBasedAnalysis, handleTherapeuticsWeighted, handleTherapeuticsRuleBased, isInterventionSearchRunning, interventionSearchProgress, interventionSearchError, cancelInterventionSearch, liveDrugs, isDoseResponseRunning, doseResponseProgress, doseResponseError, cancelDoseResponse, isCombinationScreenRunning, combinationScreenProgress, combinationScreenError, cancelCombinationScreen]);
 
   const renderMainContent = () => {
     if (!projectId) {
@@ -2179,6 +2807,28 @@ function ProjectVisualizationPage() {
               </div>
             </div>
             
+            {edgeOverlay && networkSubTab === 'editor' && selectedNetworkId && (
+              <div className="flex items-center gap-3 px-4 py-1.5 border-b bg-purple-50/50 dark:bg-purple-950/30 text-xs">
+                <span>
+                  Edge colours show weight sensitivity ({edgeOverlay.label}): grey edges have no effect, red edges the strongest.
+                </span>
+                <Button variant="ghost" size="sm" className="h-6 text-xs ml-auto" onClick={() => setEdgeOverlay(null)}>
+                  Clear
+                </Button>
+              </div>
+            )}
+
+            {nodeOverlay && networkSubTab === 'editor' && selectedNetworkId && (
+              <div className="flex items-center gap-3 px-4 py-1.5 border-b bg-sky-50/50 dark:bg-sky-950/30 text-xs">
+                <span>
+                  Node colours show the log2 fold change of {nodeOverlay.label}: red nodes are up, blue nodes down (saturating at ±2).
+                </span>
+                <Button variant="ghost" size="sm" className="h-6 text-xs ml-auto" onClick={() => setNodeOverlay(null)}>
+                  Clear
+                </Button>
+              </div>
+            )}
+
             {/* Full-height Content */}
             <div className="flex-1 min-h-0 flex flex-col">
               {networkSubTab === 'editor' && (
@@ -2193,6 +2843,8 @@ function ProjectVisualizationPage() {
                       networkId={selectedNetworkId} 
                       projectId={projectId} 
                       refreshToken={networkGraphRefreshToken}
+                      edgeColors={edgeOverlay?.colors}
+                      nodeColors={nodeOverlay?.colors}
                       onSaved={(newNetwork) => {
                       setNetworks(prev => {
                         const existingIndex = prev.findIndex(n => n.id === newNetwork.id);
@@ -2248,7 +2900,7 @@ function ProjectVisualizationPage() {
       }
 
       case 'network-inference': {
-        const hasAnyResult = ruleBasedResult || weightedResult || probabilisticResult;
+        const hasAnyResult = ruleBasedResult || trapSpaceResult || pbnResult || weightedResult || probabilisticResult || sweepResult || sensitivityResult;
         return (
           <div className="min-h-0 flex-1 overflow-auto">
             <div className="p-4 space-y-4 max-w-6xl pb-8">
@@ -2285,17 +2937,39 @@ function ProjectVisualizationPage() {
               )}
 
               {/* Loading States */}
-              {isRuleBasedRunning && <div className="text-xs text-muted-foreground">Analyzing rules…</div>}
-              {isWeightedAnalyzing && <div className="text-xs text-muted-foreground">Running weighted analysis…</div>}
-              {isProbabilisticAnalyzing && <div className="text-xs text-muted-foreground">Running probabilistic analysis…</div>}
+              {isRuleBasedRunning && (
+                <AnalysisProgressBar label="Analyzing rules…" progress={ruleBasedProgress} onCancel={cancelRuleBasedAnalysis} />
+              )}
+              {isTrapSpaceRunning && (
+                <AnalysisProgressBar label="Finding trap spaces…" progress={null} onCancel={cancelTrapSpaceAnalysis} />
+              )}
+              {isPbnRunning && (
+                <AnalysisProgressBar label="Estimating PBN steady state…" progress={pbnProgress} onCancel={cancelPbnAnalysis} />
+              )}
+              {isWeightedAnalyzing && (
+                <AnalysisProgressBar label="Running weighted analysis…" progress={weightedProgress} onCancel={cancelWeightedAnalysis} />
+              )}
+              {isProbabilisticAnalyzing && (
+                <AnalysisProgressBar label="Running probabilistic analysis…" progress={probabilisticProgress} onCancel={cancelProbabilisticAnalysis} unit="iterations" />
+              )}
+              {isSweepRunning && (
+                <AnalysisProgressBar label="Sweeping parameters…" progress={sweepProgress} onCancel={cancelProbabilisticSweep} unit="grid points" />
+              )}
+              {isSensitivityRunning && (
+                <AnalysisProgressBar label="Perturbing weights…" progress={sensitivityProgress} onCancel={cancelWeightedSensitivity} unit="runs" />
+              )}
 
               {/* Errors */}
               {ruleBasedError && <div className="text-xs text-red-600 rounded bg-red-50 px-3 py-2">{ruleBasedError}</div>}
+              {trapSpaceError && <div className="text-xs text-red-600 rounded bg-red-50 px-3 py-2">{trapSpaceError}</div>}
+              {pbnError && <div className="text-xs text-red-600 rounded bg-red-50 px-3 py-2">{pbnError}</div>}
               {weightedError && <div className="text-xs text-red-600 rounded bg-red-50 px-3 py-2">{weightedError}</div>}
               {probabilisticError && <div className="text-xs text-red-600 rounded bg-red-50 px-3 py-2">{probabilisticError}</div>}
+              {sweepError && <div className="text-xs text-red-600 rounded bg-red-50 px-3 py-2">{sweepError}</div>}
+              {sensitivityError && <div className="text-xs text-red-600 rounded bg-red-50 px-3 py-2">{sensitivityError}</div>}
 
               {/* No Results State */}
-              {!hasAnyResult && !isRuleBasedRunning && !isWeightedAnalyzing && !isProbabilisticAnalyzing && selectedNetworkId && (
+              {!hasAnyResult && !isRuleBasedRunning && !isTrapSpaceRunning && !isPbnRunning && !isWeightedAnalyzing && !isProbabilisticAnalyzing && !isSweepRunning && !isSensitivityRunning && selectedNetworkId && (
                 <div className="text-center py-12 text-muted-foreground text-sm">
                   Run an analysis from the sidebar to see results here.
                 </div>
@@ -2329,6 +3003,16 @@ function ProjectVisualizationPage() {
                         View Attractor Landscape
                       </Button>
                     )}
+                    {weightedMatchedFates.unmatched > 0 && (
+                      <p className="text-[10px] text-muted-foreground">
+                        {weightedMatchedFates.unmatched} saved cell fate{weightedMatchedFates.unmatched !== 1 ? 's match' : ' matches'} no attractor of this run.
+                      </p>
+                    )}
+                    {weightedMatchedFates.warnings.length > 0 && (
+                      <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1.5">
+                        {weightedMatchedFates.warnings.map((w: string, i: number) => <span key={i} className="block">• {w}</span>)}
+                      </div>
+                    )}
                     <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
                       {weightedResult.attractors.map((attr: DeterministicAttractor) => (
                         <div key={attr.id} className="border rounded bg-background/50">
@@ -2336,14 +3020,20 @@ function ProjectVisualizationPage() {
                             <div className="flex items-center gap-2">
                               <span className="text-xs font-medium">Attractor #{attr.id + 1}</span>
                               <Badge variant="outline" className="text-[10px] px-1.5 py-0">{attr.type}</Badge>
-                              {cellFates[String(attr.id)] && (
-                                <AttractorFateBadge fate={cellFates[String(attr.id)]} onEdit={() => handleOpenFateDialog(attr.id)} />
+                              {weightedMatchedFates.byAttractor[String(attr.id)] && (
+                                <AttractorFateBadge
+                                  {...weightedMatchedFates.byAttractor[String(attr.id)]}
+                                  onEdit={() => handleOpenFateDialog('weighted', attr.id)}
+                                />
+                              )}
+                              {weightedMatchedFates.unclassified.has(attr.id) && (
+                                <UnclassifiedFateBadge onEdit={() => handleOpenFateDialog('weighted', attr.id)} />
                               )}
                             </div>
                             <div className="flex items-center gap-2">
                               <span className="text-[10px] text-muted-foreground">P:{attr.period} B:{(attr.basinShare*100).toFixed(0)}%</span>
-                              <Button size="sm" variant="ghost" className="h-5 px-1.5 text-[10px]" onClick={() => handleOpenFateDialog(attr.id)}>
-                                {cellFates[String(attr.id)] ? 'Edit' : 'Classify'}
+                              <Button size="sm" variant="ghost" className="h-5 px-1.5 text-[10px]" onClick={() => handleOpenFateDialog('weighted', attr.id)}>
+                                {weightedMatchedFates.byAttractor[String(attr.id)] ? 'Edit' : 'Classify'}
                               </Button>
                             </div>
                           </div>
@@ -2388,6 +3078,11 @@ function ProjectVisualizationPage() {
                     </div>
                   </div>
                   <div className="p-3 space-y-2">
+                    {ruleBasedResult.warnings.length > 0 && (
+                      <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1.5">
+                        {ruleBasedResult.warnings.map((w: string, i: number) => <span key={i} className="block">• {w}</span>)}
+                      </div>
+                    )}
                     {ruleBasedResult.attractors.length > 0 && (
                       <Button
                         className="h-9 px-4 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white text-sm font-medium shadow-md"
@@ -2399,41 +3094,76 @@ function ProjectVisualizationPage() {
                         View Attractor Landscape
                       </Button>
                     )}
+                    {ruleBasedMatchedFates.unmatched > 0 && (
+                      <p className="text-[10px] text-muted-foreground">
+                        {ruleBasedMatchedFates.unmatched} saved cell fate{ruleBasedMatchedFates.unmatched !== 1 ? 's match' : ' matches'} no attractor of this run.
+                      </p>
+                    )}
+                    {ruleBasedMatchedFates.warnings.length > 0 && (
+                      <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1.5">
+                        {ruleBasedMatchedFates.warnings.map((w: string, i: number) => <span key={i} className="block">• {w}</span>)}
+                      </div>
+                    )}
                     <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
                       {ruleBasedResult.attractors.map((attr: DeterministicAttractor) => (
                         <div key={attr.id} className="border rounded bg-background/50">
                           <div className="flex items-center justify-between px-2.5 py-1.5 border-b bg-muted/20">
                             <div className="flex items-center gap-2">
                               <span className="text-xs font-medium">Attractor #{attr.id + 1}</span>
-                              <Badge variant="outline" className="text-[10px] px-1.5 py-0">{attr.type}</Badge>
-                              {cellFates[String(attr.id)] && (
-                                <AttractorFateBadge fate={cellFates[String(attr.id)]} onEdit={() => handleOpenFateDialog(attr.id)} />
+                              <Badge variant="outline" className="text-[10px] px-1.5 py-0">{formatAttractorType(attr)}</Badge>
+                              {ruleBasedMatchedFates.byAttractor[String(attr.id)] && (
+                                <AttractorFateBadge
+                                  {...ruleBasedMatchedFates.byAttractor[String(attr.id)]}
+                                  onEdit={() => handleOpenFateDialog('rule-based', attr.id)}
+                                />
+                              )}
+                              {ruleBasedMatchedFates.unclassified.has(attr.id) && (
+                                <UnclassifiedFateBadge onEdit={() => handleOpenFateDialog('rule-based', attr.id)} />
                               )}
                             </div>
                             <div className="flex items-center gap-2">
-                              <span className="text-[10px] text-muted-foreground">P:{attr.period} B:{(attr.basinShare*100).toFixed(0)}%</span>
-                              <Button size="sm" variant="ghost" className="h-5 px-1.5 text-[10px]" onClick={() => handleOpenFateDialog(attr.id)}>
-                                {cellFates[String(attr.id)] ? 'Edit' : 'Classify'}
+                              <span
+                                className="text-[10px] text-muted-foreground"
+                                title={attr.weakBasinSize !== undefined ? `Strong basin ${attr.basinSize} states, weak basin ${attr.weakBasinSize} states` : undefined}
+                              >
+                                P:{attr.period} B:{(attr.basinShare*100).toFixed(0)}%
+                              </span>
+                              <Button size="sm" variant="ghost" className="h-5 px-1.5 text-[10px]" onClick={() => handleOpenFateDialog('rule-based', attr.id)}>
+                                {ruleBasedMatchedFates.byAttractor[String(attr.id)] ? 'Edit' : 'Classify'}
                               </Button>
                             </div>
                           </div>
+                          {attr.type === 'complex-attractor' && (
+                            <div className="p-2 border-b">
+                              <AttractorGraph
+                                states={attr.states}
+                                transitions={attr.transitions}
+                                nodeLabels={ruleBasedResult.nodeOrder.map((n: string) => ruleBasedResult.nodeLabels[n])}
+                                className="w-full h-40"
+                              />
+                            </div>
+                          )}
                           <div>
                             <table className="w-full text-[10px]">
                               <thead>
                                 <tr className="bg-muted/30">
                                   <th className="px-1.5 py-1 font-medium text-left">Node</th>
-                                  {attr.states.map((_: any, si: number) => (
+                                  {attr.states.slice(0, MAX_ATTRACTOR_STATE_COLUMNS).map((_: StateSnapshot, si: number) => (
                                     <th key={si} className="px-1.5 py-1 font-medium text-center">S{si + 1}</th>
                                   ))}
+                                  {attr.states.length > MAX_ATTRACTOR_STATE_COLUMNS && (
+                                    <th className="px-1.5 py-1 font-normal text-center text-muted-foreground">+{attr.states.length - MAX_ATTRACTOR_STATE_COLUMNS}</th>
+                                  )}
                                 </tr>
                               </thead>
                               <tbody>
                                 {ruleBasedResult.nodeOrder.map((n: string) => (
                                   <tr key={n} className="border-t border-muted/50">
                                     <td className="px-1.5 py-0.5 font-medium whitespace-nowrap">{ruleBasedResult.nodeLabels[n]}</td>
-                                    {attr.states.map((s: any, si: number) => (
+                                    {attr.states.slice(0, MAX_ATTRACTOR_STATE_COLUMNS).map((s: StateSnapshot, si: number) => (
                                       <td key={si} className={`px-1.5 py-0.5 text-center ${s.values[n] === 1 ? 'bg-primary/10 font-medium' : ''}`}>{s.values[n]}</td>
                                     ))}
+                                    {attr.states.length > MAX_ATTRACTOR_STATE_COLUMNS && <td />}
                                   </tr>
                                 ))}
                               </tbody>
@@ -2446,6 +3176,12 @@ function ProjectVisualizationPage() {
                 </div>
               )}
 
+              {/* Trap Spaces & Stable Motifs */}
+              {trapSpaceResult && !isTrapSpaceRunning && <TrapSpacePanel result={trapSpaceResult} />}
+
+              {/* Probabilistic Boolean Network */}
+              {pbnResult && !isPbnRunning && <PbnPanel result={pbnResult} />}
+
               {/* Probabilistic Results */}
               {probabilisticResult && !isProbabilisticAnalyzing && (
                 <div className="rounded-lg border bg-card">
@@ -2453,6 +3189,7 @@ function ProjectVisualizationPage() {
                     <span className="text-xs font-semibold uppercase tracking-wide">Probabilistic</span>
                     <div className="flex items-center gap-3 text-xs text-muted-foreground">
                       <span>{probabilisticResult.nodeOrder.length} nodes</span>
+                      {probabilisticResult.method === 'exact' && <span>Exact</span>}
                       <span>{probabilisticResult.converged ? 'Converged' : 'Not converged'}</span>
                       <span>{probabilisticResult.iterations} iter</span>
                       <span>{(Object.values(probabilisticResult.probabilities).reduce((a, b) => a + b, 0) / probabilisticResult.nodeOrder.length * 100).toFixed(0)}% avg</span>
@@ -2465,8 +3202,8 @@ function ProjectVisualizationPage() {
                         onClick={() => {
                           setLandscapeProbabilisticData({
                             nodeOrder: probabilisticResult.nodeOrder,
-                            probabilities: probabilisticResult.probabilities,
-                            potentialEnergies: probabilisticResult.potentialEnergies,
+                            probabilities: probabilisticResult.stateProbabilities ?? probabilisticResult.probabilities,
+                            potentialEnergies: probabilisticResult.stateEnergies ?? probabilisticResult.potentialEnergies,
                           });
                           setProbabilityLandscapeOpen(true);
                         }}
@@ -2479,8 +3216,8 @@ function ProjectVisualizationPage() {
                           onClick={() => {
                             setLandscapeProbabilisticData({
                               nodeOrder: probabilisticResult.nodeOrder,
-                              probabilities: probabilisticResult.probabilities,
-                              potentialEnergies: probabilisticResult.potentialEnergies,
+                              probabilities: probabilisticResult.stateProbabilities ?? probabilisticResult.probabilities,
+                              potentialEnergies: probabilisticResult.stateEnergies ?? probabilisticResult.potentialEnergies,
                             });
                             setEnergyLandscapeOpen(true);
                           }}
@@ -2531,6 +3268,25 @@ function ProjectVisualizationPage() {
                             </div>
                           </div>
                         )}
+                        {probabilisticResult.stateProbabilities && (
+                          <div className="border rounded bg-background/50 overflow-hidden md:col-span-2">
+                            <div className="px-2.5 py-1.5 bg-muted/30 text-xs font-medium">Most Probable States</div>
+                            <table className="w-full text-[10px]">
+                              <tbody>
+                                {Object.entries(probabilisticResult.stateProbabilities).sort(([, a], [, b]) => b - a).slice(0, 10).map(([state, p]) => (
+                                  <tr key={state} className="border-t border-muted/50">
+                                    <td className="px-2 py-0.5 font-mono">{state}</td>
+                                    <td className="px-2 py-0.5 text-right font-mono">{(p * 100).toFixed(1)}%</td>
+                                    <td className="px-2 py-0.5 text-right font-mono">{probabilisticResult.stateEnergies?.[state]?.toFixed(3)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                            <p className="px-2.5 py-1 text-[10px] text-muted-foreground">
+                              Node order: {probabilisticResult.nodeOrder.map((nodeId) => nodeIdToLabel[nodeId] || nodeId).join(', ')}.
+                            </p>
+                          </div>
+                        )}
                       </div>
                     )}
 
@@ -2542,6 +3298,14 @@ function ProjectVisualizationPage() {
                   </div>
                 </div>
               )}
+
+              {/* Parameter Sweep */}
+              {sweepResult && !isSweepRunning && <ProbabilisticSweepPanel result={sweepResult} networkName={selectedNetwork?.name} />}
+
+              {/* Weight Sensitivity */}
+              {sensitivityResult && !isSensitivityRunning && (
+                <WeightedSensitivityPanel result={sensitivityResult} onShowOnGraph={handleShowSensitivityOnGraph} />
+              )}
             </div>
           </div>
         );
@@ -2557,6 +3321,8 @@ function ProjectVisualizationPage() {
             projectId={projectId}
             networkId={selectedNetworkId}
             networkName={selectedNetwork?.name}
+            onPersonalizeNetwork={setExpressionPersonalizationResults}
+            onColorNetwork={handleShowFoldChangeOnGraph}
           />
         );
 
@@ -2570,6 +3336,10 @@ function ProjectVisualizationPage() {
             projectId={projectId}
             networkId={selectedNetworkId}
             networkName={selectedNetwork?.name}
+            onPersonalizeNetwork={(variants, sampleName) => {
+              setExomeMutations({ mutations: variantsToMutations(variants), sampleName });
+              setMutationPersonalizationOpen(true);
+            }}
           />
         );
 
@@ -2635,7 +3405,7 @@ function ProjectVisualizationPage() {
             {/* Header with Tabs */}
             <div className="flex items-center justify-between mb-3">
               <div className="flex items-center gap-3">
-                <Tabs value={therapeuticsSubTab} onValueChange={(v) => setTherapeuticsSubTab(v as 'preview' | 'attractors' | 'landscape' | 'comparison')}>
+                <Tabs value={therapeuticsSubTab} onValueChange={(v) => setTherapeuticsSubTab(v as 'preview' | 'attractors' | 'landscape' | 'comparison' | 'search' | 'dose' | 'combination')}>
                   <TabsList className="h-8">
                     <TabsTrigger value="preview" className="text-xs px-3 h-7">
                       Preview
@@ -2654,6 +3424,15 @@ function ProjectVisualizationPage() {
                     <TabsTrigger value="comparison" className="text-xs px-3 h-7" disabled={!hasComparisonData}>
                       Comparison
                     </TabsTrigger>
+                    <TabsTrigger value="search" className="text-xs px-3 h-7" disabled={!interventionSearchResult && !isInterventionSearchRunning}>
+                      Search
+                    </TabsTrigger>
+                    <TabsTrigger value="combination" className="text-xs px-3 h-7" disabled={!combinationScreenResult && !isCombinationScreenRunning}>
+                      Combinations
+                    </TabsTrigger>
+                    <TabsTrigger value="dose" className="text-xs px-3 h-7" disabled={!doseResponseResult && !isDoseResponseRunning}>
+                      Dose
+                    </TabsTrigger>
                   </TabsList>
                 </Tabs>
                 <Button
@@ -2664,6 +3443,17 @@ function ProjectVisualizationPage() {
                 >
                   Patient Drug Scores
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setExomeMutations(null);
+                    setMutationPersonalizationOpen(true);
+                  }}
+                  className="text-xs h-7"
+                >
+                  Personalise from Mutations
+                </Button>
               </div>
               <div className="flex items-center gap-2">
                 {interventionsToApply.length > 0 && (
@@ -2695,7 +3485,7 @@ function ProjectVisualizationPage() {
                     readOnly={true}
                     hideControls={true}
                     hideHeaderActions={true}
-                    highlightNodeIds={interventionsToApply.filter(t => t.type === 'knock-in').map(t => t.nodeName)}
+                    highlightNodeIds={interventionsToApply.filter(t => t.type === 'knock-in' || t.type === 'edge-knock-in').map(t => t.nodeName)}
                     onSaved={() => {}}
                   />
                 </div>
@@ -2722,9 +3512,10 @@ function ProjectVisualizationPage() {
                                 <span className="text-xs text-muted-foreground">
                                   {attractor.states.length} state{attractor.states.length !== 1 ? 's' : ''} • Basin: {(attractor.basinShare * 100).toFixed(1)}%
                                 </span>
-                                {cellFates[attractor.id] && (
-                                  <AttractorFateBadge fate={cellFates[attractor.id]} />
+                                {therapeuticsMatchedFates.byAttractor[String(attractor.id)] && (
+                                  <AttractorFateBadge {...therapeuticsMatchedFates.byAttractor[String(attractor.id)]} />
                                 )}
+                                {therapeuticsMatchedFates.unclassified.has(attractor.id) && <UnclassifiedFateBadge />}
                               </div>
                               <div className="text-xs text-muted-foreground mb-1">States:</div>
                               <div className="flex flex-wrap gap-1">
@@ -2743,6 +3534,42 @@ function ProjectVisualizationPage() {
                 </div>
               )}
 
+              {therapeuticsSubTab === 'search' && (
+                <div className="h-full overflow-auto">
+                  {interventionSearchResult ? (
+                    <InterventionSearchPanel result={interventionSearchResult} onApply={handleApplyInterventionSet} />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                      {isInterventionSearchRunning ? 'Searching intervention sets…' : 'Run Find Interventions to see ranked intervention sets.'}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {therapeuticsSubTab === 'combination' && (
+                <div className="h-full overflow-auto">
+                  {combinationScreenResult && !isCombinationScreenRunning ? (
+                    <CombinationScreenPanel result={combinationScreenResult} networkName={selectedNetwork?.name} />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                      {isCombinationScreenRunning ? 'Screening combinations…' : 'Run Combination Screen to see pairwise synergy.'}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {therapeuticsSubTab === 'dose' && (
+                <div className="h-full overflow-auto">
+                  {doseResponseResult && !isDoseResponseRunning ? (
+                    <DoseResponsePanel result={doseResponseResult} networkName={selectedNetwork?.name} />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                      {isDoseResponseRunning ? 'Computing the dose-response curve…' : 'Run Dose Response to see the curve.'}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {therapeuticsSubTab === 'landscape' && (
                 <div className="h-full overflow-auto">
                   {!hasLandscapeResults ? (
@@ -2759,8 +3586,8 @@ function ProjectVisualizationPage() {
                             if (therapeuticsProbabilisticResult) {
                               setLandscapeProbabilisticData({
                                 nodeOrder: therapeuticsProbabilisticResult.nodeOrder,
-                                probabilities: therapeuticsProbabilisticResult.probabilities,
-                                potentialEnergies: therapeuticsProbabilisticResult.potentialEnergies,
+                                probabilities: therapeuticsProbabilisticResult.stateProbabilities ?? therapeuticsProbabilisticResult.probabilities,
+                                potentialEnergies: therapeuticsProbabilisticResult.stateEnergies ?? therapeuticsProbabilisticResult.potentialEnergies,
                               });
                               setProbabilityLandscapeOpen(true);
                             }
@@ -2774,8 +3601,8 @@ function ProjectVisualizationPage() {
                             onClick={() => {
                               setLandscapeProbabilisticData({
                                 nodeOrder: therapeuticsProbabilisticResult.nodeOrder,
-                                probabilities: therapeuticsProbabilisticResult.probabilities,
-                                potentialEnergies: therapeuticsProbabilisticResult.potentialEnergies,
+                                probabilities: therapeuticsProbabilisticResult.stateProbabilities ?? therapeuticsProbabilisticResult.probabilities,
+                                potentialEnergies: therapeuticsProbabilisticResult.stateEnergies ?? therapeuticsProbabilisticResult.potentialEnergies,
                               });
                               setEnergyLandscapeOpen(true);
                             }}
@@ -2822,6 +3649,22 @@ function ProjectVisualizationPage() {
                     </div>
                   ) : (
                     <div className="space-y-4">
+                      {/* Interventions behind the modified network */}
+                      {interventionsToApply.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1.5">
+                          <span className="text-xs uppercase text-muted-foreground mr-1">Interventions</span>
+                          {interventionsToApply.map((therapy) => (
+                            <Badge
+                              key={therapy.id}
+                              variant="outline"
+                              className={`text-xs ${therapy.type === 'knock-out' || therapy.type === 'edge-knock-out' ? 'border-red-300 text-red-700' : 'border-blue-300 text-blue-700'}`}
+                            >
+                              {therapyLabel(therapy)}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Summary Cards */}
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                         <div className="border rounded-lg p-3 bg-card">
@@ -2851,7 +3694,7 @@ function ProjectVisualizationPage() {
                               <div key={idx} className="border border-red-200 rounded-md p-3 bg-red-50">
                                 <div className="flex items-center gap-2 mb-2">
                                   <Badge variant="outline" className="text-xs border-red-300 text-red-700">
-                                    {attractor.type === 'fixed-point' ? 'Fixed Point' : `Cycle (${attractor.period})`}
+                                    {formatAttractorType(attractor)}
                                   </Badge>
                                   <span className="text-xs text-muted-foreground">
                                     Basin: {(attractor.basinShare * 100).toFixed(1)}%
@@ -2879,7 +3722,7 @@ function ProjectVisualizationPage() {
                               <div key={idx} className="border border-green-200 rounded-md p-3 bg-green-50">
                                 <div className="flex items-center gap-2 mb-2">
                                   <Badge variant="outline" className="text-xs border-green-300 text-green-700">
-                                    {attractor.type === 'fixed-point' ? 'Fixed Point' : `Cycle (${attractor.period})`}
+                                    {formatAttractorType(attractor)}
                                   </Badge>
                                   <span className="text-xs text-muted-foreground">
                                     Basin: {(attractor.basinShare * 100).toFixed(1)}%
@@ -2907,7 +3750,7 @@ function ProjectVisualizationPage() {
                               <div key={idx} className="border border-blue-200 rounded-md p-3 bg-blue-50">
                                 <div className="flex items-center gap-2 mb-2">
                                   <Badge variant="outline" className="text-xs border-blue-300 text-blue-700">
-                                    {attractor.type === 'fixed-point' ? 'Fixed Point' : `Cycle (${attractor.period})`}
+                                    {formatAttractorType(attractor)}
                                   </Badge>
                                   <span className="text-xs text-muted-foreground">
                                     Basin: {(attractor.basinShare * 100).toFixed(1)}%
@@ -2975,6 +3818,16 @@ function ProjectVisualizationPage() {
         );
       }
 
+      case 'simulation':
+        return (
+          <SimulationPanel
+            network={selectedNetwork?.data}
+            networkName={selectedNetwork?.name}
+            isRuleBased={selectedIsRuleBased}
+            drugs={liveDrugs}
+          />
+        );
+
       case 'analysis':
       case 'results':
         return (
@@ -3480,27 +4333,47 @@ function ProjectVisualizationPage() {
               <p className="text-xs text-muted-foreground">0..1; higher pushes decay.</p>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="maxIter">Max iterations</Label>
-              <Input
-                id="maxIter"
-                type="number"
-                min="1"
-                step="1"
-                value={probabilisticForm.maxIterations}
-                onChange={(e) => setProbabilisticForm((prev) => ({ ...prev, maxIterations: e.target.value }))}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="tolerance">Tolerance</Label>
-              <Input
-                id="tolerance"
-                type="number"
-                step="1e-5"
-                value={probabilisticForm.tolerance}
-                onChange={(e) => setProbabilisticForm((prev) => ({ ...prev, tolerance: e.target.value }))}
-              />
-              <p className="text-xs text-muted-foreground">Convergence threshold.</p>
+              <Label>Method</Label>
+              <Select
+                value={probabilisticForm.method}
+                onValueChange={(val) => setProbabilisticForm((prev) => ({ ...prev, method: val as ProbabilisticAnalysisMethod }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mean-field">Mean field</SelectItem>
+                  <SelectItem value="exact" disabled={!probabilisticExactAvailable}>Exact (Markov chain)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Exact up to {ANALYSIS_CONFIG.MAX_NODES_PROBABILISTIC_EXACT} nodes; resolves state-level landscapes.</p>
             </div>
+            {probabilisticForm.method === 'mean-field' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="maxIter">Max iterations</Label>
+                  <Input
+                    id="maxIter"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={probabilisticForm.maxIterations}
+                    onChange={(e) => setProbabilisticForm((prev) => ({ ...prev, maxIterations: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tolerance">Tolerance</Label>
+                  <Input
+                    id="tolerance"
+                    type="number"
+                    step="1e-5"
+                    value={probabilisticForm.tolerance}
+                    onChange={(e) => setProbabilisticForm((prev) => ({ ...prev, tolerance: e.target.value }))}
+                  />
+                  <p className="text-xs text-muted-foreground">Convergence threshold.</p>
+                </div>
+              </>
+            )}
             <div className="space-y-2">
               <Label htmlFor="initialProb">Initial probability</Label>
               <Input
@@ -3527,6 +4400,57 @@ function ProjectVisualizationPage() {
         </DialogContent>
       </Dialog>
 
+      <ProbabilisticSweepDialog
+        open={isSweepDialogOpen}
+        onOpenChange={setIsSweepDialogOpen}
+        nodes={probabilisticNetwork.nodes.map(node => ({ id: node.id, label: node.label ?? node.id }))}
+        isRunning={isSweepRunning}
+        onRun={handleRunSweep}
+      />
+
+      <WeightedSensitivityDialog
+        open={isSensitivityDialogOpen}
+        onOpenChange={setIsSensitivityDialogOpen}
+        edgeCount={probabilisticNetwork.edges.filter(edge => Number.isFinite(edge.weight)).length}
+        nodeCount={probabilisticNetwork.nodes.length}
+        isRunning={isSensitivityRunning}
+        onRun={handleRunSensitivity}
+      />
+
+      <PbnAnalysisDialog
+        open={isPbnDialogOpen}
+        onOpenChange={setIsPbnDialogOpen}
+        nodeCount={selectedNetwork?.data?.nodes?.length ?? 0}
+        isRunning={isPbnRunning}
+        onRun={handleRunPbn}
+      />
+
+      <InterventionSearchDialog
+        open={isInterventionSearchDialogOpen}
+        onOpenChange={setIsInterventionSearchDialogOpen}
+        fateDefinitions={fateDefinitions}
+        isRunning={isInterventionSearchRunning}
+        onRun={handleRunInterventionSearch}
+      />
+
+      <CombinationScreenDialog
+        open={isCombinationScreenDialogOpen}
+        onOpenChange={setIsCombinationScreenDialogOpen}
+        nodes={probabilisticNetwork.nodes.map(node => ({ id: node.id, label: node.label ?? node.id }))}
+        interventions={liveInterventions ?? selectedNetwork?.therapies ?? []}
+        fateDefinitions={fateDefinitions}
+        isRunning={isCombinationScreenRunning}
+        onRun={handleRunCombinationScreen}
+      />
+
+      <DoseResponseDialog
+        open={isDoseResponseDialogOpen}
+        onOpenChange={setIsDoseResponseDialogOpen}
+        nodes={probabilisticNetwork.nodes.map(node => ({ id: node.id, label: node.label ?? node.id }))}
+        isRunning={isDoseResponseRunning}
+        onRun={handleRunDoseResponse}
+      />
+
       {/* Therapeutics Probabilistic Analysis Dialog */}
       <Dialog open={therapeuticsProbabilisticDialogOpen} onOpenChange={setTherapeuticsProbabilisticDialogOpen}>
         <DialogContent className="sm:max-w-lg">
@@ -3563,27 +4487,47 @@ function ProjectVisualizationPage() {
               <p className="text-xs text-muted-foreground">0..1; higher pushes decay.</p>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="t-maxIter">Max iterations</Label>
-              <Input
-                id="t-maxIter"
-                type="number"
-                min="1"
-                step="1"
-                value={probabilisticForm.maxIterations}
-                onChange={(e) => setProbabilisticForm((prev) => ({ ...prev, maxIterations: e.target.value }))}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="t-tolerance">Tolerance</Label>
-              <Input
-                id="t-tolerance"
-                type="number"
-                step="1e-5"
-                value={probabilisticForm.tolerance}
-                onChange={(e) => setProbabilisticForm((prev) => ({ ...prev, tolerance: e.target.value }))}
-              />
-              <p className="text-xs text-muted-foreground">Convergence threshold.</p>
+              <Label>Method</Label>
+              <Select
+                value={probabilisticForm.method}
+                onValueChange={(val) => setProbabilisticForm((prev) => ({ ...prev, method: val as ProbabilisticAnalysisMethod }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mean-field">Mean field</SelectItem>
+                  <SelectItem value="exact" disabled={!probabilisticExactAvailable}>Exact (Markov chain)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Exact up to {ANALYSIS_CONFIG.MAX_NODES_PROBABILISTIC_EXACT} nodes; resolves state-level landscapes.</p>
             </div>
+            {probabilisticForm.method === 'mean-field' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="t-maxIter">Max iterations</Label>
+                  <Input
+                    id="t-maxIter"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={probabilisticForm.maxIterations}
+                    onChange={(e) => setProbabilisticForm((prev) => ({ ...prev, maxIterations: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="t-tolerance">Tolerance</Label>
+                  <Input
+                    id="t-tolerance"
+                    type="number"
+                    step="1e-5"
+                    value={probabilisticForm.tolerance}
+                    onChange={(e) => setProbabilisticForm((prev) => ({ ...prev, tolerance: e.target.value }))}
+                  />
+                  <p className="text-xs text-muted-foreground">Convergence threshold.</p>
+                </div>
+              </>
+            )}
             <div className="space-y-2">
               <Label htmlFor="t-initialProb">Initial probability</Label>
               <Input
@@ -3615,10 +4559,18 @@ function ProjectVisualizationPage() {
         open={fateDialogOpen}
         onOpenChange={setFateDialogOpen}
         attractorId={selectedAttractorId ?? 0}
-        currentFate={selectedAttractorId !== null ? cellFates[String(selectedAttractorId)] : undefined}
+        currentFate={selectedAttractorId !== null ? matchedFates.byAttractor[String(selectedAttractorId)]?.fate : undefined}
         availableMarkers={selectedNetwork?.data?.nodes?.map(n => n.label || String(n.id)) || []}
         onSave={handleSaveFate}
-        onRemove={handleRemoveFate}
+        onRemove={selectedAttractorId !== null && matchedFates.byAttractor[String(selectedAttractorId)]?.match ? handleRemoveFate : undefined}
+      />
+
+      <FateDefinitionsDialog
+        open={isFateDefinitionsDialogOpen}
+        onOpenChange={setIsFateDefinitionsDialogOpen}
+        definitions={fateDefinitions}
+        availableMarkers={selectedNetwork?.data?.nodes?.map(n => n.label || String(n.id)) || []}
+        onSave={handleSaveFateDefinitions}
       />
 
       {/* Attractor Landscape Full-Screen Dialog */}
@@ -3692,6 +4644,33 @@ function ProjectVisualizationPage() {
       <PatientDrugScoresDialog
         open={patientDrugScoresDialogOpen}
         onOpenChange={setPatientDrugScoresDialogOpen}
+        network={selectedNetwork?.data}
+        networkName={selectedNetwork?.name}
+        fateDefinitions={fateDefinitions}
+        updateScheme={ruleUpdateScheme}
+      />
+
+      {/* Mutation Personalisation Dialog */}
+      <MutationPersonalizationDialog
+        open={mutationPersonalizationOpen}
+        onOpenChange={setMutationPersonalizationOpen}
+        network={selectedNetwork?.data}
+        networkName={selectedNetwork?.name}
+        initialMutations={exomeMutations?.mutations}
+        sampleName={exomeMutations?.sampleName}
+        onSave={handleSavePersonalizedNetwork}
+      />
+
+      {/* Expression Personalisation Dialog */}
+      <NetworkPersonalizationDialog
+        open={expressionPersonalizationResults !== null}
+        onOpenChange={(open) => {
+          if (!open) setExpressionPersonalizationResults(null);
+        }}
+        network={selectedNetwork?.data}
+        networkName={selectedNetwork?.name}
+        rnaSeqResults={expressionPersonalizationResults}
+        onSave={handleSavePersonalizedNetwork}
       />
     </NetworkEditorLayout>
   );
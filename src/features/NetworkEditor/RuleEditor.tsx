@@ -0,0 +1,234 @@
+import { useMemo, useRef, useState } from 'react';
+import type React from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import type { RuleLintIssue } from '@/lib/ruleLint';
+
+// Geometry of the monospace textarea (leading-5, px-3, py-2), used to place markers and suggestions.
+const LINE_HEIGHT = 20;
+const PADDING_X = 12;
+const PADDING_Y = 8;
+const MAX_SUGGESTIONS = 8;
+const KEYWORDS = new Set(['AND', 'OR', 'XOR', 'NAND', 'NOR', 'NOT', 'TRUE', 'FALSE']);
+
+interface RuleEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  issues: RuleLintIssue[];
+  /** Node names offered while typing an identifier. */
+  completions: string[];
+  placeholder?: string;
+}
+
+/**
+ * Rules textarea with line numbers, inline lint markers, a problems list and
+ * node-name autocompletion (arrows to choose, Enter/Tab to accept, Esc to close).
+ */
+export function RuleEditor({ value, onChange, issues, completions, placeholder }: RuleEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  // Caret offset while the textarea has focus
+  const [caret, setCaret] = useState<number | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+
+  const lines = useMemo(() => value.split('\n'), [value]);
+  const lineStarts = useMemo(() => {
+    const starts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+      starts.push(offset);
+      offset += line.length + 1;
+    }
+    return starts;
+  }, [lines]);
+
+  const lineIssues = useMemo(() => {
+    const byLine = new Map<number, { severity: RuleLintIssue['severity']; messages: string[] }>();
+    for (const issue of issues) {
+      if (issue.line === null) continue;
+      const entry = byLine.get(issue.line) ?? { severity: 'warning', messages: [] };
+      if (issue.severity === 'error') entry.severity = 'error';
+      entry.messages.push(issue.message);
+      byLine.set(issue.line, entry);
+    }
+    return byLine;
+  }, [issues]);
+
+  // Identifier being typed at the caret and the node names it could complete to
+  const completion = useMemo(() => {
+    if (caret === null || caret === dismissedAt) return null;
+    const before = value.slice(0, caret);
+    const match = /[A-Za-z0-9_]+$/.exec(before);
+    if (!match || /[A-Za-z0-9_]/.test(value[caret] ?? '')) return null;
+    const prefix = match[0].toLowerCase();
+    const options = completions
+      .filter(name => name.toLowerCase().startsWith(prefix) && name !== match[0] && !KEYWORDS.has(name.toUpperCase()))
+      .slice(0, MAX_SUGGESTIONS);
+    if (options.length === 0) return null;
+    const lineIndex = before.split('\n').length - 1;
+    return { start: match.index, options, lineIndex, column: match.index - lineStarts[lineIndex] };
+  }, [caret, dismissedAt, value, completions, lineStarts]);
+
+  const active = completion ? Math.min(highlighted, completion.options.length - 1) : 0;
+
+  const moveCaret = (start: number, end = start) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    // Wait for React to commit the new value before placing the selection
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start, end);
+    });
+  };
+
+  const accept = (option: string) => {
+    if (!completion || caret === null) return;
+    const position = completion.start + option.length;
+    onChange(value.slice(0, completion.start) + option + value.slice(caret));
+    setCaret(position);
+    setDismissedAt(position);
+    moveCaret(position);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!completion) return;
+    const count = completion.options.length;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((active + 1) % count);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((active - 1 + count) % count);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(completion.options[active]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setDismissedAt(caret);
+    }
+  };
+
+  const reveal = (issue: RuleLintIssue) => {
+    const textarea = textareaRef.current;
+    if (!textarea || issue.line === null) return;
+    textarea.scrollTop = Math.max(0, issue.line * LINE_HEIGHT - textarea.clientHeight / 2);
+    const lineStart = lineStarts[issue.line] ?? 0;
+    moveCaret(lineStart + issue.span.start, lineStart + issue.span.end);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col gap-2 min-h-0">
+      <div className="relative flex flex-1 min-h-[300px] rounded-md border">
+        {/* Line numbers with a severity dot per line */}
+        <div className="w-10 shrink-0 overflow-hidden border-r bg-muted/30 select-none rounded-l-md">
+          <div style={{ transform: `translateY(${PADDING_Y - scroll.top}px)` }}>
+            {lines.map((_, i) => {
+              const marker = lineIssues.get(i);
+              return (
+                <div
+                  key={i}
+                  className="h-5 flex items-center justify-end gap-1 pr-1.5 font-mono text-[10px] text-muted-foreground"
+                  title={marker?.messages.join('\n')}
+                >
+                  {marker && (
+                    <span className={`w-1.5 h-1.5 rounded-full ${marker.severity === 'error' ? 'bg-destructive' : 'bg-amber-500'}`} />
+                  )}
+                  {i + 1}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="relative flex-1 min-w-0">
+          {/* Underlines drawn behind the transparent textarea */}
+          <div className="absolute inset-0 overflow-hidden pointer-events-none font-mono text-sm">
+            <div style={{ transform: `translate(${-scroll.left}px, ${-scroll.top}px)` }}>
+              {issues.map((issue, i) => issue.line !== null && (
+                <div
+                  key={i}
+                  className={`absolute h-5 border-b-2 ${issue.severity === 'error' ? 'border-destructive/70 bg-destructive/5' : 'border-amber-500/70'}`}
+                  style={{
+                    top: PADDING_Y + issue.line * LINE_HEIGHT,
+                    left: `calc(${PADDING_X}px + ${issue.span.start}ch)`,
+                    width: `${Math.max(1, issue.span.end - issue.span.start)}ch`,
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <Textarea
+            ref={textareaRef}
+            wrap="off"
+            spellCheck={false}
+            placeholder={placeholder}
+            className="absolute inset-0 h-full field-sizing-fixed resize-none border-0 shadow-none rounded-none rounded-r-md focus-visible:ring-0 font-mono text-sm md:text-sm leading-5 whitespace-pre"
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value);
+              setCaret(e.target.selectionStart);
+              setHighlighted(0);
+            }}
+            onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+            onBlur={() => setCaret(null)}
+            onKeyDown={handleKeyDown}
+            onScroll={(e) => setScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft })}
+          />
+
+          {completion && (
+            <div
+              className="absolute z-10 font-mono text-sm"
+              style={{
+                top: PADDING_Y + (completion.lineIndex + 1) * LINE_HEIGHT - scroll.top,
+                left: `calc(${PADDING_X - scroll.left}px + ${completion.column}ch)`,
+              }}
+            >
+              <div className="mt-0.5 min-w-32 max-w-64 rounded-md border bg-popover text-popover-foreground shadow-md py-1 text-xs">
+                {completion.options.map((option, i) => (
+                  <div
+                    key={option}
+                    className={`px-2 py-1 cursor-pointer truncate ${i === active ? 'bg-accent text-accent-foreground' : ''}`}
+                    onMouseDown={(e) => {
+                      // Keep focus (and the caret) in the textarea
+                      e.preventDefault();
+                      accept(option);
+                    }}
+                  >
+                    {option}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="border rounded max-h-36 overflow-y-auto divide-y">
+          {issues.map((issue, i) => (
+            <button
+              key={i}
+              type="button"
+              className="w-full flex items-start gap-2 px-2 py-1 text-left text-xs hover:bg-muted/50"
+              onClick={() => reveal(issue)}
+            >
+              {issue.severity === 'error' ? (
+                <AlertCircle className="w-3.5 h-3.5 mt-px shrink-0 text-destructive" />
+              ) : (
+                <AlertTriangle className="w-3.5 h-3.5 mt-px shrink-0 text-amber-500" />
+              )}
+              <span className="flex-1">{issue.message}</span>
+              {issue.line !== null && (
+                <span className="shrink-0 font-mono text-[10px] text-muted-foreground">
+                  {issue.line + 1}:{issue.column}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useDeferredValue } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/components/ui/toast';
-import { Trash2, Save, Plus } from 'lucide-react';
+import { Trash2, Save, Plus, WandSparkles, GitBranchPlus, RefreshCw, FilePlus2 } from 'lucide-react';
 import { supabase } from '@/supabaseClient';
 import type { ProjectNetworkRecord } from '@/hooks/useProjectNetworks';
 import type { NetworkData } from '@/types/network';
+import type { ParsedRule } from '@/lib/ruleLanguage';
+import { firstError, formatDiagnostic, hasErrors, parseRules, printRule } from '@/lib/ruleLanguage';
+import { lintRules } from '@/lib/ruleLint';
+import { graphNodeIds, regenerateEdges, ruleRegulations, ruleString, signedEdge, skeletonRulesFromEdges } from '@/lib/ruleGraphSync';
+import { RuleEditor } from './RuleEditor';
 
 type RulesPageProps = {
   projectId?: string;
@@ -16,6 +20,44 @@ type RulesPageProps = {
   onNetworkUpdated?: (network: ProjectNetworkRecord) => void;
 };
 
+/** First error in a parsed rule set as "Line N: message (column C)", or null. */
+function firstRuleError(rules: ParsedRule[]): string | null {
+  for (const rule of rules) {
+    const error = firstError(rule);
+    if (error) return `Line ${(rule.line ?? 0) + 1}: ${formatDiagnostic(error)}`;
+  }
+  return null;
+}
+
+/** Grid position for the i-th node of an auto-laid-out network. */
+function gridPosition(i: number) {
+  return {
+    x: 100 + (i % 5) * 150,
+    y: 100 + Math.floor(i / 5) * 150
+  };
+}
+
+/** Save network data and return the updated record. */
+async function updateNetworkData(networkId: string, networkData: NetworkData): Promise<ProjectNetworkRecord | null> {
+  const { data, error } = await supabase
+    .from('networks')
+    .update({ network_data: networkData })
+    .eq('id', networkId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  // Map network_data to data property for ProjectNetworkRecord interface
+  return {
+    id: data.id,
+    name: data.name,
+    created_at: data.created_at,
+    data: data.network_data || null,
+  };
+}
+
 export default function RulesPage({ 
   projectId, 
   selectedNetworkId, 
@@ -26,20 +68,34 @@ export default function RulesPage({
   const [rulesText, setRulesText] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
-  const { showToast } = useToast();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const { showToast, showConfirm } = useToast();
+
+  // Lint against the selected network's graph; deferred so typing stays responsive
+  const deferredRulesText = useDeferredValue(rulesText);
+  const graph = selectedNetwork?.data;
+  const lint = useMemo(
+    () => lintRules(deferredRulesText, graph ? { nodes: graph.nodes ?? [], edges: graph.edges ?? [] } : null),
+    [deferredRulesText, graph]
+  );
+  const errorCount = lint.issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = lint.issues.length - errorCount;
+
+  const completions = useMemo(() => {
+    const names = new Set<string>((graph?.nodes ?? []).map(n => n.label ?? n.id));
+    for (const rule of lint.rules) {
+      if (rule.target) names.add(rule.target);
+      rule.identifiers.forEach(id => names.add(id));
+    }
+    return Array.from(names).sort((a, b) => a.localeCompare(b));
+  }, [graph, lint.rules]);
 
   // Load rules from selected network
   useEffect(() => {
     if (selectedNetwork?.data?.rules) {
-      const loadedRules = Array.isArray(selectedNetwork.data.rules) 
-        ? selectedNetwork.data.rules.map(r => {
-            if (typeof r === 'string') return r;
-            // Reconstruct full rule from { name, action } format
-            if (r.action) return `${r.name} = ${r.action}`;
-            // Old format where name contains the full rule
-            if (r.name && r.name.includes('=')) return r.name;
-            return r.name || '';
-          }).join('\n')
+      const loadedRules = Array.isArray(selectedNetwork.data.rules)
+        // Plain strings, { name, action, probability } objects, or old rules with the full text in name
+        ? selectedNetwork.data.rules.map(r => ruleString(r) || (typeof r === 'string' ? '' : r.name || '')).join('\n')
         : '';
       setRulesText(loadedRules);
     } else if (selectedNetworkId && selectedNetwork) {
@@ -55,74 +111,35 @@ export default function RulesPage({
     setRulesText('');
   }, []);
 
+  // Rewrite valid rules in canonical form; comments and invalid lines are left as typed
+  const handleFormat = useCallback(() => {
+    const lines = rulesText.split('\n');
+    for (const rule of parseRules(lines)) {
+      if (rule.expression && rule.line !== undefined && !hasErrors(rule)) {
+        lines[rule.line] = printRule(rule.target, rule.expression, rule.probability);
+      }
+    }
+    setRulesText(lines.join('\n'));
+  }, [rulesText]);
+
   const handleSaveToNetwork = useCallback(async () => {
     if (!selectedNetworkId || !selectedNetwork) {
       showToast({ title: 'No network selected', description: 'Please select a network first.', variant: 'destructive' });
       return;
     }
 
+    const parsed = parseRules(rulesText.split('\n'));
+    const ruleError = firstRuleError(parsed);
+    if (ruleError) {
+      showToast({ title: 'Invalid rules', description: ruleError, variant: 'destructive' });
+      return;
+    }
+
     setIsSaving(true);
     try {
-      const rules = rulesText
-        .split('\n')
-        .map(line => line.trim())
-        .filter(line => line && !line.startsWith('#') && !line.startsWith('//'));
-
-      // Extract nodes and edges from rules
-      const nodeSet = new Set<string>();
-      const edgeMap = new Map<string, Set<string>>(); // target -> sources
-      
-      // Helper to extract identifiers from expression (handles labels with spaces)
-      const extractIdentifiers = (expression: string, knownLabels: Set<string>): string[] => {
-        const ids: string[] = [];
-        // First try to match known labels (longer matches first to avoid partial matches)
-        const sortedLabels = Array.from(knownLabels).sort((a, b) => b.length - a.length);
-        let remaining = expression;
-        for (const label of sortedLabels) {
-          if (remaining.includes(label)) {
-            ids.push(label);
-            remaining = remaining.split(label).join('');
-          }
-        }
-        // Then extract any remaining identifiers (words/numbers)
-        const extras = remaining.match(/[a-zA-Z][a-zA-Z0-9_]*/g) || [];
-        extras.forEach(id => {
-          if (!['AND', 'OR', 'XOR', 'NAND', 'NOR', 'NOT'].includes(id.toUpperCase()) && !ids.includes(id)) {
-            ids.push(id);
-          }
-        });
-        return ids;
-      };
-      
-      // First pass: collect all targets (everything before =)
-      rules.forEach(rule => {
-        const eqIndex = rule.indexOf('=');
-        if (eqIndex > 0) {
-          const target = rule.substring(0, eqIndex).trim();
-          nodeSet.add(target);
-        }
-      });
-      
-      // Second pass: build edges using known node labels
-      rules.forEach(rule => {
-        const eqIndex = rule.indexOf('=');
-        if (eqIndex > 0) {
-          const target = rule.substring(0, eqIndex).trim();
-          const expression = rule.substring(eqIndex + 1).trim();
-          
-          const identifiers = extractIdentifiers(expression, nodeSet);
-          identifiers.forEach(id => {
-            nodeSet.add(id);
-            // Create edge from source to target
-            if (id !== target) {
-              if (!edgeMap.has(target)) {
-                edgeMap.set(target, new Set());
-              }
-              edgeMap.get(target)!.add(id);
-            }
-          });
-        }
-      });
+      // Extract nodes from rules: targets first, then their inputs
+      const nodeSet = new Set<string>(parsed.map(rule => rule.target));
+      parsed.forEach(rule => rule.identifiers.forEach(id => nodeSet.add(id)));
 
       // Get existing nodes to preserve positions
       const existingNodes = selectedNetwork.data?.nodes || [];
@@ -131,39 +148,26 @@ export default function RulesPage({
       // Create/update nodes
       const nodes = Array.from(nodeSet).map((id, i) => {
         const existing = existingNodeMap.get(id);
-        return existing || {
-          id,
-          label: id,
-          position: { 
-            x: 100 + (i % 5) * 150, 
-            y: 100 + Math.floor(i / 5) * 150 
-          }
-        };
+        return existing || { id, label: id, position: gridPosition(i) };
       });
 
-      // Create edges
-      const edges = [];
-      for (const [target, sources] of edgeMap.entries()) {
-        for (const source of sources) {
-          edges.push({
-            source,
-            target,
-            weight: 1
-          });
-        }
-      }
+      // Create edges signed by how each rule uses its inputs, keeping existing edge data
+      const existingEdges = new Map((selectedNetwork.data?.edges || []).map(e => [`${e.source}::${e.target}`, e]));
+      const edges = ruleRegulations(parsed).map(r =>
+        signedEdge(r.source, r.target, r.sign, existingEdges.get(`${r.source}::${r.target}`))
+      );
 
       const networkData = (selectedNetwork.data || {}) as NetworkData;
-      // Parse rules into proper { name, action } format (handles labels with spaces)
-      const parsedRules = rules.map(r => {
-        const eqIndex = r.indexOf('=');
-        if (eqIndex > 0) {
-          const name = r.substring(0, eqIndex).trim();
-          const action = r.substring(eqIndex + 1).trim();
-          return { name, action, enabled: true };
-        }
-        // Fallback for rules without proper format
-        return { name: r, action: '', enabled: true };
+      // Store rules in { name, action } format (handles labels with spaces); PBN alternatives keep their probability
+      const parsedRules = parsed.map(rule => {
+        const start = rule.text.indexOf('=') + 1;
+        const end = rule.probability !== undefined ? rule.text.indexOf('@', start) : rule.text.length;
+        return {
+          name: rule.target,
+          action: rule.text.substring(start, end).trim(),
+          ...(rule.probability !== undefined && { probability: rule.probability }),
+          enabled: true,
+        };
       });
 
       const updatedData = {
@@ -174,25 +178,11 @@ export default function RulesPage({
         metadata: { ...(networkData.metadata || {}), type: 'Rule Based' }
       };
 
-      const { data, error } = await supabase
-        .from('networks')
-        .update({ network_data: updatedData })
-        .eq('id', selectedNetworkId)
-        .select()
-        .single();
-
-      if (error) throw error;
+      const networkRecord = await updateNetworkData(selectedNetworkId, updatedData);
 
       showToast({ title: 'Success', description: `Rules saved with ${nodes.length} nodes and ${edges.length} edges` });
       
-      if (data && onNetworkUpdated) {
-        // Map network_data to data property for ProjectNetworkRecord interface
-        const networkRecord: ProjectNetworkRecord = {
-          id: data.id,
-          name: data.name,
-          created_at: data.created_at,
-          data: data.network_data || null,
-        };
+      if (networkRecord && onNetworkUpdated) {
         onNetworkUpdated(networkRecord);
       }
     } catch (err) {
@@ -203,6 +193,80 @@ export default function RulesPage({
     }
   }, [selectedNetworkId, selectedNetwork, rulesText, showToast, onNetworkUpdated]);
 
+  // Save a graph change made from the rules and hand the updated record to the parent
+  const persistGraph = useCallback(async (networkData: NetworkData, description: string) => {
+    if (!selectedNetworkId) return;
+    setIsSyncing(true);
+    try {
+      const networkRecord = await updateNetworkData(selectedNetworkId, networkData);
+
+      showToast({ title: 'Graph updated', description });
+
+      if (networkRecord && onNetworkUpdated) {
+        onNetworkUpdated(networkRecord);
+      }
+    } catch (err) {
+      console.error('Failed to update graph from rules:', err);
+      showToast({ title: 'Error', description: 'Failed to update the graph', variant: 'destructive' });
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [selectedNetworkId, showToast, onNetworkUpdated]);
+
+  // Add the nodes and edges the rules use but the graph lacks; nothing is removed
+  const handleSyncGraph = useCallback(async () => {
+    if (!selectedNetwork) return;
+
+    const networkData = (selectedNetwork.data || {}) as NetworkData;
+    const existingNodes = networkData.nodes || [];
+    const existingEdges = networkData.edges || [];
+    const { missingNodes, missingEdges } = lintRules(rulesText, { nodes: existingNodes, edges: existingEdges });
+    if (missingNodes.length === 0 && missingEdges.length === 0) return;
+
+    const addedNodes = missingNodes.map((name, i) => ({
+      id: name,
+      label: name,
+      position: gridPosition(existingNodes.length + i)
+    }));
+    const idOf = graphNodeIds([...existingNodes, ...addedNodes]);
+    const addedEdges = missingEdges.map(edge =>
+      signedEdge(idOf.get(edge.source) ?? edge.source, idOf.get(edge.target) ?? edge.target, edge.sign)
+    );
+
+    await persistGraph(
+      { ...networkData, nodes: [...existingNodes, ...addedNodes], edges: [...existingEdges, ...addedEdges] },
+      `Added ${addedNodes.length} nodes and ${addedEdges.length} edges from the rules`
+    );
+  }, [selectedNetwork, rulesText, persistGraph]);
+
+  // Redraw the edges into every node with a valid rule from what its rule uses
+  const handleRegenerateEdges = useCallback(() => {
+    if (!selectedNetwork) return;
+
+    showConfirm('Replace the edges into every node that has a rule with the signed edges its rule uses?', () => {
+      const networkData = (selectedNetwork.data || {}) as NetworkData;
+      const nodes = networkData.nodes || [];
+      const parsed = parseRules(rulesText.split('\n'), { knownLabels: graphNodeIds(nodes).keys() });
+      const edges = regenerateEdges(parsed, nodes, networkData.edges || []);
+      void persistGraph({ ...networkData, edges }, `The graph now has ${edges.length} edges derived from the rules`);
+    });
+  }, [selectedNetwork, rulesText, showConfirm, persistGraph]);
+
+  // Append rule skeletons for graph nodes that have incoming edges but no rule yet
+  const handleAddSkeletonRules = useCallback(() => {
+    const graphData = selectedNetwork?.data;
+    if (!graphData) return;
+
+    const targets = new Set(parseRules(rulesText.split('\n')).map(rule => rule.target));
+    const skeletons = skeletonRulesFromEdges(graphData.nodes ?? [], graphData.edges ?? [], targets);
+    if (skeletons.length === 0) {
+      showToast({ title: 'No new rules', description: 'Every node with incoming edges already has a rule.' });
+      return;
+    }
+    setRulesText(prev => [prev.trimEnd(), ...skeletons].filter(Boolean).join('\n'));
+    showToast({ title: 'Rules added', description: `Added ${skeletons.length} rules from the graph's edges` });
+  }, [selectedNetwork, rulesText, showToast]);
+
   const handleCreateNetwork = useCallback(async () => {
     if (!projectId) {
       showToast({ title: 'No project', description: 'Project ID is required', variant: 'destructive' });
@@ -214,61 +278,26 @@ export default function RulesPage({
       return;
     }
 
+    const parsed = parseRules(rulesText.split('\n'));
+    const ruleError = firstRuleError(parsed);
+    if (ruleError) {
+      showToast({ title: 'Invalid rules', description: ruleError, variant: 'destructive' });
+      return;
+    }
+
     setIsCreating(true);
     try {
-      const rules = rulesText
-        .split('\n')
-        .map(line => line.trim())
-        .filter(line => line && !line.startsWith('#') && !line.startsWith('//'));
+      const rules = parsed.map(rule => rule.text.trim());
 
-      // Extract node names from rules (handles labels with spaces by using indexOf)
-      const nodeSet = new Set<string>();
-      
-      // Helper to extract identifiers from expression (handles labels with spaces)
-      const extractIdentifiers = (expression: string, knownLabels: Set<string>): string[] => {
-        const ids: string[] = [];
-        const sortedLabels = Array.from(knownLabels).sort((a, b) => b.length - a.length);
-        let remaining = expression;
-        for (const label of sortedLabels) {
-          if (remaining.includes(label)) {
-            ids.push(label);
-            remaining = remaining.split(label).join('');
-          }
-        }
-        const extras = remaining.match(/[a-zA-Z][a-zA-Z0-9_]*/g) || [];
-        extras.forEach(id => {
-          if (!['AND', 'OR', 'XOR', 'NAND', 'NOR', 'NOT'].includes(id.toUpperCase()) && !ids.includes(id)) {
-            ids.push(id);
-          }
-        });
-        return ids;
-      };
-      
-      // First pass: collect targets
-      rules.forEach(rule => {
-        const eqIndex = rule.indexOf('=');
-        if (eqIndex > 0) {
-          nodeSet.add(rule.substring(0, eqIndex).trim());
-        }
-      });
-      
-      // Second pass: collect sources using known labels
-      rules.forEach(rule => {
-        const eqIndex = rule.indexOf('=');
-        if (eqIndex > 0) {
-          const expression = rule.substring(eqIndex + 1).trim();
-          extractIdentifiers(expression, nodeSet).forEach(id => nodeSet.add(id));
-        }
-      });
+      // Node names: rule targets, then the inputs they reference (labels with spaces included)
+      const nodeSet = new Set<string>(parsed.map(rule => rule.target));
+      parsed.forEach(rule => rule.identifiers.forEach(id => nodeSet.add(id)));
 
       // Create nodes with auto-layout
       const nodes = Array.from(nodeSet).map((id, i) => ({
         id,
         label: id,
-        position: { 
-          x: 100 + (i % 5) * 150, 
-          y: 100 + Math.floor(i / 5) * 150 
-        }
+        position: gridPosition(i)
       }));
 
       const networkData: NetworkData = {
@@ -384,6 +413,16 @@ Clb56 = Mcm1`;
                     {isCreating ? 'Creating...' : 'Create Network'}
                   </Button>
                 )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleFormat}
+                  disabled={!rulesText.trim()}
+                  title="Rewrite rules in canonical form"
+                >
+                  <WandSparkles className="w-4 h-4 mr-2" />
+                  Format
+                </Button>
                 <Button 
                   variant="outline" 
                   size="sm"
@@ -397,15 +436,58 @@ Clb56 = Mcm1`;
             </div>
           </CardHeader>
           <CardContent className="flex-1 flex flex-col space-y-4">
-            <Textarea
+            <RuleEditor
               placeholder="Enter rules (one per line)&#10;Example:&#10;Mcm1 = (Clb12 || Clb56) && !Mcm1&#10;Swi5 = (Mcm1 || Cdc20) && !(Swi5 || Clb12)&#10;Cdc20 = !Swi5"
-              className="font-mono text-sm flex-1 min-h-[300px]"
               value={rulesText}
-              onChange={(e) => setRulesText(e.target.value)}
+              onChange={setRulesText}
+              issues={lint.issues}
+              completions={completions}
             />
 
-            <div className="text-xs text-muted-foreground">
-              {rulesText.split('\n').filter(l => l.trim() && !l.trim().startsWith('#') && !l.trim().startsWith('//')).length} rules defined
+            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span>
+                {lint.rules.length} rules defined
+                {errorCount > 0 && <span className="text-destructive"> · {errorCount} errors</span>}
+                {warningCount > 0 && <span className="text-amber-600"> · {warningCount} warnings</span>}
+              </span>
+              {selectedNetworkId && (
+                <div className="flex flex-wrap justify-end gap-1.5">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={handleAddSkeletonRules}
+                    title="Add OR-of-activators AND NOT inhibitors rules for nodes that have incoming edges but no rule"
+                  >
+                    <FilePlus2 className="w-3.5 h-3.5 mr-1.5" />
+                    Rules from edges
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={handleRegenerateEdges}
+                    disabled={isSyncing || lint.rules.length === 0}
+                    title="Replace the edges into each ruled node with the signed edges its rule uses"
+                  >
+                    <RefreshCw className="w-3.5 h-3.5 mr-1.5" />
+                    Regenerate edges
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={handleSyncGraph}
+                    disabled={isSyncing || (lint.missingNodes.length === 0 && lint.missingEdges.length === 0)}
+                    title="Add the nodes and edges used by the rules to the network graph"
+                  >
+                    <GitBranchPlus className="w-3.5 h-3.5 mr-1.5" />
+                    {isSyncing
+                      ? 'Updating graph...'
+                      : `Create missing nodes/edges (${lint.missingNodes.length} / ${lint.missingEdges.length})`}
+                  </Button>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -434,11 +516,11 @@ Clb56 = Mcm1`;
                   <span className="text-muted-foreground text-xs">NOT</span>
                 </div>
                 <div className="flex items-center gap-2">
-                  <code className="bg-muted px-2 py-0.5 rounded text-purple-600 dark:text-purple-400">true</code>
+                  <code className="bg-muted px-2 py-0.5 rounded text-purple-600 dark:text-purple-400">true / 1</code>
                   <span className="text-muted-foreground text-xs">TRUE</span>
                 </div>
                 <div className="flex items-center gap-2">
-                  <code className="bg-muted px-2 py-0.5 rounded text-orange-600 dark:text-orange-400">false</code>
+                  <code className="bg-muted px-2 py-0.5 rounded text-orange-600 dark:text-orange-400">false / 0</code>
                   <span className="text-muted-foreground text-xs">FALSE</span>
                 </div>
               </div>
@@ -452,6 +534,13 @@ Clb56 = Mcm1`;
                   <span className="text-primary">•</span>
                   <span>One rule per target node</span>
                 </li>
+                <li className="flex items-start gap-1.5">
+                  <span className="text-primary">•</span>
+                  <span>
+                    Alternatives with probabilities: <code className="bg-muted px-1 rounded">A = B @ 0.7</code>,{' '}
+                    <code className="bg-muted px-1 rounded">A = !C @ 0.3</code>
+                  </span>
+                </li>
                 <li className="flex items-start gap-1.5">
                   <span className="text-primary">•</span>
                   <span>One rule per line</span>
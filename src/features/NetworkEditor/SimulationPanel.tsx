@@ -0,0 +1,390 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Plotly from 'plotly.js-dist-min';
+import { Download, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/toast';
+import { useAnalysisRun } from '@/hooks/useAnalysisRun';
+import { simulationNodes, simulationToCsv } from '@/lib/analysis/stochasticSimulation';
+import { drugLabel } from '@/lib/analysis/drugModel';
+import type { DrugEffect, SimulationModel, SimulationResult, UpdateScheme } from '@/lib/analysis/types';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+import { downloadTextAsFile } from '@/lib/download';
+import { ruleStrings } from '@/lib/ruleGraphSync';
+import type { NetworkData } from '@/types/network';
+import { AnalysisProgressBar } from './AnalysisProgressBar';
+
+type InitialCondition = 'random' | 'on' | 'off';
+
+const UPDATE_SCHEME_OPTIONS: Array<{ value: UpdateScheme; label: string }> = [
+  { value: 'synchronous', label: 'Synchronous' },
+  { value: 'asynchronous', label: 'Asynchronous (one random node per step)' },
+  { value: 'random-order', label: 'Random order (all nodes, shuffled)' },
+];
+
+interface SimulationPanelProps {
+  network: NetworkData | null | undefined;
+  networkName?: string;
+  isRuleBased: boolean;
+  /** Therapy doses from the Therapeutics panel, keyed by node id. */
+  drugs?: DrugEffect[];
+}
+
+/** Rules or weighted graph of a stored network, as the simulator expects them. */
+function toSimulationModel(network: NetworkData, isRuleBased: boolean): SimulationModel {
+  if (isRuleBased) {
+    return { kind: 'rules', rules: ruleStrings(network.rules) };
+  }
+  const nodes = network.nodes ?? [];
+  const thresholdMultiplier = network.metadata?.thresholdMultiplier;
+  return {
+    kind: 'weighted',
+    nodes: nodes.map(n => ({ id: String(n.id), label: String(n.label || n.id) })),
+    edges: (network.edges ?? []).map(e => ({
+      source: String(e.source),
+      target: String(e.target),
+      weight: Number(e.weight ?? 1),
+    })),
+    options: {
+      tieBehavior: 'hold',
+      thresholdMultiplier: typeof thresholdMultiplier === 'number' ? thresholdMultiplier : 0,
+      biases: Object.fromEntries(nodes.map(n => [String(n.id), Number(n.properties?.bias ?? 0)])),
+    },
+  };
+}
+
+function TimeCoursePlot({ result }: { result: SimulationResult }) {
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element) return;
+
+    const steps = result.activation.map((_, t) => t);
+    const data: Partial<Plotly.PlotData>[] = result.nodeOrder.map((id, i) => ({
+      type: 'scatter',
+      mode: 'lines',
+      name: result.nodeLabels[id] ?? id,
+      x: steps,
+      y: result.activation.map(row => row[i]),
+      hovertemplate: `${result.nodeLabels[id] ?? id}<br>step %{x}: %{y:.3f}<extra></extra>`,
+    }));
+
+    const layout: Partial<Plotly.Layout> = {
+      autosize: true,
+      xaxis: { title: { text: 'Step' }, zeroline: false },
+      yaxis: { title: { text: 'P(active)' }, range: [-0.02, 1.02] },
+      legend: { font: { size: 10 } },
+      margin: { l: 50, r: 10, t: 10, b: 40 },
+      paper_bgcolor: '#ffffff',
+      plot_bgcolor: '#fafafa',
+    };
+
+    Plotly.newPlot(element, data, layout, { responsive: true, displaylogo: false });
+
+    return () => {
+      try {
+        Plotly.purge(element);
+      } catch (err) {
+        console.error('Failed to clean up Plotly:', err);
+      }
+    };
+  }, [result]);
+
+  return <div ref={plotRef} className="w-full h-[420px]" />;
+}
+
+/*
+  Stochastic simulation of the selected network.
+  - Runs N noisy trajectories from per-node initial conditions (on, off, or random)
+  - Plots each node's activation probability over time and exports the matrix as CSV
+*/
+export function SimulationPanel({ network, networkName, isRuleBased, drugs = [] }: SimulationPanelProps) {
+  const { showToast } = useToast();
+  const { result, isRunning, error, progress, run, cancel, reset } = useAnalysisRun('simulation');
+
+  const [form, setForm] = useState({
+    trajectories: String(ANALYSIS_CONFIG.SIMULATION_DEFAULT_TRAJECTORIES),
+    steps: String(ANALYSIS_CONFIG.SIMULATION_DEFAULT_STEPS),
+    updateScheme: 'synchronous' as UpdateScheme,
+    flipProbability: '0.01',
+    initialProbability: '0.5',
+    seed: '',
+  });
+  const [initialConditions, setInitialConditions] = useState<Record<string, InitialCondition>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [applyDrugs, setApplyDrugs] = useState(true);
+
+  const model = useMemo(() => (network ? toSimulationModel(network, isRuleBased) : null), [network, isRuleBased]);
+  const nodes = useMemo(() => (model ? simulationNodes(model) : []), [model]);
+
+  // Rule-based models name their nodes by label
+  const simulationDrugs = useMemo(() => {
+    if (!isRuleBased) return drugs;
+    const labels = new Map((network?.nodes ?? []).map(n => [String(n.id), String(n.label || n.id)]));
+    return drugs.map(drug => ({ ...drug, node: labels.get(drug.node) ?? drug.node }));
+  }, [drugs, network, isRuleBased]);
+
+  // Results and initial conditions belong to one network
+  useEffect(() => {
+    reset();
+    setInitialConditions({});
+  }, [model, reset]);
+
+  useEffect(() => {
+    if (error) {
+      showToast({ title: 'Simulation Failed', description: error, variant: 'destructive' });
+    }
+  }, [error, showToast]);
+
+  const handleRun = () => {
+    if (!model || nodes.length === 0) return;
+    const trajectories = Number(form.trajectories);
+    const steps = Number(form.steps);
+    const flipProbability = Number(form.flipProbability);
+    const initialProbability = Number(form.initialProbability);
+    const seed = form.seed.trim() === '' ? undefined : Number(form.seed);
+
+    if (!Number.isInteger(trajectories) || trajectories < 1 || trajectories > ANALYSIS_CONFIG.MAX_SIMULATION_TRAJECTORIES) {
+      setFormError(`Trajectories must be a whole number between 1 and ${ANALYSIS_CONFIG.MAX_SIMULATION_TRAJECTORIES.toLocaleString()}.`);
+      return;
+    }
+    if (!Number.isInteger(steps) || steps < 1 || steps > ANALYSIS_CONFIG.MAX_SIMULATION_STEPS) {
+      setFormError(`Steps must be a whole number between 1 and ${ANALYSIS_CONFIG.MAX_SIMULATION_STEPS.toLocaleString()}.`);
+      return;
+    }
+    if (!Number.isFinite(flipProbability) || flipProbability < 0 || flipProbability > 1) {
+      setFormError('Flip noise must be a probability between 0 and 1.');
+      return;
+    }
+    if (!Number.isFinite(initialProbability) || initialProbability < 0 || initialProbability > 1) {
+      setFormError('Initial activation must be a probability between 0 and 1.');
+      return;
+    }
+    if (seed !== undefined && !Number.isInteger(seed)) {
+      setFormError('Seed must be a whole number.');
+      return;
+    }
+    setFormError(null);
+
+    const initialProbabilities: Record<string, number> = {};
+    for (const [id, condition] of Object.entries(initialConditions)) {
+      if (condition !== 'random') initialProbabilities[id] = condition === 'on' ? 1 : 0;
+    }
+
+    void run({
+      model,
+      options: {
+        trajectories,
+        steps,
+        updateScheme: form.updateScheme,
+        flipProbability,
+        initialProbability,
+        initialProbabilities,
+        seed,
+        ...(applyDrugs && simulationDrugs.length > 0 && { drugs: simulationDrugs }),
+      },
+    });
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    downloadTextAsFile(`simulation-${networkName || 'network'}-${Date.now()}.csv`, simulationToCsv(result));
+  };
+
+  if (!network) {
+    return (
+      <div className="flex h-full items-center justify-center p-6 text-sm text-muted-foreground">
+        Select a network to simulate.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-0 flex-1 overflow-auto p-6">
+      <div className="flex flex-col xl:flex-row gap-6 pb-8">
+        <Card className="xl:w-96 shrink-0">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Stochastic Simulation</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {networkName ? `${networkName} · ` : ''}{isRuleBased ? 'Rule-based' : 'Weighted'} · {nodes.length} node(s)
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="sim-trajectories" className="text-xs">Trajectories</Label>
+                <Input
+                  id="sim-trajectories"
+                  type="number"
+                  min={1}
+                  value={form.trajectories}
+                  onChange={(e) => setForm(f => ({ ...f, trajectories: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sim-steps" className="text-xs">Steps</Label>
+                <Input
+                  id="sim-steps"
+                  type="number"
+                  min={1}
+                  value={form.steps}
+                  onChange={(e) => setForm(f => ({ ...f, steps: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sim-noise" className="text-xs">Flip noise (per node, per step)</Label>
+                <Input
+                  id="sim-noise"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.005}
+                  value={form.flipProbability}
+                  onChange={(e) => setForm(f => ({ ...f, flipProbability: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sim-seed" className="text-xs">Seed (optional)</Label>
+                <Input
+                  id="sim-seed"
+                  type="number"
+                  placeholder="random"
+                  value={form.seed}
+                  onChange={(e) => setForm(f => ({ ...f, seed: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Update scheme</Label>
+              <Select
+                value={form.updateScheme}
+                onValueChange={(value) => setForm(f => ({ ...f, updateScheme: value as UpdateScheme }))}
+              >
+                <SelectTrigger className="h-9 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UPDATE_SCHEME_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="flex items-end justify-between gap-2">
+                <Label className="text-xs">Initial conditions</Label>
+                <div className="flex items-center gap-1.5">
+                  <Label htmlFor="sim-initial" className="text-[10px] text-muted-foreground">P(on) for random</Label>
+                  <Input
+                    id="sim-initial"
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    className="h-7 w-20 text-xs"
+                    value={form.initialProbability}
+                    onChange={(e) => setForm(f => ({ ...f, initialProbability: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <div className="border rounded max-h-64 overflow-y-auto divide-y">
+                {nodes.map(node => (
+                  <div key={node.id} className="flex items-center justify-between gap-2 px-2 py-1">
+                    <span className="text-xs font-medium truncate">{node.label}</span>
+                    <Select
+                      value={initialConditions[node.id] ?? 'random'}
+                      onValueChange={(value) => setInitialConditions(c => ({ ...c, [node.id]: value as InitialCondition }))}
+                    >
+                      <SelectTrigger className="h-7 w-24 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="random">Random</SelectItem>
+                        <SelectItem value="on">On</SelectItem>
+                        <SelectItem value="off">Off</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                {nodes.length === 0 && (
+                  <p className="px-2 py-3 text-xs text-muted-foreground text-center">
+                    {isRuleBased ? 'No valid rules to simulate.' : 'This network has no nodes.'}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {simulationDrugs.length > 0 && (
+              <div className="space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <Checkbox id="sim-drugs" checked={applyDrugs} onCheckedChange={checked => setApplyDrugs(checked === true)} />
+                  <Label htmlFor="sim-drugs" className="text-xs font-normal">Apply therapy doses</Label>
+                </div>
+                <ul className="text-[10px] text-muted-foreground space-y-0.5 pl-6">
+                  {simulationDrugs.map((drug, i) => (
+                    <li key={i}>
+                      {drugLabel(drug)}
+                      {drug.start !== undefined || drug.end !== undefined ? ` · steps ${drug.start ?? 0}–${drug.end ?? '∞'}` : ''}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {formError && <p className="text-xs text-destructive">{formError}</p>}
+
+            {isRunning ? (
+              <AnalysisProgressBar label="Simulating" progress={progress} onCancel={cancel} unit="trajectories" />
+            ) : (
+              <Button className="w-full gap-1.5" onClick={handleRun} disabled={nodes.length === 0}>
+                <Play className="w-4 h-4" />
+                Run Simulation
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="flex-1 min-w-0">
+          <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-base">Activation over time</CardTitle>
+            {result && (
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="text-[10px]">
+                  {result.trajectories.toLocaleString()} runs · seed {result.seed}
+                </Badge>
+                <Button size="sm" variant="outline" className="h-7 text-xs gap-1.5" onClick={handleExport}>
+                  <Download className="w-3.5 h-3.5" />
+                  Export CSV
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {result ? (
+              <div className="space-y-2">
+                {result.warnings.length > 0 && (
+                  <ul className="text-xs text-amber-600 space-y-0.5">
+                    {result.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                  </ul>
+                )}
+                <TimeCoursePlot result={result} />
+              </div>
+            ) : (
+              <div className="flex h-[420px] items-center justify-center text-sm text-muted-foreground">
+                Run a simulation to plot each node's activation probability over time.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
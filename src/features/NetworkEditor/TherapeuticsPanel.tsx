@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -11,8 +11,10 @@ import {
 import { Input } from '@/components/ui/input';
 import { KnockInDialog } from './KnockInDialog';
 import { KnockOutDialog } from './KnockOutDialog';
-import type { NetworkNode, TherapeuticIntervention } from '@/types/network';
-import { Plus, X, Save, Syringe, ChevronsUpDown, Trash2, Power } from 'lucide-react';
+import { EdgeInterventionDialog, type EdgeInterventionKind } from './EdgeInterventionDialog';
+import type { EdgeRegulation, NetworkEdge, NetworkNode, TherapeuticIntervention } from '@/types/network';
+import type { DrugEffect, DrugModulation } from '@/lib/analysis';
+import { Plus, X, Save, Syringe, ChevronsUpDown, Trash2, Power, Unlink, Link2 } from 'lucide-react';
 import { supabase } from '@/supabaseClient';
 import { useToast } from '@/components/ui/toast';
 
@@ -21,25 +23,65 @@ type InterventionType = 'knock-in' | 'knock-out' | 'edge-knock-in' | 'edge-knock
 interface TherapeuticsPanelProps {
   networkId: string;
   nodes: NetworkNode[];
+  edges?: NetworkEdge[];
   rules: Record<string, string>;
   existingTherapies?: TherapeuticIntervention[] | null;
   onTherapiesUpdated?: () => void;
   onInterventionsChange?: (interventions: TherapeuticIntervention[]) => void;
+  /** Receives the quantitative drugs described by the targeted and group therapy entries. */
+  onDrugsChange?: (drugs: DrugEffect[]) => void;
+}
+
+// Optional numeric field of a sidebar entry; blank or invalid text means "unset"
+const optionalNumber = (text: string): number | undefined => {
+  if (text.trim() === '') return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * Drug model for one sidebar entry on one node, or null while the entry has no
+ * node or no positive dose.
+ */
+function toDrugEffect(
+  node: string,
+  entry: { modulationMode: string; value: string; extension: string; ec50: string; start: string; end: string },
+  group?: string,
+): DrugEffect | null {
+  const dose = optionalNumber(entry.value);
+  if (!node || dose === undefined || dose <= 0) return null;
+  const ec50 = optionalNumber(entry.ec50);
+  const start = optionalNumber(entry.start);
+  const end = optionalNumber(entry.end);
+  return {
+    node,
+    mode: entry.modulationMode as DrugModulation,
+    dose,
+    unit: entry.extension,
+    ...(ec50 !== undefined ? { ec50 } : {}),
+    ...(start !== undefined ? { start: Math.max(0, Math.floor(start)) } : {}),
+    ...(end !== undefined ? { end: Math.max(0, Math.floor(end)) } : {}),
+    ...(group ? { group } : {}),
+  };
 }
 
 export function TherapeuticsPanel({ 
   networkId, 
   nodes, 
+  edges = [],
   rules, 
   existingTherapies,
   onTherapiesUpdated,
-  onInterventionsChange
+  onInterventionsChange,
+  onDrugsChange
 }: TherapeuticsPanelProps) {
   const [knockInDialogOpen, setKnockInDialogOpen] = useState(false);
   const [knockOutDialogOpen, setKnockOutDialogOpen] = useState(false);
+  const [edgeDialogOpen, setEdgeDialogOpen] = useState(false);
   const [selectedInterventionType, setSelectedInterventionType] = useState<InterventionType>('knock-in');
   const [interventions, setInterventions] = useState<TherapeuticIntervention[]>([]);
   const [isSaving, setIsSaving] = useState(false);
+  const edgeKind: EdgeInterventionKind = selectedInterventionType === 'edge-knock-out' ? 'edge-knock-out' : 'edge-knock-in';
   const { showToast } = useToast();
 
   // Sidebar state
@@ -55,6 +97,9 @@ export function TherapeuticsPanel({
     modulationMode: string;
     value: string;
     extension: string;
+    ec50: string;
+    start: string;
+    end: string;
   };
 
   type GroupTherapy = {
@@ -64,6 +109,9 @@ export function TherapeuticsPanel({
     modulationMode: string;
     value: string;
     extension: string;
+    ec50: string;
+    start: string;
+    end: string;
   };
 
   const [therapyProperties, setTherapyProperties] = useState<Record<string, PropertyItem[]>>({
@@ -80,7 +128,7 @@ export function TherapeuticsPanel({
   });
 
   const [targetedTherapyNodes, setTargetedTherapyNodes] = useState<TargetedTherapyNode[]>([
-    { id: 'tt1', nodeId: '', modulationMode: 'inhibit', value: '100', extension: 'nM' },
+    { id: 'tt1', nodeId: '', modulationMode: 'inhibit', value: '100', extension: 'nM', ec50: '', start: '', end: '' },
   ]);
 
   const [selectedTherapy, setSelectedTherapy] = useState<string | null>(null);
@@ -105,7 +153,10 @@ export function TherapeuticsPanel({
         nodeId: '', 
         modulationMode: 'inhibit', 
         value: '', 
-        extension: 'nM' 
+        extension: 'nM',
+        ec50: '',
+        start: '',
+        end: ''
       }
     ]);
   };
@@ -116,7 +167,7 @@ export function TherapeuticsPanel({
 
   const handleUpdateTargetedNode = (
     id: string,
-    field: 'nodeId' | 'modulationMode' | 'value' | 'extension',
+    field: 'nodeId' | 'modulationMode' | 'value' | 'extension' | 'ec50' | 'start' | 'end',
     value: string
   ) => {
     setTargetedTherapyNodes(prev =>
@@ -134,7 +185,10 @@ export function TherapeuticsPanel({
         members: [''],
         modulationMode: 'modulate',
         value: '',
-        extension: availableExtensions[0]
+        extension: availableExtensions[0],
+        ec50: '',
+        start: '',
+        end: ''
       }
     ]));
   };
@@ -145,7 +199,7 @@ export function TherapeuticsPanel({
 
   const handleUpdateGroupTherapy = (
     id: string,
-    field: 'name' | 'modulationMode' | 'value' | 'extension',
+    field: 'name' | 'modulationMode' | 'value' | 'extension' | 'ec50' | 'start' | 'end',
     value: string
   ) => {
     setGroupTherapies(prev => prev.map(g => g.id === id ? { ...g, [field]: value } : g));
@@ -172,6 +226,16 @@ export function TherapeuticsPanel({
     }));
   };
 
+  // Targeted and group entries as drugs for the quantitative models
+  const drugs = useMemo(() => [
+    ...targetedTherapyNodes.map(entry => toDrugEffect(entry.nodeId, entry)),
+    ...groupTherapies.flatMap(g => g.members.map(member => toDrugEffect(member, g, g.name))),
+  ].filter((drug): drug is DrugEffect => drug !== null), [targetedTherapyNodes, groupTherapies]);
+
+  useEffect(() => {
+    onDrugsChange?.(drugs);
+  }, [drugs, onDrugsChange]);
+
   useEffect(() => {
     if (existingTherapies && Array.isArray(existingTherapies)) {
       setInterventions(existingTherapies);
@@ -264,6 +328,23 @@ export function TherapeuticsPanel({
     onInterventionsChange?.(updatedInterventions);
   };
 
+  const handleEdgeIntervention = (edgeData: { nodeName: string; edge: EdgeRegulation }) => {
+    const newIntervention: TherapeuticIntervention = {
+      id: `${edgeKind.replace(/-/g, '')}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: edgeKind,
+      nodeName: edgeData.nodeName,
+      nodeRule: null,
+      fixedValue: null,
+      outwardRegulations: [],
+      edge: edgeData.edge,
+      timestamp: Date.now()
+    };
+
+    const updatedInterventions = [...interventions, newIntervention];
+    setInterventions(updatedInterventions);
+    onInterventionsChange?.(updatedInterventions);
+  };
+
   const handleRemoveIntervention = (id: string) => {
     const updatedInterventions = interventions.filter(i => i.id !== id);
     // Optimistically update UI
@@ -351,13 +432,12 @@ export function TherapeuticsPanel({
                 setKnockInDialogOpen(true);
               } else if (selectedInterventionType === 'knock-out') {
                 setKnockOutDialogOpen(true);
+              } else {
+                setEdgeDialogOpen(true);
               }
-              // TODO: Handle edge intervention types
             }}
             size="sm"
             className="h-8 text-xs px-3"
-            disabled={selectedInterventionType !== 'knock-in' && selectedInterventionType !== 'knock-out'}
-            title={selectedInterventionType !== 'knock-in' && selectedInterventionType !== 'knock-out' ? 'Coming Soon' : undefined}
           >
             <Plus className="w-3 h-3 mr-1" />
             Add
@@ -380,7 +460,10 @@ export function TherapeuticsPanel({
                 </span>
               </div>
               {interventions.map((intervention, index) => {
-                const isKnockOut = intervention.type === 'knock-out';
+                const isKnockOut = intervention.type === 'knock-out' || intervention.type === 'edge-knock-out';
+                const edge = intervention.edge;
+                const edgeArrow = edge?.sign === 'inhibition' ? '⊣' : '→';
+                const typeLabel = `${edge ? 'Edge ' : ''}${isKnockOut ? 'Knock-Out' : 'Knock-In'}`;
                 return (
                   <div
                     key={intervention.id}
@@ -391,10 +474,16 @@ export function TherapeuticsPanel({
                         <Badge className={`${isKnockOut ? 'bg-red-600' : 'bg-blue-600'} text-xs px-1.5 py-0 h-4`}>
                           #{index + 1}
                         </Badge>
-                        {isKnockOut && <Power className="w-3 h-3 text-red-500" />}
-                        <span className="font-semibold">{intervention.nodeName}</span>
+                        {edge
+                          ? isKnockOut
+                            ? <Unlink className="w-3 h-3 text-red-500" />
+                            : <Link2 className="w-3 h-3 text-blue-500" />
+                          : isKnockOut && <Power className="w-3 h-3 text-red-500" />}
+                        <span className="font-semibold">
+                          {edge ? `${edge.source} ${edgeArrow} ${edge.target}` : intervention.nodeName}
+                        </span>
                         <Badge variant="outline" className={`text-xs px-1 py-0 ${isKnockOut ? 'text-red-600 border-red-300' : 'text-blue-600 border-blue-300'}`}>
-                          {isKnockOut ? 'Knock-Out' : 'Knock-In'}
+                          {typeLabel}
                         </Badge>
                       </div>
                       <button
@@ -407,11 +496,15 @@ export function TherapeuticsPanel({
                     
                     {/* Rule or Fixed Value */}
                     <div className={`${isKnockOut ? 'bg-red-50 dark:bg-red-900/20' : 'bg-muted/50'} rounded px-2 py-1.5 font-mono text-xs ${isKnockOut ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'} mb-1.5`}>
-                      {isKnockOut
-                        ? `${intervention.nodeName} = 0 (FORCED OFF)`
-                        : intervention.nodeRule 
-                          ? `${intervention.nodeName} = ${intervention.nodeRule}`
-                          : `${intervention.nodeName} = ${intervention.fixedValue} (fixed)`
+                      {edge
+                        ? isKnockOut
+                          ? `${edge.source} no longer regulates ${edge.target}`
+                          : `${edge.source} ${edge.sign === 'inhibition' ? 'inhibits' : 'activates'} ${edge.target}${edge.weight !== undefined ? ` (weight ${edge.weight})` : ''}`
+                        : isKnockOut
+                          ? `${intervention.nodeName} = 0 (FORCED OFF)`
+                          : intervention.nodeRule 
+                            ? `${intervention.nodeName} = ${intervention.nodeRule}`
+                            : `${intervention.nodeName} = ${intervention.fixedValue} (fixed)`
                       }
                     </div>
 
@@ -601,6 +694,31 @@ export function TherapeuticsPanel({
                               </Select>
                             </div>
 
+                            {/* Potency and Dosing Window Row */}
+                            <div className="flex gap-1">
+                              <Input
+                                placeholder="EC50"
+                                title="Dose giving half the maximal effect (default 100)"
+                                value={targetNode.ec50}
+                                onChange={(e) => handleUpdateTargetedNode(targetNode.id, 'ec50', e.target.value)}
+                                className="h-7 text-xs flex-1"
+                              />
+                              <Input
+                                placeholder="Start"
+                                title="First simulation step the drug acts on"
+                                value={targetNode.start}
+                                onChange={(e) => handleUpdateTargetedNode(targetNode.id, 'start', e.target.value)}
+                                className="h-7 text-xs w-14"
+                              />
+                              <Input
+                                placeholder="End"
+                                title="Step the drug stops acting (blank: never)"
+                                value={targetNode.end}
+                                onChange={(e) => handleUpdateTargetedNode(targetNode.id, 'end', e.target.value)}
+                                className="h-7 text-xs w-14"
+                              />
+                            </div>
+
                             {/* Remove Button */}
                             <div className="flex justify-end">
                               <button
@@ -742,6 +860,30 @@ export function TherapeuticsPanel({
                                 </SelectContent>
                               </Select>
                             </div>
+
+                            <div className="flex gap-1">
+                              <Input
+                                placeholder="EC50"
+                                title="Dose giving half the maximal effect (default 100)"
+                                value={g.ec50}
+                                onChange={(e) => handleUpdateGroupTherapy(g.id, 'ec50', e.target.value)}
+                                className="h-7 text-xs flex-1"
+                              />
+                              <Input
+                                placeholder="Start"
+                                title="First simulation step the drug acts on"
+                                value={g.start}
+                                onChange={(e) => handleUpdateGroupTherapy(g.id, 'start', e.target.value)}
+                                className="h-7 text-xs w-14"
+                              />
+                              <Input
+                                placeholder="End"
+                                title="Step the drug stops acting (blank: never)"
+                                value={g.end}
+                                onChange={(e) => handleUpdateGroupTherapy(g.id, 'end', e.target.value)}
+                                className="h-7 text-xs w-14"
+                              />
+                            </div>
                           </div>
                         </div>
                       ))
@@ -862,6 +1004,16 @@ export function TherapeuticsPanel({
         existingRules={rules}
         onKnockOut={handleKnockOut}
       />
+
+      <EdgeInterventionDialog
+        open={edgeDialogOpen}
+        onOpenChange={setEdgeDialogOpen}
+        kind={edgeKind}
+        existingNodes={nodes}
+        existingEdges={edges}
+        existingRules={rules}
+        onSubmit={handleEdgeIntervention}
+      />
     </>
   );
 }
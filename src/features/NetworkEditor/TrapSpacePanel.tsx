@@ -0,0 +1,137 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import type { TrapSpace, TrapSpaceAnalysisResult } from '@/lib/analysis/types';
+
+// Keep wide results readable: cap table columns and listed locked nodes.
+const MAX_TRAP_SPACE_COLUMNS = 8;
+const MAX_LOCKED_BADGES = 12;
+
+type Props = {
+  result: TrapSpaceAnalysisResult;
+};
+
+function NodeValueBadges({ values, labels, limit }: { values: Record<string, 0 | 1>; labels: Record<string, string>; limit?: number }) {
+  const entries = Object.entries(values);
+  const shown = limit === undefined ? entries : entries.slice(0, limit);
+  return (
+    <span className="flex flex-wrap gap-1">
+      {shown.map(([node, value]) => (
+        <Badge
+          key={node}
+          variant="outline"
+          className={`text-[10px] px-1.5 py-0 font-mono ${value === 1 ? 'bg-primary/10' : ''}`}
+        >
+          {labels[node] ?? node}={value}
+        </Badge>
+      ))}
+      {entries.length > shown.length && (
+        <span className="text-[10px] text-muted-foreground">+{entries.length - shown.length}</span>
+      )}
+    </span>
+  );
+}
+
+function TrapSpaceTable({ spaces, result }: { spaces: TrapSpace[]; result: TrapSpaceAnalysisResult }) {
+  const shown = spaces.slice(0, MAX_TRAP_SPACE_COLUMNS);
+  return (
+    <table className="w-full text-[10px]">
+      <thead>
+        <tr className="bg-muted/30">
+          <th className="px-1.5 py-1 font-medium text-left">Node</th>
+          {shown.map(space => (
+            <th key={space.id} className="px-1.5 py-1 font-medium text-center">T{space.id + 1}</th>
+          ))}
+          {spaces.length > shown.length && (
+            <th className="px-1.5 py-1 font-normal text-center text-muted-foreground">+{spaces.length - shown.length}</th>
+          )}
+        </tr>
+      </thead>
+      <tbody>
+        {result.nodeOrder.map((node, ni) => (
+          <tr key={node} className="border-t border-muted/50">
+            <td className="px-1.5 py-0.5 font-medium whitespace-nowrap">{result.nodeLabels[node]}</td>
+            {shown.map(space => {
+              const value = space.pattern[ni];
+              return (
+                <td
+                  key={space.id}
+                  className={`px-1.5 py-0.5 text-center ${value === '1' ? 'bg-primary/10 font-medium' : value === '*' ? 'text-muted-foreground' : ''}`}
+                >
+                  {value}
+                </td>
+              );
+            })}
+            {spaces.length > shown.length && <td />}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/*
+  Trap-space results for a rule-based network.
+  - Stable motifs: self-sustaining node values and the nodes they lock downstream
+  - Minimal trap spaces: node-by-space table ("*" marks a free node)
+*/
+const TrapSpacePanel: React.FC<Props> = ({ result }) => {
+  const { stableMotifs, minimalTrapSpaces, nodeLabels } = result;
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-muted/30">
+        <span className="text-xs font-semibold uppercase tracking-wide">Trap Spaces &amp; Stable Motifs</span>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span>{result.nodeOrder.length} nodes</span>
+          <span>{stableMotifs.length} stable motifs</span>
+          <span>{minimalTrapSpaces.length} minimal trap spaces</span>
+        </div>
+      </div>
+      <div className="p-3 space-y-3">
+        {result.warnings.length > 0 && (
+          <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1.5">
+            {result.warnings.map((w, i) => <span key={i} className="block">• {w}</span>)}
+          </div>
+        )}
+
+        <div className="space-y-1.5">
+          <p className="text-[10px] font-medium text-muted-foreground uppercase tracking-wider">Stable motifs</p>
+          {stableMotifs.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No node subset can lock itself in; the only trap space is the whole state space.</p>
+          ) : (
+            <div className="border rounded divide-y">
+              {stableMotifs.map(motif => {
+                const downstream = Object.fromEntries(
+                  Object.entries(motif.locked).filter(([node]) => !(node in motif.motif))
+                );
+                return (
+                  <div key={motif.id} className="flex flex-wrap items-center gap-2 px-2.5 py-1.5">
+                    <span className="text-xs font-medium shrink-0">Motif #{motif.id + 1}</span>
+                    <NodeValueBadges values={motif.motif} labels={nodeLabels} />
+                    {Object.keys(downstream).length > 0 && (
+                      <>
+                        <span className="text-[10px] text-muted-foreground shrink-0">locks</span>
+                        <NodeValueBadges values={downstream} labels={nodeLabels} limit={MAX_LOCKED_BADGES} />
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-1.5">
+          <p className="text-[10px] font-medium text-muted-foreground uppercase tracking-wider">
+            Minimal trap spaces (each contains at least one attractor)
+          </p>
+          <div className="border rounded overflow-x-auto">
+            <TrapSpaceTable spaces={minimalTrapSpaces} result={result} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrapSpacePanel;
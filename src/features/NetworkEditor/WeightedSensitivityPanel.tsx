@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, Network } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+import { edgeSensitivity, sensitivityParameterLabel } from '@/lib/analysis/weightedSensitivity';
+import type {
+  SensitivityEffects,
+  SensitivityMethod,
+  WeightedSensitivityOptions,
+  WeightedSensitivityResult,
+} from '@/lib/analysis/types';
+
+const METHOD_LABELS: Record<SensitivityMethod, string> = {
+  oat: 'One at a time',
+  morris: 'Morris (elementary effects)',
+};
+
+const EFFECT_LABELS: Record<keyof SensitivityEffects, string> = {
+  basinShift: 'Basin shift',
+  fateShift: 'Fate shift',
+  attractorCount: 'Δ Attractors',
+};
+
+// Overlay scale from unaffected (slate) to most sensitive (red)
+const LOW_COLOR = [203, 213, 225];
+const HIGH_COLOR = [220, 38, 38];
+
+const overlayColor = (fraction: number) =>
+  `rgb(${LOW_COLOR.map((low, i) => Math.round(low + (HIGH_COLOR[i] - low) * fraction)).join(',')})`;
+
+const formatEffect = (value: number) => (value === 0 ? '0' : value.toFixed(3));
+const formatValue = (value: number) => String(Number(value.toFixed(3)));
+
+type Props = {
+  result: WeightedSensitivityResult;
+  /** Colour the network's edges by one effect, keyed "source::target". */
+  onShowOnGraph?: (edgeColors: Record<string, string>, effect: keyof SensitivityEffects) => void;
+};
+
+/*
+  Sensitivity of weighted-network attractors.
+  - One row per edge weight / node bias, sortable by each effect
+  - Edge effects can be drawn as an edge colour overlay on the network graph
+*/
+const WeightedSensitivityPanel: React.FC<Props> = ({ result, onShowOnGraph }) => {
+  const [sortBy, setSortBy] = useState<keyof SensitivityEffects>('basinShift');
+  const morris = result.method === 'morris';
+
+  const sorted = useMemo(
+    () => [...result.entries].sort((a, b) => b.effects[sortBy] - a.effects[sortBy]),
+    [result, sortBy],
+  );
+
+  const handleShowOnGraph = () => {
+    const byEdge = edgeSensitivity(result, sortBy);
+    const max = Math.max(0, ...Object.values(byEdge));
+    onShowOnGraph?.(
+      Object.fromEntries(Object.entries(byEdge).map(([key, value]) => [key, overlayColor(max > 0 ? value / max : 0)])),
+      sortBy,
+    );
+  };
+
+  const header = (effect: keyof SensitivityEffects) => (
+    <th className="px-2 py-1 text-right font-medium">
+      <button
+        type="button"
+        className={`inline-flex items-center gap-0.5 hover:text-foreground ${sortBy === effect ? 'text-foreground' : ''}`}
+        onClick={() => setSortBy(effect)}
+      >
+        {EFFECT_LABELS[effect]}
+        {sortBy === effect && <ArrowDown className="w-3 h-3" />}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-purple-50/50 dark:bg-purple-950/30">
+        <span className="text-xs font-semibold uppercase tracking-wide">Weight Sensitivity</span>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span>{METHOD_LABELS[result.method]}</span>
+          <span>{result.runs.toLocaleString()} runs</span>
+          <span>{result.baselineAttractorCount} attractors at baseline</span>
+          {onShowOnGraph && (
+            <Button size="sm" variant="outline" className="h-7 text-xs gap-1.5" onClick={handleShowOnGraph}>
+              <Network className="w-3.5 h-3.5" />
+              Show on graph
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="p-3 space-y-2">
+        {result.warnings.length > 0 && (
+          <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1.5">
+            {result.warnings.map((w, i) => <span key={i} className="block">• {w}</span>)}
+          </div>
+        )}
+        <div className="border rounded bg-background/50 overflow-auto max-h-[420px]">
+          <table className="w-full text-[11px]">
+            <thead className="bg-muted/30 text-muted-foreground sticky top-0">
+              <tr>
+                <th className="px-2 py-1 text-left font-medium">Parameter</th>
+                <th className="px-2 py-1 text-right font-medium">Value</th>
+                <th className="px-2 py-1 text-right font-medium">Range</th>
+                {header('basinShift')}
+                {header('fateShift')}
+                {header('attractorCount')}
+                {morris && <th className="px-2 py-1 text-right font-medium">σ ({EFFECT_LABELS[sortBy]})</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((entry, i) => (
+                <tr key={i} className="border-t border-muted/50">
+                  <td className="px-2 py-0.5">{sensitivityParameterLabel(entry.parameter, result.nodeLabels)}</td>
+                  <td className="px-2 py-0.5 text-right font-mono">{formatValue(entry.parameter.value)}</td>
+                  <td className="px-2 py-0.5 text-right font-mono text-muted-foreground">
+                    {formatValue(entry.range[0])} – {formatValue(entry.range[1])}
+                  </td>
+                  <td className="px-2 py-0.5 text-right font-mono">{formatEffect(entry.effects.basinShift)}</td>
+                  <td className="px-2 py-0.5 text-right font-mono">{formatEffect(entry.effects.fateShift)}</td>
+                  <td className="px-2 py-0.5 text-right font-mono">{formatEffect(entry.effects.attractorCount)}</td>
+                  {morris && <td className="px-2 py-0.5 text-right font-mono">{formatEffect(entry.spread?.[sortBy] ?? 0)}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-[10px] text-muted-foreground">
+          Basin and fate shifts are the share of initial states that end in a different attractor or fate (0–1);
+          fate shifts need classified attractors.{' '}
+          {morris
+            ? 'Values are mean absolute elementary effects over the full range; a large σ points to non-linear or interacting parameters.'
+            : 'Values average the changes at both ends of each range.'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+type DialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  edgeCount: number;
+  nodeCount: number;
+  isRunning: boolean;
+  onRun: (options: Omit<WeightedSensitivityOptions, 'analysis' | 'fates' | 'onProgress'> & { stateCap: number }) => void;
+};
+
+/** Sensitivity set-up: design, perturbation sizes and the state budget per analysis run. */
+export function WeightedSensitivityDialog({ open, onOpenChange, edgeCount, nodeCount, isRunning, onRun }: DialogProps) {
+  const [method, setMethod] = useState<SensitivityMethod>('oat');
+  const [includeBiases, setIncludeBiases] = useState(true);
+  const [form, setForm] = useState({
+    relativeChange: '50',
+    absoluteChange: '1',
+    trajectories: '10',
+    levels: '4',
+    seed: '',
+    stateCap: String(ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP),
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const parameterCount = edgeCount + (includeBiases ? nodeCount : 0);
+  const trajectories = parseInt(form.trajectories, 10);
+  const runs = 1 + (method === 'morris' ? (trajectories || 0) * (parameterCount + 1) : 2 * parameterCount);
+
+  const handleSubmit = () => {
+    const relativeChange = parseFloat(form.relativeChange) / 100;
+    const absoluteChange = parseFloat(form.absoluteChange);
+    const levels = parseInt(form.levels, 10);
+    const stateCap = parseInt(form.stateCap, 10);
+    const seed = form.seed.trim() === '' ? undefined : parseInt(form.seed, 10);
+    if (!(relativeChange >= 0) || !(absoluteChange >= 0)) {
+      setFormError('Perturbation sizes must be non-negative numbers.');
+      return;
+    }
+    if (!(stateCap > 0)) {
+      setFormError('States per run must be a positive integer.');
+      return;
+    }
+    if (method === 'morris' && (!(trajectories > 0) || !(levels >= 2) || levels % 2 !== 0 || (seed !== undefined && isNaN(seed)))) {
+      setFormError('Trajectories must be a positive integer, levels an even number of at least 2, and the seed an integer.');
+      return;
+    }
+    if (parameterCount === 0) {
+      setFormError('The network has no edge weights or biases to perturb.');
+      return;
+    }
+    if (runs > ANALYSIS_CONFIG.MAX_SENSITIVITY_RUNS) {
+      setFormError(`This design needs ${runs.toLocaleString()} runs; the limit is ${ANALYSIS_CONFIG.MAX_SENSITIVITY_RUNS.toLocaleString()}.`);
+      return;
+    }
+    setFormError(null);
+    onRun({
+      method,
+      relativeChange,
+      absoluteChange,
+      includeBiases,
+      stateCap,
+      ...(method === 'morris' && { trajectories, levels, seed }),
+    });
+  };
+
+  const field = (key: keyof typeof form) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setForm(prev => ({ ...prev, [key]: e.target.value })),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Weight Sensitivity</DialogTitle>
+          <DialogDescription>
+            Rerun the weighted analysis with perturbed edge weights and biases, and rank them by how much they change the attractors.
+          </DialogDescription>
+        </DialogHeader>
+
+        {formError && (
+          <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded">{formError}</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label>Design</Label>
+            <Select value={method} onValueChange={val => setMethod(val as SensitivityMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="oat">{METHOD_LABELS.oat}</SelectItem>
+                <SelectItem value="morris">{METHOD_LABELS.morris}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sensitivityRelative">Weight change (%)</Label>
+            <Input id="sensitivityRelative" type="number" min="0" step="5" {...field('relativeChange')} />
+            <p className="text-xs text-muted-foreground">Each weight varies by this share of its size either way.</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sensitivityAbsolute">Bias change</Label>
+            <Input id="sensitivityAbsolute" type="number" min="0" step="0.1" {...field('absoluteChange')} />
+            <p className="text-xs text-muted-foreground">Also used for edges of weight 0.</p>
+          </div>
+          {method === 'morris' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="sensitivityTrajectories">Trajectories</Label>
+                <Input id="sensitivityTrajectories" type="number" min="1" step="1" {...field('trajectories')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sensitivityLevels">Levels</Label>
+                <Input id="sensitivityLevels" type="number" min="2" step="2" {...field('levels')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sensitivitySeed">Seed</Label>
+                <Input id="sensitivitySeed" type="number" step="1" placeholder="Random" {...field('seed')} />
+              </div>
+            </>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="sensitivityStateCap">States per run</Label>
+            <Input id="sensitivityStateCap" type="number" min="1" step="1" {...field('stateCap')} />
+          </div>
+          <div className="flex items-center gap-2 md:col-span-2">
+            <Checkbox id="sensitivityBiases" checked={includeBiases} onCheckedChange={checked => setIncludeBiases(checked === true)} />
+            <Label htmlFor="sensitivityBiases" className="text-sm font-normal">Also perturb node biases</Label>
+          </div>
+          <p className="text-xs text-muted-foreground md:col-span-2">
+            {parameterCount} parameters, {runs.toLocaleString()} analysis runs (limit {ANALYSIS_CONFIG.MAX_SENSITIVITY_RUNS.toLocaleString()}).
+          </p>
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isRunning}>
+            {isRunning ? 'Running…' : 'Run Sensitivity Analysis'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default WeightedSensitivityPanel;
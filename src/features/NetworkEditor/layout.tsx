@@ -42,7 +42,7 @@ export interface NetworkEditorLayoutProps {
   inferenceSidebar?: React.ReactNode;
   therapeuticsSidebar?: React.ReactNode;
   seqAnalysisSidebar?: React.ReactNode;
-  /** When true, disables tabs appearing after 'therapeutics' in the header */
+  /** When true, disables tabs appearing after 'therapeutics' in the header (except Simulation) */
   disableAfterTherapeutics?: boolean;
   inferenceActions?: {
     run?: () => void;
@@ -178,7 +178,7 @@ export default function NetworkEditorLayout({
     if (!disableAfterTherapeutics) return enabledTabs;
     const idx = enabledTabs.findIndex(t => t.id === 'therapeutics');
     if (idx < 0) return enabledTabs;
-    return enabledTabs.map((t, i) => (i > idx ? { ...t, disabled: true } : t));
+    return enabledTabs.map((t, i) => (i > idx && t.id !== 'simulation' ? { ...t, disabled: true } : t));
   }, [disableAfterTherapeutics, enabledTabs]);
 
   return (
@@ -734,6 +734,11 @@ function SimulationSidebar() {
         </div>
       </div>
       <Separator className="bg-border/50" />
+
+      <div className="space-y-1.5 text-xs text-muted-foreground px-1">
+        <p>Run noisy trajectories of the selected network and plot each node&apos;s activation probability over time.</p>
+        <p>Fix nodes on or off to set initial conditions; export the time course as CSV.</p>
+      </div>
     </div>
   );
 }
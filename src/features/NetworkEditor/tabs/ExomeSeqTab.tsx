@@ -1,7 +1,7 @@
 "use client";
 
-import React, { useCallback, useMemo, useRef, useState } from "react";
-//import { cn } from "@/lib/utils";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
 import { downloadTextAsFile } from "@/lib/download";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/components/ui/toast";
 import {
   Upload,
   FileUp,
@@ -17,18 +18,42 @@ import {
   AlertCircle,
   Play,
   Download,
+  CheckCircle2,
+  Loader2,
+  BarChart3,
+  Dna,
 } from "lucide-react";
+import {
+  submitExomeSeqAnalysis,
+  checkExomeSeqStatus,
+  getExomeSeqResults,
+  validateExomeSeqFiles,
+  type ExomeSeqJobStatus,
+  type ExomeSeqResults,
+  type NormalizedVariant,
+  ExomeSeqApiError,
+} from "@/lib/exomeSeqApi";
+import { formatFileSize } from "@/lib/rnaseqApi";
 import type { ProjectNetworkRecord } from '@/hooks/useProjectNetworks';
 import type { NetworkNode } from "@/types/network";
 
 interface ExomeSeqTabProps {
+  /** Network nodes to filter variants by (only genes present in network are shown) */
   networkNodes?: NetworkNode[];
+  /** Optional list of networks in the current project */
   networks?: ProjectNetworkRecord[];
+  /** Callback to select a network in the project context */
   onNetworkSelect?: (id: string) => void;
+  /** Current selected network id from project context */
   selectedNetworkId?: string | null;
+  /** Optional project ID for context */
   projectId?: string | null;
+  /** Optional network ID for context (legacy) */
   networkId?: string | null;
+  /** Optional network name for display */
   networkName?: string | null;
+  /** Opens network personalisation with the network variants of the completed run */
+  onPersonalizeNetwork?: (variants: NormalizedVariant[], sampleName: string) => void;
 }
 
 interface FileInputState {
@@ -36,21 +61,45 @@ interface FileInputState {
   error: string | null;
 }
 
+type AnalysisState =
+  | 'idle'
+  | 'uploading'
+  | 'running'
+  | 'completed'
+  | 'failed';
+
+const POLL_INTERVAL = 30000; // 30 seconds
+
+const formatVaf = (vaf: number | null) => (vaf !== null ? `${(vaf * 100).toFixed(1)}%` : '-');
+
 export function ExomeSeqTab({
   networkNodes = [],
   networks = [],
   onNetworkSelect: _onNetworkSelect,
-  selectedNetworkId: _selectedNetworkId,
+  selectedNetworkId: propSelectedNetworkId,
   projectId: _projectId,
   networkId: _networkId,
   networkName,
+  onPersonalizeNetwork,
 }: ExomeSeqTabProps) {
-  void _onNetworkSelect;
-  void _selectedNetworkId;
+  // projectId and onNetworkSelect reserved for future use (network selection lives in the sidebar)
   void _projectId;
-  void _networkId;
-  void networkNodes;
-  void networks;
+  void _onNetworkSelect;
+  const { showToast } = useToast();
+
+  const selectedNetworkId = propSelectedNetworkId ?? _networkId ?? null;
+
+  // Filter by the selected network's nodes when available, else by the provided `networkNodes`
+  const effectiveNetworkNodes = useMemo<NetworkNode[]>(() => {
+    const found = selectedNetworkId ? networks.find(n => n.id === selectedNetworkId) : undefined;
+    if (found && found.data && Array.isArray(found.data.nodes)) return found.data.nodes;
+    return networkNodes || [];
+  }, [selectedNetworkId, networks, networkNodes]);
+
+  const localNetworkName = useMemo(() => {
+    if (selectedNetworkId) return networks.find(n => n.id === selectedNetworkId)?.name ?? networkName ?? null;
+    return networkName ?? null;
+  }, [selectedNetworkId, networks, networkName]);
 
   // Form state
   const [tumorFastq1, setTumorFastq1] = useState<FileInputState>({ file: null, error: null });
@@ -58,17 +107,41 @@ export function ExomeSeqTab({
   const [reference, setReference] = useState<FileInputState>({ file: null, error: null });
   const [targetsBed, setTargetsBed] = useState<FileInputState>({ file: null, error: null });
 
-  const [analysisState, setAnalysisState] = useState<'idle'|'uploading'|'running'|'failed'>('idle');
+  // Analysis state
+  const [analysisState, setAnalysisState] = useState<AnalysisState>('idle');
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [jobStatus, setJobStatus] = useState<ExomeSeqJobStatus | null>(null);
+  const [results, setResults] = useState<ExomeSeqResults | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  const formatFileSize = (bytes: number) => {
-    if (!bytes) return '0 B';
-    const sizes = ['B','KB','MB','GB','TB'];
-    const i = Math.floor(Math.log(bytes)/Math.log(1024));
-    return `${(bytes/Math.pow(1024,i)).toFixed(1)} ${sizes[i]}`;
-  };
+  // Gene identifiers of the network nodes, matched case-insensitively like the RNA-seq results
+  const networkGeneIds = useMemo(() => {
+    const ids = new Set<string>();
+    effectiveNetworkNodes.forEach(node => {
+      if (typeof node.id === 'string') ids.add(node.id.toLowerCase());
+      if (node.label && typeof node.label === 'string') ids.add(node.label.toLowerCase());
+    });
+    return ids;
+  }, [effectiveNetworkNodes]);
+
+  // Filter variants to genes present in the network
+  const filteredVariants = useMemo<NormalizedVariant[]>(() => {
+    if (!results?.variants) return [];
+    // If no network nodes provided, return all variants
+    if (networkGeneIds.size === 0) return results.variants;
+    return results.variants.filter(variant => variant.gene && networkGeneIds.has(variant.gene.toLowerCase()));
+  }, [results, networkGeneIds]);
+
+  // Cleanup polling on unmount
+  useEffect(() => {
+    return () => {
+      if (pollIntervalRef.current) {
+        clearInterval(pollIntervalRef.current);
+      }
+    };
+  }, []);
 
   const handleFileChange = useCallback((
     setter: React.Dispatch<React.SetStateAction<FileInputState>>, acceptPattern: RegExp, errorMessage: string
@@ -143,25 +216,103 @@ export function ExomeSeqTab({
     !reference.error &&
     !targetsBed.error;
 
+  // Poll for job status
+  const pollStatus = useCallback(async (id: string) => {
+    try {
+      const status = await checkExomeSeqStatus(id);
+      setJobStatus(status);
+
+      if (status.state === 'completed') {
+        if (pollIntervalRef.current) {
+          clearInterval(pollIntervalRef.current);
+          pollIntervalRef.current = null;
+        }
+
+        const jobResults = await getExomeSeqResults(id);
+        setResults(jobResults);
+        setAnalysisState('completed');
+        showToast({
+          title: "Analysis Complete",
+          description: `Called ${jobResults.variant_count} variants.`,
+        });
+      } else if (status.state === 'failed') {
+        if (pollIntervalRef.current) {
+          clearInterval(pollIntervalRef.current);
+          pollIntervalRef.current = null;
+        }
+        setError(status.error_message || 'Analysis failed');
+        setAnalysisState('failed');
+        showToast({
+          title: "Analysis Failed",
+          description: status.error_message || "Unknown error occurred",
+          variant: "destructive",
+        });
+      }
+    } catch (err) {
+      console.error('Error polling status:', err);
+      // Don't stop polling on transient errors
+    }
+  }, [showToast]);
+
   const handleSubmit = useCallback(async () => {
-    if (!isFormValid) {
-      setError('Please provide required tumor FASTQ pairs, reference genome, and exome target BED.');
+    const validation = validateExomeSeqFiles({
+      tumorFastq1: tumorFastq1.file,
+      tumorFastq2: tumorFastq2.file,
+      reference: reference.file,
+      targets: targetsBed.file,
+    });
+    if (!validation.valid) {
+      setError(validation.errors.join('. '));
       return;
     }
     setError(null);
     setAnalysisState('uploading');
     setUploadProgress(0);
+
+    // Simulate upload progress (since FormData doesn't provide progress)
     const progressInterval = setInterval(() => {
       setUploadProgress(prev => Math.min(prev + 10, 90));
     }, 400);
-    // Placeholder: backend submission not implemented yet
-    setTimeout(() => {
+
+    try {
+      const formData = new FormData();
+      formData.append('tumor_fastq_1', tumorFastq1.file!);
+      formData.append('tumor_fastq_2', tumorFastq2.file!);
+      formData.append('reference', reference.file!);
+      formData.append('targets', targetsBed.file!);
+
+      const response = await submitExomeSeqAnalysis(formData);
       clearInterval(progressInterval);
       setUploadProgress(100);
+
+      setJobId(response.job_id);
+      setAnalysisState('running');
+      setJobStatus({
+        job_id: response.job_id,
+        state: 'pending',
+        progress_percent: 0,
+        current_stage: 'Initializing...',
+      });
+
+      showToast({
+        title: "Analysis Started",
+        description: `Job ${response.job_id} submitted successfully. Polling for results...`,
+      });
+
+      pollIntervalRef.current = setInterval(() => pollStatus(response.job_id), POLL_INTERVAL);
+      pollStatus(response.job_id);
+    } catch (err) {
+      clearInterval(progressInterval);
+      console.error('Error submitting analysis:', err);
+      setError(err instanceof ExomeSeqApiError ? err.message : 'Failed to submit analysis');
       setAnalysisState('failed');
-      setError('Exome-seq pipeline integration is coming soon.');
-    }, 2000);
-  }, [isFormValid]);
+      showToast({
+        title: "Submission Failed",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  }, [tumorFastq1.file, tumorFastq2.file, reference.file, targetsBed.file, pollStatus, showToast]);
 
   const handleReset = useCallback(() => {
     if (pollIntervalRef.current) {
@@ -173,10 +324,35 @@ export function ExomeSeqTab({
     setReference({ file: null, error: null });
     setTargetsBed({ file: null, error: null });
     setAnalysisState('idle');
+    setJobId(null);
+    setJobStatus(null);
+    setResults(null);
     setError(null);
     setUploadProgress(0);
   }, []);
 
+  // Download network variants as CSV
+  const handleDownloadResults = useCallback(() => {
+    if (!filteredVariants.length) return;
+
+    const headers = ['Gene', 'Chromosome', 'Position', 'Ref', 'Alt', 'HGVSc', 'HGVSp', 'VAF', 'Depth', 'Consequence'];
+    const rows = filteredVariants.map(v => [
+      v.gene,
+      v.chromosome,
+      v.position !== null ? String(v.position) : '',
+      v.ref,
+      v.alt,
+      v.hgvs_c,
+      v.hgvs_p,
+      v.vaf !== null ? v.vaf.toFixed(4) : 'N/A',
+      v.depth !== null ? String(v.depth) : 'N/A',
+      v.consequence,
+    ]);
+
+    const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n') + '\n';
+    downloadTextAsFile(`exomeseq_variants_${results?.sample_name || 'sample'}_filtered.csv`, csv);
+  }, [filteredVariants, results]);
+
   const isRunning = analysisState === 'uploading' || analysisState === 'running';
 
   return (
@@ -189,9 +365,9 @@ export function ExomeSeqTab({
           </div>
           <div>
             <h2 className="text-lg font-semibold">Exome-seq Analysis</h2>
-            {networkName && (
+            {localNetworkName && (
               <p className="text-xs text-muted-foreground">
-                Optional filtering by network genes: {networkName}
+                Filtering variants for: {localNetworkName}
               </p>
             )}
           </div>
@@ -407,26 +583,195 @@ export function ExomeSeqTab({
           </Card>
         )}
 
+        {/* Running Status */}
+        {analysisState === 'running' && jobStatus && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Analysis Running
+              </CardTitle>
+              <CardDescription>
+                Job ID: {jobId}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>{jobStatus.current_stage || 'Processing...'}</span>
+                  <span>{jobStatus.progress_percent}%</span>
+                </div>
+                <div className="w-full bg-muted rounded-full h-2">
+                  <div className="bg-violet-500 h-2 rounded-full transition-all duration-300" style={{ width: `${jobStatus.progress_percent}%` }} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div className="p-3 rounded-md bg-muted/50">
+                  <p className="text-muted-foreground text-xs">Status</p>
+                  <p className="font-medium capitalize">{jobStatus.state}</p>
+                </div>
+                <div className="p-3 rounded-md bg-muted/50">
+                  <p className="text-muted-foreground text-xs">Polling</p>
+                  <p className="font-medium">Every 30s</p>
+                </div>
+              </div>
+
+              <div className="p-3 rounded-md bg-amber-50 border border-amber-200">
+                <p className="text-xs text-amber-700">
+                  <AlertCircle className="w-3 h-3 inline mr-1" />
+                  Alignment and variant calling typically take several hours. You can leave this page and return later.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Failed */}
         {analysisState === 'failed' && (
           <Card className="border-red-200">
             <CardHeader>
               <CardTitle className="text-base flex items-center gap-2 text-red-600">
                 <XCircle className="w-4 h-4" />
-                Analysis Not Available Yet
+                Analysis Failed
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="p-3 rounded-md bg-red-50 border border-red-200">
-                <p className="text-sm text-red-600">{error || 'Integration pending'}</p>
+                <p className="text-sm text-red-600">{error || 'Unknown error occurred'}</p>
               </div>
               <Button onClick={handleReset} variant="outline">
                 <RefreshCw className="w-4 h-4 mr-2" />
-                Reset Form
+                Try Again
               </Button>
             </CardContent>
           </Card>
         )}
+
+        {/* Results */}
+        {analysisState === 'completed' && results && (
+          <>
+            {/* Summary Card */}
+            <Card className="border-green-200">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2 text-green-600">
+                  <CheckCircle2 className="w-4 h-4" />
+                  Analysis Complete
+                </CardTitle>
+                <CardDescription>
+                  Sample: {results.sample_name}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="p-3 rounded-md bg-muted/50 text-center">
+                    <p className="text-2xl font-bold">{results.variant_count.toLocaleString()}</p>
+                    <p className="text-xs text-muted-foreground">Total Variants</p>
+                  </div>
+                  <div className="p-3 rounded-md bg-muted/50 text-center">
+                    <p className="text-2xl font-bold">{filteredVariants.length.toLocaleString()}</p>
+                    <p className="text-xs text-muted-foreground">In Network</p>
+                  </div>
+                  <div className="p-3 rounded-md bg-muted/50 text-center">
+                    <p className="text-2xl font-bold">
+                      {results.mean_target_coverage !== null ? `${results.mean_target_coverage.toFixed(0)}×` : 'N/A'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Mean Target Coverage</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Results Table */}
+            <Card>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <BarChart3 className="w-4 h-4" />
+                    Variants (Network Genes Only)
+                  </CardTitle>
+                  <div className="flex items-center gap-2">
+                    {onPersonalizeNetwork && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onPersonalizeNetwork(filteredVariants, results.sample_name)}
+                        disabled={filteredVariants.length === 0}
+                        className="gap-2"
+                      >
+                        <Dna className="w-4 h-4" />
+                        Personalise Network
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleDownloadResults}
+                      disabled={filteredVariants.length === 0}
+                      className="gap-2"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download CSV
+                    </Button>
+                  </div>
+                </div>
+                <CardDescription>
+                  Showing {filteredVariants.length} of {results.variants.length} variants in genes that match nodes in your network
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {filteredVariants.length === 0 ? (
+                  <div className="p-6 text-center text-muted-foreground">
+                    <AlertCircle className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                    <p className="font-medium">No matching variants found</p>
+                    <p className="text-xs mt-1">
+                      None of the {results.variants.length} called variants fall in genes that match nodes in your network.
+                      {effectiveNetworkNodes.length === 0 && " (No network loaded)"}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="overflow-auto max-h-[400px] border rounded-md">
+                    <table className="w-full text-sm">
+                      <thead className="sticky top-0 bg-background border-b">
+                        <tr className="bg-muted/50">
+                          <th className="text-left p-2 font-semibold">Gene</th>
+                          <th className="text-left p-2 font-semibold">HGVSc</th>
+                          <th className="text-left p-2 font-semibold">HGVSp</th>
+                          <th className="text-left p-2 font-semibold">Consequence</th>
+                          <th className="text-right p-2 font-semibold">VAF</th>
+                          <th className="text-right p-2 font-semibold">Depth</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {filteredVariants.map((variant, idx) => (
+                          <tr key={`${variant.chromosome}:${variant.position}:${variant.alt}:${idx}`} className={cn("border-t", idx % 2 === 0 && "bg-muted/20")}>
+                            <td className="p-2 font-medium">{variant.gene || '-'}</td>
+                            <td className="p-2 font-mono text-xs">{variant.hgvs_c || '-'}</td>
+                            <td className="p-2 font-mono text-xs">{variant.hgvs_p || '-'}</td>
+                            <td className="p-2 text-xs">{variant.consequence || '-'}</td>
+                            <td className="p-2 text-right font-mono">{formatVaf(variant.vaf)}</td>
+                            <td className="p-2 text-right font-mono">{variant.depth !== null ? variant.depth.toLocaleString() : '-'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {/* Network context warning */}
+        {effectiveNetworkNodes.length === 0 && analysisState === 'idle' && (
+          <div className="p-4 rounded-md bg-amber-50 border border-amber-200">
+            <p className="text-sm text-amber-700">
+              <AlertCircle className="w-4 h-4 inline mr-2" />
+              <strong>No network selected.</strong> Results will show all called variants.
+              Select a network in the Network tab to filter variants by genes present in your network.
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
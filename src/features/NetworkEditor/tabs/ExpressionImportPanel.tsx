@@ -0,0 +1,367 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/toast";
+import { AlertCircle, Database, Download, FileUp, Loader2, Save, Trash2, User } from "lucide-react";
+import {
+  parseExpressionFile,
+  parseGeneMapping,
+  type ExpressionFileFormat,
+  type ExpressionValueType,
+  type GeneMapping,
+} from "@/lib/expressionImport";
+import { buildCountMatrix, countMatrixToCsv } from "@/lib/rnaseqSamples";
+import type { RNASeqResults } from "@/lib/rnaseqApi";
+import { nodeGeneIndex } from "@/lib/patientProfile";
+import { downloadTextAsFile } from "@/lib/download";
+import { useExpressionDatasets, type ExpressionDatasetRecord } from "@/hooks/useExpressionDatasets";
+import type { NetworkNode } from "@/types/network";
+
+interface ExpressionImportPanelProps {
+  projectId?: string | null;
+  /** Nodes of the selected network; previews count the genes that match them. */
+  networkNodes?: NetworkNode[];
+  /** Opens network personalisation with one imported sample */
+  onPersonalizeNetwork?: (results: RNASeqResults) => void;
+}
+
+const FORMAT_LABELS: Record<ExpressionFileFormat, string> = {
+  featurecounts: 'featureCounts',
+  salmon: 'Salmon quant.sf',
+  'gene-table': 'Gene table',
+  matrix: 'Gene × sample matrix',
+};
+
+interface ImportPreview {
+  format: ExpressionFileFormat;
+  valueType: ExpressionValueType;
+  samples: RNASeqResults[];
+  warnings: string[];
+}
+
+/** Sample names made unique across files (several quant.sf files are all "quant"). */
+function uniqueNames(samples: RNASeqResults[]): RNASeqResults[] {
+  const seen = new Map<string, number>();
+  return samples.map(sample => {
+    const count = (seen.get(sample.sample_name) ?? 0) + 1;
+    seen.set(sample.sample_name, count);
+    return count === 1 ? sample : { ...sample, sample_name: `${sample.sample_name}_${count}` };
+  });
+}
+
+export function ExpressionImportPanel({ projectId, networkNodes = [], onPersonalizeNetwork }: ExpressionImportPanelProps) {
+  const { showToast } = useToast();
+  const { datasets, isLoading, error: loadError, save, remove } = useExpressionDatasets(projectId);
+
+  const [files, setFiles] = useState<File[]>([]);
+  const [mappingFile, setMappingFile] = useState<File | null>(null);
+  const [valueType, setValueType] = useState<ExpressionValueType>('counts');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [datasetName, setDatasetName] = useState('');
+  const [isParsing, setIsParsing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const networkIndex = useMemo(() => nodeGeneIndex({ nodes: networkNodes, edges: [] }), [networkNodes]);
+  const networkMatches = (results: RNASeqResults) =>
+    results.genes.filter(gene => networkIndex.has(gene.gene_symbol.toLowerCase()) || networkIndex.has(gene.gene_id.toLowerCase())).length;
+
+  const handlePreview = async () => {
+    setIsParsing(true);
+    setError(null);
+    try {
+      let mapping: GeneMapping | undefined;
+      if (mappingFile) {
+        try {
+          mapping = parseGeneMapping(await mappingFile.text());
+        } catch (err) {
+          throw new Error(`${mappingFile.name}: ${err instanceof Error ? err.message : 'could not be read.'}`);
+        }
+      }
+      const parsed = await Promise.all(files.map(async file => {
+        try {
+          return parseExpressionFile(await file.text(), file.name, { valueType, mapping });
+        } catch (err) {
+          throw new Error(`${file.name}: ${err instanceof Error ? err.message : 'could not be read.'}`);
+        }
+      }));
+      const formats = Array.from(new Set(parsed.map(p => p.format)));
+      setPreview({
+        format: formats[0],
+        // Counts are only usable downstream when every file has them
+        valueType: parsed.every(p => p.valueType === 'counts') ? 'counts' : 'tpm',
+        samples: uniqueNames(parsed.flatMap(p => p.samples)),
+        warnings: [
+          ...(formats.length > 1 ? [`Files of different layouts (${formats.map(f => FORMAT_LABELS[f]).join(', ')}) are combined.`] : []),
+          ...Array.from(new Set(parsed.flatMap(p => p.warnings))),
+        ],
+      });
+      setDatasetName(files.length === 1 ? files[0].name.replace(/\.[^.]+$/, '') : `${files.length} expression files`);
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Could not read the files.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const renameSample = (index: number, name: string) => {
+    setPreview(prev => prev && { ...prev, samples: prev.samples.map((s, i) => (i === index ? { ...s, sample_name: name } : s)) });
+  };
+
+  const handleSave = async () => {
+    if (!preview) return;
+    const names = preview.samples.map(s => s.sample_name.trim());
+    if (names.some(name => !name) || new Set(names).size !== names.length) {
+      setError('Give every sample a distinct name.');
+      return;
+    }
+    if (!datasetName.trim()) {
+      setError('Name the dataset.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const record = await save({
+        name: datasetName.trim(),
+        source: files.map(file => file.name).join(', '),
+        format: preview.format,
+        value_type: preview.valueType,
+        samples: preview.samples.map((s, i) => ({ ...s, sample_name: names[i] })),
+      });
+      showToast({ title: 'Dataset Imported', description: `${record.name}: ${record.samples.length} sample${record.samples.length !== 1 ? 's' : ''} saved to the project.` });
+      setPreview(null);
+      setFiles([]);
+    } catch (err) {
+      setError(`Could not save the dataset: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (dataset: ExpressionDatasetRecord) => {
+    try {
+      await remove(dataset.id);
+    } catch (err) {
+      setError(`Could not delete ${dataset.name}: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  const handleDownload = (dataset: ExpressionDatasetRecord) => {
+    const samples = dataset.samples.map(results => ({
+      name: results.sample_name,
+      // TPM datasets are written as a TPM matrix in the count-matrix layout
+      results: dataset.value_type === 'tpm'
+        ? { ...results, genes: results.genes.map(gene => ({ ...gene, counts: gene.tpm ?? 0 })) }
+        : results,
+    }));
+    downloadTextAsFile(`${dataset.name}_${dataset.value_type}.csv`, countMatrixToCsv(buildCountMatrix(samples)));
+  };
+
+  if (!projectId) {
+    return (
+      <div className="p-6 text-center text-muted-foreground text-sm">Open a project to import expression data into it.</div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <FileUp className="w-4 h-4" />
+            Import Expression Tables
+          </CardTitle>
+          <CardDescription>
+            Import quantified expression instead of running the pipeline: featureCounts output, Salmon quant.sf files,
+            single-sample gene tables or gene × sample matrices (CSV/TSV). Genes are matched to network nodes by symbol
+            or Ensembl id; add a mapping table (gene id, gene name and optionally transcript id, e.g. from BioMart) to fill
+            in symbols or fold transcripts into genes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="expression-import-files" className="text-sm font-medium">Expression files</Label>
+              <input
+                id="expression-import-files"
+                type="file"
+                multiple
+                accept=".csv,.tsv,.txt,.sf,.tabular"
+                onChange={(e) => { setFiles(Array.from(e.target.files ?? [])); setPreview(null); }}
+                className="block text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded file:border-0 file:text-xs file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90 cursor-pointer"
+              />
+              <p className="text-xs text-muted-foreground">{files.length} file{files.length !== 1 ? 's' : ''} selected</p>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="expression-import-mapping" className="text-sm font-medium">
+                Gene mapping <span className="text-muted-foreground">(optional)</span>
+              </Label>
+              <input
+                id="expression-import-mapping"
+                type="file"
+                accept=".csv,.tsv,.txt"
+                onChange={(e) => { setMappingFile(e.target.files?.[0] ?? null); setPreview(null); }}
+                className="block text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded file:border-0 file:text-xs file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90 cursor-pointer"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-sm font-medium">Matrix values</Label>
+              <Select value={valueType} onValueChange={(val) => { setValueType(val as ExpressionValueType); setPreview(null); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="counts">Raw counts</SelectItem>
+                  <SelectItem value="tpm">TPM</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Only for plain matrices; other layouts name their columns.</p>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handlePreview} disabled={files.length === 0 || isParsing} className="gap-2">
+              {isParsing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+              Read files
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="rounded-lg border overflow-hidden">
+              <div className="px-4 py-2 bg-muted/50 border-b text-sm flex items-center gap-2">
+                <span className="font-semibold">{FORMAT_LABELS[preview.format]}</span>
+                <Badge variant="secondary">{preview.valueType === 'counts' ? 'Raw counts' : 'TPM'}</Badge>
+                <span className="text-muted-foreground">{preview.samples.length} sample{preview.samples.length !== 1 ? 's' : ''}</span>
+              </div>
+              <div className="p-4 space-y-3">
+                {preview.warnings.map(warning => (
+                  <p key={warning} className="text-xs text-amber-700">{warning}</p>
+                ))}
+                <div className="overflow-auto max-h-[300px] border rounded-md">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-background border-b">
+                      <tr className="bg-muted/50">
+                        <th className="text-left p-2 font-semibold">Sample</th>
+                        <th className="text-right p-2 font-semibold">Genes</th>
+                        <th className="text-right p-2 font-semibold">With Symbol</th>
+                        <th className="text-right p-2 font-semibold">In Network</th>
+                        <th className="text-right p-2 font-semibold">Total Counts</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.samples.map((sample, idx) => (
+                        <tr key={idx} className={cn("border-t", idx % 2 === 0 && "bg-muted/20")}>
+                          <td className="p-1">
+                            <Input value={sample.sample_name} onChange={(e) => renameSample(idx, e.target.value)} className="h-8 text-xs" />
+                          </td>
+                          <td className="p-2 text-right font-mono">{sample.gene_count.toLocaleString()}</td>
+                          <td className="p-2 text-right font-mono">{sample.genes.filter(g => g.gene_symbol).length.toLocaleString()}</td>
+                          <td className="p-2 text-right font-mono">{networkNodes.length ? networkMatches(sample) : '-'}</td>
+                          <td className="p-2 text-right font-mono">{preview.valueType === 'counts' ? Math.round(sample.total_counts).toLocaleString() : '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="flex items-end gap-3">
+                  <div className="flex-1 space-y-1.5">
+                    <Label htmlFor="expression-dataset-name" className="text-xs font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-300">
+                      Dataset Name
+                    </Label>
+                    <Input id="expression-dataset-name" value={datasetName} onChange={(e) => setDatasetName(e.target.value)} />
+                  </div>
+                  <Button onClick={handleSave} disabled={isSaving} className="gap-2">
+                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    Save to project
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {(error || loadError) && (
+        <div className="p-3 rounded-md bg-red-50 border border-red-200">
+          <p className="text-sm text-red-600 flex items-start gap-2">
+            <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+            {error || `Could not load the imported datasets: ${loadError}`}
+          </p>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Database className="w-4 h-4" />
+            Imported Datasets
+          </CardTitle>
+          <CardDescription>
+            Imported samples can personalise networks like pipeline results; raw-count samples can also be added to the
+            project sample sheet for differential expression.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading datasets...
+            </div>
+          ) : datasets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No datasets imported yet.</p>
+          ) : (
+            datasets.map(dataset => (
+              <div key={dataset.id} className="border rounded-md">
+                <div className="flex items-center justify-between gap-2 px-3 py-2 bg-muted/30 border-b">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm truncate">{dataset.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {FORMAT_LABELS[dataset.format] ?? dataset.format} · {dataset.value_type === 'counts' ? 'raw counts' : 'TPM'} · {dataset.source}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => handleDownload(dataset)} className="gap-1">
+                      <Download className="w-4 h-4" />
+                      CSV
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(dataset)} aria-label={`Delete ${dataset.name}`}>
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="divide-y">
+                  {dataset.samples.map(sample => (
+                    <div key={sample.sample_name} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                      <span>
+                        {sample.sample_name}
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {sample.gene_count.toLocaleString()} genes{networkNodes.length ? `, ${networkMatches(sample)} in network` : ''}
+                        </span>
+                      </span>
+                      {onPersonalizeNetwork && (
+                        <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={() => onPersonalizeNetwork(sample)}>
+                          <User className="w-3.5 h-3.5" />
+                          Personalize Network
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ExpressionImportPanel;
@@ -0,0 +1,573 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/toast";
+import {
+  AlertCircle,
+  BarChart3,
+  Database,
+  Download,
+  Loader2,
+  Palette,
+  Play,
+  Plus,
+  RefreshCw,
+  Save,
+  Upload,
+  X,
+} from "lucide-react";
+import { getRNASeqResults, type JobState } from "@/lib/rnaseqApi";
+import {
+  buildCountMatrix,
+  countMatrixToCsv,
+  parseSampleSheet,
+  refreshRNASeqSamples,
+  sampleSheetToCsv,
+  submitRNASeqBatch,
+  type RNASeqSample,
+} from "@/lib/rnaseqSamples";
+import {
+  differentialExpression,
+  differentialExpressionToCsv,
+  foldChangeNodeColors,
+} from "@/lib/differentialExpression";
+import { nodeGeneIndex } from "@/lib/patientProfile";
+import { downloadTextAsFile } from "@/lib/download";
+import { useProjectColumn } from "@/hooks/useProjectData";
+import { useExpressionDatasets } from "@/hooks/useExpressionDatasets";
+import type { CountMatrix, DifferentialExpressionResult } from "@/lib/analysis/types";
+import type { NetworkNode } from "@/types/network";
+
+interface RNASeqSamplesPanelProps {
+  projectId?: string | null;
+  /** Nodes of the selected network; differential expression results are matched against them. */
+  networkNodes?: NetworkNode[];
+  /** Colours the selected network's nodes by log2 fold change, keyed by node id. */
+  onColorNetwork?: (nodeColors: Record<string, string>, label: string) => void;
+}
+
+const POLL_INTERVAL = 30000; // 30 seconds
+const SIGNIFICANCE = 0.05;
+
+const STATE_STYLES: Record<JobState, string> = {
+  pending: 'bg-slate-100 text-slate-700',
+  running: 'bg-sky-100 text-sky-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const emptySample = (index: number): RNASeqSample => ({ name: `sample_${index}`, condition: '', fastq1: '', fastq2: '' });
+
+export function RNASeqSamplesPanel({ projectId, networkNodes = [], onColorNetwork }: RNASeqSamplesPanelProps) {
+  const { showToast } = useToast();
+  const { value: savedSamples, isLoading, error: loadError, save } = useProjectColumn(projectId, 'rnaseq_samples');
+  const { datasets } = useExpressionDatasets(projectId);
+
+  // Sample sheet being edited; saved with the Save button and after every submission or status change
+  const [sheet, setSheet] = useState<RNASeqSample[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [fastqFiles, setFastqFiles] = useState<File[]>([]);
+  const [reference, setReference] = useState<File | null>(null);
+  const [annotation, setAnnotation] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [matrix, setMatrix] = useState<CountMatrix | null>(null);
+  const [isLoadingCounts, setIsLoadingCounts] = useState(false);
+  const [referenceCondition, setReferenceCondition] = useState('');
+  const [treatmentCondition, setTreatmentCondition] = useState('');
+  const [deResult, setDeResult] = useState<DifferentialExpressionResult | null>(null);
+  const [networkGenesOnly, setNetworkGenesOnly] = useState(true);
+
+  useEffect(() => {
+    setSheet(savedSamples);
+    setIsDirty(false);
+  }, [savedSamples]);
+
+  const persist = useCallback(async (next: RNASeqSample[]) => {
+    setSheet(next);
+    try {
+      await save(next);
+      setIsDirty(false);
+    } catch (err) {
+      setIsDirty(true);
+      setError(`Could not save the sample sheet: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  }, [save]);
+
+  const updateSample = (index: number, patch: Partial<RNASeqSample>) => {
+    setSheet(prev => prev.map((sample, i) => (i === index ? { ...sample, ...patch } : sample)));
+    setIsDirty(true);
+  };
+
+  const handleSheetUpload = async (file: File | null) => {
+    if (!file) return;
+    try {
+      const parsed = parseSampleSheet(await file.text());
+      // Samples already submitted keep their jobs, imported samples their dataset
+      const previous = new Map(sheet.map(sample => [sample.name, sample]));
+      setSheet(parsed.map(sample => {
+        const { job_id, state, error: sampleError, dataset_id } = previous.get(sample.name) ?? {};
+        if (dataset_id) return { ...sample, dataset_id };
+        return job_id ? { ...sample, job_id, state, error: sampleError } : sample;
+      }));
+      setIsDirty(true);
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : 'could not be read.'}`);
+    }
+  };
+
+  const hasActiveJobs = sheet.some(sample => sample.state === 'pending' || sample.state === 'running');
+
+  const handleRefresh = useCallback(async () => {
+    const next = await refreshRNASeqSamples(sheet);
+    if (next.some((sample, i) => sample !== sheet[i])) await persist(next);
+  }, [sheet, persist]);
+
+  useEffect(() => {
+    if (!hasActiveJobs || isSubmitting) return;
+    const interval = setInterval(handleRefresh, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs, isSubmitting, handleRefresh]);
+
+  const handleSubmit = async () => {
+    const missingCondition = sheet.filter(sample => !sample.dataset_id && !sample.condition.trim());
+    if (missingCondition.length > 0) {
+      setError(`Give every sample a condition (missing for ${missingCondition.map(s => s.name).join(', ')}).`);
+      return;
+    }
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const next = await submitRNASeqBatch(sheet, fastqFiles, { reference, annotation }, setSheet);
+      await persist(next);
+      const failed = next.filter(sample => sample.error && !sample.job_id).length;
+      showToast({
+        title: 'Samples Submitted',
+        description: failed > 0
+          ? `${failed} sample${failed !== 1 ? 's' : ''} could not be submitted; see the sample sheet.`
+          : 'Every sample has a running job. Polling for results...',
+        variant: failed > 0 ? 'destructive' : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const completedSamples = sheet.filter(sample => sample.dataset_id || (sample.state === 'completed' && sample.job_id));
+  const unsubmittedCount = sheet.filter(sample => !sample.dataset_id && (!sample.job_id || sample.state === 'failed')).length;
+
+  // Raw-count samples of imported datasets whose names are not in the sheet yet
+  const importableSamples = useMemo(() => {
+    const names = new Set(sheet.map(sample => sample.name));
+    const importable: RNASeqSample[] = [];
+    for (const dataset of datasets.filter(d => d.value_type === 'counts')) {
+      for (const { sample_name: name } of dataset.samples) {
+        if (names.has(name)) continue;
+        names.add(name);
+        importable.push({ name, condition: '', fastq1: '', fastq2: '', dataset_id: dataset.id });
+      }
+    }
+    return importable;
+  }, [sheet, datasets]);
+
+  const handleLoadCounts = async () => {
+    setIsLoadingCounts(true);
+    setError(null);
+    try {
+      const results = await Promise.all(completedSamples.map(async sample => {
+        if (!sample.dataset_id) return { name: sample.name, results: await getRNASeqResults(sample.job_id!) };
+        const imported = datasets.find(dataset => dataset.id === sample.dataset_id)?.samples.find(s => s.sample_name === sample.name);
+        if (!imported) throw new Error(`the imported dataset of ${sample.name} no longer exists`);
+        return { name: sample.name, results: imported };
+      }));
+      setMatrix(buildCountMatrix(results));
+      setDeResult(null);
+    } catch (err) {
+      setError(`Could not fetch the sample results: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setIsLoadingCounts(false);
+    }
+  };
+
+  const conditions = useMemo(
+    () => Object.fromEntries(sheet.map(sample => [sample.name, sample.condition])),
+    [sheet],
+  );
+  const matrixConditions = useMemo(
+    () => Array.from(new Set((matrix?.samples ?? []).map(name => conditions[name]).filter(Boolean))),
+    [matrix, conditions],
+  );
+
+  const handleRunDifferentialExpression = () => {
+    if (!matrix) return;
+    try {
+      setDeResult(differentialExpression(matrix, { conditions, reference: referenceCondition, treatment: treatmentCondition }));
+      setError(null);
+    } catch (err) {
+      setDeResult(null);
+      setError(err instanceof Error ? err.message : 'Differential expression failed.');
+    }
+  };
+
+  const network = useMemo(() => ({ nodes: networkNodes, edges: [] }), [networkNodes]);
+  const networkIndex = useMemo(() => nodeGeneIndex(network), [network]);
+
+  const shownGenes = useMemo(() => {
+    if (!deResult) return [];
+    if (!networkGenesOnly) return deResult.genes;
+    return deResult.genes.filter(gene =>
+      networkIndex.has(gene.symbol.toLowerCase()) || networkIndex.has(gene.gene.toLowerCase()));
+  }, [deResult, networkGenesOnly, networkIndex]);
+
+  const handleColorNetwork = () => {
+    if (!deResult || !onColorNetwork) return;
+    const colors = foldChangeNodeColors(network, deResult);
+    if (Object.keys(colors).length === 0) {
+      setError('No tested gene matches a node of the selected network.');
+      return;
+    }
+    onColorNetwork(colors, `${deResult.treatment} vs ${deResult.reference}`);
+  };
+
+  const fileInput = (id: string, label: string, accept: string, onChange: (files: File[]) => void, description: string, multiple = false) => (
+    <div className="space-y-1.5">
+      <Label htmlFor={id} className="text-sm font-medium">{label}</Label>
+      <input
+        id={id}
+        type="file"
+        accept={accept}
+        multiple={multiple}
+        onChange={(e) => onChange(Array.from(e.target.files ?? []))}
+        disabled={isSubmitting}
+        className="block text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded file:border-0 file:text-xs file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90 cursor-pointer"
+      />
+      <p className="text-xs text-muted-foreground">{description}</p>
+    </div>
+  );
+
+  if (!projectId) {
+    return (
+      <div className="p-6 text-center text-muted-foreground text-sm">Open a project to manage its RNA-seq samples.</div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Sample Sheet */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Upload className="w-4 h-4" />
+              Sample Sheet
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadTextAsFile('samplesheet.csv', sampleSheetToCsv(sheet.length ? sheet : [emptySample(1)]))}
+                className="gap-2"
+              >
+                <Download className="w-4 h-4" />
+                {sheet.length ? 'Download' : 'Template'}
+              </Button>
+              <Button size="sm" onClick={() => persist(sheet)} disabled={!isDirty || isSubmitting} className="gap-2">
+                <Save className="w-4 h-4" />
+                Save
+              </Button>
+            </div>
+          </div>
+          <CardDescription>
+            One row per sample with its condition and paired read files (columns sample, condition, fastq_1, fastq_2).
+            The sheet and its jobs are stored with the project.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {fileInput('rnaseq-sample-sheet', 'Upload sample sheet (.csv, .tsv)', '.csv,.tsv,.txt', (files) => handleSheetUpload(files[0] ?? null), 'Replaces the rows below; samples already submitted keep their jobs.')}
+
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading samples...
+            </div>
+          ) : (
+            <div className="overflow-auto max-h-[320px] border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-background border-b">
+                  <tr className="bg-muted/50">
+                    <th className="text-left p-2 font-semibold">Sample</th>
+                    <th className="text-left p-2 font-semibold">Condition</th>
+                    <th className="text-left p-2 font-semibold">R1</th>
+                    <th className="text-left p-2 font-semibold">R2</th>
+                    <th className="text-left p-2 font-semibold">Job</th>
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.map((sample, index) => {
+                    const locked = Boolean(sample.dataset_id) || (Boolean(sample.job_id) && sample.state !== 'failed');
+                    return (
+                      <tr key={index} className={cn("border-t", index % 2 === 0 && "bg-muted/20")}>
+                        <td className="p-1">
+                          <Input value={sample.name} disabled={locked} onChange={(e) => updateSample(index, { name: e.target.value })} className="h-8 text-xs" />
+                        </td>
+                        <td className="p-1">
+                          <Input value={sample.condition} onChange={(e) => updateSample(index, { condition: e.target.value })} className="h-8 text-xs" />
+                        </td>
+                        <td className="p-1">
+                          <Input value={sample.fastq1} disabled={locked} onChange={(e) => updateSample(index, { fastq1: e.target.value })} className="h-8 text-xs font-mono" />
+                        </td>
+                        <td className="p-1">
+                          <Input value={sample.fastq2} disabled={locked} onChange={(e) => updateSample(index, { fastq2: e.target.value })} className="h-8 text-xs font-mono" />
+                        </td>
+                        <td className="p-2 text-xs">
+                          {sample.dataset_id ? (
+                            <Badge variant="secondary" className="bg-violet-100 text-violet-700">imported</Badge>
+                          ) : sample.state ? (
+                            <Badge variant="secondary" className={STATE_STYLES[sample.state]}>{sample.state}</Badge>
+                          ) : (
+                            <span className="text-muted-foreground">not submitted</span>
+                          )}
+                          {sample.error && <p className="text-red-600 mt-0.5">{sample.error}</p>}
+                        </td>
+                        <td className="p-1 text-right">
+                          <button
+                            onClick={() => { setSheet(prev => prev.filter((_, i) => i !== index)); setIsDirty(true); }}
+                            disabled={isSubmitting}
+                            className="p-1 text-red-500 hover:text-red-700"
+                            aria-label="Remove sample"
+                          >
+                            <X className="size-3.5" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {sheet.length === 0 && (
+                <p className="p-4 text-center text-xs text-muted-foreground">No samples yet. Upload a sample sheet or add rows.</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => { setSheet(prev => [...prev, emptySample(prev.length + 1)]); setIsDirty(true); }}
+              disabled={isSubmitting}
+              className="gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add sample
+            </Button>
+            {importableSamples.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => { setSheet(prev => [...prev, ...importableSamples]); setIsDirty(true); }}
+                disabled={isSubmitting}
+                className="gap-2"
+              >
+                <Database className="w-4 h-4" />
+                Add {importableSamples.length} imported sample{importableSamples.length !== 1 ? 's' : ''}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Batch Submission */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Play className="w-4 h-4" />
+              Batch Submission
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={handleRefresh} disabled={!hasActiveJobs || isSubmitting} className="gap-2">
+              <RefreshCw className="w-4 h-4" />
+              Refresh status
+            </Button>
+          </div>
+          <CardDescription>
+            Samples without a job, or whose job failed, are uploaded one at a time with the shared reference and annotation.
+            Running jobs are checked every 30s.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {fileInput('rnaseq-batch-fastq', 'Read files', '.fastq.gz,.fq.gz', setFastqFiles, `${fastqFiles.length} file${fastqFiles.length !== 1 ? 's' : ''} selected; matched to samples by name.`, true)}
+            {fileInput('rnaseq-batch-reference', 'Reference genome', '.fa.gz,.fasta.gz', (files) => setReference(files[0] ?? null), 'Reference FASTA file (.fa.gz)')}
+            {fileInput('rnaseq-batch-annotation', 'Gene annotation', '.gff3.gz,.gtf.gz', (files) => setAnnotation(files[0] ?? null), 'GFF3 or GTF annotation file (.gff3.gz, .gtf.gz)')}
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {completedSamples.length} of {sheet.length} sample{sheet.length !== 1 ? 's' : ''} completed or imported
+            </p>
+            <Button onClick={handleSubmit} disabled={isSubmitting || unsubmittedCount === 0} className="gap-2">
+              {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              Submit {unsubmittedCount} sample{unsubmittedCount !== 1 ? 's' : ''}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {(error || loadError) && (
+        <div className="p-3 rounded-md bg-red-50 border border-red-200">
+          <p className="text-sm text-red-600 flex items-start gap-2">
+            <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+            {error || `Could not load the sample sheet: ${loadError}`}
+          </p>
+        </div>
+      )}
+
+      {/* Count Matrix and Differential Expression */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <BarChart3 className="w-4 h-4" />
+              Differential Expression
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={handleLoadCounts} disabled={isLoadingCounts || completedSamples.length === 0} className="gap-2">
+                {isLoadingCounts ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                Load counts
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => matrix && downloadTextAsFile('count_matrix.csv', countMatrixToCsv(matrix))}
+                disabled={!matrix}
+                className="gap-2"
+              >
+                <Download className="w-4 h-4" />
+                Count matrix
+              </Button>
+            </div>
+          </div>
+          <CardDescription>
+            {matrix
+              ? `${matrix.genes.length.toLocaleString()} genes across ${matrix.samples.length} samples.`
+              : 'Combine the counts of the completed and imported samples, then compare two conditions (median-of-ratios normalisation, Welch t-test, Benjamini–Hochberg correction).'}
+          </CardDescription>
+        </CardHeader>
+        {matrix && (
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1.5">
+                <Label>Reference</Label>
+                <Select value={referenceCondition} onValueChange={setReferenceCondition}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue placeholder="Condition" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {matrixConditions.map(condition => <SelectItem key={condition} value={condition}>{condition}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Treatment</Label>
+                <Select value={treatmentCondition} onValueChange={setTreatmentCondition}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue placeholder="Condition" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {matrixConditions.map(condition => <SelectItem key={condition} value={condition}>{condition}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleRunDifferentialExpression} disabled={!referenceCondition || !treatmentCondition} className="gap-2">
+                <Play className="w-4 h-4" />
+                Compare
+              </Button>
+            </div>
+
+            {deResult && (
+              <>
+                {deResult.warnings.map(warning => (
+                  <p key={warning} className="text-xs text-amber-700">{warning}</p>
+                ))}
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm text-muted-foreground">
+                    {deResult.genes.filter(g => g.padj < SIGNIFICANCE).length} of {deResult.genes.length} tested genes with padj &lt; {SIGNIFICANCE}
+                    {deResult.filteredCount > 0 && ` (${deResult.filteredCount} low-count genes not tested)`}
+                  </p>
+                  <div className="flex items-center gap-3">
+                    <div className="flex items-center gap-2">
+                      <Checkbox id="de-network-genes" checked={networkGenesOnly} onCheckedChange={(checked) => setNetworkGenesOnly(checked === true)} />
+                      <Label htmlFor="de-network-genes" className="text-xs font-normal">Network genes only</Label>
+                    </div>
+                    {onColorNetwork && (
+                      <Button variant="outline" size="sm" onClick={handleColorNetwork} disabled={networkNodes.length === 0} className="gap-2">
+                        <Palette className="w-4 h-4" />
+                        Colour network
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadTextAsFile(`de_${deResult.treatment}_vs_${deResult.reference}.csv`, differentialExpressionToCsv(deResult))}
+                      className="gap-2"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download CSV
+                    </Button>
+                  </div>
+                </div>
+                <div className="overflow-auto max-h-[400px] border rounded-md">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-background border-b">
+                      <tr className="bg-muted/50">
+                        <th className="text-left p-2 font-semibold">Gene Symbol</th>
+                        <th className="text-left p-2 font-semibold">Gene ID</th>
+                        <th className="text-right p-2 font-semibold">Base Mean</th>
+                        <th className="text-right p-2 font-semibold">log2 FC</th>
+                        <th className="text-right p-2 font-semibold">p-value</th>
+                        <th className="text-right p-2 font-semibold">padj</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {shownGenes.slice(0, 500).map((gene, idx) => (
+                        <tr key={gene.gene} className={cn("border-t", idx % 2 === 0 && "bg-muted/20")}>
+                          <td className="p-2 font-medium">{gene.symbol || '-'}</td>
+                          <td className="p-2 text-muted-foreground font-mono text-xs">{gene.gene}</td>
+                          <td className="p-2 text-right font-mono">{gene.baseMean.toFixed(1)}</td>
+                          <td className={cn("p-2 text-right font-mono", gene.log2FoldChange > 0 ? "text-red-600" : "text-blue-600")}>
+                            {gene.log2FoldChange.toFixed(2)}
+                          </td>
+                          <td className="p-2 text-right font-mono">{gene.pValue.toExponential(2)}</td>
+                          <td className={cn("p-2 text-right font-mono", gene.padj < SIGNIFICANCE && "font-semibold")}>{gene.padj.toExponential(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {shownGenes.length === 0 && (
+                    <p className="p-4 text-center text-xs text-muted-foreground">No tested gene matches a network node.</p>
+                  )}
+                </div>
+                {shownGenes.length > 500 && (
+                  <p className="text-xs text-muted-foreground">Showing the 500 most significant of {shownGenes.length} genes; download the CSV for all.</p>
+                )}
+              </>
+            )}
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+export default RNASeqSamplesPanel;
@@ -21,6 +21,9 @@ import {
   Download,
   Dna,
   BarChart3,
+  User,
+  Users,
+  FileSpreadsheet,
 } from "lucide-react";
 import {
   submitRNASeqAnalysis,
@@ -34,6 +37,8 @@ import {
   RNASeqApiError,
 } from "@/lib/rnaseqApi";
 import { downloadTextAsFile } from "@/lib/download";
+import { RNASeqSamplesPanel } from "./RNASeqSamplesPanel";
+import { ExpressionImportPanel } from "./ExpressionImportPanel";
 import type { ProjectNetworkRecord } from '@/hooks/useProjectNetworks';
 import type { NetworkNode } from "@/types/network";
 
@@ -52,6 +57,10 @@ interface SeqAnalysisTabProps {
   networkId?: string | null;
   /** Optional network name for display */
   networkName?: string | null;
+  /** Opens network personalisation with the expression of the completed run */
+  onPersonalizeNetwork?: (results: RNASeqResults) => void;
+  /** Colours the selected network's nodes by the log2 fold change of a project-level comparison */
+  onColorNetwork?: (nodeColors: Record<string, string>, label: string) => void;
 }
 
 interface FileInputState {
@@ -74,12 +83,13 @@ export function SeqAnalysisTab({
   networks = [],
   onNetworkSelect: _onNetworkSelect,
   selectedNetworkId: propSelectedNetworkId,
-  projectId: _projectId,
+  projectId,
   networkId: _networkId,
   networkName,
+  onPersonalizeNetwork,
+  onColorNetwork,
 }: SeqAnalysisTabProps) {
-  // projectId, networkId, onNetworkSelect reserved for future use (network selection moved to sidebar)
-  void _projectId;
+  // networkId, onNetworkSelect reserved for future use (network selection moved to sidebar)
   void _networkId;
   void _onNetworkSelect;
   const { showToast } = useToast();
@@ -110,6 +120,9 @@ export function SeqAnalysisTab({
     return networkName ?? null;
   }, [localSelectedNetworkId, networks, networkName]);
 
+  // One sample per job, the project's sample sheet, or imported expression tables
+  const [mode, setMode] = useState<'single' | 'project' | 'import'>('single');
+
   // Form state
   const [sampleName, setSampleName] = useState("");
   const [fastq1, setFastq1] = useState<FileInputState>({ file: null, error: null });
@@ -419,431 +432,472 @@ export function SeqAnalysisTab({
             )}
           </div>
         </div>
-        {analysisState !== 'idle' && (
-          <Button variant="ghost" size="sm" onClick={handleReset}>
-            <RefreshCw className="w-4 h-4 mr-2" />
-            Reset
-          </Button>
-        )}
+        <div className="flex items-center gap-2">
+          {mode === 'single' && analysisState !== 'idle' && (
+            <Button variant="ghost" size="sm" onClick={handleReset}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+          )}
+          {projectId && (
+            <div className="flex rounded-md border p-0.5">
+              <Button variant={mode === 'single' ? 'secondary' : 'ghost'} size="sm" className="h-7 text-xs" onClick={() => setMode('single')}>
+                Single sample
+              </Button>
+              <Button variant={mode === 'project' ? 'secondary' : 'ghost'} size="sm" className="h-7 text-xs gap-1" onClick={() => setMode('project')}>
+                <Users className="w-3.5 h-3.5" />
+                Project samples
+              </Button>
+              <Button variant={mode === 'import' ? 'secondary' : 'ghost'} size="sm" className="h-7 text-xs gap-1" onClick={() => setMode('import')}>
+                <FileSpreadsheet className="w-3.5 h-3.5" />
+                Import tables
+              </Button>
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Content */}
-      <div className="flex-1 overflow-auto p-4 space-y-4">
-        {/* Form Section */}
-        {(analysisState === 'idle' || analysisState === 'validating') && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-base flex items-center gap-2">
-                <Upload className="w-4 h-4" />
-                Upload Sequencing Data
-              </CardTitle>
-              <CardDescription>
-                Upload paired-end FASTQ files along with reference genome and annotation for RNA-seq analysis.
-                FASTQ files can be large (1-50 GB) - analysis typically takes 1-4 hours.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {/* Sample Name */}
-              <div className="space-y-2">
-                <Label htmlFor="sample_name" className="text-sm font-medium">
-                  Sample Name <span className="text-muted-foreground">(optional)</span>
-                </Label>
-                <Input
-                  id="sample_name"
-                  placeholder="e.g., patient_001"
-                  value={sampleName}
-                  onChange={(e) => setSampleName(e.target.value)}
-                  disabled={isRunning}
-                />
-              </div>
-
-              <Separator />
-
-              {/* Forward Reads (R1) */}
-              <div className="space-y-2">
-                <Label htmlFor="fastq_1" className="text-sm font-medium">
-                  Forward Reads (R1) <span className="text-red-500">*</span>
-                </Label>
-                <div className="flex items-center gap-2">
-                  <input
-                    id="fastq_1"
-                    type="file"
-                    accept=".fastq.gz,.fq.gz"
-                    onChange={handleFastq1Change}
+      {mode === 'project' ? (
+        <div className="flex-1 overflow-auto p-4">
+          <RNASeqSamplesPanel projectId={projectId} networkNodes={effectiveNetworkNodes} onColorNetwork={onColorNetwork} />
+        </div>
+      ) : mode === 'import' ? (
+        <div className="flex-1 overflow-auto p-4">
+          <ExpressionImportPanel projectId={projectId} networkNodes={effectiveNetworkNodes} onPersonalizeNetwork={onPersonalizeNetwork} />
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {/* Form Section */}
+          {(analysisState === 'idle' || analysisState === 'validating') && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Upload className="w-4 h-4" />
+                  Upload Sequencing Data
+                </CardTitle>
+                <CardDescription>
+                  Upload paired-end FASTQ files along with reference genome and annotation for RNA-seq analysis.
+                  FASTQ files can be large (1-50 GB) - analysis typically takes 1-4 hours.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {/* Sample Name */}
+                <div className="space-y-2">
+                  <Label htmlFor="sample_name" className="text-sm font-medium">
+                    Sample Name <span className="text-muted-foreground">(optional)</span>
+                  </Label>
+                  <Input
+                    id="sample_name"
+                    placeholder="e.g., patient_001"
+                    value={sampleName}
+                    onChange={(e) => setSampleName(e.target.value)}
                     disabled={isRunning}
-                    className="sr-only"
                   />
-                  <Button variant="secondary" size="sm" onClick={() => triggerFileInput('fastq_1')}>
-                    <Upload className="w-4 h-4 mr-2" />
-                    Choose file
-                  </Button>
-                  <Button variant="outline" size="sm" onClick={() => downloadFastqSample('R1')} className="gap-2">
-                    <Download className="w-4 h-4" />
-                    Download sample
-                  </Button>
-                  {fastq1.file && (
-                    <Badge variant="secondary" className="shrink-0">
-                      {formatFileSize(fastq1.file.size)}
-                    </Badge>
+                </div>
+
+                <Separator />
+
+                {/* Forward Reads (R1) */}
+                <div className="space-y-2">
+                  <Label htmlFor="fastq_1" className="text-sm font-medium">
+                    Forward Reads (R1) <span className="text-red-500">*</span>
+                  </Label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="fastq_1"
+                      type="file"
+                      accept=".fastq.gz,.fq.gz"
+                      onChange={handleFastq1Change}
+                      disabled={isRunning}
+                      className="sr-only"
+                    />
+                    <Button variant="secondary" size="sm" onClick={() => triggerFileInput('fastq_1')}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Choose file
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => downloadFastqSample('R1')} className="gap-2">
+                      <Download className="w-4 h-4" />
+                      Download sample
+                    </Button>
+                    {fastq1.file && (
+                      <Badge variant="secondary" className="shrink-0">
+                        {formatFileSize(fastq1.file.size)}
+                      </Badge>
+                    )}
+                  </div>
+                  {fastq1.error ? (
+                    <p className="text-xs text-red-500">{fastq1.error}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Paired-end forward reads (.fastq.gz)</p>
                   )}
                 </div>
-                {fastq1.error ? (
-                  <p className="text-xs text-red-500">{fastq1.error}</p>
-                ) : (
-                  <p className="text-xs text-muted-foreground">Paired-end forward reads (.fastq.gz)</p>
-                )}
-              </div>
-
-              {/* Reverse Reads (R2) */}
-              <div className="space-y-2">
-                <Label htmlFor="fastq_2" className="text-sm font-medium">
-                  Reverse Reads (R2) <span className="text-red-500">*</span>
-                </Label>
-                <div className="flex items-center gap-2">
-                  <input
-                    id="fastq_2"
-                    type="file"
-                    accept=".fastq.gz,.fq.gz"
-                    onChange={handleFastq2Change}
-                    disabled={isRunning}
-                    className="sr-only"
-                  />
-                  <Button variant="secondary" size="sm" onClick={() => triggerFileInput('fastq_2')}>
-                    <Upload className="w-4 h-4 mr-2" />
-                    Choose file
-                  </Button>
-                  <Button variant="outline" size="sm" onClick={() => downloadFastqSample('R2')} className="gap-2">
-                    <Download className="w-4 h-4" />
-                    Download sample
-                  </Button>
-                  {fastq2.file && (
-                    <Badge variant="secondary" className="shrink-0">
-                      {formatFileSize(fastq2.file.size)}
-                    </Badge>
+
+                {/* Reverse Reads (R2) */}
+                <div className="space-y-2">
+                  <Label htmlFor="fastq_2" className="text-sm font-medium">
+                    Reverse Reads (R2) <span className="text-red-500">*</span>
+                  </Label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="fastq_2"
+                      type="file"
+                      accept=".fastq.gz,.fq.gz"
+                      onChange={handleFastq2Change}
+                      disabled={isRunning}
+                      className="sr-only"
+                    />
+                    <Button variant="secondary" size="sm" onClick={() => triggerFileInput('fastq_2')}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Choose file
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => downloadFastqSample('R2')} className="gap-2">
+                      <Download className="w-4 h-4" />
+                      Download sample
+                    </Button>
+                    {fastq2.file && (
+                      <Badge variant="secondary" className="shrink-0">
+                        {formatFileSize(fastq2.file.size)}
+                      </Badge>
+                    )}
+                  </div>
+                  {fastq2.error ? (
+                    <p className="text-xs text-red-500">{fastq2.error}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Paired-end reverse reads (.fastq.gz)</p>
                   )}
                 </div>
-                {fastq2.error ? (
-                  <p className="text-xs text-red-500">{fastq2.error}</p>
-                ) : (
-                  <p className="text-xs text-muted-foreground">Paired-end reverse reads (.fastq.gz)</p>
-                )}
-              </div>
-
-              <Separator />
-
-              {/* Reference Genome */}
-              <div className="space-y-2">
-                <Label htmlFor="reference" className="text-sm font-medium">
-                  Reference Genome <span className="text-red-500">*</span>
-                </Label>
-                <div className="flex items-center gap-2">
-                  <input
-                    id="reference"
-                    type="file"
-                    accept=".fa.gz,.fasta.gz"
-                    onChange={handleReferenceChange}
-                    disabled={isRunning}
-                    className="sr-only"
-                  />
-                  <Button variant="secondary" size="sm" onClick={() => triggerFileInput('reference')}>
-                    <Upload className="w-4 h-4 mr-2" />
-                    Choose file
-                  </Button>
-                  <Button variant="outline" size="sm" onClick={downloadFastaSample} className="gap-2">
-                    <Download className="w-4 h-4" />
-                    Download sample
-                  </Button>
-                  {reference.file && (
-                    <Badge variant="secondary" className="shrink-0">
-                      {formatFileSize(reference.file.size)}
-                    </Badge>
+
+                <Separator />
+
+                {/* Reference Genome */}
+                <div className="space-y-2">
+                  <Label htmlFor="reference" className="text-sm font-medium">
+                    Reference Genome <span className="text-red-500">*</span>
+                  </Label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="reference"
+                      type="file"
+                      accept=".fa.gz,.fasta.gz"
+                      onChange={handleReferenceChange}
+                      disabled={isRunning}
+                      className="sr-only"
+                    />
+                    <Button variant="secondary" size="sm" onClick={() => triggerFileInput('reference')}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Choose file
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={downloadFastaSample} className="gap-2">
+                      <Download className="w-4 h-4" />
+                      Download sample
+                    </Button>
+                    {reference.file && (
+                      <Badge variant="secondary" className="shrink-0">
+                        {formatFileSize(reference.file.size)}
+                      </Badge>
+                    )}
+                  </div>
+                  {reference.error ? (
+                    <p className="text-xs text-red-500">{reference.error}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Reference FASTA file (.fa.gz)</p>
                   )}
                 </div>
-                {reference.error ? (
-                  <p className="text-xs text-red-500">{reference.error}</p>
-                ) : (
-                  <p className="text-xs text-muted-foreground">Reference FASTA file (.fa.gz)</p>
-                )}
-              </div>
-
-              {/* Annotation File */}
-              <div className="space-y-2">
-                <Label htmlFor="annotation" className="text-sm font-medium">
-                  Gene Annotation <span className="text-red-500">*</span>
-                </Label>
-                <div className="flex items-center gap-2">
-                  <input
-                    id="annotation"
-                    type="file"
-                    accept=".gff3.gz,.gtf.gz"
-                    onChange={handleAnnotationChange}
-                    disabled={isRunning}
-                    className="sr-only"
-                  />
-                  <Button variant="secondary" size="sm" onClick={() => triggerFileInput('annotation')}>
-                    <Upload className="w-4 h-4 mr-2" />
-                    Choose file
-                  </Button>
-                  <Button variant="outline" size="sm" onClick={downloadGff3Sample} className="gap-2">
-                    <Download className="w-4 h-4" />
-                    Download sample
-                  </Button>
-                  {annotation.file && (
-                    <Badge variant="secondary" className="shrink-0">
-                      {formatFileSize(annotation.file.size)}
-                    </Badge>
+
+                {/* Annotation File */}
+                <div className="space-y-2">
+                  <Label htmlFor="annotation" className="text-sm font-medium">
+                    Gene Annotation <span className="text-red-500">*</span>
+                  </Label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="annotation"
+                      type="file"
+                      accept=".gff3.gz,.gtf.gz"
+                      onChange={handleAnnotationChange}
+                      disabled={isRunning}
+                      className="sr-only"
+                    />
+                    <Button variant="secondary" size="sm" onClick={() => triggerFileInput('annotation')}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Choose file
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={downloadGff3Sample} className="gap-2">
+                      <Download className="w-4 h-4" />
+                      Download sample
+                    </Button>
+                    {annotation.file && (
+                      <Badge variant="secondary" className="shrink-0">
+                        {formatFileSize(annotation.file.size)}
+                      </Badge>
+                    )}
+                  </div>
+                  {annotation.error ? (
+                    <p className="text-xs text-red-500">{annotation.error}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">GFF3 or GTF annotation file (.gff3.gz, .gtf.gz)</p>
                   )}
                 </div>
-                {annotation.error ? (
-                  <p className="text-xs text-red-500">{annotation.error}</p>
-                ) : (
-                  <p className="text-xs text-muted-foreground">GFF3 or GTF annotation file (.gff3.gz, .gtf.gz)</p>
-                )}
-              </div>
 
-              {/* Total size and submit */}
-              <Separator />
+                {/* Total size and submit */}
+                <Separator />
 
-              {error && (
-                <div className="p-3 rounded-md bg-red-50 border border-red-200">
-                  <p className="text-sm text-red-600 flex items-start gap-2">
-                    <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
-                    {error}
-                  </p>
-                </div>
-              )}
+                {error && (
+                  <div className="p-3 rounded-md bg-red-50 border border-red-200">
+                    <p className="text-sm text-red-600 flex items-start gap-2">
+                      <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                      {error}
+                    </p>
+                  </div>
+                )}
 
-              <div className="flex items-center justify-between">
-                <div className="text-sm text-muted-foreground">
-                  {totalFileSize > 0 && (
-                    <span>Total upload size: <strong>{formatFileSize(totalFileSize)}</strong></span>
-                  )}
-                </div>
-                <Button 
-                  onClick={handleSubmit}
-                  disabled={!isFormValid || isRunning}
-                  className="gap-2"
-                >
-                  <Play className="w-4 h-4" />
-                  Start Analysis
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Upload Progress */}
-        {analysisState === 'uploading' && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-base flex items-center gap-2">
-                <FileUp className="w-4 h-4 animate-pulse" />
-                Uploading Files
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Upload Progress</span>
-                  <span>{uploadProgress}%</span>
-                </div>
-                <div className="w-full bg-muted rounded-full h-2">
-                  <div
-                    className="bg-sky-500 h-2 rounded-full transition-all duration-300"
-                    style={{ width: `${uploadProgress}%` }}
-                  />
-                </div>
-              </div>
-              <p className="text-xs text-muted-foreground">
-                Uploading {formatFileSize(totalFileSize)} of sequencing data...
-              </p>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Running Status */}
-        {analysisState === 'running' && jobStatus && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-base flex items-center gap-2">
-                <Loader2 className="w-4 h-4 animate-spin" />
-                Analysis Running
-              </CardTitle>
-              <CardDescription>
-                Job ID: {jobId}
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>{jobStatus.current_stage || 'Processing...'}</span>
-                  <span>{jobStatus.progress_percent}%</span>
-                </div>
-                <div className="w-full bg-muted rounded-full h-2">
-                  <div
-                    className="bg-sky-500 h-2 rounded-full transition-all duration-300"
-                    style={{ width: `${jobStatus.progress_percent}%` }}
-                  />
+                <div className="flex items-center justify-between">
+                  <div className="text-sm text-muted-foreground">
+                    {totalFileSize > 0 && (
+                      <span>Total upload size: <strong>{formatFileSize(totalFileSize)}</strong></span>
+                    )}
+                  </div>
+                  <Button 
+                    onClick={handleSubmit}
+                    disabled={!isFormValid || isRunning}
+                    className="gap-2"
+                  >
+                    <Play className="w-4 h-4" />
+                    Start Analysis
+                  </Button>
                 </div>
-              </div>
+              </CardContent>
+            </Card>
+          )}
 
-              <div className="grid grid-cols-2 gap-3 text-sm">
-                <div className="p-3 rounded-md bg-muted/50">
-                  <p className="text-muted-foreground text-xs">Status</p>
-                  <p className="font-medium capitalize">{jobStatus.state}</p>
-                </div>
-                <div className="p-3 rounded-md bg-muted/50">
-                  <p className="text-muted-foreground text-xs">Polling</p>
-                  <p className="font-medium">Every 30s</p>
+          {/* Upload Progress */}
+          {analysisState === 'uploading' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <FileUp className="w-4 h-4 animate-pulse" />
+                  Uploading Files
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>Upload Progress</span>
+                    <span>{uploadProgress}%</span>
+                  </div>
+                  <div className="w-full bg-muted rounded-full h-2">
+                    <div
+                      className="bg-sky-500 h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${uploadProgress}%` }}
+                    />
+                  </div>
                 </div>
-              </div>
-
-              <div className="p-3 rounded-md bg-amber-50 border border-amber-200">
-                <p className="text-xs text-amber-700">
-                  <AlertCircle className="w-3 h-3 inline mr-1" />
-                  RNA-seq analysis typically takes 1-4 hours. You can leave this page and return later.
+                <p className="text-xs text-muted-foreground">
+                  Uploading {formatFileSize(totalFileSize)} of sequencing data...
                 </p>
-              </div>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Failed */}
-        {analysisState === 'failed' && (
-          <Card className="border-red-200">
-            <CardHeader>
-              <CardTitle className="text-base flex items-center gap-2 text-red-600">
-                <XCircle className="w-4 h-4" />
-                Analysis Failed
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="p-3 rounded-md bg-red-50 border border-red-200">
-                <p className="text-sm text-red-600">{error || 'Unknown error occurred'}</p>
-              </div>
-              <Button onClick={handleReset} variant="outline">
-                <RefreshCw className="w-4 h-4 mr-2" />
-                Try Again
-              </Button>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Results */}
-        {analysisState === 'completed' && results && (
-          <>
-            {/* Summary Card */}
-            <Card className="border-green-200">
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Running Status */}
+          {analysisState === 'running' && jobStatus && (
+            <Card>
               <CardHeader>
-                <CardTitle className="text-base flex items-center gap-2 text-green-600">
-                  <CheckCircle2 className="w-4 h-4" />
-                  Analysis Complete
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Analysis Running
                 </CardTitle>
                 <CardDescription>
-                  Sample: {results.sample_name}
+                  Job ID: {jobId}
                 </CardDescription>
               </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                  <div className="p-3 rounded-md bg-muted/50 text-center">
-                    <p className="text-2xl font-bold">{results.gene_count.toLocaleString()}</p>
-                    <p className="text-xs text-muted-foreground">Total Genes</p>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>{jobStatus.current_stage || 'Processing...'}</span>
+                    <span>{jobStatus.progress_percent}%</span>
                   </div>
-                  <div className="p-3 rounded-md bg-muted/50 text-center">
-                    <p className="text-2xl font-bold">{filteredResults.length.toLocaleString()}</p>
-                    <p className="text-xs text-muted-foreground">In Network</p>
+                  <div className="w-full bg-muted rounded-full h-2">
+                    <div
+                      className="bg-sky-500 h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${jobStatus.progress_percent}%` }}
+                    />
                   </div>
-                  <div className="p-3 rounded-md bg-muted/50 text-center">
-                    <p className="text-2xl font-bold">{results.total_counts > 0 ? results.total_counts.toLocaleString() : 'N/A'}</p>
-                    <p className="text-xs text-muted-foreground">Total Counts</p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div className="p-3 rounded-md bg-muted/50">
+                    <p className="text-muted-foreground text-xs">Status</p>
+                    <p className="font-medium capitalize">{jobStatus.state}</p>
                   </div>
-                  <div className="p-3 rounded-md bg-muted/50 text-center">
-                    <p className="text-2xl font-bold">
-                      {results.mapping_rate !== null && results.mapping_rate > 0 
-                        ? `${(results.mapping_rate * 100).toFixed(1)}%` 
-                        : 'N/A'}
-                    </p>
-                    <p className="text-xs text-muted-foreground">Mapping Rate</p>
+                  <div className="p-3 rounded-md bg-muted/50">
+                    <p className="text-muted-foreground text-xs">Polling</p>
+                    <p className="font-medium">Every 30s</p>
                   </div>
                 </div>
+
+                <div className="p-3 rounded-md bg-amber-50 border border-amber-200">
+                  <p className="text-xs text-amber-700">
+                    <AlertCircle className="w-3 h-3 inline mr-1" />
+                    RNA-seq analysis typically takes 1-4 hours. You can leave this page and return later.
+                  </p>
+                </div>
               </CardContent>
             </Card>
+          )}
 
-            {/* Results Table */}
-            <Card>
-              <CardHeader className="pb-2">
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-base flex items-center gap-2">
-                    <BarChart3 className="w-4 h-4" />
-                    Expression Results (Network Genes Only)
-                  </CardTitle>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleDownloadResults}
-                    disabled={filteredResults.length === 0}
-                    className="gap-2"
-                  >
-                    <Download className="w-4 h-4" />
-                    Download CSV
-                  </Button>
-                </div>
-                <CardDescription>
-                  Showing {filteredResults.length} of {results.gene_count} genes that match nodes in your network
-                </CardDescription>
+          {/* Failed */}
+          {analysisState === 'failed' && (
+            <Card className="border-red-200">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2 text-red-600">
+                  <XCircle className="w-4 h-4" />
+                  Analysis Failed
+                </CardTitle>
               </CardHeader>
-              <CardContent>
-                {filteredResults.length === 0 ? (
-                  <div className="p-6 text-center text-muted-foreground">
-                    <AlertCircle className="w-8 h-8 mx-auto mb-2 opacity-50" />
-                    <p className="font-medium">No matching genes found</p>
-                    <p className="text-xs mt-1">
-                      None of the {results.gene_count} detected genes match nodes in your network.
-                      {networkNodes.length === 0 && " (No network loaded)"}
-                    </p>
-                  </div>
-                ) : (
-                  <div className="overflow-auto max-h-[400px] border rounded-md">
-                    <table className="w-full text-sm">
-                      <thead className="sticky top-0 bg-background border-b">
-                        <tr className="bg-muted/50">
-                          <th className="text-left p-2 font-semibold">Gene Symbol</th>
-                          <th className="text-left p-2 font-semibold">Gene ID</th>
-                          <th className="text-right p-2 font-semibold">Counts</th>
-                          <th className="text-right p-2 font-semibold">TPM</th>
-                          <th className="text-right p-2 font-semibold">FPKM</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {filteredResults.map((gene, idx) => (
-                          <tr key={gene.gene_id || idx} className={cn("border-t", idx % 2 === 0 && "bg-muted/20")}>
-                            <td className="p-2 font-medium">{gene.gene_symbol || '-'}</td>
-                            <td className="p-2 text-muted-foreground font-mono text-xs">{gene.gene_id || '-'}</td>
-                            <td className="p-2 text-right font-mono">{gene.counts.toLocaleString()}</td>
-                            <td className="p-2 text-right font-mono">{gene.tpm !== null ? gene.tpm.toFixed(2) : '-'}</td>
-                            <td className="p-2 text-right font-mono">{gene.fpkm !== null ? gene.fpkm.toFixed(2) : '-'}</td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                )}
+              <CardContent className="space-y-4">
+                <div className="p-3 rounded-md bg-red-50 border border-red-200">
+                  <p className="text-sm text-red-600">{error || 'Unknown error occurred'}</p>
+                </div>
+                <Button onClick={handleReset} variant="outline">
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Try Again
+                </Button>
               </CardContent>
             </Card>
-          </>
-        )}
-
-        {/* Network context warning */}
-        {networkNodes.length === 0 && analysisState === 'idle' && (
-          <div className="p-4 rounded-md bg-amber-50 border border-amber-200">
-            <p className="text-sm text-amber-700">
-              <AlertCircle className="w-4 h-4 inline mr-2" />
-              <strong>No network selected.</strong> Results will show all genes from the analysis.
-              Select a network in the Network tab to filter results by genes present in your network.
-            </p>
-          </div>
-        )}
-      </div>
+          )}
+
+          {/* Results */}
+          {analysisState === 'completed' && results && (
+            <>
+              {/* Summary Card */}
+              <Card className="border-green-200">
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center gap-2 text-green-600">
+                    <CheckCircle2 className="w-4 h-4" />
+                    Analysis Complete
+                  </CardTitle>
+                  <CardDescription>
+                    Sample: {results.sample_name}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div className="p-3 rounded-md bg-muted/50 text-center">
+                      <p className="text-2xl font-bold">{results.gene_count.toLocaleString()}</p>
+                      <p className="text-xs text-muted-foreground">Total Genes</p>
+                    </div>
+                    <div className="p-3 rounded-md bg-muted/50 text-center">
+                      <p className="text-2xl font-bold">{filteredResults.length.toLocaleString()}</p>
+                      <p className="text-xs text-muted-foreground">In Network</p>
+                    </div>
+                    <div className="p-3 rounded-md bg-muted/50 text-center">
+                      <p className="text-2xl font-bold">{results.total_counts > 0 ? results.total_counts.toLocaleString() : 'N/A'}</p>
+                      <p className="text-xs text-muted-foreground">Total Counts</p>
+                    </div>
+                    <div className="p-3 rounded-md bg-muted/50 text-center">
+                      <p className="text-2xl font-bold">
+                        {results.mapping_rate !== null && results.mapping_rate > 0 
+                          ? `${(results.mapping_rate * 100).toFixed(1)}%` 
+                          : 'N/A'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">Mapping Rate</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Results Table */}
+              <Card>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <BarChart3 className="w-4 h-4" />
+                      Expression Results (Network Genes Only)
+                    </CardTitle>
+                    <div className="flex items-center gap-2">
+                      {onPersonalizeNetwork && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onPersonalizeNetwork(results)}
+                          disabled={filteredResults.length === 0}
+                          className="gap-2"
+                        >
+                          <User className="w-4 h-4" />
+                          Personalize Network
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleDownloadResults}
+                        disabled={filteredResults.length === 0}
+                        className="gap-2"
+                      >
+                        <Download className="w-4 h-4" />
+                        Download CSV
+                      </Button>
+                    </div>
+                  </div>
+                  <CardDescription>
+                    Showing {filteredResults.length} of {results.gene_count} genes that match nodes in your network
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {filteredResults.length === 0 ? (
+                    <div className="p-6 text-center text-muted-foreground">
+                      <AlertCircle className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                      <p className="font-medium">No matching genes found</p>
+                      <p className="text-xs mt-1">
+                        None of the {results.gene_count} detected genes match nodes in your network.
+                        {networkNodes.length === 0 && " (No network loaded)"}
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="overflow-auto max-h-[400px] border rounded-md">
+                      <table className="w-full text-sm">
+                        <thead className="sticky top-0 bg-background border-b">
+                          <tr className="bg-muted/50">
+                            <th className="text-left p-2 font-semibold">Gene Symbol</th>
+                            <th className="text-left p-2 font-semibold">Gene ID</th>
+                            <th className="text-right p-2 font-semibold">Counts</th>
+                            <th className="text-right p-2 font-semibold">TPM</th>
+                            <th className="text-right p-2 font-semibold">FPKM</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {filteredResults.map((gene, idx) => (
+                            <tr key={gene.gene_id || idx} className={cn("border-t", idx % 2 === 0 && "bg-muted/20")}>
+                              <td className="p-2 font-medium">{gene.gene_symbol || '-'}</td>
+                              <td className="p-2 text-muted-foreground font-mono text-xs">{gene.gene_id || '-'}</td>
+                              <td className="p-2 text-right font-mono">{gene.counts.toLocaleString()}</td>
+                              <td className="p-2 text-right font-mono">{gene.tpm !== null ? gene.tpm.toFixed(2) : '-'}</td>
+                              <td className="p-2 text-right font-mono">{gene.fpkm !== null ? gene.fpkm.toFixed(2) : '-'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+
+          {/* Network context warning */}
+          {networkNodes.length === 0 && analysisState === 'idle' && (
+            <div className="p-4 rounded-md bg-amber-50 border border-amber-200">
+              <p className="text-sm text-amber-700">
+                <AlertCircle className="w-4 h-4 inline mr-2" />
+                <strong>No network selected.</strong> Results will show all genes from the analysis.
+                Select a network in the Network tab to filter results by genes present in your network.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
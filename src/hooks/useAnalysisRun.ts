@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAnalysisCancelled, runAnalysis } from '@/lib/analysis/analysisRuntime';
+import type { AnalysisProgress } from '@/lib/analysis/types';
+import type { AnalysisRequest, AnalysisResultFor } from '@/lib/analysis/workerProtocol';
+
+type AnalysisKind = AnalysisRequest['kind'];
+
+/** Inputs of one analysis kind: its request without the `kind` tag. */
+export type AnalysisInput<K extends AnalysisKind> = Omit<Extract<AnalysisRequest, { kind: K }>, 'kind'>;
+
+/**
+ * State of one analysis engine run through the worker runtime. Only one run is
+ * live at a time: a new run supersedes the previous one, and cancelling
+ * terminates its worker. `run` resolves to the result, or to null when the run
+ * failed (see `error`) or was cancelled.
+ */
+export function useAnalysisRun<K extends AnalysisKind>(kind: K) {
+  const [result, setResult] = useState<AnalysisResultFor<K> | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Leaving the page terminates the worker; the cleared ref keeps the run from touching state
+  useEffect(() => () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const run = useCallback(async (input: AnalysisInput<K>): Promise<AnalysisResultFor<K> | null> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setIsRunning(true);
+    setError(null);
+    setProgress(null);
+    try {
+      const request = { kind, ...input } as Extract<AnalysisRequest, { kind: K }>;
+      const next = await runAnalysis(request, { signal: controller.signal, onProgress: setProgress });
+      setResult(next);
+      return next;
+    } catch (err) {
+      if (isAnalysisCancelled(err)) return null;
+      setError(err instanceof Error ? err.message : String(err));
+      setResult(null);
+      return null;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsRunning(false);
+        setProgress(null);
+      }
+    }
+  }, [kind]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsRunning(false);
+    setProgress(null);
+  }, []);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setResult(null);
+    setError(null);
+    setIsRunning(false);
+    setProgress(null);
+  }, []);
+
+  return { result, isRunning, error, progress, run, cancel, reset } as const;
+}
@@ -1,48 +1,15 @@
-import { useState, useCallback } from 'react';
-import { performDeterministicAnalysis } from '@/lib/deterministicAnalysis';
-import type { DeterministicAnalysisResult } from '@/lib/analysis/types';
+import { useCallback } from 'react';
+import type { RuleBasedAnalysisOptions } from '@/lib/analysis/types';
+import { useAnalysisRun } from './useAnalysisRun';
 
 export function useDeterministicAnalysis() {
-  const [result, setResult] = useState<DeterministicAnalysisResult | null>(null);
-  const [isRunning, setIsRunning] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { run: runRequest, ...state } = useAnalysisRun('deterministic');
+  const { result } = state;
 
-  const run = useCallback(async (
-    rules: string[],
-    options?: { stateCap?: number; stepCap?: number }
-  ) => {
-    setIsRunning(true);
-    setError(null);
-    
-    try {
-      // Run in setTimeout to avoid blocking UI
-      const analysisResult = await new Promise<DeterministicAnalysisResult>((resolve, reject) => {
-        setTimeout(() => {
-          try {
-            const result = performDeterministicAnalysis(rules, options);
-            resolve(result);
-          } catch (e) {
-            reject(e);
-          }
-        }, 0);
-      });
-      
-      setResult(analysisResult);
-      setError(null);
-    } catch (e) {
-      const message = e instanceof Error ? e.message : String(e);
-      setError(message);
-      setResult(null);
-    } finally {
-      setIsRunning(false);
-    }
-  }, []);
-
-  const reset = useCallback(() => {
-    setResult(null);
-    setError(null);
-    setIsRunning(false);
-  }, []);
+  const run = useCallback(
+    (rules: string[], options?: RuleBasedAnalysisOptions) => runRequest({ rules, options }),
+    [runRequest],
+  );
 
   const downloadResults = useCallback(() => {
     if (!result) return;
@@ -57,7 +24,9 @@ export function useDeterministicAnalysis() {
         period: att.period,
         basinSize: att.basinSize,
         basinShare: att.basinShare,
+        weakBasinSize: att.weakBasinSize,
         states: att.states,
+        transitions: att.transitions,
       })),
       exploredStateCount: result.exploredStateCount,
       totalStateSpace: result.totalStateSpace,
@@ -76,12 +45,5 @@ export function useDeterministicAnalysis() {
     URL.revokeObjectURL(url);
   }, [result]);
 
-  return {
-    result,
-    isRunning,
-    error,
-    run,
-    reset,
-    downloadResults,
-  } as const;
+  return { ...state, run, downloadResults } as const;
 }
@@ -0,0 +1,61 @@
+import { useCallback } from 'react';
+import { supabase } from '@/supabaseClient';
+import type { ExpressionFileFormat, ExpressionValueType } from '@/lib/expressionImport';
+import type { RNASeqResults } from '@/lib/rnaseqApi';
+import { useProjectRows } from './useProjectData';
+
+export interface ExpressionDatasetRecord {
+  id: string;
+  name: string;
+  /** Names of the imported files. */
+  source: string;
+  format: ExpressionFileFormat;
+  value_type: ExpressionValueType;
+  samples: RNASeqResults[];
+  created_at: string | null;
+}
+
+export type NewExpressionDataset = Omit<ExpressionDatasetRecord, 'id' | 'created_at'>;
+
+const COLUMNS = 'id, name, source, format, value_type, samples, created_at';
+
+async function fetchDatasets(projectId: string): Promise<ExpressionDatasetRecord[]> {
+  const { data, error } = await supabase
+    .from('expression_datasets')
+    .select(COLUMNS)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as ExpressionDatasetRecord[];
+}
+
+/**
+ * Expression datasets imported into the project (count or TPM tables), stored
+ * in the `expression_datasets` table. Each sample has the shape of a finished
+ * RNA-seq job, so imported data feeds the same features as pipeline results.
+ */
+export function useExpressionDatasets(projectId?: string | null) {
+  const { rows: datasets, setRows: setDatasets, isLoading, error } =
+    useProjectRows(projectId, fetchDatasets, 'Failed to load expression datasets');
+
+  const save = useCallback(async (dataset: NewExpressionDataset) => {
+    if (!projectId) throw new Error('No project selected');
+    const { data, error: saveError } = await supabase
+      .from('expression_datasets')
+      .insert({ ...dataset, project_id: projectId })
+      .select(COLUMNS)
+      .single();
+    if (saveError) throw saveError;
+    const record = data as ExpressionDatasetRecord;
+    setDatasets(prev => [...prev, record]);
+    return record;
+  }, [projectId, setDatasets]);
+
+  const remove = useCallback(async (id: string) => {
+    const { error: deleteError } = await supabase.from('expression_datasets').delete().eq('id', id);
+    if (deleteError) throw deleteError;
+    setDatasets(prev => prev.filter(dataset => dataset.id !== id));
+  }, [setDatasets]);
+
+  return { datasets, isLoading, error, save, remove } as const;
+}
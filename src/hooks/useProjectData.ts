@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/supabaseClient';
+import type { RNASeqSample } from '@/lib/rnaseqSamples';
+import type { FateDefinition } from '@/types/network';
+
+/** JSON columns of `projects` that hold a per-project list, with the type of one entry. */
+export interface ProjectJsonColumns {
+  fate_definitions: FateDefinition;
+  rnaseq_samples: RNASeqSample;
+}
+
+/**
+ * Rows of one project, loaded by `query` (which must be stable across renders)
+ * whenever the project changes. Without a project the list is empty.
+ */
+export function useProjectRows<T>(
+  projectId: string | null | undefined,
+  query: (projectId: string) => Promise<T[]>,
+  failure: string,
+) {
+  const [rows, setRows] = useState<T[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    if (!projectId) {
+      setRows([]);
+      setError(null);
+      return () => { isMounted = false; };
+    }
+
+    const fetchRows = async () => {
+      setIsLoading(true); setError(null);
+      try {
+        const next = await query(projectId);
+        if (isMounted) setRows(next);
+      } catch (e) {
+        if (isMounted) {
+          setRows([]);
+          setError(e instanceof Error ? e.message : failure);
+        }
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+    fetchRows();
+    return () => { isMounted = false; };
+  }, [projectId, query, failure]);
+
+  return { rows, setRows, isLoading, error } as const;
+}
+
+/**
+ * A list stored in a JSON column of the project (see `ProjectJsonColumns`).
+ * Loaded in its own query so that projects without the column still open.
+ */
+export function useProjectColumn<C extends keyof ProjectJsonColumns>(projectId: string | null | undefined, column: C) {
+  const query = useCallback(async (id: string) => {
+    const { data, error: fetchError } = await supabase.from('projects').select(column).eq('id', id).maybeSingle();
+    if (fetchError) throw fetchError;
+    const value = (data as Record<string, unknown> | null)?.[column];
+    return (Array.isArray(value) ? value : []) as ProjectJsonColumns[C][];
+  }, [column]);
+  const { rows, setRows, isLoading, error } =
+    useProjectRows<ProjectJsonColumns[C]>(projectId, query, `Failed to load ${column.replace('_', ' ')}`);
+
+  const save = useCallback(async (next: ProjectJsonColumns[C][]) => {
+    if (!projectId) throw new Error('No project selected');
+    const { error: saveError } = await supabase
+      .from('projects')
+      .update({ [column]: next })
+      .eq('id', projectId);
+    if (saveError) throw saveError;
+    setRows(next);
+  }, [projectId, column, setRows]);
+
+  return { value: rows, isLoading, error, save } as const;
+}
@@ -0,0 +1,106 @@
+/**
+ * Tests for applying node and edge interventions to rule-based and weighted networks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addRegulation, applyTherapiesToNetwork, removeRegulation, therapyLabel } from '../applyTherapies';
+import type { EdgeRegulation, NetworkData, TherapeuticIntervention } from '@/types/network';
+
+const network: NetworkData = {
+  nodes: ['Signal', 'Stress', 'Bcl2', 'Casp3'].map(id => ({ id, label: id })),
+  edges: [
+    { source: 'Signal', target: 'Bcl2', weight: 1 },
+    { source: 'Bcl2', target: 'Casp3', weight: -1 },
+    { source: 'Stress', target: 'Casp3', weight: 1 },
+  ],
+  rules: [
+    { name: 'Signal', action: 'Signal' },
+    { name: 'Stress', action: 'Stress' },
+    { name: 'Bcl2', action: 'Signal' },
+    { name: 'Casp3', action: '!Bcl2 && Stress' },
+  ],
+};
+
+const edgeTherapy = (type: 'edge-knock-in' | 'edge-knock-out', edge: EdgeRegulation): TherapeuticIntervention => ({
+  id: `${type}-${edge.source}-${edge.target}`,
+  type,
+  nodeName: edge.target,
+  nodeRule: null,
+  fixedValue: null,
+  outwardRegulations: [],
+  edge,
+  timestamp: 0,
+});
+
+const ruleOf = (data: NetworkData, name: string) => data.rules?.find(r => r.name === name)?.action;
+const edgeOf = (data: NetworkData, source: string, target: string) =>
+  data.edges.find(e => e.source === source && e.target === target);
+
+describe('edge knock-out', () => {
+  it('cuts the regulator out of the target rule and zeroes the edge', () => {
+    const modified = applyTherapiesToNetwork(network, [
+      edgeTherapy('edge-knock-out', { source: 'Bcl2', target: 'Casp3', sign: 'inhibition' }),
+    ]);
+
+    expect(ruleOf(modified, 'Casp3')).toBe('Stress');
+    expect(edgeOf(modified, 'Bcl2', 'Casp3')).toMatchObject({ weight: 0, properties: { knockedOutEdge: true } });
+    // Other rules and edges are untouched, and the input is not mutated
+    expect(ruleOf(modified, 'Bcl2')).toBe('Signal');
+    expect(edgeOf(modified, 'Stress', 'Casp3')?.weight).toBe(1);
+    expect(ruleOf(network, 'Casp3')).toBe('!Bcl2 && Stress');
+  });
+
+  it('leaves a rule that only read the regulator constant', () => {
+    const modified = applyTherapiesToNetwork(network, [
+      edgeTherapy('edge-knock-out', { source: 'Signal', target: 'Bcl2', sign: 'activation' }),
+    ]);
+
+    expect(ruleOf(modified, 'Bcl2')).toBe('0');
+  });
+});
+
+describe('edge knock-in', () => {
+  it('adds an activator with OR and an inhibitor with AND NOT', () => {
+    const modified = applyTherapiesToNetwork(network, [
+      edgeTherapy('edge-knock-in', { source: 'Stress', target: 'Bcl2', sign: 'inhibition' }),
+      edgeTherapy('edge-knock-in', { source: 'Signal', target: 'Casp3', sign: 'activation', weight: 2 }),
+    ]);
+
+    expect(ruleOf(modified, 'Bcl2')).toBe('(Signal) && !Stress');
+    expect(ruleOf(modified, 'Casp3')).toBe('(!Bcl2 && Stress) || Signal');
+    expect(edgeOf(modified, 'Stress', 'Bcl2')).toMatchObject({ weight: -1, properties: { addedByTherapy: true, edgeType: 'inhibitor' } });
+    expect(edgeOf(modified, 'Signal', 'Casp3')?.weight).toBe(2);
+  });
+
+  it('replaces the weight of an existing edge', () => {
+    const modified = applyTherapiesToNetwork(network, [
+      edgeTherapy('edge-knock-in', { source: 'Stress', target: 'Casp3', sign: 'activation', weight: 3 }),
+    ]);
+
+    expect(modified.edges).toHaveLength(3);
+    expect(edgeOf(modified, 'Stress', 'Casp3')).toMatchObject({ weight: 3, properties: { knockedInEdge: true } });
+  });
+
+  it('only changes weights of a network without rules', () => {
+    const weighted = { ...network, rules: [] };
+    const modified = applyTherapiesToNetwork(weighted, [
+      edgeTherapy('edge-knock-in', { source: 'Stress', target: 'Bcl2', sign: 'inhibition' }),
+    ]);
+
+    expect(modified.rules).toEqual([]);
+    expect(edgeOf(modified, 'Stress', 'Bcl2')?.weight).toBe(-1);
+  });
+});
+
+describe('rule rewriting helpers', () => {
+  it('removes and adds regulations by name', () => {
+    expect(removeRegulation('(A || B) && !C', ['C'])).toBe('A || B');
+    expect(removeRegulation('A &&', ['A'])).toBeNull();
+    expect(addRegulation(undefined, 'A', 'inhibition')).toBe('!A');
+  });
+
+  it('labels node and edge interventions', () => {
+    expect(therapyLabel(edgeTherapy('edge-knock-out', { source: 'Bcl2', target: 'Casp3', sign: 'inhibition' }))).toBe('Bcl2 ⊣ Casp3 edge KO');
+    expect(therapyLabel({ ...edgeTherapy('edge-knock-in', { source: 'A', target: 'B', sign: 'activation' }), edge: undefined, type: 'knock-out', nodeName: 'B' })).toBe('B KO');
+  });
+});
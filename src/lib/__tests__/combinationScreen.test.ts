@@ -0,0 +1,107 @@
+/**
+ * Tests for the pairwise combination screen and its Bliss/HSA synergy scores.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { combinationMatrix, combinationScreenToCsv, performCombinationScreen } from '../combinationScreen';
+import { interventionTherapies } from '../interventionSearch';
+import { runCombinationScreenAsync } from '../analysis/analysisRuntime';
+import type { TherapeuticIntervention } from '@/types/network';
+import { apoptosisTarget, survivalNetwork } from './fixtures/survivalNetwork';
+
+const network = survivalNetwork();
+const target = apoptosisTarget;
+const candidates = interventionTherapies([
+  { node: 'Signal', kind: 'knock-out' },
+  { node: 'Stress', kind: 'knock-in' },
+  { node: 'Bcl2', kind: 'knock-out' },
+  { node: 'Casp3', kind: 'knock-in' },
+]);
+const pairLabel = (labels: string[], pair: { a: number; b: number }) => `${labels[pair.a]} + ${labels[pair.b]}`;
+
+describe('performCombinationScreen', () => {
+  it('scores every pair against Bliss independence and the highest single agent', () => {
+    const result = performCombinationScreen(network, { target, candidates });
+
+    expect(result.labels).toEqual(['Signal KO', 'Stress KI', 'Bcl2 KO', 'Casp3 KI']);
+    expect(result.baselineShare).toBe(0.25);
+    expect(result.singleShares).toEqual([0.5, 0.5, 0.5, 1]);
+    expect(result.singleEffects[0]).toBeCloseTo(1 / 3);
+    expect(result.pairs).toHaveLength(6);
+
+    // Removing survival and adding stress complement each other
+    const [best, second] = result.pairs;
+    expect(pairLabel(result.labels, best)).toBe('Signal KO + Stress KI');
+    expect(pairLabel(result.labels, second)).toBe('Stress KI + Bcl2 KO');
+    expect(best.share).toBe(1);
+    expect(best.bliss).toBeCloseTo(4 / 9);
+    expect(best.hsa).toBeCloseTo(2 / 3);
+
+    // Both cut the same survival path, so together they add nothing
+    const redundant = result.pairs.find(p => pairLabel(result.labels, p) === 'Signal KO + Bcl2 KO')!;
+    expect(redundant.share).toBe(0.5);
+    expect(redundant.bliss).toBeCloseTo(-2 / 9);
+    expect(redundant.hsa).toBeCloseTo(0);
+
+    // A candidate that already reaches the phenotype leaves no room for synergy
+    for (const pair of result.pairs.filter(p => p.b === 3)) {
+      expect(pair.bliss).toBeCloseTo(0);
+      expect(pair.hsa).toBeCloseTo(0);
+    }
+  });
+
+  it('builds heatmap matrices and exports the pairs as CSV', () => {
+    const result = performCombinationScreen(network, { target, candidates: candidates.slice(0, 3) });
+    const shares = combinationMatrix(result, 'share');
+    const bliss = combinationMatrix(result, 'bliss');
+
+    expect(shares).toEqual([
+      [0.5, 1, 0.5],
+      [1, 0.5, 1],
+      [0.5, 1, 0.5],
+    ]);
+    expect(bliss[0][0]).toBeNull();
+    expect(bliss[1][0]).toBeCloseTo(4 / 9);
+    expect(combinationScreenToCsv(result).split('\n').slice(0, 2)).toEqual([
+      'candidate A,candidate B,share A,share B,share A+B,Bliss excess,HSA excess',
+      'Signal KO,Stress KI,0.5,0.5,1,0.444444,0.666667',
+    ]);
+  });
+
+  it('screens edge interventions', () => {
+    const edgeKnockOut: TherapeuticIntervention = {
+      id: 'edge-knock-out-Bcl2-Casp3',
+      type: 'edge-knock-out',
+      nodeName: 'Casp3',
+      nodeRule: null,
+      fixedValue: null,
+      outwardRegulations: [],
+      edge: { source: 'Bcl2', target: 'Casp3', sign: 'inhibition' },
+      timestamp: 0,
+    };
+    const result = performCombinationScreen(network, { target, candidates: [edgeKnockOut, candidates[1]] });
+
+    expect(result.labels).toEqual(['Bcl2 ⊣ Casp3 edge KO', 'Stress KI']);
+    expect(result.singleShares).toEqual([0.5, 0.5]);
+    expect(result.pairs[0].share).toBe(1);
+  });
+
+  it('rejects screens it cannot run', () => {
+    expect(() => performCombinationScreen(network, { target: {}, candidates })).toThrow('needs a target phenotype');
+    expect(() => performCombinationScreen(network, { target, candidates: candidates.slice(0, 1) })).toThrow('at least 2 candidate');
+    const many = interventionTherapies(Array.from({ length: 17 }, (_, i) => ({ node: `N${i}`, kind: 'knock-out' as const })));
+    expect(() => performCombinationScreen(network, { target, candidates: many })).toThrow('at most 16 candidates');
+    expect(() => performCombinationScreen({ ...network, rules: [] }, { target, candidates })).toThrow('rule-based network');
+  });
+
+  it('runs through the analysis runtime with progress', async () => {
+    const progress: number[] = [];
+    const options = { target, candidates: candidates.slice(0, 3) };
+    const result = await runCombinationScreenAsync(network, options, {
+      onProgress: (p) => progress.push(p.explored),
+    });
+
+    expect(result).toEqual(performCombinationScreen(network, options));
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for rule-based analysis under the different update schemes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { performDeterministicAnalysis } from '../deterministicAnalysis';
+
+const toggleSwitch = ['A = !B', 'B = !A'];
+const oscillator = ['A = !B', 'B = A'];
+
+const attractorStates = (result: ReturnType<typeof performDeterministicAnalysis>) =>
+  result.attractors.map((a) => a.states.map((s) => s.binary));
+
+describe('performDeterministicAnalysis compiled rules', () => {
+  it('applies operator precedence and the NAND/NOR/XOR operators', () => {
+    const result = performDeterministicAnalysis(['A = A', 'B = B', 'C = A OR B AND !A', 'D = A NAND B', 'E = A NOR B', 'F = A XOR B']);
+
+    const fixedPoints = result.attractors.map((a) => a.states[0].values);
+    const ab11 = fixedPoints.find((v) => v.A === 1 && v.B === 1)!;
+    expect(ab11).toMatchObject({ C: 1, D: 0, E: 0, F: 0 });
+    const ab01 = fixedPoints.find((v) => v.A === 0 && v.B === 1)!;
+    expect(ab01).toMatchObject({ C: 1, D: 1, E: 0, F: 1 });
+  });
+
+  it('enumerates a 20-node network exhaustively', () => {
+    const rules = Array.from({ length: 20 }, (_, i) => `N${i} = N${(i + 1) % 20}`);
+    const result = performDeterministicAnalysis(rules);
+
+    expect(result.truncated).toBe(false);
+    expect(result.exploredStateCount).toBe(2 ** 20);
+    expect(result.attractors.reduce((sum, a) => sum + a.basinSize, 0)).toBe(2 ** 20);
+  });
+});
+
+describe('performDeterministicAnalysis update schemes', () => {
+  it('finds fixed points and a limit cycle synchronously', () => {
+    const result = performDeterministicAnalysis(toggleSwitch);
+
+    const types = result.attractors.map((a) => a.type).sort();
+    expect(types).toEqual(['fixed-point', 'fixed-point', 'limit-cycle']);
+  });
+
+  it('drops the synchronous oscillation of a toggle switch under asynchronous updates', () => {
+    const result = performDeterministicAnalysis(toggleSwitch, { updateScheme: 'asynchronous' });
+
+    expect(attractorStates(result)).toEqual([['01'], ['10']]);
+    expect(result.attractors.every((a) => a.type === 'fixed-point')).toBe(true);
+    // 00 and 11 can reach both fixed points, so only the fixed points themselves are in strong basins.
+    expect(result.attractors.map((a) => a.basinSize)).toEqual([1, 1]);
+    expect(result.attractors.map((a) => a.weakBasinSize)).toEqual([3, 3]);
+  });
+
+  it('reports terminal SCCs as complex attractors', () => {
+    const result = performDeterministicAnalysis(oscillator, { updateScheme: 'asynchronous' });
+
+    expect(result.attractors).toHaveLength(1);
+    const [attractor] = result.attractors;
+    expect(attractor.type).toBe('complex-attractor');
+    expect(attractor.period).toBe(4);
+    expect(attractor.states.map((s) => s.binary)).toEqual(['00', '01', '10', '11']);
+    expect(attractor.transitions).toHaveLength(4);
+    expect(attractor.basinShare).toBe(1);
+  });
+
+  it('supports random-order updates', () => {
+    const result = performDeterministicAnalysis(toggleSwitch, { updateScheme: 'random-order' });
+
+    expect(attractorStates(result)).toEqual([['01'], ['10']]);
+    expect(result.truncated).toBe(false);
+    expect(result.exploredStateCount).toBe(4);
+  });
+
+  it('rejects networks above the asynchronous node limit', () => {
+    const rules = Array.from({ length: 17 }, (_, i) => `N${i} = N${(i + 1) % 17}`);
+
+    expect(() => performDeterministicAnalysis(rules, { updateScheme: 'asynchronous' })).toThrow(/up to 16 nodes/);
+  });
+});
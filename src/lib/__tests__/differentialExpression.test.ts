@@ -0,0 +1,97 @@
+/**
+ * Tests for in-browser differential expression between two sample groups.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  benjaminiHochberg,
+  differentialExpression,
+  differentialExpressionToCsv,
+  foldChangeColor,
+  foldChangeNodeColors,
+  sizeFactors,
+  welchTTest,
+} from '../differentialExpression';
+import type { CountMatrix } from '../analysis/types';
+import type { NetworkData } from '@/types/network';
+
+// Treated samples T1/T2 are sequenced twice as deep as controls C1/C2
+const matrix: CountMatrix = {
+  genes: ['ENSG01', 'ENSG02', 'ENSG03', 'ENSG04', 'ENSG05'],
+  symbols: ['EGFR', 'MYC', 'ACTB', 'TP53', 'LOWLY'],
+  samples: ['C1', 'C2', 'T1', 'T2', 'X1'],
+  counts: [
+    [100, 110, 800, 840, 0],
+    [400, 380, 200, 210, 0],
+    [1000, 1000, 2000, 2000, 0],
+    [300, 320, 590, 660, 0],
+    [2, 0, 4, 2, 0],
+  ],
+};
+const conditions = { C1: 'control', C2: 'control', T1: 'treated', T2: 'treated', X1: 'other' };
+
+describe('statistics', () => {
+  it('matches Welch t-test and Benjamini–Hochberg reference values', () => {
+    // R: t.test(c(3, 4, 5, 6), c(1, 2, 3, 4))$p.value
+    expect(welchTTest([3, 4, 5, 6], [1, 2, 3, 4])).toBeCloseTo(0.07099, 4);
+    // Unequal variances (t = 1.473, df = 3.08)
+    expect(welchTTest([10, 12, 30, 25], [11, 12, 13])).toBeCloseTo(0.2348, 4);
+    expect(welchTTest([2, 2], [2, 2])).toBe(1);
+    expect(welchTTest([3, 3], [2, 2])).toBe(0);
+    expect(benjaminiHochberg([0.01, 0.04, 0.03, 0.005])).toEqual([0.02, 0.04, 0.04, 0.02]);
+  });
+
+  it('normalises by median of ratios, or library size without complete genes', () => {
+    const { factors, warning } = sizeFactors([[10, 20], [30, 60], [5, 10]], 2);
+    expect(factors[1] / factors[0]).toBeCloseTo(2);
+    expect(factors[0] * factors[1]).toBeCloseTo(1);
+    expect(warning).toBeUndefined();
+    expect(sizeFactors([[10, 0], [0, 30]], 2).warning).toContain('library size');
+  });
+});
+
+describe('differentialExpression', () => {
+  const result = differentialExpression(matrix, { conditions, reference: 'control', treatment: 'treated' });
+
+  it('tests normalised counts of the two conditions', () => {
+    expect(result.referenceSamples).toEqual(['C1', 'C2']);
+    expect(result.treatmentSamples).toEqual(['T1', 'T2']);
+    expect(result.sizeFactors.T1 / result.sizeFactors.C1).toBeCloseTo(2, 1);
+    expect(result.filteredCount).toBe(1);
+    expect(result.warnings).toEqual([]);
+
+    const byGene = Object.fromEntries(result.genes.map(g => [g.symbol, g]));
+    expect(Object.keys(byGene).sort()).toEqual(['ACTB', 'EGFR', 'MYC', 'TP53']);
+    expect(byGene.EGFR.log2FoldChange).toBeCloseTo(2, 0);
+    expect(byGene.MYC.log2FoldChange).toBeCloseTo(-2, 0);
+    expect(Math.abs(byGene.ACTB.log2FoldChange)).toBeLessThan(0.1);
+    expect(byGene.EGFR.padj).toBeLessThan(0.05);
+    expect(byGene.ACTB.pValue).toBeGreaterThan(0.05);
+    expect(result.genes.every((g, i) => i === 0 || g.padj >= result.genes[i - 1].padj)).toBe(true);
+    expect(result.genes.every(g => g.padj >= g.pValue)).toBe(true);
+
+    const csv = differentialExpressionToCsv(result).split('\n');
+    expect(csv[0]).toBe('gene_id,gene_symbol,base_mean,log2_fold_change,p_value,padj');
+    expect(csv).toHaveLength(5);
+  });
+
+  it('needs two samples in each of two different conditions', () => {
+    expect(() => differentialExpression(matrix, { conditions, reference: 'control', treatment: 'other' }))
+      .toThrow('Condition "other" needs at least two samples; it has 1.');
+    expect(() => differentialExpression(matrix, { conditions, reference: 'control', treatment: 'control' }))
+      .toThrow('two different conditions');
+  });
+
+  it('colours matched network nodes by fold change', () => {
+    const network: NetworkData = {
+      nodes: [{ id: 'egfr', label: 'EGFR' }, { id: 'ENSG02', label: 'Myc protein' }, { id: 'Apoptosis', label: 'Apoptosis' }],
+      edges: [],
+    };
+    const colors = foldChangeNodeColors(network, result);
+    expect(Object.keys(colors).sort()).toEqual(['ENSG02', 'egfr']);
+    expect(foldChangeColor(0)).toBe('rgb(241,245,249)');
+    expect(foldChangeColor(5)).toBe('rgb(220,38,38)');
+    expect(foldChangeColor(-2)).toBe('rgb(37,99,235)');
+    expect(foldChangeColor(1)).toBe('rgb(231,142,144)');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for the Exome-seq client against the local mock service.
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { normalizeVariant, validateExomeSeqFiles } from '../exomeSeqApi';
+import { startMockExomeSeqServer, type MockExomeSeqServer } from './fixtures/mockExomeSeqServer';
+
+const results = {
+  sample_name: 'TUMOR-01',
+  mean_target_coverage: 112.5,
+  variants: [
+    // VEP-style annotation
+    { SYMBOL: 'KRAS', CHROM: 'chr12', POS: 25245350, REF: 'C', ALT: 'T', HGVSc: 'c.35G>A', HGVSp: 'p.G12D', AF: 0.41, Consequence: 'missense_variant', DP: 180 },
+    // MAF-style row with read counts only
+    { Hugo_Symbol: 'TP53', Chromosome: '17', Start_Position: '7675088', HGVSp_Short: 'p.R175H', Variant_Classification: 'Missense_Mutation', t_alt_count: 30, t_ref_count: 90 },
+  ],
+};
+
+const file = (name: string) => new File(['data'], name);
+
+describe('normalizeVariant', () => {
+  it('reads VCF/VEP and MAF field names into one variant', () => {
+    expect(normalizeVariant(results.variants[0])).toEqual({
+      gene: 'KRAS',
+      chromosome: 'chr12',
+      position: 25245350,
+      ref: 'C',
+      alt: 'T',
+      hgvs_c: 'c.35G>A',
+      hgvs_p: 'p.G12D',
+      vaf: 0.41,
+      consequence: 'missense_variant',
+      depth: 180,
+    });
+    const maf = normalizeVariant(results.variants[1]);
+    expect(maf).toMatchObject({ gene: 'TP53', position: 7675088, hgvs_p: 'p.R175H', consequence: 'Missense_Mutation', depth: 120 });
+    expect(maf.vaf).toBeCloseTo(0.25);
+    expect(normalizeVariant({})).toMatchObject({ gene: '', position: null, vaf: null, depth: null });
+  });
+});
+
+describe('validateExomeSeqFiles', () => {
+  it('requires tumour reads, reference and targets with the right extensions', () => {
+    expect(validateExomeSeqFiles({
+      tumorFastq1: file('t_R1.fastq.gz'),
+      tumorFastq2: file('t_R2.fq.gz'),
+      reference: file('hg38.fa.gz'),
+      targets: file('exome.bed'),
+    })).toEqual({ valid: true, errors: [] });
+
+    const { valid, errors } = validateExomeSeqFiles({ tumorFastq1: file('t_R1.fastq'), reference: file('hg38.fa.gz'), targets: file('exome.txt') });
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      'Tumor forward reads must be a .fastq.gz or .fq.gz file',
+      'Tumor reverse reads (R2) file is required',
+      'Exome targets must be a .bed or .bed.gz file',
+    ]);
+  });
+});
+
+describe('Exome-seq client', () => {
+  let server: MockExomeSeqServer;
+  let api: typeof import('../exomeSeqApi');
+
+  beforeAll(async () => {
+    server = await startMockExomeSeqServer({ results });
+    // The client reads its service URL when first imported
+    vi.stubEnv('VITE_EXOME_API_URL', server.url);
+    vi.resetModules();
+    api = await import('../exomeSeqApi');
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await server.close();
+  });
+
+  it('submits the files, polls to completion and normalises the variants', async () => {
+    const form = new FormData();
+    form.append('sample_name', 'TUMOR-01');
+    form.append('tumor_fastq_1', file('t_R1.fastq.gz'));
+    form.append('tumor_fastq_2', file('t_R2.fastq.gz'));
+    form.append('reference', file('hg38.fa.gz'));
+    form.append('targets', file('exome.bed'));
+
+    const { job_id } = await api.submitExomeSeqAnalysis(form);
+    expect(server.submissions.at(-1)).toEqual({
+      sample_name: 'TUMOR-01',
+      tumor_fastq_1: 't_R1.fastq.gz',
+      tumor_fastq_2: 't_R2.fastq.gz',
+      reference: 'hg38.fa.gz',
+      targets: 'exome.bed',
+    });
+
+    const stages: string[] = [];
+    const exome = await api.pollExomeSeqUntilComplete(job_id, (status) => stages.push(status.state), 0);
+    expect(stages).toEqual(['running', 'completed']);
+    expect(exome).toMatchObject({ job_id, sample_name: 'TUMOR-01', variant_count: 2, mean_target_coverage: 112.5 });
+    expect(exome.variants.map((v) => `${v.gene} ${v.hgvs_p}`)).toEqual(['KRAS p.G12D', 'TP53 p.R175H']);
+  });
+
+  it('surfaces service errors as ExomeSeqApiError', async () => {
+    const incomplete = new FormData();
+    incomplete.append('tumor_fastq_1', file('t_R1.fastq.gz'));
+    await expect(api.submitExomeSeqAnalysis(incomplete)).rejects.toMatchObject({
+      name: 'ExomeSeqApiError',
+      statusCode: 400,
+      message: 'Failed to submit analysis: Missing files: tumor_fastq_2, reference, targets',
+    });
+    await expect(api.getExomeSeqResults('unknown')).rejects.toBeInstanceOf(api.ExomeSeqApiError);
+  });
+});
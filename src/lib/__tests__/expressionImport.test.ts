@@ -0,0 +1,99 @@
+/**
+ * Tests for importing precomputed expression tables as RNA-seq results.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseExpressionFile, parseGeneMapping, resolveGene, sampleNameOf } from '../expressionImport';
+import { buildCountMatrix } from '../rnaseqSamples';
+
+const mapping = parseGeneMapping([
+  'Gene stable ID\tTranscript stable ID\tGene name',
+  'ENSG00000141510\tENST00000269305\tTP53',
+  'ENSG00000141510\tENST00000445888\tTP53',
+  'ENSG00000146648\tENST00000275493\tEGFR',
+].join('\n'));
+
+describe('resolveGene', () => {
+  it('splits, strips versions and maps identifiers', () => {
+    expect(resolveGene('ENSG00000141510.16')).toEqual({ gene_id: 'ENSG00000141510', gene_symbol: '' });
+    expect(resolveGene('ENSG00000141510.16', '', mapping)).toEqual({ gene_id: 'ENSG00000141510', gene_symbol: 'TP53' });
+    expect(resolveGene('ENST00000269305.9|ENSG00000141510.16|OTTHUMG00000162125|OTTHUMT00000367397|TP53-201|TP53|2512|protein_coding|'))
+      .toEqual({ gene_id: 'ENSG00000141510', gene_symbol: 'TP53' });
+    expect(resolveGene('ENST00000445888.6', '', mapping)).toEqual({ gene_id: 'ENSG00000141510', gene_symbol: 'TP53' });
+    expect(resolveGene('egfr', '', mapping)).toEqual({ gene_id: 'ENSG00000146648', gene_symbol: 'egfr' });
+    expect(resolveGene('MYC')).toEqual({ gene_id: '', gene_symbol: 'MYC' });
+    expect(() => parseGeneMapping('symbol\nTP53\n')).toThrow('gene id column');
+  });
+});
+
+describe('parseExpressionFile', () => {
+  it('reads featureCounts output with one sample per BAM column', () => {
+    const { format, valueType, samples, warnings } = parseExpressionFile([
+      '# Program:featureCounts v2.0.3; Command:"featureCounts" "-a" "genes.gtf"',
+      'Geneid\tChr\tStart\tEnd\tStrand\tLength\t/data/Ctrl_1.Aligned.sortedByCoord.out.bam\t/data/Ctrl_2.bam',
+      'ENSG00000141510.16\tchr17\t7661779\t7687538\t-\t2512\t120\t98',
+      'ENSG00000146648.18\tchr7\t55019017\t55211628\t+\t9905\t40\t51',
+    ].join('\n'), 'counts.txt', { mapping });
+
+    expect(format).toBe('featurecounts');
+    expect(valueType).toBe('counts');
+    expect(warnings).toEqual([]);
+    expect(samples.map(s => s.sample_name)).toEqual(['Ctrl_1', 'Ctrl_2']);
+    expect(samples[1]).toMatchObject({ job_id: '', gene_count: 2, total_counts: 149, mapping_rate: null });
+    expect(samples[0].genes).toEqual([
+      { gene_id: 'ENSG00000141510', gene_symbol: 'TP53', counts: 120, tpm: null, fpkm: null },
+      { gene_id: 'ENSG00000146648', gene_symbol: 'EGFR', counts: 40, tpm: null, fpkm: null },
+    ]);
+  });
+
+  it('folds Salmon transcripts into genes through a tx2gene mapping', () => {
+    const quant = [
+      'Name\tLength\tEffectiveLength\tTPM\tNumReads',
+      'ENST00000269305.9\t2512\t2330.1\t12.5\t300.2',
+      'ENST00000445888.6\t2406\t2224.0\t2.5\t50',
+      'ENST00000999999.1\t1000\t800\t1\t5',
+    ].join('\n');
+    const { format, valueType, samples, warnings } = parseExpressionFile(quant, 'quant.sf', { mapping });
+    expect(format).toBe('salmon');
+    expect(valueType).toBe('counts');
+    expect(samples[0].sample_name).toBe('quant');
+    expect(samples[0].genes).toEqual([
+      { gene_id: 'ENSG00000141510', gene_symbol: 'TP53', counts: 350.2, tpm: 15, fpkm: null },
+      { gene_id: 'ENST00000999999', gene_symbol: '', counts: 5, tpm: 1, fpkm: null },
+    ]);
+    expect(warnings[0]).toContain('1 transcript was not folded into genes');
+  });
+
+  it('reads single-sample gene tables through the gene field heuristics', () => {
+    const { format, valueType, samples } = parseExpressionFile('gene_name,TPM\nTP53,4.5\nEGFR,NA\n', 'patient_7.csv');
+    expect(format).toBe('gene-table');
+    expect(valueType).toBe('tpm');
+    expect(samples[0].sample_name).toBe('patient_7');
+    expect(samples[0].genes).toEqual([
+      { gene_id: '', gene_symbol: 'TP53', counts: 0, tpm: 4.5, fpkm: null },
+      { gene_id: '', gene_symbol: 'EGFR', counts: 0, tpm: null, fpkm: null },
+    ]);
+  });
+
+  it('reads genes × samples matrices as counts or TPM', () => {
+    const matrix = 'gene_id\tgene_name\tTumour_A\tTumour_B\nENSG00000141510.16\tTP53\t10\t12\nENSG00000146648\tEGFR\t3.5\t\n';
+    const counts = parseExpressionFile(matrix, 'matrix.tsv');
+    expect(counts.format).toBe('matrix');
+    expect(counts.samples.map(s => s.sample_name)).toEqual(['Tumour_A', 'Tumour_B']);
+    expect(counts.samples[1].genes.map(g => [g.gene_id, g.gene_symbol, g.counts])).toEqual([
+      ['ENSG00000141510', 'TP53', 12],
+      ['ENSG00000146648', 'EGFR', 0],
+    ]);
+    expect(counts.warnings[0]).toContain('not whole numbers');
+
+    const tpm = parseExpressionFile(matrix, 'matrix.tsv', { valueType: 'tpm' });
+    expect(tpm.valueType).toBe('tpm');
+    expect(tpm.warnings).toEqual([]);
+    expect(tpm.samples[0].genes[1]).toEqual({ gene_id: 'ENSG00000146648', gene_symbol: 'EGFR', counts: 0, tpm: 3.5, fpkm: null });
+
+    // Imported samples combine like pipeline results
+    expect(buildCountMatrix(counts.samples.map(results => ({ name: results.sample_name, results }))).counts).toEqual([[10, 12], [3.5, 0]]);
+    expect(() => parseExpressionFile('gene,note\nTP53,high\n', 'x.csv')).toThrow('No sample columns found');
+    expect(sampleNameOf('C:\\runs\\S1.sorted.bam')).toBe('S1');
+  });
+});
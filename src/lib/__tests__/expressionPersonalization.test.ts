@@ -0,0 +1,111 @@
+/**
+ * Tests for cohort-normalised, expression-driven network personalisation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  expressionScore,
+  nodeExpressionLevels,
+  parseExpressionReference,
+  personalizeNetworkWithExpression,
+  rnaSeqExpression,
+} from '../expressionPersonalization';
+import { parseExpressionMatrix } from '../patientProfile';
+import type { NetworkData } from '@/types/network';
+
+// Cohort of five samples; values are log2(x + 1) = 0..4 for EGFR
+const cohort = [
+  'gene_name\tS1\tS2\tS3\tS4\tS5',
+  'EGFR\t0\t1\t3\t7\t15',
+  'BCL2\t3\t3\t3\t3\t3',
+  'TP53\t1\t3\t\t7\t15',
+  'MYC\t1\t3\t7\t15\t31',
+].join('\n');
+
+const network: NetworkData = {
+  nodes: [
+    { id: 'egfr', label: 'EGFR', properties: { bias: 0.5 } },
+    { id: 'BCL2', label: 'BCL2' },
+    { id: 'Apoptosis', label: 'Apoptosis' },
+  ],
+  edges: [],
+  metadata: { basalActivity: { Apoptosis: -1 } },
+};
+
+describe('parseExpressionMatrix', () => {
+  it('reads every numeric column after the gene column as a sample', () => {
+    expect(parseExpressionMatrix('gene,description,A,B\nENSG00000146648.18,receptor,1,2\nEGFR,receptor,3,4\nEGFR,dup,0,1\n')).toEqual({
+      ENSG00000146648: [1, 2],
+      EGFR: [3, 4],
+    });
+    expect(() => parseExpressionMatrix('gene,note\nEGFR,high\n')).toThrow('No sample columns found');
+  });
+});
+
+describe('expression reference', () => {
+  const reference = parseExpressionReference(cohort, 'tcga:breast', 'cohort.tsv');
+
+  it('summarises each gene on a log2 scale', () => {
+    expect(reference).toMatchObject({ cohort: 'tcga:breast', source: 'cohort.tsv', sampleCount: 5 });
+    expect(Object.keys(reference.genes)).toEqual(['egfr', 'bcl2', 'tp53', 'myc']);
+    const egfr = reference.genes.egfr;
+    expect(egfr.mean).toBe(2);
+    expect(egfr.sd).toBeCloseTo(Math.sqrt(2.5));
+    expect(egfr.quantiles).toHaveLength(21);
+    expect(egfr.quantiles[0]).toBe(0);
+    expect(egfr.quantiles[10]).toBe(2);
+    expect(egfr.quantiles[20]).toBe(4);
+    // Blank cells are missing samples
+    expect(reference.genes.tp53.mean).toBe(2.5);
+    expect(() => parseExpressionReference('gene\tS1\nEGFR\t1\n', 'x', 'x.tsv')).toThrow('at least two samples');
+  });
+
+  it('scores values as z-scores or percentiles', () => {
+    const egfr = reference.genes.egfr;
+    expect(expressionScore(3, egfr, 'z-score').score).toBe(0);
+    expect(expressionScore(3, egfr, 'z-score').level).toBeCloseTo(0.5);
+    expect(expressionScore(15, egfr, 'z-score').level).toBeCloseTo(0.8970, 3);
+    expect(expressionScore(3, egfr, 'percentile')).toEqual({ score: 0.5, level: 0.5 });
+    expect(expressionScore(2, egfr, 'percentile').score).toBeCloseTo(0.25 + 0.25 * (Math.log2(3) - 1));
+    expect(expressionScore(100, egfr, 'percentile').level).toBe(1);
+    expect(expressionScore(0, egfr, 'percentile').level).toBe(0);
+    // No spread in the cohort: its value sits at the middle
+    expect(expressionScore(100, reference.genes.bcl2, 'z-score').level).toBeCloseTo(0.5);
+    expect(expressionScore(3, reference.genes.bcl2, 'percentile').level).toBe(0.5);
+    expect(expressionScore(4, reference.genes.bcl2, 'percentile').level).toBe(1);
+  });
+
+  it('turns node levels into probabilities, basal activity and biases', () => {
+    const { levels, unmatchedNodes } = nodeExpressionLevels(network, { EGFR: 15, bcl2: 3, MYC: 1, ENSG1: 4 }, reference, 'percentile');
+    expect(levels).toEqual([
+      { node: 'egfr', gene: 'EGFR', value: 15, score: 1, level: 1 },
+      { node: 'BCL2', gene: 'bcl2', value: 3, score: 0.5, level: 0.5 },
+    ]);
+    expect(unmatchedNodes).toEqual(['Apoptosis']);
+
+    const personalized = personalizeNetworkWithExpression(network, [{ ...levels[0], level: 0.25 }, levels[1]]);
+    expect(personalized.metadata).toEqual({
+      initialProbabilities: { egfr: 0.25, BCL2: 0.5 },
+      basalActivity: { Apoptosis: -1, egfr: -0.5, BCL2: 0 },
+    });
+    expect(personalized.nodes.map(n => n.properties?.bias)).toEqual([0, 0, undefined]);
+    expect(network.nodes[0].properties?.bias).toBe(0.5);
+  });
+});
+
+describe('rnaSeqExpression', () => {
+  it('prefers TPM and falls back to counts', () => {
+    expect(rnaSeqExpression({
+      job_id: 'job-1',
+      sample_name: 'S1',
+      gene_count: 2,
+      total_counts: 30,
+      mapping_rate: null,
+      completed_at: '',
+      genes: [
+        { gene_id: 'ENSG00000146648', gene_symbol: 'EGFR', counts: 10, tpm: 2.5, fpkm: null },
+        { gene_id: 'ENSG00000171791', gene_symbol: '', counts: 20, tpm: null, fpkm: null },
+      ],
+    })).toEqual({ EGFR: 2.5, ENSG00000171791: 20 });
+  });
+});
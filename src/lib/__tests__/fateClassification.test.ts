@@ -0,0 +1,86 @@
+/**
+ * Tests for classifying attractors against project fate definitions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyAttractors, formatFateConditions, parseFateConditions } from '../fateClassification';
+import type { DeterministicAttractor } from '../analysis/types';
+import type { FateDefinition } from '@/types/network';
+
+const attractor = (id: number, states: string[]): DeterministicAttractor => ({
+  id,
+  type: states.length > 1 ? 'limit-cycle' : 'fixed-point',
+  period: states.length,
+  states: states.map(binary => ({ binary, values: {} })),
+  basinSize: 1,
+  basinShare: 0.5,
+});
+
+const definition = (id: string, conditions: string): FateDefinition => ({
+  id,
+  name: id,
+  color: '#000000',
+  conditions: parseFateConditions(conditions).conditions,
+});
+
+// Nodes: Casp3, Bcl2, Myc (labelled "MYC")
+const nodeOrder = ['Casp3', 'Bcl2', 'n3'];
+const nodeLabels = { Casp3: 'Casp3', Bcl2: 'Bcl2', n3: 'MYC' };
+
+describe('parseFateConditions', () => {
+  it('reads the supported notations', () => {
+    const expected = [{ node: 'Casp3', active: true }, { node: 'Bcl2', active: false }];
+
+    expect(parseFateConditions('Casp3 ON & Bcl2 OFF').conditions).toEqual(expected);
+    expect(parseFateConditions('Casp3 && !Bcl2').conditions).toEqual(expected);
+    expect(parseFateConditions('Casp3=1, Bcl2 = 0').conditions).toEqual(expected);
+    expect(formatFateConditions(expected)).toBe('Casp3 ON & Bcl2 OFF');
+  });
+
+  it('reports unreadable, repeated and missing conditions', () => {
+    expect(parseFateConditions('Casp3 maybe & Casp3 OFF & Casp3 ON').errors).toEqual([
+      'Cannot read marker condition "Casp3 maybe".',
+      'Marker "Casp3" is listed twice.',
+    ]);
+    expect(parseFateConditions(' ').errors).toEqual(['A fate needs at least one marker condition.']);
+  });
+});
+
+describe('classifyAttractors', () => {
+  const apoptosis = definition('Apoptosis', 'Casp3 ON & Bcl2 OFF');
+  const proliferation = definition('Proliferation', 'myc ON & Casp3 OFF');
+
+  it('classifies attractors and flags unmatched and ambiguous ones', () => {
+    const result = {
+      nodeOrder,
+      nodeLabels,
+      attractors: [attractor(0, ['100']), attractor(1, ['011']), attractor(2, ['010']), attractor(3, ['111'])],
+    };
+    const { calls, warnings } = classifyAttractors(result, [apoptosis, proliferation, definition('Quiet', 'Casp3 OFF & Bcl2 ON & myc OFF & Foo ON')]);
+
+    expect(warnings).toEqual(['Quiet: marker "Foo" is not in this network.']);
+    expect(calls.map(c => [c.status, c.definitionId, c.confidence])).toEqual([
+      ['matched', 'Apoptosis', 1],
+      ['matched', 'Proliferation', 1],
+      ['matched', 'Quiet', 0.75],
+      ['unmatched', null, 0],
+    ]);
+
+    const ambiguous = classifyAttractors(result, [apoptosis, proliferation], 0.5).calls[3];
+    expect(ambiguous.status).toBe('ambiguous');
+    expect(ambiguous.candidates).toEqual([
+      { definitionId: 'Apoptosis', confidence: 0.5 },
+      { definitionId: 'Proliferation', confidence: 0.5 },
+    ]);
+  });
+
+  it('lowers confidence when markers hold only part of a cycle', () => {
+    const result = { nodeOrder, nodeLabels, attractors: [attractor(0, ['100', '100', '110', '000'])] };
+    const [call] = classifyAttractors(result, [apoptosis]).calls;
+
+    // Both markers hold in two states, one in each of the others
+    expect(call.confidence).toBe(0.75);
+    expect(call.status).toBe('matched');
+    expect(classifyAttractors(result, [apoptosis], 0.8).calls[0].status).toBe('unmatched');
+  });
+});
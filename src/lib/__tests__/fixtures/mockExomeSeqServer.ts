@@ -0,0 +1,97 @@
+/**
+ * Local mock of the Exome-seq microservice for tests.
+ *
+ * Serves the same routes as the real service on a random localhost port:
+ * POST /analyze (multipart upload, answers 400 when a required file is
+ * missing), GET /status/:id (steps through `statuses`, then stays on the last)
+ * and GET /results/:id. Point the client at it with `VITE_EXOME_API_URL`.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { ExomeSeqJobStatus, RawExomeSeqResults } from '../../exomeSeqApi';
+
+const REQUIRED_FILES = ['tumor_fastq_1', 'tumor_fastq_2', 'reference', 'targets'];
+
+export interface MockExomeSeqServer {
+  url: string;
+  /** Form fields of every accepted submission: file names for files, values otherwise. */
+  submissions: Record<string, string>[];
+  close: () => Promise<void>;
+}
+
+export interface MockExomeSeqServerOptions {
+  /** Job states returned by successive status requests. */
+  statuses?: Array<Pick<ExomeSeqJobStatus, 'state' | 'progress_percent' | 'current_stage' | 'error_message'>>;
+  results?: RawExomeSeqResults;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+async function readForm(req: IncomingMessage): Promise<FormData> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new Response(Buffer.concat(chunks), {
+    headers: { 'Content-Type': req.headers['content-type'] ?? '' },
+  }).formData();
+}
+
+export async function startMockExomeSeqServer(options: MockExomeSeqServerOptions = {}): Promise<MockExomeSeqServer> {
+  const statuses = options.statuses ?? [
+    { state: 'running', progress_percent: 50, current_stage: 'Calling variants' },
+    { state: 'completed', progress_percent: 100, current_stage: 'Done' },
+  ];
+  const submissions: Record<string, string>[] = [];
+  const polls = new Map<string, number>();
+
+  const server = createServer(async (req, res) => {
+    const [, route, jobId] = (req.url ?? '').split('/');
+
+    if (req.method === 'POST' && route === 'analyze') {
+      const form = await readForm(req);
+      const missing = REQUIRED_FILES.filter((name) => !(form.get(name) instanceof Blob));
+      if (missing.length > 0) {
+        res.writeHead(400, { 'Content-Type': 'text/plain' });
+        res.end(`Missing files: ${missing.join(', ')}`);
+        return;
+      }
+      const fields: Record<string, string> = {};
+      form.forEach((value, name) => {
+        fields[name] = typeof value === 'string' ? value : value.name;
+      });
+      submissions.push(fields);
+      const id = `job-${submissions.length}`;
+      polls.set(id, 0);
+      sendJson(res, 202, { job_id: id, status_url: `/status/${id}`, results_url: `/results/${id}` });
+      return;
+    }
+
+    if (req.method === 'GET' && jobId && polls.has(jobId)) {
+      if (route === 'status') {
+        const count = polls.get(jobId)!;
+        polls.set(jobId, count + 1);
+        sendJson(res, 200, { job_id: jobId, ...statuses[Math.min(count, statuses.length - 1)] });
+        return;
+      }
+      if (route === 'results') {
+        sendJson(res, 200, { job_id: jobId, ...options.results });
+        return;
+      }
+    }
+
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end(`Unknown job or route: ${req.url}`);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    submissions,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
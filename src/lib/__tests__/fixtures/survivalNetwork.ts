@@ -0,0 +1,39 @@
+/**
+ * Rule-based test networks: a builder from rule text, and a small network
+ * shared by the intervention, combination and drug score tests.
+ *
+ * Survival signalling keeps Bcl2 up, which blocks stress-induced Casp3 and
+ * apoptosis. Signal and Stress are self-sustaining inputs, so apoptosis is
+ * reached from a quarter of the state space.
+ */
+
+import type { NetworkData } from '@/types/network';
+
+export interface SurvivalNodeNames {
+  signal?: string;
+  bcl2?: string;
+  casp3?: string;
+}
+
+/** Rule-based network with one node per rule, labelled by its id. */
+export function ruleNetwork(rules: Record<string, string>): NetworkData {
+  return {
+    nodes: Object.keys(rules).map(id => ({ id, label: id })),
+    edges: [],
+    rules: Object.entries(rules).map(([name, action]) => ({ name, action })),
+  };
+}
+
+/** The survival network, with its signalling nodes optionally renamed (e.g. to gene symbols). */
+export function survivalNetwork({ signal = 'Signal', bcl2 = 'Bcl2', casp3 = 'Casp3' }: SurvivalNodeNames = {}): NetworkData {
+  return ruleNetwork({
+    [signal]: signal,
+    Stress: 'Stress',
+    [bcl2]: signal,
+    [casp3]: `!${bcl2} && Stress`,
+    Apoptosis: casp3,
+  });
+}
+
+/** Phenotype the tests try to reach. */
+export const apoptosisTarget = { Apoptosis: 1 as const };
@@ -0,0 +1,74 @@
+/**
+ * Tests for the minimal knock-in/knock-out intervention set search.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { interventionSetLabel, interventionTherapies, performInterventionSearch } from '../interventionSearch';
+import { applyTherapiesToNetwork } from '../applyTherapies';
+import { runInterventionSearchAsync } from '../analysis/analysisRuntime';
+import { apoptosisTarget, survivalNetwork } from './fixtures/survivalNetwork';
+
+const network = survivalNetwork();
+const target = apoptosisTarget;
+
+describe('performInterventionSearch', () => {
+  it('ranks single perturbations by the target basin share', () => {
+    const result = performInterventionSearch(network, { target, maxSize: 1 });
+
+    expect(result.baselineShare).toBe(0.25);
+    expect(result.evaluated).toBe(8);
+    expect(interventionSetLabel(result.sets[0].perturbations)).toBe('Casp3 KI');
+    expect(result.sets[0]).toMatchObject({ targetShare: 1, sufficient: true });
+    const bcl2 = result.sets.find(s => interventionSetLabel(s.perturbations) === 'Bcl2 KO')!;
+    expect(bcl2.targetShare).toBe(0.5);
+    // The target node itself is never perturbed
+    expect(result.sets.some(s => s.perturbations.some(p => p.node === 'Apoptosis'))).toBe(false);
+  });
+
+  it('finds minimal pairs and skips their supersets', () => {
+    const result = performInterventionSearch(network, { target, candidates: ['Signal', 'Stress', 'Bcl2'] });
+    const best = result.sets.filter(s => s.targetShare === 1).map(s => interventionSetLabel(s.perturbations)).sort();
+
+    expect(best).toEqual(['Bcl2 KO + Stress KI', 'Signal KO + Stress KI']);
+    // No listed set contains one of the sufficient pairs
+    const labels = result.sets.map(s => interventionSetLabel(s.perturbations));
+    expect(labels.filter(label => label.includes('Stress KI') && (label.includes('Bcl2 KO') || label.includes('Signal KO'))).sort()).toEqual(best);
+    expect(result.pruned).toBeGreaterThan(0);
+    expect(result.budgetExhausted).toBe(false);
+  });
+
+  it('stops at the budget', () => {
+    const result = performInterventionSearch(network, { target, budget: 3 });
+
+    expect(result.evaluated).toBe(3);
+    expect(result.budgetExhausted).toBe(true);
+    expect(result.warnings).toContain('The budget of 3 analyses ran out; larger sets were not all tried.');
+  });
+
+  it('expresses perturbations as therapeutic interventions', () => {
+    const therapies = interventionTherapies([{ node: 'Bcl2', kind: 'knock-out' }, { node: 'Stress', kind: 'knock-in' }]);
+    const modified = applyTherapiesToNetwork(network, therapies);
+
+    expect(therapies.map(t => [t.type, t.fixedValue])).toEqual([['knock-out', 0], ['knock-in', 1]]);
+    expect(modified.rules?.find(r => r.name === 'Bcl2')?.action).toBe('0');
+    expect(modified.rules?.find(r => r.name === 'Stress')?.action).toBe('1');
+  });
+
+  it('rejects searches it cannot run', () => {
+    expect(() => performInterventionSearch(network, { target: {} })).toThrow('needs a target phenotype');
+    expect(() => performInterventionSearch(network, { target, maxSize: 4 })).toThrow('1 to 3 perturbations');
+    expect(() => performInterventionSearch({ ...network, rules: [] }, { target })).toThrow('rule-based network');
+    expect(() => performInterventionSearch(network, { target, candidates: [] })).toThrow('No nodes left to perturb.');
+  });
+
+  it('runs through the analysis runtime with progress', async () => {
+    const progress: number[] = [];
+    const options = { target, maxSize: 1 };
+    const result = await runInterventionSearchAsync(network, options, {
+      onProgress: (p) => progress.push(p.explored),
+    });
+
+    expect(result).toEqual(performInterventionSearch(network, options));
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for mutation classification and mutation-driven network personalisation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  classifyMutations,
+  mutationEffect,
+  personalizeNetworkWithMutations,
+  variantsToMutations,
+} from '../mutationPersonalization';
+import { performDeterministicAnalysis } from '../deterministicAnalysis';
+import type { PatientMutation } from '../analysis/types';
+import { ruleNetwork } from './fixtures/survivalNetwork';
+
+// Growth signalling through KRAS is held back by PTEN; TP53 drives apoptosis
+const network = ruleNetwork({
+  KRAS: 'KRAS',
+  PTEN: '!KRAS',
+  Growth: 'KRAS && !PTEN',
+  TP53: '!Growth',
+  Apoptosis: 'TP53',
+});
+const roles = { oncogenes: ['kras'], tumorSuppressors: ['TP53', 'PTEN'] };
+
+describe('mutationEffect', () => {
+  it('reads MAF and VEP consequences against the gene roles', () => {
+    const effect = (gene: string, classification: string) => mutationEffect({ gene, classification }, roles);
+
+    expect(effect('KRAS', 'Missense_Mutation')).toBe('gain-of-function');
+    expect(effect('TP53', 'missense_variant')).toBe('loss-of-function');
+    expect(effect('PTEN', 'inframe_deletion&splice_region_variant')).toBe('loss-of-function');
+    // Truncation inactivates whatever the gene's role
+    expect(effect('KRAS', 'stop_gained')).toBe('loss-of-function');
+    expect(effect('BRCA2', 'Frame_Shift_Ins')).toBe('loss-of-function');
+    expect(effect('BRCA2', 'Missense_Mutation')).toBe('unknown-role');
+    expect(effect('KRAS', 'Silent')).toBe('no-protein-change');
+    expect(effect('KRAS', 'intron_variant')).toBe('no-protein-change');
+    expect(mutationEffect({ gene: 'KRAS', classification: 'Missense_Mutation' }, { oncogenes: ['KRAS'], tumorSuppressors: ['KRAS'] }))
+      .toBe('unknown-role');
+  });
+});
+
+describe('classifyMutations', () => {
+  it('calls each node once and explains the mutations it leaves out', () => {
+    const mutations: PatientMutation[] = [
+      { gene: 'Kras', classification: 'Missense_Mutation', protein: 'p.G12D' },
+      { gene: 'TP53', classification: 'Missense_Mutation', protein: 'p.R175H' },
+      { gene: 'TP53', classification: 'Nonsense_Mutation', protein: 'p.R213*' },
+      { gene: 'PTEN', classification: 'Silent' },
+      { gene: 'EGFR', classification: 'Missense_Mutation' },
+    ];
+    const { calls, unclassified } = classifyMutations(network, mutations, roles);
+
+    expect(calls).toEqual([
+      { gene: 'Kras', node: 'KRAS', source: 'mutation', kind: 'knock-in', detail: 'Missense_Mutation p.G12D', effect: 'gain-of-function' },
+      { gene: 'TP53', node: 'TP53', source: 'mutation', kind: 'knock-out', detail: 'Missense_Mutation p.R175H', effect: 'loss-of-function' },
+    ]);
+    expect(unclassified.map(u => [u.mutation.gene, u.reason])).toEqual([
+      ['TP53', 'superseded'],
+      ['PTEN', 'no-protein-change'],
+      ['EGFR', 'not-in-network'],
+    ]);
+  });
+
+  it('lets loss of function override gain of function on the same node', () => {
+    const { calls, unclassified } = classifyMutations(network, [
+      { gene: 'KRAS', classification: 'Missense_Mutation' },
+      { gene: 'KRAS', classification: 'Frame_Shift_Del' },
+    ], roles);
+
+    expect(calls.map(c => `${c.node} ${c.effect} ${c.detail}`)).toEqual(['KRAS loss-of-function Frame_Shift_Del']);
+    expect(unclassified).toEqual([{ mutation: { gene: 'KRAS', classification: 'Missense_Mutation' }, reason: 'superseded' }]);
+  });
+});
+
+describe('personalizeNetworkWithMutations', () => {
+  it('fixes the called nodes and changes the attractors', () => {
+    const { calls } = classifyMutations(network, [
+      { gene: 'KRAS', classification: 'missense_variant' },
+      { gene: 'PTEN', classification: 'stop_gained' },
+    ], roles);
+    const personalized = personalizeNetworkWithMutations(network, calls);
+
+    expect(personalized.rules!.find(r => r.name === 'KRAS')!.action).toBe('1');
+    expect(personalized.rules!.find(r => r.name === 'PTEN')!.action).toBe('0');
+    expect(personalized.nodes).toHaveLength(network.nodes.length);
+    expect(network.rules!.find(r => r.name === 'KRAS')!.action).toBe('KRAS');
+
+    // Active KRAS without PTEN leaves a single growing, non-apoptotic attractor
+    const result = performDeterministicAnalysis(personalized.rules!.map(r => `${r.name} = ${r.action}`));
+    expect(result.attractors).toHaveLength(1);
+    const state = result.attractors[0].states[0].values;
+    expect(state).toMatchObject({ Growth: 1, Apoptosis: 0 });
+
+    expect(personalizeNetworkWithMutations(network, [])).toBe(network);
+  });
+});
+
+describe('variantsToMutations', () => {
+  it('keeps annotated variants with their protein change', () => {
+    const variant = { chromosome: '12', position: 1, ref: 'C', alt: 'T', hgvs_c: '', vaf: 0.4, depth: 100 };
+    expect(variantsToMutations([
+      { ...variant, gene: 'KRAS', consequence: 'missense_variant', hgvs_p: 'p.G12D' },
+      { ...variant, gene: 'TP53', consequence: 'stop_gained', hgvs_p: '' },
+      { ...variant, gene: '', consequence: 'missense_variant', hgvs_p: '' },
+    ])).toEqual([
+      { gene: 'KRAS', classification: 'missense_variant', protein: 'p.G12D' },
+      { gene: 'TP53', classification: 'stop_gained' },
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for patient profile parsing, network personalisation and drug scoring.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCopyNumberTable, parseExpressionTable, parseMaf } from '../patientProfile';
+import { patientAlterations, patientDrugScoresToCsv, performPatientDrugScores } from '../patientDrugScores';
+import { runPatientDrugScoresAsync } from '../analysis/analysisRuntime';
+import { buildExpressionReference } from '../expressionPersonalization';
+import type { DrugTargetEntry } from '../analysis/types';
+import { apoptosisTarget, survivalNetwork } from './fixtures/survivalNetwork';
+
+// Signalling nodes named after the genes the drugs target
+const network = survivalNetwork({ signal: 'EGFR', bcl2: 'BCL2', casp3: 'CASP3' });
+const target = apoptosisTarget;
+
+const drugs: DrugTargetEntry[] = [
+  { drug: 'Erlotinib', gene: 'EGFR', status: 'approved', interaction: 'direct-target', action: 'inhibitor', cancerTypes: ['lung'] },
+  { drug: 'Venetoclax', gene: 'BCL2', status: 'approved', interaction: 'direct-target', action: 'inhibitor' },
+  { drug: 'Venetoclax', gene: 'TP53', status: 'approved', interaction: 'biomarker', action: 'inhibitor' },
+  { drug: 'Stressor', gene: 'STRESS', status: 'experimental', interaction: 'pathway-member', action: 'activator' },
+  { drug: 'Olaparib', gene: 'PARP1', status: 'approved', interaction: 'direct-target', action: 'inhibitor' },
+];
+
+describe('patient profile parsing', () => {
+  it('reads expression, MAF and copy-number tables', () => {
+    const expression = parseExpressionTable(
+      'gene_id\tgene_name\tunstranded\ttpm_unstranded\nENSG00000146648.18\tEGFR\t120\t8.5\nENSG00000171791.14\tBCL2\t3\t0.2\nX\tBCL2\t9\t0.7\n',
+    );
+    expect(expression).toEqual({ EGFR: 8.5, BCL2: 0.7 });
+    expect(parseExpressionTable('gene,value\nTP53,4\n')).toEqual({ TP53: 4 });
+
+    const maf = parseMaf(
+      '#version 2.4\nHugo_Symbol\tChromosome\tVariant_Classification\tHGVSp_Short\nTP53\t17\tNonsense_Mutation\tp.R213*\nKRAS\t12\tMissense_Mutation\t\n',
+    );
+    expect(maf).toEqual([
+      { gene: 'TP53', classification: 'Nonsense_Mutation', protein: 'p.R213*' },
+      { gene: 'KRAS', classification: 'Missense_Mutation' },
+    ]);
+    expect(() => parseMaf('gene\tvalue\nTP53\t1\n')).toThrow('Hugo_Symbol and Variant_Classification');
+
+    expect(parseCopyNumberTable('gene\tLocus ID\tCytoband\tcall\nEGFR\t1956\t7p11.2\t2\n')).toEqual({ EGFR: 2 });
+    expect(() => parseCopyNumberTable('gene\tnote\nEGFR\tamplified\n')).toThrow('No copy-number column');
+  });
+
+  it('fixes each node to its strongest alteration', () => {
+    const expression = Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`G${i}`, 10 + i]));
+    const { alterations, warnings } = patientAlterations(network, {
+      expression: { ...expression, casp3: 0, Stress: 0 },
+      mutations: [
+        { gene: 'Stress', classification: 'Missense_Mutation' },
+        { gene: 'BCL2', classification: 'Frame_Shift_Del', protein: 'p.G12fs' },
+      ],
+      copyNumber: { BCL2: 2, EGFR: 2, Apoptosis: -1 },
+    });
+
+    expect(alterations).toEqual([
+      { gene: 'EGFR', node: 'EGFR', source: 'copy-number', kind: 'knock-in', detail: 'copy number 2' },
+      { gene: 'Stress', node: 'Stress', source: 'expression', kind: 'knock-out', detail: 'expression 0 (percentile 0)' },
+      { gene: 'BCL2', node: 'BCL2', source: 'mutation', kind: 'knock-out', detail: 'Frame_Shift_Del p.G12fs' },
+      { gene: 'casp3', node: 'CASP3', source: 'expression', kind: 'knock-out', detail: 'expression 0 (percentile 0)' },
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('ranks expression against a cohort reference when one is given', () => {
+    const expressionReference = buildExpressionReference(
+      { EGFR: [20, 40, 60, 80], BCL2: [1, 2, 3, 4], Stress: [5, 6, 7, 8] },
+      'tcga:lung',
+      'cohort.tsv',
+    );
+    // EGFR is the sample's top gene yet low for the cohort; CASP3 is not in the reference
+    const { alterations, warnings } = patientAlterations(network, {
+      expression: { EGFR: 10, BCL2: 3, Stress: 7, CASP3: 0 },
+      expressionReference,
+    });
+
+    expect(alterations).toEqual([
+      { gene: 'EGFR', node: 'EGFR', source: 'expression', kind: 'knock-out', detail: 'expression 10 (cohort percentile 0)' },
+    ]);
+    expect(warnings).toEqual(['1 network gene(s) are missing from the tcga:lung reference; their expression is not used.']);
+  });
+
+  it('classifies mutations like mutation personalisation', () => {
+    const { alterations } = patientAlterations(network, {
+      mutations: [
+        { gene: 'EGFR', classification: 'Missense_Mutation', protein: 'p.L858R' },
+        { gene: 'BCL2', classification: 'Silent' },
+      ],
+      copyNumber: { EGFR: -2 },
+    });
+
+    // An activating missense change in an oncogene outranks its deletion
+    expect(alterations).toEqual([
+      { gene: 'EGFR', node: 'EGFR', source: 'mutation', kind: 'knock-in', detail: 'Missense_Mutation p.L858R' },
+    ]);
+  });
+});
+
+describe('performPatientDrugScores', () => {
+  it('ranks drugs by their effect on the personalised network', () => {
+    const result = performPatientDrugScores(network, {
+      profile: { copyNumber: { Stress: 2 }, mutations: [{ gene: 'TP53', classification: 'Nonsense_Mutation' }] },
+      drugs,
+      target,
+    });
+
+    // Stress is amplified, so only survival signalling keeps the cells alive
+    expect(result.alterations.map(a => `${a.node} ${a.kind}`)).toEqual(['Stress knock-in']);
+    expect(result.baselineShare).toBe(0.5);
+    expect(result.scores.map(s => [s.drug, s.targetShare, s.score])).toEqual([
+      ['Erlotinib', 1, 0.5],
+      ['Venetoclax', 1, 0.5],
+      ['Stressor', 0.5, 0],
+    ]);
+    // TP53 is not a network node, so the biomarker cannot be matched
+    expect(result.scores[1].biomarkers).toEqual([]);
+    expect(result.unmappedDrugs).toEqual(['Olaparib']);
+  });
+
+  it('applies status, interaction and cancer-type filters', () => {
+    const score = (options: Partial<Parameters<typeof performPatientDrugScores>[1]>) =>
+      performPatientDrugScores(network, { profile: {}, drugs, target, ...options }).scores.map(s => s.drug).sort();
+
+    expect(score({ statuses: ['experimental'] })).toEqual(['Stressor']);
+    expect(score({ interactions: ['pathway-member'] })).toEqual(['Stressor']);
+    expect(score({ cancerType: 'breast' })).toEqual(['Stressor', 'Venetoclax']);
+    expect(performPatientDrugScores(network, { profile: {}, drugs, target, statuses: ['clinical-trials'] }).warnings)
+      .toContain('No drug in the drug–target table passes the filters.');
+  });
+
+  it('reports matched biomarkers and exports CSV', () => {
+    const withBiomarker = drugs.map(d => (d.gene === 'TP53' ? { ...d, gene: 'Stress' } : d));
+    const result = performPatientDrugScores(network, {
+      profile: { copyNumber: { Stress: 2 } },
+      drugs: withBiomarker,
+      target,
+      statuses: ['approved'],
+    });
+
+    expect(result.scores.find(s => s.drug === 'Venetoclax')!.biomarkers).toEqual(['Stress']);
+    // Ties are broken by matched biomarkers
+    expect(patientDrugScoresToCsv(result).split('\n').slice(0, 3)).toEqual([
+      'rank,drug,status,perturbations,biomarkers,target share,score',
+      '1,Venetoclax,approved,BCL2 KO,Stress,1,0.5',
+      '2,Erlotinib,approved,EGFR KO,,1,0.5',
+    ]);
+  });
+
+  it('reports gene dependencies as context instead of perturbing them', () => {
+    const result = performPatientDrugScores(network, {
+      profile: { copyNumber: { Stress: 2 } },
+      drugs: [
+        { drug: 'Adavosertib', gene: 'EGFR', status: 'clinical-trials', interaction: 'direct-target', action: 'inhibitor' },
+        { drug: 'Adavosertib', gene: 'Stress', status: 'clinical-trials', interaction: 'gene-dependency', action: 'inhibitor' },
+        { drug: 'Dependency only', gene: 'BCL2', status: 'clinical-trials', interaction: 'gene-dependency', action: 'inhibitor' },
+      ],
+      target,
+    });
+
+    expect(result.scores).toHaveLength(1);
+    expect(result.scores[0]).toMatchObject({
+      drug: 'Adavosertib',
+      perturbations: [{ node: 'EGFR', kind: 'knock-out' }],
+      biomarkers: ['Stress'],
+    });
+    expect(result.unmappedDrugs).toEqual(['Dependency only']);
+  });
+
+  it('rejects scores it cannot compute and warns about unused data', () => {
+    expect(() => performPatientDrugScores(network, { profile: {}, drugs, target: {} })).toThrow('need a target phenotype');
+    expect(() => performPatientDrugScores({ ...network, rules: [] }, { profile: {}, drugs, target })).toThrow('need a rule-based network');
+    const result = performPatientDrugScores(network, { profile: { copyNumber: { MYC: 1.5 } }, drugs, target });
+    expect(result.warnings).toEqual([
+      'Copy-number values are read as GISTIC calls (-2 to 2); values outside that scale may be misread.',
+      'No patient alteration hits a network node; drugs are scored on the unpersonalised network.',
+    ]);
+  });
+
+  it('runs through the analysis runtime with progress', async () => {
+    const progress: number[] = [];
+    const options = { profile: {}, drugs, target };
+    const result = await runPatientDrugScoresAsync(network, options, {
+      onProgress: (p) => progress.push(p.explored),
+    });
+
+    expect(result).toEqual(performPatientDrugScores(network, options));
+    expect(progress).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for probabilistic Boolean network steady-state analysis.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { performPbnAnalysis } from '../pbnAnalysis';
+
+describe('performPbnAnalysis (exact)', () => {
+  it('weights alternatives by their probabilities', () => {
+    const result = performPbnAnalysis(['A = 1 @ 0.7', 'A = 0 @ 0.3']);
+
+    expect(result.method).toBe('exact');
+    expect(result.converged).toBe(true);
+    expect(result.nodeProbabilities.A).toBeCloseTo(0.7, 6);
+    expect(result.attractors).toHaveLength(1);
+    expect(result.attractors[0]).toMatchObject({ type: 'complex-attractor', size: 2 });
+    expect(result.attractors[0].probability).toBeCloseTo(1, 6);
+  });
+
+  it('splits the steady state between attractors by basin from the uniform start', () => {
+    const result = performPbnAnalysis(['A = A', 'B = A']);
+
+    expect(result.attractors.map(a => [a.type, a.states[0].binary])).toEqual([
+      ['fixed-point', '00'],
+      ['fixed-point', '11'],
+    ]);
+    for (const attractor of result.attractors) expect(attractor.probability).toBeCloseTo(0.5, 6);
+    expect(result.nodeProbabilities.B).toBeCloseTo(0.5, 6);
+  });
+
+  it('averages over limit cycles instead of oscillating', () => {
+    const result = performPbnAnalysis(['A = !B', 'B = A']);
+
+    expect(result.converged).toBe(true);
+    expect(result.attractors).toHaveLength(1);
+    expect(result.attractors[0]).toMatchObject({ type: 'limit-cycle', size: 4 });
+    expect(result.nodeProbabilities.A).toBeCloseTo(0.5, 6);
+  });
+
+  it('leaves attractors through perturbations', () => {
+    const result = performPbnAnalysis(['A = 0'], { perturbation: 0.1 });
+
+    expect(result.nodeProbabilities.A).toBeCloseTo(0.1, 6);
+    expect(result.attractors[0].probability).toBeCloseTo(0.9, 6);
+    expect(result.transientProbability).toBeCloseTo(0.1, 6);
+  });
+});
+
+describe('performPbnAnalysis (Monte Carlo)', () => {
+  it('agrees with the exact steady state', () => {
+    const rules = ['A = B @ 0.8', 'A = !B @ 0.2', 'B = A'];
+    const exact = performPbnAnalysis(rules);
+    const sampled = performPbnAnalysis(rules, { method: 'monte-carlo', trajectories: 100, samples: 500, seed: 5 });
+
+    expect(sampled.method).toBe('monte-carlo');
+    expect(sampled.nodeProbabilities.A).toBeCloseTo(exact.nodeProbabilities.A, 1);
+    expect(sampled.attractors.map(a => a.size)).toEqual(exact.attractors.map(a => a.size));
+    expect(sampled.transientProbability).toBeCloseTo(0, 6);
+  });
+
+  it('is reproducible for a seed', () => {
+    const options = { method: 'monte-carlo' as const, trajectories: 20, samples: 50, perturbation: 0.05, seed: 11 };
+    const rules = ['A = B @ 0.5', 'A = 1 @ 0.5', 'B = !A'];
+
+    expect(performPbnAnalysis(rules, options)).toEqual(performPbnAnalysis(rules, options));
+  });
+
+  it('falls back to sampling beyond the exact size limit', () => {
+    const rules = ['N0 = 1', ...Array.from({ length: 13 }, (_, i) => `N${i + 1} = N${i}`)];
+    const result = performPbnAnalysis(rules, { method: 'exact', trajectories: 5, burnIn: 20, samples: 10, seed: 1 });
+
+    expect(result.method).toBe('monte-carlo');
+    expect(result.warnings).toEqual(['Exact analysis supports up to 12 nodes; using Monte Carlo sampling.']);
+    expect(Object.values(result.nodeProbabilities)).toEqual(Array(14).fill(1));
+    expect(result.attractors).toMatchObject([{ type: 'fixed-point', probability: 1 }]);
+  });
+});
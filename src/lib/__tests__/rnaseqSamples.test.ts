@@ -0,0 +1,121 @@
+/**
+ * Tests for RNA-seq sample sheets, batch submission and count matrices.
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  buildCountMatrix,
+  countMatrixToCsv,
+  parseSampleSheet,
+  refreshRNASeqSamples,
+  sampleSheetToCsv,
+  submitRNASeqBatch,
+  type RNASeqSample,
+} from '../rnaseqSamples';
+import type { RNASeqResults } from '../rnaseqApi';
+
+const file = (name: string) => new File(['data'], name);
+
+describe('parseSampleSheet', () => {
+  it('reads nf-core style sheets and keeps only file names', () => {
+    const samples = parseSampleSheet([
+      'sample,condition,fastq_1,fastq_2',
+      'C1,control,/data/C1_R1.fastq.gz,/data/C1_R2.fastq.gz',
+      'T1,treated,T1_R1.fq.gz,T1_R2.fq.gz',
+    ].join('\n'));
+    expect(samples).toEqual([
+      { name: 'C1', condition: 'control', fastq1: 'C1_R1.fastq.gz', fastq2: 'C1_R2.fastq.gz' },
+      { name: 'T1', condition: 'treated', fastq1: 'T1_R1.fq.gz', fastq2: 'T1_R2.fq.gz' },
+    ]);
+    expect(parseSampleSheet(sampleSheetToCsv(samples))).toEqual(samples);
+    expect(parseSampleSheet('sample_name\tgroup\nS1\tA\n')).toEqual([{ name: 'S1', condition: 'A', fastq1: '', fastq2: '' }]);
+    expect(() => parseSampleSheet('sample,fastq_1\nS1,a.fq.gz\n')).toThrow('sample and condition columns');
+    expect(() => parseSampleSheet('sample,condition\nS1,A\nS1,B\n')).toThrow('"S1" is listed twice');
+  });
+});
+
+describe('batch submission', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('submits each sample with its reads and records jobs and errors', async () => {
+    const submitted: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      if (url.endsWith('/analyze')) {
+        const name = String((init!.body as FormData).get('sample_name'));
+        submitted.push(`${name} ${((init!.body as FormData).get('fastq_1') as File).name}`);
+        return name === 'T2'
+          ? new Response('Disk full', { status: 507 })
+          : Response.json({ job_id: `job-${name}`, status_url: '', results_url: '' });
+      }
+      const jobId = url.split('/').pop();
+      return Response.json(jobId === 'job-C1'
+        ? { job_id: jobId, state: 'failed', progress_percent: 0, current_stage: '', error_message: 'Out of memory' }
+        : { job_id: jobId, state: 'running', progress_percent: 40, current_stage: 'Aligning' });
+    }));
+
+    const samples: RNASeqSample[] = [
+      { name: 'C1', condition: 'control', fastq1: 'C1_R1.fastq.gz', fastq2: 'C1_R2.fastq.gz' },
+      { name: 'C2', condition: 'control', fastq1: 'C2_R1.fastq.gz', fastq2: 'missing.fastq.gz' },
+      { name: 'T1', condition: 'treated', fastq1: 'T1_R1.fastq.gz', fastq2: 'T1_R2.fastq.gz', job_id: 'job-T1', state: 'running' },
+      { name: 'T2', condition: 'treated', fastq1: 'T2_R1.fastq.gz', fastq2: 'T2_R2.fastq.gz' },
+      { name: 'T3', condition: 'treated', fastq1: '', fastq2: '', dataset_id: 'imported-1' },
+    ];
+    const files = ['C1_R1.fastq.gz', 'C1_R2.fastq.gz', 'C2_R1.fastq.gz', 'T2_R1.fastq.gz', 'T2_R2.fastq.gz'].map(file);
+    const progress: number[] = [];
+    const next = await submitRNASeqBatch(samples, files, { reference: file('ref.fa.gz'), annotation: file('genes.gtf.gz') },
+      (sheet) => progress.push(sheet.filter(s => s.job_id || s.error).length));
+
+    expect(submitted).toEqual(['C1 C1_R1.fastq.gz', 'T2 T2_R1.fastq.gz']);
+    expect(progress).toEqual([2, 3, 4]);
+    expect(next[0]).toMatchObject({ job_id: 'job-C1', state: 'pending' });
+    expect(next[1]).toMatchObject({ error: 'Reverse reads (R2) file is required' });
+    expect(next[1].job_id).toBeUndefined();
+    expect(next[2]).toBe(samples[2]);
+    expect(next[3].error).toBe('Failed to submit analysis: Disk full');
+    expect(next[4]).toBe(samples[4]);
+
+    const refreshed = await refreshRNASeqSamples(next);
+    expect(refreshed.map(s => s.state)).toEqual(['failed', undefined, 'running', undefined, undefined]);
+    expect(refreshed[0].error).toBe('Out of memory');
+  });
+});
+
+describe('buildCountMatrix', () => {
+  const results = (genes: RNASeqResults['genes']): RNASeqResults => ({
+    job_id: '', sample_name: '', genes, gene_count: genes.length, total_counts: 0, mapping_rate: null, completed_at: '',
+  });
+
+  it('joins samples on versionless gene ids and fills missing genes with zero', () => {
+    const matrix = buildCountMatrix([
+      { name: 'C1', results: results([
+        { gene_id: 'ENSG00000146648.18', gene_symbol: 'EGFR', counts: 10, tpm: null, fpkm: null },
+        { gene_id: 'ENSG00000136997', gene_symbol: '', counts: 5, tpm: null, fpkm: null },
+      ]) },
+      { name: 'T1', results: results([
+        { gene_id: 'ENSG00000136997', gene_symbol: 'MYC', counts: 7, tpm: null, fpkm: null },
+        { gene_id: 'ENSG00000146648', gene_symbol: 'EGFR', counts: 20, tpm: null, fpkm: null },
+        { gene_id: '', gene_symbol: 'GAPDH', counts: 3, tpm: null, fpkm: null },
+        { gene_id: '', gene_symbol: 'GAPDH', counts: 2, tpm: null, fpkm: null },
+      ]) },
+    ]);
+    expect(matrix).toEqual({
+      genes: ['ENSG00000146648', 'ENSG00000136997', 'GAPDH'],
+      symbols: ['EGFR', 'MYC', 'GAPDH'],
+      samples: ['C1', 'T1'],
+      counts: [[10, 20], [5, 7], [0, 5]],
+    });
+    expect(countMatrixToCsv(matrix).split('\n')).toEqual([
+      'gene_id,gene_symbol,C1,T1',
+      'ENSG00000146648,EGFR,10,20',
+      'ENSG00000136997,MYC,5,7',
+      'GAPDH,GAPDH,0,5',
+    ]);
+    expect(countMatrixToCsv({ ...matrix, symbols: ['EGFR', 'MYC, c-Myc', 'GAPDH'], samples: ['C1', 'T "1"'] }).split('\n').slice(0, 3)).toEqual([
+      'gene_id,gene_symbol,C1,"T ""1"""',
+      'ENSG00000146648,EGFR,10,20',
+      'ENSG00000136997,"MYC, c-Myc",5,7',
+    ]);
+  });
+});
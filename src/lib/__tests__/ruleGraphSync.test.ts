@@ -0,0 +1,80 @@
+/**
+ * Tests for keeping rule-based network rules and edges in step.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseRules } from '../ruleLanguage';
+import {
+  edgeSign,
+  regenerateEdges,
+  ruleRegulations,
+  ruleSkeleton,
+  ruleStrings,
+  skeletonRulesFromEdges,
+} from '../ruleGraphSync';
+
+const nodes = [{ id: 'a', label: 'A' }, { id: 'b', label: 'B' }, { id: 'c', label: 'C' }, { id: 'T' }];
+
+describe('ruleGraphSync', () => {
+  it('reads edge signs from the edge type, falling back to the weight', () => {
+    expect(edgeSign({ source: 'a', target: 'b', properties: { edgeType: 'inhibitor' } })).toBe('inhibitor');
+    expect(edgeSign({ source: 'a', target: 'b', interaction: 'Inhibiting' })).toBe('inhibitor');
+    expect(edgeSign({ source: 'a', target: 'b', weight: -0.5 })).toBe('inhibitor');
+    expect(edgeSign({ source: 'a', target: 'b', weight: -0.5, properties: { edgeType: 'activator' } })).toBe('activator');
+    expect(edgeSign({ source: 'a', target: 'b' })).toBe('activator');
+  });
+
+  it('reads every stored rule shape', () => {
+    expect(ruleStrings(['A = B', { name: 'B', action: '!C' }, { name: 'C = A' }, { name: 'T' }, null])).toEqual([
+      'A = B',
+      'B = !C',
+      'C = A',
+    ]);
+    expect(ruleStrings(undefined)).toEqual([]);
+  });
+
+  it('signs regulations from the rule AST', () => {
+    const rules = parseRules(['T = A && !(B || !C)', 'A = B XOR C', 'B = A', 'B = !A && B', 'C = A &&']);
+
+    expect(ruleRegulations(rules)).toEqual([
+      { source: 'A', target: 'T', sign: 'activator' },
+      { source: 'B', target: 'T', sign: 'inhibitor' },
+      { source: 'C', target: 'T', sign: 'activator' },
+      { source: 'B', target: 'A', sign: 'dual' },
+      { source: 'C', target: 'A', sign: 'dual' },
+      { source: 'A', target: 'B', sign: 'inhibitor' },
+    ]);
+  });
+
+  it('regenerates the edges of ruled targets and keeps the rest', () => {
+    const edges = [
+      { source: 'a', target: 'T', weight: 2, properties: { note: 'kept' } },
+      { source: 'c', target: 'T' },
+      { source: 'T', target: 'c', weight: -1 },
+    ];
+
+    expect(regenerateEdges(parseRules(['T = !A && B && X']), nodes, edges)).toEqual([
+      { source: 'T', target: 'c', weight: -1 },
+      { source: 'a', target: 'T', weight: -2, properties: { note: 'kept', edgeType: 'inhibitor' } },
+      { source: 'b', target: 'T', weight: 1, properties: { edgeType: 'activator' } },
+    ]);
+  });
+
+  it('builds skeleton rules for targets without a rule', () => {
+    expect(ruleSkeleton('T', [
+      { source: 'A', sign: 'activator' },
+      { source: 'B', sign: 'dual' },
+      { source: 'C', sign: 'inhibitor' },
+    ])).toBe('T = (A || B) && !C');
+    expect(ruleSkeleton('T', [{ source: 'C', sign: 'inhibitor' }])).toBe('T = !C');
+    expect(ruleSkeleton('T', [])).toBeNull();
+
+    const edges = [
+      { source: 'a', target: 'T' },
+      { source: 'b', target: 'T', weight: -1 },
+      { source: 'T', target: 'c' },
+      { source: 'b', target: 'a' },
+    ];
+    expect(skeletonRulesFromEdges(nodes, edges, new Set(['A']))).toEqual(['C = T', 'T = A && !B']);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for the shared Boolean rule language: parsing, diagnostics and printing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collectIdentifiers, parseExpression, parseRule, parseRules, printExpression, printRule, ruleAlternatives, substituteConstants } from '../ruleLanguage';
+import { performDeterministicAnalysis } from '../deterministicAnalysis';
+
+const codes = (parsed: { diagnostics: Array<{ code: string }> }) => parsed.diagnostics.map(d => d.code);
+
+describe('parseRule', () => {
+  it('builds an AST with spans into the rule text', () => {
+    const rule = parseRule('C = A && !B');
+
+    expect(rule.target).toBe('C');
+    expect(rule.diagnostics).toEqual([]);
+    expect(rule.expression).toMatchObject({
+      kind: 'binary',
+      operator: 'AND',
+      span: { start: 4, end: 11 },
+      left: { kind: 'identifier', name: 'A', span: { start: 4, end: 5 } },
+      right: { kind: 'not', operand: { kind: 'identifier', name: 'B' } },
+    });
+  });
+
+  it('binds AND tighter than OR and reads keywords and constants case-insensitively', () => {
+    const { expression } = parseExpression('a or b AND not c || TRUE');
+
+    expect(printExpression(expression!)).toBe('a || b && !c || 1');
+    expect(collectIdentifiers(expression!)).toEqual(['a', 'b', 'c']);
+    expect(parseExpression('false').expression).toMatchObject({ kind: 'constant', value: 0 });
+  });
+
+  it('matches known labels containing spaces', () => {
+    const rules = parseRules(['Node 1 = Node 2 AND Node 3', 'Node 2 = 1', 'Node 3 = !Node 1']);
+
+    expect(rules[0].identifiers).toEqual(['Node 2', 'Node 3']);
+    expect(rules.every(r => r.diagnostics.length === 0)).toBe(true);
+  });
+});
+
+describe('diagnostics', () => {
+  it('reports dangling operators at the operator', () => {
+    const rule = parseRule('A = B &&');
+
+    expect(rule.expression).toBeNull();
+    expect(rule.diagnostics[0]).toMatchObject({ code: 'dangling-operator', column: 7 });
+    expect(codes(parseExpression('|| A'))).toEqual(['dangling-operator']);
+    expect(codes(parseExpression('A && !'))).toEqual(['dangling-operator']);
+  });
+
+  it('reports mismatched parentheses with their column', () => {
+    expect(parseExpression('(A && (B || C)').diagnostics[0]).toMatchObject({
+      code: 'mismatched-parenthesis',
+      message: "Unclosed '(' at column 1",
+    });
+    expect(parseExpression('A && B)').diagnostics[0]).toMatchObject({
+      code: 'mismatched-parenthesis',
+      column: 7,
+    });
+  });
+
+  it('reports unknown identifiers only when the node set is given', () => {
+    expect(codes(parseRule('A = B && C'))).toEqual([]);
+
+    const rule = parseRule('A = B && C', { knownNodes: ['A', 'B'] });
+    expect(rule.expression).not.toBeNull();
+    expect(rule.diagnostics).toEqual([
+      expect.objectContaining({ code: 'unknown-identifier', message: "Unknown node 'C'", column: 10 }),
+    ]);
+  });
+
+  it('reports missing operators, stray characters, malformed rules and duplicates', () => {
+    expect(codes(parseExpression('A B'))).toEqual(['missing-operator']);
+    expect(codes(parseExpression('A & B'))).toEqual(['unexpected-character']);
+    expect(codes(parseRule('A && B'))).toEqual(['invalid-rule']);
+    expect(codes(parseRule('A ='))).toEqual(['missing-operand']);
+
+    const rules = parseRules(['# comment', 'A = B', '', 'A = !B']);
+    expect(rules.map(r => r.line)).toEqual([1, 3]);
+    expect(rules[1].diagnostics).toEqual([expect.objectContaining({ code: 'duplicate-target', severity: 'warning' })]);
+  });
+});
+
+describe('probabilistic alternatives', () => {
+  it('reads a trailing @ p as the selection probability', () => {
+    const rule = parseRule('A = B && C @ 0.7');
+
+    expect(rule.diagnostics).toEqual([]);
+    expect(rule.probability).toBe(0.7);
+    expect(rule.probabilitySpan).toEqual({ start: 13, end: 16 });
+    expect(printExpression(rule.expression!)).toBe('B && C');
+    expect(printRule(rule.target, rule.expression!, rule.probability)).toBe('A = B && C @ 0.7');
+  });
+
+  it('reports invalid probabilities and sums other than 1', () => {
+    expect(codes(parseRule('A = B @ 1.5'))).toEqual(['invalid-probability']);
+    expect(codes(parseRule('A = B @'))).toEqual(['invalid-probability']);
+
+    const rules = parseRules(['A = B @ 0.5', 'A = !B @ 0.3']);
+    expect(codes(rules[0])).toEqual([]);
+    expect(rules[1].diagnostics).toEqual([expect.objectContaining({ code: 'probability-sum', severity: 'warning' })]);
+  });
+
+  it('groups alternatives per target and normalises their probabilities', () => {
+    const alternatives = ruleAlternatives(parseRules(['A = B @ 0.6', 'A = !B', 'C = A', 'C = !A', 'D = A @ 2']));
+    const probabilities = (target: string) => alternatives.get(target)!.map(a => a.probability);
+
+    expect(probabilities('A')).toEqual([0.6, 0.4]);
+    expect(alternatives.get('C')!.map(a => printExpression(a.expression))).toEqual(['!A']);
+    expect(alternatives.has('D')).toBe(false);
+  });
+});
+
+describe('printExpression', () => {
+  it('keeps only the parentheses the structure needs', () => {
+    const print = (text: string) => printExpression(parseExpression(text).expression!);
+
+    expect(print('((A)) AND (B OR C)')).toBe('A && (B || C)');
+    expect(print('A || (B || C)')).toBe('A || (B || C)');
+    expect(print('NOT (A xor B) nand c')).toBe('!(A XOR B) NAND c');
+  });
+
+  it('round-trips to an equivalent expression', () => {
+    const text = '!(A && B) || C XOR (D NOR !E) && true';
+    const printed = printExpression(parseExpression(text).expression!);
+
+    expect(printExpression(parseExpression(printed).expression!)).toBe(printed);
+  });
+});
+
+describe('substituteConstants', () => {
+  const substitute = (text: string, values: Record<string, 0 | 1>) =>
+    printExpression(substituteConstants(parseExpression(text).expression!, values));
+
+  it('folds the substituted identifiers away', () => {
+    expect(substitute('A && !B || C', { B: 1 })).toBe('C');
+    expect(substitute('A && !B || C', { B: 0 })).toBe('A || C');
+    expect(substitute('A && B', { A: 1, B: 1 })).toBe('1');
+  });
+
+  it('negates the remaining operand of XOR, NAND and NOR', () => {
+    expect(substitute('A XOR B', { B: 1 })).toBe('!A');
+    expect(substitute('A NAND B', { A: 1 })).toBe('!B');
+    expect(substitute('A NOR B', { A: 0 })).toBe('!B');
+    expect(substitute('!(A NOR B)', { A: 0 })).toBe('B');
+  });
+});
+
+describe('constants in the analysis engine', () => {
+  it('treats 0 and 1 as constants rather than nodes', () => {
+    const result = performDeterministicAnalysis(['A = 1', 'B = A && 0', 'C = B || true']);
+
+    expect(result.nodeOrder).toEqual(['A', 'B', 'C']);
+    expect(result.attractors).toHaveLength(1);
+    expect(result.attractors[0].states[0].binary).toBe('101');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Tests for linting rule sets against their network graph.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { lintRules } from '../ruleLint';
+
+const network = {
+  nodes: [{ id: 'A' }, { id: 'b1', label: 'Node B' }, { id: 'C' }],
+  edges: [{ source: 'b1', target: 'A' }],
+};
+
+describe('lintRules', () => {
+  it('checks only the rules themselves without a network', () => {
+    const result = lintRules('A = B &&\nB = B');
+
+    expect(result.issues.map(i => [i.code, i.line])).toEqual([
+      ['dangling-operator', 0],
+      ['self-loop', 1],
+    ]);
+    expect(result.missingNodes).toEqual([]);
+    expect(result.missingEdges).toEqual([]);
+  });
+
+  it('reports rule nodes missing from the graph and graph nodes without rules', () => {
+    const result = lintRules('A = Node B && !D', network);
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ code: 'unknown-identifier', severity: 'warning', line: 0, column: 16 }),
+      expect.objectContaining({ code: 'missing-rule', line: null, message: "'Node B' has no rule and keeps its initial value" }),
+      expect.objectContaining({ code: 'missing-rule', line: null, message: "'C' has no rule and keeps its initial value" }),
+    ]);
+    expect(result.missingNodes).toEqual(['D']);
+  });
+
+  it('lists the edges the graph lacks once per regulation', () => {
+    const result = lintRules('# targets\nA = Node B || C\nNode B = A\nC = A || !A\nA = C', network);
+
+    expect(result.missingEdges).toEqual([
+      { source: 'C', target: 'A', sign: 'activator' },
+      { source: 'A', target: 'Node B', sign: 'activator' },
+      { source: 'A', target: 'C', sign: 'dual' },
+    ]);
+    expect(result.issues.map(i => [i.code, i.line])).toEqual([
+      ['missing-edge', 1],
+      ['missing-edge', 2],
+      ['missing-edge', 3],
+      ['duplicate-target', 4],
+      ['unused-edge', 4],
+      ['missing-edge', 4],
+    ]);
+  });
+
+  it('flags edges drawn with the wrong sign or not used by the rule', () => {
+    const result = lintRules('A = !Node B\nC = A', {
+      nodes: network.nodes,
+      edges: [
+        { source: 'b1', target: 'A', properties: { edgeType: 'activator' } },
+        { source: 'b1', target: 'C' },
+        { source: 'A', target: 'C', weight: -1 },
+      ],
+    });
+
+    expect(result.issues.map(i => i.message)).toEqual([
+      "Edge 'Node B' → 'A' is drawn as an activator but the rule uses it as an inhibitor",
+      "Edge from 'Node B' is not used by this rule",
+      "Edge 'A' → 'C' is drawn as an inhibitor but the rule uses it as an activator",
+      "'Node B' has no rule and keeps its initial value",
+    ]);
+    expect(result.missingEdges).toEqual([]);
+  });
+
+  it('lints probabilistic alternatives of a target together', () => {
+    const result = lintRules('A = Node B @ 0.6\nA = !C @ 0.6\nNode B = 1\nC = 1', {
+      nodes: network.nodes,
+      edges: [
+        { source: 'b1', target: 'A' },
+        { source: 'C', target: 'A', weight: -1 },
+      ],
+    });
+
+    expect(result.issues.map(i => [i.code, i.line])).toEqual([['probability-sum', 1]]);
+  });
+});
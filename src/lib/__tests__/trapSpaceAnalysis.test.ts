@@ -0,0 +1,55 @@
+/**
+ * Tests for trap-space and stable-motif analysis of rule-based networks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { performTrapSpaceAnalysis } from '../trapSpaceAnalysis';
+
+const patterns = (spaces: Array<{ pattern: string }>) => spaces.map((s) => s.pattern);
+
+describe('performTrapSpaceAnalysis', () => {
+  it('finds the two states of a toggle switch', () => {
+    const result = performTrapSpaceAnalysis(['A = !B', 'B = !A']);
+
+    expect(patterns(result.minimalTrapSpaces)).toEqual(['01', '10']);
+    expect(patterns(result.maximalTrapSpaces)).toEqual(['01', '10']);
+  });
+
+  it('reports the whole space as the only trap space of an oscillator', () => {
+    const result = performTrapSpaceAnalysis(['A = !B', 'B = A']);
+
+    expect(patterns(result.minimalTrapSpaces)).toEqual(['**']);
+    expect(result.maximalTrapSpaces).toEqual([]);
+    expect(result.stableMotifs).toEqual([]);
+  });
+
+  it('keeps free nodes inside a trap space', () => {
+    // B oscillates with C whatever A does, and A sustains itself.
+    const result = performTrapSpaceAnalysis(['A = A', 'B = !C', 'C = B']);
+
+    expect(patterns(result.minimalTrapSpaces)).toEqual(['0**', '1**']);
+    expect(result.minimalTrapSpaces[1].fixed).toEqual({ A: 1 });
+  });
+
+  it('percolates stable motifs to the nodes they lock', () => {
+    const result = performTrapSpaceAnalysis(['A = B', 'B = A', 'C = A', 'D = !C']);
+
+    expect(patterns(result.maximalTrapSpaces)).toEqual(['00**', '11**']);
+    expect(result.stableMotifs[1]).toEqual({
+      id: 1,
+      motif: { A: 1, B: 1 },
+      locked: { A: 1, B: 1, C: 1, D: 0 },
+      pattern: '1110',
+    });
+    expect(patterns(result.minimalTrapSpaces)).toEqual(['0001', '1110']);
+  });
+
+  it('caps the number of listed trap spaces', () => {
+    const rules = Array.from({ length: 4 }, (_, i) => `N${i} = N${i}`);
+    const result = performTrapSpaceAnalysis(rules, { maxResults: 5 });
+
+    expect(result.minimalTrapSpaces).toHaveLength(5);
+    expect(result.truncated).toBe(true);
+    expect(result.warnings).toContain('Only the first 5 minimal trap spaces are listed.');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Tests for the worker-backed analysis runtime (in-thread fallback under Node).
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AnalysisCancelledError,
+  runDeterministicAnalysisAsync,
+  runProbabilisticAnalysisAsync,
+  runWeightedAnalysisAsync,
+} from '../analysisRuntime';
+import { performDeterministicAnalysis } from '../../deterministicAnalysis';
+import type { AnalysisProgress } from '../types';
+
+describe('analysisRuntime', () => {
+  const rules = ['A = B', 'B = A', 'C = A AND B'];
+
+  it('returns the same result as the synchronous engine', async () => {
+    const asyncResult = await runDeterministicAnalysisAsync(rules);
+    const syncResult = performDeterministicAnalysis(rules);
+
+    expect(asyncResult.nodeOrder).toEqual(syncResult.nodeOrder);
+    expect(asyncResult.attractors.map((a) => a.states.map((s) => s.binary))).toEqual(
+      syncResult.attractors.map((a) => a.states.map((s) => s.binary)),
+    );
+  });
+
+  it('streams progress ending at the total', async () => {
+    const updates: AnalysisProgress[] = [];
+    await runWeightedAnalysisAsync(
+      [{ id: 'A' }, { id: 'B' }],
+      [{ source: 'A', target: 'B', weight: 1 }],
+      {},
+      { onProgress: (p) => updates.push(p) },
+    );
+
+    expect(updates.length).toBeGreaterThan(0);
+    const last = updates[updates.length - 1];
+    expect(last.explored).toBe(last.total);
+    expect(last.total).toBe(4);
+  });
+
+  it('rejects with AnalysisCancelledError when aborted', async () => {
+    const controller = new AbortController();
+    const pending = runProbabilisticAnalysisAsync([{ id: 'A' }], [], {}, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AnalysisCancelledError);
+  });
+});
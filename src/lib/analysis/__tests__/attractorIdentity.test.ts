@@ -0,0 +1,102 @@
+/**
+ * Tests for stable attractor signatures and matching saved entries to new runs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { attractorSignature, matchAttractors, signatureKey, signatureSimilarity } from '../attractorIdentity';
+import type { AttractorType, DeterministicAttractor } from '../types';
+
+const attractor = (id: number, states: string[], type: AttractorType = states.length > 1 ? 'limit-cycle' : 'fixed-point'): DeterministicAttractor => ({
+  id,
+  type,
+  period: states.length,
+  states: states.map(binary => ({ binary, values: {} })),
+  basinSize: 1,
+  basinShare: 0.5,
+});
+
+describe('attractorSignature', () => {
+  it('ignores node order and the starting point of a cycle', () => {
+    const a = attractorSignature(attractor(0, ['100', '010', '001']), ['A', 'B', 'C']);
+    // Same cycle with nodes listed as C, A, B and entered at a different state
+    const b = attractorSignature(attractor(3, ['001', '100', '010']), ['C', 'A', 'B']);
+
+    expect(a).toEqual({ nodes: ['A', 'B', 'C'], states: ['001', '100', '010'], cyclic: true });
+    expect(signatureKey(b)).toBe(signatureKey(a));
+  });
+
+  it('keeps cycle direction but sorts complex attractors', () => {
+    const forward = attractorSignature(attractor(0, ['01', '10', '11']), ['A', 'B']);
+    const backward = attractorSignature(attractor(0, ['11', '10', '01']), ['A', 'B']);
+    const complex = attractorSignature(attractor(0, ['11', '01', '10'], 'complex-attractor'), ['A', 'B']);
+
+    expect(signatureKey(forward)).not.toBe(signatureKey(backward));
+    expect(complex).toEqual({ nodes: ['A', 'B'], states: ['01', '10', '11'], cyclic: false });
+  });
+});
+
+describe('matchAttractors', () => {
+  const nodeOrder = ['A', 'B', 'C', 'D'];
+  const saved = {
+    proliferative: { signature: attractorSignature(attractor(0, ['1100']), nodeOrder) },
+    quiescent: { signature: attractorSignature(attractor(1, ['0011']), nodeOrder) },
+  };
+
+  it('re-associates entries after attractors were found in a different order', () => {
+    const rerun = { nodeOrder, attractors: [attractor(0, ['0011']), attractor(1, ['0000']), attractor(2, ['1100'])] };
+
+    expect(matchAttractors(saved, rerun)).toEqual({
+      matches: [
+        { key: 'proliferative', attractorId: 2, similarity: 1, kind: 'exact' },
+        { key: 'quiescent', attractorId: 0, similarity: 1, kind: 'exact' },
+      ],
+      unmatched: [],
+    });
+  });
+
+  it('matches partially when nodes are added or removed', () => {
+    // E was added and D removed; the shared nodes still agree
+    const edited = { nodeOrder: ['E', 'A', 'B', 'C'], attractors: [attractor(0, ['1110']), attractor(1, ['0001'])] };
+    const { matches, unmatched } = matchAttractors(saved, edited);
+
+    expect(matches).toEqual([
+      { key: 'proliferative', attractorId: 0, similarity: 1, kind: 'partial' },
+      { key: 'quiescent', attractorId: 1, similarity: 1, kind: 'partial' },
+    ]);
+    expect(unmatched).toEqual([]);
+  });
+
+  it('leaves entries unmatched when too few nodes remain or states disagree', () => {
+    const shrunk = { nodeOrder: ['A'], attractors: [attractor(0, ['1'])] };
+    const changed = { nodeOrder, attractors: [attractor(0, ['1000'])] };
+
+    expect(matchAttractors(saved, shrunk).unmatched).toEqual(['proliferative', 'quiescent']);
+    expect(signatureSimilarity(saved.proliferative.signature, attractorSignature(changed.attractors[0], nodeOrder))).toBe(0.75);
+    expect(matchAttractors(saved, changed).matches).toEqual([]);
+    expect(matchAttractors(saved, changed, 0.7).matches).toEqual([
+      { key: 'proliferative', attractorId: 0, similarity: 0.75, kind: 'partial' },
+    ]);
+  });
+
+  it('assigns each attractor at most one entry, best match first', () => {
+    const twins = {
+      exact: { signature: attractorSignature(attractor(0, ['1100']), nodeOrder) },
+      close: { signature: attractorSignature(attractor(0, ['1101']), nodeOrder) },
+    };
+    const { matches, unmatched } = matchAttractors(twins, { nodeOrder, attractors: [attractor(0, ['1100'])] }, 0.5);
+
+    expect(matches.map(m => m.key)).toEqual(['exact']);
+    expect(unmatched).toEqual(['close']);
+  });
+
+  it('falls back to attractor ids for entries saved without a signature', () => {
+    const legacy = { '1': {}, '7': {}, proliferative: saved.proliferative };
+    const { matches, unmatched } = matchAttractors(legacy, { nodeOrder, attractors: [attractor(0, ['1100']), attractor(1, ['0101'])] });
+
+    expect(matches).toEqual([
+      { key: 'proliferative', attractorId: 0, similarity: 1, kind: 'exact' },
+      { key: '1', attractorId: 1, similarity: 0, kind: 'id' },
+    ]);
+    expect(unmatched).toEqual(['7']);
+  });
+});
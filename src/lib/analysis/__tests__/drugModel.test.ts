@@ -0,0 +1,128 @@
+/**
+ * Tests for the quantitative drug model: partial perturbations, time windows and dose-response curves.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyDrugEffects, drugEffectFraction, isDrugActive } from '../drugModel';
+import { doseResponseToCsv, performDoseResponse } from '../doseResponse';
+import { performProbabilisticAnalysis } from '../probabilisticAnalysis';
+import { performWeightedAnalysis } from '../weightedDeterministicAnalysis';
+import { performStochasticSimulation } from '../stochasticSimulation';
+import { runDoseResponseAsync } from '../analysisRuntime';
+
+// A drives B, which drives C
+const nodes = [{ id: 'a', label: 'Receptor' }, { id: 'b', label: 'Kinase' }, { id: 'c', label: 'Output' }];
+const edges = [
+  { source: 'a', target: 'b', weight: 2 },
+  { source: 'b', target: 'c', weight: 1 },
+];
+
+describe('drug effects', () => {
+  it('follows a Hill curve with half effect at the EC50', () => {
+    expect(drugEffectFraction({ dose: 50, ec50: 50 })).toBe(0.5);
+    expect(drugEffectFraction({ dose: 100, ec50: 50, hill: 2 })).toBeCloseTo(0.8);
+    expect(drugEffectFraction({ dose: 0 })).toBe(0);
+    expect(isDrugActive({ start: 2, end: 4 }, 1)).toBe(false);
+    expect(isDrugActive({ start: 2, end: 4 }, 3)).toBe(true);
+    expect(isDrugActive({ start: 2 }, 1_000)).toBe(true);
+  });
+
+  it('scales outgoing weights and shifts biases by the effect', () => {
+    const dosed = applyDrugEffects(['a', 'b', 'c'], edges, { c: 0.5 }, [
+      { node: 'b', mode: 'inhibit', dose: 100, ec50: 100 },
+      { node: 'c', mode: 'suppress', dose: 100, ec50: 100 },
+      { node: 'a', mode: 'modulate', dose: 1 },
+      { node: 'z', mode: 'inhibit', dose: 1 },
+    ]);
+
+    expect(dosed.edges).toEqual([edges[0], { source: 'b', target: 'c', weight: 0.5 }]);
+    expect(dosed.biases).toEqual({ c: 0 });
+    expect(dosed.warnings).toEqual([
+      '"modulate" on a has no quantitative effect; use inhibit, enhance, suppress or activate.',
+      'Drug target "z" is not in the network; its drug was ignored.',
+    ]);
+  });
+
+  it('drives the weighted and probabilistic engines', () => {
+    // C needs more than half of B's weight to beat its negative bias
+    const biases = { a: 1, c: -0.5 };
+    const outputs = (dose: number) =>
+      performWeightedAnalysis(nodes, edges, { biases, drugs: [{ node: 'b', mode: 'inhibit', dose, ec50: 10 }] })
+        .attractors.map(a => a.states[0].values.c);
+    expect(outputs(5)).toEqual([1]);
+    expect(outputs(90)).toEqual([0]);
+
+    const base = { biases: { a: 1 }, tolerance: 1e-8, maxIterations: 2000 };
+    const untreated = performProbabilisticAnalysis(nodes, edges, base).probabilities.c;
+    const treated = performProbabilisticAnalysis(nodes, edges, { ...base, drugs: [{ node: 'b', mode: 'inhibit', dose: 100 }] }).probabilities.c;
+    expect(treated).toBeLessThan(untreated);
+  });
+});
+
+describe('time-windowed drugs in simulation', () => {
+  it('forces rule-based nodes only inside the window', () => {
+    const result = performStochasticSimulation(
+      { kind: 'rules', rules: ['A = A', 'B = A', 'C = B'] },
+      {
+        trajectories: 50,
+        steps: 8,
+        initialProbability: 1,
+        seed: 7,
+        drugs: [{ node: 'B', mode: 'inhibit', dose: 1e6, ec50: 1, start: 2, end: 4 }],
+      },
+    );
+    const b = result.nodeOrder.indexOf('B');
+
+    expect(result.activation.map(row => row[b])).toEqual([1, 1, 1, 0, 0, 1, 1, 1, 1]);
+  });
+
+  it('re-weights weighted models while the drug acts', () => {
+    const result = performStochasticSimulation(
+      { kind: 'weighted', nodes, edges, options: { biases: { a: 1, c: -0.5 } } },
+      { trajectories: 10, steps: 6, initialProbability: 1, seed: 1, drugs: [{ node: 'b', mode: 'inhibit', dose: 90, ec50: 10, start: 1, end: 3 }] },
+    );
+
+    expect(result.activation.map(row => row[2])).toEqual([1, 1, 0, 0, 1, 1, 1]);
+  });
+});
+
+describe('performDoseResponse', () => {
+  const options = {
+    drug: { node: 'b', mode: 'inhibit' as const, ec50: 10 },
+    outputNode: 'c',
+    from: 0.1,
+    to: 1000,
+    steps: 5,
+    analysis: { biases: { a: 1 }, tolerance: 1e-8, maxIterations: 2000 },
+  };
+
+  it('records the output probability over log-spaced doses', () => {
+    const result = performDoseResponse(nodes, edges, options);
+
+    expect(result.doses.map(d => Number(d.toPrecision(6)))).toEqual([0.1, 1, 10, 100, 1000]);
+    expect(result.effects[2]).toBeCloseTo(0.5);
+    for (let i = 1; i < result.probabilities.length; i++) {
+      expect(result.probabilities[i]).toBeLessThan(result.probabilities[i - 1]);
+    }
+    const single = performProbabilisticAnalysis(nodes, edges, { ...options.analysis, drugs: [{ ...options.drug, dose: result.doses[3] }] });
+    expect(result.probabilities[3]).toBe(single.probabilities.c);
+    expect(result.halfResponseDose).toBeGreaterThan(1);
+    expect(result.halfResponseDose).toBeLessThan(100);
+    expect(doseResponseToCsv(result).split('\n')[0]).toBe('dose,effect,P(Output),converged');
+  });
+
+  it('rejects ranges it cannot trace', () => {
+    expect(() => performDoseResponse(nodes, edges, { ...options, from: 0 })).toThrow('must start above 0');
+    expect(() => performDoseResponse(nodes, edges, { ...options, to: 0.01 })).toThrow('0 ≤ from < to');
+    expect(() => performDoseResponse(nodes, edges, { ...options, outputNode: 'x' })).toThrow('Unknown output node');
+    expect(() => performDoseResponse(nodes, edges, { ...options, steps: 1 })).toThrow('2 to 500 doses');
+  });
+
+  it('runs through the analysis runtime with progress', async () => {
+    const progress: number[] = [];
+    const result = await runDoseResponseAsync(nodes, edges, options, { onProgress: (p) => progress.push(p.explored) });
+
+    expect(result).toEqual(performDoseResponse(nodes, edges, options));
+    expect(progress).toEqual([1, 2, 3, 4, 5]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for probabilistic parameter sweeps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { performProbabilisticSweep, sweepToCsv } from '../parameterSweep';
+import { performProbabilisticAnalysis } from '../probabilisticAnalysis';
+import { runProbabilisticSweepAsync } from '../analysisRuntime';
+
+const nodes = [{ id: 'a', label: 'Input' }, { id: 'b' }];
+const edges = [{ source: 'a', target: 'b', weight: 2 }];
+
+describe('performProbabilisticSweep', () => {
+  it('records each grid point as a plain probabilistic analysis', () => {
+    const result = performProbabilisticSweep(nodes, edges, {
+      axes: [{ parameter: 'noise', from: 0.1, to: 0.5, steps: 3 }],
+      base: { biases: { a: 1 }, tolerance: 1e-8, maxIterations: 2000 },
+    });
+
+    expect(result.axes[0].values).toEqual([0.1, 0.30000000000000004, 0.5]);
+    expect(result.nodeOrder).toEqual(['a', 'b']);
+    result.points.forEach((point, i) => {
+      const single = performProbabilisticAnalysis(nodes, edges, {
+        biases: { a: 1 },
+        tolerance: 1e-8,
+        maxIterations: 2000,
+        noise: result.axes[0].values[i],
+      });
+      expect(point.values).toEqual([result.axes[0].values[i]]);
+      expect(point.probabilities).toEqual([single.probabilities.a, single.probabilities.b]);
+    });
+  });
+
+  it('spans a two-parameter grid with the first axis varying slowest', () => {
+    const result = performProbabilisticSweep(nodes, edges, {
+      axes: [
+        { parameter: 'basalActivity', nodeId: 'a', from: -1, to: 1, steps: 2 },
+        { parameter: 'selfDegradation', from: 0.2, to: 0.6, steps: 3 },
+      ],
+      recordedNodes: ['b'],
+    });
+
+    expect(result.points.map(point => point.values)).toEqual([
+      [-1, 0.2], [-1, 0.4], [-1, 0.6],
+      [1, 0.2], [1, 0.4], [1, 0.6],
+    ]);
+    expect(result.points.every(point => point.probabilities.length === 1)).toBe(true);
+    // Raising the input's basal activity switches its target on
+    expect(result.points[5].probabilities[0]).toBeGreaterThan(result.points[2].probabilities[0]);
+  });
+
+  it('shows hysteresis of a bistable switch with continuation', () => {
+    const toggle = [{ id: 'x' }];
+    const selfLoop = [{ source: 'x', target: 'x', weight: 4 }];
+    const base = { noise: 0.5, tolerance: 1e-8, maxIterations: 5000, initialProbability: 0.5 };
+    const up = performProbabilisticSweep(toggle, selfLoop, {
+      axes: [{ parameter: 'basalActivity', from: -4, to: 0, steps: 9 }],
+      base,
+      continuation: true,
+    });
+    const down = performProbabilisticSweep(toggle, selfLoop, {
+      axes: [{ parameter: 'basalActivity', from: 0, to: -4, steps: 9 }],
+      base,
+      continuation: true,
+    });
+
+    // Both sweeps start undecided; at basal activity -2 each remembers the branch it came from
+    expect(up.points[4].values).toEqual([-2]);
+    expect(up.points[4].probabilities[0]).toBeLessThan(0.1);
+    expect(down.points[4].probabilities[0]).toBeGreaterThan(0.9);
+    expect(up.points[8].probabilities[0]).toBeGreaterThan(0.9);
+    expect(down.points[8].probabilities[0]).toBeLessThan(0.1);
+  });
+
+  it('rejects empty, unknown and oversized sweeps', () => {
+    expect(() => performProbabilisticSweep(nodes, edges, { axes: [] })).toThrow('one or two parameters');
+    expect(() =>
+      performProbabilisticSweep(nodes, edges, { axes: [{ parameter: 'basalActivity', nodeId: 'z', from: 0, to: 1, steps: 2 }] }),
+    ).toThrow('Unknown node "z" in parameter sweep.');
+    expect(() =>
+      performProbabilisticSweep(nodes, edges, {
+        axes: [
+          { parameter: 'noise', from: 0.1, to: 1, steps: 100 },
+          { parameter: 'selfDegradation', from: 0.1, to: 1, steps: 100 },
+        ],
+      }),
+    ).toThrow('Parameter sweep has 10,000 grid points; the limit is 2,500.');
+  });
+
+  it('exports the grid as CSV', () => {
+    const result = performProbabilisticSweep(nodes, edges, {
+      axes: [{ parameter: 'basalActivity', nodeId: 'a', from: 0, to: 1, steps: 2 }],
+      recordedNodes: ['a'],
+    });
+    const [header, ...rows] = sweepToCsv(result).trim().split('\n');
+
+    expect(header).toBe('Basal activity (Input),Input,converged');
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatch(/^0,0(\.\d+)?,true$/);
+  });
+
+  it('runs through the analysis runtime with progress', async () => {
+    const progress: number[] = [];
+    const options = { axes: [{ parameter: 'noise' as const, from: 0.2, to: 0.4, steps: 4 }] };
+    const result = await runProbabilisticSweepAsync(nodes, edges, options, {
+      onProgress: (p) => progress.push(p.explored),
+    });
+
+    expect(result).toEqual(performProbabilisticSweep(nodes, edges, options));
+    expect(progress).toEqual([1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for probabilistic analysis (mean-field and exact stationary distribution).
+ */
+
+import { describe, it, expect } from 'vitest';
+import { performProbabilisticAnalysis } from '../probabilisticAnalysis';
+
+const logistic = (value: number, noise: number) => 1 / (1 + Math.exp(-value / noise));
+
+describe('performProbabilisticAnalysis (exact)', () => {
+  it('matches the mean-field steady state for an independent node', () => {
+    const nodes = [{ id: 'A' }];
+    const options = { biases: { A: 1 }, noise: 0.5 };
+    const exact = performProbabilisticAnalysis(nodes, [], { ...options, method: 'exact' });
+    const meanField = performProbabilisticAnalysis(nodes, [], { ...options, tolerance: 1e-8, maxIterations: 5000 });
+
+    expect(exact.method).toBe('exact');
+    expect(exact.converged).toBe(true);
+    expect(exact.probabilities.A).toBeCloseTo(logistic(1, 0.5), 8);
+    expect(meanField.probabilities.A).toBeCloseTo(exact.probabilities.A, 5);
+    expect(exact.stateProbabilities).toEqual({ '1': expect.closeTo(logistic(1, 0.5), 8), '0': expect.closeTo(1 - logistic(1, 0.5), 8) });
+  });
+
+  it('resolves bistable landscapes into separate state peaks', () => {
+    const nodes = [{ id: 'A' }, { id: 'B' }, { id: 'C' }];
+    const edges = [
+      { source: 'A', target: 'B', weight: 2 },
+      { source: 'B', target: 'A', weight: 2 },
+      { source: 'A', target: 'C', weight: 1 },
+    ];
+    const result = performProbabilisticAnalysis(nodes, edges, {
+      method: 'exact',
+      biases: { A: -1, B: -1, C: -0.5 },
+      noise: 0.3,
+    });
+    const states = result.stateProbabilities!;
+    const ranked = Object.keys(states).sort((a, b) => states[b] - states[a]);
+
+    // The mutually activating pair sits mostly in 00 or 11; C follows A
+    expect(ranked.slice(0, 2).sort()).toEqual(['000', '111']);
+    expect(states['000']).toBeCloseTo(states['111'], 6);
+    expect(states['100'] + states['010']).toBeLessThan(0.1);
+    expect(result.probabilities.A).toBeCloseTo(0.5, 6);
+    expect(Object.values(states).reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 10);
+    for (const [state, p] of Object.entries(states)) {
+      expect(result.stateEnergies![state]).toBeCloseTo(-Math.log(p), 10);
+    }
+  });
+
+  it('keeps the initial distribution when nothing degrades', () => {
+    const result = performProbabilisticAnalysis([{ id: 'A' }, { id: 'B' }], [], {
+      method: 'exact',
+      selfDegradation: 0,
+      initialProbabilities: { A: 1, B: 0.25 },
+    });
+
+    expect(result.converged).toBe(true);
+    expect(result.iterations).toBe(0);
+    expect(result.stateProbabilities).toEqual({ '11': 0.25, '10': 0.75, '01': 0, '00': 0 });
+  });
+
+  it('lists only the most probable states of large networks', () => {
+    const nodes = Array.from({ length: 13 }, (_, i) => ({ id: `N${i}` }));
+    const edges = nodes.slice(1).map((node, i) => ({ source: nodes[i].id, target: node.id, weight: 1 }));
+    const result = performProbabilisticAnalysis(nodes, edges, { method: 'exact', biases: { N0: 1 } });
+
+    expect(Object.keys(result.stateProbabilities!)).toHaveLength(4096);
+    expect(result.warnings).toEqual(['Only the 4,096 most probable of 8,192 states are listed.']);
+  });
+
+  it('rejects networks above the exact size limit', () => {
+    const nodes = Array.from({ length: 17 }, (_, i) => ({ id: `N${i}` }));
+
+    expect(() => performProbabilisticAnalysis(nodes, [], { method: 'exact' })).toThrow(
+      'Exact probabilistic analysis supports up to 16 nodes (network has 17). Use the mean-field method instead.',
+    );
+  });
+});
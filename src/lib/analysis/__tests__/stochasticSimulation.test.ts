@@ -0,0 +1,110 @@
+/**
+ * Tests for stochastic time-course simulation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { performStochasticSimulation, simulationNodes, simulationToCsv } from '../stochasticSimulation';
+import { runSimulationAsync } from '../analysisRuntime';
+import type { SimulationModel } from '../types';
+
+const oscillator: SimulationModel = { kind: 'rules', rules: ['A = !B', 'B = A'] };
+
+describe('performStochasticSimulation', () => {
+  it('follows the deterministic trajectory without noise', () => {
+    const result = performStochasticSimulation(oscillator, {
+      trajectories: 20,
+      steps: 4,
+      initialProbabilities: { A: 1, B: 0 },
+      seed: 1,
+    });
+
+    expect(result.nodeOrder).toEqual(['A', 'B']);
+    expect(result.activation).toEqual([
+      [1, 0],
+      [1, 1],
+      [0, 1],
+      [0, 0],
+      [1, 0],
+    ]);
+  });
+
+  it('simulates weighted networks with the threshold update', () => {
+    const result = performStochasticSimulation(
+      {
+        kind: 'weighted',
+        nodes: [{ id: 'a', label: 'Input' }, { id: 'b' }],
+        edges: [{ source: 'a', target: 'b', weight: -1 }],
+        options: { biases: { a: 1 } },
+      },
+      { trajectories: 10, steps: 2, initialProbability: 1, seed: 3 },
+    );
+
+    expect(result.nodeLabels).toEqual({ a: 'Input', b: 'b' });
+    expect(result.activation).toEqual([
+      [1, 1],
+      [1, 0],
+      [1, 0],
+    ]);
+  });
+
+  it('is reproducible for a seed and mixes under flip noise', () => {
+    const options = { trajectories: 400, steps: 30, flipProbability: 0.5, updateScheme: 'asynchronous' as const, seed: 42 };
+    const first = performStochasticSimulation(oscillator, options);
+    const second = performStochasticSimulation(oscillator, options);
+
+    expect(second.activation).toEqual(first.activation);
+    for (const p of first.activation[30]) {
+      expect(p).toBeGreaterThan(0.35);
+      expect(p).toBeLessThan(0.65);
+    }
+  });
+
+  it('updates one node per step asynchronously', () => {
+    const result = performStochasticSimulation(
+      { kind: 'rules', rules: ['A = 1', 'B = 1', 'C = 1'] },
+      { trajectories: 50, steps: 1, updateScheme: 'asynchronous', initialProbability: 0, seed: 7 },
+    );
+
+    const activeAfterOneStep = result.activation[1].reduce((sum, p) => sum + p, 0);
+    expect(activeAfterOneStep).toBeCloseTo(1);
+  });
+
+  it('caps oversized runs with a warning', () => {
+    const result = performStochasticSimulation(oscillator, { trajectories: 1, steps: 1_000_000, seed: 1 });
+
+    expect(result.steps).toBe(1_000);
+    expect(result.warnings).toEqual(['Steps capped at 1,000.']);
+  });
+
+  it('runs through the analysis runtime with progress', async () => {
+    const progress: number[] = [];
+    const result = await runSimulationAsync(oscillator, { trajectories: 5, steps: 3, seed: 9 }, {
+      onProgress: (p) => progress.push(p.explored),
+    });
+
+    expect(result).toEqual(performStochasticSimulation(oscillator, { trajectories: 5, steps: 3, seed: 9 }));
+    expect(progress.at(-1)).toBe(5);
+  });
+});
+
+describe('simulation helpers', () => {
+  it('lists model nodes and tolerates rules that do not compile', () => {
+    expect(simulationNodes(oscillator)).toEqual([{ id: 'A', label: 'A' }, { id: 'B', label: 'B' }]);
+    expect(simulationNodes({ kind: 'rules', rules: ['A = ('] })).toEqual([]);
+  });
+
+  it('exports the time-course matrix as CSV', () => {
+    const csv = simulationToCsv({
+      nodeOrder: ['a', 'b'],
+      nodeLabels: { a: 'p53, active', b: 'MDM2' },
+      activation: [[1, 0], [0.333333333, 0.5]],
+      trajectories: 3,
+      steps: 1,
+      updateScheme: 'synchronous',
+      seed: 0,
+      warnings: [],
+    });
+
+    expect(csv).toBe('step,"p53, active",MDM2\n0,1,0\n1,0.333333,0.5\n');
+  });
+});
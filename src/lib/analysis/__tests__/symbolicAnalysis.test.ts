@@ -0,0 +1,81 @@
+/**
+ * Tests for the symbolic (BDD) rule-based attractor search.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileRules, performDeterministicAnalysis } from '../../deterministicAnalysis';
+import { BDD_FALSE, BDD_TRUE, BddManager } from '../bdd';
+import { analyzeSymbolically } from '../symbolicAnalysis';
+import type { UpdateScheme } from '../types';
+
+const summarize = (result: ReturnType<typeof performDeterministicAnalysis>) =>
+  result.attractors.map((a) => ({
+    type: a.type,
+    states: a.states.map((s) => s.binary),
+    basinSize: a.basinSize,
+    weakBasinSize: a.weakBasinSize,
+  }));
+
+describe('BddManager', () => {
+  it('counts and picks satisfying assignments', () => {
+    const manager = new BddManager(3, 1000);
+    const [x0, x1, x2] = [0, 1, 2].map((i) => manager.variable(i));
+    const f = manager.or(manager.and(x0, x1), x2);
+
+    expect(manager.satCount(f)).toBe(5);
+    expect(Array.from(manager.pickOne(manager.diff(f, x2))!)).toEqual([1, 1, 0]);
+    expect(manager.and(f, manager.not(f))).toBe(BDD_FALSE);
+    expect(manager.flip(manager.flip(f, 1), 1)).toBe(f);
+    expect(manager.compose(x0, [BDD_TRUE, x1, x2], new Map())).toBe(BDD_TRUE);
+  });
+});
+
+describe('performDeterministicAnalysis symbolic method', () => {
+  const networks = {
+    toggleSwitch: ['A = !B', 'B = !A'],
+    oscillator: ['A = !B', 'B = A'],
+    mixed: ['A = A', 'B = A AND !C', 'C = B OR D', 'D = !D XOR A', 'E = C NAND B', 'F = E NOR A'],
+  };
+
+  for (const updateScheme of ['synchronous', 'asynchronous'] as UpdateScheme[]) {
+    for (const [name, rules] of Object.entries(networks)) {
+      it(`matches state enumeration (${updateScheme}, ${name})`, () => {
+        const enumerated = performDeterministicAnalysis(rules, { updateScheme });
+        const symbolic = performDeterministicAnalysis(rules, { updateScheme, method: 'symbolic' });
+
+        expect(symbolic.truncated).toBe(false);
+        expect(summarize(symbolic)).toEqual(summarize(enumerated));
+      });
+    }
+  }
+
+  it('returns exact basins for a 50-node network', () => {
+    // A signalling cascade from one self-sustaining input: every state settles to all-off or all-on.
+    const rules = ['N00 = N00', ...Array.from({ length: 49 }, (_, i) => `N${String(i + 1).padStart(2, '0')} = N${String(i).padStart(2, '0')}`)];
+    const result = performDeterministicAnalysis(rules, { method: 'symbolic' });
+
+    expect(result.truncated).toBe(false);
+    expect(result.totalStateSpace).toBe(2 ** 50);
+    expect(result.attractors.map((a) => a.states[0].binary)).toEqual(['0'.repeat(50), '1'.repeat(50)]);
+    expect(result.attractors.map((a) => a.basinSize)).toEqual([2 ** 49, 2 ** 49]);
+  });
+
+  it('keeps diagrams valid when the store is compacted mid-search', () => {
+    for (const updateScheme of ['synchronous', 'asynchronous'] as UpdateScheme[]) {
+      const warnings: string[] = [];
+      const { nodeOrder, nodeLabels, compiled } = compileRules(networks.mixed, warnings);
+      // A zero threshold compacts before every reachability step.
+      const compacted = analyzeSymbolically({
+        nodeOrder, nodeLabels, compiled, updateScheme, stepCap: 1000, warnings, compactionThreshold: 0,
+      });
+
+      expect(summarize(compacted)).toEqual(summarize(performDeterministicAnalysis(networks.mixed, { updateScheme })));
+    }
+  });
+
+  it('rejects random-order updates', () => {
+    expect(() =>
+      performDeterministicAnalysis(networks.toggleSwitch, { method: 'symbolic', updateScheme: 'random-order' }),
+    ).toThrow(/synchronous and asynchronous/);
+  });
+});
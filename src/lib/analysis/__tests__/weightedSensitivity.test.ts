@@ -0,0 +1,96 @@
+/**
+ * Tests for sensitivity of weighted-network attractors to edge weights and biases.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { edgeSensitivity, performWeightedSensitivity } from '../weightedSensitivity';
+import { attractorSignature, signatureKey } from '../attractorIdentity';
+import { performWeightedAnalysis } from '../weightedDeterministicAnalysis';
+import { runWeightedSensitivityAsync } from '../analysisRuntime';
+
+// A remembers its state through a self-loop and drives B, which drives C
+const nodes = [{ id: 'A' }, { id: 'B' }, { id: 'C' }];
+const edges = [
+  { source: 'A', target: 'A', weight: 1 },
+  { source: 'A', target: 'B', weight: 2 },
+  { source: 'B', target: 'C', weight: 4 },
+];
+const analysis = { biases: { A: 0, B: -1, C: -1 } };
+
+describe('performWeightedSensitivity', () => {
+  it('matches each one-at-a-time change against separate analyses', () => {
+    const result = performWeightedSensitivity(nodes, edges, { analysis, includeBiases: false });
+    const baseline = performWeightedAnalysis(nodes, edges, analysis);
+    const weakened = performWeightedAnalysis(nodes, [edges[0], { ...edges[1], weight: 1 }, edges[2]], analysis);
+
+    expect(result.method).toBe('oat');
+    expect(result.runs).toBe(7);
+    expect(result.baselineAttractorCount).toBe(baseline.attractors.length);
+
+    const driver = result.entries.find(e => e.parameter.kind === 'edge' && e.parameter.target === 'B')!;
+    expect(driver.range).toEqual([1, 3]);
+    // Only the lower end (weight 1 against bias -1) changes the dynamics
+    expect(driver.effects.attractorCount).toBe(Math.abs(weakened.attractors.length - baseline.attractors.length) / 2);
+    expect(driver.effects.basinShift).toBeGreaterThan(0);
+
+    const relay = result.entries.find(e => e.parameter.kind === 'edge' && e.parameter.target === 'C')!;
+    expect(relay.effects).toEqual({ attractorCount: 0, basinShift: 0, fateShift: 0 });
+    expect(result.entries[0].effects.basinShift).toBeGreaterThanOrEqual(driver.effects.basinShift);
+  });
+
+  it('measures fate shifts only between attractors with different fates', () => {
+    const baseline = performWeightedAnalysis(nodes, edges, analysis);
+    const key = (a: (typeof baseline.attractors)[number]) => signatureKey(attractorSignature(a, baseline.nodeOrder));
+    const sameFate = Object.fromEntries(baseline.attractors.map(a => [key(a), 'Quiescent']));
+    const ownFates = Object.fromEntries(baseline.attractors.map(a => [key(a), `Fate ${a.id}`]));
+
+    const pooled = performWeightedSensitivity(nodes, edges, { analysis, fates: sameFate });
+    const separate = performWeightedSensitivity(nodes, edges, { analysis, fates: ownFates });
+    const noFates = performWeightedSensitivity(nodes, edges, { analysis });
+    const biasOfA = (r: typeof pooled) => r.entries.find(e => e.parameter.kind === 'bias' && e.parameter.nodeId === 'A')!;
+
+    // Biasing A moves basin share between the two known attractors, so only distinct fates register it
+    expect(biasOfA(pooled).effects.basinShift).toBeGreaterThan(0);
+    expect(biasOfA(pooled).effects.fateShift).toBe(0);
+    expect(biasOfA(separate).effects.fateShift).toBe(biasOfA(separate).effects.basinShift);
+    expect(noFates.entries.every(e => e.effects.fateShift === 0)).toBe(true);
+  });
+
+  it('samples reproducible Morris trajectories', () => {
+    const options = { method: 'morris' as const, analysis, trajectories: 5, seed: 7 };
+    const result = performWeightedSensitivity(nodes, edges, options);
+
+    expect(result.runs).toBe(1 + 5 * 7);
+    expect(result.seed).toBe(7);
+    expect(result.entries).toHaveLength(6);
+    expect(result.entries.every(e => e.spread !== undefined)).toBe(true);
+    expect(performWeightedSensitivity(nodes, edges, options)).toEqual(result);
+  });
+
+  it('keeps the strongest effect per edge for the graph overlay', () => {
+    const result = performWeightedSensitivity(nodes, edges, { analysis });
+
+    expect(Object.keys(edgeSensitivity(result)).sort()).toEqual(['A::A', 'A::B', 'B::C']);
+    expect(edgeSensitivity(result)['B::C']).toBe(0);
+  });
+
+  it('rejects invalid and oversized designs', () => {
+    expect(() => performWeightedSensitivity(nodes, edges, { relativeChange: -1 })).toThrow('finite and non-negative');
+    expect(() => performWeightedSensitivity(nodes, edges, { method: 'morris', levels: 3 })).toThrow('even number of levels');
+    expect(() => performWeightedSensitivity([{ id: 'A' }], [], { includeBiases: false })).toThrow('no edge weights or biases');
+    expect(() => performWeightedSensitivity(nodes, edges, { method: 'morris', trajectories: 400 })).toThrow(
+      'Sensitivity analysis needs 2,801 runs; the limit is 2,000.',
+    );
+  });
+
+  it('runs through the analysis runtime with progress', async () => {
+    const progress: number[] = [];
+    const options = { analysis, includeBiases: false };
+    const result = await runWeightedSensitivityAsync(nodes, edges, options, {
+      onProgress: (p) => progress.push(p.explored),
+    });
+
+    expect(result).toEqual(performWeightedSensitivity(nodes, edges, options));
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+});
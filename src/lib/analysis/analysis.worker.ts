@@ -0,0 +1,26 @@
+/**
+ * Web Worker entry point for attractor analyses.
+ *
+ * Receives a single `AnalysisRequest`, streams progress messages while the
+ * engine runs, and posts the final result (or error). The runtime terminates
+ * the worker afterwards, so no state is kept between runs.
+ */
+
+import { executeAnalysisRequest, type AnalysisRequest, type AnalysisWorkerResponse } from './workerProtocol';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<AnalysisRequest>) => void) | null;
+  postMessage: (message: AnalysisWorkerResponse) => void;
+};
+
+scope.onmessage = (event) => {
+  try {
+    const result = executeAnalysisRequest(event.data, (progress) => {
+      scope.postMessage({ type: 'progress', progress });
+    });
+    scope.postMessage({ type: 'result', result });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    scope.postMessage({ type: 'error', message });
+  }
+};
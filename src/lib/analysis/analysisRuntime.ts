@@ -0,0 +1,251 @@
+/**
+ * Worker-backed runtime for the attractor analysis engines.
+ *
+ * Each run spawns a dedicated module worker so long enumerations never block
+ * the editor; cancelling a run simply terminates its worker. When `Worker` is
+ * unavailable (tests, SSR) the request runs on the current thread after a
+ * macrotask yield, with the same progress reporting.
+ */
+
+import type {
+  AnalysisEdge,
+  AnalysisNode,
+  AnalysisProgressCallback,
+  RuleBasedAnalysisOptions,
+  DeterministicAnalysisResult,
+  InterventionSearchOptions,
+  InterventionSearchResult,
+  CombinationScreenOptions,
+  CombinationScreenResult,
+  PatientDrugScoreOptions,
+  PatientDrugScoreResult,
+  ProbabilisticAnalysisOptions,
+  ProbabilisticAnalysisResult,
+  ProbabilisticSweepOptions,
+  ProbabilisticSweepResult,
+  DoseResponseOptions,
+  DoseResponseResult,
+  PbnAnalysisOptions,
+  PbnAnalysisResult,
+  SimulationModel,
+  SimulationOptions,
+  SimulationResult,
+  TrapSpaceAnalysisOptions,
+  TrapSpaceAnalysisResult,
+  WeightedAnalysisOptions,
+  WeightedSensitivityOptions,
+  WeightedSensitivityResult,
+} from './types';
+import type { NetworkData } from '@/types/network';
+import {
+  executeAnalysisRequest,
+  toTransferableRequest,
+  type AnalysisRequest,
+  type AnalysisResultFor,
+  type AnalysisWorkerResponse,
+  type AnyAnalysisResult,
+} from './workerProtocol';
+
+export interface AnalysisRunOptions {
+  /** Receives progress updates streamed from the engine. */
+  onProgress?: AnalysisProgressCallback;
+  /** Aborting the signal terminates the run and rejects with `AnalysisCancelledError`. */
+  signal?: AbortSignal;
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor(message = 'Analysis cancelled') {
+    super(message);
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export function isAnalysisCancelled(err: unknown): err is AnalysisCancelledError {
+  return err instanceof AnalysisCancelledError;
+}
+
+const canUseWorker = (): boolean => typeof Worker !== 'undefined';
+
+function runOnCurrentThread(
+  request: AnalysisRequest,
+  { onProgress, signal }: AnalysisRunOptions,
+): Promise<AnyAnalysisResult> {
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      if (signal?.aborted) {
+        reject(new AnalysisCancelledError());
+        return;
+      }
+      try {
+        const result = executeAnalysisRequest(request, onProgress);
+        // The run cannot be interrupted on this thread; drop the result if it was cancelled meanwhile.
+        if (signal?.aborted) {
+          reject(new AnalysisCancelledError());
+          return;
+        }
+        resolve(result);
+      } catch (err) {
+        reject(err);
+      }
+    }, 0);
+  });
+}
+
+function runInWorker(
+  request: AnalysisRequest,
+  { onProgress, signal }: AnalysisRunOptions,
+): Promise<AnyAnalysisResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AnalysisCancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    function handleAbort() {
+      cleanup();
+      reject(new AnalysisCancelledError());
+    }
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      cleanup();
+      if (message.type === 'result') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(event.message || 'Analysis worker failed'));
+    };
+
+    worker.postMessage(toTransferableRequest(request));
+  });
+}
+
+/**
+ * Run an analysis request off the main thread when possible.
+ */
+export function runAnalysis<K extends AnalysisRequest['kind']>(
+  request: Extract<AnalysisRequest, { kind: K }>,
+  runOptions: AnalysisRunOptions = {},
+): Promise<AnalysisResultFor<K>> {
+  const pending = canUseWorker() ? runInWorker(request, runOptions) : runOnCurrentThread(request, runOptions);
+  return pending as Promise<AnalysisResultFor<K>>;
+}
+
+export function runDeterministicAnalysisAsync(
+  rules: string[],
+  options?: RuleBasedAnalysisOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<DeterministicAnalysisResult> {
+  return runAnalysis({ kind: 'deterministic', rules, options }, runOptions);
+}
+
+export function runWeightedAnalysisAsync(
+  nodes: AnalysisNode[],
+  edges: AnalysisEdge[],
+  options?: WeightedAnalysisOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<DeterministicAnalysisResult> {
+  return runAnalysis({ kind: 'weighted', nodes, edges, options }, runOptions);
+}
+
+export function runProbabilisticAnalysisAsync(
+  nodes: AnalysisNode[],
+  edges: AnalysisEdge[],
+  options?: ProbabilisticAnalysisOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<ProbabilisticAnalysisResult> {
+  return runAnalysis({ kind: 'probabilistic', nodes, edges, options }, runOptions);
+}
+
+export function runTrapSpaceAnalysisAsync(
+  rules: string[],
+  options?: TrapSpaceAnalysisOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<TrapSpaceAnalysisResult> {
+  return runAnalysis({ kind: 'trap-spaces', rules, options }, runOptions);
+}
+
+export function runSimulationAsync(
+  model: SimulationModel,
+  options?: SimulationOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<SimulationResult> {
+  return runAnalysis({ kind: 'simulation', model, options }, runOptions);
+}
+
+export function runPbnAnalysisAsync(
+  rules: string[],
+  options?: PbnAnalysisOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<PbnAnalysisResult> {
+  return runAnalysis({ kind: 'pbn', rules, options }, runOptions);
+}
+
+export function runProbabilisticSweepAsync(
+  nodes: AnalysisNode[],
+  edges: AnalysisEdge[],
+  options: ProbabilisticSweepOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<ProbabilisticSweepResult> {
+  return runAnalysis({ kind: 'probabilistic-sweep', nodes, edges, options }, runOptions);
+}
+
+export function runWeightedSensitivityAsync(
+  nodes: AnalysisNode[],
+  edges: AnalysisEdge[],
+  options?: WeightedSensitivityOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<WeightedSensitivityResult> {
+  return runAnalysis({ kind: 'weighted-sensitivity', nodes, edges, options }, runOptions);
+}
+
+export function runInterventionSearchAsync(
+  network: NetworkData,
+  options: InterventionSearchOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<InterventionSearchResult> {
+  return runAnalysis({ kind: 'intervention-search', network, options }, runOptions);
+}
+
+export function runCombinationScreenAsync(
+  network: NetworkData,
+  options: CombinationScreenOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<CombinationScreenResult> {
+  return runAnalysis({ kind: 'combination-screen', network, options }, runOptions);
+}
+
+export function runPatientDrugScoresAsync(
+  network: NetworkData,
+  options: PatientDrugScoreOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<PatientDrugScoreResult> {
+  return runAnalysis({ kind: 'patient-drug-scores', network, options }, runOptions);
+}
+
+export function runDoseResponseAsync(
+  nodes: AnalysisNode[],
+  edges: AnalysisEdge[],
+  options: DoseResponseOptions,
+  runOptions?: AnalysisRunOptions,
+): Promise<DoseResponseResult> {
+  return runAnalysis({ kind: 'dose-response', nodes, edges, options }, runOptions);
+}
@@ -0,0 +1,120 @@
+/**
+ * Stable attractor identity across runs and network versions.
+ *
+ * Attractor ids are discovery order, which changes whenever an analysis is
+ * rerun, sampled differently or the network is edited. A signature writes the
+ * attractor's states over node ids in sorted order and rotates cycles to start
+ * at their smallest state, so the same attractor always gets the same
+ * signature. `matchAttractors` re-associates saved entries (such as cell fates)
+ * with the attractors of a new run: exactly when the signatures agree, and
+ * partially when nodes were added or removed or a few node values differ.
+ */
+
+import type { AttractorMatch, AttractorSignature, DeterministicAnalysisResult, DeterministicAttractor } from './types';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+
+export function attractorSignature(
+  attractor: Pick<DeterministicAttractor, 'type' | 'states'>,
+  nodeOrder: string[],
+): AttractorSignature {
+  const nodes = [...nodeOrder].sort();
+  const position = nodes.map((id) => nodeOrder.indexOf(id));
+  const states = attractor.states.map((state) => position.map((i) => state.binary[i]).join(''));
+  if (attractor.type === 'complex-attractor') {
+    return { nodes, states: states.sort(), cyclic: false };
+  }
+  const start = states.reduce((best, state, i) => (state < states[best] ? i : best), 0);
+  return { nodes, states: [...states.slice(start), ...states.slice(0, start)], cyclic: true };
+}
+
+/** Compact string form of a signature, for use as a record key. */
+export function signatureKey(signature: AttractorSignature): string {
+  return `${signature.nodes.join(',')}:${signature.states.join(signature.cyclic ? '>' : '|')}`;
+}
+
+/** Share of equal characters between two equally long binaries. */
+function agreement(a: string, b: string): number {
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++;
+  return a.length === 0 ? 1 : same / a.length;
+}
+
+/**
+ * How well two signatures agree on the nodes they share (0..1); 0 when fewer
+ * than half of the saved signature's nodes remain.
+ */
+export function signatureSimilarity(saved: AttractorSignature, current: AttractorSignature): number {
+  const currentIndex = new Map(current.nodes.map((id, i) => [id, i]));
+  const shared = saved.nodes.flatMap((id, i) => (currentIndex.has(id) ? [[i, currentIndex.get(id)!]] : []));
+  if (shared.length === 0 || shared.length * 2 < saved.nodes.length) return 0;
+
+  const a = saved.states.map((state) => shared.map(([i]) => state[i]).join(''));
+  const b = current.states.map((state) => shared.map(([, j]) => state[j]).join(''));
+
+  // Cycles of equal length: compare state by state under the best rotation
+  if (saved.cyclic && current.cyclic && a.length === b.length) {
+    let best = 0;
+    for (let shift = 0; shift < b.length; shift++) {
+      const total = a.reduce((sum, state, i) => sum + agreement(state, b[(i + shift) % b.length]), 0);
+      best = Math.max(best, total / a.length);
+    }
+    return best;
+  }
+  // Otherwise compare as state sets: each state against its closest counterpart, both ways
+  const closest = (from: string[], to: string[]) =>
+    from.reduce((sum, state) => sum + Math.max(...to.map((other) => agreement(state, other))), 0) / from.length;
+  return (closest(a, b) + closest(b, a)) / 2;
+}
+
+/**
+ * Re-associate saved entries with the attractors of a new run, one entry per attractor.
+ * Entries with a signature match by similarity (best pairs first, at least `minSimilarity`);
+ * legacy entries without one fall back to the attractor whose id equals their key.
+ */
+export function matchAttractors(
+  saved: Record<string, { signature?: AttractorSignature }>,
+  result: Pick<DeterministicAnalysisResult, 'nodeOrder' | 'attractors'>,
+  minSimilarity: number = ANALYSIS_CONFIG.ATTRACTOR_MATCH_MIN_SIMILARITY,
+): { matches: AttractorMatch[]; unmatched: string[] } {
+  const signatures = result.attractors.map((attractor) => attractorSignature(attractor, result.nodeOrder));
+  const keys = signatures.map(signatureKey);
+
+  const candidates: AttractorMatch[] = [];
+  for (const [key, entry] of Object.entries(saved)) {
+    if (!entry.signature) continue;
+    const savedKey = signatureKey(entry.signature);
+    result.attractors.forEach((attractor, i) => {
+      if (keys[i] === savedKey) {
+        candidates.push({ key, attractorId: attractor.id, similarity: 1, kind: 'exact' });
+        return;
+      }
+      const similarity = signatureSimilarity(entry.signature!, signatures[i]);
+      if (similarity >= minSimilarity) {
+        candidates.push({ key, attractorId: attractor.id, similarity, kind: 'partial' });
+      }
+    });
+  }
+  // Exact matches first, then by similarity; ties keep discovery order
+  candidates.sort((a, b) => Number(b.kind === 'exact') - Number(a.kind === 'exact') || b.similarity - a.similarity);
+
+  const matches: AttractorMatch[] = [];
+  const usedKeys = new Set<string>();
+  const usedAttractors = new Set<number>();
+  for (const candidate of candidates) {
+    if (usedKeys.has(candidate.key) || usedAttractors.has(candidate.attractorId)) continue;
+    matches.push(candidate);
+    usedKeys.add(candidate.key);
+    usedAttractors.add(candidate.attractorId);
+  }
+
+  const ids = new Set(result.attractors.map((attractor) => attractor.id));
+  for (const [key, entry] of Object.entries(saved)) {
+    const id = Number(key);
+    if (entry.signature || String(id) !== key || !ids.has(id) || usedAttractors.has(id)) continue;
+    matches.push({ key, attractorId: id, similarity: 0, kind: 'id' });
+    usedKeys.add(key);
+    usedAttractors.add(id);
+  }
+
+  return { matches, unmatched: Object.keys(saved).filter((key) => !usedKeys.has(key)) };
+}
@@ -0,0 +1,311 @@
+/**
+ * Minimal reduced ordered binary decision diagram (ROBDD) package for the
+ * symbolic attractor search.
+ *
+ * Nodes are plain integers: 0 and 1 are the FALSE/TRUE terminals. Variable i is
+ * tested before variable j whenever i < j. Dead nodes are only reclaimed by
+ * `compact`; the manager throws `BddNodeLimitError` once its node budget is exhausted.
+ */
+
+export const BDD_FALSE = 0;
+export const BDD_TRUE = 1;
+
+export class BddNodeLimitError extends Error {
+  constructor(limit: number) {
+    super(`Symbolic analysis exceeded its budget of ${limit.toLocaleString()} BDD nodes.`);
+    this.name = 'BddNodeLimitError';
+  }
+}
+
+// Node ids stay below 2^26, so two ids pack exactly into one cache key.
+const KEY_SHIFT = 2 ** 26;
+const MAX_CACHE_ENTRIES = 1 << 21;
+
+type BinaryOp = 'and' | 'or' | 'xor';
+
+export class BddManager {
+  readonly varCount: number;
+  private readonly maxNodes: number;
+  private vars: Int32Array;
+  private lows: Int32Array;
+  private highs: Int32Array;
+  private size: number;
+  private readonly uniqueTables: Map<number, number>[];
+  private readonly opCaches: Record<BinaryOp, Map<number, number>>;
+  private readonly notCache = new Map<number, number>();
+  private readonly countCache = new Map<number, number>();
+
+  constructor(varCount: number, maxNodes: number) {
+    this.varCount = varCount;
+    this.maxNodes = Math.min(maxNodes, KEY_SHIFT - 1);
+    const capacity = 1 << 16;
+    this.vars = new Int32Array(capacity);
+    this.lows = new Int32Array(capacity);
+    this.highs = new Int32Array(capacity);
+    // Terminals sit below every variable.
+    this.vars[0] = varCount;
+    this.vars[1] = varCount;
+    this.size = 2;
+    this.uniqueTables = Array.from({ length: varCount }, () => new Map<number, number>());
+    this.opCaches = { and: new Map(), or: new Map(), xor: new Map() };
+  }
+
+  get nodeCount(): number {
+    return this.size;
+  }
+
+  /** Variable tested at `u` (`varCount` for the terminals). */
+  topVariable(u: number): number {
+    return this.vars[u];
+  }
+
+  /** Child of `u` for its variable set to 0. */
+  low(u: number): number {
+    return this.lows[u];
+  }
+
+  /** Child of `u` for its variable set to 1. */
+  high(u: number): number {
+    return this.highs[u];
+  }
+
+  variable(index: number): number {
+    return this.mk(index, BDD_FALSE, BDD_TRUE);
+  }
+
+  not(u: number): number {
+    if (u <= BDD_TRUE) return u ^ 1;
+    const cached = this.notCache.get(u);
+    if (cached !== undefined) return cached;
+    const result = this.mk(this.vars[u], this.not(this.lows[u]), this.not(this.highs[u]));
+    this.remember(this.notCache, u, result);
+    return result;
+  }
+
+  and(a: number, b: number): number {
+    return this.apply('and', a, b);
+  }
+
+  or(a: number, b: number): number {
+    return this.apply('or', a, b);
+  }
+
+  xor(a: number, b: number): number {
+    return this.apply('xor', a, b);
+  }
+
+  /** Set difference `a ∧ ¬b`. */
+  diff(a: number, b: number): number {
+    return this.and(a, this.not(b));
+  }
+
+  ite(condition: number, then: number, otherwise: number): number {
+    return this.or(this.and(condition, then), this.and(this.not(condition), otherwise));
+  }
+
+  /** Cofactor of `u` with variable `index` fixed to `value`. */
+  restrict(u: number, index: number, value: 0 | 1): number {
+    const memo = new Map<number, number>();
+    const visit = (node: number): number => {
+      const v = this.vars[node];
+      if (v > index) return node;
+      if (v === index) return value ? this.highs[node] : this.lows[node];
+      const cached = memo.get(node);
+      if (cached !== undefined) return cached;
+      const result = this.mk(v, visit(this.lows[node]), visit(this.highs[node]));
+      memo.set(node, result);
+      return result;
+    };
+    return visit(u);
+  }
+
+  /** `u` with variable `index` negated, i.e. the image of `u` under flipping that bit. */
+  flip(u: number, index: number): number {
+    const memo = new Map<number, number>();
+    const visit = (node: number): number => {
+      const v = this.vars[node];
+      if (v > index) return node;
+      if (v === index) return this.mk(v, this.highs[node], this.lows[node]);
+      const cached = memo.get(node);
+      if (cached !== undefined) return cached;
+      const result = this.mk(v, visit(this.lows[node]), visit(this.highs[node]));
+      memo.set(node, result);
+      return result;
+    };
+    return visit(u);
+  }
+
+  /**
+   * Substitute `functions[i]` for every variable i simultaneously. `memo` must be
+   * reused only with the same substitution.
+   */
+  compose(u: number, functions: number[], memo: Map<number, number>): number {
+    if (u <= BDD_TRUE) return u;
+    const cached = memo.get(u);
+    if (cached !== undefined) return cached;
+    const result = this.ite(
+      functions[this.vars[u]],
+      this.compose(this.highs[u], functions, memo),
+      this.compose(this.lows[u], functions, memo),
+    );
+    memo.set(u, result);
+    return result;
+  }
+
+  /** BDD of a single complete assignment. */
+  cube(assignment: ArrayLike<number>): number {
+    let node = BDD_TRUE;
+    for (let i = this.varCount - 1; i >= 0; i--) {
+      node = assignment[i] ? this.mk(i, BDD_FALSE, node) : this.mk(i, node, BDD_FALSE);
+    }
+    return node;
+  }
+
+  /** Number of satisfying assignments (exact up to 2^53). */
+  satCount(u: number): number {
+    return this.countFrom(u) * 2 ** this.vars[u];
+  }
+
+  /** One satisfying assignment (indexed by variable), preferring 0 for free variables; null for FALSE. */
+  pickOne(u: number): Uint8Array | null {
+    if (u === BDD_FALSE) return null;
+    const assignment = new Uint8Array(this.varCount);
+    let node = u;
+    while (node > BDD_TRUE) {
+      if (this.lows[node] !== BDD_FALSE) {
+        node = this.lows[node];
+      } else {
+        assignment[this.vars[node]] = 1;
+        node = this.highs[node];
+      }
+    }
+    return assignment;
+  }
+
+  /**
+   * Drop every node not reachable from `roots` and clear all caches. Returns the
+   * roots renumbered for the compacted table; any other held node ids become invalid.
+   */
+  compact(roots: number[]): number[] {
+    const live = new Uint8Array(this.size);
+    live[BDD_FALSE] = 1;
+    live[BDD_TRUE] = 1;
+    const stack = [...roots];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (live[node]) continue;
+      live[node] = 1;
+      stack.push(this.lows[node], this.highs[node]);
+    }
+
+    // Children are always created before their parents, so ascending ids are a topological order.
+    const remap = new Int32Array(this.size);
+    remap[BDD_TRUE] = BDD_TRUE;
+    let next = 2;
+    for (const table of this.uniqueTables) table.clear();
+    for (let node = 2; node < this.size; node++) {
+      if (!live[node]) continue;
+      const low = remap[this.lows[node]];
+      const high = remap[this.highs[node]];
+      this.vars[next] = this.vars[node];
+      this.lows[next] = low;
+      this.highs[next] = high;
+      this.uniqueTables[this.vars[node]].set(low * KEY_SHIFT + high, next);
+      remap[node] = next++;
+    }
+    this.size = next;
+
+    for (const cache of Object.values(this.opCaches)) cache.clear();
+    this.notCache.clear();
+    this.countCache.clear();
+    return roots.map(root => remap[root]);
+  }
+
+  private countFrom(u: number): number {
+    if (u <= BDD_TRUE) return u;
+    const cached = this.countCache.get(u);
+    if (cached !== undefined) return cached;
+    const v = this.vars[u];
+    const low = this.lows[u];
+    const high = this.highs[u];
+    const result =
+      this.countFrom(low) * 2 ** (this.vars[low] - v - 1) +
+      this.countFrom(high) * 2 ** (this.vars[high] - v - 1);
+    this.countCache.set(u, result);
+    return result;
+  }
+
+  private apply(op: BinaryOp, a: number, b: number): number {
+    switch (op) {
+      case 'and':
+        if (a === BDD_FALSE || b === BDD_FALSE) return BDD_FALSE;
+        if (a === BDD_TRUE || a === b) return b;
+        if (b === BDD_TRUE) return a;
+        break;
+      case 'or':
+        if (a === BDD_TRUE || b === BDD_TRUE) return BDD_TRUE;
+        if (a === BDD_FALSE || a === b) return b;
+        if (b === BDD_FALSE) return a;
+        break;
+      case 'xor':
+        if (a === b) return BDD_FALSE;
+        if (a === BDD_FALSE) return b;
+        if (b === BDD_FALSE) return a;
+        if (a === BDD_TRUE) return this.not(b);
+        if (b === BDD_TRUE) return this.not(a);
+        break;
+    }
+
+    // All operations are commutative.
+    if (a > b) [a, b] = [b, a];
+    const cache = this.opCaches[op];
+    const key = a * KEY_SHIFT + b;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    const va = this.vars[a];
+    const vb = this.vars[b];
+    const top = Math.min(va, vb);
+    const aLow = va === top ? this.lows[a] : a;
+    const aHigh = va === top ? this.highs[a] : a;
+    const bLow = vb === top ? this.lows[b] : b;
+    const bHigh = vb === top ? this.highs[b] : b;
+    const result = this.mk(top, this.apply(op, aLow, bLow), this.apply(op, aHigh, bHigh));
+    this.remember(cache, key, result);
+    return result;
+  }
+
+  private mk(v: number, low: number, high: number): number {
+    if (low === high) return low;
+    const table = this.uniqueTables[v];
+    const key = low * KEY_SHIFT + high;
+    const existing = table.get(key);
+    if (existing !== undefined) return existing;
+
+    if (this.size >= this.maxNodes) throw new BddNodeLimitError(this.maxNodes);
+    if (this.size === this.vars.length) this.grow();
+    const id = this.size++;
+    this.vars[id] = v;
+    this.lows[id] = low;
+    this.highs[id] = high;
+    table.set(key, id);
+    return id;
+  }
+
+  private grow() {
+    const capacity = Math.min(this.vars.length * 2, this.maxNodes);
+    const resize = (source: Int32Array) => {
+      const next = new Int32Array(capacity);
+      next.set(source);
+      return next;
+    };
+    this.vars = resize(this.vars);
+    this.lows = resize(this.lows);
+    this.highs = resize(this.highs);
+  }
+
+  private remember(cache: Map<number, number>, key: number, value: number) {
+    if (cache.size >= MAX_CACHE_ENTRIES) cache.clear();
+    cache.set(key, value);
+  }
+}
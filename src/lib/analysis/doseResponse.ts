@@ -0,0 +1,113 @@
+/**
+ * Dose-response curves of the quantitative drug model.
+ *
+ * Reruns `performProbabilisticAnalysis` over a range of doses of one drug (see
+ * `drugModel.ts` for how a dose becomes a partial perturbation) and records the
+ * steady-state activation probability of an output node at every dose, together
+ * with the dose of half response.
+ */
+
+import type { AnalysisEdge, AnalysisNode, DoseResponseOptions, DoseResponseResult } from './types';
+import { drugEffectFraction } from './drugModel';
+import { performProbabilisticAnalysis } from './probabilisticAnalysis';
+import { csvField } from '../csv';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+
+const doseValues = (from: number, to: number, steps: number, logScale: boolean): number[] =>
+  Array.from({ length: steps }, (_, i) => {
+    const t = i / (steps - 1);
+    return logScale ? Math.exp(Math.log(from) + (Math.log(to) - Math.log(from)) * t) : from + (to - from) * t;
+  });
+
+/** Dose where the curve first crosses halfway between its end values, interpolated on the dose axis used. */
+function halfResponseDose(doses: number[], probabilities: number[], logScale: boolean): number | null {
+  const first = probabilities[0];
+  const last = probabilities[probabilities.length - 1];
+  if (Math.abs(last - first) < 1e-6) return null;
+  const half = (first + last) / 2;
+  const axis = (dose: number) => (logScale ? Math.log(dose) : dose);
+  for (let i = 1; i < doses.length; i++) {
+    const [a, b] = [probabilities[i - 1] - half, probabilities[i] - half];
+    if (a === 0) return doses[i - 1];
+    if (a * b < 0 || b === 0) {
+      const x = axis(doses[i - 1]) + ((axis(doses[i]) - axis(doses[i - 1])) * a) / (a - b);
+      return logScale ? Math.exp(x) : x;
+    }
+  }
+  return null;
+}
+
+export function performDoseResponse(
+  nodes: AnalysisNode[],
+  edges: AnalysisEdge[],
+  options: DoseResponseOptions,
+): DoseResponseResult {
+  const {
+    drug,
+    outputNode,
+    from,
+    to,
+    steps = ANALYSIS_CONFIG.DOSE_RESPONSE_DEFAULT_STEPS,
+    logScale = true,
+    analysis = {},
+    onProgress,
+  } = options;
+  const nodeLabels = Object.fromEntries(nodes.map((node) => [node.id, node.label || node.id]));
+
+  if (!nodeLabels[drug.node]) throw new Error(`Unknown drug target "${drug.node}".`);
+  if (!nodeLabels[outputNode]) throw new Error(`Unknown output node "${outputNode}".`);
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from < 0 || to <= from) {
+    throw new Error('The dose range needs 0 ≤ from < to.');
+  }
+  if (logScale && from <= 0) throw new Error('A log-scale dose range must start above 0.');
+  if (!Number.isInteger(steps) || steps < 2 || steps > ANALYSIS_CONFIG.MAX_DOSE_RESPONSE_STEPS) {
+    throw new Error(`A dose-response curve needs 2 to ${ANALYSIS_CONFIG.MAX_DOSE_RESPONSE_STEPS} doses.`);
+  }
+
+  const doses = doseValues(from, to, steps, logScale);
+  const warnings: string[] = [];
+  const effects: number[] = [];
+  const probabilities: number[] = [];
+  const converged: boolean[] = [];
+  const background = analysis.drugs ?? [];
+
+  doses.forEach((dose, index) => {
+    const dosed = { ...drug, dose };
+    const result = performProbabilisticAnalysis(nodes, edges, { ...analysis, drugs: [...background, dosed] });
+    if (index === 0) warnings.push(...result.warnings);
+    effects.push(drugEffectFraction(dosed));
+    probabilities.push(result.probabilities[outputNode] ?? 0);
+    converged.push(result.converged);
+    onProgress?.({ explored: index + 1, total: steps });
+  });
+
+  const unconverged = converged.filter((ok) => !ok).length;
+  if (unconverged > 0) warnings.push(`${unconverged} of ${steps} doses did not converge.`);
+
+  return {
+    drug,
+    outputNode,
+    nodeLabels,
+    doses,
+    logScale,
+    effects,
+    probabilities,
+    converged,
+    halfResponseDose: halfResponseDose(doses, probabilities, logScale),
+    warnings,
+  };
+}
+
+/** Dose-response curve as CSV: dose, drug effect, output probability and convergence per row. */
+export function doseResponseToCsv(result: DoseResponseResult): string {
+  const unit = result.drug.unit ? ` (${result.drug.unit})` : '';
+  const header = [csvField(`dose${unit}`), 'effect', csvField(`P(${result.nodeLabels[result.outputNode] ?? result.outputNode})`), 'converged'];
+  const format = (value: number) => String(Number(value.toPrecision(6)));
+  const rows = result.doses.map((dose, i) => [
+    format(dose),
+    format(result.effects[i]),
+    format(result.probabilities[i]),
+    String(result.converged[i]),
+  ]);
+  return [header, ...rows].map((fields) => fields.join(',')).join('\n') + '\n';
+}
@@ -9,13 +9,80 @@ export type {
   AnalysisEdge,
   StateSnapshot,
   AttractorType,
+  UpdateScheme,
   DeterministicAttractor,
   DeterministicAnalysisResult,
   DeterministicAnalysisOptions,
+  RuleBasedAnalysisOptions,
+  RuleAnalysisMethod,
   WeightedAnalysisOptions,
   WeightMatrix,
+  DrugModulation,
+  DrugEffect,
+  DoseResponseOptions,
+  DoseResponseResult,
+  AttractorSignature,
+  AttractorMatch,
+  SensitivityMethod,
+  SensitivityParameter,
+  SensitivityEffects,
+  SensitivityEntry,
+  WeightedSensitivityOptions,
+  WeightedSensitivityResult,
+  InterventionKind,
+  InterventionPerturbation,
+  InterventionSearchOptions,
+  InterventionSetResult,
+  InterventionSearchResult,
+  CombinationScreenOptions,
+  CombinationPairResult,
+  CombinationScreenResult,
+  PatientMutation,
+  PatientProfile,
+  PatientAlterationSource,
+  PatientAlteration,
+  MutationEffect,
+  CancerGeneRoles,
+  MutationCall,
+  UnclassifiedMutationReason,
+  UnclassifiedMutation,
+  MutationClassification,
+  ExpressionNormalization,
+  ReferenceGeneStats,
+  ExpressionReference,
+  NodeExpressionLevel,
+  NodeExpressionLevels,
+  CountMatrix,
+  DifferentialExpressionOptions,
+  DifferentialExpressionGene,
+  DifferentialExpressionResult,
+  DrugStatus,
+  DrugInteraction,
+  DrugTargetEntry,
+  PatientDrugScoreOptions,
+  PatientDrugScore,
+  PatientDrugScoreResult,
+  ProbabilisticAnalysisMethod,
   ProbabilisticAnalysisOptions,
   ProbabilisticAnalysisResult,
+  SweepParameter,
+  SweepAxis,
+  ProbabilisticSweepOptions,
+  ProbabilisticSweepPoint,
+  ProbabilisticSweepResult,
+  SimulationModel,
+  SimulationOptions,
+  SimulationResult,
+  PbnAnalysisMethod,
+  PbnAnalysisOptions,
+  PbnAnalysisResult,
+  PbnAttractor,
+  TrapSpace,
+  StableMotif,
+  TrapSpaceAnalysisOptions,
+  TrapSpaceAnalysisResult,
+  AnalysisProgress,
+  AnalysisProgressCallback,
 } from './types';
 
 // Matrix utilities
@@ -24,5 +91,50 @@ export { edgesToMatrix, matrixToEdges, getInDegree, computeThreshold } from './m
 // Weighted analysis
 export { performWeightedAnalysis } from './weightedDeterministicAnalysis';
 
+// Attractor identity across runs
+export { attractorSignature, signatureKey, signatureSimilarity, matchAttractors } from './attractorIdentity';
+
+// Weighted sensitivity analysis
+export {
+  performWeightedSensitivity,
+  edgeSensitivity,
+  sensitivityEdgeKey,
+  sensitivityParameterLabel,
+} from './weightedSensitivity';
+
+// Symbolic (BDD) analysis
+export { analyzeSymbolically } from './symbolicAnalysis';
+export { BddManager, BddNodeLimitError } from './bdd';
+
 // Probabilistic analysis
 export { performProbabilisticAnalysis } from './probabilisticAnalysis';
+
+// Quantitative drug model and dose-response curves
+export { applyDrugEffects, drugEffectFraction, drugLabel, isDrugActive } from './drugModel';
+export { performDoseResponse, doseResponseToCsv } from './doseResponse';
+
+// Probabilistic parameter sweeps
+export { performProbabilisticSweep, sweepAxisLabel, sweepToCsv } from './parameterSweep';
+
+// Stochastic time-course simulation
+export { performStochasticSimulation, simulationNodes, simulationToCsv } from './stochasticSimulation';
+
+// Worker-backed runtime
+export {
+  runAnalysis,
+  runDeterministicAnalysisAsync,
+  runWeightedAnalysisAsync,
+  runProbabilisticAnalysisAsync,
+  runTrapSpaceAnalysisAsync,
+  runSimulationAsync,
+  runPbnAnalysisAsync,
+  runProbabilisticSweepAsync,
+  runWeightedSensitivityAsync,
+  runInterventionSearchAsync,
+  runCombinationScreenAsync,
+  runPatientDrugScoresAsync,
+  runDoseResponseAsync,
+  AnalysisCancelledError,
+  isAnalysisCancelled,
+} from './analysisRuntime';
+export type { AnalysisRunOptions } from './analysisRuntime';
@@ -0,0 +1,136 @@
+/**
+ * Parameter sweeps of the probabilistic model.
+ *
+ * Runs `performProbabilisticAnalysis` over an evenly spaced grid of one or two
+ * parameters (noise, self-degradation or basal activity) and records the
+ * steady-state probabilities of selected nodes at every point: one axis gives
+ * bifurcation curves, two axes a heatmap per node. With `continuation` each
+ * point starts from the previous one, so the sweep follows a single mean-field
+ * branch and hysteresis shows up when sweeping the other way.
+ */
+
+import type {
+  AnalysisEdge,
+  AnalysisNode,
+  ProbabilisticAnalysisOptions,
+  ProbabilisticSweepOptions,
+  ProbabilisticSweepPoint,
+  ProbabilisticSweepResult,
+  SweepAxis,
+} from './types';
+import { performProbabilisticAnalysis } from './probabilisticAnalysis';
+import { csvField } from '../csv';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+
+const PARAMETER_LABELS: Record<SweepAxis['parameter'], string> = {
+  noise: 'Noise (µ)',
+  selfDegradation: 'Self-degradation (c)',
+  basalActivity: 'Basal activity',
+};
+
+/** Readable name of a sweep axis, e.g. "Basal activity (TP53)". */
+export function sweepAxisLabel(axis: SweepAxis, nodeLabels: Record<string, string> = {}): string {
+  if (axis.parameter !== 'basalActivity') return PARAMETER_LABELS[axis.parameter];
+  return `${PARAMETER_LABELS.basalActivity} (${axis.nodeId ? nodeLabels[axis.nodeId] ?? axis.nodeId : 'all nodes'})`;
+}
+
+const axisValues = ({ from, to, steps }: SweepAxis): number[] =>
+  Array.from({ length: steps }, (_, i) => from + ((to - from) * i) / (steps - 1));
+
+/** Options of one grid point: the base options with each swept parameter set. */
+function pointOptions(
+  base: Omit<ProbabilisticAnalysisOptions, 'onProgress'>,
+  axes: SweepAxis[],
+  values: number[],
+  nodeOrder: string[],
+): ProbabilisticAnalysisOptions {
+  const options: ProbabilisticAnalysisOptions = { ...base, basalActivity: { ...base.basalActivity } };
+  axes.forEach((axis, i) => {
+    if (axis.parameter === 'basalActivity') {
+      for (const id of axis.nodeId ? [axis.nodeId] : nodeOrder) options.basalActivity![id] = values[i];
+    } else {
+      options[axis.parameter] = values[i];
+    }
+  });
+  return options;
+}
+
+export function performProbabilisticSweep(
+  nodes: AnalysisNode[],
+  edges: AnalysisEdge[],
+  options: ProbabilisticSweepOptions,
+): ProbabilisticSweepResult {
+  const { axes, base = {}, continuation = false, onProgress } = options;
+  const nodeOrder = nodes.map((node) => node.id);
+  const nodeLabels = Object.fromEntries(nodes.map((node) => [node.id, node.label || node.id]));
+
+  if (axes.length < 1 || axes.length > 2) {
+    throw new Error('A parameter sweep needs one or two parameters.');
+  }
+  for (const axis of axes) {
+    if (!Number.isInteger(axis.steps) || axis.steps < 2) {
+      throw new Error(`${sweepAxisLabel(axis, nodeLabels)} needs at least 2 steps.`);
+    }
+    if (!Number.isFinite(axis.from) || !Number.isFinite(axis.to)) {
+      throw new Error(`${sweepAxisLabel(axis, nodeLabels)} needs a finite range.`);
+    }
+    if (axis.nodeId !== undefined && !nodeLabels[axis.nodeId]) {
+      throw new Error(`Unknown node "${axis.nodeId}" in parameter sweep.`);
+    }
+  }
+  const total = axes.reduce((count, axis) => count * axis.steps, 1);
+  if (total > ANALYSIS_CONFIG.MAX_SWEEP_POINTS) {
+    throw new Error(
+      `Parameter sweep has ${total.toLocaleString()} grid points; the limit is ${ANALYSIS_CONFIG.MAX_SWEEP_POINTS.toLocaleString()}.`,
+    );
+  }
+
+  const recorded = (options.recordedNodes ?? nodeOrder).filter((id) => id in nodeLabels);
+  const warnings: string[] = [];
+  const grid = axes.map(axisValues);
+  const rowLength = grid[grid.length - 1].length;
+  const points: ProbabilisticSweepPoint[] = [];
+  let previous: Record<string, number> | undefined;
+
+  for (let index = 0; index < total; index++) {
+    const values = grid.length === 1 ? [grid[0][index]] : [grid[0][Math.floor(index / rowLength)], grid[1][index % rowLength]];
+    const pointBase = continuation && previous && index % rowLength !== 0 ? { ...base, initialProbabilities: previous } : base;
+    const result = performProbabilisticAnalysis(nodes, edges, pointOptions(pointBase, axes, values, nodeOrder));
+    previous = result.probabilities;
+    points.push({
+      values,
+      probabilities: recorded.map((id) => result.probabilities[id] ?? 0),
+      converged: result.converged,
+    });
+    onProgress?.({ explored: index + 1, total });
+  }
+
+  const unconverged = points.filter((point) => !point.converged).length;
+  if (unconverged > 0) {
+    warnings.push(`${unconverged} of ${total} grid points did not converge.`);
+  }
+
+  return {
+    axes: axes.map((axis, i) => ({ ...axis, values: grid[i] })),
+    nodeOrder: recorded,
+    nodeLabels,
+    points,
+    warnings,
+  };
+}
+
+/** Sweep grid as CSV: one row per grid point with the parameter values, node probabilities and convergence. */
+export function sweepToCsv(result: ProbabilisticSweepResult): string {
+  const header = [
+    ...result.axes.map((axis) => csvField(sweepAxisLabel(axis, result.nodeLabels))),
+    ...result.nodeOrder.map((id) => csvField(result.nodeLabels[id] ?? id)),
+    'converged',
+  ];
+  const format = (value: number) => String(Number(value.toFixed(6)));
+  const rows = result.points.map((point) => [
+    ...point.values.map(format),
+    ...point.probabilities.map(format),
+    String(point.converged),
+  ]);
+  return [header, ...rows].map((fields) => fields.join(',')).join('\n') + '\n';
+}
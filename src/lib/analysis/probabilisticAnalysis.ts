@@ -7,6 +7,11 @@
  * (mu) and a self-degradation constant (c). The process iteratively applies a
  * kinetic master equation until convergence and returns the steady-state
  * probabilities together with potential energies (PE = -ln(P_i)).
+ *
+ * The mean-field iteration treats nodes as independent. The "exact" method
+ * instead solves the underlying Markov chain over all 2^n network states, so
+ * correlations and multistable landscapes show up in per-state probabilities
+ * (PE = -ln P(state)).
  */
 
 import type {
@@ -15,6 +20,8 @@ import type {
   ProbabilisticAnalysisOptions,
   ProbabilisticAnalysisResult,
 } from "./types";
+import { ANALYSIS_CONFIG } from "@/config/constants";
+import { applyDrugEffects } from "./drugModel";
 
 const ZERO_TOLERANCE = 1e-9;
 const MIN_PROBABILITY = 1e-9;
@@ -26,6 +33,13 @@ const clamp01 = (value: number): number => {
   return value;
 };
 
+/** Binary key of a packed state, node 0 first (as in `StateSnapshot.binary`). */
+const stateKey = (state: number, nodeCount: number): string => {
+  let key = "";
+  for (let i = 0; i < nodeCount; i++) key += (state >>> i) & 1;
+  return key;
+};
+
 const safeLogistic = (value: number, noise: number): number => {
   const scale = Math.max(Math.abs(noise), 1e-6);
   const exponent = -value / scale;
@@ -51,13 +65,16 @@ export function performProbabilisticAnalysis(
     };
   }
 
-  const warnings: string[] = [];
   const nodeOrder = nodes.map((node) => node.id);
   const indexLookup = new Map<string, number>();
   nodeOrder.forEach((id, index) => indexLookup.set(id, index));
 
+  // Drugs partially scale edge weights and shift biases
+  const dosed = applyDrugEffects(nodeOrder, edges, options.biases, options.drugs);
+  const warnings: string[] = [...dosed.warnings];
+
   const incoming: Array<Array<{ index: number; weight: number }>> = nodeOrder.map(() => []);
-  for (const edge of edges) {
+  for (const edge of dosed.edges) {
     const sourceIndex = indexLookup.get(edge.source);
     const targetIndex = indexLookup.get(edge.target);
     if (sourceIndex === undefined || targetIndex === undefined) continue;
@@ -69,16 +86,43 @@ export function performProbabilisticAnalysis(
   const persistence = clamp01(1 - selfDegradation);
   const maxIterations = Math.max(1, Math.floor(options.maxIterations ?? 500));
   const tolerance = Math.max(1e-8, options.tolerance ?? 1e-4);
-  const biases = options.biases ?? {};
+  const biases = dosed.biases;
   const basalActivity = options.basalActivity ?? {};
   const initialProbabilities = options.initialProbabilities ?? {};
   const globalInitial = clamp01(options.initialProbability ?? 0.5);
+  const { onProgress } = options;
+  const progressInterval = Math.max(1, Math.floor(ANALYSIS_CONFIG.PROGRESS_REPORT_INTERVAL / Math.max(1, nodeOrder.length)));
+
+  const initial = nodeOrder.map((id) => clamp01(initialProbabilities[id] ?? globalInitial));
+
+  if (options.method === "exact") {
+    if (nodeOrder.length > ANALYSIS_CONFIG.MAX_NODES_PROBABILISTIC_EXACT) {
+      throw new Error(
+        `Exact probabilistic analysis supports up to ${ANALYSIS_CONFIG.MAX_NODES_PROBABILISTIC_EXACT} nodes (network has ${nodeOrder.length}). Use the mean-field method instead.`,
+      );
+    }
+    return solveStationaryDistribution({
+      nodeOrder,
+      incoming,
+      netInputs: nodeOrder.map((id) => (biases[id] ?? 0) + (basalActivity[id] ?? 0)),
+      noise,
+      persistence,
+      initial,
+      maxIterations: Math.max(1, Math.floor(options.maxIterations ?? ANALYSIS_CONFIG.PROBABILISTIC_EXACT_MAX_ITERATIONS)),
+      tolerance: options.tolerance ?? ANALYSIS_CONFIG.PROBABILISTIC_EXACT_TOLERANCE,
+      onProgress,
+      warnings,
+    });
+  }
 
-  let probabilities = nodeOrder.map((id) => clamp01(initialProbabilities[id] ?? globalInitial));
+  let probabilities = initial;
   let iterations = 0;
   let converged = false;
 
   for (; iterations < maxIterations; iterations += 1) {
+    if (onProgress && iterations % progressInterval === 0) {
+      onProgress({ explored: iterations, total: maxIterations });
+    }
     const nextProbabilities = probabilities.slice();
     let maxDelta = 0;
 
@@ -119,6 +163,8 @@ export function performProbabilisticAnalysis(
     }
   }
 
+  onProgress?.({ explored: iterations, total: converged ? iterations : maxIterations });
+
   // Convergence warning removed to reduce UI noise; callers can check
   // the `converged` flag directly when they need to act on it.
   void converged;
@@ -134,6 +180,7 @@ export function performProbabilisticAnalysis(
 
   return {
     nodeOrder,
+    method: "mean-field",
     probabilities: probabilityMap,
     potentialEnergies: potentialEnergyMap,
     iterations,
@@ -141,3 +188,221 @@ export function performProbabilisticAnalysis(
     warnings,
   };
 }
+
+interface ExactChain {
+  nodeOrder: string[];
+  incoming: Array<Array<{ index: number; weight: number }>>;
+  /** Bias plus basal activity per node. */
+  netInputs: number[];
+  noise: number;
+  persistence: number;
+  initial: number[];
+  maxIterations: number;
+  tolerance: number;
+  onProgress?: ProbabilisticAnalysisOptions["onProgress"];
+  warnings: string[];
+}
+
+const dot = (a: Float64Array, b: Float64Array): number => {
+  let sum = 0;
+  for (let k = 0; k < a.length; k++) sum += a[k] * b[k];
+  return sum;
+};
+
+/**
+ * Solve `apply(x) = b` by restarted GMRES, starting from and updating `x`.
+ * Returns the number of `apply` calls and whether the relative residual fell below `tolerance`.
+ */
+function gmres(
+  apply: (x: Float64Array, out: Float64Array) => void,
+  b: Float64Array,
+  x: Float64Array,
+  { restart, maxIterations, tolerance, onIteration }: {
+    restart: number;
+    maxIterations: number;
+    tolerance: number;
+    onIteration?: (iterations: number) => void;
+  },
+): { iterations: number; converged: boolean } {
+  const size = b.length;
+  const bNorm = Math.sqrt(dot(b, b)) || 1;
+  const basis = Array.from({ length: restart + 1 }, () => new Float64Array(size));
+  const h = Array.from({ length: restart + 1 }, () => new Float64Array(restart));
+  const cs = new Float64Array(restart);
+  const sn = new Float64Array(restart);
+  const g = new Float64Array(restart + 1);
+  const w = new Float64Array(size);
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    apply(x, w);
+    iterations += 1;
+    for (let k = 0; k < size; k++) w[k] = b[k] - w[k];
+    const beta = Math.sqrt(dot(w, w));
+    if (beta / bNorm < tolerance) return { iterations, converged: true };
+    for (let k = 0; k < size; k++) basis[0][k] = w[k] / beta;
+    g.fill(0);
+    g[0] = beta;
+
+    let columns = 0;
+    for (let j = 0; j < restart && iterations < maxIterations; j++) {
+      apply(basis[j], w);
+      iterations += 1;
+      onIteration?.(iterations);
+      // Modified Gram-Schmidt against the Krylov basis
+      for (let i = 0; i <= j; i++) {
+        const coefficient = dot(w, basis[i]);
+        h[i][j] = coefficient;
+        for (let k = 0; k < size; k++) w[k] -= coefficient * basis[i][k];
+      }
+      const norm = Math.sqrt(dot(w, w));
+      h[j + 1][j] = norm;
+      if (norm > 0) for (let k = 0; k < size; k++) basis[j + 1][k] = w[k] / norm;
+
+      // Givens rotations keep the Hessenberg matrix triangular
+      for (let i = 0; i < j; i++) {
+        const upper = cs[i] * h[i][j] + sn[i] * h[i + 1][j];
+        h[i + 1][j] = -sn[i] * h[i][j] + cs[i] * h[i + 1][j];
+        h[i][j] = upper;
+      }
+      const radius = Math.hypot(h[j][j], h[j + 1][j]) || 1;
+      cs[j] = h[j][j] / radius;
+      sn[j] = h[j + 1][j] / radius;
+      h[j][j] = radius;
+      h[j + 1][j] = 0;
+      g[j + 1] = -sn[j] * g[j];
+      g[j] = cs[j] * g[j];
+      columns = j + 1;
+      if (Math.abs(g[j + 1]) / bNorm < tolerance || norm === 0) break;
+    }
+
+    // Back substitution, then step along the basis
+    const y = new Float64Array(columns);
+    for (let i = columns - 1; i >= 0; i--) {
+      let value = g[i];
+      for (let k = i + 1; k < columns; k++) value -= h[i][k] * y[k];
+      y[i] = h[i][i] === 0 ? 0 : value / h[i][i];
+    }
+    for (let i = 0; i < columns; i++) {
+      for (let k = 0; k < size; k++) x[k] += y[i] * basis[i][k];
+    }
+  }
+
+  apply(x, w);
+  let residual = 0;
+  for (let k = 0; k < size; k++) residual += (b[k] - w[k]) ** 2;
+  return { iterations, converged: Math.sqrt(residual) / bNorm < tolerance };
+}
+
+/**
+ * Stationary distribution of the chain behind the mean-field update: each step
+ * one node, chosen uniformly, turns on with the sigmoid of its net input (off
+ * with zero input) or, with the persistence probability, keeps its value. The
+ * mean-field fixed point is this chain's product-form approximation, and, as
+ * there, persistence only sets the pace, not the steady state.
+ *
+ * With transition matrix P the distribution solves pi (I - P) = 0, sum(pi) = 1,
+ * i.e. (I - P^T + u 1^T) pi = u for the uniform vector u, which GMRES solves
+ * without ever forming P.
+ */
+function solveStationaryDistribution(chain: ExactChain): ProbabilisticAnalysisResult {
+  const { nodeOrder, incoming, netInputs, noise, persistence, initial, maxIterations, tolerance, onProgress, warnings } = chain;
+  const n = nodeOrder.length;
+  const stateCount = 2 ** n;
+
+  // Probability that node i turns on when updated in state s, at s * n + i
+  const activation = new Float64Array(stateCount * n);
+  for (let s = 0; s < stateCount; s++) {
+    for (let i = 0; i < n; i++) {
+      let netInput = netInputs[i];
+      for (const entry of incoming[i]) netInput += entry.weight * ((s >>> entry.index) & 1);
+      activation[s * n + i] = Math.abs(netInput) < ZERO_TOLERANCE ? 0 : safeLogistic(netInput, noise);
+    }
+  }
+
+  // Start from independent nodes at their initial probabilities
+  const distribution = new Float64Array(stateCount);
+  for (let s = 0; s < stateCount; s++) {
+    let p = 1;
+    for (let i = 0; i < n; i++) p *= (s >>> i) & 1 ? initial[i] : 1 - initial[i];
+    distribution[s] = p;
+  }
+
+  let iterations = 0;
+  // Without degradation no node ever updates, so the initial distribution is already stationary
+  let converged = persistence >= 1;
+  if (!converged) {
+    const uniform = new Float64Array(stateCount).fill(1 / stateCount);
+    const apply = (x: Float64Array, out: Float64Array) => {
+      let total = 0;
+      for (let s = 0; s < stateCount; s++) total += x[s];
+      for (let s = 0; s < stateCount; s++) out[s] = x[s] + total / stateCount;
+      // Subtract P^T x: the mass of state s moves to s with node i set on or off
+      for (let s = 0; s < stateCount; s++) {
+        const mass = x[s] / n;
+        if (mass === 0) continue;
+        for (let i = 0; i < n; i++) {
+          const on = activation[s * n + i];
+          const bit = 1 << i;
+          out[s | bit] -= mass * on;
+          out[s & ~bit] -= mass * (1 - on);
+        }
+      }
+    };
+    const progressInterval = Math.max(1, Math.floor(ANALYSIS_CONFIG.PROGRESS_REPORT_INTERVAL / (stateCount * n)));
+    ({ iterations, converged } = gmres(apply, uniform, distribution, {
+      restart: ANALYSIS_CONFIG.PROBABILISTIC_EXACT_RESTART,
+      maxIterations,
+      tolerance,
+      onIteration: (done) => {
+        if (onProgress && done % progressInterval === 0) onProgress({ explored: done, total: maxIterations });
+      },
+    }));
+    if (!converged) {
+      warnings.push(`Stationary distribution did not converge within ${maxIterations} iterations.`);
+    }
+    // Round-off can leave tiny negative entries
+    let total = 0;
+    for (let s = 0; s < stateCount; s++) {
+      distribution[s] = Math.max(0, distribution[s]);
+      total += distribution[s];
+    }
+    for (let s = 0; s < stateCount; s++) distribution[s] /= total;
+  }
+  onProgress?.({ explored: iterations, total: iterations });
+
+  const probabilities: Record<string, number> = {};
+  const potentialEnergies: Record<string, number> = {};
+  nodeOrder.forEach((nodeId, i) => {
+    let marginal = 0;
+    for (let s = 0; s < stateCount; s++) if ((s >>> i) & 1) marginal += distribution[s];
+    probabilities[nodeId] = clamp01(marginal);
+    potentialEnergies[nodeId] = -Math.log(Math.max(probabilities[nodeId], MIN_PROBABILITY));
+  });
+
+  // Keep the most probable states; long tails are cut to keep results and landscapes manageable
+  const order = Array.from({ length: stateCount }, (_, s) => s).sort((a, b) => distribution[b] - distribution[a]);
+  const listed = order.slice(0, ANALYSIS_CONFIG.MAX_LISTED_PROBABILITY_STATES);
+  if (listed.length < stateCount) {
+    warnings.push(`Only the ${listed.length.toLocaleString()} most probable of ${stateCount.toLocaleString()} states are listed.`);
+  }
+  const stateProbabilities: Record<string, number> = {};
+  const stateEnergies: Record<string, number> = {};
+  for (const s of listed) {
+    const key = stateKey(s, n);
+    stateProbabilities[key] = distribution[s];
+    stateEnergies[key] = -Math.log(Math.max(distribution[s], MIN_PROBABILITY));
+  }
+
+  return {
+    nodeOrder,
+    method: "exact",
+    probabilities,
+    potentialEnergies,
+    stateProbabilities,
+    stateEnergies,
+    iterations,
+    converged,
+    warnings,
+  };
+}
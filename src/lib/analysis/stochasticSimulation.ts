@@ -0,0 +1,210 @@
+/**
+ * Stochastic Boolean simulation (time courses).
+ *
+ * Runs many independent trajectories of a rule-based or weighted network from
+ * user-defined initial conditions. Each step applies the chosen update scheme
+ * and then flips every node with a small probability; averaging over the
+ * trajectories gives each node's activation probability over time. Drugs act
+ * during their time windows (see `SimulationOptions.drugs`).
+ */
+
+import type { SimulationModel, SimulationOptions, SimulationResult } from './types';
+import { compileRules } from '../deterministicAnalysis';
+import { compileWeightedUpdate } from './weightedDeterministicAnalysis';
+import { applyDrugEffects, drugEffectFraction, isDrugActive } from './drugModel';
+import { csvField } from '../csv';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+
+interface SimulationNetwork {
+  nodeOrder: string[];
+  nodeLabels: Record<string, string>;
+  /** Synchronous successor over per-node 0/1 vectors. */
+  next: (current: Uint8Array, out: Uint8Array) => void;
+}
+
+function buildNetwork(model: SimulationModel, warnings: string[]): SimulationNetwork {
+  if (model.kind === 'rules') {
+    const { nodeOrder, nodeLabels, compiled } = compileRules(model.rules, warnings);
+    return { nodeOrder, nodeLabels, next: compiled.nextVector };
+  }
+  const nodeOrder = model.nodes.map((node) => node.id);
+  return {
+    nodeOrder,
+    nodeLabels: Object.fromEntries(model.nodes.map((node) => [node.id, node.label || node.id])),
+    next: compileWeightedUpdate(nodeOrder, model.edges, model.options),
+  };
+}
+
+/** Nodes of a model in simulation order; empty when its rules do not compile. */
+export function simulationNodes(model: SimulationModel): Array<{ id: string; label: string }> {
+  try {
+    const { nodeOrder, nodeLabels } = buildNetwork(model, []);
+    return nodeOrder.map((id) => ({ id, label: nodeLabels[id] }));
+  } catch {
+    return [];
+  }
+}
+
+/** Seeded uniform generator in [0, 1) (mulberry32), so runs can be reproduced. */
+export function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const clamp01 = (value: number): number => (Number.isNaN(value) ? 0 : Math.min(1, Math.max(0, value)));
+
+function boundedCount(value: number | undefined, fallback: number, max: number, name: string, warnings: string[]): number {
+  const count = Math.max(1, Math.floor(value !== undefined && Number.isFinite(value) ? value : fallback));
+  if (count <= max) return count;
+  warnings.push(`${name} capped at ${max.toLocaleString()}.`);
+  return max;
+}
+
+export function performStochasticSimulation(
+  model: SimulationModel,
+  options: SimulationOptions = {},
+): SimulationResult {
+  const warnings: string[] = [];
+  const { nodeOrder, nodeLabels, next } = buildNetwork(model, warnings);
+  const n = nodeOrder.length;
+
+  const trajectories = boundedCount(
+    options.trajectories,
+    ANALYSIS_CONFIG.SIMULATION_DEFAULT_TRAJECTORIES,
+    ANALYSIS_CONFIG.MAX_SIMULATION_TRAJECTORIES,
+    'Trajectories',
+    warnings,
+  );
+  const steps = boundedCount(
+    options.steps,
+    ANALYSIS_CONFIG.SIMULATION_DEFAULT_STEPS,
+    ANALYSIS_CONFIG.MAX_SIMULATION_STEPS,
+    'Steps',
+    warnings,
+  );
+  const updateScheme = options.updateScheme ?? 'synchronous';
+  const flipProbability = clamp01(options.flipProbability ?? 0);
+  const seed = (options.seed ?? Math.floor(Math.random() * 2 ** 32)) >>> 0;
+  const { onProgress } = options;
+
+  if (n === 0) {
+    warnings.push('No nodes provided; simulation skipped.');
+    return { nodeOrder, nodeLabels, activation: [], trajectories, steps, updateScheme, seed, warnings };
+  }
+
+  // Drugs act during their windows: re-weighted updates for weighted models, forced values for rules
+  const drugs = (options.drugs ?? []).filter((drug) => {
+    if (!nodeOrder.includes(drug.node)) {
+      warnings.push(`Drug target "${drug.node}" is not in the network; its drug was ignored.`);
+      return false;
+    }
+    if (model.kind === 'rules' && drug.mode === 'modulate') {
+      warnings.push(`"modulate" on ${drug.node} has no effect in rule-based simulations.`);
+      return false;
+    }
+    return true;
+  });
+  const activeDrugs = Array.from({ length: steps }, (_, t) => drugs.filter((drug) => isDrugActive(drug, t)));
+  const forced = activeDrugs.map((active) =>
+    model.kind === 'rules'
+      ? active.map((drug) => ({
+          index: nodeOrder.indexOf(drug.node),
+          value: drug.mode === 'inhibit' || drug.mode === 'suppress' ? 0 : 1,
+          probability: drugEffectFraction(drug),
+        }))
+      : [],
+  );
+  const dosedUpdates = new Map<string, SimulationNetwork['next']>();
+  const updates = activeDrugs.map((active) => {
+    if (model.kind === 'rules' || active.length === 0) return next;
+    const key = active.map((drug) => drugs.indexOf(drug)).join(',');
+    let dosedNext = dosedUpdates.get(key);
+    if (!dosedNext) {
+      const dosed = applyDrugEffects(nodeOrder, model.edges, model.options?.biases, active);
+      for (const warning of dosed.warnings) if (!warnings.includes(warning)) warnings.push(warning);
+      dosedNext = compileWeightedUpdate(nodeOrder, dosed.edges, { ...model.options, biases: dosed.biases });
+      dosedUpdates.set(key, dosedNext);
+    }
+    return dosedNext;
+  });
+
+  const random = createRandom(seed);
+  const globalInitial = clamp01(options.initialProbability ?? 0.5);
+  const initial = nodeOrder.map((id) => clamp01(options.initialProbabilities?.[id] ?? globalInitial));
+
+  // Active counts per step and node, flattened as t * n + i
+  const counts = new Uint32Array((steps + 1) * n);
+  const state = new Uint8Array(n);
+  const scratch = new Uint8Array(n);
+  const order = nodeOrder.map((_, i) => i);
+  const progressInterval = Math.max(1, Math.floor(ANALYSIS_CONFIG.PROGRESS_REPORT_INTERVAL / (steps * n)));
+
+  const record = (t: number) => {
+    const offset = t * n;
+    for (let i = 0; i < n; i++) counts[offset + i] += state[i];
+  };
+
+  const update = (t: number) => {
+    const successor = updates[t];
+    if (updateScheme === 'asynchronous') {
+      const i = Math.floor(random() * n);
+      successor(state, scratch);
+      state[i] = scratch[i];
+    } else if (updateScheme === 'random-order') {
+      // Fisher-Yates shuffle, then update nodes one at a time so later nodes see earlier updates
+      for (let i = n - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+      for (const i of order) {
+        successor(state, scratch);
+        state[i] = scratch[i];
+      }
+    } else {
+      successor(state, scratch);
+      state.set(scratch);
+    }
+
+    if (flipProbability > 0) {
+      for (let i = 0; i < n; i++) {
+        if (random() < flipProbability) state[i] ^= 1;
+      }
+    }
+
+    for (const drug of forced[t]) {
+      if (random() < drug.probability) state[drug.index] = drug.value;
+    }
+  };
+
+  for (let run = 0; run < trajectories; run++) {
+    if (onProgress && run % progressInterval === 0) {
+      onProgress({ explored: run, total: trajectories });
+    }
+    for (let i = 0; i < n; i++) state[i] = random() < initial[i] ? 1 : 0;
+    record(0);
+    for (let t = 1; t <= steps; t++) {
+      update(t - 1);
+      record(t);
+    }
+  }
+  onProgress?.({ explored: trajectories, total: trajectories });
+
+  const activation = Array.from({ length: steps + 1 }, (_, t) =>
+    Array.from(counts.subarray(t * n, (t + 1) * n), (count) => count / trajectories),
+  );
+
+  return { nodeOrder, nodeLabels, activation, trajectories, steps, updateScheme, seed, warnings };
+}
+
+/** Time-course matrix as CSV: one row per step, one column per node (by label). */
+export function simulationToCsv(result: SimulationResult): string {
+  const header = ['step', ...result.nodeOrder.map((id) => csvField(result.nodeLabels[id] ?? id))];
+  const rows = result.activation.map((row, t) => [String(t), ...row.map((p) => String(Number(p.toFixed(6))))]);
+  return [header, ...rows].map((fields) => fields.join(',')).join('\n') + '\n';
+}
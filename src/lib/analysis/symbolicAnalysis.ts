@@ -0,0 +1,374 @@
+/**
+ * Exact attractor search on the symbolic (BDD) state space.
+ *
+ * Update functions are built as BDDs over one variable per node, so networks
+ * far beyond exhaustive enumeration (40–80 nodes) can be analysed without
+ * sampling:
+ * - synchronous: simulate from the smallest uncovered state until its cycle
+ *   closes, then remove the cycle's exact basin (backward reachability, where
+ *   the preimage of a set S is S with every variable replaced by its update function);
+ * - asynchronous: narrow a forward-reachable set down to a terminal SCC, then
+ *   remove its weak basin; reachability applies per-node flips one at a time
+ *   instead of building a monolithic transition relation.
+ *
+ * Attractors are numbered exactly as the enumeration engine numbers them.
+ */
+
+import type {
+  AnalysisProgressCallback,
+  DeterministicAnalysisResult,
+  DeterministicAttractor,
+  StateSnapshot,
+  UpdateScheme,
+} from './types';
+import type { CompiledNetwork, Instruction } from '../deterministicAnalysis';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+import { BDD_FALSE, BDD_TRUE, BddManager } from './bdd';
+
+export interface SymbolicAnalysisInput {
+  nodeOrder: string[];
+  nodeLabels: Record<string, string>;
+  compiled: CompiledNetwork;
+  updateScheme: UpdateScheme;
+  stepCap: number;
+  warnings: string[];
+  onProgress?: AnalysisProgressCallback;
+  /** Diagram node count above which dead diagrams are reclaimed (default: half of `MAX_BDD_NODES`). */
+  compactionThreshold?: number;
+}
+
+/**
+ * BDD variable order: a depth-first post-order over regulators, so each node sits
+ * right after the nodes it reads. Returns the variable index of every node.
+ */
+export function computeVariableOrder(programs: Array<Instruction[] | null>): Int32Array {
+  const varOf = new Int32Array(programs.length).fill(-1);
+  let nextVar = 0;
+  const visit = (node: number) => {
+    if (varOf[node] !== -1) return;
+    varOf[node] = -2; // in progress
+    for (const instruction of programs[node] ?? []) {
+      if (typeof instruction === 'number' && varOf[instruction] === -1) visit(instruction);
+    }
+    varOf[node] = nextVar++;
+  };
+  for (let node = 0; node < programs.length; node++) visit(node);
+  return varOf;
+}
+
+/** BDD of a postfix update program, with node k read from variable `varOf[k]`. */
+export function buildUpdateFunction(manager: BddManager, program: Instruction[], varOf: Int32Array): number {
+  if (program.length === 0) return BDD_FALSE;
+  const stack: number[] = [];
+  for (const instruction of program) {
+    if (typeof instruction === 'number') {
+      stack.push(manager.variable(varOf[instruction]));
+      continue;
+    }
+    if (instruction === 'TRUE' || instruction === 'FALSE') {
+      stack.push(instruction === 'TRUE' ? BDD_TRUE : BDD_FALSE);
+      continue;
+    }
+    if (instruction === 'NOT') {
+      stack.push(manager.not(stack.pop()!));
+      continue;
+    }
+    const b = stack.pop()!;
+    const a = stack.pop()!;
+    switch (instruction) {
+      case 'AND': stack.push(manager.and(a, b)); break;
+      case 'OR': stack.push(manager.or(a, b)); break;
+      case 'XOR': stack.push(manager.xor(a, b)); break;
+      case 'NAND': stack.push(manager.not(manager.and(a, b))); break;
+      case 'NOR': stack.push(manager.not(manager.or(a, b))); break;
+    }
+  }
+  return stack[0];
+}
+
+function toSnapshot(state: Uint8Array, nodeOrder: string[]): StateSnapshot {
+  const values: Record<string, 0 | 1> = {};
+  for (let i = 0; i < nodeOrder.length; i++) {
+    values[nodeOrder[i]] = state[i] ? 1 : 0;
+  }
+  return { binary: state.join(''), values };
+}
+
+/** Least fixed point of `set ∪ step(set)`, expanding only the newest frontier. */
+function saturate(manager: BddManager, seed: number, step: (set: number) => number): number {
+  let reached = seed;
+  let frontier = seed;
+  while (frontier !== BDD_FALSE) {
+    frontier = manager.diff(step(frontier), reached);
+    reached = manager.or(reached, frontier);
+  }
+  return reached;
+}
+
+export function analyzeSymbolically(input: SymbolicAnalysisInput): DeterministicAnalysisResult {
+  const { nodeOrder, nodeLabels, compiled, updateScheme, stepCap, warnings, onProgress } = input;
+  const compactionThreshold = input.compactionThreshold ?? ANALYSIS_CONFIG.MAX_BDD_NODES / 2;
+  const n = nodeOrder.length;
+
+  if (updateScheme === 'random-order') {
+    throw new Error('Symbolic analysis supports synchronous and asynchronous updates only.');
+  }
+  if (n > ANALYSIS_CONFIG.MAX_NODES_SYMBOLIC) {
+    throw new Error(`Symbolic analysis supports up to ${ANALYSIS_CONFIG.MAX_NODES_SYMBOLIC} nodes (network has ${n}).`);
+  }
+
+  const manager = new BddManager(n, ANALYSIS_CONFIG.MAX_BDD_NODES);
+  const varOf = computeVariableOrder(compiled.programs);
+  // Update functions indexed by BDD variable.
+  let updates = new Array<number>(n);
+  compiled.programs.forEach((program, node) => {
+    updates[varOf[node]] = program
+      ? buildUpdateFunction(manager, program, varOf)
+      : manager.variable(varOf[node]);
+  });
+
+  const cubeOf = (state: Uint8Array) => {
+    const assignment = new Uint8Array(n);
+    for (let node = 0; node < n; node++) assignment[varOf[node]] = state[node];
+    return manager.cube(assignment);
+  };
+
+  /** Smallest member in binary-string (node) order. */
+  const smallestState = (set: number): Uint8Array => {
+    const state = new Uint8Array(n);
+    for (let node = 0; node < n && set !== BDD_TRUE; node++) {
+      const zero = manager.restrict(set, varOf[node], 0);
+      if (zero !== BDD_FALSE) {
+        set = zero;
+      } else {
+        state[node] = 1;
+        set = manager.restrict(set, varOf[node], 1);
+      }
+    }
+    return state;
+  };
+
+  /** Up to `limit` members in binary-string (node) order. */
+  const listStates = (set: number, limit: number): Uint8Array[] => {
+    const results: Uint8Array[] = [];
+    const state = new Uint8Array(n);
+    const visit = (current: number, node: number) => {
+      if (results.length >= limit || current === BDD_FALSE) return;
+      if (node === n) {
+        results.push(state.slice());
+        return;
+      }
+      for (const value of [0, 1] as const) {
+        state[node] = value;
+        visit(manager.restrict(current, varOf[node], value), node + 1);
+      }
+      state[node] = 0;
+    };
+    visit(set, 0);
+    return results;
+  };
+
+  const totalStateSpace = 2 ** n;
+  let remaining = BDD_TRUE;
+  const reportProgress = () => {
+    onProgress?.({ explored: totalStateSpace - manager.satCount(remaining), total: totalStateSpace });
+  };
+  // Reclaim dead intermediate diagrams once the threshold is passed.
+  const shouldCompact = () => manager.nodeCount > compactionThreshold;
+
+  const attractors: DeterministicAttractor[] = [];
+  const maxListed = ANALYSIS_CONFIG.MAX_LISTED_ATTRACTOR_STATES;
+
+  if (updateScheme === 'synchronous') {
+    let composeMemo = new Map<number, number>();
+    const preimage = (set: number) => manager.compose(set, updates, composeMemo);
+    const current = new Uint8Array(n);
+    const successor = new Uint8Array(n);
+
+    while (remaining !== BDD_FALSE) {
+      if (shouldCompact()) {
+        const roots = manager.compact([...updates, remaining]);
+        remaining = roots.pop()!;
+        updates = roots;
+        composeMemo = new Map();
+      }
+      reportProgress();
+      current.set(smallestState(remaining));
+
+      // Any uncovered state leads to an attractor that has not been found yet.
+      const indexByState = new Map<string, number>();
+      const trajectory: Uint8Array[] = [];
+      let cycleStart = -1;
+      for (let step = 0; step <= stepCap; step++) {
+        const key = current.join('');
+        const seen = indexByState.get(key);
+        if (seen !== undefined) {
+          cycleStart = seen;
+          break;
+        }
+        indexByState.set(key, trajectory.length);
+        trajectory.push(current.slice());
+        compiled.nextVector(current, successor);
+        current.set(successor);
+      }
+      if (cycleStart < 0) {
+        throw new Error(`Trajectory did not close within ${stepCap.toLocaleString()} steps; increase the step cap.`);
+      }
+
+      const cycle = trajectory.slice(cycleStart);
+      const cycleSet = cycle.reduce((set, state) => manager.or(set, cubeOf(state)), BDD_FALSE);
+      const basin = saturate(manager, cycleSet, preimage);
+      const basinSize = manager.satCount(basin);
+      remaining = manager.diff(remaining, basin);
+
+      attractors.push({
+        id: attractors.length,
+        type: cycle.length === 1 ? 'fixed-point' : 'limit-cycle',
+        period: cycle.length,
+        states: cycle.map(state => toSnapshot(state, nodeOrder)),
+        basinSize,
+        basinShare: basinSize / totalStateSpace,
+      });
+    }
+  } else {
+    const terminalSets: number[] = [];
+    const weakBasins: number[] = [];
+    // States where variable i would change if updated.
+    let unstable = updates.map((f, i) => manager.xor(manager.variable(i), f));
+
+    const post = (set: number, i: number) => manager.flip(manager.and(set, unstable[i]), i);
+    const pre = (set: number, i: number) => manager.and(unstable[i], manager.flip(set, i));
+    // Diagrams a computation is still working with; compaction renumbers them in place.
+    const held: number[] = [];
+    const compactIfNeeded = () => {
+      if (!shouldCompact()) return;
+      const found = terminalSets.length;
+      const basins = weakBasins.length;
+      const roots = manager.compact([...unstable, ...terminalSets, ...weakBasins, remaining, ...held]);
+      unstable = roots.splice(0, n);
+      terminalSets.splice(0, found, ...roots.splice(0, found));
+      weakBasins.splice(0, basins, ...roots.splice(0, basins));
+      remaining = roots.shift()!;
+      held.splice(0, held.length, ...roots);
+    };
+
+    /**
+     * Reachability closure inside `within`, applying one node's moves at a time and
+     * feeding each result straight into the next (chaining), which converges in far
+     * fewer iterations than breadth-first layers.
+     */
+    const close = (seed: number, image: (set: number, i: number) => number, within: number) => {
+      const slot = held.length;
+      held.push(seed, within);
+      let changed = true;
+      while (changed) {
+        changed = false;
+        for (let i = n - 1; i >= 0; i--) {
+          compactIfNeeded();
+          const reached = held[slot];
+          const next = manager.or(reached, manager.and(image(reached, i), held[slot + 1]));
+          if (next !== reached) {
+            held[slot] = next;
+            changed = true;
+          }
+        }
+      }
+      const reached = held[slot];
+      held.length = slot;
+      return reached;
+    };
+
+    while (remaining !== BDD_FALSE) {
+      compactIfNeeded();
+      reportProgress();
+
+      // Narrow down to a terminal SCC: whatever a state reaches but cannot return from
+      // contains an attractor, and the reachable set shrinks with every step.
+      // held[0] is the seed and held[1] its reachable set; both are re-read after every
+      // closure, which may have compacted them.
+      held.push(manager.cube(manager.pickOne(remaining)!));
+      held.push(close(held[0], post, remaining));
+      for (;;) {
+        const returning = close(held[0], pre, held[1]);
+        const escaping = manager.diff(held[1], returning);
+        if (escaping === BDD_FALSE) break;
+        held[0] = manager.cube(manager.pickOne(escaping)!);
+        held[1] = close(held[0], post, held[1]);
+      }
+      terminalSets.push(held.pop()!);
+      held.pop();
+
+      weakBasins.push(close(terminalSets[terminalSets.length - 1], pre, BDD_TRUE));
+      // No remaining state can reach a removed one, so later searches stay inside `remaining`.
+      remaining = manager.diff(remaining, weakBasins[weakBasins.length - 1]);
+    }
+
+    // Number attractors by their smallest state, matching the enumeration engine.
+    const order = terminalSets
+      .map((set, i) => ({ i, first: smallestState(set).join('') }))
+      .sort((x, y) => (x.first < y.first ? -1 : 1))
+      .map(entry => entry.i);
+
+    // Union of all other weak basins via prefix/suffix unions keeps this linear in the attractor count.
+    const sortedBasins = order.map(i => weakBasins[i]);
+    const suffixUnions = new Array<number>(sortedBasins.length + 1).fill(BDD_FALSE);
+    for (let j = sortedBasins.length - 1; j >= 0; j--) {
+      suffixUnions[j] = manager.or(suffixUnions[j + 1], sortedBasins[j]);
+    }
+    let prefixUnion = BDD_FALSE;
+
+    order.forEach((original, id) => {
+      const set = terminalSets[original];
+      const weakBasin = sortedBasins[id];
+      const strongBasin = manager.diff(weakBasin, manager.or(prefixUnion, suffixUnions[id + 1]));
+      prefixUnion = manager.or(prefixUnion, weakBasin);
+
+      const size = manager.satCount(set);
+      const basinSize = manager.satCount(strongBasin);
+      const listed = listStates(set, maxListed);
+      if (size > listed.length) {
+        warnings.push(`Attractor #${id + 1} has ${size.toLocaleString()} states; only the first ${listed.length} are listed.`);
+      }
+
+      const attractor: DeterministicAttractor = {
+        id,
+        type: size === 1 ? 'fixed-point' : 'complex-attractor',
+        period: size,
+        states: listed.map(state => toSnapshot(state, nodeOrder)),
+        basinSize,
+        basinShare: basinSize / totalStateSpace,
+        weakBasinSize: manager.satCount(weakBasin),
+      };
+
+      if (size > 1 && size === listed.length) {
+        const position = new Map(listed.map((state, i) => [state.join(''), i] as const));
+        const target = new Uint8Array(n);
+        const transitions: Array<[number, number]> = [];
+        listed.forEach((state, from) => {
+          compiled.nextVector(state, target);
+          for (let node = 0; node < n; node++) {
+            if (target[node] === state[node]) continue;
+            const neighbour = state.slice();
+            neighbour[node] = target[node];
+            transitions.push([from, position.get(neighbour.join(''))!]);
+          }
+        });
+        attractor.transitions = transitions;
+      }
+      attractors.push(attractor);
+    });
+  }
+
+  onProgress?.({ explored: totalStateSpace, total: totalStateSpace });
+
+  return {
+    nodeOrder,
+    nodeLabels,
+    attractors,
+    exploredStateCount: totalStateSpace,
+    totalStateSpace,
+    truncated: false,
+    warnings,
+    unresolvedStates: 0,
+  };
+}
@@ -2,6 +2,8 @@
  * Shared types for deterministic network analysis (both rule-based and weight-based).
  */
 
+import type { TherapeuticIntervention } from "@/types/network";
+
 export interface AnalysisNode {
   id: string;
   label?: string | null;
@@ -20,15 +22,31 @@ export interface StateSnapshot {
   values: Record<string, 0 | 1>;
 }
 
-export type AttractorType = "fixed-point" | "limit-cycle";
+/**
+ * Attractor kinds. `complex-attractor` is a terminal strongly-connected component of an
+ * asynchronous state transition graph with more than one state.
+ */
+export type AttractorType = "fixed-point" | "limit-cycle" | "complex-attractor";
+
+/** How node updates are scheduled when deriving the state transition graph. */
+export type UpdateScheme = "synchronous" | "asynchronous" | "random-order";
 
 export interface DeterministicAttractor {
   id: number;
   type: AttractorType;
+  /** Cycle length for limit cycles; number of states for complex attractors. */
   period: number;
   states: StateSnapshot[];
+  /**
+   * Basin size. For non-deterministic schemes this is the strong basin: states from which
+   * this is the only reachable attractor.
+   */
   basinSize: number;
   basinShare: number;
+  /** Weak basin size (states that can reach this attractor); set for non-deterministic schemes only. */
+  weakBasinSize?: number;
+  /** Transitions between `states` (index pairs) for complex attractors. */
+  transitions?: Array<[number, number]>;
 }
 
 export interface DeterministicAnalysisResult {
@@ -42,11 +60,178 @@ export interface DeterministicAnalysisResult {
   unresolvedStates: number;
 }
 
+/**
+ * Identity of an attractor that does not depend on discovery order or node order:
+ * states written over node ids in sorted order, cycles rotated to start at their
+ * smallest state.
+ */
+export interface AttractorSignature {
+  /** Node ids the states are written over, sorted. */
+  nodes: string[];
+  /** State binaries over `nodes`; in cycle order for fixed points and limit cycles, sorted for complex attractors. */
+  states: string[];
+  /** Whether `states` is a cycle (order matters up to the canonical rotation). */
+  cyclic: boolean;
+}
+
+/** A saved entry re-associated with an attractor of a new run. */
+export interface AttractorMatch {
+  /** Key of the saved entry. */
+  key: string;
+  attractorId: number;
+  /** Agreement of the states on the shared nodes (0..1). */
+  similarity: number;
+  /**
+   * "exact": same nodes and states; "partial": nodes were added or removed, or
+   * states differ slightly; "id": legacy entry without a signature, matched by attractor id.
+   */
+  kind: "exact" | "partial" | "id";
+}
+
+export interface AnalysisProgress {
+  /** Work units processed so far (initial states for deterministic runs, iterations for probabilistic runs). */
+  explored: number;
+  /** Total work units expected for the run. */
+  total: number;
+}
+
+export type AnalysisProgressCallback = (progress: AnalysisProgress) => void;
+
 export interface DeterministicAnalysisOptions {
   /** Maximum number of initial states to explore (defaults to `ANALYSIS_CONFIG.DEFAULT_STATE_CAP`, currently 100,000). */
   stateCap?: number;
   /** Hard ceiling for per-path traversal steps (defaults to `ANALYSIS_CONFIG.DEFAULT_STEP_CAP`, currently 10,000). */
   stepCap?: number;
+  /** Optional callback invoked periodically while the state space is explored. */
+  onProgress?: AnalysisProgressCallback;
+}
+
+/** How the rule-based state space is searched. */
+export type RuleAnalysisMethod = "enumeration" | "symbolic";
+
+export interface RuleBasedAnalysisOptions extends DeterministicAnalysisOptions {
+  /** Update scheme for rule evaluation (default "synchronous"). */
+  updateScheme?: UpdateScheme;
+  /**
+   * "enumeration" (default) walks explicit states and samples large networks;
+   * "symbolic" uses BDDs to find every attractor and exact basins without sampling.
+   */
+  method?: RuleAnalysisMethod;
+}
+
+/** Subspace no update can leave: some nodes fixed, the others free. */
+export interface TrapSpace {
+  id: number;
+  /** One character per node in `nodeOrder`: "0", "1", or "*" for a free node. */
+  pattern: string;
+  /** Values of the fixed nodes. */
+  fixed: Record<string, 0 | 1>;
+}
+
+/** Self-sustaining node assignment (a maximal trap space) and the phenotype it locks in. */
+export interface StableMotif {
+  id: number;
+  /** Motif nodes and the values that sustain each other. */
+  motif: Record<string, 0 | 1>;
+  /** Every node fixed once the motif's effect has percolated downstream (includes the motif). */
+  locked: Record<string, 0 | 1>;
+  /** `locked` as a pattern over `nodeOrder`. */
+  pattern: string;
+}
+
+export interface TrapSpaceAnalysisOptions {
+  /** Maximum number of minimal and of maximal trap spaces to report (default `ANALYSIS_CONFIG.MAX_TRAP_SPACES`). */
+  maxResults?: number;
+}
+
+export interface TrapSpaceAnalysisResult {
+  nodeOrder: string[];
+  nodeLabels: Record<string, string>;
+  /** Inclusion-minimal trap spaces; each contains at least one attractor under every update scheme. */
+  minimalTrapSpaces: TrapSpace[];
+  /** Inclusion-maximal trap spaces other than the whole state space. */
+  maximalTrapSpaces: TrapSpace[];
+  /** One per maximal trap space, in the same order. */
+  stableMotifs: StableMotif[];
+  truncated: boolean;
+  warnings: string[];
+}
+
+/** "exact" iterates the Markov chain over all states; "monte-carlo" samples trajectories. */
+export type PbnAnalysisMethod = "exact" | "monte-carlo";
+
+export interface PbnAnalysisOptions {
+  /** Defaults to "exact" up to `ANALYSIS_CONFIG.MAX_NODES_PBN_EXACT` nodes and "monte-carlo" beyond. */
+  method?: PbnAnalysisMethod;
+  /** Probability that a node flips its value after each step (default 0). */
+  perturbation?: number;
+  /** Exact method: maximum power iterations (default `ANALYSIS_CONFIG.PBN_DEFAULT_MAX_ITERATIONS`). */
+  maxIterations?: number;
+  /** Exact method: convergence threshold on the L1 change of the distribution. */
+  tolerance?: number;
+  /** Monte Carlo: independent trajectories from uniformly random initial states. */
+  trajectories?: number;
+  /** Monte Carlo: steps discarded at the start of each trajectory. */
+  burnIn?: number;
+  /** Monte Carlo: steps sampled per trajectory after the burn-in. */
+  samples?: number;
+  /** Seed for a reproducible Monte Carlo run; a random seed is used when omitted. */
+  seed?: number;
+  /** Optional callback invoked with iterations (exact) or finished trajectories (Monte Carlo). */
+  onProgress?: AnalysisProgressCallback;
+}
+
+/** Attractor of the PBN without perturbation: a terminal strongly-connected set of states. */
+export interface PbnAttractor {
+  id: number;
+  type: AttractorType;
+  /** Number of states; only the first `ANALYSIS_CONFIG.MAX_LISTED_ATTRACTOR_STATES` are listed. */
+  size: number;
+  states: StateSnapshot[];
+  /** Steady-state probability of being in one of its states. */
+  probability: number;
+}
+
+export interface PbnAnalysisResult {
+  nodeOrder: string[];
+  nodeLabels: Record<string, string>;
+  method: PbnAnalysisMethod;
+  /** Steady-state probability that each node is active. */
+  nodeProbabilities: Record<string, number>;
+  /** Sorted by decreasing probability. */
+  attractors: PbnAttractor[];
+  /** Steady-state probability outside every attractor (reached through perturbations). */
+  transientProbability: number;
+  /** Exact method: whether the distribution converged; always true for Monte Carlo. */
+  converged: boolean;
+  /** Power iterations (exact) or sampled steps per trajectory (Monte Carlo). */
+  iterations: number;
+  warnings: string[];
+}
+
+/**
+ * How a drug acts on its target node: "inhibit"/"enhance" scale the node's outgoing
+ * edge weights, "suppress"/"activate" lower/raise its bias; "modulate" has no
+ * quantitative effect.
+ */
+export type DrugModulation = "inhibit" | "enhance" | "suppress" | "activate" | "modulate";
+
+/** A dosed drug acting on one node, with a Hill dose-response. */
+export interface DrugEffect {
+  node: string;
+  mode: DrugModulation;
+  /** Concentration or dose, in `unit`. */
+  dose: number;
+  unit?: string;
+  /** Dose of half-maximal effect, in the same unit (default `ANALYSIS_CONFIG.DRUG_DEFAULT_EC50`). */
+  ec50?: number;
+  /** Hill coefficient of the dose-response (default 1). */
+  hill?: number;
+  /** Simulation steps during which the drug acts: from `start` (default 0) up to, not including, `end` (default: the whole run). */
+  start?: number;
+  end?: number;
+  /** Group therapy the effect belongs to, when several nodes share one drug. */
+  group?: string;
 }
 
 export interface WeightedAnalysisOptions extends DeterministicAnalysisOptions {
@@ -56,6 +241,378 @@ export interface WeightedAnalysisOptions extends DeterministicAnalysisOptions {
   biases?: Record<string, number>;
   /** Default threshold multiplier for all nodes (default 0.5, i.e., sum > 0.5 * degree) */
   thresholdMultiplier?: number;
+  /** Drugs partially inhibiting or activating nodes (see `applyDrugEffects`). */
+  drugs?: DrugEffect[];
+}
+
+/** "oat" moves one parameter at a time to each end of its range; "morris" samples elementary effects along random trajectories. */
+export type SensitivityMethod = "oat" | "morris";
+
+export interface WeightedSensitivityOptions {
+  /** Defaults to "oat". */
+  method?: SensitivityMethod;
+  /** Weighted analysis settings for every run; `stateCap` defaults to `ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP`. */
+  analysis?: Omit<WeightedAnalysisOptions, "onProgress">;
+  /** Edge weights vary by this fraction of their magnitude either way (default 0.5). */
+  relativeChange?: number;
+  /** Biases, and zero-weight edges, vary by this amount either way (default 1). */
+  absoluteChange?: number;
+  /** Also perturb node biases (default true). */
+  includeBiases?: boolean;
+  /** Fate name per baseline attractor, keyed by `signatureKey` of its signature. */
+  fates?: Record<string, string>;
+  /** Morris: number of trajectories (default 10). */
+  trajectories?: number;
+  /** Morris: grid levels per parameter range, even (default 4). */
+  levels?: number;
+  /** Morris: seed for reproducible trajectories; a random seed is used when omitted. */
+  seed?: number;
+  /** Optional callback invoked with the number of finished analysis runs. */
+  onProgress?: AnalysisProgressCallback;
+}
+
+/** A perturbed quantity: the weight of one edge or the bias of one node. */
+export type SensitivityParameter =
+  | { kind: "edge"; source: string; target: string; value: number }
+  | { kind: "bias"; nodeId: string; value: number };
+
+/** How strongly a parameter moves each output between two runs. */
+export interface SensitivityEffects {
+  /** Change in the number of attractors. */
+  attractorCount: number;
+  /** Total variation distance between the basin shares of attractors, matched by their states (0..1). */
+  basinShift: number;
+  /** Total variation distance between the basin shares per cell fate (0..1; 0 without fates). */
+  fateShift: number;
+}
+
+export interface SensitivityEntry {
+  parameter: SensitivityParameter;
+  /** Values the parameter was varied between. */
+  range: [number, number];
+  /** OAT: mean absolute change at the two ends of the range; Morris: mean absolute elementary effect (mu*) over the full range. */
+  effects: SensitivityEffects;
+  /** Morris only: standard deviation of the elementary effects (sigma), high for non-linear or interacting parameters. */
+  spread?: SensitivityEffects;
+}
+
+export interface WeightedSensitivityResult {
+  method: SensitivityMethod;
+  nodeLabels: Record<string, string>;
+  baselineAttractorCount: number;
+  /** One entry per parameter, most influential (by basin shift) first. */
+  entries: SensitivityEntry[];
+  /** Weighted analyses run, baseline included. */
+  runs: number;
+  seed?: number;
+  warnings: string[];
+}
+
+/** Node perturbation tried by the intervention search: forced OFF (knock-out) or ON (knock-in). */
+export type InterventionKind = "knock-out" | "knock-in";
+
+export interface InterventionSearchOptions {
+  /** Desired phenotype: node values the target attractors show (e.g. a fate definition's markers). */
+  target: Record<string, 0 | 1>;
+  /** Share of target values an attractor must show, averaged over its states, to count as desired (default 1). */
+  minMatch?: number;
+  /** Largest intervention set tried, 1 to 3 (default 3). */
+  maxSize?: number;
+  /** Perturbations to try (default both). */
+  kinds?: InterventionKind[];
+  /** Nodes that may be perturbed (default every node outside the target). */
+  candidates?: string[];
+  /** Most intervention sets analysed (default `ANALYSIS_CONFIG.INTERVENTION_SEARCH_DEFAULT_BUDGET`). */
+  budget?: number;
+  /** Best sets of each size extended to the next size (default `ANALYSIS_CONFIG.INTERVENTION_SEARCH_DEFAULT_BEAM`). */
+  beamWidth?: number;
+  /** Target basin share at which a set suffices; its supersets are not tried (default 0.9). */
+  goalShare?: number;
+  /** Rule-based analysis settings for every run; `stateCap` defaults to `ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP`. */
+  analysis?: Omit<RuleBasedAnalysisOptions, "onProgress">;
+  /** Optional callback invoked with the number of analysed intervention sets. */
+  onProgress?: AnalysisProgressCallback;
+}
+
+export interface InterventionPerturbation {
+  node: string;
+  kind: InterventionKind;
+}
+
+export interface InterventionSetResult {
+  perturbations: InterventionPerturbation[];
+  /** Basin share of the attractors showing the target phenotype. */
+  targetShare: number;
+  attractorCount: number;
+  /** Reaches `goalShare`, so no superset was tried. */
+  sufficient: boolean;
+}
+
+export interface InterventionSearchResult {
+  target: Record<string, 0 | 1>;
+  baselineShare: number;
+  /** Best sets first: by target share, then fewer perturbations. */
+  sets: InterventionSetResult[];
+  /** Intervention sets analysed (the unperturbed baseline not included). */
+  evaluated: number;
+  /** Sets skipped because a subset already reaches the goal. */
+  pruned: number;
+  /** The budget ran out before every set within the beam was tried. */
+  budgetExhausted: boolean;
+  warnings: string[];
+}
+
+/** Somatic mutation from a MAF file. */
+export interface PatientMutation {
+  gene: string;
+  /** MAF Variant_Classification, e.g. "Missense_Mutation" or "Nonsense_Mutation". */
+  classification: string;
+  /** Protein change (HGVSp_Short), when given. */
+  protein?: string;
+}
+
+/** A patient's genomic data, keyed by gene symbol or Ensembl id. */
+export interface PatientProfile {
+  /** Expression level per gene (TPM, FPKM or counts). */
+  expression?: Record<string, number>;
+  /** Cohort to rank each gene's expression against; without one, genes are ranked within the sample. */
+  expressionReference?: ExpressionReference;
+  mutations?: PatientMutation[];
+  /** GISTIC-style copy-number call per gene: -2 deep deletion, -1 loss, 0, 1 gain, 2 amplification. */
+  copyNumber?: Record<string, number>;
+}
+
+export type PatientAlterationSource = "mutation" | "copy-number" | "expression";
+
+/** Patient alteration fixed on a network node. */
+export interface PatientAlteration {
+  gene: string;
+  node: string;
+  source: PatientAlterationSource;
+  kind: InterventionKind;
+  /** Evidence, e.g. "Nonsense_Mutation p.R213*" or "copy number 2". */
+  detail: string;
+}
+
+export type MutationEffect = "loss-of-function" | "gain-of-function";
+
+/** Genes whose protein-changing mutations activate them (oncogenes) or inactivate them (tumour suppressors). */
+export interface CancerGeneRoles {
+  oncogenes: string[];
+  tumorSuppressors: string[];
+}
+
+/** Mutation read as loss or gain of function of the node it hits. */
+export interface MutationCall extends PatientAlteration {
+  effect: MutationEffect;
+}
+
+/**
+ * Why a mutation leaves its node free: its gene is not a node, it does not
+ * change the protein, it is a missense change in a gene of unknown role, or
+ * another mutation already fixes the node.
+ */
+export type UnclassifiedMutationReason = "not-in-network" | "no-protein-change" | "unknown-role" | "superseded";
+
+export interface UnclassifiedMutation {
+  mutation: PatientMutation;
+  reason: UnclassifiedMutationReason;
+}
+
+export interface MutationClassification {
+  /** One call per node, in network node order. */
+  calls: MutationCall[];
+  unclassified: UnclassifiedMutation[];
+}
+
+export type ExpressionNormalization = "z-score" | "percentile";
+
+/** Cohort distribution of one gene's log2(value + 1) expression. */
+export interface ReferenceGeneStats {
+  mean: number;
+  sd: number;
+  /** Quantiles from minimum to maximum in equal steps. */
+  quantiles: number[];
+}
+
+/** Expression reference a patient sample is normalised against. */
+export interface ExpressionReference {
+  /** Cohort key, e.g. "tcga:breast". */
+  cohort: string;
+  /** File the reference was read from. */
+  source: string;
+  sampleCount: number;
+  /** Statistics per lower-cased gene symbol or Ensembl id. */
+  genes: Record<string, ReferenceGeneStats>;
+}
+
+/** Expression of a network node's gene placed against the cohort. */
+export interface NodeExpressionLevel {
+  node: string;
+  gene: string;
+  value: number;
+  /** z-score, or percentile (0–1), of the value in the cohort. */
+  score: number;
+  /** Activity 0–1: the percentile, or the normal CDF of the z-score. */
+  level: number;
+}
+
+export interface NodeExpressionLevels {
+  /** In network node order. */
+  levels: NodeExpressionLevel[];
+  /** Nodes without expression in both the sample and the reference. */
+  unmatchedNodes: string[];
+}
+
+/** Raw counts of several samples over the union of their genes. */
+export interface CountMatrix {
+  /** Gene id of each row (the symbol when a sample reports no id). */
+  genes: string[];
+  /** Gene symbol of each row; empty when unknown. */
+  symbols: string[];
+  samples: string[];
+  /** `counts[gene][sample]`; genes a sample does not report count 0. */
+  counts: number[][];
+}
+
+export interface DifferentialExpressionOptions {
+  /** Condition of each sample; samples in neither compared condition are ignored. */
+  conditions: Record<string, string>;
+  /** Baseline condition; positive fold changes are higher in `treatment`. */
+  reference: string;
+  treatment: string;
+  /** Genes whose mean normalised count is below this are not tested (default `ANALYSIS_CONFIG.DE_MIN_MEAN_COUNT`). */
+  minMeanCount?: number;
+}
+
+export interface DifferentialExpressionGene {
+  gene: string;
+  symbol: string;
+  /** Mean normalised count over the compared samples. */
+  baseMean: number;
+  /** log2((treatment mean + 1) / (reference mean + 1)) of the normalised counts. */
+  log2FoldChange: number;
+  /** Welch's t-test on log2(normalised count + 1). */
+  pValue: number;
+  /** Benjamini–Hochberg adjusted p-value. */
+  padj: number;
+}
+
+export interface DifferentialExpressionResult {
+  reference: string;
+  treatment: string;
+  referenceSamples: string[];
+  treatmentSamples: string[];
+  /** Normalisation factor each sample's counts are divided by. */
+  sizeFactors: Record<string, number>;
+  /** Tested genes by ascending adjusted p-value. */
+  genes: DifferentialExpressionGene[];
+  /** Genes below the minimum mean count. */
+  filteredCount: number;
+  warnings: string[];
+}
+
+export type DrugStatus = "approved" | "clinical-trials" | "experimental";
+export type DrugInteraction = "direct-target" | "biomarker" | "pathway-member" | "gene-dependency";
+
+/** One drug–gene row of a drug–target table. */
+export interface DrugTargetEntry {
+  drug: string;
+  gene: string;
+  status: DrugStatus;
+  interaction: DrugInteraction;
+  /** Inhibitors knock their gene out, activators knock it in; ignored for biomarkers and gene dependencies. */
+  action: "inhibitor" | "activator";
+  /** Cancer types the drug is indicated or trialled for; none means any. */
+  cancerTypes?: string[];
+}
+
+export interface PatientDrugScoreOptions {
+  profile: PatientProfile;
+  /** Drug–target table to score. */
+  drugs: DrugTargetEntry[];
+  /** Drug statuses kept (default all). */
+  statuses?: DrugStatus[];
+  /** Interaction types kept (default all). */
+  interactions?: DrugInteraction[];
+  /** Keep only drugs for this cancer type, plus those without listed types. */
+  cancerType?: string;
+  /** Desired phenotype: node values of the responding attractors (e.g. a fate definition's markers). */
+  target: Record<string, 0 | 1>;
+  /** Share of target values an attractor must show, averaged over its states, to count as responding (default 1). */
+  minMatch?: number;
+  /** Rule-based analysis settings for every run; `stateCap` defaults to `ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP`. */
+  analysis?: Omit<RuleBasedAnalysisOptions, "onProgress">;
+  /** Optional callback invoked with the number of scored drugs. */
+  onProgress?: AnalysisProgressCallback;
+}
+
+export interface PatientDrugScore {
+  drug: string;
+  status: DrugStatus;
+  /** Network nodes the drug perturbs, from its direct-target and pathway-member rows. */
+  perturbations: InterventionPerturbation[];
+  /** Biomarker and gene-dependency genes of the drug that the patient's alterations hit. */
+  biomarkers: string[];
+  /** Target basin share of the personalised network under the drug. */
+  targetShare: number;
+  /** Change in target basin share the drug causes in the personalised network. */
+  score: number;
+}
+
+export interface PatientDrugScoreResult {
+  target: Record<string, 0 | 1>;
+  /** Patient alterations applied to the network, one per node. */
+  alterations: PatientAlteration[];
+  /** Target basin share of the personalised network without drugs. */
+  baselineShare: number;
+  /** Best drugs first. */
+  scores: PatientDrugScore[];
+  /** Drugs kept by the filters none of whose target genes matches a network node. */
+  unmappedDrugs: string[];
+  warnings: string[];
+}
+
+export interface CombinationScreenOptions {
+  /** Candidate interventions; every one alone and every pair are analysed. */
+  candidates: TherapeuticIntervention[];
+  /** Phenotype readout: node values the responding attractors show. */
+  target: Record<string, 0 | 1>;
+  /** Share of target values an attractor must show, averaged over its states, to count as responding (default 1). */
+  minMatch?: number;
+  /** Rule-based analysis settings for every run; `stateCap` defaults to `ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP`. */
+  analysis?: Omit<RuleBasedAnalysisOptions, "onProgress">;
+  /** Optional callback invoked with the number of analysed combinations. */
+  onProgress?: AnalysisProgressCallback;
+}
+
+export interface CombinationPairResult {
+  /** Indices into `labels`, `a < b`. */
+  a: number;
+  b: number;
+  /** Target basin share with both interventions applied. */
+  share: number;
+  /** Observed effect of the pair minus the Bliss independence expectation. */
+  bliss: number;
+  /** Observed effect of the pair minus the stronger single effect (highest single agent). */
+  hsa: number;
+}
+
+export interface CombinationScreenResult {
+  target: Record<string, 0 | 1>;
+  /** Candidate labels, e.g. "Bcl2 KO" or "Bcl2 ⊣ Casp3 edge KO". */
+  labels: string[];
+  baselineShare: number;
+  /** Target basin share with each candidate alone. */
+  singleShares: number[];
+  /**
+   * Effect of each candidate alone: the share of non-target basins it converts,
+   * (share - baseline) / (1 - baseline); negative when it lowers the share.
+   */
+  singleEffects: number[];
+  /** Every pair, most synergistic (by Bliss) first. */
+  pairs: CombinationPairResult[];
+  warnings: string[];
 }
 
 export interface WeightMatrix {
@@ -66,7 +623,15 @@ export interface WeightMatrix {
   tieBehavior: "zero-as-zero" | "zero-as-one" | "hold";
 }
 
+/**
+ * "mean-field" iterates per-node probabilities as if nodes were independent;
+ * "exact" solves the Markov chain over all 2^n states (small networks only).
+ */
+export type ProbabilisticAnalysisMethod = "mean-field" | "exact";
+
 export interface ProbabilisticAnalysisOptions {
+  /** Defaults to "mean-field"; "exact" allows up to `ANALYSIS_CONFIG.MAX_NODES_PROBABILISTIC_EXACT` nodes. */
+  method?: ProbabilisticAnalysisMethod;
   /** Noise parameter (mu) controlling sigmoid steepness. */
   noise?: number;
   /** Self-degradation constant (c) steering decay toward the inactive state. */
@@ -83,13 +648,156 @@ export interface ProbabilisticAnalysisOptions {
   initialProbability?: number;
   /** Optional per-node overrides for initial probabilities. */
   initialProbabilities?: Record<string, number>;
+  /** Drugs partially inhibiting or activating nodes (see `applyDrugEffects`). */
+  drugs?: DrugEffect[];
+  /** Optional callback invoked periodically with the iteration count. */
+  onProgress?: AnalysisProgressCallback;
 }
 
 export interface ProbabilisticAnalysisResult {
   nodeOrder: string[];
+  method?: ProbabilisticAnalysisMethod;
+  /** Steady-state activation probability per node (marginals in exact mode). */
   probabilities: Record<string, number>;
   potentialEnergies: Record<string, number>;
+  /** Exact mode: stationary probability per state, keyed like `StateSnapshot.binary` (most probable states only on large networks). */
+  stateProbabilities?: Record<string, number>;
+  /** Exact mode: potential energy -ln P(state) for the states in `stateProbabilities`. */
+  stateEnergies?: Record<string, number>;
   iterations: number;
   converged: boolean;
   warnings: string[];
 }
+
+/** Option varied by a probabilistic parameter sweep. */
+export type SweepParameter = "noise" | "selfDegradation" | "basalActivity";
+
+export interface SweepAxis {
+  parameter: SweepParameter;
+  /** Node whose basal activity is swept; every node's when omitted. */
+  nodeId?: string;
+  from: number;
+  to: number;
+  /** Number of evenly spaced values, both ends included (at least 2). */
+  steps: number;
+}
+
+export interface ProbabilisticSweepOptions {
+  /** One axis traces bifurcation curves, two span a grid (the first axis varies slowest). */
+  axes: SweepAxis[];
+  /** Options shared by every grid point; swept parameters override them. */
+  base?: Omit<ProbabilisticAnalysisOptions, "onProgress">;
+  /** Nodes whose probabilities are recorded (default: all). */
+  recordedNodes?: string[];
+  /**
+   * Start each point from the probabilities of the previous point along the last
+   * axis, so the sweep follows one mean-field branch instead of restarting (default false).
+   */
+  continuation?: boolean;
+  /** Optional callback invoked with the number of finished grid points. */
+  onProgress?: AnalysisProgressCallback;
+}
+
+export interface ProbabilisticSweepPoint {
+  /** Parameter value per axis. */
+  values: number[];
+  /** Probability per recorded node, in `nodeOrder`. */
+  probabilities: number[];
+  converged: boolean;
+}
+
+export interface ProbabilisticSweepResult {
+  axes: Array<SweepAxis & { values: number[] }>;
+  /** Recorded nodes. */
+  nodeOrder: string[];
+  /** Label of every network node. */
+  nodeLabels: Record<string, string>;
+  /** Grid points, first axis varying slowest. */
+  points: ProbabilisticSweepPoint[];
+  warnings: string[];
+}
+
+/** Network driven by the stochastic simulator: Boolean rules or a weighted threshold network. */
+export type SimulationModel =
+  | { kind: "rules"; rules: string[] }
+  | {
+      kind: "weighted";
+      nodes: AnalysisNode[];
+      edges: AnalysisEdge[];
+      options?: Pick<WeightedAnalysisOptions, "tieBehavior" | "biases" | "thresholdMultiplier">;
+    };
+
+export interface SimulationOptions {
+  /** Number of independent trajectories (default `ANALYSIS_CONFIG.SIMULATION_DEFAULT_TRAJECTORIES`). */
+  trajectories?: number;
+  /** Time steps per trajectory (default `ANALYSIS_CONFIG.SIMULATION_DEFAULT_STEPS`). */
+  steps?: number;
+  /**
+   * "synchronous" (default) updates every node each step, "asynchronous" one random node,
+   * "random-order" every node one after another in a fresh random order.
+   */
+  updateScheme?: UpdateScheme;
+  /** Probability that a node flips its value after each step (default 0). */
+  flipProbability?: number;
+  /** Probability (0..1) that a node starts active when it has no per-node override (default 0.5). */
+  initialProbability?: number;
+  /** Per-node initial activation probabilities; 0 and 1 fix the starting value. */
+  initialProbabilities?: Record<string, number>;
+  /** Seed for a reproducible run; a random seed is used when omitted. */
+  seed?: number;
+  /**
+   * Drugs acting during their time windows: weighted models are re-weighted while
+   * a drug acts, rule-based models force its node OFF (inhibit, suppress) or ON
+   * (enhance, activate) with the drug's effect as probability each step.
+   */
+  drugs?: DrugEffect[];
+  /** Optional callback invoked with the number of finished trajectories. */
+  onProgress?: AnalysisProgressCallback;
+}
+
+export interface SimulationResult {
+  nodeOrder: string[];
+  nodeLabels: Record<string, string>;
+  /** Share of trajectories with node i active at step t (`activation[t][i]`, t = 0 is the initial state). */
+  activation: number[][];
+  trajectories: number;
+  steps: number;
+  updateScheme: UpdateScheme;
+  seed: number;
+  warnings: string[];
+}
+
+export interface DoseResponseOptions {
+  /** Drug whose dose is varied; its own `dose` is ignored. */
+  drug: Omit<DrugEffect, "dose">;
+  /** Node whose steady-state activation probability is recorded. */
+  outputNode: string;
+  /** Dose range, both ends included. */
+  from: number;
+  to: number;
+  /** Number of doses (default `ANALYSIS_CONFIG.DOSE_RESPONSE_DEFAULT_STEPS`). */
+  steps?: number;
+  /** Space the doses evenly on a log scale (default true; needs a positive range). */
+  logScale?: boolean;
+  /** Probabilistic analysis settings for every dose; drugs given here act at their fixed doses. */
+  analysis?: Omit<ProbabilisticAnalysisOptions, "onProgress">;
+  /** Optional callback invoked with the number of finished doses. */
+  onProgress?: AnalysisProgressCallback;
+}
+
+export interface DoseResponseResult {
+  drug: Omit<DrugEffect, "dose">;
+  outputNode: string;
+  nodeLabels: Record<string, string>;
+  doses: number[];
+  /** Whether the doses are log-spaced. */
+  logScale: boolean;
+  /** Drug effect (0..1) at each dose. */
+  effects: number[];
+  /** Steady-state activation probability of the output node at each dose. */
+  probabilities: number[];
+  converged: boolean[];
+  /** Dose at which the output is halfway between its lowest- and highest-dose values; null for a flat curve. */
+  halfResponseDose: number | null;
+  warnings: string[];
+}
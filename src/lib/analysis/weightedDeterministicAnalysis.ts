@@ -18,6 +18,7 @@ import type {
   WeightedAnalysisOptions,
 } from './types';
 import { computeThreshold } from './matrixUtils';
+import { applyDrugEffects } from './drugModel';
 import { ANALYSIS_CONFIG, computeAdaptiveCaps } from '@/config/constants';
 
 interface InternalAttractor {
@@ -77,6 +78,60 @@ function formatState(binary: string, nodeOrder: string[]): StateSnapshot {
  */
 type IncomingEdge = { srcIdx: number; weight: number };
 
+export type WeightedUpdateOptions = Pick<WeightedAnalysisOptions, 'tieBehavior' | 'biases' | 'thresholdMultiplier'>;
+
+/** Build the synchronous update `next = f(current)` over per-node 0/1 vectors in `nodeOrder`. */
+export function compileWeightedUpdate(
+  nodeOrder: string[],
+  edges: AnalysisEdge[],
+  { tieBehavior = 'hold', biases = {}, thresholdMultiplier = 0 }: WeightedUpdateOptions = {}
+): (current: Uint8Array, next: Uint8Array) => void {
+  const n = nodeOrder.length;
+  const indexLookup = new Map<string, number>();
+  nodeOrder.forEach((id, idx) => indexLookup.set(id, idx));
+
+  const incoming: IncomingEdge[][] = Array.from({ length: n }, () => []);
+  const inAbsSum = new Array<number>(n).fill(0);
+  for (const edge of edges) {
+    const srcIdx = indexLookup.get(edge.source);
+    const tgtIdx = indexLookup.get(edge.target);
+    if (srcIdx === undefined || tgtIdx === undefined) continue;
+    const w = edge.weight ?? 1;
+    if (!Number.isFinite(w) || w === 0) continue;
+    incoming[tgtIdx].push({ srcIdx, weight: w });
+    inAbsSum[tgtIdx] += Math.abs(w);
+  }
+
+  const biasByIndex = nodeOrder.map((id) => (Number.isFinite(biases[id]) ? (biases[id] as number) : 0));
+  const thresholds = inAbsSum.map((sum) => computeThreshold(Math.max(sum, 1), thresholdMultiplier));
+
+  return (current, next) => {
+    for (let tgtIdx = 0; tgtIdx < n; tgtIdx++) {
+      let weightedSum = biasByIndex[tgtIdx] ?? 0;
+      for (const entry of incoming[tgtIdx]) {
+        if (current[entry.srcIdx]) {
+          weightedSum += entry.weight;
+        }
+      }
+
+      const threshold = thresholds[tgtIdx];
+      if (weightedSum > threshold) {
+        next[tgtIdx] = 1;
+      } else if (weightedSum < threshold) {
+        next[tgtIdx] = 0;
+      } else {
+        if (tieBehavior === 'hold') {
+          next[tgtIdx] = current[tgtIdx];
+        } else if (tieBehavior === 'zero-as-one') {
+          next[tgtIdx] = 1;
+        } else {
+          next[tgtIdx] = 0;
+        }
+      }
+    }
+  };
+}
+
 function makeRandomBinaryState(bitCount: number): string {
   const chars = new Array<string>(bitCount);
   for (let i = 0; i < bitCount; i++) {
@@ -123,6 +178,8 @@ export function performWeightedAnalysis(
     tieBehavior = 'hold',
     biases = {},
     thresholdMultiplier = 0,
+    drugs,
+    onProgress,
   } = options;
 
   const nodeOrder = nodes.map((n) => n.id);
@@ -131,28 +188,14 @@ export function performWeightedAnalysis(
   );
 
   const n = nodeOrder.length;
-  const indexLookup = new Map<string, number>();
-  nodeOrder.forEach((id, idx) => indexLookup.set(id, idx));
-
-  const incoming: IncomingEdge[][] = Array.from({ length: n }, () => []);
-  const inAbsSum = new Array<number>(n).fill(0);
-  for (const edge of edges) {
-    const srcIdx = indexLookup.get(edge.source);
-    const tgtIdx = indexLookup.get(edge.target);
-    if (srcIdx === undefined || tgtIdx === undefined) continue;
-    const w = edge.weight ?? 1;
-    if (!Number.isFinite(w) || w === 0) continue;
-    incoming[tgtIdx].push({ srcIdx, weight: w });
-    inAbsSum[tgtIdx] += Math.abs(w);
-  }
+  // Drugs partially scale edge weights and shift biases before the update is compiled
+  const dosed = applyDrugEffects(nodeOrder, edges, biases, drugs);
+  const computeNext = compileWeightedUpdate(nodeOrder, dosed.edges, { tieBehavior, biases: dosed.biases, thresholdMultiplier });
 
   // Adaptively scale caps so total work stays browser-safe.
-  const edgeCount = edges.filter(e => (e.weight ?? 1) !== 0).length;
+  const edgeCount = dosed.edges.filter(e => (e.weight ?? 1) !== 0).length;
   const { stateCap, stepCap } = computeAdaptiveCaps(n, edgeCount, requestedStateCap, requestedStepCap);
 
-  const biasByIndex = nodeOrder.map((id) => (Number.isFinite(biases[id]) ? (biases[id] as number) : 0));
-  const thresholds = inAbsSum.map((sum) => computeThreshold(Math.max(sum, 1), thresholdMultiplier));
-
   const totalStateSpace = n <= 52 ? 2 ** n : Number.POSITIVE_INFINITY;
   const maxStates = Number.isFinite(totalStateSpace) ? Math.min(stateCap, totalStateSpace) : stateCap;
   const truncated = maxStates < totalStateSpace;
@@ -161,7 +204,7 @@ export function performWeightedAnalysis(
   const stateToAttractorId = new Map<string, number>();
   const basinSizes = new Map<number, number>();
 
-  const warnings: string[] = [];
+  const warnings: string[] = [...dosed.warnings];
 
   const initialStates: string[] = truncated
     ? sampleInitialStates(n, maxStates)
@@ -173,38 +216,21 @@ export function performWeightedAnalysis(
 
   const computeNextBinary = (currentBinary: string): string => {
     decodeBits(currentBinary, scratchCurrent);
-
-    for (let tgtIdx = 0; tgtIdx < n; tgtIdx++) {
-      let weightedSum = biasByIndex[tgtIdx] ?? 0;
-      for (const entry of incoming[tgtIdx]) {
-        if (scratchCurrent[entry.srcIdx]) {
-          weightedSum += entry.weight;
-        }
-      }
-
-      const threshold = thresholds[tgtIdx];
-      if (weightedSum > threshold) {
-        scratchNext[tgtIdx] = 1;
-      } else if (weightedSum < threshold) {
-        scratchNext[tgtIdx] = 0;
-      } else {
-        if (tieBehavior === 'hold') {
-          scratchNext[tgtIdx] = scratchCurrent[tgtIdx];
-        } else if (tieBehavior === 'zero-as-one') {
-          scratchNext[tgtIdx] = 1;
-        } else {
-          scratchNext[tgtIdx] = 0;
-        }
-      }
-    }
+    computeNext(scratchCurrent, scratchNext);
 
     return encodeBits(scratchNext, scratchChars);
   };
 
   let unresolvedStates = 0;
 
+  const progressInterval = ANALYSIS_CONFIG.PROGRESS_REPORT_INTERVAL;
+
   // Explore states
-  for (const stateBinary of initialStates) {
+  for (let stateIndex = 0; stateIndex < initialStates.length; stateIndex++) {
+    const stateBinary = initialStates[stateIndex];
+    if (onProgress && stateIndex % progressInterval === 0) {
+      onProgress({ explored: stateIndex, total: initialStates.length });
+    }
 
     if (stateToAttractorId.has(stateBinary)) {
       // Already part of an attractor - already counted in basin, skip
@@ -271,6 +297,8 @@ export function performWeightedAnalysis(
     }
   }
 
+  onProgress?.({ explored: initialStates.length, total: initialStates.length });
+
   // Compute basin shares
   const result: DeterministicAnalysisResult = {
     nodeOrder,
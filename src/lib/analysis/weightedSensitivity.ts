@@ -0,0 +1,270 @@
+/**
+ * Sensitivity of weighted-network attractors to edge weights and node biases.
+ *
+ * Each parameter (the weight of an edge, the bias of a node) is given a range
+ * around its current value and `performWeightedAnalysis` is rerun at points of
+ * that range. Runs are compared by attractor count, by how the basin shares move
+ * between attractors and, when attractors have been classified, by how the
+ * basin shares move between cell fates. Two designs are available:
+ * - one-at-a-time ("oat"): each parameter is set to both ends of its range
+ *   while the others keep their values;
+ * - Morris elementary effects ("morris"): random trajectories through a grid
+ *   over all ranges move one parameter per step, so the spread of a
+ *   parameter's effects also reveals non-linearity and interactions.
+ */
+
+import type {
+  AnalysisEdge,
+  AnalysisNode,
+  DeterministicAnalysisResult,
+  SensitivityEffects,
+  SensitivityEntry,
+  SensitivityParameter,
+  WeightedAnalysisOptions,
+  WeightedSensitivityOptions,
+  WeightedSensitivityResult,
+} from './types';
+import { performWeightedAnalysis } from './weightedDeterministicAnalysis';
+import { createRandom } from './stochasticSimulation';
+import { attractorSignature, signatureKey } from './attractorIdentity';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+
+/** Label under which attractors without a fate are pooled. */
+const UNASSIGNED_FATE = 'Unassigned';
+
+/** Key of an edge in overlays and lookups, e.g. "A::B". */
+export const sensitivityEdgeKey = (source: string, target: string): string => `${source}::${target}`;
+
+/** Readable name of a perturbed parameter, e.g. "TP53 → MDM2" or "Bias of TP53". */
+export function sensitivityParameterLabel(parameter: SensitivityParameter, nodeLabels: Record<string, string> = {}): string {
+  const label = (id: string) => nodeLabels[id] ?? id;
+  return parameter.kind === 'edge'
+    ? `${label(parameter.source)} → ${label(parameter.target)}`
+    : `Bias of ${label(parameter.nodeId)}`;
+}
+
+interface Outcome {
+  attractorCount: number;
+  basins: Map<string, number>;
+  fates: Map<string, number>;
+}
+
+function summarize(result: DeterministicAnalysisResult, fates: Record<string, string>): Outcome {
+  const basins = new Map<string, number>();
+  const fateShares = new Map<string, number>();
+  for (const attractor of result.attractors) {
+    const signature = signatureKey(attractorSignature(attractor, result.nodeOrder));
+    const fate = fates[signature] ?? UNASSIGNED_FATE;
+    basins.set(signature, (basins.get(signature) ?? 0) + attractor.basinShare);
+    fateShares.set(fate, (fateShares.get(fate) ?? 0) + attractor.basinShare);
+  }
+  return { attractorCount: result.attractors.length, basins, fates: fateShares };
+}
+
+/** Total variation distance between two share distributions. */
+function totalVariation(a: Map<string, number>, b: Map<string, number>): number {
+  let sum = 0;
+  for (const [key, share] of a) sum += Math.abs(share - (b.get(key) ?? 0));
+  for (const [key, share] of b) if (!a.has(key)) sum += share;
+  return sum / 2;
+}
+
+const difference = (a: Outcome, b: Outcome): SensitivityEffects => ({
+  attractorCount: b.attractorCount - a.attractorCount,
+  basinShift: totalVariation(a.basins, b.basins),
+  fateShift: totalVariation(a.fates, b.fates),
+});
+
+const mapEffects = (fn: (key: keyof SensitivityEffects) => number): SensitivityEffects => ({
+  attractorCount: fn('attractorCount'),
+  basinShift: fn('basinShift'),
+  fateShift: fn('fateShift'),
+});
+
+const meanAbsolute = (effects: SensitivityEffects[]): SensitivityEffects =>
+  mapEffects((key) => effects.reduce((sum, e) => sum + Math.abs(e[key]), 0) / effects.length);
+
+const standardDeviation = (effects: SensitivityEffects[]): SensitivityEffects =>
+  mapEffects((key) => {
+    if (effects.length < 2) return 0;
+    const mean = effects.reduce((sum, e) => sum + e[key], 0) / effects.length;
+    return Math.sqrt(effects.reduce((sum, e) => sum + (e[key] - mean) ** 2, 0) / (effects.length - 1));
+  });
+
+interface Parameter {
+  parameter: SensitivityParameter;
+  range: [number, number];
+  /** Index into `edges` for edge weights. */
+  edgeIndex?: number;
+}
+
+export function performWeightedSensitivity(
+  nodes: AnalysisNode[],
+  edges: AnalysisEdge[],
+  options: WeightedSensitivityOptions = {},
+): WeightedSensitivityResult {
+  const {
+    method = 'oat',
+    analysis = {},
+    relativeChange = 0.5,
+    absoluteChange = 1,
+    includeBiases = true,
+    fates = {},
+    trajectories = 10,
+    levels = 4,
+    onProgress,
+  } = options;
+  const nodeLabels = Object.fromEntries(nodes.map((node) => [node.id, node.label || node.id]));
+  const baseBiases = analysis.biases ?? {};
+
+  if (!(relativeChange >= 0) || !(absoluteChange >= 0) || !Number.isFinite(relativeChange + absoluteChange)) {
+    throw new Error('Sensitivity ranges must be finite and non-negative.');
+  }
+  if (method === 'morris' && (!Number.isInteger(trajectories) || trajectories < 1)) {
+    throw new Error('Morris sampling needs at least one trajectory.');
+  }
+  if (method === 'morris' && (!Number.isInteger(levels) || levels < 2 || levels % 2 !== 0)) {
+    throw new Error('Morris sampling needs an even number of levels.');
+  }
+
+  const parameters: Parameter[] = [];
+  edges.forEach((edge, edgeIndex) => {
+    const value = edge.weight ?? 1;
+    if (!(edge.source in nodeLabels) || !(edge.target in nodeLabels) || !Number.isFinite(value)) return;
+    const delta = value === 0 ? absoluteChange : Math.abs(value) * relativeChange;
+    parameters.push({
+      parameter: { kind: 'edge', source: edge.source, target: edge.target, value },
+      range: [value - delta, value + delta],
+      edgeIndex,
+    });
+  });
+  if (includeBiases) {
+    for (const node of nodes) {
+      const value = Number.isFinite(baseBiases[node.id]) ? baseBiases[node.id] : 0;
+      parameters.push({ parameter: { kind: 'bias', nodeId: node.id, value }, range: [value - absoluteChange, value + absoluteChange] });
+    }
+  }
+  if (parameters.length === 0) {
+    throw new Error('The network has no edge weights or biases to perturb.');
+  }
+
+  const k = parameters.length;
+  const total = 1 + (method === 'morris' ? trajectories * (k + 1) : 2 * k);
+  if (total > ANALYSIS_CONFIG.MAX_SENSITIVITY_RUNS) {
+    throw new Error(
+      `Sensitivity analysis needs ${total.toLocaleString()} runs; the limit is ${ANALYSIS_CONFIG.MAX_SENSITIVITY_RUNS.toLocaleString()}.`,
+    );
+  }
+
+  const analysisOptions: WeightedAnalysisOptions = {
+    ...analysis,
+    stateCap: analysis.stateCap ?? ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP,
+  };
+  let runs = 0;
+  /** Analyse the network with the given parameter values (baseline values where undefined). */
+  const run = (values: (number | undefined)[]): Outcome => {
+    const runEdges = edges.slice();
+    const biases = { ...baseBiases };
+    parameters.forEach(({ parameter, edgeIndex }, i) => {
+      const value = values[i];
+      if (value === undefined) return;
+      if (parameter.kind === 'edge') runEdges[edgeIndex!] = { ...edges[edgeIndex!], weight: value };
+      else biases[parameter.nodeId] = value;
+    });
+    const outcome = summarize(performWeightedAnalysis(nodes, runEdges, { ...analysisOptions, biases }), fates);
+    runs++;
+    onProgress?.({ explored: runs, total });
+    return outcome;
+  };
+
+  const baselineResult = performWeightedAnalysis(nodes, edges, analysisOptions);
+  const baseline = summarize(baselineResult, fates);
+  runs++;
+  onProgress?.({ explored: runs, total });
+
+  const warnings: string[] = [];
+  if (baselineResult.truncated) {
+    warnings.push(
+      `Each run samples ${baselineResult.exploredStateCount.toLocaleString()} initial states, so small effects may be sampling noise.`,
+    );
+  }
+
+  let entries: SensitivityEntry[];
+  let seed: number | undefined;
+  if (method === 'oat') {
+    entries = parameters.map(({ parameter, range }, i) => {
+      const ends = range.map((value) => {
+        const values = new Array<number | undefined>(k);
+        values[i] = value;
+        return difference(baseline, run(values));
+      });
+      return { parameter, range, effects: meanAbsolute(ends) };
+    });
+  } else {
+    seed = (options.seed ?? Math.floor(Math.random() * 2 ** 32)) >>> 0;
+    const random = createRandom(seed);
+    const step = levels / 2;
+    const valueAt = (i: number, level: number) => {
+      const [low, high] = parameters[i].range;
+      return low + ((high - low) * level) / (levels - 1);
+    };
+    const elementaryEffects: SensitivityEffects[][] = parameters.map(() => []);
+    // Scale per-step changes to the full range, as Morris effects are rates over the unit interval
+    const scale = (levels - 1) / step;
+
+    for (let t = 0; t < trajectories; t++) {
+      const point = parameters.map(() => Math.floor(random() * levels));
+      const order = parameters.map((_, i) => i);
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+      let previous = run(point.map((level, i) => valueAt(i, level)));
+      for (const i of order) {
+        const direction = point[i] + step <= levels - 1 ? 1 : -1;
+        point[i] += direction * step;
+        const next = run(point.map((level, j) => valueAt(j, level)));
+        const change = difference(previous, next);
+        elementaryEffects[i].push(mapEffects((key) => (key === 'attractorCount' ? direction : 1) * change[key] * scale));
+        previous = next;
+      }
+    }
+    entries = parameters.map(({ parameter, range }, i) => ({
+      parameter,
+      range,
+      effects: meanAbsolute(elementaryEffects[i]),
+      spread: standardDeviation(elementaryEffects[i]),
+    }));
+  }
+
+  entries.sort((a, b) => {
+    for (const key of ['basinShift', 'fateShift', 'attractorCount'] as const) {
+      if (b.effects[key] !== a.effects[key]) return b.effects[key] - a.effects[key];
+    }
+    return 0;
+  });
+
+  return {
+    method,
+    nodeLabels,
+    baselineAttractorCount: baseline.attractorCount,
+    entries,
+    runs,
+    ...(seed !== undefined && { seed }),
+    warnings,
+  };
+}
+
+/** Largest value of one effect per edge, keyed by `sensitivityEdgeKey`; duplicate edges keep the strongest. */
+export function edgeSensitivity(
+  result: WeightedSensitivityResult,
+  effect: keyof SensitivityEffects = 'basinShift',
+): Record<string, number> {
+  const byEdge: Record<string, number> = {};
+  for (const { parameter, effects } of result.entries) {
+    if (parameter.kind !== 'edge') continue;
+    const key = sensitivityEdgeKey(parameter.source, parameter.target);
+    byEdge[key] = Math.max(byEdge[key] ?? 0, effects[effect]);
+  }
+  return byEdge;
+}
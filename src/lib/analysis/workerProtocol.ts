@@ -0,0 +1,154 @@
+/**
+ * Message protocol shared by the analysis worker and the main-thread runtime.
+ *
+ * Requests carry plain, structured-clone friendly payloads (callbacks such as
+ * `onProgress` are stripped before posting). `executeAnalysisRequest` is the
+ * single dispatch point so the worker and the in-thread fallback run exactly
+ * the same engines.
+ */
+
+import type {
+  AnalysisEdge,
+  AnalysisNode,
+  AnalysisProgress,
+  AnalysisProgressCallback,
+  PbnAnalysisOptions,
+  PbnAnalysisResult,
+  RuleBasedAnalysisOptions,
+  DeterministicAnalysisResult,
+  DoseResponseOptions,
+  DoseResponseResult,
+  InterventionSearchOptions,
+  InterventionSearchResult,
+  CombinationScreenOptions,
+  CombinationScreenResult,
+  PatientDrugScoreOptions,
+  PatientDrugScoreResult,
+  ProbabilisticAnalysisOptions,
+  ProbabilisticAnalysisResult,
+  ProbabilisticSweepOptions,
+  ProbabilisticSweepResult,
+  SimulationModel,
+  SimulationOptions,
+  SimulationResult,
+  TrapSpaceAnalysisOptions,
+  TrapSpaceAnalysisResult,
+  WeightedAnalysisOptions,
+  WeightedSensitivityOptions,
+  WeightedSensitivityResult,
+} from './types';
+import type { NetworkData } from '@/types/network';
+import { performDeterministicAnalysis } from '../deterministicAnalysis';
+import { performTrapSpaceAnalysis } from '../trapSpaceAnalysis';
+import { performPbnAnalysis } from '../pbnAnalysis';
+import { performWeightedAnalysis } from './weightedDeterministicAnalysis';
+import { performProbabilisticAnalysis } from './probabilisticAnalysis';
+import { performStochasticSimulation } from './stochasticSimulation';
+import { performProbabilisticSweep } from './parameterSweep';
+import { performWeightedSensitivity } from './weightedSensitivity';
+import { performInterventionSearch } from '../interventionSearch';
+import { performCombinationScreen } from '../combinationScreen';
+import { performPatientDrugScores } from '../patientDrugScores';
+import { performDoseResponse } from './doseResponse';
+
+export type AnalysisRequest =
+  | { kind: 'deterministic'; rules: string[]; options?: RuleBasedAnalysisOptions }
+  | { kind: 'weighted'; nodes: AnalysisNode[]; edges: AnalysisEdge[]; options?: WeightedAnalysisOptions }
+  | { kind: 'probabilistic'; nodes: AnalysisNode[]; edges: AnalysisEdge[]; options?: ProbabilisticAnalysisOptions }
+  | { kind: 'trap-spaces'; rules: string[]; options?: TrapSpaceAnalysisOptions }
+  | { kind: 'simulation'; model: SimulationModel; options?: SimulationOptions }
+  | { kind: 'pbn'; rules: string[]; options?: PbnAnalysisOptions }
+  | { kind: 'probabilistic-sweep'; nodes: AnalysisNode[]; edges: AnalysisEdge[]; options: ProbabilisticSweepOptions }
+  | { kind: 'weighted-sensitivity'; nodes: AnalysisNode[]; edges: AnalysisEdge[]; options?: WeightedSensitivityOptions }
+  | { kind: 'intervention-search'; network: NetworkData; options: InterventionSearchOptions }
+  | { kind: 'combination-screen'; network: NetworkData; options: CombinationScreenOptions }
+  | { kind: 'patient-drug-scores'; network: NetworkData; options: PatientDrugScoreOptions }
+  | { kind: 'dose-response'; nodes: AnalysisNode[]; edges: AnalysisEdge[]; options: DoseResponseOptions };
+
+export type AnalysisResultFor<K extends AnalysisRequest['kind']> = K extends 'probabilistic'
+  ? ProbabilisticAnalysisResult
+  : K extends 'trap-spaces'
+  ? TrapSpaceAnalysisResult
+  : K extends 'simulation'
+  ? SimulationResult
+  : K extends 'pbn'
+  ? PbnAnalysisResult
+  : K extends 'probabilistic-sweep'
+  ? ProbabilisticSweepResult
+  : K extends 'weighted-sensitivity'
+  ? WeightedSensitivityResult
+  : K extends 'intervention-search'
+  ? InterventionSearchResult
+  : K extends 'combination-screen'
+  ? CombinationScreenResult
+  : K extends 'patient-drug-scores'
+  ? PatientDrugScoreResult
+  : K extends 'dose-response'
+  ? DoseResponseResult
+  : DeterministicAnalysisResult;
+
+export type AnyAnalysisResult =
+  | DeterministicAnalysisResult
+  | ProbabilisticAnalysisResult
+  | TrapSpaceAnalysisResult
+  | SimulationResult
+  | PbnAnalysisResult
+  | ProbabilisticSweepResult
+  | WeightedSensitivityResult
+  | InterventionSearchResult
+  | CombinationScreenResult
+  | PatientDrugScoreResult
+  | DoseResponseResult;
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; result: AnyAnalysisResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Remove non-cloneable fields (callbacks) from a request before it crosses
+ * the worker boundary.
+ */
+export function toTransferableRequest<R extends AnalysisRequest>(request: R): R {
+  if (!request.options) return request;
+  const options: Record<string, unknown> = { ...request.options };
+  delete options.onProgress;
+  return { ...request, options };
+}
+
+/**
+ * Run an analysis request synchronously, forwarding progress to `onProgress`.
+ */
+export function executeAnalysisRequest(
+  request: AnalysisRequest,
+  onProgress?: AnalysisProgressCallback,
+): AnyAnalysisResult {
+  switch (request.kind) {
+    case 'deterministic':
+      return performDeterministicAnalysis(request.rules, { ...request.options, onProgress });
+    case 'weighted':
+      return performWeightedAnalysis(request.nodes, request.edges, { ...request.options, onProgress });
+    case 'probabilistic':
+      return performProbabilisticAnalysis(request.nodes, request.edges, { ...request.options, onProgress });
+    case 'trap-spaces':
+      return performTrapSpaceAnalysis(request.rules, request.options);
+    case 'simulation':
+      return performStochasticSimulation(request.model, { ...request.options, onProgress });
+    case 'pbn':
+      return performPbnAnalysis(request.rules, { ...request.options, onProgress });
+    case 'probabilistic-sweep':
+      return performProbabilisticSweep(request.nodes, request.edges, { ...request.options, onProgress });
+    case 'weighted-sensitivity':
+      return performWeightedSensitivity(request.nodes, request.edges, { ...request.options, onProgress });
+    case 'intervention-search':
+      return performInterventionSearch(request.network, { ...request.options, onProgress });
+    case 'combination-screen':
+      return performCombinationScreen(request.network, { ...request.options, onProgress });
+    case 'patient-drug-scores':
+      return performPatientDrugScores(request.network, { ...request.options, onProgress });
+    case 'dose-response':
+      return performDoseResponse(request.nodes, request.edges, { ...request.options, onProgress });
+    default:
+      throw new Error(`Unknown analysis request: ${(request as { kind?: string }).kind}`);
+  }
+}
@@ -1,33 +1,45 @@
-import type { NetworkData, TherapeuticIntervention } from '@/types/network';
+import type { EdgeRegulation, NetworkData, NetworkNode, TherapeuticIntervention } from '@/types/network';
+import { parseExpression, printExpression, substituteConstants } from './ruleLanguage';
+
+/** Names a node answers to in rules and edges: its id and its label. */
+function namesOf(nodes: NetworkNode[], name: string): string[] {
+  const node = nodes.find(n => n.id === name || n.label === name);
+  return node ? Array.from(new Set([node.id, node.label ?? node.id])) : [name];
+}
 
 /**
- * Extracts node identifiers from a Boolean expression.
- * Handles operators: ! (NOT), && (AND), || (OR), parentheses, and 0/1 constants.
- * The direction of edges is: dependency → new node (regardless of negation).
+ * Rule with one regulation cut out: the source is read as always OFF, so an
+ * activator no longer activates and an inhibitor no longer inhibits, while the
+ * rest of the rule is kept. Null when the rule does not parse.
  */
-function extractNodesFromRule(rule: string): string[] {
-  if (!rule) return [];
-  
-  // Remove parentheses, Boolean operators (!, &&, ||), and constants
-  const cleaned = rule
-    .replace(/\(|\)/g, ' ')           // Remove parentheses
-    .replace(/&&/g, ' ')               // Remove AND operator
-    .replace(/\|\|/g, ' ')             // Remove OR operator  
-    .replace(/!/g, ' ')                // Remove NOT operator
-    .replace(/\b[01]\b/g, ' ')         // Remove 0 and 1 constants
-    .replace(/\bAND\b|\bOR\b|\bNOT\b/gi, ' ') // Remove text operators (fallback)
-    .trim();
-  
-  // Split by whitespace and filter out empty strings
-  const tokens = cleaned.split(/\s+/).filter(t => t.length > 0);
-  
-  // Return unique node names (all dependencies point TO the new node)
-  return [...new Set(tokens)];
+export function removeRegulation(action: string, sourceNames: string[], knownLabels: string[] = []): string | null {
+  const { expression } = parseExpression(action, { knownLabels: [...knownLabels, ...sourceNames] });
+  if (!expression) return null;
+  const values = Object.fromEntries(sourceNames.map(name => [name, 0 as const]));
+  return printExpression(substituteConstants(expression, values));
+}
+
+/** Rule with a regulation added: OR-ed in for an activator, AND NOT-ed in for an inhibitor. */
+export function addRegulation(action: string | undefined, source: string, sign: EdgeRegulation['sign']): string {
+  const term = sign === 'inhibition' ? `!${source}` : source;
+  if (!action?.trim()) return term;
+  return sign === 'inhibition' ? `(${action}) && ${term}` : `(${action}) || ${term}`;
+}
+
+/** Short description of an intervention, e.g. "Bcl2 KO" or "Signal → Bcl2 edge KO". */
+export function therapyLabel(therapy: TherapeuticIntervention): string {
+  if (therapy.edge) {
+    const arrow = therapy.edge.sign === 'inhibition' ? '⊣' : '→';
+    return `${therapy.edge.source} ${arrow} ${therapy.edge.target} edge ${therapy.type === 'edge-knock-out' ? 'KO' : 'KI'}`;
+  }
+  return `${therapy.nodeName} ${therapy.type === 'knock-out' ? 'KO' : 'KI'}`;
 }
 
 /**
  * Applies therapeutic interventions to network data, producing a modified network.
  * This creates new nodes, edges, and rules based on knock-in/knock-out interventions.
+ * Edge interventions remove or add a single regulation: the target's rule is
+ * rewritten and, for weighted analysis, the edge weight is zeroed or set.
  */
 export function applyTherapiesToNetwork(
   originalData: NetworkData,
@@ -75,8 +87,11 @@ export function applyTherapiesToNetwork(
           );
         }
 
-        // Extract dependencies from the rule and create inward edges
-        const dependencies = extractNodesFromRule(therapy.nodeRule);
+        // Extract dependencies from the rule and create inward edges.
+        // The direction of edges is: dependency → new node (regardless of negation).
+        const { identifiers: dependencies } = parseExpression(therapy.nodeRule, {
+          knownLabels: modifiedNodes.flatMap(n => [n.id, n.label ?? n.id]),
+        });
         for (const depNode of dependencies) {
           // Check if the dependency node exists in the network
           const depExists = modifiedNodes.some(n => n.id === depNode || n.label === depNode);
@@ -265,6 +280,81 @@ export function applyTherapiesToNetwork(
           }
         }
       }
+    } else if (therapy.type === 'edge-knock-out' && therapy.edge) {
+      // Edge knock-out: the source no longer regulates the target
+      const sourceNames = namesOf(modifiedNodes, therapy.edge.source);
+      const targetNames = namesOf(modifiedNodes, therapy.edge.target);
+      const knownLabels = modifiedNodes.flatMap(n => [n.id, n.label ?? n.id]);
+
+      // Zero the edge weight so weighted analysis ignores it
+      modifiedEdges = modifiedEdges.map(e => {
+        if (sourceNames.includes(e.source) && targetNames.includes(e.target)) {
+          return {
+            ...e,
+            weight: 0,
+            properties: {
+              ...(e.properties || {}),
+              knockedOutEdge: true,
+              therapyId: therapy.id
+            }
+          };
+        }
+        return e;
+      });
+
+      // Cut the source out of every rule for the target (all PBN alternatives)
+      modifiedRules = modifiedRules.map(r =>
+        targetNames.includes(r.name) && r.action
+          ? { ...r, action: removeRegulation(r.action, sourceNames, knownLabels) ?? r.action }
+          : r
+      );
+    } else if (therapy.type === 'edge-knock-in' && therapy.edge) {
+      // Edge knock-in: add (or restore) a regulation from the source to the target
+      const { sign } = therapy.edge;
+      const weight = therapy.edge.weight ?? (sign === 'inhibition' ? -1 : 1);
+      const sourceNames = namesOf(modifiedNodes, therapy.edge.source);
+      const targetNames = namesOf(modifiedNodes, therapy.edge.target);
+      const [sourceId, sourceLabel] = [sourceNames[0], sourceNames[sourceNames.length - 1]];
+      const [targetId, targetLabel] = [targetNames[0], targetNames[targetNames.length - 1]];
+
+      const edgeExists = modifiedEdges.some(e => sourceNames.includes(e.source) && targetNames.includes(e.target));
+      if (edgeExists) {
+        modifiedEdges = modifiedEdges.map(e =>
+          sourceNames.includes(e.source) && targetNames.includes(e.target)
+            ? { ...e, weight, properties: { ...(e.properties || {}), knockedInEdge: true, therapyId: therapy.id } }
+            : e
+        );
+      } else {
+        modifiedEdges.push({
+          source: sourceId,
+          target: targetId,
+          weight,
+          properties: {
+            addedByTherapy: true,
+            therapyId: therapy.id,
+            type: 'edge-regulation',
+            edgeType: sign === 'inhibition' ? 'inhibitor' : 'amplifier'
+          }
+        });
+      }
+
+      // Rule-based networks: fold the regulation into the target's rule(s)
+      if (modifiedRules.length > 0) {
+        const ruleExists = modifiedRules.some(r => targetNames.includes(r.name));
+        if (ruleExists) {
+          modifiedRules = modifiedRules.map(r =>
+            targetNames.includes(r.name)
+              ? { ...r, action: addRegulation(r.action, sourceLabel, sign) }
+              : r
+          );
+        } else {
+          modifiedRules.push({
+            name: targetLabel,
+            action: addRegulation(undefined, sourceLabel, sign),
+            enabled: true
+          });
+        }
+      }
     }
   }
 
@@ -0,0 +1,109 @@
+/**
+ * Combination therapy screen for rule-based networks.
+ *
+ * Every candidate intervention alone and every pair of candidates is applied
+ * through `applyTherapiesToNetwork`, the rules are reanalysed, and the readout
+ * is the basin share of the attractors showing a target phenotype. A single
+ * candidate's effect is the share of non-target basins it converts,
+ * (share - baseline) / (1 - baseline), so independent candidates combine like
+ * independent probabilities. Each pair is scored against two reference models:
+ * - Bliss independence: expected effect eA + eB - eA * eB
+ * - Highest single agent (HSA): expected effect max(eA, eB)
+ * Positive excess over the expectation means synergy, negative antagonism.
+ */
+
+import type { CombinationPairResult, CombinationScreenOptions, CombinationScreenResult } from './analysis/types';
+import type { NetworkData } from '@/types/network';
+import { analyseTargetShare } from './interventionSearch';
+import { therapyLabel } from './applyTherapies';
+import { ruleStrings } from './ruleGraphSync';
+import { csvField } from './csv';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+
+/** Heatmap values of a screen; the diagonal holds single shares for "share" and is empty for the synergy scores. */
+export type CombinationMetric = 'share' | 'bliss' | 'hsa';
+
+export function performCombinationScreen(
+  network: NetworkData,
+  options: CombinationScreenOptions,
+): CombinationScreenResult {
+  const { candidates, target, minMatch = 1, analysis = {}, onProgress } = options;
+
+  if (Object.keys(target).length === 0) throw new Error('A combination screen needs a target phenotype.');
+  if (candidates.length < 2) throw new Error('A combination screen needs at least 2 candidate interventions.');
+  if (candidates.length > ANALYSIS_CONFIG.MAX_COMBINATION_CANDIDATES) {
+    throw new Error(`A combination screen takes at most ${ANALYSIS_CONFIG.MAX_COMBINATION_CANDIDATES} candidates.`);
+  }
+  if (ruleStrings(network.rules).length === 0) throw new Error('A combination screen needs a rule-based network.');
+
+  const analysisOptions = { stateCap: ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP, ...analysis };
+  const count = candidates.length;
+  const total = count + (count * (count - 1)) / 2;
+  let explored = 0;
+  const analyse = (indices: number[]) => {
+    const outcome = analyseTargetShare(network, indices.map((i) => candidates[i]), target, minMatch, analysisOptions);
+    if (indices.length > 0) onProgress?.({ explored: ++explored, total });
+    return outcome;
+  };
+
+  const baseline = analyse([]);
+  const warnings = [...baseline.warnings];
+  if (baseline.result.truncated) {
+    warnings.push('Basin shares are estimated from sampled initial states; raise the state cap for exact shares.');
+  }
+  const baselineShare = baseline.targetShare;
+  const room = 1 - baselineShare;
+  if (room < 1e-9) warnings.push('Every basin already shows the target phenotype, so no candidate can add to it.');
+  const effectOf = (share: number) => (room < 1e-9 ? 0 : (share - baselineShare) / room);
+
+  const singleShares = candidates.map((_, i) => analyse([i]).targetShare);
+  const singleEffects = singleShares.map(effectOf);
+
+  const pairs: CombinationPairResult[] = [];
+  for (let a = 0; a < count; a++) {
+    for (let b = a + 1; b < count; b++) {
+      const share = analyse([a, b]).targetShare;
+      const [ea, eb] = [singleEffects[a], singleEffects[b]];
+      const effect = effectOf(share);
+      pairs.push({ a, b, share, bliss: effect - (ea + eb - ea * eb), hsa: effect - Math.max(ea, eb) });
+    }
+  }
+  pairs.sort((x, y) => y.bliss - x.bliss || y.share - x.share);
+
+  return {
+    target,
+    labels: candidates.map(therapyLabel),
+    baselineShare,
+    singleShares,
+    singleEffects,
+    pairs,
+    warnings,
+  };
+}
+
+/** Symmetric candidate × candidate matrix of one metric, for the heatmap. */
+export function combinationMatrix(result: CombinationScreenResult, metric: CombinationMetric): (number | null)[][] {
+  const matrix = result.labels.map((_, i) =>
+    result.labels.map((_, j) => (i === j && metric === 'share' ? result.singleShares[i] : null)),
+  );
+  for (const pair of result.pairs) {
+    matrix[pair.a][pair.b] = matrix[pair.b][pair.a] = pair[metric];
+  }
+  return matrix;
+}
+
+/** One row per pair: the candidates, their single and combined target shares, and both synergy scores. */
+export function combinationScreenToCsv(result: CombinationScreenResult): string {
+  const format = (value: number) => String(Number(value.toPrecision(6)));
+  const header = ['candidate A', 'candidate B', 'share A', 'share B', 'share A+B', 'Bliss excess', 'HSA excess'];
+  const rows = result.pairs.map((pair) => [
+    csvField(result.labels[pair.a]),
+    csvField(result.labels[pair.b]),
+    format(result.singleShares[pair.a]),
+    format(result.singleShares[pair.b]),
+    format(pair.share),
+    format(pair.bliss),
+    format(pair.hsa),
+  ]);
+  return [header, ...rows].map((fields) => fields.join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,2 @@
+/** Quote a CSV field that holds a comma, quote or line break. */
+export const csvField = (value: string): string => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
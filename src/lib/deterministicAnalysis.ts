@@ -1,287 +1,564 @@
 /**
  * Rule-based deterministic analysis for Boolean networks.
  * 
- * Parses Boolean rules and performs synchronous state-space exploration
- * to find attractors (fixed points and limit cycles).
+ * Parses Boolean rules and explores the state space to find attractors.
+ * Synchronous updates yield fixed points and limit cycles; the asynchronous
+ * and random-order schemes build the full state transition graph and report
+ * its terminal strongly-connected components (fixed points and complex attractors).
  * 
- * Rule syntax:
+ * Rule syntax (see `ruleLanguage`):
  * - TARGET = EXPRESSION
  * - Operators: && (AND), || (OR), ! (NOT), parentheses
- * - Also supports: AND, OR, XOR, NAND, NOR
+ * - Also supports: AND, OR, XOR, NAND, NOR, NOT and the constants 0, 1, true, false
  * - Example: Mcm1 = (Clb12 || Clb56) && !Mcm1
  */
 
-import type { DeterministicAnalysisResult, StateSnapshot } from './analysis/types';
+import type {
+  AnalysisProgressCallback,
+  DeterministicAnalysisResult,
+  DeterministicAttractor,
+  RuleBasedAnalysisOptions,
+  StateSnapshot,
+  UpdateScheme,
+} from './analysis/types';
 import { ANALYSIS_CONFIG, computeAdaptiveCaps } from '@/config/constants';
+import { decodeState } from './stateEncoding';
+import { analyzeSymbolically } from './analysis/symbolicAnalysis';
+import type { BinaryOperator, ParsedRule, RuleAlternative, RuleExpression } from './ruleLanguage';
+import { firstError, formatDiagnostic, parseRules, ruleAlternatives } from './ruleLanguage';
 
-interface RuleParsed {
-  target: string;
-  expression: string;
-  tokens: Token[];
-}
-
-type TokenType = 'IDENTIFIER' | 'AND' | 'OR' | 'XOR' | 'NAND' | 'NOR' | 'NOT' | 'LPAREN' | 'RPAREN';
+/** Boolean operators of the rule language. */
+export type Operator = BinaryOperator | 'NOT';
 
-interface Token {
-  type: TokenType;
-  value: string;
-}
+/**
+ * Postfix instruction: a node index to push, a constant to push ('TRUE'/'FALSE'),
+ * or an operator applied to the stack.
+ */
+export type Instruction = number | 'TRUE' | 'FALSE' | Operator;
 
 /**
- * Tokenize a boolean expression
- * @param expr - The expression to tokenize
- * @param knownLabels - Optional set of known node labels (supports labels with spaces)
+ * Flatten a parsed expression into postfix instructions. Operands always precede
+ * their operator, so compiled code can never underflow its stack.
  */
-function tokenize(expr: string, knownLabels?: Set<string>): Token[] {
-  const tokens: Token[] = [];
-  let i = 0;
-  const trimmed = expr.trim();
-  
-  // Sort known labels by length (longest first) to match greedily
-  const sortedLabels = knownLabels 
-    ? Array.from(knownLabels).sort((a, b) => b.length - a.length)
-    : [];
-
-  while (i < trimmed.length) {
-    // Skip whitespace
-    if (/\s/.test(trimmed[i])) {
-      i++;
-      continue;
+function toPostfix(expression: RuleExpression, indexOf: Map<string, number>): Instruction[] {
+  const output: Instruction[] = [];
+  const visit = (e: RuleExpression) => {
+    switch (e.kind) {
+      case 'identifier': {
+        const index = indexOf.get(e.name);
+        if (index === undefined) {
+          throw new Error(`Identifier "${e.name}" not found in state. Available: ${Array.from(indexOf.keys()).join(', ')}`);
+        }
+        output.push(index);
+        break;
+      }
+      case 'constant':
+        output.push(e.value ? 'TRUE' : 'FALSE');
+        break;
+      case 'not':
+        visit(e.operand);
+        output.push('NOT');
+        break;
+      case 'binary':
+        visit(e.left);
+        visit(e.right);
+        output.push(e.operator);
+        break;
     }
+  };
+  visit(expression);
+  return output;
+}
 
-    // Check for two-character operators first
-    const twoChar = trimmed.substring(i, i + 2);
-    if (twoChar === '&&') {
-      tokens.push({ type: 'AND', value: '&&' });
-      i += 2;
+/**
+ * Render postfix instructions as a 0/1-valued JavaScript expression.
+ * `read` produces the expression that loads a node's current bit.
+ */
+function emitExpression(program: Instruction[], read: (index: number) => string): string {
+  if (program.length === 0) return '0';
+  const stack: string[] = [];
+  for (const instruction of program) {
+    if (typeof instruction === 'number') {
+      stack.push(read(instruction));
       continue;
     }
-    if (twoChar === '||') {
-      tokens.push({ type: 'OR', value: '||' });
-      i += 2;
+    if (instruction === 'TRUE' || instruction === 'FALSE') {
+      stack.push(instruction === 'TRUE' ? '1' : '0');
       continue;
     }
-
-    // Single character operators and parentheses
-    if (trimmed[i] === '(') {
-      tokens.push({ type: 'LPAREN', value: '(' });
-      i++;
+    if (instruction === 'NOT') {
+      stack.push(`(${stack.pop()} ^ 1)`);
       continue;
     }
-    if (trimmed[i] === ')') {
-      tokens.push({ type: 'RPAREN', value: ')' });
-      i++;
-      continue;
+    const b = stack.pop();
+    const a = stack.pop();
+    switch (instruction) {
+      case 'AND': stack.push(`(${a} & ${b})`); break;
+      case 'OR': stack.push(`(${a} | ${b})`); break;
+      case 'XOR': stack.push(`(${a} ^ ${b})`); break;
+      case 'NAND': stack.push(`((${a} & ${b}) ^ 1)`); break;
+      case 'NOR': stack.push(`((${a} | ${b}) ^ 1)`); break;
     }
-    if (trimmed[i] === '!') {
-      tokens.push({ type: 'NOT', value: '!' });
-      i++;
-      continue;
+  }
+  return stack[0];
+}
+
+export interface CompiledNetwork {
+  /** Postfix update program per node in `nodeOrder`; null when the node has no rule. */
+  programs: Array<Instruction[] | null>;
+  /**
+   * Synchronous successor of a packed state (node i at bit i, as in `stateEncoding`).
+   * Only available up to `ANALYSIS_CONFIG.MAX_PACKED_STATE_NODES` nodes.
+   */
+  nextPacked: ((state: number) => number) | null;
+  /** Synchronous successor over per-node 0/1 vectors; works for any network size. */
+  nextVector: (state: Uint8Array, out: Uint8Array) => void;
+}
+
+/**
+ * Compile all rules once into straight-line bitwise functions.
+ * Generated code only contains node indices and operators, never user text.
+ * Nodes without a rule keep their value.
+ */
+function compileNetwork(nodeOrder: string[], ruleMap: Map<string, RuleExpression>): CompiledNetwork {
+  const indexOf = new Map(nodeOrder.map((id, i) => [id, i] as const));
+  const programs = nodeOrder.map((nodeId) => {
+    const expression = ruleMap.get(nodeId);
+    if (!expression) return null;
+    try {
+      return toPostfix(expression, indexOf);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      throw new Error(`Error evaluating rule for ${nodeId}: ${message}`);
     }
-    
-    // Try to match known labels (for labels with spaces)
-    let matchedLabel = false;
-    for (const label of sortedLabels) {
-      // Check if label matches at current position (case-insensitive for operators check)
-      const slice = trimmed.substring(i, i + label.length);
-      if (slice === label) {
-        // Make sure it's not a partial match (next char should be operator/paren/end)
-        const nextChar = trimmed[i + label.length];
-        if (!nextChar || !/[a-zA-Z0-9_]/.test(nextChar)) {
-          tokens.push({ type: 'IDENTIFIER', value: label });
-          i += label.length;
-          matchedLabel = true;
-          break;
-        }
+  });
+
+  const vectorBody = programs
+    .map((program, i) => `out[${i}] = ${program ? emitExpression(program, (k) => `v[${k}]`) : `v[${i}]`};`)
+    .join('\n');
+  const nextVector = new Function('v', 'out', vectorBody) as CompiledNetwork['nextVector'];
+
+  let nextPacked: CompiledNetwork['nextPacked'] = null;
+  if (nodeOrder.length <= ANALYSIS_CONFIG.MAX_PACKED_STATE_NODES) {
+    let keepMask = 0;
+    const lines = ['let next = 0;'];
+    programs.forEach((program, i) => {
+      if (program) {
+        lines.push(`next |= ${emitExpression(program, (k) => `((s >>> ${k}) & 1)`)} << ${i};`);
+      } else {
+        keepMask |= 1 << i;
       }
-    }
-    if (matchedLabel) continue;
+    });
+    if (keepMask) lines.push(`next |= s & ${keepMask};`);
+    lines.push('return next >>> 0;');
+    nextPacked = new Function('s', lines.join('\n')) as (state: number) => number;
+  }
+
+  return { programs, nextPacked, nextVector };
+}
+
+/**
+ * Advance a packed state to the next one in binary-string order, where node 0
+ * is the leftmost (most significant) character. Visiting states in this order
+ * keeps attractor numbering identical to the string-based enumeration.
+ */
+function nextInBinaryOrder(state: number, nodeCount: number): number {
+  let mask = 1 << (nodeCount - 1);
+  while (mask && (state & mask)) {
+    state ^= mask;
+    mask >>>= 1;
+  }
+  return state | mask;
+}
+
+function packedSnapshot(state: number, nodeOrder: string[], scratch: Uint8Array): StateSnapshot {
+  decodeState(state, scratch);
+  const values: Record<string, 0 | 1> = {};
+  for (let i = 0; i < nodeOrder.length; i++) {
+    values[nodeOrder[i]] = scratch[i] ? 1 : 0;
+  }
+  return { binary: scratch.join(''), values };
+}
 
-    // Multi-character operators and identifiers
-    let word = '';
-    while (i < trimmed.length && /[a-zA-Z0-9_]/.test(trimmed[i])) {
-      word += trimmed[i];
-      i++;
+interface AttractorRecord<K> {
+  states: K[];
+  basinSize: number;
+}
+
+interface ExplorationResult<K> {
+  attractors: AttractorRecord<K>[];
+  resolvedStates: number;
+}
+
+/**
+ * Exhaustive synchronous exploration over packed states. Bookkeeping lives in a
+ * typed array indexed by state: 0 = unvisited, >0 = attractor id + 1, <0 = on the
+ * trajectory currently being followed.
+ */
+function exploreAllPackedStates(
+  next: (state: number) => number,
+  nodeCount: number,
+  stepCap: number,
+  onProgress?: AnalysisProgressCallback
+): ExplorationResult<number> {
+  const total = 2 ** nodeCount;
+  const owner = new Int32Array(total);
+  const attractors: AttractorRecord<number>[] = [];
+  const path: number[] = [];
+  const progressInterval = ANALYSIS_CONFIG.PROGRESS_REPORT_INTERVAL;
+  let resolvedStates = 0;
+  let start = 0;
+
+  for (let index = 0; index < total; index++, start = nextInBinaryOrder(start, nodeCount)) {
+    if (onProgress && index % progressInterval === 0) {
+      onProgress({ explored: index, total });
     }
+    if (owner[start] !== 0) continue;
 
-    if (word) {
-      const upper = word.toUpperCase();
-      if (upper === 'AND') tokens.push({ type: 'AND', value: upper });
-      else if (upper === 'OR') tokens.push({ type: 'OR', value: upper });
-      else if (upper === 'XOR') tokens.push({ type: 'XOR', value: upper });
-      else if (upper === 'NAND') tokens.push({ type: 'NAND', value: upper });
-      else if (upper === 'NOR') tokens.push({ type: 'NOR', value: upper });
-      else tokens.push({ type: 'IDENTIFIER', value: word });
-      continue;
+    const marker = -(index + 1);
+    path.length = 0;
+    let state = start;
+    let resolvedId = 0;
+
+    for (let step = 0; step <= stepCap; step++) {
+      owner[state] = marker;
+      path.push(state);
+      const successor = next(state);
+      const successorOwner = owner[successor];
+
+      if (successorOwner > 0) {
+        resolvedId = successorOwner;
+        break;
+      }
+      if (successorOwner === marker) {
+        const cycle: number[] = [];
+        let member = successor;
+        do {
+          cycle.push(member);
+          member = next(member);
+        } while (member !== successor);
+        attractors.push({ states: cycle, basinSize: 0 });
+        resolvedId = attractors.length;
+        break;
+      }
+      state = successor;
     }
 
-    // Unknown character
-    throw new Error(`Unexpected character '${trimmed[i]}' at position ${i}`);
+    // Unresolved trajectories (step cap hit) are released so later starts can retry them.
+    const label = resolvedId;
+    for (const s of path) owner[s] = label;
+    if (resolvedId > 0) {
+      attractors[resolvedId - 1].basinSize += path.length;
+      resolvedStates += path.length;
+    }
   }
 
-  return tokens;
+  onProgress?.({ explored: total, total });
+  return { attractors, resolvedStates };
 }
 
 /**
- * Parse a single rule: TARGET = EXPRESSION
- * Supports labels with spaces (e.g., "Node 1 = Node 2 AND Node 3")
- * @param rule - The rule string to parse
- * @param knownLabels - Optional set of known node labels for parsing expressions with spaces
+ * Synchronous exploration from a sample of initial states, keyed by packed
+ * numbers (or binary strings for networks too wide to pack).
  */
-function parseRule(rule: string, knownLabels?: Set<string>): RuleParsed {
-  const eqIndex = rule.indexOf('=');
-  if (eqIndex <= 0) {
-    throw new Error(`Invalid rule syntax: "${rule}". Expected format: TARGET = EXPRESSION`);
-  }
+function exploreSampledStates<K>(
+  initialStates: K[],
+  next: (state: K) => K,
+  stepCap: number,
+  onProgress?: AnalysisProgressCallback
+): ExplorationResult<K> {
+  const stateToAttractorId = new Map<K, number>();
+  const attractors: AttractorRecord<K>[] = [];
+  const progressInterval = ANALYSIS_CONFIG.PROGRESS_REPORT_INTERVAL;
+
+  for (let index = 0; index < initialStates.length; index++) {
+    const initial = initialStates[index];
+    if (onProgress && index % progressInterval === 0) {
+      onProgress({ explored: index, total: initialStates.length });
+    }
+
+    if (stateToAttractorId.has(initial)) continue;
+
+    // Follow trajectory
+    const path: K[] = [initial];
+    const indexByState = new Map<K, number>([[initial, 0]]);
+    let current = initial;
+
+    for (let step = 0; step < stepCap; step++) {
+      const successor = next(current);
+
+      const knownId = stateToAttractorId.get(successor);
+      if (knownId !== undefined) {
+        // Reached known attractor
+        for (const s of path) stateToAttractorId.set(s, knownId);
+        attractors[knownId].basinSize += path.length;
+        break;
+      }
+
+      const cycleStartIndex = indexByState.get(successor);
+      if (cycleStartIndex !== undefined) {
+        // Found new attractor (cycle or fixed point)
+        const attractorId = attractors.length;
+        attractors.push({ states: path.slice(cycleStartIndex), basinSize: path.length });
+        for (const s of path) stateToAttractorId.set(s, attractorId);
+        break;
+      }
 
-  const target = rule.substring(0, eqIndex).trim();
-  const expression = rule.substring(eqIndex + 1).trim();
-  
-  if (!target || !expression) {
-    throw new Error(`Invalid rule syntax: "${rule}". Expected format: TARGET = EXPRESSION`);
+      path.push(successor);
+      indexByState.set(successor, path.length - 1);
+      current = successor;
+    }
   }
-  
-  const tokens = tokenize(expression, knownLabels);
 
-  return { target, expression, tokens };
+  onProgress?.({ explored: initialStates.length, total: initialStates.length });
+  return { attractors, resolvedStates: stateToAttractorId.size };
 }
 
 /**
- * Evaluate a boolean expression using shunting-yard algorithm
+ * Attractor search for the asynchronous and random-order schemes.
+ *
+ * States are packed integers (see `stateEncoding`). Successors are:
+ * - asynchronous: every state reached by updating exactly one node whose value changes;
+ * - random-order: every state reached by updating all nodes one after another, over all orders.
+ * Attractors are the terminal SCCs of the resulting graph (Tarjan, iterative).
  */
-function evaluateExpression(tokens: Token[], state: Record<string, 0 | 1>): 0 | 1 {
-  if (tokens.length === 0) return 0;
-
-  const outputQueue: (0 | 1)[] = [];
-  const operatorStack: Token[] = [];
-
-  const precedence: Record<TokenType, number> = {
-    'NOT': 4,
-    'AND': 3,
-    'NAND': 3,
-    'OR': 2,
-    'NOR': 2,
-    'XOR': 2,
-    'LPAREN': 0,
-    'RPAREN': 0,
-    'IDENTIFIER': 0,
+function analyzeAsynchronousStateSpace(
+  nodeOrder: string[],
+  nodeLabels: Record<string, string>,
+  compiled: CompiledNetwork,
+  scheme: Exclude<UpdateScheme, 'synchronous'>,
+  warnings: string[],
+  onProgress?: AnalysisProgressCallback
+): DeterministicAnalysisResult {
+  const n = nodeOrder.length;
+  const nodeLimit = scheme === 'asynchronous'
+    ? ANALYSIS_CONFIG.MAX_NODES_ASYNCHRONOUS
+    : ANALYSIS_CONFIG.MAX_NODES_RANDOM_ORDER;
+  if (n > nodeLimit) {
+    const label = scheme === 'asynchronous' ? 'Asynchronous' : 'Random-order';
+    throw new Error(`${label} analysis supports up to ${nodeLimit} nodes (network has ${n}).`);
+  }
+  const next = compiled.nextPacked!;
+
+  const totalStateSpace = 2 ** n;
+  const fullMask = totalStateSpace - 1;
+
+  const asynchronousSuccessors = (s: number): number[] => {
+    const diff = next(s) ^ s;
+    const result: number[] = [];
+    for (let i = 0; i < n; i++) {
+      if (diff & (1 << i)) result.push(s ^ (1 << i));
+    }
+    return result;
   };
 
-  const applyOperator = (op: Token) => {
-    if (op.type === 'NOT') {
-      const a = outputQueue.pop();
-      if (a === undefined) throw new Error('NOT operator requires one operand');
-      outputQueue.push(a === 1 ? 0 : 1);
-    } else {
-      const b = outputQueue.pop();
-      const a = outputQueue.pop();
-      if (a === undefined || b === undefined) {
-        throw new Error(`Binary operator ${op.type} requires two operands`);
+  // Explore (state, updated-node mask) pairs; a sweep ends once every node was updated once.
+  const randomOrderSuccessors = (s: number): number[] => {
+    const results = new Set<number>();
+    const seen = new Set<number>([s * totalStateSpace]);
+    const stack: Array<[number, number]> = [[s, 0]];
+    while (stack.length > 0) {
+      const [x, mask] = stack.pop()!;
+      if (mask === fullMask) {
+        if (x !== s) results.add(x);
+        continue;
       }
-      
-      let result: 0 | 1;
-      switch (op.type) {
-        case 'AND': result = (a === 1 && b === 1) ? 1 : 0; break;
-        case 'OR': result = (a === 1 || b === 1) ? 1 : 0; break;
-        case 'XOR': result = (a !== b) ? 1 : 0; break;
-        case 'NAND': result = (a === 1 && b === 1) ? 0 : 1; break;
-        case 'NOR': result = (a === 1 || b === 1) ? 0 : 1; break;
-        default: throw new Error(`Unknown operator: ${op.type}`);
+      const target = next(x);
+      for (let i = 0; i < n; i++) {
+        const bit = 1 << i;
+        if (mask & bit) continue;
+        const nextX = (x & ~bit) | (target & bit);
+        const key = nextX * totalStateSpace + (mask | bit);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        stack.push([nextX, mask | bit]);
       }
-      outputQueue.push(result);
     }
+    return Array.from(results);
   };
 
-  for (const token of tokens) {
-    if (token.type === 'IDENTIFIER') {
-      const value = state[token.value];
-      if (value === undefined) {
-        throw new Error(`Identifier "${token.value}" not found in state. Available: ${Object.keys(state).join(', ')}`);
-      }
-      outputQueue.push(value);
-    } else if (token.type === 'LPAREN') {
-      operatorStack.push(token);
-    } else if (token.type === 'RPAREN') {
-      while (operatorStack.length > 0 && operatorStack[operatorStack.length - 1].type !== 'LPAREN') {
-        applyOperator(operatorStack.pop()!);
+  const successorsOf = scheme === 'asynchronous' ? asynchronousSuccessors : randomOrderSuccessors;
+  const progressInterval = ANALYSIS_CONFIG.PROGRESS_REPORT_INTERVAL;
+  const successors: number[][] = new Array(totalStateSpace);
+  for (let s = 0; s < totalStateSpace; s++) {
+    if (onProgress && s % progressInterval === 0) {
+      onProgress({ explored: s, total: totalStateSpace });
+    }
+    successors[s] = successorsOf(s);
+  }
+
+  // Tarjan's SCC algorithm with an explicit call stack.
+  const index = new Int32Array(totalStateSpace).fill(-1);
+  const low = new Int32Array(totalStateSpace);
+  const onStack = new Uint8Array(totalStateSpace);
+  const component = new Int32Array(totalStateSpace);
+  const sccStack: number[] = [];
+  let counter = 0;
+  let componentCount = 0;
+
+  for (let root = 0; root < totalStateSpace; root++) {
+    if (index[root] !== -1) continue;
+    const callStack: Array<[number, number]> = [[root, 0]];
+    index[root] = low[root] = counter++;
+    sccStack.push(root);
+    onStack[root] = 1;
+
+    while (callStack.length > 0) {
+      const frame = callStack[callStack.length - 1];
+      const v = frame[0];
+      const succ = successors[v];
+      if (frame[1] < succ.length) {
+        const w = succ[frame[1]++];
+        if (index[w] === -1) {
+          index[w] = low[w] = counter++;
+          sccStack.push(w);
+          onStack[w] = 1;
+          callStack.push([w, 0]);
+        } else if (onStack[w]) {
+          low[v] = Math.min(low[v], index[w]);
+        }
+        continue;
       }
-      if (operatorStack.length === 0) {
-        throw new Error('Mismatched parentheses');
+
+      callStack.pop();
+      if (callStack.length > 0) {
+        const parent = callStack[callStack.length - 1][0];
+        low[parent] = Math.min(low[parent], low[v]);
       }
-      operatorStack.pop(); // Remove LPAREN
-    } else {
-      // Operator
-      while (
-        operatorStack.length > 0 &&
-        precedence[operatorStack[operatorStack.length - 1].type] >= precedence[token.type]
-      ) {
-        applyOperator(operatorStack.pop()!);
+      if (low[v] === index[v]) {
+        let w: number;
+        do {
+          w = sccStack.pop()!;
+          onStack[w] = 0;
+          component[w] = componentCount;
+        } while (w !== v);
+        componentCount++;
       }
-      operatorStack.push(token);
     }
   }
 
-  while (operatorStack.length > 0) {
-    const op = operatorStack.pop()!;
-    if (op.type === 'LPAREN' || op.type === 'RPAREN') {
-      throw new Error('Mismatched parentheses');
+  const isTerminal = new Uint8Array(componentCount).fill(1);
+  for (let v = 0; v < totalStateSpace; v++) {
+    for (const w of successors[v]) {
+      if (component[w] !== component[v]) isTerminal[component[v]] = 0;
     }
-    applyOperator(op);
   }
 
-  if (outputQueue.length !== 1) {
-    throw new Error('Invalid expression: too many operands');
+  // Members of each terminal SCC, collected in binary-string order (which also orders the attractors).
+  const membersByComponent = new Map<number, number[]>();
+  for (let k = 0, v = 0; k < totalStateSpace; k++, v = nextInBinaryOrder(v, n)) {
+    if (!isTerminal[component[v]]) continue;
+    const members = membersByComponent.get(component[v]);
+    if (members) members.push(v);
+    else membersByComponent.set(component[v], [v]);
   }
+  const terminalMembers = Array.from(membersByComponent.values());
 
-  return outputQueue[0];
-}
-
-/**
- * Perform rule-based deterministic analysis
- */
-export function performDeterministicAnalysis(
-  rules: string[],
-  options: {
-    stateCap?: number;
-    stepCap?: number;
-  } = {}
-): DeterministicAnalysisResult {
-  const requestedStateCap = options.stateCap ?? ANALYSIS_CONFIG.DEFAULT_STATE_CAP;
-  const requestedStepCap = options.stepCap ?? ANALYSIS_CONFIG.DEFAULT_STEP_CAP;
-  // Actual caps are computed after we know the node count (see below).
-  let stateCap = requestedStateCap;
-  let stepCap = requestedStepCap;
+  // Reverse graph in CSR form for basin searches.
+  const reverseOffsets = new Int32Array(totalStateSpace + 1);
+  for (let v = 0; v < totalStateSpace; v++) {
+    for (const w of successors[v]) reverseOffsets[w + 1]++;
+  }
+  for (let v = 0; v < totalStateSpace; v++) reverseOffsets[v + 1] += reverseOffsets[v];
+  const reverseTargets = new Int32Array(reverseOffsets[totalStateSpace]);
+  const fill = reverseOffsets.slice(0, totalStateSpace);
+  for (let v = 0; v < totalStateSpace; v++) {
+    for (const w of successors[v]) reverseTargets[fill[w]++] = v;
+  }
 
-  const warnings: string[] = [];
-  
-  // First pass: collect all targets (left-hand sides of rules) as known labels
-  // This allows us to parse expressions that contain labels with spaces
-  const knownLabels = new Set<string>();
-  const validRuleStrings: string[] = [];
-  
-  for (const rule of rules) {
-    const trimmed = rule.trim();
-    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('//')) continue;
-    
-    const eqIndex = trimmed.indexOf('=');
-    if (eqIndex > 0) {
-      const target = trimmed.substring(0, eqIndex).trim();
-      if (target) {
-        knownLabels.add(target);
-        validRuleStrings.push(trimmed);
+  // A state's strong basin is the attractor it can exclusively reach.
+  const reachCount = new Uint16Array(totalStateSpace);
+  const lastReached = new Int32Array(totalStateSpace);
+  const weakBasinSizes = terminalMembers.map((members, attractorId) => {
+    const visited = new Uint8Array(totalStateSpace);
+    const queue = [...members];
+    for (const m of members) visited[m] = 1;
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      reachCount[v]++;
+      lastReached[v] = attractorId;
+      for (let k = reverseOffsets[v]; k < reverseOffsets[v + 1]; k++) {
+        const u = reverseTargets[k];
+        if (!visited[u]) {
+          visited[u] = 1;
+          queue.push(u);
+        }
       }
     }
+    return queue.length;
+  });
+  const strongBasinSizes = new Array<number>(terminalMembers.length).fill(0);
+  for (let v = 0; v < totalStateSpace; v++) {
+    if (reachCount[v] === 1) strongBasinSizes[lastReached[v]]++;
   }
 
-  // Second pass: parse rules with known labels for tokenizing expressions
-  const parsedRules: RuleParsed[] = [];
-  
-  for (const rule of validRuleStrings) {
-    try {
-      parsedRules.push(parseRule(rule, knownLabels));
-    } catch (e) {
-      const message = e instanceof Error ? e.message : String(e);
-      warnings.push(`Rule parse error: ${message}`);
+  const scratch = new Uint8Array(n);
+  const attractors: DeterministicAttractor[] = terminalMembers.map((members, id) => {
+    const attractor: DeterministicAttractor = {
+      id,
+      type: members.length === 1 ? 'fixed-point' : 'complex-attractor',
+      period: members.length,
+      states: members.map(s => packedSnapshot(s, nodeOrder, scratch)),
+      basinSize: strongBasinSizes[id],
+      basinShare: strongBasinSizes[id] / totalStateSpace,
+      weakBasinSize: weakBasinSizes[id],
+    };
+    if (members.length > 1) {
+      const position = new Map(members.map((s, i) => [s, i] as const));
+      attractor.transitions = [];
+      for (const s of members) {
+        for (const w of successors[s]) {
+          attractor.transitions.push([position.get(s)!, position.get(w)!]);
+        }
+      }
+    }
+    return attractor;
+  });
+
+  onProgress?.({ explored: totalStateSpace, total: totalStateSpace });
+
+  return {
+    nodeOrder,
+    nodeLabels,
+    attractors,
+    exploredStateCount: totalStateSpace,
+    totalStateSpace,
+    truncated: false,
+    warnings,
+    unresolvedStates: 0,
+  };
+}
+
+/** Rule strings parsed and compiled once, shared by the rule-based engines. */
+export interface CompiledRuleSet {
+  nodeOrder: string[];
+  nodeLabels: Record<string, string>;
+  compiled: CompiledNetwork;
+  /** Total expression size (operands and operators), a proxy for evaluation cost. */
+  tokenCount: number;
+}
+
+interface ParsedRuleSet {
+  nodeOrder: string[];
+  nodeLabels: Record<string, string>;
+  alternatives: Map<string, RuleAlternative[]>;
+}
+
+/**
+ * Parse `TARGET = EXPRESSION [@ p]` rules. Unparseable rules are skipped with
+ * a message in `warnings`; throws when no rule survives.
+ */
+function parseRuleSet(rules: string[], warnings: string[]): ParsedRuleSet {
+  // Every target is a known label, so expressions may reference labels with spaces.
+  const parsed = parseRules(rules);
+  const parsedRules: ParsedRule[] = [];
+
+  for (const rule of parsed) {
+    const error = firstError(rule);
+    if (error) {
+      warnings.push(`Rule parse error: "${rule.text.trim()}": ${formatDiagnostic(error)}`);
+    } else if (rule.expression) {
+      parsedRules.push(rule);
     }
   }
 
@@ -289,184 +566,202 @@ export function performDeterministicAnalysis(
     throw new Error('No valid rules found. Please provide at least one rule in the format: TARGET = EXPRESSION');
   }
 
-  // Extract all unique node identifiers (targets + any identifiers from expressions)
-  const nodeIds = new Set<string>(knownLabels);
+  // Nodes are all targets plus any identifiers from valid expressions
+  const nodeIds = new Set<string>(parsed.map(rule => rule.target).filter(Boolean));
   for (const rule of parsedRules) {
-    for (const token of rule.tokens) {
-      if (token.type === 'IDENTIFIER') {
-        nodeIds.add(token.value);
-      }
-    }
+    for (const id of rule.identifiers) nodeIds.add(id);
   }
 
   const nodeOrder = Array.from(nodeIds).sort();
   const nodeLabels = Object.fromEntries(nodeOrder.map(id => [id, id]));
+  return { nodeOrder, nodeLabels, alternatives: ruleAlternatives(parsedRules) };
+}
 
-  // Adaptively scale caps so total work stays browser-safe.
-  const totalTokenCount = parsedRules.reduce((sum, r) => sum + r.tokens.length, 0);
-  const adapted = computeAdaptiveCaps(nodeOrder.length, totalTokenCount, requestedStateCap, requestedStepCap);
-  stateCap = adapted.stateCap;
-  stepCap = adapted.stepCap;
-
-  const totalStateSpace = 2 ** nodeOrder.length;
-  const maxStates = Math.min(stateCap, totalStateSpace);
-  const truncated = maxStates < totalStateSpace;
-
-  // Truncation/sampling warnings removed to avoid noisy UI messaging.
-
-  const makeRandomBinaryState = (bitCount: number): string => {
-    const chars = new Array<string>(bitCount);
-    for (let i = 0; i < bitCount; i++) {
-      chars[i] = Math.random() < 0.5 ? '0' : '1';
-    }
-    return chars.join('');
-  };
+/**
+ * Parse and compile `TARGET = EXPRESSION` rules. Unparseable rules are skipped with
+ * a message in `warnings`; throws when no rule survives. A later rule for the same
+ * target replaces the earlier one; of PBN alternatives (`@ p`) the most probable is used.
+ */
+export function compileRules(rules: string[], warnings: string[]): CompiledRuleSet {
+  const { nodeOrder, nodeLabels, alternatives } = parseRuleSet(rules, warnings);
+
+  const ruleMap = new Map<string, RuleExpression>();
+  let probabilisticTargets = 0;
+  for (const [target, options] of alternatives) {
+    if (options.length > 1) probabilisticTargets++;
+    const mostProbable = options.reduce((best, option) => (option.probability > best.probability ? option : best));
+    ruleMap.set(target, mostProbable.expression);
+  }
+  if (probabilisticTargets > 0) {
+    warnings.push(
+      `${probabilisticTargets} node(s) have alternative rules; this analysis uses the most probable rule of each.`,
+    );
+  }
 
-  const sampleInitialStates = (bitCount: number, count: number): string[] => {
-    const unique = new Set<string>();
-    const maxAttempts = Math.max(10_000, count * 10);
-    let attempts = 0;
-    while (unique.size < count && attempts < maxAttempts) {
-      unique.add(makeRandomBinaryState(bitCount));
-      attempts += 1;
-    }
-    if (unique.size < count) {
-      for (let i = 0; unique.size < count; i += 1) {
-        unique.add(i.toString(2).padStart(bitCount, '0'));
-      }
-    }
-    return Array.from(unique);
+  return {
+    nodeOrder,
+    nodeLabels,
+    compiled: compileNetwork(nodeOrder, ruleMap),
+    tokenCount: Array.from(ruleMap.values()).reduce((sum, e) => sum + expressionSize(e), 0),
   };
+}
 
-  const initialStates: string[] = truncated
-    ? sampleInitialStates(nodeOrder.length, maxStates)
-    : Array.from({ length: maxStates }, (_, i) => i.toString(2).padStart(nodeOrder.length, '0'));
+/** One compiled alternative of a node's update function. */
+export interface CompiledAlternative {
+  probability: number;
+  /** Value (0/1) of the alternative for a per-node 0/1 vector in `nodeOrder`. */
+  evaluate: (state: Uint8Array) => number;
+}
 
-  // Build rule map
-  const ruleMap = new Map<string, RuleParsed>();
-  for (const rule of parsedRules) {
-    ruleMap.set(rule.target, rule);
-  }
+export interface CompiledProbabilisticRuleSet {
+  nodeOrder: string[];
+  nodeLabels: Record<string, string>;
+  /** Alternatives per node in `nodeOrder`; empty when the node has no rule and keeps its value. */
+  alternatives: CompiledAlternative[][];
+}
 
-  // Helper: encode state to binary string
-  const encodeState = (state: Record<string, 0 | 1>): string => {
-    return nodeOrder.map(id => state[id] ?? 0).join('');
-  };
+/**
+ * Compile rules as a probabilistic Boolean network: every `@ p` alternative of a
+ * target becomes its own evaluator. Parsing and warnings are as in `compileRules`.
+ */
+export function compileProbabilisticRules(rules: string[], warnings: string[]): CompiledProbabilisticRuleSet {
+  const { nodeOrder, nodeLabels, alternatives } = parseRuleSet(rules, warnings);
+  const indexOf = new Map(nodeOrder.map((id, i) => [id, i] as const));
 
-  // Helper: decode binary string to state
-  const decodeState = (binary: string): Record<string, 0 | 1> => {
-    const state: Record<string, 0 | 1> = {};
-    for (let i = 0; i < nodeOrder.length; i++) {
-      state[nodeOrder[i]] = (binary[i] === '1' ? 1 : 0) as 0 | 1;
-    }
-    return state;
+  return {
+    nodeOrder,
+    nodeLabels,
+    alternatives: nodeOrder.map(nodeId =>
+      (alternatives.get(nodeId) ?? []).map(({ expression, probability }) => {
+        const body = `return ${emitExpression(toPostfix(expression, indexOf), (k) => `v[${k}]`)};`;
+        return { probability, evaluate: new Function('v', body) as CompiledAlternative['evaluate'] };
+      })
+    ),
   };
+}
 
-  // Helper: compute next state
-  const computeNextState = (current: Record<string, 0 | 1>): Record<string, 0 | 1> => {
-    const next: Record<string, 0 | 1> = { ...current };
-    
-    for (const nodeId of nodeOrder) {
-      const rule = ruleMap.get(nodeId);
-      if (rule) {
-        try {
-          next[nodeId] = evaluateExpression(rule.tokens, current);
-        } catch (e) {
-          const message = e instanceof Error ? e.message : String(e);
-          throw new Error(`Error evaluating rule for ${nodeId}: ${message}`);
-        }
-      }
-      // If no rule, node retains its value
-    }
-    
-    return next;
-  };
+function expressionSize(e: RuleExpression): number {
+  switch (e.kind) {
+    case 'identifier':
+    case 'constant':
+      return 1;
+    case 'not':
+      return 1 + expressionSize(e.operand);
+    case 'binary':
+      return 1 + expressionSize(e.left) + expressionSize(e.right);
+  }
+}
 
-  // State space exploration
-  const stateToAttractorId = new Map<string, number>();
-  const attractorData: Array<{
-    id: number;
-    states: StateSnapshot[];
-    basin: Set<string>;
-  }> = [];
-  let nextAttractorId = 0;
+/**
+ * Perform rule-based deterministic analysis
+ */
+export function performDeterministicAnalysis(
+  rules: string[],
+  options: RuleBasedAnalysisOptions = {}
+): DeterministicAnalysisResult {
+  const requestedStateCap = options.stateCap ?? ANALYSIS_CONFIG.DEFAULT_STATE_CAP;
+  const requestedStepCap = options.stepCap ?? ANALYSIS_CONFIG.DEFAULT_STEP_CAP;
 
-  let exploredCount = 0;
+  const warnings: string[] = [];
+  const { nodeOrder, nodeLabels, compiled, tokenCount } = compileRules(rules, warnings);
+  const nodeCount = nodeOrder.length;
+  const { onProgress } = options;
+
+  const updateScheme = options.updateScheme ?? 'synchronous';
+  if (options.method === 'symbolic') {
+    return analyzeSymbolically({
+      nodeOrder,
+      nodeLabels,
+      compiled,
+      updateScheme,
+      stepCap: requestedStepCap,
+      warnings,
+      onProgress,
+    });
+  }
+  if (updateScheme !== 'synchronous') {
+    return analyzeAsynchronousStateSpace(nodeOrder, nodeLabels, compiled, updateScheme, warnings, onProgress);
+  }
 
-  for (const binary of initialStates) {
-    
-    if (stateToAttractorId.has(binary)) continue;
+  // Adaptively scale caps so total work stays browser-safe. Compiled rules make
+  // exhaustive enumeration affordable up to MAX_NODES_DETERMINISTIC nodes.
+  const { stateCap, stepCap } = computeAdaptiveCaps(
+    nodeCount,
+    tokenCount,
+    requestedStateCap,
+    requestedStepCap,
+    ANALYSIS_CONFIG.MAX_NODES_DETERMINISTIC
+  );
+
+  const totalStateSpace = 2 ** nodeCount;
+  const maxStates = Math.min(stateCap, totalStateSpace);
+  const truncated = maxStates < totalStateSpace;
 
-    // Follow trajectory
-    const path: string[] = [binary];
-    const indexByState = new Map<string, number>([[binary, 0]]);
-    let current = decodeState(binary);
+  // Truncation/sampling warnings removed to avoid noisy UI messaging.
 
-    for (let step = 0; step < stepCap; step++) {
-      const next = computeNextState(current);
-      const nextBinary = encodeState(next);
+  let attractorStates: StateSnapshot[][];
+  let exploration: ExplorationResult<unknown>;
 
-      if (stateToAttractorId.has(nextBinary)) {
-        // Reached known attractor
-        const attractorId = stateToAttractorId.get(nextBinary)!;
-        for (const s of path) {
-          stateToAttractorId.set(s, attractorId);
-          attractorData[attractorId].basin.add(s);
-        }
-        break;
+  if (compiled.nextPacked) {
+    const nextPacked = compiled.nextPacked;
+    let packedResult: ExplorationResult<number>;
+    if (truncated) {
+      const initialStates = new Set<number>();
+      while (initialStates.size < maxStates) {
+        initialStates.add(Math.floor(Math.random() * totalStateSpace));
       }
-
-      const cycleStartIndex = indexByState.get(nextBinary);
-      if (cycleStartIndex !== undefined) {
-        // Found new attractor (cycle or fixed point)
-        const attractorStates = path.slice(cycleStartIndex);
-        
-        const attractor = {
-          id: nextAttractorId,
-          states: attractorStates.map(bin => ({
-            binary: bin,
-            values: decodeState(bin),
-          })),
-          basin: new Set<string>(path),
-        };
-        attractorData.push(attractor);
-
-        for (const s of path) {
-          stateToAttractorId.set(s, nextAttractorId);
-        }
-
-        nextAttractorId++;
-        break;
+      packedResult = exploreSampledStates(Array.from(initialStates), nextPacked, stepCap, onProgress);
+    } else {
+      packedResult = exploreAllPackedStates(nextPacked, nodeCount, stepCap, onProgress);
+    }
+    const scratch = new Uint8Array(nodeCount);
+    attractorStates = packedResult.attractors.map(att => att.states.map(s => packedSnapshot(s, nodeOrder, scratch)));
+    exploration = packedResult;
+  } else {
+    // Too wide to pack into one integer: sample over binary-string keys.
+    const initialStates = new Set<string>();
+    const chars = new Array<string>(nodeCount);
+    while (initialStates.size < maxStates) {
+      for (let i = 0; i < nodeCount; i++) {
+        chars[i] = Math.random() < 0.5 ? '0' : '1';
       }
-
-      path.push(nextBinary);
-      indexByState.set(nextBinary, path.length - 1);
-      current = next;
+      initialStates.add(chars.join(''));
     }
-
-    exploredCount++;
+    const current = new Uint8Array(nodeCount);
+    const successor = new Uint8Array(nodeCount);
+    const nextBinary = (binary: string): string => {
+      for (let i = 0; i < nodeCount; i++) current[i] = binary.charCodeAt(i) === 49 ? 1 : 0;
+      compiled.nextVector(current, successor);
+      return successor.join('');
+    };
+    const stringResult = exploreSampledStates(Array.from(initialStates), nextBinary, stepCap, onProgress);
+    attractorStates = stringResult.attractors.map(att => att.states.map(binary => ({
+      binary,
+      values: Object.fromEntries(nodeOrder.map((id, i) => [id, binary[i] === '1' ? 1 : 0])) as Record<string, 0 | 1>,
+    })));
+    exploration = stringResult;
   }
 
-  const basinShareDenominator = truncated ? Math.max(1, stateToAttractorId.size) : totalStateSpace;
+  const basinShareDenominator = truncated ? Math.max(1, exploration.resolvedStates) : totalStateSpace;
 
   // Format results
-  const attractors = attractorData.map(att => ({
-    id: att.id,
-    type: (att.states.length === 1 ? 'fixed-point' : 'limit-cycle') as 'fixed-point' | 'limit-cycle',
+  const attractors: DeterministicAttractor[] = exploration.attractors.map((att, id) => ({
+    id,
+    type: att.states.length === 1 ? 'fixed-point' : 'limit-cycle',
     period: att.states.length,
-    states: att.states,
-    basinSize: att.basin.size,
-    basinShare: att.basin.size / basinShareDenominator,
+    states: attractorStates[id],
+    basinSize: att.basinSize,
+    basinShare: att.basinSize / basinShareDenominator,
   }));
 
   return {
     nodeOrder,
     nodeLabels,
     attractors,
-    exploredStateCount: stateToAttractorId.size,
+    exploredStateCount: exploration.resolvedStates,
     totalStateSpace,
     truncated,
     warnings,
-    unresolvedStates: Math.max(0, maxStates - stateToAttractorId.size),
+    unresolvedStates: Math.max(0, maxStates - exploration.resolvedStates),
   };
 }
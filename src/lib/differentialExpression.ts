@@ -0,0 +1,225 @@
+/**
+ * Differential expression between two groups of RNA-seq samples.
+ *
+ * Runs in the browser on a raw count matrix:
+ * 1. counts are normalised by median-of-ratios size factors (as in DESeq2), or
+ *    by library size when no gene is counted in every sample;
+ * 2. genes with a mean normalised count below `DE_MIN_MEAN_COUNT` are dropped;
+ * 3. each gene's fold change is log2((treatment mean + 1) / (reference mean + 1));
+ * 4. its p-value comes from Welch's t-test on log2(normalised count + 1);
+ * 5. p-values are adjusted for the number of tested genes (Benjamini–Hochberg).
+ * This is a quick screen, not a replacement for a negative-binomial model, and
+ * needs at least two samples per condition.
+ */
+
+import type {
+  CountMatrix,
+  DifferentialExpressionGene,
+  DifferentialExpressionOptions,
+  DifferentialExpressionResult,
+} from './analysis/types';
+import type { NetworkData } from '@/types/network';
+import { nodeGeneIndex } from './patientProfile';
+import { csvField } from './csv';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const variance = (values: number[]) => {
+  const m = mean(values);
+  return values.reduce((sum, value) => sum + (value - m) ** 2, 0) / (values.length - 1);
+};
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Lanczos approximation (g = 7)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Continued fraction of the incomplete beta function (modified Lentz)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    for (const numerator of [
+      (m * (b - m) * x) / ((a + m2 - 1) * (a + m2)),
+      (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1)),
+    ]) {
+      d = 1 + numerator * d;
+      if (Math.abs(d) < tiny) d = tiny;
+      c = 1 + numerator / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      d = 1 / d;
+      h *= d * c;
+    }
+    if (Math.abs(d * c - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+/** Regularised incomplete beta function I_x(a, b). */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/** Two-sided p-value of Welch's t-test; groups without spread differ with p = 0 unless their means are equal. */
+export function welchTTest(a: number[], b: number[]): number {
+  const va = variance(a) / a.length;
+  const vb = variance(b) / b.length;
+  const diff = mean(a) - mean(b);
+  const se2 = va + vb;
+  if (se2 === 0) return diff === 0 ? 1 : 0;
+  const t = diff / Math.sqrt(se2);
+  const df = se2 ** 2 / (va ** 2 / (a.length - 1) + vb ** 2 / (b.length - 1));
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/** Benjamini–Hochberg adjusted p-values, in the order given. */
+export function benjaminiHochberg(pValues: number[]): number[] {
+  const order = pValues.map((_, i) => i).sort((a, b) => pValues[b] - pValues[a]);
+  const adjusted = new Array<number>(pValues.length);
+  let running = 1;
+  order.forEach((index, rank) => {
+    running = Math.min(running, (pValues[index] * pValues.length) / (pValues.length - rank));
+    adjusted[index] = running;
+  });
+  return adjusted;
+}
+
+/** Median-of-ratios size factor of each sample, or library-size factors when no gene is counted in every sample. */
+export function sizeFactors(counts: number[][], sampleCount: number): { factors: number[]; warning?: string } {
+  const complete = counts.filter((row) => row.every((value) => value > 0));
+  if (complete.length > 0) {
+    const logRows = complete.map((row) => row.map(Math.log));
+    const logGeoMeans = logRows.map(mean);
+    const factors = Array.from({ length: sampleCount }, (_, s) =>
+      Math.exp(median(logRows.map((row, g) => row[s] - logGeoMeans[g]))),
+    );
+    return { factors };
+  }
+
+  const totals = Array.from({ length: sampleCount }, (_, s) => counts.reduce((sum, row) => sum + row[s], 0));
+  if (totals.some((total) => total === 0)) throw new Error('Every sample needs at least one counted gene.');
+  const logGeoMean = mean(totals.map(Math.log));
+  return {
+    factors: totals.map((total) => Math.exp(Math.log(total) - logGeoMean)),
+    warning: 'No gene is counted in every sample; counts were normalised by library size.',
+  };
+}
+
+/** Compares two conditions of a count matrix; throws when either has fewer than two samples. */
+export function differentialExpression(
+  matrix: CountMatrix,
+  options: DifferentialExpressionOptions,
+): DifferentialExpressionResult {
+  const { conditions, reference, treatment, minMeanCount = ANALYSIS_CONFIG.DE_MIN_MEAN_COUNT } = options;
+  if (reference === treatment) throw new Error('Choose two different conditions to compare.');
+  const columnsOf = (condition: string) =>
+    matrix.samples.map((sample, i) => [sample, i] as const).filter(([sample]) => conditions[sample] === condition);
+  const referenceColumns = columnsOf(reference);
+  const treatmentColumns = columnsOf(treatment);
+  for (const [condition, columns] of [[reference, referenceColumns], [treatment, treatmentColumns]] as const) {
+    if (columns.length < 2) throw new Error(`Condition "${condition}" needs at least two samples; it has ${columns.length}.`);
+  }
+
+  const columns = [...referenceColumns, ...treatmentColumns].map(([, i]) => i);
+  const counts = matrix.counts.map((row) => columns.map((i) => row[i] ?? 0));
+  const warnings: string[] = [];
+  const { factors, warning } = sizeFactors(counts, columns.length);
+  if (warning) warnings.push(warning);
+
+  const split = referenceColumns.length;
+  const tested: Omit<DifferentialExpressionGene, 'padj'>[] = [];
+  let filteredCount = 0;
+  counts.forEach((row, g) => {
+    const normalized = row.map((value, s) => value / factors[s]);
+    const baseMean = mean(normalized);
+    if (baseMean < minMeanCount) {
+      filteredCount++;
+      return;
+    }
+    const referenceValues = normalized.slice(0, split);
+    const treatmentValues = normalized.slice(split);
+    const log = (values: number[]) => values.map((value) => Math.log2(value + 1));
+    tested.push({
+      gene: matrix.genes[g],
+      symbol: matrix.symbols[g] ?? '',
+      baseMean,
+      log2FoldChange: Math.log2((mean(treatmentValues) + 1) / (mean(referenceValues) + 1)),
+      pValue: welchTTest(log(treatmentValues), log(referenceValues)),
+    });
+  });
+  if (tested.length === 0) warnings.push(`No gene reaches a mean normalised count of ${minMeanCount}.`);
+
+  const padj = benjaminiHochberg(tested.map((gene) => gene.pValue));
+  const genes = tested
+    .map((gene, i) => ({ ...gene, padj: padj[i] }))
+    .sort((a, b) => a.padj - b.padj || a.pValue - b.pValue);
+
+  return {
+    reference,
+    treatment,
+    referenceSamples: referenceColumns.map(([sample]) => sample),
+    treatmentSamples: treatmentColumns.map(([sample]) => sample),
+    sizeFactors: Object.fromEntries(columns.map((i, s) => [matrix.samples[i], factors[s]])),
+    genes,
+    filteredCount,
+    warnings,
+  };
+}
+
+export function differentialExpressionToCsv(result: DifferentialExpressionResult): string {
+  const rows = result.genes.map((gene) =>
+    [csvField(gene.gene), csvField(gene.symbol), gene.baseMean.toFixed(2), gene.log2FoldChange.toFixed(4), gene.pValue.toExponential(3), gene.padj.toExponential(3)].join(','),
+  );
+  return ['gene_id,gene_symbol,base_mean,log2_fold_change,p_value,padj', ...rows].join('\n');
+}
+
+// Diverging scale: down-regulated (blue) through unchanged (light grey) to up-regulated (red)
+const DOWN_COLOR = [37, 99, 235];
+const MID_COLOR = [241, 245, 249];
+const UP_COLOR = [220, 38, 38];
+
+/** Colour of a log2 fold change; values beyond ±`maxAbs` take the end colours. */
+export function foldChangeColor(log2FoldChange: number, maxAbs = 2): string {
+  const fraction = Math.max(-1, Math.min(1, log2FoldChange / maxAbs));
+  const end = fraction < 0 ? DOWN_COLOR : UP_COLOR;
+  return `rgb(${MID_COLOR.map((mid, i) => Math.round(mid + (end[i] - mid) * Math.abs(fraction))).join(',')})`;
+}
+
+/** Overlay colour of each node whose gene was tested, matched by symbol then gene id; a node keeps its most significant gene. */
+export function foldChangeNodeColors(
+  network: NetworkData,
+  result: DifferentialExpressionResult,
+  maxAbs = 2,
+): Record<string, string> {
+  const index = nodeGeneIndex(network);
+  const colors: Record<string, string> = {};
+  for (const gene of result.genes) {
+    const node = index.get(gene.symbol.toLowerCase()) ?? index.get(gene.gene.toLowerCase());
+    if (node && !(node in colors)) colors[node] = foldChangeColor(gene.log2FoldChange, maxAbs);
+  }
+  return colors;
+}
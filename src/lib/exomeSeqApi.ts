@@ -0,0 +1,292 @@
+/**
+ * Exome-seq Microservice API Client
+ *
+ * Handles communication with the exome variant-calling microservice for:
+ * - Job submission with tumour FASTQ, reference genome, and exome target files
+ * - Status polling during analysis
+ * - Results retrieval when complete, normalised to one variant format
+ */
+
+import type { JobState } from './rnaseqApi';
+
+// Default to localhost in development - should be configured via env variable in production
+const API_URL = import.meta.env.VITE_EXOME_API_URL || 'http://localhost:8001';
+
+export interface ExomeSeqJobSubmitResponse {
+  job_id: string;
+  status_url: string;
+  results_url: string;
+}
+
+export interface ExomeSeqJobStatus {
+  job_id: string;
+  state: JobState;
+  progress_percent: number;
+  current_stage: string;
+  started_at?: string;
+  completed_at?: string;
+  error_message?: string;
+}
+
+/** Raw variant record; field names differ between callers and annotators */
+export type RawVariant = Record<string, unknown>;
+
+/** Raw API response - flexible to handle various variant caller and annotator formats */
+export interface RawExomeSeqResults {
+  job_id?: string;
+  jobId?: string;
+  sample_name?: string;
+  sampleName?: string;
+  sample?: string;
+  variants?: RawVariant[];
+  mutations?: RawVariant[];
+  results?: RawVariant[];
+  variant_count?: number;
+  variantCount?: number;
+  total_variants?: number;
+  mean_target_coverage?: number;
+  meanTargetCoverage?: number;
+  mean_coverage?: number;
+  completed_at?: string;
+  completedAt?: string;
+  timestamp?: string;
+}
+
+export interface NormalizedVariant {
+  gene: string;
+  chromosome: string;
+  position: number | null;
+  ref: string;
+  alt: string;
+  /** Coding change, e.g. "c.35G>A" */
+  hgvs_c: string;
+  /** Protein change, e.g. "p.G12D" */
+  hgvs_p: string;
+  /** Variant allele frequency in the tumour, 0–1 */
+  vaf: number | null;
+  /** Annotated consequence, e.g. "missense_variant" (VEP) or "Missense_Mutation" (MAF) */
+  consequence: string;
+  depth: number | null;
+}
+
+export interface ExomeSeqResults {
+  job_id: string;
+  sample_name: string;
+  variants: NormalizedVariant[];
+  variant_count: number;
+  mean_target_coverage: number | null;
+  completed_at: string;
+}
+
+// First field present under any of the given names
+const pick = (raw: RawVariant, keys: string[]) =>
+  keys.map(key => raw[key]).find(value => value !== undefined && value !== null && value !== '');
+
+const text = (raw: RawVariant, keys: string[]) => String(pick(raw, keys) ?? '');
+
+const numeric = (raw: RawVariant, keys: string[]): number | null => {
+  const value = pick(raw, keys);
+  return value !== undefined && Number.isFinite(Number(value)) ? Number(value) : null;
+};
+
+/**
+ * Normalize a variant object from various API formats (VCF-like, VEP, MAF) to our standard format
+ */
+export function normalizeVariant(raw: RawVariant): NormalizedVariant {
+  const altCount = numeric(raw, ['t_alt_count', 'alt_depth', 'alt_count']);
+  const refCount = numeric(raw, ['t_ref_count', 'ref_depth', 'ref_count']);
+  const depth = numeric(raw, ['depth', 'DP', 't_depth']) ?? (altCount !== null && refCount !== null ? altCount + refCount : null);
+  // Fall back to read counts when the caller reports no allele frequency
+  const vaf = numeric(raw, ['vaf', 'VAF', 'AF', 'allele_frequency', 'tumor_f'])
+    ?? (altCount !== null && depth ? altCount / depth : null);
+
+  return {
+    gene: text(raw, ['gene', 'gene_symbol', 'Hugo_Symbol', 'SYMBOL', 'symbol']),
+    chromosome: text(raw, ['chromosome', 'chrom', 'CHROM', 'Chromosome']),
+    position: numeric(raw, ['position', 'pos', 'POS', 'Start_Position']),
+    ref: text(raw, ['ref', 'REF', 'Reference_Allele']),
+    alt: text(raw, ['alt', 'ALT', 'Tumor_Seq_Allele2']),
+    hgvs_c: text(raw, ['hgvs_c', 'hgvsc', 'HGVSc']),
+    hgvs_p: text(raw, ['hgvs_p', 'hgvsp', 'HGVSp_Short', 'HGVSp']),
+    vaf,
+    consequence: text(raw, ['consequence', 'Consequence', 'Variant_Classification', 'effect']),
+    depth,
+  };
+}
+
+/**
+ * Normalize API response from various formats to our standard format
+ */
+export function normalizeExomeSeqResults(raw: RawExomeSeqResults): ExomeSeqResults {
+  const rawVariants = raw.variants ?? raw.mutations ?? raw.results ?? [];
+  const variants = Array.isArray(rawVariants) ? rawVariants.map(normalizeVariant) : [];
+
+  return {
+    job_id: raw.job_id ?? raw.jobId ?? '',
+    sample_name: raw.sample_name ?? raw.sampleName ?? raw.sample ?? 'Unknown',
+    variants,
+    variant_count: raw.variant_count ?? raw.variantCount ?? raw.total_variants ?? variants.length,
+    mean_target_coverage: raw.mean_target_coverage ?? raw.meanTargetCoverage ?? raw.mean_coverage ?? null,
+    completed_at: raw.completed_at ?? raw.completedAt ?? raw.timestamp ?? new Date().toISOString(),
+  };
+}
+
+export class ExomeSeqApiError extends Error {
+  statusCode?: number;
+  details?: unknown;
+
+  constructor(
+    message: string,
+    statusCode?: number,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = 'ExomeSeqApiError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+/**
+ * Submit an Exome-seq variant-calling job to the microservice
+ *
+ * @param formData - FormData containing:
+ *   - tumor_fastq_1: Tumour forward reads (R1) .fastq.gz file (required)
+ *   - tumor_fastq_2: Tumour reverse reads (R2) .fastq.gz file (required)
+ *   - reference: Reference genome .fa.gz file (required)
+ *   - targets: Exome capture regions .bed or .bed.gz file (required)
+ *   - sample_name: Optional sample identifier
+ */
+export async function submitExomeSeqAnalysis(formData: FormData): Promise<ExomeSeqJobSubmitResponse> {
+  const response = await fetch(`${API_URL}/analyze`, {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ExomeSeqApiError(
+      `Failed to submit analysis: ${errorText}`,
+      response.status
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Check the status of an Exome-seq analysis job
+ *
+ * @param jobId - The job ID returned from submitExomeSeqAnalysis
+ */
+export async function checkExomeSeqStatus(jobId: string): Promise<ExomeSeqJobStatus> {
+  const response = await fetch(`${API_URL}/status/${jobId}`);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ExomeSeqApiError(
+      `Failed to check status: ${errorText}`,
+      response.status
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Get the variants of a completed Exome-seq analysis job
+ *
+ * @param jobId - The job ID returned from submitExomeSeqAnalysis
+ */
+export async function getExomeSeqResults(jobId: string): Promise<ExomeSeqResults> {
+  const response = await fetch(`${API_URL}/results/${jobId}`);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ExomeSeqApiError(
+      `Failed to get results: ${errorText}`,
+      response.status
+    );
+  }
+
+  return normalizeExomeSeqResults(await response.json());
+}
+
+/**
+ * Poll for job completion with automatic retry
+ *
+ * @param jobId - The job ID to poll
+ * @param onProgress - Callback for progress updates
+ * @param pollInterval - Interval between polls in ms (default: 30000)
+ * @param maxAttempts - Maximum polling attempts (default: 480 = 4 hours at 30s intervals)
+ */
+export async function pollExomeSeqUntilComplete(
+  jobId: string,
+  onProgress?: (status: ExomeSeqJobStatus) => void,
+  pollInterval = 30000,
+  maxAttempts = 480
+): Promise<ExomeSeqResults> {
+  let attempts = 0;
+
+  while (attempts < maxAttempts) {
+    const status = await checkExomeSeqStatus(jobId);
+    onProgress?.(status);
+
+    if (status.state === 'completed') {
+      return getExomeSeqResults(jobId);
+    }
+
+    if (status.state === 'failed') {
+      throw new ExomeSeqApiError(
+        `Analysis failed: ${status.error_message || 'Unknown error'}`,
+        undefined,
+        status
+      );
+    }
+
+    await new Promise(resolve => setTimeout(resolve, pollInterval));
+    attempts++;
+  }
+
+  throw new ExomeSeqApiError(
+    `Analysis timed out after ${maxAttempts * pollInterval / 1000 / 60} minutes`
+  );
+}
+
+/**
+ * Validate file extensions before upload
+ */
+export function validateExomeSeqFiles(files: {
+  tumorFastq1?: File | null;
+  tumorFastq2?: File | null;
+  reference?: File | null;
+  targets?: File | null;
+}): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!files.tumorFastq1) {
+    errors.push('Tumor forward reads (R1) file is required');
+  } else if (!files.tumorFastq1.name.match(/\.(fastq|fq)\.gz$/i)) {
+    errors.push('Tumor forward reads must be a .fastq.gz or .fq.gz file');
+  }
+
+  if (!files.tumorFastq2) {
+    errors.push('Tumor reverse reads (R2) file is required');
+  } else if (!files.tumorFastq2.name.match(/\.(fastq|fq)\.gz$/i)) {
+    errors.push('Tumor reverse reads must be a .fastq.gz or .fq.gz file');
+  }
+
+  if (!files.reference) {
+    errors.push('Reference genome file is required');
+  } else if (!files.reference.name.match(/\.(fa|fasta)\.gz$/i)) {
+    errors.push('Reference genome must be a .fa.gz or .fasta.gz file');
+  }
+
+  if (!files.targets) {
+    errors.push('Exome target regions file is required');
+  } else if (!files.targets.name.match(/\.bed(\.gz)?$/i)) {
+    errors.push('Exome targets must be a .bed or .bed.gz file');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
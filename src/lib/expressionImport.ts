@@ -0,0 +1,227 @@
+/**
+ * Import of precomputed expression tables as RNA-seq results.
+ *
+ * Collaborators often send quantified expression rather than reads. Four
+ * layouts are read into one `RNASeqResults` per sample, the same shape a
+ * finished `rnaseqApi` job returns:
+ * - featureCounts output (`Geneid Chr Start End Strand Length <bam>...`), counts;
+ * - Salmon `quant.sf` (`Name Length EffectiveLength TPM NumReads`), counts and TPM;
+ * - a single-sample gene table with named value columns (counts, TPM, FPKM...),
+ *   read through the `normalizeGene` field-name heuristics;
+ * - a genes × samples matrix, whose values are counts or TPM as the caller says.
+ * Identifiers are resolved to an Ensembl gene id and a symbol: versions are
+ * dropped, GENCODE `|`-joined names are split, and an optional mapping table
+ * (e.g. a BioMart export or a tx2gene file) fills in missing symbols and folds
+ * transcripts into their genes. Rows resolving to the same gene are summed.
+ */
+
+import { normalizeGene, type NormalizedGene, type RNASeqResults } from './rnaseqApi';
+import {
+  COUNT_COLUMNS,
+  GENE_ID_COLUMNS,
+  MATRIX_ID_COLUMNS,
+  SYMBOL_COLUMNS,
+  TRANSCRIPT_COLUMNS,
+  columnOf,
+  parseTable,
+} from './tableColumns';
+
+export type ExpressionValueType = 'counts' | 'tpm';
+export type ExpressionFileFormat = 'featurecounts' | 'salmon' | 'gene-table' | 'matrix';
+
+export interface ImportedExpression {
+  format: ExpressionFileFormat;
+  /** Whether the values are raw counts (usable for differential expression) or TPM only. */
+  valueType: ExpressionValueType;
+  samples: RNASeqResults[];
+  warnings: string[];
+}
+
+/** Gene id and symbol of each known transcript id, gene id and symbol, keyed in lower case without versions. */
+export type GeneMapping = Map<string, { gene_id: string; gene_symbol: string }>;
+
+const VALUE_COLUMNS = [...COUNT_COLUMNS, 'tpm', 'fpkm'];
+const FEATURECOUNTS_ANNOTATION = ['geneid', 'chr', 'start', 'end', 'strand', 'length'];
+
+const ENSEMBL_GENE = /^ENS[A-Z]*G\d+/i;
+const ENSEMBL_TRANSCRIPT = /^ENS[A-Z]*T\d+/i;
+
+/** Ensembl id without its version suffix; other identifiers are returned as they are. */
+export const stripVersion = (id: string) => id.replace(/^(ENS[A-Z]*[GT]\d+)\.\d+/i, '$1');
+
+/** Mapping from a table with a gene id and/or transcript id column and a symbol column. */
+export function parseGeneMapping(text: string): GeneMapping {
+  const { header, rows } = parseTable(text);
+  const transcript = columnOf(header, TRANSCRIPT_COLUMNS);
+  const geneId = columnOf(header, GENE_ID_COLUMNS);
+  const symbol = columnOf(header, SYMBOL_COLUMNS);
+  if (geneId < 0 || (symbol < 0 && transcript < 0)) {
+    throw new Error('A gene mapping needs a gene id column and a gene name or transcript id column.');
+  }
+
+  const mapping: GeneMapping = new Map();
+  for (const row of rows) {
+    const entry = { gene_id: stripVersion(row[geneId] ?? ''), gene_symbol: symbol >= 0 ? row[symbol] ?? '' : '' };
+    if (!entry.gene_id) continue;
+    for (const key of [entry.gene_id, transcript >= 0 ? stripVersion(row[transcript] ?? '') : '', entry.gene_symbol]) {
+      if (key && !mapping.has(key.toLowerCase())) mapping.set(key.toLowerCase(), entry);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Gene id and symbol of one identifier (and the symbol column beside it, if
+ * any). Transcripts resolve to their gene only through the mapping; without it
+ * they keep their transcript id.
+ */
+export function resolveGene(identifier: string, symbolHint = '', mapping?: GeneMapping): { gene_id: string; gene_symbol: string } {
+  const parts = identifier.split('|').map((part) => part.trim()).filter(Boolean);
+  let id = stripVersion(parts.find((part) => ENSEMBL_GENE.test(part)) ?? parts.find((part) => ENSEMBL_TRANSCRIPT.test(part)) ?? '');
+  // GENCODE names also carry HAVANA ids, the transcript name, its length and biotype
+  let symbol = symbolHint || (parts.find((part) =>
+    !/^(ENS|OTTHUM)/i.test(part) && !/^\d+$/.test(part) && !/-\d{3}$/.test(part) && !/^[a-z_]+$/.test(part)) ?? '');
+  if (!id && !symbol) symbol = identifier;
+
+  const mapped = mapping?.get((id || symbol).toLowerCase());
+  if (mapped) {
+    id = mapped.gene_id;
+    symbol = symbol || mapped.gene_symbol;
+  }
+  return { gene_id: id, gene_symbol: symbol };
+}
+
+/** Genes of one sample with resolved identifiers; genes resolving to the same id (or symbol) are summed. */
+function resolveGenes(genes: NormalizedGene[], mapping?: GeneMapping): NormalizedGene[] {
+  const byKey = new Map<string, NormalizedGene>();
+  for (const gene of genes) {
+    // Without an id column the symbol column may hold Ensembl ids (Salmon's "Name")
+    const identifier = gene.gene_id || gene.gene_symbol;
+    if (!identifier) continue;
+    const resolved = resolveGene(identifier, gene.gene_id ? gene.gene_symbol : '', mapping);
+    const key = (resolved.gene_id || resolved.gene_symbol).toLowerCase();
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { ...gene, ...resolved });
+      continue;
+    }
+    const add = (a: number | null, b: number | null) => (a === null && b === null ? null : (a ?? 0) + (b ?? 0));
+    byKey.set(key, {
+      ...existing,
+      gene_symbol: existing.gene_symbol || resolved.gene_symbol,
+      counts: existing.counts + gene.counts,
+      tpm: add(existing.tpm, gene.tpm),
+      fpkm: add(existing.fpkm, gene.fpkm),
+    });
+  }
+  return Array.from(byKey.values());
+}
+
+const toNumber = (value: unknown): number | null => {
+  const number = Number(value);
+  return value === undefined || value === null || value === '' || !Number.isFinite(number) ? null : number;
+};
+
+/** Sample name of a file or BAM column: the last path part without sequencing-file extensions. */
+export function sampleNameOf(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? name;
+  return base.replace(/(\.Aligned\.sortedByCoord\.out)?\.(bam|sam|sf|tsv|txt|csv|tabular)$/i, '').replace(/\.(sorted|dedup)$/i, '') || base;
+}
+
+function sampleResults(name: string, genes: NormalizedGene[], importedAt: string): RNASeqResults {
+  return {
+    job_id: '',
+    sample_name: name,
+    genes,
+    gene_count: genes.length,
+    total_counts: genes.reduce((sum, gene) => sum + gene.counts, 0),
+    mapping_rate: null,
+    completed_at: importedAt,
+  };
+}
+
+/**
+ * Samples of an expression file. `valueType` says what the values of a plain
+ * genes × samples matrix are; the other layouts name their value columns.
+ */
+export function parseExpressionFile(
+  text: string,
+  fileName: string,
+  options: { valueType?: ExpressionValueType; mapping?: GeneMapping } = {},
+): ImportedExpression {
+  const { valueType = 'counts', mapping } = options;
+  const { header, rows } = parseTable(text);
+  if (rows.length === 0) throw new Error('The file has no gene rows.');
+  const importedAt = new Date().toISOString();
+  const warnings: string[] = [];
+  // parseTable lower-cases the header; sample names keep their case
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim() !== '' && !line.startsWith('#')) ?? '';
+  const columnNames = firstLine.split(firstLine.includes('\t') ? '\t' : ',').map((name) => name.trim());
+
+  let format: ExpressionFileFormat;
+  let fileValueType: ExpressionValueType = valueType;
+  let samples: Array<{ name: string; genes: NormalizedGene[] }>;
+
+  if (FEATURECOUNTS_ANNOTATION.every((name, i) => header[i] === name)) {
+    format = 'featurecounts';
+    fileValueType = 'counts';
+    samples = columnNames.slice(FEATURECOUNTS_ANNOTATION.length).map((column, offset) => {
+      const i = FEATURECOUNTS_ANNOTATION.length + offset;
+      return {
+        name: sampleNameOf(column),
+        genes: rows.map((row) => ({ gene_id: row[0] ?? '', gene_symbol: '', counts: toNumber(row[i]) ?? 0, tpm: null, fpkm: null })),
+      };
+    });
+    if (samples.length === 0) throw new Error('The featureCounts table has no sample columns.');
+  } else if (VALUE_COLUMNS.some((name) => header.includes(name))) {
+    format = header.includes('numreads') && header.includes('name') ? 'salmon' : 'gene-table';
+    fileValueType = COUNT_COLUMNS.some((name) => header.includes(name)) ? 'counts' : 'tpm';
+    const genes = rows.map((row) => {
+      const gene = normalizeGene(Object.fromEntries(header.map((name, i) => [name, row[i]])));
+      return {
+        gene_id: String(gene.gene_id),
+        gene_symbol: String(gene.gene_symbol),
+        counts: toNumber(gene.counts) ?? 0,
+        tpm: toNumber(gene.tpm),
+        fpkm: toNumber(gene.fpkm),
+      };
+    });
+    samples = [{ name: sampleNameOf(fileName), genes }];
+  } else {
+    format = 'matrix';
+    const idColumn = Math.max(columnOf(header, MATRIX_ID_COLUMNS), 0);
+    const symbolColumn = columnOf(header, SYMBOL_COLUMNS.filter((name) => name !== header[idColumn]));
+    const sampleColumns = header
+      .map((_, i) => i)
+      .filter((i) => i !== idColumn && i !== symbolColumn && rows.every((row) => row[i] === undefined || row[i] === '' || toNumber(row[i]) !== null));
+    if (sampleColumns.length === 0) throw new Error('No sample columns found; expected numeric columns beside the gene column.');
+    samples = sampleColumns.map((i) => ({
+      name: columnNames[i] ? sampleNameOf(columnNames[i]) : `sample_${i}`,
+      genes: rows.map((row) => {
+        const value = toNumber(row[i]) ?? 0;
+        return {
+          gene_id: row[idColumn] ?? '',
+          gene_symbol: symbolColumn >= 0 ? row[symbolColumn] ?? '' : '',
+          counts: valueType === 'counts' ? value : 0,
+          tpm: valueType === 'tpm' ? value : null,
+          fpkm: null,
+        };
+      }),
+    }));
+    if (valueType === 'counts' && samples.some(({ genes }) => genes.some((gene) => !Number.isInteger(gene.counts)))) {
+      warnings.push('Some counts are not whole numbers; if the matrix holds TPM or normalised values, import it as TPM.');
+    }
+  }
+
+  const resolved = samples.map(({ name, genes }) => sampleResults(name, resolveGenes(genes, mapping), importedAt));
+  const first = resolved[0].genes;
+  const transcripts = first.filter((gene) => ENSEMBL_TRANSCRIPT.test(gene.gene_id)).length;
+  if (transcripts > 0) {
+    warnings.push(`${transcripts} transcript${transcripts !== 1 ? 's were' : ' was'} not folded into genes; add a tx2gene mapping to match them to network nodes.`);
+  }
+  const withoutSymbol = first.filter((gene) => !gene.gene_symbol).length;
+  if (withoutSymbol > 0 && withoutSymbol === first.length) {
+    warnings.push('No gene symbols were found; add a gene mapping so that genes match network nodes by name.');
+  }
+  return { format, valueType: fileValueType, samples: resolved, warnings };
+}
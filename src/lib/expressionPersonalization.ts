@@ -0,0 +1,196 @@
+/**
+ * Expression-driven network personalisation.
+ *
+ * Places a patient's per-gene expression against a cohort reference and turns
+ * it into node activity for the continuous engines. Values are compared on a
+ * log2(value + 1) scale, either as a z-score against the cohort mean and
+ * standard deviation or as a percentile within the cohort, and mapped to an
+ * activity level between 0 and 1 (the percentile, or the normal CDF of the
+ * z-score). A node at level `a` then gets:
+ * - `metadata.initialProbabilities[node] = a` (probabilistic engine start state);
+ * - `metadata.basalActivity[node]` and `properties.bias` shifted by
+ *   `EXPRESSION_ACTIVITY_GAIN × (2a − 1)`: probabilistic and weighted inputs
+ *   rise for genes above the cohort median and fall for genes below it.
+ * References are built from a genes × samples cohort matrix and kept in
+ * localStorage per cohort, so they only need uploading once per browser.
+ */
+
+import type {
+  ExpressionNormalization,
+  ExpressionReference,
+  NodeExpressionLevel,
+  NodeExpressionLevels,
+  ReferenceGeneStats,
+} from './analysis/types';
+import type { NetworkData } from '@/types/network';
+import type { RNASeqResults } from './rnaseqApi';
+import { nodeGeneIndex, parseExpressionMatrix } from './patientProfile';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+
+const STORAGE_PREFIX = 'expression_reference_';
+
+const log2p = (value: number) => Math.log2(Math.max(value, 0) + 1);
+
+// Abramowitz–Stegun 7.1.26; absolute error below 1.5e-7
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Cohort statistics of one gene; quantiles are taken by linear interpolation between sorted samples. */
+function geneStats(values: number[], steps: number): ReferenceGeneStats {
+  const sorted = values.map(log2p).sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (sorted.length - 1);
+  const quantiles = Array.from({ length: steps + 1 }, (_, i) => {
+    const position = (i / steps) * (sorted.length - 1);
+    const low = Math.floor(position);
+    const high = Math.min(low + 1, sorted.length - 1);
+    return sorted[low] + (sorted[high] - sorted[low]) * (position - low);
+  });
+  return { mean, sd: Math.sqrt(variance), quantiles };
+}
+
+/** Reference from a gene → cohort values record; genes measured in fewer than two samples are dropped. */
+export function buildExpressionReference(
+  matrix: Record<string, number[]>,
+  cohort: string,
+  source: string,
+  steps: number = ANALYSIS_CONFIG.EXPRESSION_REFERENCE_QUANTILE_STEPS,
+): ExpressionReference {
+  const genes: Record<string, ReferenceGeneStats> = {};
+  let sampleCount = 0;
+  for (const [gene, values] of Object.entries(matrix)) {
+    if (values.length < 2) continue;
+    genes[gene.toLowerCase()] = geneStats(values, steps);
+    sampleCount = Math.max(sampleCount, values.length);
+  }
+  if (sampleCount === 0) throw new Error('A cohort reference needs at least two samples per gene.');
+  return { cohort, source, sampleCount, genes };
+}
+
+/** Reference from a genes × samples cohort table (tab- or comma-separated). */
+export function parseExpressionReference(text: string, cohort: string, source: string): ExpressionReference {
+  return buildExpressionReference(parseExpressionMatrix(text), cohort, source);
+}
+
+/** z-score or percentile (0–1) of one value in the cohort, and the activity level it maps to. */
+export function expressionScore(
+  value: number,
+  stats: ReferenceGeneStats,
+  normalization: ExpressionNormalization,
+): { score: number; level: number } {
+  const logged = log2p(value);
+  if (normalization === 'z-score') {
+    const score = stats.sd > 0 ? (logged - stats.mean) / stats.sd : 0;
+    return { score, level: normalCdf(score) };
+  }
+
+  const { quantiles } = stats;
+  const steps = quantiles.length - 1;
+  let score: number;
+  if (logged < quantiles[0]) score = 0;
+  else if (logged > quantiles[steps]) score = 1;
+  // A cohort without spread puts its own value at the median
+  else if (quantiles[0] === quantiles[steps]) score = 0.5;
+  else if (logged === quantiles[steps]) score = 1;
+  else {
+    const i = quantiles.findIndex((q) => q > logged) - 1;
+    score = (i + (logged - quantiles[i]) / (quantiles[i + 1] - quantiles[i])) / steps;
+  }
+  return { score, level: score };
+}
+
+/**
+ * Expression level of each node whose gene is in both the sample and the
+ * reference. Genes are matched to node ids and labels case-insensitively; a
+ * node matched by several genes keeps the first.
+ */
+export function nodeExpressionLevels(
+  network: NetworkData,
+  expression: Record<string, number>,
+  reference: ExpressionReference,
+  normalization: ExpressionNormalization,
+): NodeExpressionLevels {
+  const index = nodeGeneIndex(network);
+  const byNode = new Map<string, NodeExpressionLevel>();
+  for (const [gene, value] of Object.entries(expression)) {
+    const node = index.get(gene.toLowerCase());
+    const stats = reference.genes[gene.toLowerCase()];
+    if (!node || !stats || byNode.has(node)) continue;
+    byNode.set(node, { node, gene, value, ...expressionScore(value, stats, normalization) });
+  }
+
+  const levels: NodeExpressionLevel[] = [];
+  const unmatchedNodes: string[] = [];
+  for (const node of network.nodes) {
+    const level = byNode.get(String(node.id));
+    if (level) levels.push(level);
+    else unmatchedNodes.push(String(node.id));
+  }
+  return { levels, unmatchedNodes };
+}
+
+/**
+ * Copy of the network with the levels written as initial probabilities, basal
+ * activity and node biases; unmatched nodes keep their settings.
+ */
+export function personalizeNetworkWithExpression(
+  network: NetworkData,
+  levels: NodeExpressionLevel[],
+  gain: number = ANALYSIS_CONFIG.EXPRESSION_ACTIVITY_GAIN,
+): NetworkData {
+  const shift = new Map(levels.map(({ node, level }) => [node, gain * (2 * level - 1)]));
+  const numericRecord = (value: unknown): Record<string, number> =>
+    value && typeof value === 'object' ? { ...(value as Record<string, number>) } : {};
+  const initialProbabilities = numericRecord(network.metadata?.initialProbabilities);
+  const basalActivity = numericRecord(network.metadata?.basalActivity);
+  for (const { node, level } of levels) {
+    initialProbabilities[node] = level;
+    basalActivity[node] = shift.get(node)!;
+  }
+
+  return {
+    ...network,
+    nodes: network.nodes.map((node) => {
+      const delta = shift.get(String(node.id));
+      if (delta === undefined) return node;
+      const bias = Number(node.properties?.bias ?? 0);
+      return { ...node, properties: { ...(node.properties || {}), bias: bias + delta } };
+    }),
+    metadata: { ...network.metadata, initialProbabilities, basalActivity },
+  };
+}
+
+/** Per-gene expression of RNA-seq results: TPM when reported, else raw counts. */
+export function rnaSeqExpression(results: RNASeqResults): Record<string, number> {
+  const expression: Record<string, number> = {};
+  for (const gene of results.genes) {
+    const name = gene.gene_symbol || gene.gene_id;
+    if (name) expression[name] = gene.tpm ?? gene.counts;
+  }
+  return expression;
+}
+
+/** The stored reference of a cohort, if one was uploaded in this browser. */
+export function loadExpressionReference(cohort: string): ExpressionReference | null {
+  try {
+    if (typeof window === 'undefined') return null;
+    const raw = localStorage.getItem(`${STORAGE_PREFIX}${cohort}`);
+    return raw ? (JSON.parse(raw) as ExpressionReference) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveExpressionReference(reference: ExpressionReference): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(`${STORAGE_PREFIX}${reference.cohort}`, JSON.stringify(reference));
+  } catch {
+    throw new Error(`The ${reference.cohort} reference is too large to store in this browser; keep only the genes you need.`);
+  }
+}
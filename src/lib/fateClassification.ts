@@ -0,0 +1,129 @@
+/**
+ * Automatic cell-fate classification from marker rules.
+ *
+ * A project keeps a library of fate definitions such as
+ * "Apoptosis = Casp3 ON & Bcl2 OFF". Every attractor of a run is scored
+ * against each definition: the share of its marker conditions that hold,
+ * averaged over the attractor's states, so a cycle that satisfies the markers
+ * only part of the time scores lower. Definitions scoring at least
+ * `ANALYSIS_CONFIG.FATE_RULE_MIN_CONFIDENCE` apply; attractors with no
+ * applicable definition, or with several, are flagged.
+ */
+
+import type { DeterministicAnalysisResult } from './analysis/types';
+import type { CellFate, FateCondition, FateDefinition } from '@/types/network';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+
+export interface FateCandidate {
+  definitionId: string;
+  /** Share of marker conditions met, averaged over the attractor's states (0..1). */
+  confidence: number;
+}
+
+export interface AttractorFateCall {
+  attractorId: number;
+  /** "matched": exactly one definition applies; "ambiguous": several do; "unmatched": none does. */
+  status: 'matched' | 'ambiguous' | 'unmatched';
+  /** Best applicable definition (the most confident one when ambiguous). */
+  definitionId: string | null;
+  confidence: number;
+  /** Applicable definitions, most confident first. */
+  candidates: FateCandidate[];
+}
+
+export interface FateClassificationResult {
+  calls: AttractorFateCall[];
+  /** Marker nodes that are not in the analysed network (counted as unmet). */
+  warnings: string[];
+}
+
+// "Casp3 ON", "Casp3=1", "!Bcl2", "Bcl2 OFF", "Bcl2 = 0", or a bare node name for ON
+const CONDITION_PATTERN = /^(!?)\s*([A-Za-z_][\w.-]*)\s*(?:(?:=\s*)?(ON|OFF|1|0|TRUE|FALSE))?$/i;
+
+/** Parse marker conditions joined by "&", "," or "AND", e.g. "Casp3 ON & Bcl2 OFF". */
+export function parseFateConditions(text: string): { conditions: FateCondition[]; errors: string[] } {
+  const conditions: FateCondition[] = [];
+  const errors: string[] = [];
+  const parts = text.split(/\s*(?:&&?|,|\bAND\b)\s*/i).map((part) => part.trim()).filter(Boolean);
+  for (const part of parts) {
+    const match = CONDITION_PATTERN.exec(part);
+    if (!match) {
+      errors.push(`Cannot read marker condition "${part}".`);
+      continue;
+    }
+    const [, negated, node, value = 'ON'] = match;
+    const on = /^(ON|1|TRUE)$/i.test(value);
+    if (conditions.some((condition) => condition.node === node)) {
+      errors.push(`Marker "${node}" is listed twice.`);
+      continue;
+    }
+    conditions.push({ node, active: negated ? !on : on });
+  }
+  if (parts.length === 0) errors.push('A fate needs at least one marker condition.');
+  return { conditions, errors };
+}
+
+/** Conditions in the form `parseFateConditions` reads, e.g. "Casp3 ON & Bcl2 OFF". */
+export function formatFateConditions(conditions: FateCondition[]): string {
+  return conditions.map((condition) => `${condition.node} ${condition.active ? 'ON' : 'OFF'}`).join(' & ');
+}
+
+/** The saved-fate form of a definition, with the classification confidence. */
+export function definitionToCellFate(definition: FateDefinition, confidence?: number): CellFate {
+  return {
+    name: definition.name,
+    color: definition.color,
+    markers: definition.conditions.map((condition) => condition.node),
+    ...(confidence !== undefined && { confidence }),
+    ...(definition.description && { description: definition.description }),
+  };
+}
+
+/** Classify every attractor of a run against the project's fate definitions. */
+export function classifyAttractors(
+  result: Pick<DeterministicAnalysisResult, 'nodeOrder' | 'nodeLabels' | 'attractors'>,
+  definitions: FateDefinition[],
+  minConfidence: number = ANALYSIS_CONFIG.FATE_RULE_MIN_CONFIDENCE,
+): FateClassificationResult {
+  // Markers name nodes by id or, case-insensitively, by label
+  const indexByName = new Map<string, number>();
+  result.nodeOrder.forEach((id, i) => {
+    const label = result.nodeLabels[id];
+    if (label) indexByName.set(label.toLowerCase(), i);
+  });
+  result.nodeOrder.forEach((id, i) => indexByName.set(id.toLowerCase(), i));
+
+  const warnings: string[] = [];
+  const resolved = definitions.map((definition) =>
+    definition.conditions.map((condition) => {
+      const index = indexByName.get(condition.node.toLowerCase());
+      if (index === undefined) warnings.push(`${definition.name}: marker "${condition.node}" is not in this network.`);
+      return { index, value: condition.active ? '1' : '0' };
+    }),
+  );
+
+  const calls = result.attractors.map((attractor): AttractorFateCall => {
+    const candidates = definitions
+      .map((definition, d) => {
+        const conditions = resolved[d];
+        const perState = attractor.states.map((state) => {
+          const met = conditions.filter(({ index, value }) => index !== undefined && state.binary[index] === value).length;
+          return conditions.length === 0 ? 0 : met / conditions.length;
+        });
+        const confidence = perState.reduce((sum, share) => sum + share, 0) / Math.max(perState.length, 1);
+        return { definitionId: definition.id, confidence };
+      })
+      .filter((candidate) => candidate.confidence >= minConfidence)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    return {
+      attractorId: attractor.id,
+      status: candidates.length === 0 ? 'unmatched' : candidates.length === 1 ? 'matched' : 'ambiguous',
+      definitionId: candidates[0]?.definitionId ?? null,
+      confidence: candidates[0]?.confidence ?? 0,
+      candidates,
+    };
+  });
+
+  return { calls, warnings };
+}
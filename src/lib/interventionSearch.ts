@@ -0,0 +1,194 @@
+/**
+ * Minimal intervention set search for rule-based networks.
+ *
+ * Given a desired phenotype (node values, e.g. the markers of a fate), single,
+ * double and triple node knock-outs and knock-ins are applied as
+ * `TherapeuticIntervention`s through `applyTherapiesToNetwork`, the rules are
+ * reanalysed, and every set is scored by the basin share of the attractors
+ * showing the phenotype. The search grows sets one perturbation at a time:
+ * only the best sets of each size (the beam) are extended, sets that already
+ * reach the goal share are not extended (their supersets are not minimal), and
+ * the whole search stops after a budget of analyses.
+ */
+
+import type {
+  DeterministicAnalysisResult,
+  InterventionKind,
+  InterventionPerturbation,
+  InterventionSearchOptions,
+  InterventionSearchResult,
+  InterventionSetResult,
+  RuleBasedAnalysisOptions,
+} from './analysis/types';
+import type { NetworkData, TherapeuticIntervention } from '@/types/network';
+import { applyTherapiesToNetwork } from './applyTherapies';
+import { performDeterministicAnalysis } from './deterministicAnalysis';
+import { ruleStrings } from './ruleGraphSync';
+import { classifyAttractors } from './fateClassification';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+
+const perturbationKey = (p: InterventionPerturbation) => `${p.kind}:${p.node}`;
+const setKey = (set: InterventionPerturbation[]) => set.map(perturbationKey).sort().join('|');
+
+/** Readable form of an intervention set, e.g. "Bcl2 KO + Casp3 KI". */
+export function interventionSetLabel(perturbations: InterventionPerturbation[]): string {
+  return perturbations.map((p) => `${p.node} ${p.kind === 'knock-out' ? 'KO' : 'KI'}`).join(' + ');
+}
+
+/** Therapeutic interventions that force each node OFF (knock-out) or ON (knock-in). */
+export function interventionTherapies(
+  perturbations: InterventionPerturbation[],
+  timestamp = 0,
+): TherapeuticIntervention[] {
+  return perturbations.map((p) => ({
+    id: `${p.kind.replace('-', '')}-${p.node}-${timestamp}`,
+    type: p.kind,
+    nodeName: p.node,
+    nodeRule: null,
+    fixedValue: p.kind === 'knock-out' ? 0 : 1,
+    outwardRegulations: [],
+    timestamp,
+  }));
+}
+
+/**
+ * Reanalyses the rules with therapies applied and sums the basin shares of the
+ * attractors showing the target phenotype (at least `minMatch` of its values).
+ */
+export function analyseTargetShare(
+  network: NetworkData,
+  therapies: TherapeuticIntervention[],
+  target: Record<string, 0 | 1>,
+  minMatch: number,
+  analysis: Omit<RuleBasedAnalysisOptions, 'onProgress'>,
+): { result: DeterministicAnalysisResult; targetShare: number; warnings: string[] } {
+  const conditions = Object.entries(target).map(([node, value]) => ({ node, active: value === 1 }));
+  const definition = { id: 'target', name: 'Target', color: '', conditions };
+  const modified = applyTherapiesToNetwork(network, therapies);
+  const result = performDeterministicAnalysis(ruleStrings(modified.rules), analysis);
+  const { calls, warnings } = classifyAttractors(result, [definition], minMatch);
+  const targetShare = calls.reduce(
+    (sum, call, i) => sum + (call.status === 'unmatched' ? 0 : result.attractors[i].basinShare),
+    0,
+  );
+  return { result, targetShare, warnings };
+}
+
+export function performInterventionSearch(
+  network: NetworkData,
+  options: InterventionSearchOptions,
+): InterventionSearchResult {
+  const {
+    target,
+    minMatch = 1,
+    maxSize = 3,
+    kinds = ['knock-out', 'knock-in'] as InterventionKind[],
+    budget = ANALYSIS_CONFIG.INTERVENTION_SEARCH_DEFAULT_BUDGET,
+    beamWidth = ANALYSIS_CONFIG.INTERVENTION_SEARCH_DEFAULT_BEAM,
+    goalShare = 0.9,
+    analysis = {},
+    onProgress,
+  } = options;
+
+  if (Object.keys(target).length === 0) throw new Error('Intervention search needs a target phenotype.');
+  if (!Number.isInteger(maxSize) || maxSize < 1 || maxSize > 3) {
+    throw new Error('Intervention sets can hold 1 to 3 perturbations.');
+  }
+  if (!Number.isInteger(budget) || budget < 1) throw new Error('The search budget must be a positive integer.');
+  if (budget > ANALYSIS_CONFIG.MAX_INTERVENTION_SEARCH_BUDGET) {
+    throw new Error(
+      `A budget of ${budget.toLocaleString()} analyses exceeds the limit of ${ANALYSIS_CONFIG.MAX_INTERVENTION_SEARCH_BUDGET.toLocaleString()}.`,
+    );
+  }
+  if (ruleStrings(network.rules).length === 0) throw new Error('Intervention search needs a rule-based network.');
+
+  const analysisOptions = { stateCap: ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP, ...analysis };
+  const analyse = (perturbations: InterventionPerturbation[]) =>
+    analyseTargetShare(network, interventionTherapies(perturbations), target, minMatch, analysisOptions);
+
+  const baseline = analyse([]);
+  const warnings = [...baseline.warnings];
+  if (baseline.result.truncated) {
+    warnings.push('Basin shares are estimated from sampled initial states; raise the state cap for exact shares.');
+  }
+
+  // Perturb nodes of both the rules and the graph, so knock-outs take effect
+  const graphNames = new Set(network.nodes.flatMap((node) => [node.id, node.label ?? node.id]));
+  const targetNodes = new Set(Object.keys(target).map((node) => node.toLowerCase()));
+  const requested = options.candidates ?? baseline.result.nodeOrder.filter((node) => !targetNodes.has(node.toLowerCase()));
+  const skipped = requested.filter((node) => !graphNames.has(node));
+  if (skipped.length > 0) warnings.push(`Not in the network graph, so not perturbed: ${skipped.join(', ')}.`);
+  const singles: InterventionPerturbation[] = requested
+    .filter((node) => graphNames.has(node))
+    .flatMap((node) => kinds.map((kind) => ({ node, kind })));
+  if (singles.length === 0) throw new Error('No nodes left to perturb.');
+
+  const evaluatedSets: InterventionSetResult[] = [];
+  const sufficient: InterventionPerturbation[][] = [];
+  const seen = new Set<string>();
+  let pruned = 0;
+  let budgetExhausted = false;
+
+  const evaluate = (perturbations: InterventionPerturbation[]): InterventionSetResult | null => {
+    const key = setKey(perturbations);
+    if (seen.has(key)) return null;
+    seen.add(key);
+    const keys = new Set(perturbations.map(perturbationKey));
+    if (sufficient.some((set) => set.every((p) => keys.has(perturbationKey(p))))) {
+      pruned++;
+      return null;
+    }
+    if (evaluatedSets.length >= budget) {
+      budgetExhausted = true;
+      return null;
+    }
+    const { result, targetShare } = analyse(perturbations);
+    const entry = {
+      perturbations,
+      targetShare,
+      attractorCount: result.attractors.length,
+      sufficient: targetShare >= goalShare,
+    };
+    evaluatedSets.push(entry);
+    if (entry.sufficient) sufficient.push(perturbations);
+    onProgress?.({ explored: evaluatedSets.length, total: budget });
+    return entry;
+  };
+
+  let level = singles.flatMap((single) => evaluate([single]) ?? []);
+  for (let size = 2; size <= maxSize && !budgetExhausted; size++) {
+    const frontier = level
+      .filter((entry) => !entry.sufficient)
+      .sort((a, b) => b.targetShare - a.targetShare)
+      .slice(0, beamWidth);
+    level = [];
+    for (const entry of frontier) {
+      const nodes = new Set(entry.perturbations.map((p) => p.node));
+      for (const single of singles) {
+        if (nodes.has(single.node)) continue;
+        const next = evaluate([...entry.perturbations, single]);
+        if (next) level.push(next);
+        if (budgetExhausted) break;
+      }
+      if (budgetExhausted) break;
+    }
+  }
+
+  const sets = evaluatedSets
+    .map((entry) => ({ ...entry, perturbations: [...entry.perturbations].sort((a, b) => a.node.localeCompare(b.node)) }))
+    .sort((a, b) => b.targetShare - a.targetShare || a.perturbations.length - b.perturbations.length)
+    .slice(0, ANALYSIS_CONFIG.MAX_INTERVENTION_SETS_LISTED);
+  if (budgetExhausted) {
+    warnings.push(`The budget of ${budget.toLocaleString()} analyses ran out; larger sets were not all tried.`);
+  }
+
+  return {
+    target,
+    baselineShare: baseline.targetShare,
+    sets,
+    evaluated: evaluatedSets.length,
+    pruned,
+    budgetExhausted,
+    warnings,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Mutation-driven network personalisation.
+ *
+ * Reads a patient's somatic mutations as loss or gain of function of the
+ * network nodes they hit and fixes those nodes, so the patient-specific
+ * network can be saved and analysed like any other:
+ * - truncating variants (nonsense, frameshift, splice site...) are loss of function;
+ * - missense and in-frame variants are gain of function in oncogenes and loss
+ *   of function in tumour suppressors, and unclassified in other genes;
+ * - silent and non-coding variants leave the node free.
+ * Loss of function knocks the node out and gain of function knocks it in, as
+ * fixed-value `TherapeuticIntervention`s applied through `applyTherapiesToNetwork`.
+ * Consequences are read in MAF (Variant_Classification) or VEP (SO term) vocabulary.
+ */
+
+import type {
+  CancerGeneRoles,
+  MutationCall,
+  MutationClassification,
+  MutationEffect,
+  PatientMutation,
+  UnclassifiedMutation,
+} from './analysis/types';
+import type { NetworkData } from '@/types/network';
+import type { NormalizedVariant } from './exomeSeqApi';
+import { applyTherapiesToNetwork } from './applyTherapies';
+import { interventionTherapies } from './interventionSearch';
+import { nodeGeneIndex } from './patientProfile';
+import { DEFAULT_CANCER_GENE_ROLES } from '@/config/cancerGenes';
+
+// Lower-cased so MAF classes and VEP terms are matched alike
+const TRUNCATING_CONSEQUENCES = new Set([
+  'nonsense_mutation',
+  'frame_shift_del',
+  'frame_shift_ins',
+  'splice_site',
+  'translation_start_site',
+  'nonstop_mutation',
+  'stop_gained',
+  'frameshift_variant',
+  'splice_acceptor_variant',
+  'splice_donor_variant',
+  'start_lost',
+  'stop_lost',
+  'transcript_ablation',
+]);
+
+const PROTEIN_CHANGING_CONSEQUENCES = new Set([
+  'missense_mutation',
+  'in_frame_del',
+  'in_frame_ins',
+  'missense_variant',
+  'inframe_insertion',
+  'inframe_deletion',
+  'protein_altering_variant',
+]);
+
+/** Consequence terms of a variant; VEP joins several with "&". */
+const consequenceTerms = (classification: string) =>
+  classification.split(/[&,]/).map((term) => term.trim().toLowerCase()).filter(Boolean);
+
+/**
+ * Functional effect of one mutation, or why it has none: truncation always
+ * inactivates, a protein change follows the gene's role.
+ */
+export function mutationEffect(
+  mutation: PatientMutation,
+  roles: CancerGeneRoles = DEFAULT_CANCER_GENE_ROLES,
+): MutationEffect | 'no-protein-change' | 'unknown-role' {
+  const terms = consequenceTerms(mutation.classification);
+  if (terms.some((term) => TRUNCATING_CONSEQUENCES.has(term))) return 'loss-of-function';
+  if (!terms.some((term) => PROTEIN_CHANGING_CONSEQUENCES.has(term))) return 'no-protein-change';
+
+  const gene = mutation.gene.toUpperCase();
+  const oncogene = roles.oncogenes.some((name) => name.toUpperCase() === gene);
+  const suppressor = roles.tumorSuppressors.some((name) => name.toUpperCase() === gene);
+  if (oncogene === suppressor) return 'unknown-role';
+  return oncogene ? 'gain-of-function' : 'loss-of-function';
+}
+
+/**
+ * One call per node hit by the mutations. A node with several classified
+ * mutations keeps the first loss of function (a truncated protein cannot be
+ * activated), else the first gain of function; the others are superseded.
+ */
+export function classifyMutations(
+  network: NetworkData,
+  mutations: PatientMutation[],
+  roles: CancerGeneRoles = DEFAULT_CANCER_GENE_ROLES,
+): MutationClassification {
+  const index = nodeGeneIndex(network);
+  const byNode = new Map<string, { call: MutationCall; mutation: PatientMutation }>();
+  const unclassified: UnclassifiedMutation[] = [];
+
+  for (const mutation of mutations) {
+    const node = index.get(mutation.gene.toLowerCase());
+    if (!node) {
+      unclassified.push({ mutation, reason: 'not-in-network' });
+      continue;
+    }
+    const effect = mutationEffect(mutation, roles);
+    if (effect !== 'loss-of-function' && effect !== 'gain-of-function') {
+      unclassified.push({ mutation, reason: effect });
+      continue;
+    }
+
+    const existing = byNode.get(node);
+    if (existing && (existing.call.effect === 'loss-of-function' || effect === 'gain-of-function')) {
+      unclassified.push({ mutation, reason: 'superseded' });
+      continue;
+    }
+    if (existing) unclassified.push({ mutation: existing.mutation, reason: 'superseded' });
+    byNode.set(node, {
+      mutation,
+      call: {
+        gene: mutation.gene,
+        node,
+        source: 'mutation',
+        kind: effect === 'loss-of-function' ? 'knock-out' : 'knock-in',
+        detail: mutation.protein ? `${mutation.classification} ${mutation.protein}` : mutation.classification,
+        effect,
+      },
+    });
+  }
+
+  const calls = network.nodes.flatMap((node) => byNode.get(String(node.id))?.call ?? []);
+  return { calls, unclassified };
+}
+
+/** The network with every called node fixed: OFF for loss of function, ON for gain of function. */
+export function personalizeNetworkWithMutations(network: NetworkData, calls: MutationCall[]): NetworkData {
+  return applyTherapiesToNetwork(network, interventionTherapies(calls.map(({ node, kind }) => ({ node, kind }))));
+}
+
+/** Exome-seq variants as patient mutations, keeping their annotated consequence and protein change. */
+export function variantsToMutations(variants: NormalizedVariant[]): PatientMutation[] {
+  return variants
+    .filter((variant) => variant.gene && variant.consequence)
+    .map((variant) => ({
+      gene: variant.gene,
+      classification: variant.consequence,
+      ...(variant.hgvs_p ? { protein: variant.hgvs_p } : {}),
+    }));
+}
@@ -9,6 +9,8 @@
  */
 
 import type { NetworkNode, NetworkEdge, Rule, NetworkData } from '@/types/network';
+import type { RuleExpression } from './ruleLanguage';
+import { collectIdentifiers, hasErrors, identifierPolarities, parseRules } from './ruleLanguage';
 
 // ============================================================================
 // TYPES
@@ -202,15 +204,16 @@ export function parseSIFNetwork(sifContent: string): NetworkData {
  * This is a simplified SBML-qual that captures:
  * - Qualitative species (nodes) with max level 1 (Boolean)
  * - Transitions (regulatory relationships)
- * - Function terms based on edge signs
+ * - Function terms from the node's Boolean rule when data.rules has a valid one,
+ *   otherwise based on edge signs
  */
 export function exportNetworkToSBMLqual(data: NetworkData, modelId: string = 'model1'): string {
   const nodes = data.nodes || [];
   const edges = data.edges || [];
-  // Note: rules from data.rules could be used for more precise function terms in future
+  const ruleTerms = ruleFunctionTerms(data);
   
   // Build edge map: target -> list of {source, sign}
-  const regulators = new Map<string, Array<{source: string; sign: 'positive' | 'negative' | 'unknown'}>>();
+  const regulators = new Map<string, Array<{source: string; sign: InputSign}>>();
   
   for (const edge of edges) {
     if (!regulators.has(edge.target)) {
@@ -242,7 +245,8 @@ export function exportNetworkToSBMLqual(data: NetworkData, modelId: string = 'mo
   
   // Add transitions (one per regulated node)
   for (const node of nodes) {
-    const nodeRegs = regulators.get(node.id) || [];
+    const ruleTerm = ruleTerms.get(node.id);
+    const nodeRegs = ruleTerm?.inputs ?? regulators.get(node.id) ?? [];
     const transitionId = `tr_${node.id}`;
     
     xml += `      <qual:transition qual:id="${escapeXml(transitionId)}">\n`;
@@ -262,6 +266,19 @@ export function exportNetworkToSBMLqual(data: NetworkData, modelId: string = 'mo
           <qual:output qual:id="out_${escapeXml(node.id)}" qual:qualitativeSpecies="${escapeXml(node.id)}" qual:transitionEffect="assignmentLevel"/>
         </qual:listOfOutputs>\n`;
     
+    if (ruleTerm) {
+      xml += `        <qual:listOfFunctionTerms>
+          <qual:defaultTerm qual:resultLevel="0"/>
+          <qual:functionTerm qual:resultLevel="1">
+            <math xmlns="http://www.w3.org/1998/Math/MathML">
+${ruleTerm.math}
+            </math>
+          </qual:functionTerm>
+        </qual:listOfFunctionTerms>
+      </qual:transition>\n`;
+      continue;
+    }
+
     // Function terms (simplified: if any positive regulator is ON and no negative is ON -> 1)
     xml += `        <qual:listOfFunctionTerms>
           <qual:defaultTerm qual:resultLevel="0"/>
@@ -301,6 +318,71 @@ export function exportNetworkToSBMLqual(data: NetworkData, modelId: string = 'mo
 }
 
 /** Escape special XML characters */
+type InputSign = 'positive' | 'negative' | 'dual' | 'unknown';
+
+interface RuleFunctionTerm {
+  inputs: Array<{ source: string; sign: InputSign }>;
+  math: string;
+}
+
+const MATHML_OPERATORS = { AND: 'and', OR: 'or', XOR: 'xor', NAND: 'and', NOR: 'or' } as const;
+
+/**
+ * SBML-qual inputs and MathML function term for every node with a valid rule,
+ * keyed by node id. Rule names may be node ids or labels.
+ */
+function ruleFunctionTerms(data: NetworkData): Map<string, RuleFunctionTerm> {
+  const terms = new Map<string, RuleFunctionTerm>();
+  const nodes = data.nodes || [];
+  if (!data.rules?.length || nodes.length === 0) return terms;
+
+  const idOf = new Map<string, string>();
+  for (const node of nodes) {
+    idOf.set(node.id, node.id);
+    if (node.label && !idOf.has(node.label)) idOf.set(node.label, node.id);
+  }
+
+  const lines = exportRuleBasedNetworkToTXT(data).split('\n');
+  for (const rule of parseRules(lines, { knownLabels: idOf.keys() })) {
+    const target = idOf.get(rule.target);
+    if (!target || !rule.expression || hasErrors(rule)) continue;
+    const identifiers = collectIdentifiers(rule.expression);
+    if (identifiers.some(name => !idOf.has(name))) continue;
+
+    const signs = identifierPolarities(rule.expression);
+    terms.set(target, {
+      inputs: identifiers.map(name => ({ source: idOf.get(name)!, sign: signs.get(name)! })),
+      math: expressionToMathML(rule.expression, name => idOf.get(name)!, '              '),
+    });
+  }
+  return terms;
+}
+
+/** MathML content markup for a rule expression; a node is ON when its level equals 1. */
+function expressionToMathML(e: RuleExpression, idOf: (name: string) => string, indent: string): string {
+  const apply = (operator: string, operands: RuleExpression[], at: string): string =>
+    [
+      `${at}<apply>`,
+      `${at}  <${operator}/>`,
+      ...operands.map(operand => expressionToMathML(operand, idOf, `${at}  `)),
+      `${at}</apply>`,
+    ].join('\n');
+
+  switch (e.kind) {
+    case 'identifier':
+      return `${indent}<apply><eq/><ci>${escapeXml(idOf(e.name))}</ci><cn type="integer">1</cn></apply>`;
+    case 'constant':
+      return `${indent}${e.value ? '<true/>' : '<false/>'}`;
+    case 'not':
+      return apply('not', [e.operand], indent);
+    case 'binary': {
+      const operator = MATHML_OPERATORS[e.operator];
+      if (e.operator !== 'NAND' && e.operator !== 'NOR') return apply(operator, [e.left, e.right], indent);
+      return [`${indent}<apply>`, `${indent}  <not/>`, apply(operator, [e.left, e.right], `${indent}  `), `${indent}</apply>`].join('\n');
+    }
+  }
+}
+
 function escapeXml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
@@ -519,7 +601,9 @@ export function exportRuleBasedNetworkToTXT(data: NetworkData): string {
         // Build rule from name and other properties if available
         const expr = rule.condition || rule.action || '';
         if (expr) {
-          lines.push(`${rule.name}=${expr}`);
+          // PBN alternatives keep their selection probability
+          const probability = rule.probability !== undefined ? ` @ ${rule.probability}` : '';
+          lines.push(`${rule.name}=${expr}${probability}`);
         } else {
           lines.push(rule.name);
         }
@@ -0,0 +1,206 @@
+/**
+ * Patient-specific drug scores for rule-based networks.
+ *
+ * The patient's alterations that hit network nodes are fixed on the network as
+ * knock-outs and knock-ins, giving a personalised network. Each node takes its
+ * strongest alteration:
+ * 1. a mutation classified by `classifyMutations`: loss of function knocks it
+ *    out, gain of function knocks it in;
+ * 2. a deep deletion (-2) knocks it out;
+ * 3. an amplification (2) knocks it in;
+ * 4. expression in the bottom `PATIENT_EXPRESSION_OFF_QUANTILE` of the gene's cohort
+ *    reference, or of the sample when there is none, knocks it out.
+ * Unclassified mutations and one-copy changes leave the node free. Each drug of a
+ * drug–target table that survives the status, interaction and cancer-type
+ * filters is then applied on top: inhibitors knock their target genes out,
+ * activators knock them in. The rules are reanalysed and the drug's score is
+ * the change in basin share of the attractors showing the target phenotype.
+ * Biomarker and gene-dependency (synthetic-lethal) rows name genes the drug
+ * does not act on, so they perturb nothing; they are reported as context when
+ * the patient carries an alteration in the gene.
+ */
+
+import type {
+  DrugTargetEntry,
+  InterventionPerturbation,
+  PatientAlteration,
+  PatientDrugScore,
+  PatientDrugScoreOptions,
+  PatientDrugScoreResult,
+  PatientProfile,
+} from './analysis/types';
+import type { NetworkData } from '@/types/network';
+import { analyseTargetShare, interventionSetLabel, interventionTherapies } from './interventionSearch';
+import { expressionScore } from './expressionPersonalization';
+import { classifyMutations } from './mutationPersonalization';
+import { nodeGeneIndex } from './patientProfile';
+import { ruleStrings } from './ruleGraphSync';
+import { csvField } from './csv';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+
+/** Rows that describe when a drug works rather than what it acts on. */
+const isContextRow = (entry: DrugTargetEntry) =>
+  entry.interaction === 'biomarker' || entry.interaction === 'gene-dependency';
+
+/** The strongest alteration of each node hit by the profile, with warnings about data that could not be used. */
+export function patientAlterations(
+  network: NetworkData,
+  profile: PatientProfile,
+): { alterations: PatientAlteration[]; warnings: string[] } {
+  const index = nodeGeneIndex(network);
+  const byNode = new Map<string, PatientAlteration>();
+  const warnings: string[] = [];
+  const add = (alteration: Omit<PatientAlteration, 'node'>) => {
+    const node = index.get(alteration.gene.toLowerCase());
+    if (node && !byNode.has(node)) byNode.set(node, { ...alteration, node });
+  };
+
+  for (const { gene, source, kind, detail } of classifyMutations(network, profile.mutations ?? []).calls) {
+    add({ gene, source, kind, detail });
+  }
+  const copyNumber = Object.entries(profile.copyNumber ?? {});
+  for (const [gene, value] of copyNumber) {
+    if (value <= -2) add({ gene, source: 'copy-number', kind: 'knock-out', detail: `copy number ${value}` });
+  }
+  for (const [gene, value] of copyNumber) {
+    if (value >= 2) add({ gene, source: 'copy-number', kind: 'knock-in', detail: `copy number ${value}` });
+  }
+  if (copyNumber.some(([, value]) => !Number.isInteger(value) || Math.abs(value) > 2)) {
+    warnings.push('Copy-number values are read as GISTIC calls (-2 to 2); values outside that scale may be misread.');
+  }
+
+  const expression = Object.entries(profile.expression ?? {});
+  const reference = profile.expressionReference;
+  if (expression.length > 0 && reference) {
+    let missing = 0;
+    for (const [gene, value] of expression) {
+      const stats = reference.genes[gene.toLowerCase()];
+      if (!stats) {
+        if (index.has(gene.toLowerCase())) missing++;
+        continue;
+      }
+      const { score } = expressionScore(value, stats, 'percentile');
+      if (score < ANALYSIS_CONFIG.PATIENT_EXPRESSION_OFF_QUANTILE) {
+        add({ gene, source: 'expression', kind: 'knock-out', detail: `expression ${value} (cohort percentile ${Math.round(score * 100)})` });
+      }
+    }
+    if (missing > 0) {
+      warnings.push(`${missing} network gene(s) are missing from the ${reference.cohort} reference; their expression is not used.`);
+    }
+  } else if (expression.length > 0) {
+    const sorted = expression.map(([, value]) => value).sort((a, b) => a - b);
+    // Share of the sample expressed below a value
+    const quantile = (value: number) => {
+      let low = 0;
+      let high = sorted.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (sorted[mid] < value) low = mid + 1;
+        else high = mid;
+      }
+      return low / sorted.length;
+    };
+    for (const [gene, value] of expression) {
+      const q = quantile(value);
+      if (q < ANALYSIS_CONFIG.PATIENT_EXPRESSION_OFF_QUANTILE) {
+        add({ gene, source: 'expression', kind: 'knock-out', detail: `expression ${value} (percentile ${Math.round(q * 100)})` });
+      }
+    }
+  }
+
+  const alterations = network.nodes.flatMap((node) => byNode.get(String(node.id)) ?? []);
+  return { alterations, warnings };
+}
+
+export function performPatientDrugScores(
+  network: NetworkData,
+  options: PatientDrugScoreOptions,
+): PatientDrugScoreResult {
+  const { profile, drugs, statuses, interactions, cancerType, target, minMatch = 1, analysis = {}, onProgress } = options;
+
+  if (Object.keys(target).length === 0) throw new Error('Patient drug scores need a target phenotype.');
+  if (ruleStrings(network.rules).length === 0) throw new Error('Patient drug scores need a rule-based network.');
+
+  const { alterations, warnings } = patientAlterations(network, profile);
+  const hasData = Boolean(
+    Object.keys(profile.expression ?? {}).length || profile.mutations?.length || Object.keys(profile.copyNumber ?? {}).length,
+  );
+  if (hasData && alterations.length === 0) {
+    warnings.push('No patient alteration hits a network node; drugs are scored on the unpersonalised network.');
+  }
+
+  // Empty filters keep everything
+  const kept = drugs.filter(
+    (entry) =>
+      (!statuses?.length || statuses.includes(entry.status)) &&
+      (!interactions?.length || interactions.includes(entry.interaction)) &&
+      (!cancerType || !entry.cancerTypes?.length || entry.cancerTypes.includes(cancerType)),
+  );
+  const byDrug = new Map<string, DrugTargetEntry[]>();
+  for (const entry of kept) byDrug.set(entry.drug, [...(byDrug.get(entry.drug) ?? []), entry]);
+  if (byDrug.size === 0) warnings.push('No drug in the drug–target table passes the filters.');
+
+  const index = nodeGeneIndex(network);
+  const alteredGenes = new Set(alterations.map((a) => a.gene.toLowerCase()));
+  const unmappedDrugs: string[] = [];
+  const candidates: { drug: string; entries: DrugTargetEntry[]; perturbations: InterventionPerturbation[] }[] = [];
+  for (const [drug, entries] of byDrug) {
+    const perturbations = new Map<string, InterventionPerturbation>();
+    for (const entry of entries) {
+      const node = index.get(entry.gene.toLowerCase());
+      if (isContextRow(entry) || !node) continue;
+      perturbations.set(node, { node, kind: entry.action === 'inhibitor' ? 'knock-out' : 'knock-in' });
+    }
+    if (perturbations.size === 0) unmappedDrugs.push(drug);
+    else candidates.push({ drug, entries, perturbations: [...perturbations.values()] });
+  }
+
+  const analysisOptions = { stateCap: ANALYSIS_CONFIG.SENSITIVITY_DEFAULT_STATE_CAP, ...analysis };
+  const patientTherapies = interventionTherapies(alterations);
+  const baseline = analyseTargetShare(network, patientTherapies, target, minMatch, analysisOptions);
+  warnings.push(...baseline.warnings);
+  if (baseline.result.truncated) {
+    warnings.push('Basin shares are estimated from sampled initial states; raise the state cap for exact shares.');
+  }
+
+  const scores: PatientDrugScore[] = candidates.map(({ drug, entries, perturbations }, i) => {
+    const therapies = [...patientTherapies, ...interventionTherapies(perturbations, 1)];
+    const { targetShare } = analyseTargetShare(network, therapies, target, minMatch, analysisOptions);
+    onProgress?.({ explored: i + 1, total: candidates.length });
+    return {
+      drug,
+      status: entries[0].status,
+      perturbations,
+      biomarkers: [
+        ...new Set(
+          entries
+            .filter((entry) => isContextRow(entry) && alteredGenes.has(entry.gene.toLowerCase()))
+            .map((entry) => entry.gene),
+        ),
+      ],
+      targetShare,
+      score: targetShare - baseline.targetShare,
+    };
+  });
+  scores.sort(
+    (a, b) => b.score - a.score || b.biomarkers.length - a.biomarkers.length || a.drug.localeCompare(b.drug),
+  );
+
+  return { target, alterations, baselineShare: baseline.targetShare, scores, unmappedDrugs, warnings };
+}
+
+/** One row per drug, best first: status, perturbed nodes, matched biomarkers, target share and its change. */
+export function patientDrugScoresToCsv(result: PatientDrugScoreResult): string {
+  const format = (value: number) => String(Number(value.toPrecision(6)));
+  const header = ['rank', 'drug', 'status', 'perturbations', 'biomarkers', 'target share', 'score'];
+  const rows = result.scores.map((score, i) => [
+    String(i + 1),
+    csvField(score.drug),
+    score.status,
+    csvField(interventionSetLabel(score.perturbations)),
+    csvField(score.biomarkers.join(' ')),
+    format(score.targetShare),
+    format(score.score),
+  ]);
+  return [header, ...rows].map((fields) => fields.join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,96 @@
+/**
+ * Patient genomic profiles.
+ *
+ * Parses the files a patient's data usually comes in (an RNA-seq expression
+ * table, a MAF of somatic mutations and a gene-level copy-number table) into the
+ * parts of a `PatientProfile`, reads cohort expression matrices, and matches
+ * genes to network nodes.
+ */
+
+import type { PatientMutation } from './analysis/types';
+import type { NetworkData } from '@/types/network';
+import { COPY_NUMBER_COLUMNS, EXPRESSION_COLUMNS, GENE_COLUMNS, columnOf, parseTable } from './tableColumns';
+
+/** Gene symbol column, and the first named value column or else the first numeric one after it. */
+function geneValueColumns(header: string[], rows: string[][], valueNames: string[], kind: string) {
+  const geneColumn = Math.max(columnOf(header, GENE_COLUMNS), 0);
+  let valueColumn = columnOf(header, valueNames);
+  if (valueColumn < 0) {
+    valueColumn = header.findIndex(
+      (_, i) => i > geneColumn && rows.length > 0 && rows.every((row) => row[i] === undefined || Number.isFinite(Number(row[i]))),
+    );
+  }
+  if (valueColumn < 0) throw new Error(`No ${kind} column found; expected one of: ${valueNames.join(', ')}.`);
+  return { geneColumn, valueColumn };
+}
+
+/** Gene-level table as a gene → value record; Ensembl version suffixes are dropped and duplicate genes keep their highest value. */
+function parseGeneValues(text: string, valueNames: string[], kind: string): Record<string, number> {
+  const { header, rows } = parseTable(text);
+  const { geneColumn, valueColumn } = geneValueColumns(header, rows, valueNames, kind);
+  const values: Record<string, number> = {};
+  for (const row of rows) {
+    const gene = (row[geneColumn] ?? '').replace(/^(ENSG\d+)\.\d+$/, '$1');
+    const value = Number(row[valueColumn]);
+    if (!gene || !Number.isFinite(value)) continue;
+    values[gene] = Math.max(values[gene] ?? -Infinity, value);
+  }
+  return values;
+}
+
+export function parseExpressionTable(text: string): Record<string, number> {
+  return parseGeneValues(text, EXPRESSION_COLUMNS, 'expression');
+}
+
+export function parseCopyNumberTable(text: string): Record<string, number> {
+  return parseGeneValues(text, COPY_NUMBER_COLUMNS, 'copy-number');
+}
+
+/**
+ * Genes × samples expression table (e.g. a cohort matrix) as gene → values; every
+ * numeric column after the gene column is a sample. Duplicate genes keep their
+ * most expressed row.
+ */
+export function parseExpressionMatrix(text: string): Record<string, number[]> {
+  const { header, rows } = parseTable(text);
+  const geneColumn = Math.max(columnOf(header, GENE_COLUMNS), 0);
+  const sampleColumns = header
+    .map((_, i) => i)
+    .filter((i) => i > geneColumn && rows.length > 0 && rows.every((row) => row[i] === undefined || row[i] === '' || Number.isFinite(Number(row[i]))));
+  if (sampleColumns.length === 0) throw new Error('No sample columns found; expected numeric columns after the gene column.');
+
+  const matrix: Record<string, number[]> = {};
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  for (const row of rows) {
+    const gene = (row[geneColumn] ?? '').replace(/^(ENSG\d+)\.\d+$/, '$1');
+    const values = sampleColumns.filter((i) => row[i]).map((i) => Number(row[i]));
+    if (!gene || values.length === 0) continue;
+    if (!matrix[gene] || sum(values) > sum(matrix[gene])) matrix[gene] = values;
+  }
+  return matrix;
+}
+
+export function parseMaf(text: string): PatientMutation[] {
+  const { header, rows } = parseTable(text);
+  const gene = header.indexOf('hugo_symbol');
+  const classification = header.indexOf('variant_classification');
+  if (gene < 0 || classification < 0) throw new Error('A MAF file needs Hugo_Symbol and Variant_Classification columns.');
+  const protein = header.indexOf('hgvsp_short');
+  return rows
+    .filter((row) => row[gene] && row[classification])
+    .map((row) => ({
+      gene: row[gene],
+      classification: row[classification],
+      ...(protein >= 0 && row[protein] ? { protein: row[protein] } : {}),
+    }));
+}
+
+/** Node id per lower-cased node id and label, the way the RNA-seq results are matched to a network. */
+export function nodeGeneIndex(network: NetworkData): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const node of network.nodes) {
+    index.set(String(node.id).toLowerCase(), String(node.id));
+    if (node.label) index.set(node.label.toLowerCase(), String(node.id));
+  }
+  return index;
+}
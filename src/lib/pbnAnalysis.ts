@@ -0,0 +1,406 @@
+/**
+ * Probabilistic Boolean network (PBN) analysis.
+ *
+ * A node with several `TARGET = EXPR @ p` rules picks one of them, with its
+ * probability, independently at every synchronous step; afterwards every node
+ * flips with the perturbation probability. Small networks are solved exactly:
+ * the Markov chain over all 2^n states is iterated from the uniform
+ * distribution until it settles. Larger ones are estimated from Monte Carlo
+ * trajectories. Attractors are the terminal strongly-connected state sets of
+ * the chain without perturbation, and each gets the steady-state mass on its
+ * states.
+ */
+
+import type {
+  AttractorType,
+  PbnAnalysisMethod,
+  PbnAnalysisOptions,
+  PbnAnalysisResult,
+  PbnAttractor,
+  StateSnapshot,
+} from './analysis/types';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+import type { CompiledAlternative } from './deterministicAnalysis';
+import { compileProbabilisticRules } from './deterministicAnalysis';
+import { createRandom } from './analysis/stochasticSimulation';
+import { decodeState, encodeState } from './stateEncoding';
+
+// Activation probabilities this close to 0 or 1 are treated as certain
+const EPSILON = 1e-12;
+// A Monte Carlo state with more uncertain nodes than this is not expanded when searching attractors
+const MAX_UNCERTAIN_NODES = 12;
+
+/** P(node i is active next | current state) before perturbation, written to `out`. */
+type Activation = (state: Uint8Array, out: Float64Array) => void;
+
+function activationFunction(alternatives: CompiledAlternative[][]): Activation {
+  return (state, out) => {
+    for (let i = 0; i < alternatives.length; i++) {
+      // Nodes without a rule keep their value
+      if (alternatives[i].length === 0) {
+        out[i] = state[i];
+        continue;
+      }
+      let p = 0;
+      for (const { probability, evaluate } of alternatives[i]) {
+        if (evaluate(state)) p += probability;
+      }
+      out[i] = p < EPSILON ? 0 : p > 1 - EPSILON ? 1 : p;
+    }
+  };
+}
+
+/**
+ * Visit every successor of a state without perturbation, given its activation
+ * probabilities, with the probability of reaching it. `scratch` holds the successor.
+ */
+function forEachSuccessor(
+  activation: Float64Array,
+  scratch: Uint8Array,
+  visit: (successor: Uint8Array, probability: number) => void,
+): void {
+  const uncertain: number[] = [];
+  for (let i = 0; i < activation.length; i++) {
+    if (activation[i] === 0 || activation[i] === 1) scratch[i] = activation[i];
+    else uncertain.push(i);
+  }
+  for (let mask = 0; mask < 2 ** uncertain.length; mask++) {
+    let probability = 1;
+    uncertain.forEach((node, bit) => {
+      const on = (mask >>> bit) & 1;
+      scratch[node] = on;
+      probability *= on ? activation[node] : 1 - activation[node];
+    });
+    visit(scratch, probability);
+  }
+}
+
+function countUncertain(activation: Float64Array): number {
+  let count = 0;
+  for (const p of activation) if (p !== 0 && p !== 1) count++;
+  return count;
+}
+
+/** Terminal strongly-connected components of a graph (iterative Tarjan). */
+function terminalComponents(count: number, successors: (node: number) => ArrayLike<number>): number[][] {
+  const index = new Int32Array(count).fill(-1);
+  const low = new Int32Array(count);
+  const component = new Int32Array(count).fill(-1);
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let counter = 0;
+
+  for (let root = 0; root < count; root++) {
+    if (index[root] !== -1) continue;
+    index[root] = low[root] = counter++;
+    stack.push(root);
+    const work: Array<[node: number, edge: number]> = [[root, 0]];
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const [node, edge] = frame;
+      const next = successors(node);
+      if (edge < next.length) {
+        frame[1]++;
+        const target = next[edge];
+        if (index[target] === -1) {
+          index[target] = low[target] = counter++;
+          stack.push(target);
+          work.push([target, 0]);
+        } else if (component[target] === -1) {
+          // Still on the stack
+          low[node] = Math.min(low[node], index[target]);
+        }
+        continue;
+      }
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1][0];
+        low[parent] = Math.min(low[parent], low[node]);
+      }
+      if (low[node] === index[node]) {
+        const members: number[] = [];
+        let member: number;
+        do {
+          member = stack.pop()!;
+          component[member] = components.length;
+          members.push(member);
+        } while (member !== node);
+        components.push(members);
+      }
+    }
+  }
+
+  return components.filter((members, id) =>
+    members.every((member) => Array.from(successors(member)).every((target) => component[target] === id)),
+  );
+}
+
+function attractorType(members: number[], successors: (node: number) => ArrayLike<number>): AttractorType {
+  if (members.length === 1) return 'fixed-point';
+  return members.every((member) => successors(member).length === 1) ? 'limit-cycle' : 'complex-attractor';
+}
+
+function snapshot(state: Uint8Array, nodeOrder: string[]): StateSnapshot {
+  const values: Record<string, 0 | 1> = {};
+  nodeOrder.forEach((id, i) => {
+    values[id] = state[i] ? 1 : 0;
+  });
+  return { binary: state.join(''), values };
+}
+
+interface PbnEstimate {
+  nodeProbabilities: Float64Array;
+  attractors: Array<Omit<PbnAttractor, 'id'>>;
+  converged: boolean;
+  iterations: number;
+}
+
+interface PbnRun {
+  nodeOrder: string[];
+  activation: Activation;
+  perturbation: number;
+  options: PbnAnalysisOptions;
+  warnings: string[];
+}
+
+/**
+ * Iterate the full Markov chain from the uniform distribution. Each iteration
+ * averages the old and new distributions (a lazy chain), which has the same
+ * steady state but does not oscillate on cycles. Null when the chain has
+ * more than `ANALYSIS_CONFIG.MAX_PBN_TRANSITIONS` transitions.
+ */
+function solveExactly({ nodeOrder, activation, perturbation, options, warnings }: PbnRun): PbnEstimate | null {
+  const n = nodeOrder.length;
+  const stateCount = 2 ** n;
+  const maxIterations = Math.max(1, Math.floor(options.maxIterations ?? ANALYSIS_CONFIG.PBN_DEFAULT_MAX_ITERATIONS));
+  const tolerance = options.tolerance ?? ANALYSIS_CONFIG.PBN_DEFAULT_TOLERANCE;
+  const { onProgress } = options;
+
+  // Transitions without perturbation, one row per state
+  const offsets = new Int32Array(stateCount + 1);
+  const targets: number[] = [];
+  const probabilities: number[] = [];
+  const state = new Uint8Array(n);
+  const successor = new Uint8Array(n);
+  const p1 = new Float64Array(n);
+  for (let s = 0; s < stateCount; s++) {
+    decodeState(s, state);
+    activation(state, p1);
+    if (targets.length + 2 ** countUncertain(p1) > ANALYSIS_CONFIG.MAX_PBN_TRANSITIONS) return null;
+    forEachSuccessor(p1, successor, (next, probability) => {
+      targets.push(encodeState(next));
+      probabilities.push(probability);
+    });
+    offsets[s + 1] = targets.length;
+  }
+  const successorTable = Int32Array.from(targets);
+  const successorsOf = (s: number) => successorTable.subarray(offsets[s], offsets[s + 1]);
+
+  let distribution = new Float64Array(stateCount).fill(1 / stateCount);
+  let next = new Float64Array(stateCount);
+  let converged = false;
+  let iterations = 0;
+  const progressInterval = Math.max(1, Math.floor(ANALYSIS_CONFIG.PROGRESS_REPORT_INTERVAL / stateCount));
+
+  while (iterations < maxIterations && !converged) {
+    iterations++;
+    next.fill(0);
+    for (let s = 0; s < stateCount; s++) {
+      const mass = distribution[s];
+      if (mass === 0) continue;
+      for (let e = offsets[s]; e < offsets[s + 1]; e++) next[successorTable[e]] += mass * probabilities[e];
+    }
+    // Independent flips factor over the nodes, so apply them one bit at a time
+    if (perturbation > 0) {
+      for (let i = 0; i < n; i++) {
+        const bit = 1 << i;
+        for (let s = 0; s < stateCount; s++) {
+          if (s & bit) continue;
+          const off = next[s];
+          const on = next[s | bit];
+          next[s] = (1 - perturbation) * off + perturbation * on;
+          next[s | bit] = (1 - perturbation) * on + perturbation * off;
+        }
+      }
+    }
+    let change = 0;
+    for (let s = 0; s < stateCount; s++) {
+      const value = 0.5 * (distribution[s] + next[s]);
+      change += Math.abs(value - distribution[s]);
+      next[s] = value;
+    }
+    [distribution, next] = [next, distribution];
+    converged = change < tolerance;
+    if (onProgress && iterations % progressInterval === 0) {
+      onProgress({ explored: iterations, total: maxIterations });
+    }
+  }
+  onProgress?.({ explored: iterations, total: iterations });
+  if (!converged) {
+    warnings.push(`Steady state did not converge within ${maxIterations.toLocaleString()} iterations.`);
+  }
+
+  const nodeProbabilities = new Float64Array(n);
+  for (let s = 0; s < stateCount; s++) {
+    for (let i = 0; i < n; i++) if ((s >>> i) & 1) nodeProbabilities[i] += distribution[s];
+  }
+
+  const attractors = terminalComponents(stateCount, successorsOf).map((members) => {
+    members.sort((a, b) => a - b);
+    return {
+      type: attractorType(members, successorsOf),
+      size: members.length,
+      states: members.slice(0, ANALYSIS_CONFIG.MAX_LISTED_ATTRACTOR_STATES).map((s) => {
+        decodeState(s, state);
+        return snapshot(state, nodeOrder);
+      }),
+      probability: members.reduce((sum, s) => sum + distribution[s], 0),
+    };
+  });
+
+  return { nodeProbabilities, attractors, converged, iterations };
+}
+
+/**
+ * Sample trajectories from uniformly random states. After the burn-in every
+ * step is counted; the attractor of each newly visited state is found by
+ * exploring the states it can reach without perturbation.
+ */
+function sampleTrajectories({ nodeOrder, activation, perturbation, options, warnings }: PbnRun): PbnEstimate {
+  const n = nodeOrder.length;
+  const positive = (value: number | undefined, fallback: number) => Math.max(1, Math.floor(value ?? fallback));
+  const trajectories = positive(options.trajectories, ANALYSIS_CONFIG.PBN_DEFAULT_TRAJECTORIES);
+  const burnIn = Math.max(0, Math.floor(options.burnIn ?? ANALYSIS_CONFIG.PBN_DEFAULT_BURN_IN));
+  const samples = positive(options.samples, ANALYSIS_CONFIG.PBN_DEFAULT_SAMPLES);
+  const seed = (options.seed ?? Math.floor(Math.random() * 2 ** 32)) >>> 0;
+  const { onProgress } = options;
+  const random = createRandom(seed);
+
+  const state = new Uint8Array(n);
+  const p1 = new Float64Array(n);
+  const step = () => {
+    activation(state, p1);
+    for (let i = 0; i < n; i++) {
+      state[i] = random() < p1[i] ? 1 : 0;
+      if (perturbation > 0 && random() < perturbation) state[i] ^= 1;
+    }
+  };
+
+  const found: Array<{ type: AttractorType; states: Uint8Array[]; visits: number }> = [];
+  const attractorOf = new Map<string, number>();
+  // States whose reachable attractors are all in `found`
+  const explored = new Set<string>();
+  let searching = true;
+
+  /** Explore the states reachable from `start` without perturbation and record their terminal components. */
+  const search = (start: Uint8Array, startKey: string) => {
+    const ids = new Map<string, number>([[startKey, 0]]);
+    const states = [start.slice()];
+    const edges: number[][] = [];
+    const scratch = new Uint8Array(n);
+    for (let id = 0; id < states.length; id++) {
+      activation(states[id], p1);
+      if (states.length > ANALYSIS_CONFIG.MAX_PBN_ATTRACTOR_SEARCH_STATES || countUncertain(p1) > MAX_UNCERTAIN_NODES) {
+        searching = false;
+        warnings.push(
+          'Attractor search stopped: too many reachable states. Visits to unidentified states count as transient.',
+        );
+        return;
+      }
+      const out = new Set<number>();
+      forEachSuccessor(p1, scratch, (next) => {
+        const key = next.join('');
+        let target = ids.get(key);
+        if (target === undefined) {
+          target = states.length;
+          ids.set(key, target);
+          states.push(next.slice());
+        }
+        out.add(target);
+      });
+      edges.push(Array.from(out));
+    }
+
+    for (const members of terminalComponents(states.length, (id) => edges[id])) {
+      const memberStates = members.map((id) => states[id]).sort((a, b) => (a.join('') < b.join('') ? -1 : 1));
+      if (attractorOf.has(memberStates[0].join(''))) continue;
+      for (const member of memberStates) attractorOf.set(member.join(''), found.length);
+      found.push({ type: attractorType(members, (id) => edges[id]), states: memberStates, visits: 0 });
+    }
+    for (const key of ids.keys()) explored.add(key);
+  };
+
+  const activeCounts = new Float64Array(n);
+  const progressInterval = Math.max(1, Math.floor(ANALYSIS_CONFIG.PROGRESS_REPORT_INTERVAL / ((burnIn + samples) * n)));
+  for (let run = 0; run < trajectories; run++) {
+    if (onProgress && run % progressInterval === 0) {
+      onProgress({ explored: run, total: trajectories });
+    }
+    for (let i = 0; i < n; i++) state[i] = random() < 0.5 ? 1 : 0;
+    for (let t = 0; t < burnIn; t++) step();
+    for (let t = 0; t < samples; t++) {
+      step();
+      for (let i = 0; i < n; i++) activeCounts[i] += state[i];
+      const key = state.join('');
+      if (searching && !explored.has(key)) search(state, key);
+      const attractor = attractorOf.get(key);
+      if (attractor !== undefined) found[attractor].visits++;
+    }
+  }
+  onProgress?.({ explored: trajectories, total: trajectories });
+
+  const total = trajectories * samples;
+  return {
+    nodeProbabilities: activeCounts.map((count) => count / total),
+    attractors: found.map(({ type, states, visits }) => ({
+      type,
+      size: states.length,
+      states: states.slice(0, ANALYSIS_CONFIG.MAX_LISTED_ATTRACTOR_STATES).map((s) => snapshot(s, nodeOrder)),
+      probability: visits / total,
+    })),
+    converged: true,
+    iterations: samples,
+  };
+}
+
+/**
+ * Steady-state analysis of rules with `@ p` alternatives. Rules without
+ * alternatives behave as in the deterministic analysis, so any rule set works.
+ */
+export function performPbnAnalysis(rules: string[], options: PbnAnalysisOptions = {}): PbnAnalysisResult {
+  const warnings: string[] = [];
+  const { nodeOrder, nodeLabels, alternatives } = compileProbabilisticRules(rules, warnings);
+  const n = nodeOrder.length;
+  const perturbation = Math.min(1, Math.max(0, options.perturbation ?? 0));
+  const run: PbnRun = { nodeOrder, activation: activationFunction(alternatives), perturbation, options, warnings };
+
+  let method: PbnAnalysisMethod = options.method ?? (n <= ANALYSIS_CONFIG.MAX_NODES_PBN_EXACT ? 'exact' : 'monte-carlo');
+  let exact: PbnEstimate | null = null;
+  if (method === 'exact') {
+    if (n > ANALYSIS_CONFIG.MAX_NODES_PBN_EXACT) {
+      warnings.push(`Exact analysis supports up to ${ANALYSIS_CONFIG.MAX_NODES_PBN_EXACT} nodes; using Monte Carlo sampling.`);
+    } else {
+      exact = solveExactly(run);
+      if (!exact) warnings.push('The Markov chain has too many transitions for exact analysis; using Monte Carlo sampling.');
+    }
+    if (!exact) method = 'monte-carlo';
+  }
+  const estimate = exact ?? sampleTrajectories(run);
+
+  const attractors = estimate.attractors
+    .sort((a, b) => b.probability - a.probability || (a.states[0].binary < b.states[0].binary ? -1 : 1))
+    .map((attractor, id) => ({ id, ...attractor }));
+  const inAttractors = attractors.reduce((sum, attractor) => sum + attractor.probability, 0);
+
+  return {
+    nodeOrder,
+    nodeLabels,
+    method,
+    nodeProbabilities: Object.fromEntries(nodeOrder.map((id, i) => [id, estimate.nodeProbabilities[i]])),
+    attractors,
+    transientProbability: Math.max(0, 1 - inAttractors),
+    converged: estimate.converged,
+    iterations: estimate.iterations,
+    warnings,
+  };
+}
@@ -93,13 +93,14 @@ export interface RNASeqResults {
 }
 
 /**
- * Normalize a gene object from various API formats to our standard format
+ * Normalize a gene object from various API formats (or a row of an imported
+ * featureCounts, Salmon or RSEM table) to our standard format
  */
-function normalizeGene(raw: any): NormalizedGene {
+export function normalizeGene(raw: any): NormalizedGene {
   return {
-    gene_id: raw.gene_id ?? raw.ensembl_id ?? raw.id ?? raw.geneId ?? '',
+    gene_id: raw.gene_id ?? raw.ensembl_id ?? raw.id ?? raw.geneId ?? raw.geneid ?? '',
     gene_symbol: raw.gene_symbol ?? raw.gene_name ?? raw.symbol ?? raw.name ?? raw.geneName ?? '',
-    counts: raw.counts ?? raw.count ?? raw.read_count ?? raw.reads ?? raw.readCount ?? 0,
+    counts: raw.counts ?? raw.count ?? raw.read_count ?? raw.reads ?? raw.readCount ?? raw.numreads ?? raw.expected_count ?? 0,
     tpm: raw.tpm ?? raw.TPM ?? null,
     fpkm: raw.fpkm ?? raw.FPKM ?? null,
   };
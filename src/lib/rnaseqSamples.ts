@@ -0,0 +1,172 @@
+/**
+ * Project-level RNA-seq sample sheets.
+ *
+ * A sample sheet lists the samples of an experiment with their condition and
+ * read files (the nf-core layout: `sample,condition,fastq_1,fastq_2`). Samples
+ * are submitted one after the other through `submitRNASeqAnalysis` with a
+ * shared reference and annotation, their job states are refreshed from the
+ * service, and the results of completed samples are combined into one count
+ * matrix for differential expression.
+ */
+
+import type { CountMatrix } from './analysis/types';
+import {
+  checkRNASeqStatus,
+  submitRNASeqAnalysis,
+  validateRNASeqFiles,
+  type JobState,
+  type RNASeqResults,
+} from './rnaseqApi';
+import {
+  CONDITION_COLUMNS,
+  FASTQ1_COLUMNS,
+  FASTQ2_COLUMNS,
+  SAMPLE_COLUMNS,
+  columnOf,
+  parseTable,
+} from './tableColumns';
+import { csvField } from './csv';
+
+/** One sample of a project, with the job it was submitted as. */
+export interface RNASeqSample {
+  name: string;
+  condition: string;
+  /** File names of the forward and reverse reads; paths are reduced to their last part. */
+  fastq1: string;
+  fastq2: string;
+  job_id?: string;
+  state?: JobState;
+  /** Why the sample could not be submitted, or why its analysis failed. */
+  error?: string;
+  /** Imported expression dataset holding the sample's counts; such samples are never submitted. */
+  dataset_id?: string;
+}
+
+const baseName = (path: string) => path.split(/[\\/]/).pop() ?? '';
+
+/** Samples of a tab- or comma-separated sample sheet; read columns are optional. */
+export function parseSampleSheet(text: string): RNASeqSample[] {
+  const { header, rows } = parseTable(text);
+  const sample = columnOf(header, SAMPLE_COLUMNS);
+  const condition = columnOf(header, CONDITION_COLUMNS);
+  if (sample < 0 || condition < 0) throw new Error('A sample sheet needs sample and condition columns.');
+  const fastq1 = columnOf(header, FASTQ1_COLUMNS);
+  const fastq2 = columnOf(header, FASTQ2_COLUMNS);
+
+  const samples = rows
+    .filter((row) => row[sample])
+    .map((row) => ({
+      name: row[sample],
+      condition: row[condition] ?? '',
+      fastq1: fastq1 >= 0 ? baseName(row[fastq1] ?? '') : '',
+      fastq2: fastq2 >= 0 ? baseName(row[fastq2] ?? '') : '',
+    }));
+  const seen = new Set<string>();
+  for (const { name } of samples) {
+    if (seen.has(name)) throw new Error(`Sample "${name}" is listed twice.`);
+    seen.add(name);
+  }
+  return samples;
+}
+
+export function sampleSheetToCsv(samples: RNASeqSample[]): string {
+  return ['sample,condition,fastq_1,fastq_2', ...samples.map((s) => [s.name, s.condition, s.fastq1, s.fastq2].map(csvField).join(','))].join('\n');
+}
+
+/**
+ * Submits every sample that has no job yet or whose job failed (imported samples
+ * excepted), one at a time,
+ * with its read files picked from `files` by name. Samples that cannot be
+ * submitted keep no job and get an `error`; `onProgress` receives the sheet after each sample.
+ */
+export async function submitRNASeqBatch(
+  samples: RNASeqSample[],
+  files: File[],
+  shared: { reference: File | null; annotation: File | null },
+  onProgress?: (samples: RNASeqSample[]) => void,
+): Promise<RNASeqSample[]> {
+  const byName = new Map(files.map((file) => [file.name, file]));
+  const next = [...samples];
+
+  for (let i = 0; i < next.length; i++) {
+    const sample = next[i];
+    if (sample.dataset_id || (sample.job_id && sample.state !== 'failed')) continue;
+
+    const fastq1 = byName.get(sample.fastq1) ?? null;
+    const fastq2 = byName.get(sample.fastq2) ?? null;
+    const validation = validateRNASeqFiles({ fastq1, fastq2, ...shared });
+    const unsubmitted = { name: sample.name, condition: sample.condition, fastq1: sample.fastq1, fastq2: sample.fastq2 };
+    if (!validation.valid) {
+      next[i] = { ...unsubmitted, error: validation.errors.join('. ') };
+    } else {
+      const formData = new FormData();
+      formData.append('sample_name', sample.name);
+      formData.append('fastq_1', fastq1!);
+      formData.append('fastq_2', fastq2!);
+      formData.append('reference', shared.reference!);
+      formData.append('annotation', shared.annotation!);
+      try {
+        const { job_id } = await submitRNASeqAnalysis(formData);
+        next[i] = { ...unsubmitted, job_id, state: 'pending' };
+      } catch (err) {
+        next[i] = { ...unsubmitted, error: err instanceof Error ? err.message : 'Failed to submit analysis' };
+      }
+    }
+    onProgress?.([...next]);
+  }
+  return next;
+}
+
+/** Samples with their current job state; samples whose status cannot be fetched are left as they were. */
+export async function refreshRNASeqSamples(samples: RNASeqSample[]): Promise<RNASeqSample[]> {
+  return Promise.all(
+    samples.map(async (sample) => {
+      if (!sample.job_id || sample.state === 'completed' || sample.state === 'failed') return sample;
+      try {
+        const status = await checkRNASeqStatus(sample.job_id);
+        return status.state === 'failed'
+          ? { ...sample, state: status.state, error: status.error_message || 'Analysis failed' }
+          : { ...sample, state: status.state };
+      } catch {
+        return sample;
+      }
+    }),
+  );
+}
+
+/**
+ * Raw counts of several samples over the union of their genes, in first-seen
+ * order. Genes are keyed by Ensembl id without its version (or by symbol when a
+ * sample reports no id); repeated rows within a sample are summed.
+ */
+export function buildCountMatrix(samples: Array<{ name: string; results: RNASeqResults }>): CountMatrix {
+  const rowOf = new Map<string, number>();
+  const genes: string[] = [];
+  const symbols: string[] = [];
+  const counts: number[][] = [];
+
+  samples.forEach(({ results }, s) => {
+    for (const gene of results.genes) {
+      const key = gene.gene_id.replace(/^(ENSG\d+)\.\d+$/, '$1') || gene.gene_symbol;
+      if (!key) continue;
+      let row = rowOf.get(key);
+      if (row === undefined) {
+        row = genes.length;
+        rowOf.set(key, row);
+        genes.push(key);
+        symbols.push(gene.gene_symbol);
+        counts.push(new Array(samples.length).fill(0));
+      }
+      if (!symbols[row]) symbols[row] = gene.gene_symbol;
+      counts[row][s] += gene.counts;
+    }
+  });
+  return { genes, symbols, samples: samples.map(({ name }) => name), counts };
+}
+
+export function countMatrixToCsv(matrix: CountMatrix): string {
+  return [
+    ['gene_id', 'gene_symbol', ...matrix.samples.map(csvField)].join(','),
+    ...matrix.genes.map((gene, g) => [csvField(gene), csvField(matrix.symbols[g]), ...matrix.counts[g]].join(',')),
+  ].join('\n');
+}
@@ -0,0 +1,172 @@
+/**
+ * Keep a rule-based network's rules and drawn edges in step.
+ *
+ * Rules → edges: a regulator that only appears un-negated in a rule activates
+ * its target, one that only appears negated inhibits it, and one that appears
+ * both ways (or under XOR) is dual.
+ * Edges → rules: a target without a rule gets the skeleton
+ * "OR of activators AND NOT each inhibitor".
+ */
+
+import type { NetworkEdge, NetworkNode, Rule } from '@/types/network';
+import type { ParsedRule, RuleExpression } from './ruleLanguage';
+import { hasErrors, identifierPolarities, printRule, ruleAlternatives } from './ruleLanguage';
+
+export type RegulationSign = 'activator' | 'inhibitor' | 'dual';
+
+/** A regulation between rule names (node labels or ids). */
+export interface Regulation {
+  source: string;
+  target: string;
+  sign: RegulationSign;
+}
+
+export const SIGN_OF_POLARITY = { positive: 'activator', negative: 'inhibitor', dual: 'dual' } as const;
+
+/**
+ * Rule text of one stored rule: a plain string, `{ name, action, probability }`,
+ * or a full rule in `name`. Empty when the entry holds no rule.
+ */
+export function ruleString(rule: string | Partial<Rule> | null): string {
+  if (typeof rule === 'string') return rule;
+  if (rule?.action) return `${rule.name} = ${rule.action}${rule.probability !== undefined ? ` @ ${rule.probability}` : ''}`;
+  if (rule?.name && rule.name.includes('=')) return rule.name;
+  return '';
+}
+
+/** Rule strings from the shapes stored in `NetworkData.rules` (see `ruleString`). */
+export function ruleStrings(rules: unknown): string[] {
+  if (!Array.isArray(rules)) return [];
+  return rules.map(ruleString).filter(rule => rule.includes('='));
+}
+
+/** Map from every name a graph node answers to (id and label) to its id. */
+export function graphNodeIds(nodes: NetworkNode[]): Map<string, string> {
+  const idOf = new Map<string, string>();
+  for (const node of nodes) idOf.set(node.id, node.id);
+  for (const node of nodes) {
+    if (node.label && !idOf.has(node.label)) idOf.set(node.label, node.id);
+  }
+  return idOf;
+}
+
+/** Sign of a drawn edge: an explicit edge type wins, otherwise a negative weight means inhibition. */
+export function edgeSign(edge: NetworkEdge & { edgeType?: string }): 'activator' | 'inhibitor' {
+  const edgeType = edge.properties?.edgeType || edge.edgeType || edge.interaction;
+  const isInhibitor = edgeType === 'inhibitor' || edgeType === 'inhibition' || edgeType === 'Inhibiting'
+    || (!edgeType && Number(edge.weight) < 0);
+  return isInhibitor ? 'inhibitor' : 'activator';
+}
+
+/** Signed regulators of one expression, self-loops excluded. */
+export function expressionRegulators(target: string, expression: RuleExpression): Regulation[] {
+  return Array.from(identifierPolarities(expression))
+    .filter(([source]) => source !== target)
+    .map(([source, polarity]) => ({ source, target, sign: SIGN_OF_POLARITY[polarity] }));
+}
+
+/**
+ * Regulations used by the valid rules. A later rule for the same target
+ * replaces earlier ones, as in the analysis engine; PBN alternatives (`@ p`)
+ * all count, and a regulator used with both signs across them is dual.
+ */
+export function ruleRegulations(rules: ParsedRule[]): Regulation[] {
+  const regulations: Regulation[] = [];
+  for (const [target, alternatives] of ruleAlternatives(rules)) {
+    const signs = new Map<string, RegulationSign>();
+    for (const { expression } of alternatives) {
+      for (const { source, sign } of expressionRegulators(target, expression)) {
+        const previous = signs.get(source);
+        signs.set(source, previous && previous !== sign ? 'dual' : sign);
+      }
+    }
+    for (const [source, sign] of signs) regulations.push({ source, target, sign });
+  }
+  return regulations;
+}
+
+/** Edge for a regulation between node ids; keeps other data of an existing edge. */
+export function signedEdge(source: string, target: string, sign: RegulationSign, existing?: NetworkEdge): NetworkEdge {
+  const properties = { ...(existing?.properties ?? {}) };
+  if (sign === 'dual') delete properties.edgeType;
+  else properties.edgeType = sign;
+  return {
+    ...existing,
+    source,
+    target,
+    weight: sign === 'inhibitor' ? -Math.abs(existing?.weight ?? 1) : Math.abs(existing?.weight ?? 1),
+    properties,
+  };
+}
+
+/**
+ * Edges implied by the rules, signed from the rule AST. Edges into nodes
+ * without a valid rule are kept as drawn; regulators missing from the graph
+ * are skipped.
+ */
+export function regenerateEdges(rules: ParsedRule[], nodes: NetworkNode[], edges: NetworkEdge[]): NetworkEdge[] {
+  const idOf = graphNodeIds(nodes);
+  const ruled = new Set(
+    rules
+      .filter(rule => rule.expression && !hasErrors(rule) && idOf.has(rule.target))
+      .map(rule => idOf.get(rule.target)!)
+  );
+  const drawn = new Map(edges.map(edge => [`${edge.source}::${edge.target}`, edge]));
+
+  const kept = edges.filter(edge => !ruled.has(edge.target));
+  const derived = ruleRegulations(rules)
+    .filter(r => idOf.has(r.source) && idOf.has(r.target))
+    .map(r => {
+      const source = idOf.get(r.source)!;
+      const target = idOf.get(r.target)!;
+      return signedEdge(source, target, r.sign, drawn.get(`${source}::${target}`));
+    });
+  return [...kept, ...derived];
+}
+
+/**
+ * Skeleton rule from signed regulators: OR of activators AND NOT each inhibitor
+ * (dual regulators count as activators). Null when there are no regulators.
+ */
+export function ruleSkeleton(target: string, regulators: Array<{ source: string; sign: RegulationSign }>): string | null {
+  const span = { start: 0, end: 0 };
+  const combine = (operator: 'AND' | 'OR', operands: RuleExpression[]) =>
+    operands.reduce((left, right): RuleExpression => ({ kind: 'binary', operator, left, right, span }));
+
+  const activators: RuleExpression[] = [];
+  const inhibitors: RuleExpression[] = [];
+  for (const { source, sign } of regulators) {
+    const identifier: RuleExpression = { kind: 'identifier', name: source, span };
+    if (sign === 'inhibitor') inhibitors.push({ kind: 'not', operand: identifier, span });
+    else activators.push(identifier);
+  }
+
+  const parts = activators.length > 0 ? [combine('OR', activators), ...inhibitors] : inhibitors;
+  return parts.length > 0 ? printRule(target, combine('AND', parts)) : null;
+}
+
+/**
+ * Skeleton rules, by node label, for graph nodes that have incoming edges but
+ * no rule (`ruleTargets` holds rule names, matched against ids and labels).
+ */
+export function skeletonRulesFromEdges(nodes: NetworkNode[], edges: NetworkEdge[], ruleTargets: Set<string>): string[] {
+  const labelOf = new Map(nodes.map(node => [node.id, node.label ?? node.id]));
+  const incoming = new Map<string, Map<string, RegulationSign>>();
+  for (const edge of edges) {
+    if (!labelOf.has(edge.target)) continue;
+    const regulators = incoming.get(edge.target) ?? new Map<string, RegulationSign>();
+    const source = labelOf.get(edge.source) ?? edge.source;
+    if (!regulators.has(source)) regulators.set(source, edgeSign(edge));
+    incoming.set(edge.target, regulators);
+  }
+
+  const rules: string[] = [];
+  for (const node of nodes) {
+    const label = labelOf.get(node.id)!;
+    if (ruleTargets.has(node.id) || ruleTargets.has(label)) continue;
+    const regulators = Array.from(incoming.get(node.id) ?? [], ([source, sign]) => ({ source, sign }));
+    const rule = ruleSkeleton(label, regulators);
+    if (rule) rules.push(rule);
+  }
+  return rules;
+}
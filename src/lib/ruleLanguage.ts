@@ -0,0 +1,601 @@
+/**
+ * Shared Boolean rule language: tokenizer, parser, diagnostics and printer.
+ *
+ * Every consumer of `TARGET = EXPRESSION` rules (analysis engines, therapy
+ * application, SBML-qual export, the rules editor) goes through this module so
+ * they agree on what a rule means.
+ *
+ * Syntax:
+ * - Operators by increasing precedence: OR-level `||`/`OR`, `XOR`, `NOR`;
+ *   AND-level `&&`/`AND`, `NAND`; prefix `!`/`NOT`. Binary operators are left-associative.
+ * - Constants `0`, `1`, `true`, `false`; keywords are case-insensitive.
+ * - Identifiers are `[A-Za-z0-9_]+`; labels containing spaces are recognised when
+ *   passed as `knownLabels` (rule targets are always known).
+ * - A rule may end in `@ p` (0 ≤ p ≤ 1): rules for the same target with
+ *   probabilities are alternative functions of a probabilistic Boolean network.
+ *
+ * Parsing never throws: problems are reported as diagnostics whose spans are
+ * offsets into the text that was parsed.
+ */
+
+export type BinaryOperator = 'AND' | 'OR' | 'XOR' | 'NAND' | 'NOR';
+
+/** Half-open character range `[start, end)` in the parsed text. */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export type RuleExpression =
+  | { kind: 'identifier'; name: string; span: SourceSpan }
+  | { kind: 'constant'; value: 0 | 1; span: SourceSpan }
+  | { kind: 'not'; operand: RuleExpression; span: SourceSpan }
+  | { kind: 'binary'; operator: BinaryOperator; left: RuleExpression; right: RuleExpression; span: SourceSpan };
+
+export type RuleDiagnosticCode =
+  | 'invalid-rule'
+  | 'unexpected-character'
+  | 'unknown-identifier'
+  | 'dangling-operator'
+  | 'missing-operand'
+  | 'missing-operator'
+  | 'mismatched-parenthesis'
+  | 'duplicate-target'
+  | 'invalid-probability'
+  | 'probability-sum'
+  | 'missing-rule'
+  | 'self-loop'
+  | 'missing-edge'
+  | 'unused-edge'
+  | 'sign-mismatch';
+
+export interface RuleDiagnostic {
+  code: RuleDiagnosticCode;
+  severity: 'error' | 'warning';
+  message: string;
+  span: SourceSpan;
+  /** 1-based column of `span.start`. */
+  column: number;
+}
+
+export interface ParsedExpression {
+  /** Null when the expression has a syntax error. */
+  expression: RuleExpression | null;
+  /** Identifiers in order of first appearance, available even when the syntax is invalid. */
+  identifiers: string[];
+  diagnostics: RuleDiagnostic[];
+}
+
+export interface ParsedRule extends ParsedExpression {
+  text: string;
+  target: string;
+  targetSpan: SourceSpan;
+  /** Selection probability from a trailing `@ p`, when given. */
+  probability?: number;
+  probabilitySpan?: SourceSpan;
+  /** Index of the rule's line when parsed with `parseRules`. */
+  line?: number;
+}
+
+export interface RuleParseOptions {
+  /** Node labels that may contain spaces; matched greedily, longest first. */
+  knownLabels?: Iterable<string>;
+  /** When given, identifiers outside this set are reported as `unknown-identifier`. */
+  knownNodes?: Iterable<string>;
+}
+
+type TokenType = 'IDENTIFIER' | 'CONSTANT' | 'NOT' | 'LPAREN' | 'RPAREN' | BinaryOperator;
+
+interface Token {
+  type: TokenType;
+  /** Source text of the token (the constant's value for constants). */
+  value: string;
+  span: SourceSpan;
+}
+
+const KEYWORDS: Record<string, TokenType> = {
+  AND: 'AND',
+  OR: 'OR',
+  XOR: 'XOR',
+  NAND: 'NAND',
+  NOR: 'NOR',
+  NOT: 'NOT',
+};
+
+const CONSTANTS: Record<string, '0' | '1'> = { '0': '0', '1': '1', TRUE: '1', FALSE: '0' };
+
+const BINDING: Record<BinaryOperator, number> = { OR: 1, XOR: 1, NOR: 1, AND: 2, NAND: 2 };
+
+const SYMBOLS: Record<BinaryOperator, string> = { AND: '&&', OR: '||', XOR: 'XOR', NAND: 'NAND', NOR: 'NOR' };
+
+const isWordChar = (ch: string | undefined) => ch !== undefined && /[A-Za-z0-9_]/.test(ch);
+
+export function createDiagnostic(
+  code: RuleDiagnosticCode,
+  message: string,
+  span: SourceSpan,
+  severity: RuleDiagnostic['severity'] = 'error',
+): RuleDiagnostic {
+  return { code, severity, message, span, column: span.start + 1 };
+}
+
+/** Diagnostic as a single line, e.g. for warnings lists and toasts. */
+export function formatDiagnostic(d: RuleDiagnostic): string {
+  return `${d.message} (column ${d.column})`;
+}
+
+function tokenize(text: string, offset: number, labels: string[], diagnostics: RuleDiagnostic[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const push = (type: TokenType, value: string, length: number) => {
+    tokens.push({ type, value, span: { start: offset + i, end: offset + i + length } });
+    i += length;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const twoChar = text.substring(i, i + 2);
+    if (twoChar === '&&') { push('AND', twoChar, 2); continue; }
+    if (twoChar === '||') { push('OR', twoChar, 2); continue; }
+    if (ch === '(') { push('LPAREN', ch, 1); continue; }
+    if (ch === ')') { push('RPAREN', ch, 1); continue; }
+    if (ch === '!') { push('NOT', ch, 1); continue; }
+
+    const label = labels.find(l => text.startsWith(l, i) && !isWordChar(text[i + l.length]));
+    if (label) {
+      push('IDENTIFIER', label, label.length);
+      continue;
+    }
+
+    let end = i;
+    while (isWordChar(text[end])) end++;
+    if (end > i) {
+      const word = text.substring(i, end);
+      const upper = word.toUpperCase();
+      if (KEYWORDS[upper]) push(KEYWORDS[upper], word, word.length);
+      else if (CONSTANTS[upper]) push('CONSTANT', CONSTANTS[upper], word.length);
+      else push('IDENTIFIER', word, word.length);
+      continue;
+    }
+
+    diagnostics.push(createDiagnostic('unexpected-character', `Unexpected character '${ch}'`, { start: offset + i, end: offset + i + 1 }));
+    i++;
+  }
+
+  return tokens;
+}
+
+class SyntaxFailure extends Error {
+  readonly diagnostic: RuleDiagnostic;
+
+  constructor(d: RuleDiagnostic) {
+    super(d.message);
+    this.diagnostic = d;
+  }
+}
+
+/** Recursive-descent parser over a token list; throws `SyntaxFailure` at the first error. */
+function parseTokens(tokens: Token[], endOffset: number): RuleExpression {
+  let position = 0;
+  const peek = () => tokens[position];
+  const fail = (code: RuleDiagnosticCode, message: string, span: SourceSpan): never => {
+    throw new SyntaxFailure(createDiagnostic(code, message, span));
+  };
+  const endSpan = { start: endOffset, end: endOffset };
+
+  const parseBinary = (level: number): RuleExpression => {
+    if (level > 2) return parseUnary();
+    let left = parseBinary(level + 1);
+    for (let token = peek(); token && BINDING[token.type as BinaryOperator] === level; token = peek()) {
+      position++;
+      if (!peek() || peek().type === 'RPAREN' || peek().type in BINDING) {
+        fail('dangling-operator', `Operator '${token.value}' is missing its right operand`, token.span);
+      }
+      const right = parseBinary(level + 1);
+      left = {
+        kind: 'binary',
+        operator: token.type as BinaryOperator,
+        left,
+        right,
+        span: { start: left.span.start, end: right.span.end },
+      };
+    }
+    return left;
+  };
+
+  const parseUnary = (): RuleExpression => {
+    const token = peek();
+    if (token?.type === 'NOT') {
+      position++;
+      if (!peek() || peek().type === 'RPAREN' || peek().type in BINDING) {
+        fail('dangling-operator', `Operator '${token.value}' is missing its operand`, token.span);
+      }
+      const operand = parseUnary();
+      return { kind: 'not', operand, span: { start: token.span.start, end: operand.span.end } };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): RuleExpression => {
+    const token = peek();
+    if (!token) return fail('missing-operand', 'Expected an expression', endSpan);
+    position++;
+    switch (token.type) {
+      case 'IDENTIFIER':
+        return { kind: 'identifier', name: token.value, span: token.span };
+      case 'CONSTANT':
+        return { kind: 'constant', value: token.value === '1' ? 1 : 0, span: token.span };
+      case 'LPAREN': {
+        if (peek()?.type === 'RPAREN') fail('missing-operand', 'Expected an expression inside parentheses', peek().span);
+        const inner = parseBinary(1);
+        const closing = peek();
+        if (closing?.type !== 'RPAREN') {
+          fail('mismatched-parenthesis', `Unclosed '(' at column ${token.span.start + 1}`, token.span);
+        }
+        position++;
+        return { ...inner, span: { start: token.span.start, end: closing.span.end } };
+      }
+      case 'RPAREN':
+        return fail('mismatched-parenthesis', `Unmatched ')' at column ${token.span.start + 1}`, token.span);
+      default:
+        return fail('dangling-operator', `Operator '${token.value}' is missing its left operand`, token.span);
+    }
+  };
+
+  const expression = parseBinary(1);
+  const extra = peek();
+  if (extra) {
+    if (extra.type === 'RPAREN') {
+      fail('mismatched-parenthesis', `Unmatched ')' at column ${extra.span.start + 1}`, extra.span);
+    }
+    fail('missing-operator', `Expected an operator before '${extra.value}'`, extra.span);
+  }
+  return expression;
+}
+
+function sortedLabels(labels: Iterable<string> | undefined): string[] {
+  // Only labels that plain word tokenization would split need special handling.
+  return Array.from(new Set(labels ?? []))
+    .filter(label => !/^[A-Za-z0-9_]+$/.test(label))
+    .sort((a, b) => b.length - a.length);
+}
+
+function parseExpressionAt(
+  text: string,
+  offset: number,
+  labels: string[],
+  knownNodes: Set<string> | null,
+): ParsedExpression {
+  const diagnostics: RuleDiagnostic[] = [];
+  const tokens = tokenize(text, offset, labels, diagnostics);
+  const identifierTokens = tokens.filter(t => t.type === 'IDENTIFIER');
+  const identifiers = Array.from(new Set(identifierTokens.map(t => t.value)));
+
+  let expression: RuleExpression | null = null;
+  if (tokens.length === 0 && diagnostics.length === 0) {
+    diagnostics.push(createDiagnostic('missing-operand', 'Expected an expression', { start: offset, end: offset + text.length }));
+  } else if (diagnostics.length === 0) {
+    try {
+      expression = parseTokens(tokens, offset + text.length);
+    } catch (e) {
+      if (!(e instanceof SyntaxFailure)) throw e;
+      diagnostics.push(e.diagnostic);
+    }
+  }
+
+  if (knownNodes) {
+    for (const token of identifierTokens) {
+      if (!knownNodes.has(token.value)) {
+        diagnostics.push(createDiagnostic('unknown-identifier', `Unknown node '${token.value}'`, token.span));
+      }
+    }
+  }
+
+  return { expression, identifiers, diagnostics };
+}
+
+/**
+ * Parse a bare Boolean expression
+ */
+export function parseExpression(text: string, options: RuleParseOptions = {}): ParsedExpression {
+  const knownNodes = options.knownNodes ? new Set(options.knownNodes) : null;
+  return parseExpressionAt(text, 0, sortedLabels(options.knownLabels), knownNodes);
+}
+
+/**
+ * Parse a single rule: TARGET = EXPRESSION
+ */
+export function parseRule(text: string, options: RuleParseOptions = {}): ParsedRule {
+  return parseRuleWith(text, sortedLabels(options.knownLabels), options.knownNodes ? new Set(options.knownNodes) : null);
+}
+
+function parseRuleWith(text: string, labels: string[], knownNodes: Set<string> | null): ParsedRule {
+  const eqIndex = text.indexOf('=');
+  const rawTarget = eqIndex >= 0 ? text.substring(0, eqIndex) : text;
+  const target = rawTarget.trim();
+  const targetStart = rawTarget.length - rawTarget.trimStart().length;
+  const targetSpan = { start: targetStart, end: targetStart + target.length };
+  const whole = { start: 0, end: text.length };
+
+  if (eqIndex < 0 || !target) {
+    return {
+      text,
+      target,
+      targetSpan,
+      expression: null,
+      identifiers: [],
+      diagnostics: [createDiagnostic('invalid-rule', 'Expected a rule of the form TARGET = EXPRESSION', whole)],
+    };
+  }
+
+  const atIndex = text.indexOf('@', eqIndex + 1);
+  const expressionEnd = atIndex >= 0 ? atIndex : text.length;
+  const parsed = parseExpressionAt(text.substring(eqIndex + 1, expressionEnd), eqIndex + 1, labels, knownNodes);
+  if (knownNodes && !knownNodes.has(target)) {
+    parsed.diagnostics.unshift(createDiagnostic('unknown-identifier', `Unknown node '${target}'`, targetSpan));
+  }
+  const rule: ParsedRule = { text, target, targetSpan, ...parsed };
+  if (atIndex < 0) return rule;
+
+  const rawProbability = text.substring(atIndex + 1);
+  const probabilityText = rawProbability.trim();
+  const probabilityStart = atIndex + 1 + rawProbability.length - rawProbability.trimStart().length;
+  rule.probabilitySpan = probabilityText
+    ? { start: probabilityStart, end: probabilityStart + probabilityText.length }
+    : { start: atIndex, end: atIndex + 1 };
+  const probability = /^(\d+(\.\d*)?|\.\d+)$/.test(probabilityText) ? Number(probabilityText) : NaN;
+  if (probability >= 0 && probability <= 1) {
+    rule.probability = probability;
+  } else {
+    rule.diagnostics.push(
+      createDiagnostic('invalid-probability', "Expected a probability between 0 and 1 after '@'", rule.probabilitySpan),
+    );
+  }
+  return rule;
+}
+
+/** Comment (`#`, `//`) or blank line. */
+export function isIgnoredRuleLine(line: string): boolean {
+  const trimmed = line.trim();
+  return !trimmed || trimmed.startsWith('#') || trimmed.startsWith('//');
+}
+
+/**
+ * Parse a rule set, one rule per line. Comments and blank lines are skipped;
+ * every rule target is a known label, so targets with spaces can be referenced.
+ * A repeated target is reported on the later rule unless the target's rules
+ * carry probabilities (PBN alternatives), whose sum is checked instead.
+ */
+export function parseRules(lines: string[], options: RuleParseOptions = {}): ParsedRule[] {
+  const ruleLines = lines
+    .map((text, line) => ({ text, line }))
+    .filter(({ text }) => !isIgnoredRuleLine(text));
+
+  const targets = ruleLines
+    .map(({ text }) => (text.includes('=') ? text.substring(0, text.indexOf('=')).trim() : ''))
+    .filter(Boolean);
+  const labels = sortedLabels([...(options.knownLabels ?? []), ...targets]);
+  const knownNodes = options.knownNodes ? new Set(options.knownNodes) : null;
+
+  const rules = ruleLines.map(({ text, line }) => ({ ...parseRuleWith(text, labels, knownNodes), line }));
+  const probabilistic = new Set(rules.filter(rule => rule.probabilitySpan).map(rule => rule.target));
+
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (rule.target && seen.has(rule.target) && !probabilistic.has(rule.target)) {
+      rule.diagnostics.push(
+        createDiagnostic('duplicate-target', `'${rule.target}' already has a rule; this one replaces it`, rule.targetSpan, 'warning'),
+      );
+    }
+    if (rule.target) seen.add(rule.target);
+  }
+
+  for (const [target, alternatives] of ruleAlternatives(rules)) {
+    if (!probabilistic.has(target)) continue;
+    const sum = alternatives.reduce((total, a) => total + a.weight, 0);
+    if (Math.abs(sum - 1) > PROBABILITY_TOLERANCE) {
+      const last = alternatives[alternatives.length - 1].rule;
+      last.diagnostics.push(
+        createDiagnostic(
+          'probability-sum',
+          `Probabilities for '${target}' sum to ${Number(sum.toFixed(6))}; they are rescaled to 1`,
+          last.probabilitySpan ?? last.targetSpan,
+          'warning',
+        ),
+      );
+    }
+  }
+  return rules;
+}
+
+const PROBABILITY_TOLERANCE = 1e-6;
+
+/** One candidate update function of a target. */
+export interface RuleAlternative {
+  rule: ParsedRule;
+  expression: RuleExpression;
+  /** Selection probability; the alternatives of a target sum to 1. */
+  probability: number;
+  /** Probability before rescaling (`@ p`, or the share of the remainder for rules without one). */
+  weight: number;
+}
+
+/**
+ * Valid rules grouped by target, in order of first appearance. When none of a
+ * target's rules has a probability, the last one is its only alternative (a
+ * later rule replaces earlier ones). Otherwise every rule is an alternative:
+ * rules without `@ p` share what the others leave of 1, and the probabilities
+ * are rescaled to sum to 1.
+ */
+export function ruleAlternatives(rules: ParsedRule[]): Map<string, RuleAlternative[]> {
+  const byTarget = new Map<string, ParsedRule[]>();
+  for (const rule of rules) {
+    if (!rule.target || !rule.expression || hasErrors(rule)) continue;
+    byTarget.set(rule.target, [...(byTarget.get(rule.target) ?? []), rule]);
+  }
+
+  const alternatives = new Map<string, RuleAlternative[]>();
+  for (const [target, targetRules] of byTarget) {
+    if (!targetRules.some(rule => rule.probability !== undefined)) {
+      const rule = targetRules[targetRules.length - 1];
+      alternatives.set(target, [{ rule, expression: rule.expression!, probability: 1, weight: 1 }]);
+      continue;
+    }
+    const explicit = targetRules.reduce((sum, rule) => sum + (rule.probability ?? 0), 0);
+    const unweighted = targetRules.filter(rule => rule.probability === undefined).length;
+    const share = unweighted > 0 ? Math.max(0, 1 - explicit) / unweighted : 0;
+    const weights = targetRules.map(rule => rule.probability ?? share);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    alternatives.set(target, targetRules.map((rule, i) => ({
+      rule,
+      expression: rule.expression!,
+      weight: weights[i],
+      probability: total > 0 ? weights[i] / total : 1 / targetRules.length,
+    })));
+  }
+  return alternatives;
+}
+
+export function hasErrors(parsed: { diagnostics: RuleDiagnostic[] }): boolean {
+  return parsed.diagnostics.some(d => d.severity === 'error');
+}
+
+export function firstError(parsed: { diagnostics: RuleDiagnostic[] }): RuleDiagnostic | undefined {
+  return parsed.diagnostics.find(d => d.severity === 'error');
+}
+
+/** Identifiers of an expression in order of first appearance. */
+export function collectIdentifiers(expression: RuleExpression): string[] {
+  const names = new Set<string>();
+  const visit = (e: RuleExpression) => {
+    switch (e.kind) {
+      case 'identifier': names.add(e.name); break;
+      case 'constant': break;
+      case 'not': visit(e.operand); break;
+      case 'binary': visit(e.left); visit(e.right); break;
+    }
+  };
+  visit(expression);
+  return Array.from(names);
+}
+
+export type Polarity = 'positive' | 'negative' | 'dual';
+
+/**
+ * How each identifier acts on an expression: only un-negated, only negated,
+ * or both ('dual'). NAND/NOR negate their operands; XOR makes them dual.
+ */
+export function identifierPolarities(expression: RuleExpression): Map<string, Polarity> {
+  const polarities = new Map<string, Polarity>();
+  const visit = (e: RuleExpression, negated: boolean, dual: boolean) => {
+    switch (e.kind) {
+      case 'identifier': {
+        const polarity: Polarity = dual ? 'dual' : negated ? 'negative' : 'positive';
+        const previous = polarities.get(e.name);
+        polarities.set(e.name, previous && previous !== polarity ? 'dual' : polarity);
+        break;
+      }
+      case 'constant':
+        break;
+      case 'not':
+        visit(e.operand, !negated, dual);
+        break;
+      case 'binary': {
+        const flips = e.operator === 'NAND' || e.operator === 'NOR';
+        const isXor = e.operator === 'XOR';
+        visit(e.left, negated !== flips, dual || isXor);
+        visit(e.right, negated !== flips, dual || isXor);
+        break;
+      }
+    }
+  };
+  visit(expression, false, false);
+  return polarities;
+}
+
+const OPERATOR_VALUES: Record<BinaryOperator, (a: 0 | 1, b: 0 | 1) => 0 | 1> = {
+  AND: (a, b) => (a & b) as 0 | 1,
+  OR: (a, b) => (a | b) as 0 | 1,
+  XOR: (a, b) => (a ^ b) as 0 | 1,
+  NAND: (a, b) => ((a & b) ^ 1) as 0 | 1,
+  NOR: (a, b) => ((a | b) ^ 1) as 0 | 1,
+};
+
+/**
+ * Replaces the given identifiers by constants and folds the constants away,
+ * e.g. `A && !B || C` with B = 1 becomes `C`. Used to cut a single regulation
+ * out of a rule without touching the rest of it.
+ */
+export function substituteConstants(expression: RuleExpression, values: Record<string, 0 | 1>): RuleExpression {
+  const constant = (value: 0 | 1, span: SourceSpan): RuleExpression => ({ kind: 'constant', value, span });
+  const negate = (operand: RuleExpression, span: SourceSpan): RuleExpression => {
+    if (operand.kind === 'constant') return constant((operand.value ^ 1) as 0 | 1, span);
+    return operand.kind === 'not' ? operand.operand : { kind: 'not', operand, span };
+  };
+
+  const fold = (e: RuleExpression): RuleExpression => {
+    switch (e.kind) {
+      case 'identifier':
+        return Object.prototype.hasOwnProperty.call(values, e.name) ? constant(values[e.name], e.span) : e;
+      case 'constant':
+        return e;
+      case 'not':
+        return negate(fold(e.operand), e.span);
+      case 'binary': {
+        const left = fold(e.left);
+        const right = fold(e.right);
+        if (left.kind === 'constant' && right.kind === 'constant') {
+          return constant(OPERATOR_VALUES[e.operator](left.value, right.value), e.span);
+        }
+        const known = left.kind === 'constant' ? left : right.kind === 'constant' ? right : null;
+        if (!known) return { ...e, left, right };
+        const other = known === left ? right : left;
+        switch (e.operator) {
+          case 'AND': return known.value ? other : constant(0, e.span);
+          case 'OR': return known.value ? constant(1, e.span) : other;
+          case 'XOR': return known.value ? negate(other, e.span) : other;
+          case 'NAND': return known.value ? negate(other, e.span) : constant(1, e.span);
+          case 'NOR': return known.value ? constant(0, e.span) : negate(other, e.span);
+        }
+      }
+    }
+  };
+  return fold(expression);
+}
+
+/**
+ * Canonical text of an expression: `&&`, `||`, `!`, `XOR`/`NAND`/`NOR`,
+ * constants as `0`/`1`, and only the parentheses the structure needs.
+ */
+export function printExpression(expression: RuleExpression): string {
+  const print = (e: RuleExpression, minBinding: number): string => {
+    switch (e.kind) {
+      case 'identifier':
+        return e.name;
+      case 'constant':
+        return String(e.value);
+      case 'not': {
+        const operand = print(e.operand, 3);
+        return `!${operand}`;
+      }
+      case 'binary': {
+        const binding = BINDING[e.operator];
+        // Left-associative: a right operand at the same level needs parentheses.
+        const text = `${print(e.left, binding)} ${SYMBOLS[e.operator]} ${print(e.right, binding + 1)}`;
+        return binding < minBinding ? `(${text})` : text;
+      }
+    }
+  };
+  return print(expression, 0);
+}
+
+/** Canonical `TARGET = EXPRESSION` text, with ` @ p` when a probability is given. */
+export function printRule(target: string, expression: RuleExpression, probability?: number): string {
+  const suffix = probability === undefined ? '' : ` @ ${probability}`;
+  return `${target} = ${printExpression(expression)}${suffix}`;
+}
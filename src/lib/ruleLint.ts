@@ -0,0 +1,168 @@
+/**
+ * Lint a rule set against the network it belongs to.
+ *
+ * On top of the parser's diagnostics this reports graph nodes without a rule,
+ * rule nodes missing from the graph, self-loops, and drift between rules and
+ * drawn edges (missing, unused or wrongly signed edges), and lists the nodes
+ * and edges the graph needs to match the rules.
+ */
+
+import type { NetworkEdge, NetworkNode } from '@/types/network';
+import type { ParsedRule, RuleDiagnostic, RuleExpression } from './ruleLanguage';
+import { createDiagnostic, identifierPolarities, parseRules } from './ruleLanguage';
+import type { RegulationSign } from './ruleGraphSync';
+import { SIGN_OF_POLARITY, edgeSign, graphNodeIds } from './ruleGraphSync';
+
+export interface RuleLintIssue extends RuleDiagnostic {
+  /** 0-based line of the rules text, or null for issues about the network as a whole. */
+  line: number | null;
+}
+
+export interface RuleLintNetwork {
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+}
+
+export interface RuleLintResult {
+  rules: ParsedRule[];
+  /** Sorted by line; network-level issues come last. */
+  issues: RuleLintIssue[];
+  /** Rule names with no matching graph node (by id or label). */
+  missingNodes: string[];
+  /** Regulations used by a valid rule but not drawn, as rule names, signed from the rule. */
+  missingEdges: Array<{ source: string; target: string; sign: RegulationSign }>;
+}
+
+/** Identifier occurrences of an expression, in source order. */
+function identifierNodes(expression: RuleExpression): Array<Extract<RuleExpression, { kind: 'identifier' }>> {
+  switch (expression.kind) {
+    case 'identifier':
+      return [expression];
+    case 'constant':
+      return [];
+    case 'not':
+      return identifierNodes(expression.operand);
+    case 'binary':
+      return [...identifierNodes(expression.left), ...identifierNodes(expression.right)];
+  }
+}
+
+/**
+ * Lint rules text (one rule per line). Without a network only the rules themselves are checked.
+ */
+export function lintRules(text: string, network?: RuleLintNetwork | null): RuleLintResult {
+  const idOf = network ? graphNodeIds(network.nodes) : null;
+  const labelOf = new Map((network?.nodes ?? []).map(n => [n.id, n.label ?? n.id]));
+  const rules = parseRules(text.split('\n'), { knownLabels: idOf?.keys() });
+  const issues: RuleLintIssue[] = [];
+  const missingNodes = new Set<string>();
+  const missingEdges: RuleLintResult['missingEdges'] = [];
+
+  const drawn = new Map((network?.edges ?? []).map(e => [`${e.source}\u0000${e.target}`, e]));
+  // Regulations already listed, for targets with more than one rule
+  const pending = new Set<string>();
+  // Alternative rules (`@ p`) of a target are linted together, so an edge only one of them uses is not unused
+  const probabilistic = new Set(rules.filter(rule => rule.probabilitySpan).map(rule => rule.target));
+  const usedBy = new Map<string, Set<string>>();
+  for (const rule of rules) {
+    if (!rule.expression || !probabilistic.has(rule.target)) continue;
+    const used = usedBy.get(rule.target) ?? new Set<string>();
+    for (const name of identifierPolarities(rule.expression).keys()) used.add(idOf?.get(name) ?? name);
+    usedBy.set(rule.target, used);
+  }
+
+  for (const rule of rules) {
+    const line = rule.line ?? null;
+    issues.push(...rule.diagnostics.map(d => ({ ...d, line })));
+
+    if (idOf && rule.target && !idOf.has(rule.target)) {
+      missingNodes.add(rule.target);
+      issues.push({
+        ...createDiagnostic('unknown-identifier', `'${rule.target}' is not in the network`, rule.targetSpan, 'warning'),
+        line,
+      });
+    }
+    if (!rule.expression) continue;
+
+    const polarities = identifierPolarities(rule.expression);
+    const used = usedBy.get(rule.target) ?? new Set<string>();
+    const reported = new Set<string>();
+    for (const node of identifierNodes(rule.expression)) {
+      if (reported.has(node.name)) continue;
+      reported.add(node.name);
+      if (node.name === rule.target) {
+        issues.push({
+          ...createDiagnostic('self-loop', `'${rule.target}' regulates itself`, node.span, 'warning'),
+          line,
+        });
+        continue;
+      }
+      if (idOf && !idOf.has(node.name)) {
+        missingNodes.add(node.name);
+        issues.push({
+          ...createDiagnostic('unknown-identifier', `'${node.name}' is not in the network`, node.span, 'warning'),
+          line,
+        });
+      }
+
+      if (!idOf) continue;
+      const source = idOf.get(node.name) ?? node.name;
+      const target = idOf.get(rule.target) ?? rule.target;
+      const key = `${source}\u0000${target}`;
+      const sign = SIGN_OF_POLARITY[polarities.get(node.name)!];
+      const edge = drawn.get(key);
+      used.add(source);
+      if (!edge) {
+        if (!pending.has(key)) {
+          pending.add(key);
+          missingEdges.push({ source: node.name, target: rule.target, sign });
+        }
+        // Regulators missing from the graph are already reported above
+        if (idOf.has(node.name) && idOf.has(rule.target)) {
+          issues.push({
+            ...createDiagnostic('missing-edge', `No edge from '${node.name}' to '${rule.target}' in the network`, node.span, 'warning'),
+            line,
+          });
+        }
+      } else if (sign !== 'dual' && edgeSign(edge) !== sign) {
+        issues.push({
+          ...createDiagnostic(
+            'sign-mismatch',
+            `Edge '${node.name}' → '${rule.target}' is drawn as an ${edgeSign(edge)} but the rule uses it as an ${sign}`,
+            node.span,
+            'warning',
+          ),
+          line,
+        });
+      }
+    }
+
+    // Drawn regulators of this target that the rule ignores
+    if (network && idOf?.has(rule.target)) {
+      const target = idOf.get(rule.target)!;
+      for (const edge of network.edges) {
+        if (edge.target !== target || edge.source === target || used.has(edge.source)) continue;
+        const source = labelOf.get(edge.source) ?? edge.source;
+        issues.push({
+          ...createDiagnostic('unused-edge', `Edge from '${source}' is not used by this rule`, rule.targetSpan, 'warning'),
+          line,
+        });
+      }
+    }
+  }
+
+  if (network && rules.length > 0) {
+    const targets = new Set(rules.map(r => r.target));
+    for (const node of network.nodes) {
+      if (targets.has(node.id) || (node.label && targets.has(node.label))) continue;
+      issues.push({
+        ...createDiagnostic('missing-rule', `'${node.label ?? node.id}' has no rule and keeps its initial value`, { start: 0, end: 0 }, 'warning'),
+        line: null,
+      });
+    }
+  }
+
+  const lineOf = (issue: RuleLintIssue) => issue.line ?? Number.MAX_SAFE_INTEGER;
+  issues.sort((a, b) => lineOf(a) - lineOf(b) || a.span.start - b.span.start);
+  return { rules, issues, missingNodes: Array.from(missingNodes), missingEdges };
+}
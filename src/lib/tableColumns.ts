@@ -0,0 +1,39 @@
+/**
+ * Reading of the tab- or comma-separated tables users upload.
+ *
+ * Headers are lower-cased by `parseTable`, so every alias list below is
+ * written in lower case and matched with `columnOf`.
+ */
+
+// Column names tried in order; the first present is used
+
+// Gene-level patient tables (expression, copy number) and cohort matrices
+export const GENE_COLUMNS = ['hugo_symbol', 'gene_symbol', 'gene_name', 'symbol', 'gene', 'name', 'gene_id', 'id'];
+export const EXPRESSION_COLUMNS = ['tpm', 'tpm_unstranded', 'fpkm', 'fpkm_unstranded', 'fpkm_uq_unstranded', 'expression', 'value', 'counts', 'count', 'unstranded'];
+export const COPY_NUMBER_COLUMNS = ['copy_number', 'cna', 'gistic', 'call', 'value'];
+
+// RNA-seq sample sheets
+export const SAMPLE_COLUMNS = ['sample', 'sample_name', 'sample_id', 'name'];
+export const CONDITION_COLUMNS = ['condition', 'group', 'treatment'];
+export const FASTQ1_COLUMNS = ['fastq_1', 'fastq1', 'r1', 'read1'];
+export const FASTQ2_COLUMNS = ['fastq_2', 'fastq2', 'r2', 'read2'];
+
+// Gene mappings and imported expression tables
+export const TRANSCRIPT_COLUMNS = ['transcript_id', 'transcript stable id', 'ensembl_transcript_id', 'tx', 'tx_id', 'target_id'];
+export const GENE_ID_COLUMNS = ['gene_id', 'gene stable id', 'ensembl_gene_id', 'ensembl_id', 'geneid', 'gene'];
+export const SYMBOL_COLUMNS = ['gene_name', 'gene name', 'gene_symbol', 'external_gene_name', 'hgnc_symbol', 'symbol', 'hugo_symbol'];
+export const MATRIX_ID_COLUMNS = ['gene_id', 'ensembl_gene_id', 'ensembl_id', 'geneid', 'gene', 'id', 'name'];
+export const COUNT_COLUMNS = ['counts', 'count', 'read_count', 'reads', 'numreads', 'expected_count'];
+
+/** Rows of a tab- or comma-separated table; `#` lines (MAF version headers) and blank lines are skipped. */
+export function parseTable(text: string): { header: string[]; rows: string[][] } {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '' && !line.startsWith('#'));
+  if (lines.length === 0) return { header: [], rows: [] };
+  const separator = lines[0].includes('\t') ? '\t' : ',';
+  const split = (line: string) => line.split(separator).map((field) => field.trim());
+  return { header: split(lines[0]).map((name) => name.toLowerCase()), rows: lines.slice(1).map(split) };
+}
+
+/** Index of the first of `names` present in the header, or -1. */
+export const columnOf = (header: string[], names: string[]) =>
+  names.map((name) => header.indexOf(name)).find((index) => index >= 0) ?? -1;
@@ -0,0 +1,237 @@
+/**
+ * Trap-space and stable-motif analysis for rule-based networks.
+ *
+ * A trap space fixes some nodes such that every rule keeps them at their
+ * values, whatever the free nodes do, so no update scheme can leave it. The
+ * search runs on a BDD with two variables per node (free flag, fixed value):
+ * - minimal trap spaces are taken fewest-free-nodes first, each time dropping
+ *   every trap space that contains one already found;
+ * - maximal trap spaces are taken most-free-nodes first, dropping the trap
+ *   spaces inside one already found. Each is a stable motif, and percolating
+ *   its values through the rules shows which nodes it locks.
+ */
+
+import type {
+  StableMotif,
+  TrapSpace,
+  TrapSpaceAnalysisOptions,
+  TrapSpaceAnalysisResult,
+} from './analysis/types';
+import { ANALYSIS_CONFIG } from '@/config/constants';
+import { compileRules } from './deterministicAnalysis';
+import { BDD_FALSE, BDD_TRUE, BddManager } from './analysis/bdd';
+import { buildUpdateFunction, computeVariableOrder } from './analysis/symbolicAnalysis';
+
+/** Fixed value per node (in node order), or null for a free node. */
+type Subspace = Array<0 | 1 | null>;
+
+/**
+ * Cheapest satisfying assignment of `u`, where setting variable x to 1 costs
+ * `weights[x]`. Variables a path skips take whichever value is cheaper.
+ */
+function pickCheapest(manager: BddManager, u: number, weights: Float64Array): Uint8Array {
+  const varCount = manager.varCount;
+  // skipped[x]: total saving from the variables below x that a path may set freely.
+  const skipped = new Float64Array(varCount + 1);
+  for (let x = 0; x < varCount; x++) skipped[x + 1] = skipped[x] + Math.min(0, weights[x]);
+  const between = (from: number, to: number) => skipped[to] - skipped[from + 1];
+
+  const memo = new Map<number, number>();
+  const cost = (node: number): number => {
+    if (node === BDD_TRUE) return 0;
+    if (node === BDD_FALSE) return Infinity;
+    const cached = memo.get(node);
+    if (cached !== undefined) return cached;
+    const result = Math.min(branchCost(node, 0), branchCost(node, 1));
+    memo.set(node, result);
+    return result;
+  };
+  const branchCost = (node: number, value: 0 | 1): number => {
+    const x = manager.topVariable(node);
+    const child = value ? manager.high(node) : manager.low(node);
+    return (value ? weights[x] : 0) + between(x, manager.topVariable(child)) + cost(child);
+  };
+
+  const assignment = new Uint8Array(varCount);
+  const fillSkipped = (from: number, to: number) => {
+    for (let x = from + 1; x < to; x++) assignment[x] = weights[x] < 0 ? 1 : 0;
+  };
+  let node = u;
+  let previous = -1;
+  while (node !== BDD_TRUE) {
+    const x = manager.topVariable(node);
+    fillSkipped(previous, x);
+    if (branchCost(node, 1) < branchCost(node, 0)) {
+      assignment[x] = 1;
+      node = manager.high(node);
+    } else {
+      node = manager.low(node);
+    }
+    previous = x;
+  }
+  fillSkipped(previous, varCount);
+  return assignment;
+}
+
+/**
+ * Compute minimal and maximal trap spaces and stable motifs of a rule set
+ */
+export function performTrapSpaceAnalysis(
+  rules: string[],
+  options: TrapSpaceAnalysisOptions = {}
+): TrapSpaceAnalysisResult {
+  const maxResults = options.maxResults ?? ANALYSIS_CONFIG.MAX_TRAP_SPACES;
+  const warnings: string[] = [];
+  const { nodeOrder, nodeLabels, compiled } = compileRules(rules, warnings);
+  const n = nodeOrder.length;
+
+  if (n > ANALYSIS_CONFIG.MAX_NODES_SYMBOLIC) {
+    throw new Error(`Trap-space analysis supports up to ${ANALYSIS_CONFIG.MAX_NODES_SYMBOLIC} nodes (network has ${n}).`);
+  }
+
+  // The node at position k of the variable order owns variables 2k ("free") and 2k + 1 (value).
+  const order = computeVariableOrder(compiled.programs);
+  const freeVar = order.map(k => 2 * k);
+  const valueVar = order.map(k => 2 * k + 1);
+  const manager = new BddManager(2 * n, ANALYSIS_CONFIG.MAX_BDD_NODES);
+  const updates = compiled.programs.map((program, node) =>
+    program ? buildUpdateFunction(manager, program, valueVar) : manager.variable(valueVar[node])
+  );
+
+  // Subspaces that share at least one state with `set` (a BDD over value variables only).
+  const intersectMemo = new Map<number, number>();
+  const intersecting = (set: number): number => {
+    if (set <= BDD_TRUE) return set;
+    const cached = intersectMemo.get(set);
+    if (cached !== undefined) return cached;
+    const value = manager.topVariable(set);
+    const free = manager.variable(value - 1);
+    const bit = manager.variable(value);
+    const result = manager.or(
+      manager.and(manager.or(free, manager.not(bit)), intersecting(manager.low(set))),
+      manager.and(manager.or(free, bit), intersecting(manager.high(set))),
+    );
+    intersectMemo.set(set, result);
+    return result;
+  };
+
+  const literal = (node: number, value: 0 | 1) => {
+    const bit = manager.variable(valueVar[node]);
+    return value ? bit : manager.not(bit);
+  };
+
+  let traps = BDD_TRUE;
+  for (let node = 0; node < n; node++) {
+    const free = manager.variable(freeVar[node]);
+    const f = updates[node];
+    // Free nodes carry value 0 so every subspace has exactly one encoding.
+    const keepsOne = manager.not(intersecting(manager.not(f)));
+    const keepsZero = manager.not(intersecting(f));
+    traps = manager.and(traps, manager.ite(free, literal(node, 0), manager.ite(literal(node, 1), keepsOne, keepsZero)));
+  }
+
+  const decode = (assignment: Uint8Array): Subspace =>
+    nodeOrder.map((_, node) => (assignment[freeVar[node]] ? null : (assignment[valueVar[node]] as 0 | 1)));
+
+  // Subspaces containing `space`: its free nodes are free, its fixed nodes free or equal.
+  const containing = (space: Subspace) =>
+    space.reduce<number>((acc, value, node) => {
+      const free = manager.variable(freeVar[node]);
+      return manager.and(acc, value === null ? free : manager.or(free, literal(node, value)));
+    }, BDD_TRUE);
+
+  // Subspaces inside `space`: its fixed nodes are fixed to the same value.
+  const inside = (space: Subspace) =>
+    space.reduce<number>((acc, value, node) => {
+      if (value === null) return acc;
+      return manager.and(acc, manager.diff(literal(node, value), manager.variable(freeVar[node])));
+    }, BDD_TRUE);
+
+  let truncated = false;
+  const collect = (candidates: number, weights: Float64Array, exclude: (space: Subspace) => number, kind: string) => {
+    const found: Subspace[] = [];
+    while (candidates !== BDD_FALSE) {
+      if (found.length >= maxResults) {
+        truncated = true;
+        warnings.push(`Only the first ${maxResults} ${kind} trap spaces are listed.`);
+        break;
+      }
+      const space = decode(pickCheapest(manager, candidates, weights));
+      found.push(space);
+      candidates = manager.diff(candidates, exclude(space));
+    }
+    return found;
+  };
+
+  const fewestFree = new Float64Array(2 * n);
+  const mostFree = new Float64Array(2 * n);
+  for (let node = 0; node < n; node++) {
+    fewestFree[freeVar[node]] = 1;
+    mostFree[freeVar[node]] = -1;
+  }
+  const wholeSpace = containing(nodeOrder.map(() => null));
+
+  const minimal = collect(traps, fewestFree, containing, 'minimal');
+  const maximal = collect(manager.diff(traps, wholeSpace), mostFree, inside, 'maximal');
+
+  /** Fix every node whose rule becomes constant, until nothing changes. */
+  const percolate = (space: Subspace): Subspace => {
+    const result = space.slice();
+    let restricted = updates.slice();
+    const fix = (node: number, value: 0 | 1) => {
+      result[node] = value;
+      restricted = restricted.map(f => manager.restrict(f, valueVar[node], value));
+    };
+    space.forEach((value, node) => {
+      if (value !== null) fix(node, value);
+    });
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (let node = 0; node < n; node++) {
+        if (result[node] === null && restricted[node] <= BDD_TRUE) {
+          fix(node, restricted[node] as 0 | 1);
+          changed = true;
+        }
+      }
+    }
+    return result;
+  };
+
+  const toPattern = (space: Subspace) => space.map(value => (value === null ? '*' : String(value))).join('');
+  const toFixed = (space: Subspace) => {
+    const fixed: Record<string, 0 | 1> = {};
+    space.forEach((value, node) => {
+      if (value !== null) fixed[nodeOrder[node]] = value;
+    });
+    return fixed;
+  };
+  const byPattern = (spaces: Subspace[]) =>
+    spaces.map(space => ({ space, pattern: toPattern(space) })).sort((a, b) => (a.pattern < b.pattern ? -1 : 1));
+
+  const minimalTrapSpaces: TrapSpace[] = byPattern(minimal).map(({ space, pattern }, id) => ({
+    id,
+    pattern,
+    fixed: toFixed(space),
+  }));
+  const sortedMaximal = byPattern(maximal);
+  const maximalTrapSpaces: TrapSpace[] = sortedMaximal.map(({ space, pattern }, id) => ({
+    id,
+    pattern,
+    fixed: toFixed(space),
+  }));
+  const stableMotifs: StableMotif[] = sortedMaximal.map(({ space }, id) => {
+    const locked = percolate(space);
+    return { id, motif: toFixed(space), locked: toFixed(locked), pattern: toPattern(locked) };
+  });
+
+  return {
+    nodeOrder,
+    nodeLabels,
+    minimalTrapSpaces,
+    maximalTrapSpaces,
+    stableMotifs,
+    truncated,
+    warnings,
+  };
+}
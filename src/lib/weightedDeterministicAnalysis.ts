@@ -64,7 +64,7 @@ export interface WeightedEdge {
 // Use centralized config instead of local hardcoded values
 const DEFAULT_STATE_CAP = ANALYSIS_CONFIG.DEFAULT_STATE_CAP;
 const DEFAULT_STEP_CAP = ANALYSIS_CONFIG.DEFAULT_STEP_CAP;
-const MAX_SUPPORTED_NODES = ANALYSIS_CONFIG.MAX_NODES_DETERMINISTIC;
+const MAX_SUPPORTED_NODES = ANALYSIS_CONFIG.MAX_NODES_WEIGHTED_LEGACY;
 
 // shared helpers imported from stateEncoding.ts
 
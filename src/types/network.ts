@@ -1,3 +1,5 @@
+import type { AttractorSignature } from '@/lib/analysis/types';
+
 export interface NetworkNode {
   id: string;
   label?: string;
@@ -21,6 +23,8 @@ export interface Rule {
   target?: 'nodes' | 'edges' | 'both';
   condition?: string;
   action?: string;
+  /** Selection probability among alternative rules for the same node (probabilistic Boolean network). */
+  probability?: number;
 }
 
 export interface CellFate {
@@ -29,11 +33,37 @@ export interface CellFate {
   markers?: string[];
   confidence?: number;
   description?: string;
+  /** Attractor this fate was assigned to, so it can be found again after reruns and edits. */
+  signature?: AttractorSignature;
+}
+
+/** Marker condition of a fate definition: the node must be active (ON) or inactive (OFF). */
+export interface FateCondition {
+  node: string;
+  active: boolean;
+}
+
+/** Project-wide fate rule used to classify attractors automatically, e.g. Apoptosis = Casp3 ON & Bcl2 OFF. */
+export interface FateDefinition {
+  id: string;
+  name: string;
+  color: string;
+  conditions: FateCondition[];
+  description?: string;
+}
+
+/** Regulation removed (edge knock-out) or added (edge knock-in) by an edge intervention. */
+export interface EdgeRegulation {
+  source: string;
+  target: string;
+  sign: 'activation' | 'inhibition';
+  /** Weight of an added edge in weighted analysis; defaults to 1 (activation) or -1 (inhibition). */
+  weight?: number;
 }
 
 export interface TherapeuticIntervention {
   id: string;
-  type: 'knock-in' | 'knock-out';
+  type: 'knock-in' | 'knock-out' | 'edge-knock-in' | 'edge-knock-out';
   nodeName: string;
   nodeRule: string | null;
   fixedValue: 0 | 1 | null;
@@ -43,6 +73,8 @@ export interface TherapeuticIntervention {
     addition: string;
     originalRule?: string;
   }>;
+  /** Set for edge interventions, whose `nodeName` is the regulated target. */
+  edge?: EdgeRegulation;
   timestamp: number;
 }
 
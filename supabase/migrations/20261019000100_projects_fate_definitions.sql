@@ -0,0 +1,3 @@
+-- Fate-definition library of a project (FateDefinition[]), read by useProjectColumn(projectId, 'fate_definitions').
+alter table public.projects
+  add column if not exists fate_definitions jsonb not null default '[]'::jsonb;
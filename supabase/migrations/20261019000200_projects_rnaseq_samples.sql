@@ -0,0 +1,3 @@
+-- RNA-seq sample sheet of a project (RNASeqSample[]), read by useProjectColumn(projectId, 'rnaseq_samples').
+alter table public.projects
+  add column if not exists rnaseq_samples jsonb not null default '[]'::jsonb;
@@ -0,0 +1,41 @@
+-- Count/TPM tables imported into a project, one row per import (useExpressionDatasets).
+create table if not exists public.expression_datasets (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  name text not null,
+  source text not null default '',
+  format text not null check (format in ('featurecounts', 'salmon', 'gene-table', 'matrix')),
+  value_type text not null check (value_type in ('counts', 'tpm')),
+  -- RNASeqResults[], one entry per sample
+  samples jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists expression_datasets_project_id_idx on public.expression_datasets (project_id);
+
+-- Members of a project (its creator and assignees) can read and change its datasets.
+alter table public.expression_datasets enable row level security;
+
+create policy "Project members can read expression datasets"
+  on public.expression_datasets for select
+  using (exists (
+    select 1 from public.projects p
+    where p.id = expression_datasets.project_id
+      and (p.created_by = auth.uid() or auth.uid() = any (p.assignees))
+  ));
+
+create policy "Project members can add expression datasets"
+  on public.expression_datasets for insert
+  with check (exists (
+    select 1 from public.projects p
+    where p.id = expression_datasets.project_id
+      and (p.created_by = auth.uid() or auth.uid() = any (p.assignees))
+  ));
+
+create policy "Project members can delete expression datasets"
+  on public.expression_datasets for delete
+  using (exists (
+    select 1 from public.projects p
+    where p.id = expression_datasets.project_id
+      and (p.created_by = auth.uid() or auth.uid() = any (p.assignees))
+  ));